@@ -0,0 +1,28 @@
+/**
+ * Vercel API Route: Public Puzzles
+ *
+ *   GET  /api/puzzle/:genre/:date
+ *   POST /api/puzzle/:id/guess
+ *
+ * vercel.json rewrites /api/puzzle/* here with the rest of the path in ?route.
+ * Thin Vercel adapter around the shared puzzle API handler; the Vite dev
+ * server serves the same handler via puzzleApiMiddleware.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { PUZZLE_API_PATH, handlePuzzleApiRequest } from '../src/services/puzzle-api/puzzleApiHandler';
+import { createPuzzleApiStorage } from '../src/services/puzzle-api/puzzleApiStorage';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const route = typeof req.query.route === 'string' ? req.query.route : '';
+
+  const result = await handlePuzzleApiRequest(
+    { method: req.method, path: `${PUZZLE_API_PATH}/${route}`, body: req.body },
+    { storage: createPuzzleApiStorage(process.env) }
+  );
+
+  for (const [name, value] of Object.entries(result.headers)) {
+    res.setHeader(name, value);
+  }
+  return res.status(result.status).json(result.body);
+}
@@ -28,6 +28,10 @@ export default [js.configs.recommended, {
       localStorage: 'readonly',
       sessionStorage: 'readonly',
       fetch: 'readonly',
+      Response: 'readonly',
+      ReadableStream: 'readonly',
+      TextEncoder: 'readonly',
+      TextDecoder: 'readonly',
       URL: 'readonly',
       setTimeout: 'readonly',
       clearTimeout: 'readonly',
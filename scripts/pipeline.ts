@@ -0,0 +1,244 @@
+#!/usr/bin/env bun
+/**
+ * Pipeline CLI Script
+ *
+ * Runs the puzzle pipeline and pool operations from the command line.
+ * Used by the GitHub Actions cron job to fill the calendar twice a month
+ * (`fill`), and by ops for one-off repairs without the admin UI.
+ * Run with --help for the commands, options and exit codes.
+ *
+ * Required environment variables:
+ * - SUPABASE_URL
+ * - SUPABASE_SERVICE_ROLE_KEY
+ * - ANTHROPIC_API_KEY for fill and generate (not needed when GENERATION_PROVIDER=stub)
+ * - TMDB_API_KEY (optional, for film verification)
+ *
+ * Optional:
+ * - GENERATION_PROVIDER: "anthropic" (default) or "stub" for offline runs
+ * - GENERATION_MODEL, GENERATION_MAX_TOKENS, GENERATION_TEMPERATURE
+ *
+ * Alerts (fill and `alerts check`; printed to the console when none are set):
+ * - ALERT_WEBHOOK_URL: POST each alert as JSON (Slack-compatible `text` field)
+ * - SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD,
+ *   ALERT_EMAIL_FROM, ALERT_EMAIL_TO (comma-separated): email each alert
+ * - ALERT_LOG_FILE: append each alert to this file
+ * - ALERT_CONSOLE=true: also print alerts when other notifiers are set
+ * - ALERT_GAP_WARNING_DAYS, ALERT_GAP_CRITICAL_DAYS, ALERT_MIN_UNUSED_GROUPS,
+ *   ALERT_FORECAST_WARNING_DAYS, ALERT_FORECAST_CRITICAL_DAYS,
+ *   ALERT_COOLDOWN_HOURS: thresholds and how long a repeated alert stays quiet
+ *
+ * Usage:
+ *   bun run scripts/pipeline.ts fill
+ *   bun run scripts/pipeline.ts fill --genre films --days 7 --dry-run
+ *   bun run scripts/pipeline.ts pool status --json
+ *   bun run scripts/pipeline.ts puzzles unschedule --genre music --from 2025-03-01 --to 2025-03-03
+ *   GENERATION_PROVIDER=stub bun run scripts/pipeline.ts generate --genre books --color purple --count 5
+ *   bun run scripts/pipeline.ts jobs resume --id <job id>
+ *   bun run scripts/pipeline.ts alerts check
+ *   bun run scripts/pipeline.ts rules add --genre films --name "Halloween week" --yearly 10-25..10-31 --tag horror --min-groups 2
+ *   bun run scripts/pipeline.ts rules check
+ *   bun run scripts/pipeline.ts release set --genre films --timezone America/New_York --hour 0
+ */
+
+import { appendFile } from 'node:fs/promises';
+import { hostname, userInfo } from 'node:os';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../src/lib/supabase/types';
+import { SupabaseStorage } from '../src/lib/supabase/storage/SupabaseStorage';
+import { SupabaseGroupStorage } from '../src/lib/supabase/storage/SupabaseGroupStorage';
+import { PipelineService } from '../src/services/pipeline/PipelineService';
+import { PipelineConfigStore } from '../src/services/pipeline/PipelineConfigStore';
+import { PipelineGenerator } from '../src/services/pipeline/PipelineGenerator';
+import { AnthropicGroupCritic } from '../src/services/pipeline/AnthropicGroupCritic';
+import { PipelineRunStore } from '../src/services/pipeline/PipelineRunStore';
+import { PipelineLockStore } from '../src/services/pipeline/PipelineLockStore';
+import { GenerationJobStore } from '../src/services/pipeline/GenerationJobStore';
+import { SchedulingRuleStore } from '../src/services/pipeline/SchedulingRuleStore';
+import {
+  PIPELINE_CLI_USAGE,
+  PipelineCliUsageError,
+  parsePipelineCliArgs,
+  type PipelineCliInvocation,
+} from '../src/services/pipeline/pipelineCliArgs';
+import { CLI_EXIT_CODES, runPipelineCli } from '../src/services/pipeline/pipelineCli';
+import { ConnectionTypeStore } from '../src/services/group-generator/ConnectionTypeStore';
+import { FeedbackStore } from '../src/services/group-generator/FeedbackStore';
+import { GenerationLedgerStore } from '../src/services/group-generator/GenerationLedgerStore';
+import { LedgerRecordingProvider } from '../src/services/group-generator/providers/LedgerRecordingProvider';
+import { createVerifier } from '../src/services/group-generator/verifiers/VerifierFactory';
+import {
+  createGenerationProvider,
+  getProviderOptionsFromEnv,
+} from '../src/services/group-generator/providers/ProviderFactory';
+import { MetadataOverlapAnalyzer } from '../src/services/puzzle-analysis/MetadataOverlapAnalyzer';
+import { TMDBMetadataSource } from '../src/services/puzzle-analysis/TMDBMetadataSource';
+import {
+  AlertLogStore,
+  AlertService,
+  createNotifiers,
+  getAlertingOptionsFromEnv,
+  type AlertingOptions,
+} from '../src/services/alerting';
+import { getTodayDate } from '../src/utils';
+import type { Genre } from '../src/types';
+import { SmtpTransport } from './smtpTransport';
+
+async function main() {
+  let invocation: PipelineCliInvocation;
+  try {
+    invocation = parsePipelineCliArgs(process.argv.slice(2), getTodayDate());
+  } catch (error) {
+    if (error instanceof PipelineCliUsageError) {
+      console.error(`Error: ${error.message}\n\n${PIPELINE_CLI_USAGE}`);
+      process.exit(CLI_EXIT_CODES.USAGE);
+    }
+    throw error;
+  }
+
+  const { command, json } = invocation;
+  if (command.name === 'help') {
+    console.log(PIPELINE_CLI_USAGE);
+    process.exit(CLI_EXIT_CODES.OK);
+  }
+
+  // With --json, stdout carries only the result
+  const log = json ? (message: string) => console.error(message) : (message: string) => console.log(message);
+  const fail = (message: string) => {
+    console.error(`Error: ${message}`);
+    if (json) console.log(JSON.stringify({ error: message }));
+    process.exit(CLI_EXIT_CODES.FAILED);
+  };
+
+  // The scheduled workflow is recorded as cron, anything else as a CLI run
+  const trigger = process.env.GITHUB_EVENT_NAME === 'schedule' ? 'cron' : 'cli';
+  // Shown in the admin while this run holds a genre's lock
+  const holder = process.env.GITHUB_RUN_ID
+    ? `GitHub Actions run ${process.env.GITHUB_RUN_ID}`
+    : `${userInfo().username}@${hostname()}`;
+
+  // Get environment variables
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const providerOptions = getProviderOptionsFromEnv(process.env);
+  const provider = createGenerationProvider(providerOptions);
+  const needsProvider =
+    command.name === 'fill' || command.name === 'generate' || command.name === 'jobs resume';
+
+  if (!supabaseUrl) {
+    return fail('SUPABASE_URL environment variable is required');
+  }
+
+  if (!supabaseKey) {
+    return fail('SUPABASE_SERVICE_ROLE_KEY environment variable is required');
+  }
+
+  if (needsProvider && !provider) {
+    return fail('ANTHROPIC_API_KEY environment variable is required (or set GENERATION_PROVIDER=stub)');
+  }
+
+  let alertingOptions: AlertingOptions;
+  try {
+    alertingOptions = getAlertingOptionsFromEnv(process.env);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'Invalid alerting configuration');
+  }
+
+  log(`Timestamp: ${new Date().toISOString()}`);
+  if (needsProvider && provider) {
+    log(`Generation provider: ${provider.name}`);
+  }
+
+  // Create Supabase client
+  const supabase = createClient<Database>(supabaseUrl, supabaseKey);
+
+  // Create storage instances
+  const puzzleStorage = new SupabaseStorage(supabase);
+  const groupStorage = new SupabaseGroupStorage(supabase);
+
+  // Create config store
+  const configStore = new PipelineConfigStore(supabase);
+
+  // Every generation call is recorded in the ledger, which also enforces the monthly token budget
+  const generationLedger = new GenerationLedgerStore(supabase);
+
+  // Create pipeline service
+  const pipelineService = new PipelineService(puzzleStorage, groupStorage, generationLedger);
+  pipelineService.setRunLog(new PipelineRunStore(supabase));
+  // Skips a genre while Fill Now (or another run) is filling it
+  pipelineService.setLock(new PipelineLockStore(supabase));
+  // Generation runs as checkpointed jobs that `jobs resume` can pick up after an interruption
+  const jobStore = new GenerationJobStore(supabase);
+  pipelineService.setJobStore(jobStore);
+  // Themed days: fills honour the rules and report the ones they cannot
+  const ruleStore = new SchedulingRuleStore(supabase);
+  pipelineService.setSchedulingRules(ruleStore, new ConnectionTypeStore(supabase));
+  // Fills end with an alert check; the alert log keeps repeats quiet across runs
+  pipelineService.setAlerter(
+    new AlertService(
+      createNotifiers(alertingOptions, {
+        createEmailTransport: (config) => new SmtpTransport(config),
+        appendToFile: (path, line) => appendFile(path, line),
+      }),
+      new AlertLogStore(supabase),
+      { thresholds: alertingOptions.thresholds, cooldownMs: alertingOptions.cooldownMs }
+    )
+  );
+
+  // Prefer puzzles with red herrings and reject ones where an item fits two groups.
+  // Offline runs skip the TMDB lookups and rely on stored metadata only.
+  pipelineService.setOverlapAnalyzer(
+    new MetadataOverlapAnalyzer(provider?.offline ? null : new TMDBMetadataSource())
+  );
+
+  const createGenerator = (genre: Genre) => {
+    if (!provider) {
+      throw new Error('No generation provider configured');
+    }
+
+    const recordingProvider = new LedgerRecordingProvider(provider, generationLedger, trigger);
+
+    // Self-critique for the quality gate (used by genres with self_critique_enabled); offline runs have no critic
+    const critic =
+      !provider.offline && providerOptions.apiKey
+        ? new AnthropicGroupCritic(providerOptions.apiKey, providerOptions.settings, generationLedger, trigger)
+        : undefined;
+
+    return new PipelineGenerator(
+      groupStorage,
+      new ConnectionTypeStore(supabase),
+      new FeedbackStore(supabase),
+      createVerifier(genre, { offline: provider.offline }),
+      recordingProvider,
+      critic
+    );
+  };
+
+  let result;
+  try {
+    result = await runPipelineCli(command, {
+      puzzleStorage,
+      groupStorage,
+      configStore,
+      pipelineService,
+      createGenerator,
+      jobStore,
+      ruleStore,
+      trigger,
+      holder,
+      log,
+    });
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  if (json) {
+    console.log(JSON.stringify(result.data, null, 2));
+  }
+
+  process.exit(result.exitCode);
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(CLI_EXIT_CODES.FAILED);
+});
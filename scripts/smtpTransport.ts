@@ -0,0 +1,216 @@
+/**
+ * SMTP Transport
+ *
+ * Minimal SMTP client for email alerts from the pipeline CLI: implicit TLS
+ * or STARTTLS, AUTH LOGIN and plain-text messages. Opens a connection per
+ * message, which is plenty for a handful of alerts per run.
+ */
+
+import { connect as connectTcp, type Socket } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+import { hostname } from 'node:os';
+import type { EmailMessage, IEmailTransport, SmtpConfig } from '../src/services/alerting/types';
+
+/** Longest wait for the server before giving up */
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpTransport implements IEmailTransport {
+  constructor(private config: SmtpConfig) {}
+
+  async sendMail(message: EmailMessage): Promise<void> {
+    const { host, port, secure, user, password } = this.config;
+    const connection = await SmtpConnection.open(host, port, secure);
+
+    try {
+      await connection.expect('greeting', [220]);
+      const features = await connection.command(`EHLO ${hostname()}`, [250]);
+
+      if (!secure && features.lines.some((line) => line.toUpperCase().startsWith('STARTTLS'))) {
+        await connection.command('STARTTLS', [220]);
+        await connection.startTls(host);
+        await connection.command(`EHLO ${hostname()}`, [250]);
+      }
+
+      if (user && password) {
+        await connection.command('AUTH LOGIN', [334]);
+        await connection.command(toBase64(user), [334], 'AUTH username');
+        await connection.command(toBase64(password), [235], 'AUTH password');
+      }
+
+      await connection.command(`MAIL FROM:<${message.from}>`, [250]);
+      for (const recipient of message.to) {
+        await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+      }
+      await connection.command('DATA', [354]);
+      await connection.command(`${formatMessage(message)}\r\n.`, [250], 'message');
+      await connection.command('QUIT', [221]);
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+/**
+ * Line-based SMTP conversation over a socket that can be upgraded to TLS
+ */
+class SmtpConnection {
+  private socket: Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: (() => void) | null = null;
+  private error: Error | null = null;
+  private closed = false;
+
+  private constructor(socket: Socket) {
+    this.socket = socket;
+    this.listen(socket);
+  }
+
+  static async open(host: string, port: number, secure: boolean): Promise<SmtpConnection> {
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const connecting = secure
+        ? connectTls({ host, port, servername: host }, () => resolve(connecting))
+        : connectTcp({ host, port }, () => resolve(connecting));
+      connecting.once('error', reject);
+      connecting.setTimeout(SMTP_TIMEOUT_MS, () => {
+        connecting.destroy();
+        reject(new Error(`SMTP connection to ${host}:${port} timed out`));
+      });
+    });
+
+    return new SmtpConnection(socket);
+  }
+
+  /**
+   * Read a response and check its code
+   */
+  async expect(step: string, codes: number[]): Promise<SmtpResponse> {
+    const response = await this.readResponse();
+    if (!codes.includes(response.code)) {
+      throw new Error(`SMTP ${step} failed: ${response.code} ${response.lines.join(' ')}`);
+    }
+    return response;
+  }
+
+  /**
+   * Send a command and check the response code.
+   * `step` names the command in errors instead of its text (which may hold credentials).
+   */
+  async command(line: string, codes: number[], step: string = line.split(' ')[0]): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(step, codes);
+  }
+
+  /**
+   * Upgrade the connection after STARTTLS
+   */
+  async startTls(host: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+
+    this.socket = await new Promise<Socket>((resolve, reject) => {
+      const secured = connectTls({ socket: this.socket, servername: host }, () => resolve(secured));
+      secured.once('error', reject);
+    });
+    this.listen(this.socket);
+  }
+
+  close(): void {
+    this.closed = true;
+    this.socket.end();
+  }
+
+  private listen(socket: Socket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => this.fail(new Error('SMTP server stopped responding')));
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      let end = this.buffer.indexOf('\r\n');
+      while (end !== -1) {
+        this.lines.push(this.buffer.slice(0, end));
+        this.buffer = this.buffer.slice(end + 2);
+        end = this.buffer.indexOf('\r\n');
+      }
+      this.waiting?.();
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private fail(error: Error): void {
+    if (this.closed) {
+      return;
+    }
+    this.error ??= error;
+    this.socket.destroy();
+    this.waiting?.();
+  }
+
+  /**
+   * Read a (possibly multi-line) response: "250-..." lines continue, "250 ..." ends it
+   */
+  private async readResponse(): Promise<SmtpResponse> {
+    const lines: string[] = [];
+
+    for (;;) {
+      const line = await this.readLine();
+      lines.push(line.slice(4));
+      if (line.charAt(3) !== '-') {
+        return { code: Number(line.slice(0, 3)), lines };
+      }
+    }
+  }
+
+  private readLine(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        const line = this.lines.shift();
+        if (line !== undefined) {
+          this.waiting = null;
+          resolve(line);
+        } else if (this.error) {
+          this.waiting = null;
+          reject(this.error);
+        } else {
+          this.waiting = check;
+        }
+      };
+      check();
+    });
+  }
+}
+
+/**
+ * Headers and dot-stuffed body of a plain-text message
+ */
+function formatMessage(message: EmailMessage): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = message.text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith('.') ? `.${line}` : line));
+
+  return [...headers, '', ...body].join('\r\n');
+}
+
+/**
+ * Encode a header value with non-ASCII characters as an RFC 2047 encoded word
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${toBase64(value)}?=`;
+}
+
+function toBase64(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64');
+}
@@ -16,6 +16,8 @@ import { PuzzleBuilder } from "./components/PuzzleBuilder/PuzzleBuilder";
 import { ConnectionTypesPage } from "./components/ConnectionTypes/ConnectionTypesPage";
 import { NewGroupGeneratorPage } from "./components/GroupGenerator/NewGroupGeneratorPage";
 import { UserSubmissionsPage } from "./components/UserSubmissions";
+import { PipelineHistoryPage } from "./components/PipelineHistory";
+import { MasterCalendarPage } from "./components/MasterCalendar";
 import { Footer } from "./components/Footer/Footer";
 
 const queryClient = new QueryClient({
@@ -57,11 +59,14 @@ function ThemedApp() {
               >
                 <Route index element={<AdminDashboard />} />
                 <Route path="puzzles" element={<PuzzleQueue />} />
+                <Route path="calendar" element={<MasterCalendarPage />} />
                 <Route path="groups" element={<GroupPool />} />
                 <Route path="build" element={<PuzzleBuilder />} />
                 <Route path="connection-types" element={<ConnectionTypesPage />} />
                 <Route path="generate" element={<NewGroupGeneratorPage />} />
                 <Route path="submissions" element={<UserSubmissionsPage />} />
+                <Route path="history" element={<PipelineHistoryPage />} />
+                <Route path="history/:runId" element={<PipelineHistoryPage />} />
               </Route>
             </Routes>
             <Footer />
@@ -1,6 +1,7 @@
 import type { Meta, StoryObj } from "@storybook/react-vite";
 import { MemoryRouter } from "react-router-dom";
 import { MockThemeProvider } from "../../../.storybook/MockThemeProvider";
+import { MockQueryClientProvider } from "../../../.storybook/MockQueryClientProvider";
 import { AdminDashboard } from "./Dashboard";
 import "./Dashboard.css";
 
@@ -14,9 +15,11 @@ const meta: Meta<typeof AdminDashboard> = {
   decorators: [
     (Story) => (
       <MockThemeProvider>
-        <MemoryRouter initialEntries={["/admin"]}>
-          <Story />
-        </MemoryRouter>
+        <MockQueryClientProvider>
+          <MemoryRouter initialEntries={["/admin"]}>
+            <Story />
+          </MemoryRouter>
+        </MockQueryClientProvider>
       </MockThemeProvider>
     ),
   ],
@@ -1,5 +1,6 @@
-import React from "react";
+import React, { useMemo } from "react";
 import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
 import {
   Box,
   Heading,
@@ -8,8 +9,26 @@ import {
   Icon,
   CardBody,
 } from "@mond-design-system/theme";
+import { supabase } from "../../lib/supabase/client";
+import { SupabaseStorage } from "../../lib/supabase/storage/SupabaseStorage";
+import { SupabaseGroupStorage } from "../../lib/supabase/storage/SupabaseGroupStorage";
+import { useGenre } from "../../providers";
+import { GenerationLedgerStore } from "../../services/group-generator/GenerationLedgerStore";
+import {
+  getMonthStart,
+  getTokenBudgetStatus,
+  summarizeSpend,
+} from "../../services/group-generator/generationSpend";
+import { usePipelineConfig, usePoolForecast } from "../../services/pipeline/usePipeline";
+import { GenerationSpend } from "./GenerationSpend";
+import { PoolForecast } from "./PoolForecast";
 import "./Dashboard.css";
 
+// Create ledger and storage instances
+const generationLedger = new GenerationLedgerStore(supabase);
+const puzzleStorage = new SupabaseStorage(supabase);
+const groupStorage = new SupabaseGroupStorage(supabase);
+
 interface DashboardLink {
   path: string;
   label: string;
@@ -182,6 +201,30 @@ const DASHBOARD_LINKS: DashboardLink[] = [
 ];
 
 export function AdminDashboard() {
+  const { genre } = useGenre();
+  const monthStart = getMonthStart().toISOString();
+
+  // This month's generation calls across all genres
+  const { data: entries, isLoading } = useQuery({
+    queryKey: ["generationLedger", monthStart],
+    queryFn: () => generationLedger.listEntries(new Date(monthStart)),
+  });
+  const { data: pipelineConfig } = usePipelineConfig(supabase, genre);
+  const { data: forecast, isLoading: isLoadingForecast } = usePoolForecast(
+    puzzleStorage,
+    groupStorage,
+    pipelineConfig,
+  );
+
+  const summary = useMemo(() => summarizeSpend(entries ?? []), [entries]);
+  const budget = useMemo(() => {
+    if (pipelineConfig?.monthlyTokenBudget == null) return null;
+    const used = (entries ?? [])
+      .filter((entry) => entry.genre === genre)
+      .reduce((total, entry) => total + entry.inputTokens + entry.outputTokens, 0);
+    return getTokenBudgetStatus(used, pipelineConfig.monthlyTokenBudget);
+  }, [entries, genre, pipelineConfig]);
+
   return (
     <Box display="flex" flexDirection="column" gap="lg" padding="4">
       <Box display="flex" flexDirection="column" gap="sm">
@@ -219,6 +262,19 @@ export function AdminDashboard() {
           </Link>
         ))}
       </Box>
+
+      <PoolForecast
+        forecast={forecast}
+        genre={genre}
+        isLoading={isLoadingForecast}
+      />
+
+      <GenerationSpend
+        summary={summary}
+        budget={budget}
+        genre={genre}
+        isLoading={isLoading}
+      />
     </Box>
   );
 }
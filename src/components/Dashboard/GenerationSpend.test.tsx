@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { GenerationSpend } from './GenerationSpend';
+import {
+  getTokenBudgetStatus,
+  summarizeSpend,
+} from '../../services/group-generator/generationSpend';
+import type { GenerationLedgerEntry } from '../../services/group-generator/types';
+
+const entries: GenerationLedgerEntry[] = [
+  {
+    id: 'entry-1',
+    createdAt: new Date('2025-03-04T10:00:00Z'),
+    genre: 'films',
+    targetDifficulty: 'easy',
+    requestedCount: 10,
+    returnedCount: 10,
+    droppedCount: 0,
+    inputTokens: 1_000_000,
+    outputTokens: 100_000,
+    model: 'claude-sonnet-4-20250514',
+    provider: 'anthropic',
+    caller: 'cron',
+  },
+];
+
+describe('GenerationSpend', () => {
+  const defaultProps = {
+    summary: summarizeSpend(entries),
+    budget: null,
+    genre: 'films',
+    isLoading: false,
+  };
+
+  it('should render estimated cost and total tokens', () => {
+    render(<GenerationSpend {...defaultProps} />);
+
+    expect(screen.getByText('$4.50')).toBeInTheDocument();
+    expect(screen.getByText('1,100,000')).toBeInTheDocument();
+  });
+
+  it('should render a row per caller and model', () => {
+    render(<GenerationSpend {...defaultProps} />);
+
+    expect(screen.getByText('Scheduled fill')).toBeInTheDocument();
+    expect(screen.getByText('Fill Now')).toBeInTheDocument();
+    expect(screen.getByText('Generator page')).toBeInTheDocument();
+    expect(screen.getByText('claude-sonnet-4-20250514')).toBeInTheDocument();
+  });
+
+  it('should show no limit when no budget is set', () => {
+    render(<GenerationSpend {...defaultProps} />);
+
+    expect(screen.getByText('No limit')).toBeInTheDocument();
+  });
+
+  it('should show budget usage', () => {
+    render(
+      <GenerationSpend {...defaultProps} budget={getTokenBudgetStatus(1_100_000, 2_000_000)} />
+    );
+
+    expect(screen.getByText('55% used')).toBeInTheDocument();
+  });
+
+  it('should flag an exhausted budget', () => {
+    render(
+      <GenerationSpend {...defaultProps} budget={getTokenBudgetStatus(1_100_000, 1_000_000)} />
+    );
+
+    expect(screen.getByText('Exhausted - generation paused')).toBeInTheDocument();
+  });
+
+  it('should hide the breakdown while loading', () => {
+    render(<GenerationSpend {...defaultProps} isLoading />);
+
+    expect(screen.queryByText('By caller')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Generation Spend Component
+ *
+ * Shows this month's AI generation usage from the generation ledger:
+ * tokens and estimated cost overall, per caller and per model,
+ * plus the selected genre's progress against its monthly token budget.
+ */
+
+import {
+  Box,
+  Card,
+  CardBody,
+  Heading,
+  Spinner,
+  Tag,
+  Text,
+} from "@mond-design-system/theme";
+import type { GenerationCaller } from "../../services/group-generator/types";
+import type {
+  SpendSummary,
+  SpendTotals,
+  TokenBudgetStatus,
+} from "../../services/group-generator/generationSpend";
+
+/** Share of the budget at which the gauge turns to a warning */
+const BUDGET_WARNING_RATIO = 0.8;
+
+const CALLER_LABELS: Record<GenerationCaller, string> = {
+  "generator-page": "Generator page",
+  "fill-now": "Fill Now",
+  cron: "Scheduled fill",
+  cli: "Pipeline CLI",
+};
+
+export interface GenerationSpendProps {
+  /** Month-to-date spend summary */
+  summary: SpendSummary;
+  /** Budget status for the selected genre (null when no budget is set) */
+  budget: TokenBudgetStatus | null;
+  /** Genre the budget applies to */
+  genre: string;
+  /** Whether the ledger is being loaded */
+  isLoading: boolean;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString("en-US");
+}
+
+function formatCost(totals: SpendTotals): string {
+  const cost = `$${totals.estimatedCost.toFixed(2)}`;
+  return totals.hasUnpricedModels ? `${cost}+` : cost;
+}
+
+function SpendRow({ label, totals }: { label: string; totals: SpendTotals }) {
+  return (
+    <Box display="flex" justifyContent="space-between" gap="md">
+      <Text size="sm">{label}</Text>
+      <Text size="sm" semantic="secondary">
+        {totals.calls} calls · {formatTokens(totals.inputTokens + totals.outputTokens)} tokens ·{" "}
+        {formatCost(totals)}
+      </Text>
+    </Box>
+  );
+}
+
+export function GenerationSpend({
+  summary,
+  budget,
+  genre,
+  isLoading,
+}: GenerationSpendProps) {
+  const { total } = summary;
+  const models = Object.entries(summary.byModel).sort(
+    ([, a], [, b]) => b.estimatedCost - a.estimatedCost,
+  );
+  const budgetRatio = budget && budget.budget > 0 ? budget.used / budget.budget : 1;
+
+  return (
+    <Card variant="default">
+      <CardBody>
+        <Box display="flex" flexDirection="column" gap="md">
+          <Heading level={2} size="lg">
+            AI Spend This Month
+          </Heading>
+
+          {isLoading ? (
+            <Spinner size="sm" />
+          ) : (
+            <>
+              {/* Totals */}
+              <Box display="flex" alignItems="center" gap="lg">
+                <Box display="flex" alignItems="center" gap="xs">
+                  <Text size="2xl" weight="bold">
+                    {formatCost(total)}
+                  </Text>
+                  <Text size="sm" semantic="secondary">
+                    estimated
+                  </Text>
+                </Box>
+                <Box display="flex" alignItems="center" gap="xs">
+                  <Text size="2xl" weight="bold">
+                    {formatTokens(total.inputTokens + total.outputTokens)}
+                  </Text>
+                  <Text size="sm" semantic="secondary">
+                    tokens ({formatTokens(total.inputTokens)} in / {formatTokens(total.outputTokens)} out)
+                  </Text>
+                </Box>
+                <Box display="flex" alignItems="center" gap="xs">
+                  <Text size="2xl" weight="bold">
+                    {total.calls}
+                  </Text>
+                  <Text size="sm" semantic="secondary">
+                    calls
+                  </Text>
+                </Box>
+              </Box>
+
+              {/* Budget for the selected genre */}
+              <Box display="flex" alignItems="center" gap="sm">
+                <Text size="sm" weight="medium">
+                  Pipeline budget ({genre}):
+                </Text>
+                {budget ? (
+                  <>
+                    <Text size="sm">
+                      {formatTokens(budget.used)} / {formatTokens(budget.budget)} tokens
+                    </Text>
+                    {budget.exhausted ? (
+                      <Tag size="sm" variant="filled" semantic="error">
+                        Exhausted - generation paused
+                      </Tag>
+                    ) : budgetRatio >= BUDGET_WARNING_RATIO ? (
+                      <Tag size="sm" variant="filled" semantic="warning">
+                        {Math.round(budgetRatio * 100)}% used
+                      </Tag>
+                    ) : (
+                      <Tag size="sm" variant="outlined" semantic="success">
+                        {Math.round(budgetRatio * 100)}% used
+                      </Tag>
+                    )}
+                  </>
+                ) : (
+                  <Text size="sm" semantic="secondary">
+                    No limit
+                  </Text>
+                )}
+              </Box>
+
+              {/* Breakdown by caller */}
+              <Box display="flex" flexDirection="column" gap="xs">
+                <Heading level={3} size="sm">
+                  By caller
+                </Heading>
+                {(Object.keys(CALLER_LABELS) as GenerationCaller[]).map((caller) => (
+                  <SpendRow
+                    key={caller}
+                    label={CALLER_LABELS[caller]}
+                    totals={summary.byCaller[caller]}
+                  />
+                ))}
+              </Box>
+
+              {/* Breakdown by model */}
+              {models.length > 0 && (
+                <Box display="flex" flexDirection="column" gap="xs">
+                  <Heading level={3} size="sm">
+                    By model
+                  </Heading>
+                  {models.map(([model, totals]) => (
+                    <SpendRow key={model} label={model} totals={totals} />
+                  ))}
+                </Box>
+              )}
+            </>
+          )}
+        </Box>
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import type { Meta, StoryObj } from "@storybook/react-vite";
+import { PoolForecast } from "./PoolForecast";
+import { forecastPool } from "../../services/pipeline/poolForecast";
+import type { DifficultyColor, StoredGroup } from "../../lib/supabase/storage/IGroupStorage";
+
+const TODAY = "2025-03-01";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A pool with `unused` groups per color and the given groups used and approved over the last 28 days
+ */
+const createPool = (
+  counts: Record<DifficultyColor, { unused: number; used: number; approved: number }>,
+) => {
+  const todayMs = Date.parse(`${TODAY}T00:00:00Z`);
+  const groups: StoredGroup[] = [];
+  const usedGroupIds = new Set<string>();
+
+  for (const [color, { unused, used, approved }] of Object.entries(counts) as [
+    DifficultyColor,
+    { unused: number; used: number; approved: number },
+  ][]) {
+    const add = (id: string, createdDaysAgo: number, usedDaysAgo: number | null) =>
+      groups.push({
+        id,
+        createdAt: todayMs - createdDaysAgo * DAY_MS,
+        items: [],
+        connection: "Connection",
+        connectionType: "type",
+        difficultyScore: 5000,
+        color,
+        difficulty: null,
+        status: "approved",
+        usageCount: usedDaysAgo === null ? 0 : 1,
+        lastUsedAt: usedDaysAgo === null ? null : todayMs - usedDaysAgo * DAY_MS,
+        genre: "films",
+      });
+
+    for (let i = 0; i < unused; i++) add(`${color}-unused-${i}`, 60, null);
+    for (let i = 0; i < used; i++) {
+      add(`${color}-used-${i}`, 60, i % 28);
+      usedGroupIds.add(`${color}-used-${i}`);
+    }
+    for (let i = 0; i < approved; i++) add(`${color}-new-${i}`, i % 28, null);
+  }
+
+  return { groups, usedGroupIds };
+};
+
+const meta: Meta<typeof PoolForecast> = {
+  title: "Components/Dashboard/PoolForecast",
+  component: PoolForecast,
+  parameters: {
+    layout: "padded",
+  },
+  tags: ["autodocs"],
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const RunningDown: Story = {
+  args: {
+    forecast: forecastPool({
+      genre: "films",
+      today: TODAY,
+      windowDays: 30,
+      emptyDates: [],
+      ...createPool({
+        yellow: { unused: 45, used: 28, approved: 14 },
+        green: { unused: 38, used: 28, approved: 14 },
+        blue: { unused: 30, used: 28, approved: 7 },
+        purple: { unused: 12, used: 28, approved: 0 },
+      }),
+    }),
+    genre: "films",
+    isLoading: false,
+  },
+};
+
+export const Steady: Story = {
+  args: {
+    forecast: forecastPool({
+      genre: "music",
+      today: TODAY,
+      windowDays: 30,
+      emptyDates: [],
+      ...createPool({
+        yellow: { unused: 40, used: 28, approved: 35 },
+        green: { unused: 40, used: 28, approved: 30 },
+        blue: { unused: 40, used: 28, approved: 28 },
+        purple: { unused: 40, used: 28, approved: 28 },
+      }),
+    }),
+    genre: "music",
+    isLoading: false,
+  },
+};
+
+export const Loading: Story = {
+  args: {
+    forecast: undefined,
+    genre: "films",
+    isLoading: true,
+  },
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { PoolForecast } from './PoolForecast';
+import type { ColorForecast, PoolForecast as PoolForecastData } from '../../services/pipeline/types';
+
+const colorForecast = (overrides: Partial<ColorForecast> = {}): ColorForecast => ({
+  unused: 40,
+  usedPerDay: 1,
+  approvedPerDay: 0.5,
+  netBurnPerDay: 0.5,
+  daysUntilDry: 80,
+  dryDate: '2025-05-20',
+  ...overrides,
+});
+
+const createForecast = (overrides: Partial<PoolForecastData> = {}): PoolForecastData => ({
+  genre: 'films',
+  today: '2025-03-01',
+  lookbackDays: 28,
+  puzzlesPerDay: 1,
+  colors: {
+    yellow: colorForecast(),
+    green: colorForecast({ netBurnPerDay: -0.5, daysUntilDry: null, dryDate: null }),
+    blue: colorForecast(),
+    purple: colorForecast({ unused: 12, approvedPerDay: 0, netBurnPerDay: 1, daysUntilDry: 12, dryDate: '2025-03-13' }),
+  },
+  firstDryColor: 'purple',
+  daysUntilGap: 42,
+  gapDate: '2025-04-12',
+  series: Array.from({ length: 61 }, (_, day) => ({
+    date: `day-${day}`,
+    unused: { yellow: 40, green: 40, blue: 40, purple: Math.max(0, 12 - day) },
+  })),
+  ...overrides,
+});
+
+describe('PoolForecast', () => {
+  it('should say which color runs dry first and when the calendar gaps', () => {
+    render(<PoolForecast forecast={createForecast()} genre="films" isLoading={false} />);
+
+    expect(screen.getByText('Purple runs dry in 12 days')).toBeInTheDocument();
+    expect(screen.getByText('First calendar gap in 42 days (2025-04-12)')).toBeInTheDocument();
+    expect(screen.getByText('12d')).toBeInTheDocument();
+    expect(screen.getByText('green is not running down')).toBeInTheDocument();
+  });
+
+  it('should chart a line per color and mark the projected gap', () => {
+    render(<PoolForecast forecast={createForecast()} genre="films" isLoading={false} />);
+
+    expect(screen.getByRole('img')).toBeInTheDocument();
+    expect(screen.getByTestId('forecast-line-purple')).toBeInTheDocument();
+    expect(screen.getByTestId('forecast-gap-marker')).toBeInTheDocument();
+  });
+
+  it('should report a steady pool', () => {
+    const steady = colorForecast({ netBurnPerDay: 0, daysUntilDry: null, dryDate: null });
+    render(
+      <PoolForecast
+        forecast={createForecast({
+          colors: { yellow: steady, green: steady, blue: steady, purple: steady },
+          firstDryColor: null,
+          daysUntilGap: null,
+          gapDate: null,
+        })}
+        genre="films"
+        isLoading={false}
+      />
+    );
+
+    expect(screen.getByText('No color is running down')).toBeInTheDocument();
+    expect(screen.getByText('No calendar gap projected')).toBeInTheDocument();
+    expect(screen.queryByTestId('forecast-gap-marker')).not.toBeInTheDocument();
+  });
+
+  it('should not render the forecast while loading', () => {
+    render(<PoolForecast forecast={undefined} genre="films" isLoading={true} />);
+
+    expect(screen.queryByRole('img')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Pool Forecast Component
+ *
+ * Charts each color's projected unused groups at the current burn rate and
+ * says when the first color runs dry and when the calendar first has a gap,
+ * so admins can approve or generate groups before it happens.
+ */
+
+import {
+  Box,
+  Card,
+  CardBody,
+  Heading,
+  Spinner,
+  Tag,
+  Text,
+} from "@mond-design-system/theme";
+import type { DifficultyColor } from "../../types";
+import type { PoolForecast as PoolForecastData } from "../../services/pipeline/types";
+import { describeColorForecast } from "../../services/pipeline/poolForecast";
+import { DEFAULT_ALERT_THRESHOLDS } from "../../services/alerting/types";
+import { DIFFICULTY_COLORS } from "../../constants/difficulty";
+
+const COLORS: DifficultyColor[] = ["yellow", "green", "blue", "purple"];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = { top: 10, right: 10, bottom: 24, left: 36 };
+
+export interface PoolForecastProps {
+  /** Projection for the selected genre (undefined while loading) */
+  forecast: PoolForecastData | undefined;
+  /** Genre the forecast is for */
+  genre: string;
+  /** Whether the forecast is being loaded */
+  isLoading: boolean;
+}
+
+function formatDays(days: number): string {
+  if (days === 0) return "today";
+  if (days === 1) return "tomorrow";
+  return `in ${days} days`;
+}
+
+/**
+ * Tag for how soon a color runs dry, matching the forecast alert thresholds
+ */
+function DryTag({ days }: { days: number | null }) {
+  if (days === null) {
+    return (
+      <Tag size="sm" variant="outlined" semantic="success">
+        Steady
+      </Tag>
+    );
+  }
+
+  const semantic =
+    days < DEFAULT_ALERT_THRESHOLDS.forecastCriticalDays
+      ? "error"
+      : days < DEFAULT_ALERT_THRESHOLDS.forecastWarningDays
+        ? "warning"
+        : "info";
+
+  return (
+    <Tag size="sm" variant="filled" semantic={semantic}>
+      {Math.floor(days)}d
+    </Tag>
+  );
+}
+
+function ForecastChart({ forecast }: { forecast: PoolForecastData }) {
+  const { series } = forecast;
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const maxUnused = Math.max(
+    1,
+    ...series.flatMap((point) => COLORS.map((color) => point.unused[color])),
+  );
+  const lastDay = Math.max(1, series.length - 1);
+
+  const x = (day: number) => CHART_PADDING.left + (day / lastDay) * plotWidth;
+  const y = (unused: number) => CHART_PADDING.top + plotHeight - (unused / maxUnused) * plotHeight;
+  const gapDay = forecast.daysUntilGap;
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      width="100%"
+      role="img"
+      aria-label={`Projected unused groups per color over the next ${lastDay} days`}
+    >
+      {/* Axes */}
+      <line
+        x1={CHART_PADDING.left}
+        y1={CHART_PADDING.top + plotHeight}
+        x2={CHART_PADDING.left + plotWidth}
+        y2={CHART_PADDING.top + plotHeight}
+        stroke="currentColor"
+        strokeOpacity={0.3}
+      />
+      <text x={CHART_PADDING.left - 6} y={CHART_PADDING.top + 8} textAnchor="end" fontSize="11" fill="currentColor">
+        {Math.round(maxUnused)}
+      </text>
+      <text x={CHART_PADDING.left - 6} y={CHART_PADDING.top + plotHeight} textAnchor="end" fontSize="11" fill="currentColor">
+        0
+      </text>
+      <text x={CHART_PADDING.left} y={CHART_HEIGHT - 6} fontSize="11" fill="currentColor">
+        {series[0]?.date}
+      </text>
+      <text x={CHART_PADDING.left + plotWidth} y={CHART_HEIGHT - 6} textAnchor="end" fontSize="11" fill="currentColor">
+        {series[series.length - 1]?.date}
+      </text>
+
+      {/* Projected first calendar gap */}
+      {gapDay !== null && gapDay <= lastDay && (
+        <g data-testid="forecast-gap-marker">
+          <line
+            x1={x(gapDay)}
+            y1={CHART_PADDING.top}
+            x2={x(gapDay)}
+            y2={CHART_PADDING.top + plotHeight}
+            stroke="currentColor"
+            strokeDasharray="4 4"
+          />
+          <text x={x(gapDay) + 4} y={CHART_PADDING.top + 10} fontSize="11" fill="currentColor">
+            gap
+          </text>
+        </g>
+      )}
+
+      {COLORS.map((color) => (
+        <polyline
+          key={color}
+          data-testid={`forecast-line-${color}`}
+          fill="none"
+          stroke={DIFFICULTY_COLORS[color]}
+          strokeWidth={2}
+          points={series.map((point, day) => `${x(day)},${y(point.unused[color])}`).join(" ")}
+        />
+      ))}
+    </svg>
+  );
+}
+
+export function PoolForecast({ forecast, genre, isLoading }: PoolForecastProps) {
+  const colorsByDryDay = forecast
+    ? [...COLORS].sort(
+        (a, b) =>
+          (forecast.colors[a].daysUntilDry ?? Infinity) -
+          (forecast.colors[b].daysUntilDry ?? Infinity),
+      )
+    : [];
+
+  return (
+    <Card variant="default">
+      <CardBody>
+        <Box display="flex" flexDirection="column" gap="md">
+          <Heading level={2} size="lg">
+            Pool Forecast ({genre})
+          </Heading>
+
+          {isLoading || !forecast ? (
+            <Spinner size="sm" />
+          ) : (
+            <>
+              {/* Headline */}
+              <Box display="flex" flexDirection="column" gap="xs">
+                <Text size="md" weight="medium">
+                  {forecast.firstDryColor
+                    ? capitalize(
+                        describeColorForecast(
+                          forecast.firstDryColor,
+                          forecast.colors[forecast.firstDryColor],
+                        ),
+                      )
+                    : "No color is running down"}
+                </Text>
+                <Text size="sm" semantic="secondary">
+                  {forecast.gapDate !== null && forecast.daysUntilGap !== null
+                    ? `First calendar gap ${formatDays(forecast.daysUntilGap)} (${forecast.gapDate})`
+                    : "No calendar gap projected"}
+                </Text>
+              </Box>
+
+              <ForecastChart forecast={forecast} />
+
+              {/* Per color */}
+              <Box display="flex" flexDirection="column" gap="xs">
+                {colorsByDryDay.map((color) => {
+                  const colorForecast = forecast.colors[color];
+                  return (
+                    <Box key={color} display="flex" alignItems="center" justifyContent="space-between" gap="md">
+                      <Box display="flex" alignItems="center" gap="sm">
+                        <span
+                          aria-hidden="true"
+                          style={{
+                            display: "inline-block",
+                            width: 10,
+                            height: 10,
+                            borderRadius: 2,
+                            backgroundColor: DIFFICULTY_COLORS[color],
+                          }}
+                        />
+                        <Text size="sm">{describeColorForecast(color, colorForecast)}</Text>
+                        <DryTag days={colorForecast.daysUntilDry} />
+                      </Box>
+                      <Text size="sm" semantic="secondary">
+                        {colorForecast.unused} unused · {colorForecast.usedPerDay.toFixed(1)} used /{" "}
+                        {colorForecast.approvedPerDay.toFixed(1)} approved per day
+                      </Text>
+                    </Box>
+                  );
+                })}
+              </Box>
+
+              <Text size="xs" semantic="secondary">
+                Rates from the last {forecast.lookbackDays} days ({forecast.puzzlesPerDay.toFixed(1)} puzzles per day).
+              </Text>
+            </>
+          )}
+        </Box>
+      </CardBody>
+    </Card>
+  );
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
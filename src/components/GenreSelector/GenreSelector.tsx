@@ -9,16 +9,7 @@ import { Box, Button } from '@mond-design-system/theme';
 import type { Genre } from '../../types';
 import { GENRES } from '../../types';
 import { useGenre } from '../../providers/GenreContext';
-
-/**
- * Human-readable labels for each genre
- */
-const GENRE_LABELS: Record<Genre, string> = {
-  films: 'Films',
-  music: 'Music',
-  books: 'Books',
-  sports: 'Sports',
-};
+import { GENRE_LABELS } from '../../constants/genre';
 
 interface GenreSelectorProps {
   /** Optional callback when genre changes */
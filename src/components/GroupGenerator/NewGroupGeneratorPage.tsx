@@ -28,8 +28,16 @@ import { useGenre } from "../../providers";
 import {
   ConnectionTypeStore,
   FeedbackStore,
+  GenerationLedgerStore,
 } from "../../services/group-generator";
 import { createVerifier } from "../../services/group-generator/verifiers";
+import { createBrowserGenerationProvider } from "../../services/group-generator/providers/ProviderFactory";
+import { LedgerRecordingProvider } from "../../services/group-generator/providers/LedgerRecordingProvider";
+import {
+  GroupSimilarityService,
+  describeDuplicate,
+  type DuplicateMatch,
+} from "../../services/group-generator/GroupSimilarityService";
 import type {
   GeneratedGroup,
   Difficulty,
@@ -45,6 +53,13 @@ import "./NewGroupGeneratorPage.css";
 const connectionTypeStore = new ConnectionTypeStore(supabase);
 const feedbackStore = new FeedbackStore(supabase);
 const groupStorage = new SupabaseGroupStorage(supabase);
+// API route (Claude runs server-side), or the offline stub when VITE_GENERATION_PROVIDER=stub.
+// Every call is recorded in the generation ledger.
+const generationProvider = new LedgerRecordingProvider(
+  createBrowserGenerationProvider(import.meta.env.VITE_GENERATION_PROVIDER),
+  new GenerationLedgerStore(supabase),
+  "generator-page",
+);
 
 const DIFFICULTY_OPTIONS: {
   value: Difficulty;
@@ -75,6 +90,12 @@ export function NewGroupGeneratorPage() {
   // State
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedGroups, setGeneratedGroups] = useState<GeneratedGroup[]>([]);
+  // Groups whose items are still being verified (cards render as groups stream in)
+  const [verifyingIds, setVerifyingIds] = useState<Set<string>>(new Set());
+  // Strongest likely-duplicate match in the approved pool, by generated group id
+  const [duplicates, setDuplicates] = useState<Map<string, DuplicateMatch>>(
+    new Map(),
+  );
   const [connectionTypes, setConnectionTypes] = useState<ConnectionType[]>([]);
   const [loadingTypes, setLoadingTypes] = useState(true);
 
@@ -125,10 +146,12 @@ export function NewGroupGeneratorPage() {
     loadConnectionTypes();
   }, [loadConnectionTypes]);
 
-  // Generate groups via API
+  // Generate groups via the configured provider
   const handleGenerate = async () => {
     setIsGenerating(true);
     setGeneratedGroups([]);
+    setVerifyingIds(new Set());
+    setDuplicates(new Map());
 
     try {
       // Get active connection types (filter by selected if any)
@@ -152,59 +175,90 @@ export function NewGroupGeneratorPage() {
         (g) => g.connection,
       );
 
+      // Flag groups that likely duplicate an approved group (wording or items)
+      const similarity = GroupSimilarityService.fromStoredGroups(
+        existingGroupsResult.groups,
+        genre,
+      );
+      let duplicateCount = 0;
+
       const filters: GenerationFilters = {
         yearRange: [yearStart, yearEnd],
         excludeConnections: existingConnections,
         genre,
       };
 
-      // Call API route (Claude runs server-side)
-      const response = await fetch("/api/generate-groups-v2", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          filters,
-          connectionTypes: typesToUse,
-          goodExamples,
-          badExamples,
-          count: 20,
-        }),
+      // Create verifier based on genre (TMDB for films, MusicBrainz for music, etc.)
+      const verifier = createVerifier(genre, {
+        offline: generationProvider.offline,
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to generate groups");
-      }
-
-      const data = await response.json();
-      let groups: GeneratedGroup[] = data.groups;
+      // Verify items with the appropriate verifier (this is safe to run in browser)
+      const verifyGroup = async (
+        group: GeneratedGroup,
+      ): Promise<GeneratedGroup> => {
+        const verifiedItems = await verifier.verifyItems(
+          group.items.map((item) => ({ title: item.title, year: item.year })),
+        );
+        const verified = {
+          ...group,
+          items: verifiedItems,
+          allItemsVerified: verifiedItems.every((item) => item.verified),
+        };
+        const [duplicate] = similarity.findDuplicates(verified);
+        if (duplicate) {
+          duplicateCount++;
+          setDuplicates((prev) => new Map(prev).set(verified.id, duplicate));
+        }
+        setGeneratedGroups((prev) =>
+          prev.map((g) => (g.id === verified.id ? verified : g)),
+        );
+        setVerifyingIds((prev) => {
+          const next = new Set(prev);
+          next.delete(verified.id);
+          return next;
+        });
+        return verified;
+      };
 
-      // Create verifier based on genre (TMDB for films, MusicBrainz for music, etc.)
-      const verifier = createVerifier(genre);
+      // Render each group as soon as it arrives and start verifying it right away
+      const verifications: Promise<GeneratedGroup>[] = [];
+      let droppedCount = 0;
+      const events = generationProvider.streamGroups({
+        filters,
+        connectionTypes: typesToUse,
+        goodExamples,
+        badExamples,
+        count: 20,
+      });
 
-      // Verify items with the appropriate verifier (this is safe to run in browser)
-      groups = await Promise.all(
-        groups.map(async (group) => {
-          const verifiedItems = await verifier.verifyItems(
-            group.items.map((item) => ({ title: item.title, year: item.year })),
-          );
-          const allVerified = verifiedItems.every((item) => item.verified);
-          return {
-            ...group,
-            items: verifiedItems,
-            allItemsVerified: allVerified,
-          };
-        }),
-      );
+      for await (const event of events) {
+        if (event.type === "group") {
+          const group = event.group;
+          setGeneratedGroups((prev) => [...prev, group]);
+          setVerifyingIds((prev) => new Set(prev).add(group.id));
+          verifications.push(verifyGroup(group));
+        } else if (event.type === "invalid") {
+          droppedCount++;
+        }
+      }
 
-      setGeneratedGroups(groups);
+      const groups = await Promise.all(verifications);
 
       if (groups.length === 0) {
-        showInfo("No groups generated");
+        showInfo(
+          droppedCount > 0
+            ? `No valid groups generated (${droppedCount} dropped)`
+            : "No groups generated",
+        );
       } else {
         const verifiedCount = groups.filter((g) => g.allItemsVerified).length;
+        const droppedNote =
+          droppedCount > 0 ? `, ${droppedCount} invalid dropped` : "";
+        const duplicateNote =
+          duplicateCount > 0 ? `, ${duplicateCount} likely duplicates` : "";
         showSuccess(
-          `Generated ${groups.length} groups! (${verifiedCount} fully verified)`,
+          `Generated ${groups.length} groups! (${verifiedCount} fully verified${duplicateNote}${droppedNote})`,
         );
         // Collapse filters accordion when groups are ready
         setFiltersExpanded([]);
@@ -343,7 +397,11 @@ export function NewGroupGeneratorPage() {
             padding="6"
           >
             <Spinner size="lg" />
-            <Text size="lg">Generating groups with AI...</Text>
+            <Text size="lg">
+              Generating groups with AI...
+              {generatedGroups.length > 0 &&
+                ` (${generatedGroups.length} received)`}
+            </Text>
           </Box>
         </Card>
       ) : (
@@ -464,13 +522,25 @@ export function NewGroupGeneratorPage() {
                     <Box display="flex" alignItems="center" gap="sm">
                       <Text size="lg">{group.connection}</Text>
                       <Badge color="blue">{group.connectionType}</Badge>
-                      {!group.allItemsVerified && (
-                        <Badge color="orange">Unverified Items</Badge>
+                      {verifyingIds.has(group.id) ? (
+                        <Badge color="gray">Verifying...</Badge>
+                      ) : (
+                        !group.allItemsVerified && (
+                          <Badge color="orange">Unverified Items</Badge>
+                        )
+                      )}
+                      {duplicates.has(group.id) && (
+                        <Badge variant="warning">Likely Duplicate</Badge>
                       )}
                     </Box>
                     <Text color="muted" size="sm">
                       {group.explanation}
                     </Text>
+                    {duplicates.has(group.id) && (
+                      <Text size="sm" semantic="warning">
+                        {describeDuplicate(duplicates.get(group.id)!)}
+                      </Text>
+                    )}
                   </Box>
                 </Box>
 
@@ -503,6 +573,7 @@ export function NewGroupGeneratorPage() {
                   <Button
                     variant="primary"
                     size="sm"
+                    disabled={verifyingIds.has(group.id)}
                     onClick={() => {
                       setApproveModalGroup(group);
                       setSelectedDifficulty("medium");
@@ -92,6 +92,8 @@ function GroupPoolDisplay({
       <GroupPoolFilter
         colorFilter={colorFilter}
         onColorChange={() => {}}
+        statusFilter="all"
+        onStatusChange={() => {}}
         resultCount={groups.length}
         totalCount={groups.length}
       />
@@ -105,6 +107,7 @@ function GroupPoolDisplay({
         onCancelEdit={() => {}}
         onColorChange={() => {}}
         onDelete={() => {}}
+        onStatusChange={() => {}}
         isUpdating={false}
         isDeleting={false}
         page={0}
@@ -2,7 +2,9 @@
  * GroupPool Admin Page
  *
  * Displays and manages the connection groups pool.
- * Allows filtering by color, genre, and editing groups.
+ * Allows filtering by color, status and genre, and editing groups.
+ * Filtering by "Pending review" gives the review queue for groups the
+ * pipeline's quality gate did not auto-approve.
  */
 
 import { useState } from 'react';
@@ -14,7 +16,7 @@ import {
   useUpdateGroup,
   useDeleteGroup,
 } from '../../lib/supabase/storage/useGroupStorage';
-import type { GroupListFilters, DifficultyColor } from '../../lib/supabase/storage';
+import type { GroupListFilters, DifficultyColor, GroupStatus } from '../../lib/supabase/storage';
 import { supabase } from '../../lib/supabase/client';
 import { useToast } from '../../providers/useToast';
 import { useGenre } from '../../providers';
@@ -33,6 +35,7 @@ export function GroupPool() {
 
   // Filter state
   const [colorFilter, setColorFilter] = useState<DifficultyColor | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<GroupStatus | 'all'>('all');
   const [page, setPage] = useState(0);
   const pageSize = 20;
 
@@ -50,6 +53,10 @@ export function GroupPool() {
     filters.color = colorFilter;
   }
 
+  if (statusFilter !== 'all') {
+    filters.status = statusFilter;
+  }
+
   // Query groups
   const { data, isLoading, error } = useGroupList(filters, storage);
 
@@ -108,11 +115,26 @@ export function GroupPool() {
     );
   };
 
+  const handleStatusChange = (id: string, status: GroupStatus) => {
+    updateMutation.mutate(
+      { id, updates: { status } },
+      {
+        onSuccess: () => toast.showSuccess(status === 'approved' ? 'Group approved' : 'Group rejected'),
+        onError: (err) => toast.showError('Failed to update group', err.message),
+      }
+    );
+  };
+
   const handleFilterColorChange = (color: DifficultyColor | 'all') => {
     setColorFilter(color);
     setPage(0);
   };
 
+  const handleFilterStatusChange = (status: GroupStatus | 'all') => {
+    setStatusFilter(status);
+    setPage(0);
+  };
+
   return (
     <Box display="flex" flexDirection="column" gap="lg" padding="4">
       <GroupPoolHeader />
@@ -120,6 +142,8 @@ export function GroupPool() {
       <GroupPoolFilter
         colorFilter={colorFilter}
         onColorChange={handleFilterColorChange}
+        statusFilter={statusFilter}
+        onStatusChange={handleFilterStatusChange}
         resultCount={data?.groups.length}
         totalCount={data?.total}
       />
@@ -133,6 +157,7 @@ export function GroupPool() {
         onCancelEdit={handleCancelEdit}
         onColorChange={handleGroupColorChange}
         onDelete={handleDelete}
+        onStatusChange={handleStatusChange}
         isUpdating={updateMutation.isPending}
         isDeleting={deleteMutation.isPending}
         page={page}
@@ -44,6 +44,7 @@ const meta: Meta<typeof GroupPoolCard> = {
     onCancelEdit: { action: 'cancel' },
     onColorChange: { action: 'colorChange' },
     onDelete: { action: 'delete' },
+    onStatusChange: { action: 'statusChange' },
   },
 };
 
@@ -133,3 +134,26 @@ export const PurpleGroup: Story = {
     isDeleting: false,
   },
 };
+
+export const PendingReview: Story = {
+  args: {
+    group: {
+      ...mockGroup,
+      id: '5',
+      status: 'pending',
+      metadata: {
+        qualityGate: {
+          score: 66,
+          verificationRate: 0.75,
+          closestSimilarity: 0.5,
+          mode: 'threshold',
+          approved: false,
+          reasons: ['1 of 4 items unverified', 'Quality score 66 is below the threshold of 80'],
+        },
+      },
+    },
+    isEditing: false,
+    isUpdating: false,
+    isDeleting: false,
+  },
+};
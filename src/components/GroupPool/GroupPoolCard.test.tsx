@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { GroupPoolCard } from './GroupPoolCard';
+import type { StoredGroup } from '../../lib/supabase/storage';
+
+const createMockGroup = (overrides: Partial<StoredGroup> = {}): StoredGroup => ({
+  id: 'group-1',
+  createdAt: Date.now(),
+  items: [
+    { id: 1, title: 'Heat', year: 1995 },
+    { id: 2, title: 'Inside Man', year: 2006 },
+    { id: 3, title: 'The Italian Job', year: 1969 },
+    { id: 4, title: 'Rififi', year: 1955 },
+  ],
+  connection: 'Heist films',
+  connectionType: 'genre',
+  difficultyScore: 1,
+  color: 'yellow',
+  difficulty: 'easy',
+  status: 'approved',
+  usageCount: 0,
+  lastUsedAt: null,
+  genre: 'films',
+  ...overrides,
+});
+
+const pendingGroup = createMockGroup({
+  status: 'pending',
+  metadata: {
+    qualityGate: {
+      score: 66,
+      verificationRate: 0.75,
+      closestSimilarity: 0.5,
+      mode: 'threshold',
+      approved: false,
+      reasons: ['1 of 4 items unverified', 'Quality score 66 is below the threshold of 80'],
+    },
+  },
+});
+
+describe('GroupPoolCard', () => {
+  const defaultProps = {
+    isEditing: false,
+    onSaveEdit: vi.fn(),
+    onCancelEdit: vi.fn(),
+    onColorChange: vi.fn(),
+    onDelete: vi.fn(),
+    onStatusChange: vi.fn(),
+    isUpdating: false,
+    isDeleting: false,
+  };
+
+  it('should show the quality gate score and reasons for a pending group', () => {
+    render(<GroupPoolCard {...defaultProps} group={pendingGroup} />);
+
+    expect(screen.getByText('Pending review')).toBeInTheDocument();
+    expect(screen.getByText('Quality: 66/100')).toBeInTheDocument();
+    expect(screen.getByText('1 of 4 items unverified')).toBeInTheDocument();
+    expect(screen.getByText('Quality score 66 is below the threshold of 80')).toBeInTheDocument();
+  });
+
+  it('should approve or reject a pending group', () => {
+    const onStatusChange = vi.fn();
+    render(<GroupPoolCard {...defaultProps} group={pendingGroup} onStatusChange={onStatusChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Approve' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Reject' }));
+
+    expect(onStatusChange).toHaveBeenNthCalledWith(1, 'group-1', 'approved');
+    expect(onStatusChange).toHaveBeenNthCalledWith(2, 'group-1', 'rejected');
+  });
+
+  it('should not offer review actions for an approved group', () => {
+    render(<GroupPoolCard {...defaultProps} group={createMockGroup()} />);
+
+    expect(screen.queryByRole('button', { name: 'Approve' })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Delete' })).toBeInTheDocument();
+  });
+});
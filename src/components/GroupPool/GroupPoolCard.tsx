@@ -1,11 +1,13 @@
-import { Box, Button, Tag, Card } from "@mond-design-system/theme";
+import { Box, Button, Tag, Card, Text } from "@mond-design-system/theme";
 import { Radio } from "@mond-design-system/theme/client";
 import type {
   StoredGroup,
   DifficultyColor,
+  GroupStatus,
 } from "../../lib/supabase/storage";
 import type { Group } from "../../types";
 import { DIFFICULTY_LABELS } from "../../constants/difficulty";
+import { getQualityAssessment } from "../../services/pipeline/GroupQualityGate";
 import { FilmGroupCard } from "../FilmGroupCard/FilmGroupCard";
 import "./GroupPoolCard.css";
 
@@ -23,6 +25,7 @@ interface GroupPoolCardProps {
   onCancelEdit: () => void;
   onColorChange: (id: string, color: DifficultyColor) => void;
   onDelete: () => void;
+  onStatusChange: (id: string, status: GroupStatus) => void;
   isUpdating: boolean;
   isDeleting: boolean;
 }
@@ -34,9 +37,13 @@ export function GroupPoolCard({
   onCancelEdit,
   onColorChange,
   onDelete,
+  onStatusChange,
   isUpdating,
   isDeleting,
 }: GroupPoolCardProps) {
+  const assessment = getQualityAssessment(group.metadata);
+  const isPending = group.status === "pending";
+
   return (
     <Card maxWidth="sm">
       <Box
@@ -59,6 +66,13 @@ export function GroupPoolCard({
               <Tag variant="outlined" semantic="warning">
                 Used: {group.usageCount}x
               </Tag>
+              {isPending && <Tag semantic="info">Pending review</Tag>}
+              {group.status === "rejected" && <Tag semantic="error">Rejected</Tag>}
+              {assessment && (
+                <Tag variant="outlined" semantic={assessment.approved ? "success" : "default"}>
+                  Quality: {assessment.score}/100
+                </Tag>
+              )}
             </Box>
           </Box>
 
@@ -78,6 +92,27 @@ export function GroupPoolCard({
                   Cancel
                 </Button>
               </>
+            ) : isPending ? (
+              <>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => onStatusChange(group.id, "approved")}
+                  disabled={isUpdating}
+                >
+                  Approve
+                </Button>
+                <div className="reject-btn-wrapper">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onStatusChange(group.id, "rejected")}
+                    disabled={isUpdating}
+                  >
+                    Reject
+                  </Button>
+                </div>
+              </>
             ) : (
               <div className="reject-btn-wrapper">
                 <Button
@@ -93,6 +128,22 @@ export function GroupPoolCard({
           </Box>
         </Box>
 
+        {/* Why the quality gate held the group */}
+        {isPending && assessment && assessment.reasons.length > 0 && (
+          <Box display="flex" flexDirection="column" gap="xs">
+            {assessment.reasons.map((reason) => (
+              <Text key={reason} size="xs" semantic="secondary">
+                {reason}
+              </Text>
+            ))}
+            {assessment.critique && (
+              <Text size="xs" semantic="secondary">
+                AI critique ({assessment.critique.score}/100): {assessment.critique.notes}
+              </Text>
+            )}
+          </Box>
+        )}
+
         {/* Items list */}
         <FilmGroupCard
           group={
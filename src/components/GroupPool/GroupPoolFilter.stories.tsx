@@ -18,6 +18,7 @@ const meta: Meta<typeof GroupPoolFilter> = {
   ],
   argTypes: {
     onColorChange: { action: 'colorChange' },
+    onStatusChange: { action: 'statusChange' },
   },
 };
 
@@ -27,6 +28,7 @@ type Story = StoryObj<typeof GroupPoolFilter>;
 export const Default: Story = {
   args: {
     colorFilter: 'all',
+    statusFilter: 'all',
     resultCount: 15,
     totalCount: 45,
   },
@@ -35,6 +37,7 @@ export const Default: Story = {
 export const YellowFilter: Story = {
   args: {
     colorFilter: 'yellow',
+    statusFilter: 'all',
     resultCount: 5,
     totalCount: 45,
   },
@@ -43,13 +46,24 @@ export const YellowFilter: Story = {
 export const WithoutCounts: Story = {
   args: {
     colorFilter: 'all',
+    statusFilter: 'all',
   },
 };
 
 export const PurpleFilter: Story = {
   args: {
     colorFilter: 'purple',
+    statusFilter: 'all',
     resultCount: 8,
     totalCount: 45,
   },
 };
+
+export const PendingReview: Story = {
+  args: {
+    colorFilter: 'all',
+    statusFilter: 'pending',
+    resultCount: 3,
+    totalCount: 3,
+  },
+};
@@ -1,6 +1,6 @@
 import { Box, Text } from "@mond-design-system/theme";
 import { Radio } from "@mond-design-system/theme/client";
-import type { DifficultyColor } from "../../lib/supabase/storage";
+import type { DifficultyColor, GroupStatus } from "../../lib/supabase/storage";
 import "./GroupPoolFilter.css";
 
 const colorOptions: { value: DifficultyColor | "all"; label: string }[] = [
@@ -11,9 +11,18 @@ const colorOptions: { value: DifficultyColor | "all"; label: string }[] = [
   { value: "purple", label: "Purple" },
 ];
 
+const statusOptions: { value: GroupStatus | "all"; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "pending", label: "Pending review" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+];
+
 interface GroupPoolFilterProps {
   colorFilter: DifficultyColor | "all";
   onColorChange: (color: DifficultyColor | "all") => void;
+  statusFilter: GroupStatus | "all";
+  onStatusChange: (status: GroupStatus | "all") => void;
   resultCount?: number;
   totalCount?: number;
 }
@@ -21,6 +30,8 @@ interface GroupPoolFilterProps {
 export function GroupPoolFilter({
   colorFilter,
   onColorChange,
+  statusFilter,
+  onStatusChange,
   resultCount,
   totalCount,
 }: GroupPoolFilterProps) {
@@ -43,6 +54,23 @@ export function GroupPoolFilter({
           ))}
         </Box>
       </Box>
+      <Box display="flex" flexDirection="column" gap="xs">
+        <Text size="sm" weight="medium">
+          Status
+        </Text>
+        <Box display="flex" gap="xs">
+          {statusOptions.map((option) => (
+            <Radio
+              key={option.value}
+              name="status-filter"
+              label={option.label}
+              value={option.value}
+              checked={statusFilter === option.value}
+              onChange={() => onStatusChange(option.value)}
+            />
+          ))}
+        </Box>
+      </Box>
       {resultCount !== undefined && totalCount !== undefined && (
         <Text weight="light" size="sm">
           Showing {resultCount} of {totalCount} groups
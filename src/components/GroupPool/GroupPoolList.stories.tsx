@@ -82,6 +82,7 @@ const meta: Meta<typeof GroupPoolList> = {
     onCancelEdit: { action: 'cancelEdit' },
     onColorChange: { action: 'colorChange' },
     onDelete: { action: 'delete' },
+    onStatusChange: { action: 'statusChange' },
     onPageChange: { action: 'pageChange' },
   },
 };
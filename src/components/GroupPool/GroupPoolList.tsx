@@ -1,6 +1,6 @@
 import { Box, Text, Spinner } from '@mond-design-system/theme';
 import { Pagination } from '@mond-design-system/theme/client';
-import type { StoredGroup, DifficultyColor } from '../../lib/supabase/storage';
+import type { StoredGroup, DifficultyColor, GroupStatus } from '../../lib/supabase/storage';
 import { GroupPoolCard } from './GroupPoolCard';
 import './GroupPoolList.css';
 
@@ -13,6 +13,7 @@ interface GroupPoolListProps {
   onCancelEdit: () => void;
   onColorChange: (id: string, color: DifficultyColor) => void;
   onDelete: (id: string) => void;
+  onStatusChange: (id: string, status: GroupStatus) => void;
   isUpdating: boolean;
   isDeleting: boolean;
   page: number;
@@ -30,6 +31,7 @@ export function GroupPoolList({
   onCancelEdit,
   onColorChange,
   onDelete,
+  onStatusChange,
   isUpdating,
   isDeleting,
   page,
@@ -74,6 +76,7 @@ export function GroupPoolList({
             onCancelEdit={onCancelEdit}
             onColorChange={onColorChange}
             onDelete={() => onDelete(group.id)}
+            onStatusChange={onStatusChange}
             isUpdating={isUpdating}
             isDeleting={isDeleting}
           />
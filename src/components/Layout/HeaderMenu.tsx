@@ -13,6 +13,8 @@ const NAV_LINKS: NavLinkItem[] = [
   { path: "/admin/groups", label: "Group Pool" },
   { path: "/admin/build", label: "Build Puzzle" },
   { path: "/admin/puzzles", label: "Puzzle Queue" },
+  { path: "/admin/calendar", label: "Calendar" },
+  { path: "/admin/history", label: "Pipeline History" },
   { path: "/admin/submissions", label: "User Submissions" },
 ];
 
@@ -0,0 +1,65 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { MasterCalendarGrid } from './MasterCalendarGrid';
+import { buildMasterCalendar } from './masterCalendar';
+import { MockThemeProvider } from '../../../.storybook/MockThemeProvider';
+import type { StoredPuzzle } from '../../lib/supabase/storage/IPuzzleStorage';
+import { GENRES, type Genre } from '../../types';
+
+const DATES = ['2025-03-10', '2025-03-11', '2025-03-12', '2025-03-13', '2025-03-14', '2025-03-15', '2025-03-16'];
+
+const createPuzzle = (genre: Genre, date: string, status: StoredPuzzle['status'] = 'published'): StoredPuzzle => ({
+  id: `${genre}-${date}`,
+  createdAt: Date.now(),
+  puzzleDate: date,
+  title: null,
+  groupIds: ['g1', 'g2', 'g3', 'g4'],
+  status,
+  genre,
+  source: 'system',
+});
+
+const meta: Meta<typeof MasterCalendarGrid> = {
+  title: 'Components/MasterCalendar/MasterCalendarGrid',
+  component: MasterCalendarGrid,
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <MockThemeProvider>
+        <Story />
+      </MockThemeProvider>
+    ),
+  ],
+  argTypes: {
+    onCellClick: { action: 'cell clicked' },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof MasterCalendarGrid>;
+
+export const FullyPublished: Story = {
+  args: {
+    days: buildMasterCalendar(
+      DATES,
+      GENRES.flatMap((genre) => DATES.map((date) => createPuzzle(genre, date))),
+      '2025-03-10'
+    ),
+    today: '2025-03-10',
+  },
+};
+
+export const GapsAndPending: Story = {
+  args: {
+    days: buildMasterCalendar(
+      DATES,
+      [
+        ...DATES.map((date) => createPuzzle('films', date)),
+        ...DATES.slice(0, 4).map((date) => createPuzzle('music', date)),
+        ...DATES.slice(0, 5).map((date, i) => createPuzzle('books', date, i > 2 ? 'approved' : 'published')),
+        createPuzzle('sports', DATES[0]),
+      ],
+      '2025-03-10'
+    ),
+    today: '2025-03-10',
+  },
+};
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MasterCalendarGrid } from './MasterCalendarGrid';
+import { buildMasterCalendar } from './masterCalendar';
+import type { StoredPuzzle } from '../../lib/supabase/storage/IPuzzleStorage';
+import type { Genre } from '../../types';
+
+const createPuzzle = (genre: Genre, date: string, status: StoredPuzzle['status'] = 'published'): StoredPuzzle => ({
+  id: `${genre}-${date}`,
+  createdAt: Date.now(),
+  puzzleDate: date,
+  title: genre === 'films' ? 'Heists' : null,
+  groupIds: ['g1', 'g2', 'g3', 'g4'],
+  status,
+  genre,
+  source: 'system',
+});
+
+const days = buildMasterCalendar(
+  ['2025-03-10', '2025-03-11'],
+  [createPuzzle('films', '2025-03-10'), createPuzzle('music', '2025-03-10', 'approved')],
+  '2025-03-10'
+);
+
+describe('MasterCalendarGrid', () => {
+  it('should show each genre row with its gaps and pending puzzles', () => {
+    render(<MasterCalendarGrid days={days} today="2025-03-10" onCellClick={vi.fn()} />);
+
+    expect(screen.getByText('Films')).toBeInTheDocument();
+    expect(screen.getByText('Sports')).toBeInTheDocument();
+    expect(screen.getByText('1 gap(s) · 1 pending')).toBeInTheDocument();
+    expect(screen.getByText('MON')).toBeInTheDocument();
+  });
+
+  it('should label every cell with its status', () => {
+    render(<MasterCalendarGrid days={days} today="2025-03-10" onCellClick={vi.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'Films, March 10, 2025: Published (Heists)' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Music, March 10, 2025: Pending' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Books, March 11, 2025: Gap' })).toBeInTheDocument();
+  });
+
+  it('should open the clicked genre and day', () => {
+    const onCellClick = vi.fn();
+    render(<MasterCalendarGrid days={days} today="2025-03-10" onCellClick={onCellClick} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Books, March 11, 2025: Gap' }));
+
+    expect(onCellClick).toHaveBeenCalledWith('books', '2025-03-11');
+  });
+});
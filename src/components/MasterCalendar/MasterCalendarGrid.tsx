@@ -0,0 +1,114 @@
+/**
+ * MasterCalendarGrid Component
+ *
+ * Every genre's puzzle status per day, one row per genre. Gaps and pending
+ * puzzles stand out, and each cell opens that genre's day in the Puzzle Queue.
+ */
+
+import { Box, Button, Tag, Text } from "@mond-design-system/theme";
+import { GENRES, type Genre } from "../../types";
+import { GENRE_LABELS } from "../../constants/genre";
+import { formatDateHeader, formatDateShort, parseStorageDate } from "../../utils/dateUtils";
+import type { MasterCalendarDay, MasterCalendarStatus } from "./masterCalendar";
+import { summarizeMasterCalendar } from "./masterCalendar";
+import "./MasterCalendarGrid.css";
+
+export interface MasterCalendarGridProps {
+  /** Days shown, in order */
+  days: MasterCalendarDay[];
+  /** YYYY-MM-DD */
+  today: string;
+  /** Called with the genre and day of the clicked cell */
+  onCellClick: (genre: Genre, date: string) => void;
+}
+
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const STATUS_TAGS: Record<
+  MasterCalendarStatus,
+  { label: string; semantic: "success" | "warning" | "error" | "default" }
+> = {
+  published: { label: "Published", semantic: "success" },
+  pending: { label: "Pending", semantic: "warning" },
+  gap: { label: "Gap", semantic: "error" },
+  missed: { label: "None", semantic: "default" },
+};
+
+export function MasterCalendarGrid({ days, today, onCellClick }: MasterCalendarGridProps) {
+  const summary = summarizeMasterCalendar(days);
+
+  return (
+    <Box className="master-calendar">
+      <table className="master-calendar-table">
+        <thead>
+          <tr>
+            <th scope="col">
+              <Text size="xs" semantic="secondary">
+                GENRE
+              </Text>
+            </th>
+            {days.map(({ date }) => {
+              const day = parseStorageDate(date);
+              return (
+                <th
+                  key={date}
+                  scope="col"
+                  className={date === today ? "master-calendar-today" : undefined}
+                >
+                  <Box display="flex" flexDirection="column" alignItems="center">
+                    <Text size="xs" semantic="secondary">
+                      {DAY_NAMES[day.getDay()]}
+                    </Text>
+                    <Text size="sm" weight="medium">
+                      {formatDateShort(day)}
+                    </Text>
+                  </Box>
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {GENRES.map((genre) => {
+            const { gaps, pending } = summary.byGenre[genre];
+            return (
+              <tr key={genre}>
+                <th scope="row">
+                  <Box display="flex" flexDirection="column">
+                    <Text size="sm" weight="medium">
+                      {GENRE_LABELS[genre]}
+                    </Text>
+                    <Text size="xs" semantic="secondary">
+                      {gaps === 0 && pending === 0
+                        ? "All published"
+                        : `${gaps} gap(s) · ${pending} pending`}
+                    </Text>
+                  </Box>
+                </th>
+                {days.map((day) => {
+                  const cell = day.cells[genre];
+                  const tag = STATUS_TAGS[cell.status];
+                  return (
+                    <td key={day.date} className={`master-calendar-cell master-calendar-cell--${cell.status}`}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        fullWidth
+                        onClick={() => onCellClick(genre, day.date)}
+                        aria-label={`${GENRE_LABELS[genre]}, ${formatDateHeader(parseStorageDate(day.date))}: ${tag.label}${cell.puzzle?.title ? ` (${cell.puzzle.title})` : ""}`}
+                      >
+                        <Tag size="sm" variant={cell.status === "gap" ? "filled" : "outlined"} semantic={tag.semantic}>
+                          {tag.label}
+                        </Tag>
+                      </Button>
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </Box>
+  );
+}
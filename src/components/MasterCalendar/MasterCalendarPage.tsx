@@ -0,0 +1,104 @@
+/**
+ * Master Calendar Page
+ *
+ * One week of every genre's calendar at once, loaded in a single query.
+ * Clicking a cell switches to that genre and opens the day's drawer in the
+ * Puzzle Queue.
+ */
+
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Box, Button, Heading, Spinner, Text } from "@mond-design-system/theme";
+import { usePuzzleList } from "../../lib/supabase/storage/usePuzzleStorage";
+import { SupabaseStorage } from "../../lib/supabase/storage/SupabaseStorage";
+import { supabase } from "../../lib/supabase/client";
+import { useGenre } from "../../providers";
+import { GENRES, type Genre } from "../../types";
+import {
+  getWeekStart,
+  getWeekDays,
+  formatDateForStorage,
+  formatWeekRange,
+} from "../../utils/dateUtils";
+import { MasterCalendarGrid } from "./MasterCalendarGrid";
+import { buildMasterCalendar, summarizeMasterCalendar } from "./masterCalendar";
+
+const storage = new SupabaseStorage(supabase);
+
+export function MasterCalendarPage() {
+  const [currentWeekStart, setCurrentWeekStart] = useState(() =>
+    getWeekStart(new Date()),
+  );
+  const { setGenre } = useGenre();
+  const navigate = useNavigate();
+
+  const dates = useMemo(
+    () => getWeekDays(currentWeekStart).map(formatDateForStorage),
+    [currentWeekStart],
+  );
+
+  // Every genre in one query (no genre filter), one puzzle per genre a day at most
+  const { data, isLoading, error } = usePuzzleList(
+    { dateFrom: dates[0], dateTo: dates[dates.length - 1], limit: dates.length * GENRES.length },
+    storage,
+  );
+
+  const today = formatDateForStorage(new Date());
+  const days = useMemo(
+    () => buildMasterCalendar(dates, data?.puzzles ?? [], today),
+    [dates, data, today],
+  );
+  const summary = summarizeMasterCalendar(days);
+
+  const goToWeek = (offset: number) => {
+    const newStart = new Date(currentWeekStart);
+    newStart.setDate(newStart.getDate() + offset * 7);
+    setCurrentWeekStart(newStart);
+  };
+
+  const handleCellClick = (genre: Genre, date: string) => {
+    setGenre(genre);
+    navigate(`/admin/puzzles?date=${date}`);
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap="lg" padding="4">
+      <Box display="flex" flexDirection="column" gap="sm">
+        <Heading level={1} size="2xl">
+          Master Calendar
+        </Heading>
+        <Text semantic="secondary">
+          {isLoading
+            ? "Loading every genre's schedule…"
+            : summary.gaps === 0 && summary.pending === 0
+              ? "Every genre is published for the week"
+              : `${summary.gaps} gap(s) and ${summary.pending} pending puzzle(s) across all genres`}
+        </Text>
+      </Box>
+
+      <Box display="flex" justifyContent="center" alignItems="center" gap="md">
+        <Button variant="outline" onClick={() => goToWeek(-1)} aria-label="Previous week">
+          ← Prev
+        </Button>
+        <Text size="lg" weight="medium">
+          {formatWeekRange(currentWeekStart, getWeekDays(currentWeekStart)[6])}
+        </Text>
+        <Button variant="outline" onClick={() => goToWeek(1)} aria-label="Next week">
+          Next →
+        </Button>
+      </Box>
+
+      {error instanceof Error && <Text semantic="error">{error.message}</Text>}
+
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" padding="6">
+          <Spinner size="lg" />
+        </Box>
+      ) : (
+        <Box border="default" padding="2">
+          <MasterCalendarGrid days={days} today={today} onCellClick={handleCellClick} />
+        </Box>
+      )}
+    </Box>
+  );
+}
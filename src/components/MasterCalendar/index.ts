@@ -0,0 +1,2 @@
+export { MasterCalendarPage } from "./MasterCalendarPage";
+export { MasterCalendarGrid } from "./MasterCalendarGrid";
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { buildMasterCalendar, summarizeMasterCalendar } from './masterCalendar';
+import type { StoredPuzzle } from '../../lib/supabase/storage/IPuzzleStorage';
+import type { Genre } from '../../types';
+
+const createPuzzle = (genre: Genre, date: string, status: StoredPuzzle['status'] = 'published'): StoredPuzzle => ({
+  id: `${genre}-${date}`,
+  createdAt: Date.now(),
+  puzzleDate: date,
+  title: null,
+  groupIds: ['g1', 'g2', 'g3', 'g4'],
+  status,
+  genre,
+  source: 'system',
+});
+
+describe('buildMasterCalendar', () => {
+  const dates = ['2025-03-09', '2025-03-10', '2025-03-11'];
+  const puzzles = [
+    createPuzzle('films', '2025-03-09'),
+    createPuzzle('films', '2025-03-10'),
+    createPuzzle('films', '2025-03-11'),
+    createPuzzle('music', '2025-03-10'),
+    createPuzzle('music', '2025-03-11', 'approved'),
+    createPuzzle('books', '2025-03-11', 'pending'),
+  ];
+
+  it('should give every genre a cell for every day', () => {
+    const days = buildMasterCalendar(dates, puzzles, '2025-03-10');
+
+    expect(days.map((day) => day.date)).toEqual(dates);
+    expect(Object.keys(days[0].cells)).toEqual(['films', 'music', 'books', 'sports']);
+    expect(days[2].cells.music.puzzle?.id).toBe('music-2025-03-11');
+  });
+
+  it('should mark published, pending, gap and missed days', () => {
+    const days = buildMasterCalendar(dates, puzzles, '2025-03-10');
+
+    expect(days[0].cells.films.status).toBe('published');
+    expect(days[0].cells.music.status).toBe('missed');
+    expect(days[1].cells.books.status).toBe('gap');
+    expect(days[2].cells.music.status).toBe('pending');
+    expect(days[2].cells.books.status).toBe('pending');
+  });
+
+  it('should count gaps and pending puzzles per genre', () => {
+    const summary = summarizeMasterCalendar(buildMasterCalendar(dates, puzzles, '2025-03-10'));
+
+    expect(summary.gaps).toBe(3);
+    expect(summary.pending).toBe(2);
+    expect(summary.byGenre.films).toEqual({ gaps: 0, pending: 0 });
+    expect(summary.byGenre.books).toEqual({ gaps: 1, pending: 1 });
+    expect(summary.byGenre.sports).toEqual({ gaps: 2, pending: 0 });
+  });
+});
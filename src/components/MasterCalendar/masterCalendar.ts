@@ -0,0 +1,89 @@
+/**
+ * Master calendar helpers
+ *
+ * Lays out every genre's puzzles per day from one list of puzzles, and
+ * counts the gaps and pending puzzles admins need to act on.
+ */
+
+import type { StoredPuzzle } from "../../lib/supabase/storage/IPuzzleStorage";
+import { GENRES, type Genre } from "../../types";
+
+/**
+ * - published: scheduled and live on its day
+ * - pending: scheduled but not published yet
+ * - gap: today or later with no puzzle
+ * - missed: a past day with no puzzle (nothing to fix)
+ */
+export type MasterCalendarStatus = "published" | "pending" | "gap" | "missed";
+
+export interface MasterCalendarCell {
+  genre: Genre;
+  /** YYYY-MM-DD */
+  date: string;
+  puzzle: StoredPuzzle | null;
+  status: MasterCalendarStatus;
+}
+
+export interface MasterCalendarDay {
+  /** YYYY-MM-DD */
+  date: string;
+  cells: Record<Genre, MasterCalendarCell>;
+}
+
+/**
+ * One row per date with a cell for every genre
+ */
+export function buildMasterCalendar(
+  dates: string[],
+  puzzles: StoredPuzzle[],
+  today: string,
+): MasterCalendarDay[] {
+  const byGenreAndDate = new Map<string, StoredPuzzle>();
+  for (const puzzle of puzzles) {
+    if (puzzle.puzzleDate) {
+      byGenreAndDate.set(`${puzzle.genre}:${puzzle.puzzleDate}`, puzzle);
+    }
+  }
+
+  return dates.map((date) => {
+    const cells = {} as Record<Genre, MasterCalendarCell>;
+    for (const genre of GENRES) {
+      const puzzle = byGenreAndDate.get(`${genre}:${date}`) ?? null;
+      cells[genre] = { genre, date, puzzle, status: getStatus(puzzle, date, today) };
+    }
+    return { date, cells };
+  });
+}
+
+/**
+ * Gaps and pending puzzles per genre and in total
+ */
+export function summarizeMasterCalendar(days: MasterCalendarDay[]): {
+  gaps: number;
+  pending: number;
+  byGenre: Record<Genre, { gaps: number; pending: number }>;
+} {
+  const byGenre = Object.fromEntries(GENRES.map((genre) => [genre, { gaps: 0, pending: 0 }])) as Record<
+    Genre,
+    { gaps: number; pending: number }
+  >;
+
+  for (const day of days) {
+    for (const genre of GENRES) {
+      const { status } = day.cells[genre];
+      if (status === "gap") byGenre[genre].gaps++;
+      if (status === "pending") byGenre[genre].pending++;
+    }
+  }
+
+  return {
+    gaps: GENRES.reduce((total, genre) => total + byGenre[genre].gaps, 0),
+    pending: GENRES.reduce((total, genre) => total + byGenre[genre].pending, 0),
+    byGenre,
+  };
+}
+
+function getStatus(puzzle: StoredPuzzle | null, date: string, today: string): MasterCalendarStatus {
+  if (!puzzle) return date >= today ? "gap" : "missed";
+  return puzzle.status === "published" ? "published" : "pending";
+}
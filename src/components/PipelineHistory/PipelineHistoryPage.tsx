@@ -0,0 +1,66 @@
+/**
+ * Pipeline History Page
+ *
+ * Admin page listing recorded pipeline fills for the selected genre,
+ * with drill-down into a single run at /admin/history/:runId.
+ */
+
+import { useNavigate, useParams } from "react-router-dom";
+import { Box, Button, Heading, Spinner, Text } from "@mond-design-system/theme";
+import { supabase } from "../../lib/supabase/client";
+import { useGenre } from "../../providers";
+import { usePipelineRun, usePipelineRuns } from "../../services/pipeline";
+import { PipelineRunList } from "./PipelineRunList";
+import { PipelineRunDetail } from "./PipelineRunDetail";
+
+export function PipelineHistoryPage() {
+  const { runId } = useParams<{ runId: string }>();
+  const navigate = useNavigate();
+  const { genre } = useGenre();
+
+  const runsQuery = usePipelineRuns(supabase, genre);
+  const runQuery = usePipelineRun(supabase, runId);
+
+  const showList = () => navigate("/admin/history");
+
+  if (runId) {
+    if (runQuery.isLoading) {
+      return (
+        <Box display="flex" justifyContent="center" padding="4">
+          <Spinner size="lg" />
+        </Box>
+      );
+    }
+
+    return (
+      <Box display="flex" flexDirection="column" gap="md" padding="4">
+        {runQuery.data ? (
+          <PipelineRunDetail run={runQuery.data} onBack={showList} />
+        ) : (
+          <Box display="flex" flexDirection="column" gap="sm" alignItems="flex-start">
+            <Text semantic="secondary">
+              {runQuery.error instanceof Error ? runQuery.error.message : "Run not found"}
+            </Text>
+            <Button variant="outline" size="sm" onClick={showList}>
+              ← All runs
+            </Button>
+          </Box>
+        )}
+      </Box>
+    );
+  }
+
+  return (
+    <Box display="flex" flexDirection="column" gap="md" padding="4">
+      <Heading level={2}>Pipeline History</Heading>
+      {runsQuery.error instanceof Error && (
+        <Text semantic="error">{runsQuery.error.message}</Text>
+      )}
+      <PipelineRunList
+        runs={runsQuery.data ?? []}
+        isLoading={runsQuery.isLoading}
+        onSelect={(id) => navigate(`/admin/history/${id}`)}
+      />
+    </Box>
+  );
+}
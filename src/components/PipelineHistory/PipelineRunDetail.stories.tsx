@@ -0,0 +1,97 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { PipelineRunDetail } from './PipelineRunDetail';
+import { DEFAULT_PIPELINE_CONFIG } from '../../services/pipeline/types';
+import type { PipelineRun } from '../../services/pipeline/types';
+
+const mockRun: PipelineRun = {
+  id: 'run-1',
+  genre: 'films',
+  trigger: 'cron',
+  status: 'partial',
+  startedAt: new Date('2025-03-04T06:00:00Z'),
+  finishedAt: new Date('2025-03-04T06:01:12Z'),
+  config: { ...DEFAULT_PIPELINE_CONFIG, genre: 'films', enabled: true },
+  stageTimings: [
+    { stage: 'checking-pool', startedAt: '2025-03-04T06:00:00.000Z', durationMs: 420 },
+    { stage: 'generating-purple', startedAt: '2025-03-04T06:00:00.420Z', durationMs: 68_300 },
+    { stage: 'creating-puzzles', startedAt: '2025-03-04T06:01:08.720Z', durationMs: 3_280 },
+    { stage: 'complete', startedAt: '2025-03-04T06:01:12.000Z', durationMs: 0 },
+  ],
+  aiGenerationTriggered: true,
+  groupsGenerated: 20,
+  groupsSaved: 14,
+  groupsPendingReview: 4,
+  groupsByColor: {
+    yellow: { generated: 0, saved: 0 },
+    green: { generated: 0, saved: 0 },
+    blue: { generated: 0, saved: 0 },
+    purple: { generated: 20, saved: 14 },
+  },
+  puzzlesCreated: 2,
+  emptyDaysRemaining: 1,
+  puzzles: [
+    { date: '2025-03-05', puzzleId: 'a1b2c3', groupIds: ['y1', 'g1', 'b1', 'p1'] },
+    { date: '2025-03-06', puzzleId: 'd4e5f6', groupIds: ['y2', 'g2', 'b2', 'p2'] },
+  ],
+  errors: [
+    { date: '2025-03-07', message: 'No puzzle without a shared item or a recent connection type', code: 'INSUFFICIENT_GROUPS' },
+  ],
+  warnings: [
+    { date: '', message: '[purple] Group "Heist films" is a likely duplicate (same connection as "Heist movies"), skipping', code: 'GROUP_SKIPPED' },
+  ],
+  failureMessage: null,
+};
+
+const meta: Meta<typeof PipelineRunDetail> = {
+  title: 'PipelineHistory/PipelineRunDetail',
+  component: PipelineRunDetail,
+  parameters: {
+    layout: 'padded',
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    onBack: { action: 'back' },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const Partial: Story = {
+  args: {
+    run: mockRun,
+  },
+};
+
+export const Success: Story = {
+  args: {
+    run: {
+      ...mockRun,
+      trigger: 'manual',
+      status: 'success',
+      aiGenerationTriggered: false,
+      groupsGenerated: 0,
+      groupsSaved: 0,
+      groupsPendingReview: 0,
+      emptyDaysRemaining: 0,
+      errors: [],
+      warnings: [],
+    },
+  },
+};
+
+export const Failed: Story = {
+  args: {
+    run: {
+      ...mockRun,
+      trigger: 'cli',
+      status: 'failed',
+      stageTimings: mockRun.stageTimings.slice(0, 1),
+      puzzles: [],
+      puzzlesCreated: 0,
+      errors: [],
+      warnings: [],
+      failureMessage: 'Failed to list groups: connection refused',
+    },
+  },
+};
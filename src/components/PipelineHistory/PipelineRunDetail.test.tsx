@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PipelineRunDetail } from './PipelineRunDetail';
+import { DEFAULT_PIPELINE_CONFIG } from '../../services/pipeline/types';
+import type { PipelineRun } from '../../services/pipeline/types';
+
+const createRun = (overrides: Partial<PipelineRun> = {}): PipelineRun => ({
+  id: 'run-1',
+  genre: 'films',
+  trigger: 'cron',
+  status: 'partial',
+  startedAt: new Date('2025-03-04T10:00:00Z'),
+  finishedAt: new Date('2025-03-04T10:00:05Z'),
+  config: { ...DEFAULT_PIPELINE_CONFIG, genre: 'films' },
+  stageTimings: [
+    { stage: 'checking-pool', startedAt: '2025-03-04T10:00:00.000Z', durationMs: 250 },
+    { stage: 'generating-yellow', startedAt: '2025-03-04T10:00:00.250Z', durationMs: 4500 },
+  ],
+  aiGenerationTriggered: true,
+  groupsGenerated: 5,
+  groupsSaved: 4,
+  groupsPendingReview: 1,
+  groupsByColor: {
+    yellow: { generated: 5, saved: 4 },
+    green: { generated: 0, saved: 0 },
+    blue: { generated: 0, saved: 0 },
+    purple: { generated: 0, saved: 0 },
+  },
+  puzzlesCreated: 1,
+  emptyDaysRemaining: 1,
+  puzzles: [{ date: '2025-03-05', puzzleId: 'puzzle-1', groupIds: ['y1', 'g1', 'b1', 'p1'] }],
+  errors: [{ date: '2025-03-06', message: 'Not enough purple groups', code: 'INSUFFICIENT_GROUPS' }],
+  warnings: [],
+  failureMessage: null,
+  ...overrides,
+});
+
+describe('PipelineRunDetail', () => {
+  it('should show the outcome, trigger and config', () => {
+    render(<PipelineRunDetail run={createRun()} onBack={vi.fn()} />);
+
+    expect(screen.getByText('Partial')).toBeInTheDocument();
+    expect(screen.getByText('Scheduled')).toBeInTheDocument();
+    expect(screen.getByText('threshold (80)')).toBeInTheDocument();
+    expect(screen.getByText('5.0s')).toBeInTheDocument();
+  });
+
+  it('should show stage timings and groups per color', () => {
+    render(<PipelineRunDetail run={createRun()} onBack={vi.fn()} />);
+
+    expect(screen.getByText('Checking group pool')).toBeInTheDocument();
+    expect(screen.getByText('250ms')).toBeInTheDocument();
+    expect(screen.getByText('4.5s')).toBeInTheDocument();
+    expect(screen.getByText('4 saved of 5 generated')).toBeInTheDocument();
+    expect(screen.getByText('4 saved of 5 generated · 1 awaiting review')).toBeInTheDocument();
+  });
+
+  it('should list created puzzles per date and errors', () => {
+    render(<PipelineRunDetail run={createRun()} onBack={vi.fn()} />);
+
+    expect(screen.getByText('2025-03-05')).toBeInTheDocument();
+    expect(screen.getByText('puzzle-1 (4 groups)')).toBeInTheDocument();
+    expect(screen.getByText('INSUFFICIENT_GROUPS')).toBeInTheDocument();
+    expect(screen.getByText('Not enough purple groups')).toBeInTheDocument();
+  });
+
+  it('should show why a failed run was aborted', () => {
+    render(
+      <PipelineRunDetail
+        run={createRun({ status: 'failed', failureMessage: 'Connection lost' })}
+        onBack={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Failed')).toBeInTheDocument();
+    expect(screen.getByText('Run aborted: Connection lost')).toBeInTheDocument();
+  });
+
+  it('should go back to the run list', () => {
+    const onBack = vi.fn();
+    render(<PipelineRunDetail run={createRun()} onBack={onBack} />);
+
+    fireEvent.click(screen.getByRole('button', { name: '← All runs' }));
+
+    expect(onBack).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Pipeline Run Detail
+ *
+ * Drill-down into a single recorded fill: outcome, the config it ran with,
+ * time spent per stage, groups generated per color, puzzles created per date
+ * and the errors it reported.
+ */
+
+import type { ReactNode } from "react";
+import {
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Heading,
+  Tag,
+  Text,
+} from "@mond-design-system/theme";
+import { PIPELINE_TRIGGER_LABELS } from "../../services/pipeline";
+import type { PipelineRun } from "../../services/pipeline";
+import {
+  STATUS_LABELS,
+  STATUS_SEMANTICS,
+  formatDuration,
+  formatRunTime,
+  getRunDuration,
+  getStageName,
+} from "./pipelineRunFormat";
+
+const COLORS = ["yellow", "green", "blue", "purple"] as const;
+
+export interface PipelineRunDetailProps {
+  run: PipelineRun;
+  onBack: () => void;
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <Card variant="default">
+      <CardBody>
+        <Box display="flex" flexDirection="column" gap="xs">
+          <Heading level={3} size="md">
+            {title}
+          </Heading>
+          {children}
+        </Box>
+      </CardBody>
+    </Card>
+  );
+}
+
+function Row({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <Box display="flex" justifyContent="space-between" gap="md">
+      <Text size="sm">{label}</Text>
+      <Text size="sm" semantic="secondary">
+        {value}
+      </Text>
+    </Box>
+  );
+}
+
+export function PipelineRunDetail({ run, onBack }: PipelineRunDetailProps) {
+  const { config } = run;
+
+  return (
+    <Box display="flex" flexDirection="column" gap="md">
+      <Box display="flex" alignItems="center" gap="sm">
+        <Button variant="outline" size="sm" onClick={onBack}>
+          ← All runs
+        </Button>
+        <Heading level={2} size="lg">
+          Run {formatRunTime(run.startedAt)}
+        </Heading>
+        <Tag size="sm" variant="filled" semantic={STATUS_SEMANTICS[run.status]}>
+          {STATUS_LABELS[run.status]}
+        </Tag>
+      </Box>
+
+      {run.failureMessage && (
+        <Text semantic="error">Run aborted: {run.failureMessage}</Text>
+      )}
+
+      <Section title="Summary">
+        <Row label="Genre" value={run.genre} />
+        <Row label="Trigger" value={PIPELINE_TRIGGER_LABELS[run.trigger]} />
+        <Row label="Started" value={run.startedAt.toLocaleString("en-US")} />
+        <Row label="Duration" value={formatDuration(getRunDuration(run))} />
+        <Row label="Puzzles created" value={run.puzzlesCreated} />
+        <Row label="Empty days remaining" value={run.emptyDaysRemaining} />
+      </Section>
+
+      <Section title="Config">
+        <Row label="Rolling window" value={`${config.rollingWindowDays} days`} />
+        <Row label="Reserve per color" value={config.minGroupsPerColor} />
+        <Row label="Generation batch size" value={config.aiGenerationBatchSize} />
+        <Row
+          label="Monthly token budget"
+          value={config.monthlyTokenBudget?.toLocaleString("en-US") ?? "No limit"}
+        />
+        <Row label="Connection type gap" value={`${config.connectionTypeGapDays} days`} />
+        <Row
+          label="Auto-approval"
+          value={
+            config.autoApprovalMode === "threshold"
+              ? `threshold (${config.autoApprovalThreshold})`
+              : config.autoApprovalMode
+          }
+        />
+        <Row label="Self-critique" value={config.selfCritiqueEnabled ? "On" : "Off"} />
+      </Section>
+
+      <Section title="Stage timings">
+        {run.stageTimings.length === 0 ? (
+          <Text size="sm" semantic="secondary">
+            No stages recorded
+          </Text>
+        ) : (
+          run.stageTimings.map((timing) => (
+            <Row
+              key={`${timing.stage}-${timing.startedAt}`}
+              label={getStageName(timing.stage)}
+              value={formatDuration(timing.durationMs)}
+            />
+          ))
+        )}
+      </Section>
+
+      <Section title="Group generation">
+        {run.aiGenerationTriggered ? (
+          <>
+            <Row
+              label="Total"
+              value={`${run.groupsSaved} saved of ${run.groupsGenerated} generated · ${run.groupsPendingReview} awaiting review`}
+            />
+            {COLORS.map((color) => (
+              <Row
+                key={color}
+                label={color}
+                value={`${run.groupsByColor[color].saved} saved of ${run.groupsByColor[color].generated} generated`}
+              />
+            ))}
+          </>
+        ) : (
+          <Text size="sm" semantic="secondary">
+            No groups generated
+          </Text>
+        )}
+      </Section>
+
+      <Section title="Puzzles created">
+        {run.puzzles.length === 0 ? (
+          <Text size="sm" semantic="secondary">
+            No puzzles created
+          </Text>
+        ) : (
+          run.puzzles.map((puzzle) => (
+            <Row
+              key={puzzle.puzzleId}
+              label={puzzle.date}
+              value={`${puzzle.puzzleId} (${puzzle.groupIds.length} groups)`}
+            />
+          ))
+        )}
+      </Section>
+
+      <Section title="Errors">
+        {run.errors.length === 0 ? (
+          <Text size="sm" semantic="secondary">
+            No errors
+          </Text>
+        ) : (
+          run.errors.map((error, index) => (
+            <Box key={`${error.date}-${index}`} display="flex" alignItems="center" gap="sm">
+              <Tag size="sm" variant="outlined" semantic="error">
+                {error.code}
+              </Tag>
+              <Text size="sm" weight="medium">
+                {error.date}
+              </Text>
+              <Text size="sm">{error.message}</Text>
+            </Box>
+          ))
+        )}
+      </Section>
+
+      {run.warnings.length > 0 && (
+        <Section title="Warnings">
+          {run.warnings.map((warning, index) => (
+            <Box key={`${warning.date}-${index}`} display="flex" alignItems="center" gap="sm">
+              <Tag size="sm" variant="outlined" semantic="warning">
+                {warning.code}
+              </Tag>
+              <Text size="sm" weight="medium">
+                {warning.date}
+              </Text>
+              <Text size="sm">{warning.message}</Text>
+            </Box>
+          ))}
+        </Section>
+      )}
+    </Box>
+  );
+}
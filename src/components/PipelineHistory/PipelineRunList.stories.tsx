@@ -0,0 +1,76 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { PipelineRunList } from './PipelineRunList';
+import { DEFAULT_PIPELINE_CONFIG } from '../../services/pipeline/types';
+import type { PipelineRun, PipelineRunStatus, PipelineRunTrigger } from '../../services/pipeline/types';
+
+const createRun = (
+  id: string,
+  startedAt: string,
+  trigger: PipelineRunTrigger,
+  status: PipelineRunStatus
+): PipelineRun => ({
+  id,
+  genre: 'films',
+  trigger,
+  status,
+  startedAt: new Date(startedAt),
+  finishedAt: new Date(new Date(startedAt).getTime() + 42_000),
+  config: { ...DEFAULT_PIPELINE_CONFIG, genre: 'films' },
+  stageTimings: [],
+  aiGenerationTriggered: false,
+  groupsGenerated: 0,
+  groupsSaved: 0,
+  groupsPendingReview: 0,
+  groupsByColor: {
+    yellow: { generated: 0, saved: 0 },
+    green: { generated: 0, saved: 0 },
+    blue: { generated: 0, saved: 0 },
+    purple: { generated: 0, saved: 0 },
+  },
+  puzzlesCreated: status === 'failed' ? 0 : 3,
+  emptyDaysRemaining: status === 'partial' ? 1 : 0,
+  puzzles: [],
+  errors: [],
+  warnings: [],
+  failureMessage: status === 'failed' ? 'Connection refused' : null,
+});
+
+const meta: Meta<typeof PipelineRunList> = {
+  title: 'PipelineHistory/PipelineRunList',
+  component: PipelineRunList,
+  parameters: {
+    layout: 'padded',
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    onSelect: { action: 'select run' },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const Default: Story = {
+  args: {
+    runs: [
+      createRun('run-3', '2025-03-04T06:00:00Z', 'cron', 'success'),
+      createRun('run-2', '2025-03-03T14:12:00Z', 'manual', 'partial'),
+      createRun('run-1', '2025-03-03T06:00:00Z', 'cron', 'failed'),
+    ],
+    isLoading: false,
+  },
+};
+
+export const Empty: Story = {
+  args: {
+    runs: [],
+    isLoading: false,
+  },
+};
+
+export const Loading: Story = {
+  args: {
+    runs: [],
+    isLoading: true,
+  },
+};
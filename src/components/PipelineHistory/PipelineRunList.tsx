@@ -0,0 +1,78 @@
+/**
+ * Pipeline Run List
+ *
+ * Recorded pipeline fills, most recent first. Selecting a run opens its detail.
+ */
+
+import { Box, Card, CardBody, Spinner, Tag, Text } from "@mond-design-system/theme";
+import { PIPELINE_TRIGGER_LABELS } from "../../services/pipeline";
+import type { PipelineRun } from "../../services/pipeline";
+import {
+  STATUS_LABELS,
+  STATUS_SEMANTICS,
+  formatDuration,
+  formatRunTime,
+  getRunDuration,
+} from "./pipelineRunFormat";
+
+export interface PipelineRunListProps {
+  runs: PipelineRun[];
+  isLoading: boolean;
+  onSelect: (id: string) => void;
+}
+
+export function PipelineRunList({ runs, isLoading, onSelect }: PipelineRunListProps) {
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" padding="4">
+        <Spinner size="lg" />
+      </Box>
+    );
+  }
+
+  if (runs.length === 0) {
+    return (
+      <Box padding="4">
+        <Text semantic="secondary">
+          No pipeline runs recorded yet. Runs appear here after Fill Now, the scheduled fill or the CLI.
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <Box display="flex" flexDirection="column" gap="sm">
+      {runs.map((run) => (
+        <Card key={run.id} onClick={() => onSelect(run.id)} hoverable>
+          <CardBody>
+            <Box
+              display="flex"
+              justifyContent="space-between"
+              alignItems="center"
+              gap="md"
+              aria-label={`Run ${formatRunTime(run.startedAt)}`}
+            >
+              <Box display="flex" alignItems="center" gap="sm">
+                <Tag size="sm" variant="filled" semantic={STATUS_SEMANTICS[run.status]}>
+                  {STATUS_LABELS[run.status]}
+                </Tag>
+                <Text weight="medium">{formatRunTime(run.startedAt)}</Text>
+                <Tag size="sm" variant="outlined">
+                  {PIPELINE_TRIGGER_LABELS[run.trigger]}
+                </Tag>
+                <Text size="sm" semantic="secondary">
+                  {run.genre}
+                </Text>
+              </Box>
+              <Text size="sm" semantic="secondary">
+                {run.puzzlesCreated} puzzles · {run.groupsSaved} groups
+                {run.errors.length > 0 && ` · ${run.errors.length} errors`} ·{" "}
+                {formatDuration(getRunDuration(run))}
+              </Text>
+            </Box>
+          </CardBody>
+        </Card>
+      ))}
+    </Box>
+  );
+}
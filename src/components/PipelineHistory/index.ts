@@ -0,0 +1,3 @@
+export { PipelineHistoryPage } from "./PipelineHistoryPage";
+export { PipelineRunList } from "./PipelineRunList";
+export { PipelineRunDetail } from "./PipelineRunDetail";
@@ -0,0 +1,43 @@
+/**
+ * Display helpers shared by the pipeline run list and detail views
+ */
+
+import { PIPELINE_STAGE_LABELS } from "../../services/pipeline";
+import type { PipelineRun, PipelineRunStatus, PipelineStage } from "../../services/pipeline";
+
+export const STATUS_LABELS: Record<PipelineRunStatus, string> = {
+  success: "Success",
+  partial: "Partial",
+  failed: "Failed",
+};
+
+export const STATUS_SEMANTICS: Record<PipelineRunStatus, "success" | "warning" | "error"> = {
+  success: "success",
+  partial: "warning",
+  failed: "error",
+};
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+export function formatRunTime(date: Date): string {
+  return date.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function getRunDuration(run: PipelineRun): number {
+  return run.finishedAt.getTime() - run.startedAt.getTime();
+}
+
+/** Stage label without the progress ellipsis */
+export function getStageName(stage: PipelineStage): string {
+  return PIPELINE_STAGE_LABELS[stage].replace(/\.\.\.$/, "");
+}
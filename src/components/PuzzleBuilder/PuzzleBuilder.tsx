@@ -6,30 +6,35 @@
  */
 
 import { useState, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Box, Heading } from "@mond-design-system/theme";
 import { Input } from "@mond-design-system/theme/client";
 import { SupabaseGroupStorage } from "../../lib/supabase/storage/SupabaseGroupStorage";
 import { SupabaseStorage } from "../../lib/supabase/storage/SupabaseStorage";
-import {
-  useGroupList,
-  useIncrementGroupUsage,
-} from "../../lib/supabase/storage/useGroupStorage";
-import { useSavePuzzle } from "../../lib/supabase/storage/usePuzzleStorage";
+import { useGroupList } from "../../lib/supabase/storage/useGroupStorage";
+import { useCreatePuzzle } from "../../lib/supabase/storage/usePuzzleStorage";
 import type {
   StoredGroup,
   DifficultyColor,
-  PuzzleInput,
+  PuzzleCreateInput,
 } from "../../lib/supabase/storage";
 import { supabase } from "../../lib/supabase/client";
 import { useToast } from "../../providers/useToast";
 import { useGenre } from "../../providers";
 import { DifficultySlot } from "../PuzzleQueue/DifficultySlot";
 import { PuzzlePreview } from "../PuzzleQueue/PuzzlePreview";
+import {
+  MetadataOverlapAnalyzer,
+  TMDBMetadataSource,
+} from "../../services/puzzle-analysis";
 
 // Create storage instances
 const groupStorage = new SupabaseGroupStorage(supabase);
 const puzzleStorage = new SupabaseStorage(supabase);
 
+// Scores red herrings and flags items that fit two of the selected groups
+const overlapAnalyzer = new MetadataOverlapAnalyzer(new TMDBMetadataSource());
+
 // Color order for puzzle building
 const colors: DifficultyColor[] = ["yellow", "green", "blue", "purple"];
 
@@ -84,12 +89,22 @@ export function PuzzleBuilder() {
   }, [yellowQuery.data, greenQuery.data, blueQuery.data, purpleQuery.data]);
 
   // Mutations
-  const savePuzzleMutation = useSavePuzzle(puzzleStorage);
-  const incrementUsageMutation = useIncrementGroupUsage(groupStorage);
+  const createPuzzleMutation = useCreatePuzzle(puzzleStorage);
 
   // Check if all groups are selected
   const allSelected = colors.every((color) => selectedGroups[color] !== null);
 
+  // Analyze overlap between the selected groups
+  const analysisQuery = useQuery({
+    queryKey: [
+      "overlapAnalysis",
+      ...colors.map((color) => selectedGroups[color]?.id ?? null),
+    ],
+    queryFn: () =>
+      overlapAnalyzer.analyze(colors.map((color) => selectedGroups[color]!)),
+    enabled: allSelected,
+  });
+
   const handleSelectGroup = (color: DifficultyColor, group: StoredGroup) => {
     setSelectedGroups((prev) => ({ ...prev, [color]: group }));
     setActiveColor(null);
@@ -104,17 +119,15 @@ export function PuzzleBuilder() {
 
     const groupIds = colors.map((color) => selectedGroups[color]!.id);
 
-    const puzzleInput: PuzzleInput = {
+    const puzzleInput: PuzzleCreateInput = {
       groupIds,
       title: title.trim() || undefined,
       genre,
     };
 
     try {
-      await savePuzzleMutation.mutateAsync(puzzleInput);
-
-      // Increment usage count for selected groups
-      await incrementUsageMutation.mutateAsync(groupIds);
+      // Saves the puzzle and increments usage for its groups in one transaction
+      await createPuzzleMutation.mutateAsync(puzzleInput);
 
       // Reset form
       setSelectedGroups({
@@ -178,7 +191,9 @@ export function PuzzleBuilder() {
             selectedGroups as Record<DifficultyColor, StoredGroup>
           }
           onSave={handleSavePuzzle}
-          isSaving={savePuzzleMutation.isPending}
+          isSaving={createPuzzleMutation.isPending}
+          analysis={analysisQuery.data}
+          isAnalyzing={analysisQuery.isLoading}
         />
       )}
     </Box>
@@ -79,6 +79,23 @@ describe('CalendarDay', () => {
     expect(screen.getByText('Scheduled')).toBeInTheDocument();
   });
 
+  it('should tag a themed day with its rules', () => {
+    const date = new Date(2024, 11, 6);
+    render(
+      <CalendarDay
+        date={date}
+        puzzle={null}
+        isToday={false}
+        isPast={false}
+        onClick={() => {}}
+        themes={['Horror Fridays']}
+      />
+    );
+
+    expect(screen.getByText('Horror Fridays')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Fri 6, themed: Horror Fridays' })).toBeInTheDocument();
+  });
+
   it('should use primary variant when isToday is true', () => {
     const date = new Date(2024, 11, 4);
     render(
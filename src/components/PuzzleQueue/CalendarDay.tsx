@@ -15,6 +15,8 @@ interface CalendarDayProps {
   isSelected?: boolean;
   /** Called when checkbox is toggled (only used in select mode) */
   onSelect?: () => void;
+  /** Names of the scheduling rules that make this a themed day */
+  themes?: string[];
 }
 
 const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
@@ -27,6 +29,7 @@ export function CalendarDay({
   isSelectMode = false,
   isSelected = false,
   onSelect,
+  themes = [],
 }: CalendarDayProps) {
   const dayNumber = date.getDate();
   const dayName = DAY_NAMES[date.getDay()];
@@ -60,7 +63,7 @@ export function CalendarDay({
       <Button
         variant={getVariant()}
         onClick={handleClick}
-        aria-label={`${dayName} ${dayNumber}${puzzle ? ", has puzzle scheduled" : ""}${isSelected ? ", selected" : ""}`}
+        aria-label={`${dayName} ${dayNumber}${puzzle ? ", has puzzle scheduled" : ""}${themes.length > 0 ? `, themed: ${themes.join(", ")}` : ""}${isSelected ? ", selected" : ""}`}
         fullWidth
       >
         <Box display="grid" gridTemplateRows="repeat(3, 1fr)">
@@ -71,6 +74,13 @@ export function CalendarDay({
           {puzzle && <Tag size="sm">Scheduled</Tag>}
         </Box>
       </Button>
+      {themes.length > 0 && (
+        <Box className="calendar-day-theme" title={themes.join(", ")}>
+          <Tag size="sm" variant="outlined" semantic="info">
+            {themes.join(", ")}
+          </Tag>
+        </Box>
+      )}
     </Box>
   );
 }
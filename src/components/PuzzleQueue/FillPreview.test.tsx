@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { FillPreview } from './FillPreview';
+import type { DifficultyColor, StoredGroup } from '../../lib/supabase/storage';
+import type { PipelineFillResult } from '../../services/pipeline/types';
+
+const createMockGroup = (color: DifficultyColor, connection: string): StoredGroup => ({
+  id: `group-${color}`,
+  createdAt: Date.now(),
+  items: [1, 2, 3, 4].map((n) => ({ id: n, title: `Film ${n}` })),
+  connection,
+  connectionType: `type-${color}`,
+  difficultyScore: 2500,
+  color,
+  difficulty: 'medium',
+  status: 'approved',
+  usageCount: 0,
+  lastUsedAt: null,
+  genre: 'films',
+});
+
+const createResult = (overrides: Partial<PipelineFillResult> = {}): PipelineFillResult => ({
+  puzzlesCreated: 1,
+  emptyDaysRemaining: 0,
+  errors: [],
+  warnings: [],
+  createdPuzzles: [],
+  aiGenerationTriggered: false,
+  groupsGenerated: 0,
+  groupsSaved: 0,
+  groupsPendingReview: 0,
+  groupsByColor: {
+    yellow: { generated: 0, saved: 0 },
+    green: { generated: 0, saved: 0 },
+    blue: { generated: 0, saved: 0 },
+    purple: { generated: 0, saved: 0 },
+  },
+  preview: {
+    plan: {
+      genre: 'films',
+      puzzles: [
+        {
+          date: '2024-12-10',
+          groups: [
+            createMockGroup('yellow', 'Easy connection'),
+            createMockGroup('green', 'Medium connection'),
+            createMockGroup('blue', 'Hard connection'),
+            createMockGroup('purple', 'Hardest connection'),
+          ],
+        },
+      ],
+      unplannedDates: [],
+      unsatisfiedRules: [],
+    },
+    generation: null,
+  },
+  ...overrides,
+});
+
+describe('FillPreview', () => {
+  it('should render the planned puzzle for each date', () => {
+    render(<FillPreview result={createResult()} />);
+
+    expect(screen.getByText('1 puzzle(s) would be created')).toBeInTheDocument();
+    expect(screen.getByText('2024-12-10')).toBeInTheDocument();
+    expect(screen.getByText('Easy connection')).toBeInTheDocument();
+    expect(screen.getByText('Hardest connection')).toBeInTheDocument();
+  });
+
+  it('should render the groups that would be generated', () => {
+    const result = createResult();
+    result.preview!.generation = { groupsPerColor: 5, colors: ['blue', 'purple'] };
+
+    render(<FillPreview result={result} />);
+
+    expect(screen.getByText('Would generate 5 group(s) for each of: blue, purple')).toBeInTheDocument();
+    expect(screen.getByText(/covers the current pool only/)).toBeInTheDocument();
+  });
+
+  it('should render dates that would stay empty with their reasons', () => {
+    const result = createResult({
+      puzzlesCreated: 0,
+      emptyDaysRemaining: 1,
+      errors: [{ date: '2024-12-11', message: 'No unused blue groups left', code: 'INSUFFICIENT_GROUPS' }],
+    });
+    result.preview!.plan = {
+      genre: 'films',
+      puzzles: [],
+      unplannedDates: [{ date: '2024-12-11', reason: 'No unused blue groups left' }],
+      unsatisfiedRules: [],
+    };
+
+    render(<FillPreview result={result} />);
+
+    expect(screen.getByText('1 day(s) would stay empty')).toBeInTheDocument();
+    expect(screen.getByText('2024-12-11: No unused blue groups left')).toBeInTheDocument();
+  });
+
+  it('should render the misdirection score when the puzzle was analyzed', () => {
+    const result = createResult();
+    result.preview!.plan.puzzles[0].analysis = {
+      misdirectionScore: 75,
+      verdict: 'healthy',
+      decoys: [],
+      ambiguities: [],
+    };
+
+    render(<FillPreview result={result} />);
+
+    expect(screen.getByText('Misdirection: 75/100')).toBeInTheDocument();
+  });
+});
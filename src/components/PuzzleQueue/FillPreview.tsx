@@ -0,0 +1,130 @@
+/**
+ * Fill Preview Component
+ *
+ * Shows what a pipeline fill would do, from a dry run: the groups it would
+ * generate, the puzzle planned for each empty date and the dates it would
+ * leave empty. The plan is built from the current pool only, so when
+ * generation would run it is a lower bound on what the fill creates.
+ */
+
+import { Box, Text, Badge } from '@mond-design-system/theme';
+import type { PipelineFillResult, PlannedPuzzle } from '../../services/pipeline/types';
+import { DIFFICULTY_COLORS } from '../../constants/difficulty';
+
+export interface FillPreviewProps {
+  /** Result of a dry-run fill */
+  result: PipelineFillResult;
+}
+
+function PlannedPuzzleRow({ puzzle }: { puzzle: PlannedPuzzle }) {
+  return (
+    <Box display="flex" flexDirection="column" gap="xs" padding="2" border="subtle" corners="rounded-md">
+      <Box display="flex" gap="sm" alignItems="center">
+        <Text size="sm" weight="bold">
+          {puzzle.date}
+        </Text>
+        {puzzle.analysis && (
+          <Text size="xs" semantic="secondary">
+            Misdirection: {puzzle.analysis.misdirectionScore}/100
+          </Text>
+        )}
+      </Box>
+      {puzzle.groups.map((group) => (
+        <Box key={group.id} display="flex" gap="sm" alignItems="center">
+          <div
+            style={{
+              width: '12px',
+              height: '12px',
+              borderRadius: '3px',
+              backgroundColor: group.color ? DIFFICULTY_COLORS[group.color] : undefined,
+              flexShrink: 0,
+            }}
+          />
+          <Text size="sm">{group.connection}</Text>
+        </Box>
+      ))}
+    </Box>
+  );
+}
+
+export function FillPreview({ result }: FillPreviewProps) {
+  const plan = result.preview?.plan;
+  const generation = result.preview?.generation;
+
+  return (
+    <Box display="flex" flexDirection="column" gap="md">
+      {/* Summary */}
+      <Box display="flex" gap="sm" alignItems="center">
+        <Badge variant={result.puzzlesCreated > 0 ? 'success' : 'warning'}>
+          {result.puzzlesCreated} puzzle(s) would be created
+        </Badge>
+        {result.emptyDaysRemaining > 0 && (
+          <Badge variant="warning">{result.emptyDaysRemaining} day(s) would stay empty</Badge>
+        )}
+      </Box>
+
+      {/* Generation request */}
+      {generation && (
+        <Box display="flex" flexDirection="column" gap="xs">
+          <Text size="sm">
+            Would generate {generation.groupsPerColor} group(s) for each of: {generation.colors.join(', ')}
+          </Text>
+          <Text size="xs" semantic="secondary">
+            The plan below covers the current pool only; the generated groups could fill more dates.
+          </Text>
+        </Box>
+      )}
+
+      {/* Planned puzzles */}
+      {plan && plan.puzzles.length > 0 && (
+        <Box display="flex" flexDirection="column" gap="sm">
+          {plan.puzzles.map((puzzle) => (
+            <PlannedPuzzleRow key={puzzle.date} puzzle={puzzle} />
+          ))}
+        </Box>
+      )}
+
+      {/* Dates left empty */}
+      {plan && plan.unplannedDates.length > 0 && (
+        <Box display="flex" flexDirection="column" gap="xs">
+          <Text size="sm" weight="medium">
+            Dates left empty
+          </Text>
+          {plan.unplannedDates.map(({ date, reason }) => (
+            <Text key={date} size="xs">
+              {date}: {reason}
+            </Text>
+          ))}
+        </Box>
+      )}
+
+      {/* Errors */}
+      {result.errors.length > 0 && (
+        <Box display="flex" flexDirection="column" gap="xs">
+          <Text size="sm" weight="medium" semantic="error">
+            Errors
+          </Text>
+          {result.errors.map((error, index) => (
+            <Text key={index} size="xs" semantic="error">
+              {error.message}
+            </Text>
+          ))}
+        </Box>
+      )}
+
+      {/* Warnings */}
+      {result.warnings.length > 0 && (
+        <Box display="flex" flexDirection="column" gap="xs">
+          <Text size="sm" weight="medium" semantic="warning">
+            Warnings
+          </Text>
+          {result.warnings.map((warning, index) => (
+            <Text key={index} size="xs">
+              {warning.message}
+            </Text>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,67 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { MonthCalendar } from './MonthCalendar';
+import { MockThemeProvider } from '../../../.storybook/MockThemeProvider';
+import type { StoredPuzzle } from '../../lib/supabase/storage/IPuzzleStorage';
+import { getMonthGridDays } from '../../utils/dateUtils';
+
+const createPuzzle = (date: string): StoredPuzzle => ({
+  id: `puzzle-${date}`,
+  createdAt: Date.now(),
+  puzzleDate: date,
+  title: null,
+  groupIds: ['g1', 'g2', 'g3', 'g4'],
+  status: 'published',
+  genre: 'films',
+  source: 'system',
+});
+
+const puzzlesByDate = new Map(
+  ['2025-03-03', '2025-03-04', '2025-03-05', '2025-03-06', '2025-03-07', '2025-03-10', '2025-03-12', '2025-03-13'].map(
+    (date) => [date, createPuzzle(date)]
+  )
+);
+
+const meta: Meta<typeof MonthCalendar> = {
+  title: 'Components/PuzzleQueue/MonthCalendar',
+  component: MonthCalendar,
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <MockThemeProvider>
+        <Story />
+      </MockThemeProvider>
+    ),
+  ],
+  argTypes: {
+    onDayClick: { action: 'day clicked' },
+    onMove: { action: 'moved' },
+    onSelect: { action: 'selected' },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof MonthCalendar>;
+
+export const Default: Story = {
+  args: {
+    days: getMonthGridDays(new Date(2025, 2, 1)),
+    month: 2,
+    puzzlesByDate,
+    today: '2025-03-05',
+  },
+};
+
+export const SelectMode: Story = {
+  args: {
+    ...Default.args,
+    isSelectMode: true,
+    selectedDates: new Set(['2025-03-10', '2025-03-12']),
+  },
+};
+
+export const Moving: Story = {
+  args: {
+    ...Default.args,
+    isMoving: true,
+  },
+};
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MonthCalendar, type MonthCalendarProps } from './MonthCalendar';
+import type { StoredPuzzle } from '../../lib/supabase/storage/IPuzzleStorage';
+import { getMonthGridDays } from '../../utils/dateUtils';
+
+const createPuzzle = (date: string): StoredPuzzle => ({
+  id: `puzzle-${date}`,
+  createdAt: Date.now(),
+  puzzleDate: date,
+  title: null,
+  groupIds: ['g1', 'g2', 'g3', 'g4'],
+  status: 'published',
+  genre: 'films',
+  source: 'system',
+});
+
+const renderCalendar = (overrides: Partial<MonthCalendarProps> = {}) => {
+  const props: MonthCalendarProps = {
+    days: getMonthGridDays(new Date(2025, 2, 1)),
+    month: 2,
+    puzzlesByDate: new Map(['2025-03-05', '2025-03-12', '2025-03-13'].map((date) => [date, createPuzzle(date)])),
+    today: '2025-03-05',
+    onDayClick: vi.fn(),
+    onMove: vi.fn(),
+    ...overrides,
+  };
+  render(<MonthCalendar {...props} />);
+  return props;
+};
+
+describe('MonthCalendar', () => {
+  it('should render every day of the grid', () => {
+    renderCalendar();
+
+    expect(screen.getByText('MON')).toBeInTheDocument();
+    expect(screen.getByTestId('month-day-2025-02-24')).toHaveClass('month-calendar-day--outside');
+    expect(screen.getByTestId('month-day-2025-04-06')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'March 12, 2025, has puzzle scheduled' })).toBeInTheDocument();
+  });
+
+  it('should tag themed days with their rules', () => {
+    renderCalendar({ themesByDate: new Map([['2025-03-12', ['Horror', 'Sequels']]]) });
+
+    expect(screen.getByText('Horror, Sequels')).toBeInTheDocument();
+    expect(
+      screen.getByRole('button', { name: 'March 12, 2025, has puzzle scheduled, themed: Horror, Sequels' })
+    ).toBeInTheDocument();
+  });
+
+  it('should open a day when clicked', () => {
+    const props = renderCalendar();
+
+    fireEvent.click(screen.getByRole('button', { name: 'March 20, 2025' }));
+
+    expect(props.onDayClick).toHaveBeenCalledWith('2025-03-20');
+  });
+
+  it('should only let puzzles after today move', () => {
+    renderCalendar();
+
+    expect(screen.getByRole('button', { name: 'Move the puzzle on March 12, 2025' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Move the puzzle on March 5, 2025' })).not.toBeInTheDocument();
+    expect(screen.getByTestId('month-day-2025-03-12')).toHaveAttribute('draggable', 'true');
+    expect(screen.getByTestId('month-day-2025-03-05')).toHaveAttribute('draggable', 'false');
+  });
+
+  it('should move a puzzle by drag and drop', () => {
+    const props = renderCalendar();
+
+    fireEvent.dragStart(screen.getByTestId('month-day-2025-03-12'));
+    fireEvent.dragOver(screen.getByTestId('month-day-2025-03-20'));
+    fireEvent.drop(screen.getByTestId('month-day-2025-03-20'));
+
+    expect(props.onMove).toHaveBeenCalledWith('2025-03-12', '2025-03-20');
+  });
+
+  it('should not drop onto today or earlier', () => {
+    const props = renderCalendar();
+
+    fireEvent.dragStart(screen.getByTestId('month-day-2025-03-12'));
+    fireEvent.drop(screen.getByTestId('month-day-2025-03-04'));
+
+    expect(props.onMove).not.toHaveBeenCalled();
+  });
+
+  it('should move a puzzle from the keyboard', () => {
+    const props = renderCalendar();
+    const handle = screen.getByRole('button', { name: 'Move the puzzle on March 12, 2025' });
+
+    fireEvent.keyDown(handle, { key: 'Enter' });
+    expect(screen.getByRole('status')).toHaveTextContent('Picked up the puzzle on March 12, 2025');
+
+    fireEvent.keyDown(handle, { key: 'ArrowDown' });
+    fireEvent.keyDown(handle, { key: 'ArrowLeft' });
+    expect(screen.getByRole('status')).toHaveTextContent('March 18, 2025');
+    expect(screen.getByTestId('month-day-2025-03-18')).toHaveClass('month-calendar-day--target');
+
+    fireEvent.keyDown(handle, { key: ' ' });
+    expect(props.onMove).toHaveBeenCalledWith('2025-03-12', '2025-03-18');
+  });
+
+  it('should announce a swap when dropping on a day with a puzzle', () => {
+    const props = renderCalendar();
+    const handle = screen.getByRole('button', { name: 'Move the puzzle on March 12, 2025' });
+
+    fireEvent.keyDown(handle, { key: 'Enter' });
+    fireEvent.keyDown(handle, { key: 'ArrowRight' });
+    expect(screen.getByRole('status')).toHaveTextContent('March 13, 2025, has a puzzle to swap with');
+
+    fireEvent.keyDown(handle, { key: 'Enter' });
+    expect(props.onMove).toHaveBeenCalledWith('2025-03-12', '2025-03-13');
+    expect(screen.getByRole('status')).toHaveTextContent('Swapping the puzzles on March 12, 2025 and March 13, 2025');
+  });
+
+  it('should cancel a keyboard move with Escape', () => {
+    const props = renderCalendar();
+    const handle = screen.getByRole('button', { name: 'Move the puzzle on March 12, 2025' });
+
+    fireEvent.keyDown(handle, { key: 'Enter' });
+    fireEvent.keyDown(handle, { key: 'ArrowRight' });
+    fireEvent.keyDown(handle, { key: 'Escape' });
+
+    expect(screen.getByRole('status')).toHaveTextContent('Move cancelled');
+    expect(props.onMove).not.toHaveBeenCalled();
+  });
+
+  it('should keep a keyboard move on a locked day from dropping', () => {
+    const props = renderCalendar();
+    const handle = screen.getByRole('button', { name: 'Move the puzzle on March 12, 2025' });
+
+    fireEvent.keyDown(handle, { key: 'Enter' });
+    fireEvent.keyDown(handle, { key: 'ArrowUp' });
+    expect(screen.getByRole('status')).toHaveTextContent('March 5, 2025, locked');
+
+    fireEvent.keyDown(handle, { key: 'Enter' });
+    expect(props.onMove).not.toHaveBeenCalled();
+  });
+
+  it('should select days with puzzles in select mode', () => {
+    const props = renderCalendar({ isSelectMode: true, onSelect: vi.fn() });
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Select March 12, 2025' }));
+
+    expect(props.onSelect).toHaveBeenCalledWith('2025-03-12');
+    expect(screen.queryByRole('button', { name: /Move the puzzle/ })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * MonthCalendar Component
+ *
+ * Month grid of the puzzle calendar. Puzzles after today can be dragged onto
+ * another day, or moved from the keyboard with each day's Move button: Enter
+ * or Space picks the puzzle up, the arrow keys choose a day, Enter or Space
+ * drops it and Escape cancels. Dropping onto a day with a puzzle swaps them.
+ */
+
+import { useState } from "react";
+import type { DragEvent, KeyboardEvent } from "react";
+import { Box, Button, Text, Tag } from "@mond-design-system/theme";
+import { Checkbox } from "@mond-design-system/theme/client";
+import type { StoredPuzzle } from "../../lib/supabase/storage/IPuzzleStorage";
+import { formatDateForStorage, formatDateHeader } from "../../utils/dateUtils";
+import { isLockedDate } from "./reschedulePlan";
+import "./MonthCalendar.css";
+
+export interface MonthCalendarProps {
+  /** Days of the month grid, in whole weeks from Monday */
+  days: Date[];
+  /** Month shown (0-11); days of other months are dimmed */
+  month: number;
+  puzzlesByDate: Map<string, StoredPuzzle>;
+  /** YYYY-MM-DD; puzzles on this day or earlier cannot move */
+  today: string;
+  onDayClick: (date: string) => void;
+  /** Called to move a day's puzzle onto another day */
+  onMove: (from: string, to: string) => void;
+  /** Whether a move is being saved */
+  isMoving?: boolean;
+  /** Whether selection mode is active */
+  isSelectMode?: boolean;
+  selectedDates?: Set<string>;
+  onSelect?: (date: string) => void;
+  /** Names of the scheduling rules of each themed day */
+  themesByDate?: Map<string, string[]>;
+}
+
+const WEEKDAY_NAMES = ["MON", "TUE", "WED", "THU", "FRI", "SAT", "SUN"];
+
+const KEY_OFFSETS: Record<string, number> = {
+  ArrowLeft: -1,
+  ArrowRight: 1,
+  ArrowUp: -7,
+  ArrowDown: 7,
+};
+
+export function MonthCalendar({
+  days,
+  month,
+  puzzlesByDate,
+  today,
+  onDayClick,
+  onMove,
+  isMoving = false,
+  isSelectMode = false,
+  selectedDates = new Set(),
+  onSelect,
+  themesByDate = new Map(),
+}: MonthCalendarProps) {
+  // Keyboard move in progress: the day picked up and the day it would drop on
+  const [pickedUp, setPickedUp] = useState<{ from: string; target: string } | null>(null);
+  const [dragFrom, setDragFrom] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+
+  const dateStrs = days.map(formatDateForStorage);
+  const labelOf = (dateStr: string) => formatDateHeader(days[dateStrs.indexOf(dateStr)]);
+  const canMove = !isSelectMode && !isMoving;
+
+  const pickUp = (dateStr: string) => {
+    setPickedUp({ from: dateStr, target: dateStr });
+    setAnnouncement(
+      `Picked up the puzzle on ${labelOf(dateStr)}. Use the arrow keys to choose a day, Enter to drop, Escape to cancel.`,
+    );
+  };
+
+  const cancelPickUp = () => {
+    if (!pickedUp) return;
+    setPickedUp(null);
+    setAnnouncement("Move cancelled");
+  };
+
+  const drop = (from: string, to: string) => {
+    if (isLockedDate(to, today)) {
+      setAnnouncement(`${labelOf(to)} is today or earlier; choose a later day`);
+      return;
+    }
+
+    setPickedUp(null);
+    if (from === to) {
+      setAnnouncement("Move cancelled");
+      return;
+    }
+    setAnnouncement(
+      puzzlesByDate.has(to)
+        ? `Swapping the puzzles on ${labelOf(from)} and ${labelOf(to)}`
+        : `Moving the puzzle to ${labelOf(to)}`,
+    );
+    onMove(from, to);
+  };
+
+  const handleMoveKeyDown = (event: KeyboardEvent, dateStr: string) => {
+    if (!pickedUp) {
+      if (event.key === "Enter" || event.key === " ") {
+        event.preventDefault();
+        pickUp(dateStr);
+      }
+      return;
+    }
+
+    if (event.key in KEY_OFFSETS) {
+      event.preventDefault();
+      const index = dateStrs.indexOf(pickedUp.target) + KEY_OFFSETS[event.key];
+      if (index < 0 || index >= dateStrs.length) return;
+
+      const target = dateStrs[index];
+      setPickedUp({ ...pickedUp, target });
+      setAnnouncement(
+        isLockedDate(target, today)
+          ? `${labelOf(target)}, locked`
+          : `${labelOf(target)}${puzzlesByDate.has(target) ? ", has a puzzle to swap with" : ""}`,
+      );
+    } else if (event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      drop(pickedUp.from, pickedUp.target);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      cancelPickUp();
+    }
+  };
+
+  const handleDragStart = (event: DragEvent, dateStr: string) => {
+    event.dataTransfer?.setData("text/plain", dateStr);
+    if (event.dataTransfer) event.dataTransfer.effectAllowed = "move";
+    setDragFrom(dateStr);
+  };
+
+  const handleDragOver = (event: DragEvent, dateStr: string) => {
+    // Only days after today accept a drop
+    if (!dragFrom || isLockedDate(dateStr, today)) return;
+    event.preventDefault();
+    setDropTarget(dateStr);
+  };
+
+  const handleDrop = (event: DragEvent, dateStr: string) => {
+    event.preventDefault();
+    if (dragFrom) {
+      drop(dragFrom, dateStr);
+    }
+    setDragFrom(null);
+    setDropTarget(null);
+  };
+
+  const handleDragEnd = () => {
+    setDragFrom(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap="xs">
+      <Box className="month-calendar">
+        {WEEKDAY_NAMES.map((name) => (
+          <Box key={name} className="month-calendar-weekday">
+            <Text size="xs" semantic="secondary">
+              {name}
+            </Text>
+          </Box>
+        ))}
+
+        {days.map((date, index) => {
+          const dateStr = dateStrs[index];
+          const puzzle = puzzlesByDate.get(dateStr) ?? null;
+          const isToday = dateStr === today;
+          const isSelected = selectedDates.has(dateStr);
+          const isMovable = puzzle !== null && canMove && !isLockedDate(dateStr, today);
+          const isTarget = pickedUp?.target === dateStr || dropTarget === dateStr;
+          const themes = themesByDate.get(dateStr) ?? [];
+          const label = formatDateHeader(date);
+
+          const classNames = [
+            "month-calendar-day",
+            date.getMonth() !== month && "month-calendar-day--outside",
+            dateStr < today && "month-calendar-day--past",
+            isSelected && "month-calendar-day--selected",
+            pickedUp?.from === dateStr && "month-calendar-day--picked-up",
+            isTarget && "month-calendar-day--target",
+          ].filter(Boolean);
+
+          return (
+            <Box
+              key={dateStr}
+              className={classNames.join(" ")}
+              data-testid={`month-day-${dateStr}`}
+              draggable={isMovable}
+              onDragStart={isMovable ? (event) => handleDragStart(event, dateStr) : undefined}
+              onDragEnd={handleDragEnd}
+              onDragOver={(event) => handleDragOver(event, dateStr)}
+              onDragLeave={() => setDropTarget((current) => (current === dateStr ? null : current))}
+              onDrop={(event) => handleDrop(event, dateStr)}
+            >
+              {isSelectMode && puzzle && (
+                <Box className="month-calendar-day-checkbox">
+                  <Checkbox
+                    checked={isSelected}
+                    onChange={() => onSelect?.(dateStr)}
+                    aria-label={`Select ${label}`}
+                  />
+                </Box>
+              )}
+              <Button
+                variant={isToday ? "primary" : "outline"}
+                size="sm"
+                onClick={() => (isSelectMode && puzzle && onSelect ? onSelect(dateStr) : onDayClick(dateStr))}
+                aria-label={`${label}${puzzle ? ", has puzzle scheduled" : ""}${themes.length > 0 ? `, themed: ${themes.join(", ")}` : ""}${isSelected ? ", selected" : ""}`}
+                fullWidth
+              >
+                <Box display="flex" flexDirection="column" alignItems="center" gap="xxs">
+                  <Text size="md" weight="bold">
+                    {date.getDate()}
+                  </Text>
+                  {puzzle && <Tag size="sm">Scheduled</Tag>}
+                </Box>
+              </Button>
+              {themes.length > 0 && (
+                <Box className="month-calendar-day-theme" title={themes.join(", ")}>
+                  <Tag size="sm" variant="outlined" semantic="info">
+                    {themes.join(", ")}
+                  </Tag>
+                </Box>
+              )}
+              {isMovable && (
+                <Box className="month-calendar-day-handle">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => (pickedUp ? cancelPickUp() : pickUp(dateStr))}
+                    onKeyDown={(event) => handleMoveKeyDown(event, dateStr)}
+                    onBlur={() => pickedUp?.from === dateStr && cancelPickUp()}
+                    aria-label={`Move the puzzle on ${label}`}
+                  >
+                    ⠿
+                  </Button>
+                </Box>
+              )}
+            </Box>
+          );
+        })}
+      </Box>
+
+      <div className="month-calendar-announcer" role="status" aria-live="polite">
+        {announcement}
+      </div>
+    </Box>
+  );
+}
@@ -0,0 +1,107 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { PipelineConfigEditor } from './PipelineConfigEditor';
+import type { PipelineConfig, PipelineConfigChange } from '../../services/pipeline/types';
+
+const mockConfig: PipelineConfig = {
+  enabled: true,
+  rollingWindowDays: 30,
+  genre: 'films',
+  minGroupsPerColor: 10,
+  aiGenerationBatchSize: 20,
+  monthlyTokenBudget: null,
+  connectionTypeGapDays: 7,
+  autoApprovalMode: 'threshold',
+  autoApprovalThreshold: 80,
+  selfCritiqueEnabled: false,
+};
+
+const mockHistory: PipelineConfigChange[] = [
+  {
+    id: 'change-3',
+    genre: 'films',
+    changedBy: 'admin@example.com',
+    changedAt: new Date('2025-03-04T09:30:00Z'),
+    source: 'edit',
+    changes: [
+      { field: 'rollingWindowDays', from: 30, to: 14 },
+      { field: 'monthlyTokenBudget', from: null, to: 500000 },
+    ],
+    copiedFrom: null,
+    revertedChangeId: null,
+  },
+  {
+    id: 'change-2',
+    genre: 'films',
+    changedBy: 'editor@example.com',
+    changedAt: new Date('2025-03-03T14:00:00Z'),
+    source: 'copy',
+    changes: [{ field: 'selfCritiqueEnabled', from: false, to: true }],
+    copiedFrom: 'music',
+    revertedChangeId: null,
+  },
+  {
+    id: 'change-1',
+    genre: 'films',
+    changedBy: 'admin@example.com',
+    changedAt: new Date('2025-03-01T08:00:00Z'),
+    source: 'toggle',
+    changes: [{ field: 'enabled', from: false, to: true }],
+    copiedFrom: null,
+    revertedChangeId: null,
+  },
+];
+
+const meta: Meta<typeof PipelineConfigEditor> = {
+  title: 'PuzzleQueue/PipelineConfigEditor',
+  component: PipelineConfigEditor,
+  parameters: {
+    layout: 'padded',
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    onSave: { action: 'save' },
+    onReset: { action: 'reset' },
+    onCopyFrom: { action: 'copy from' },
+    onRevert: { action: 'revert' },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const Defaults: Story = {
+  args: {
+    config: mockConfig,
+    otherGenres: ['music'],
+    history: [],
+    isLoadingHistory: false,
+    isSaving: false,
+  },
+};
+
+export const Customized: Story = {
+  args: {
+    ...Defaults.args,
+    config: {
+      ...mockConfig,
+      rollingWindowDays: 14,
+      monthlyTokenBudget: 500000,
+      selfCritiqueEnabled: true,
+    },
+    history: mockHistory,
+  },
+};
+
+export const LoadingHistory: Story = {
+  args: {
+    ...Defaults.args,
+    isLoadingHistory: true,
+  },
+};
+
+export const Saving: Story = {
+  args: {
+    ...Customized.args,
+    isSaving: true,
+  },
+};
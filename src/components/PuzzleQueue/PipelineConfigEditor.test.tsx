@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PipelineConfigEditor } from './PipelineConfigEditor';
+import type { PipelineConfig, PipelineConfigChange } from '../../services/pipeline/types';
+
+const mockConfig: PipelineConfig = {
+  enabled: true,
+  rollingWindowDays: 30,
+  genre: 'films',
+  minGroupsPerColor: 10,
+  aiGenerationBatchSize: 20,
+  monthlyTokenBudget: null,
+  connectionTypeGapDays: 7,
+  autoApprovalMode: 'threshold',
+  autoApprovalThreshold: 80,
+  selfCritiqueEnabled: false,
+};
+
+const mockChange: PipelineConfigChange = {
+  id: 'change-1',
+  genre: 'films',
+  changedBy: 'admin@example.com',
+  changedAt: new Date('2025-03-02T10:00:00Z'),
+  source: 'edit',
+  changes: [{ field: 'rollingWindowDays', from: 30, to: 14 }],
+  copiedFrom: null,
+  revertedChangeId: null,
+};
+
+describe('PipelineConfigEditor', () => {
+  const defaultProps = {
+    config: mockConfig,
+    otherGenres: ['music' as const],
+    history: [],
+    isLoadingHistory: false,
+    isSaving: false,
+    onSave: vi.fn(),
+    onReset: vi.fn(),
+    onCopyFrom: vi.fn(),
+    onRevert: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should report when all settings are at their defaults', () => {
+    render(<PipelineConfigEditor {...defaultProps} />);
+
+    expect(screen.getByText('All settings are at their defaults')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Save changes' })).toBeDisabled();
+  });
+
+  it('should list settings that differ from the defaults', () => {
+    render(<PipelineConfigEditor {...defaultProps} config={{ ...mockConfig, monthlyTokenBudget: 500000 }} />);
+
+    const section = screen.getByLabelText('Changes from defaults');
+    expect(section).toHaveTextContent('Monthly token budget: No limit → 500,000');
+  });
+
+  it('should save only the changed fields', () => {
+    render(<PipelineConfigEditor {...defaultProps} />);
+
+    fireEvent.change(screen.getByLabelText('Rolling window (days)'), { target: { value: '14' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save changes' }));
+
+    expect(defaultProps.onSave).toHaveBeenCalledWith({ rollingWindowDays: 14 });
+  });
+
+  it('should show validation errors and block saving', () => {
+    render(<PipelineConfigEditor {...defaultProps} />);
+
+    fireEvent.change(screen.getByLabelText('Generation batch size'), { target: { value: '50' } });
+
+    expect(screen.getByText('Generation batch size must be a whole number from 1 to 30')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Save changes' })).toBeDisabled();
+  });
+
+  it('should copy settings from another genre', () => {
+    render(<PipelineConfigEditor {...defaultProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Copy' }));
+
+    expect(defaultProps.onCopyFrom).toHaveBeenCalledWith('music');
+  });
+
+  it('should list recent changes and revert one', () => {
+    render(<PipelineConfigEditor {...defaultProps} history={[mockChange]} />);
+
+    const change = screen.getByLabelText('Change by admin@example.com');
+    expect(change).toHaveTextContent('Rolling window (days): 30 → 14');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Revert' }));
+
+    expect(defaultProps.onRevert).toHaveBeenCalledWith('change-1');
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Pipeline Config Editor Component
+ *
+ * Edits the genre's pipeline settings with validation, shows how the edited
+ * values differ from the defaults, copies settings from another genre and
+ * lists recent changes with who made them, each of which can be reverted.
+ * Auto-fill keeps its own switch in PipelineControls.
+ */
+
+import { useState } from 'react';
+import { Box, Button, Heading, Spinner, Tag, Text } from '@mond-design-system/theme';
+import { Input, Select, Switch } from '@mond-design-system/theme/client';
+import type { Genre } from '../../types';
+import type {
+  AutoApprovalMode,
+  PipelineConfig,
+  PipelineConfigChange,
+  PipelineConfigChangeSource,
+  PipelineConfigField,
+  PipelineConfigValues,
+} from '../../services/pipeline/types';
+import { DEFAULT_PIPELINE_CONFIG } from '../../services/pipeline/types';
+import {
+  COPYABLE_CONFIG_FIELDS,
+  PIPELINE_CONFIG_FIELD_LABELS,
+  diffFromDefaults,
+  diffPipelineConfig,
+  formatConfigValue,
+  validatePipelineConfig,
+} from '../../services/pipeline/pipelineConfigEditing';
+
+/** Integer fields edited as text inputs */
+const NUMBER_FIELDS = [
+  'rollingWindowDays',
+  'minGroupsPerColor',
+  'aiGenerationBatchSize',
+  'monthlyTokenBudget',
+  'connectionTypeGapDays',
+  'autoApprovalThreshold',
+] as const;
+
+type NumberField = (typeof NUMBER_FIELDS)[number];
+
+const AUTO_APPROVAL_OPTIONS: { value: AutoApprovalMode; label: string }[] = [
+  { value: 'threshold', label: 'Above the threshold' },
+  { value: 'always', label: 'Always' },
+  { value: 'never', label: 'Never (review every group)' },
+];
+
+const SOURCE_LABELS: Record<PipelineConfigChangeSource, string> = {
+  edit: 'Edited',
+  toggle: 'Auto-fill switch',
+  reset: 'Reset to defaults',
+  copy: 'Copied',
+  revert: 'Reverted a change',
+};
+
+export interface PipelineConfigEditorProps {
+  /** Current configuration of the selected genre */
+  config: PipelineConfig;
+  /** Genres whose settings can be copied */
+  otherGenres: Genre[];
+  /** Recent config changes, most recent first */
+  history: PipelineConfigChange[];
+  /** Whether the change history is being loaded */
+  isLoadingHistory: boolean;
+  /** Whether a change is being saved */
+  isSaving: boolean;
+  /** Handler for saving the changed fields */
+  onSave: (updates: Partial<PipelineConfigValues>) => void;
+  /** Handler for resetting the config to defaults */
+  onReset: () => void;
+  /** Handler for copying another genre's settings */
+  onCopyFrom: (genre: Genre) => void;
+  /** Handler for reverting a recorded change */
+  onRevert: (changeId: string) => void;
+}
+
+type FormState = Record<NumberField, string> & {
+  autoApprovalMode: AutoApprovalMode;
+  selfCritiqueEnabled: boolean;
+};
+
+function toFormState(config: PipelineConfig): FormState {
+  return {
+    rollingWindowDays: String(config.rollingWindowDays),
+    minGroupsPerColor: String(config.minGroupsPerColor),
+    aiGenerationBatchSize: String(config.aiGenerationBatchSize),
+    monthlyTokenBudget: config.monthlyTokenBudget === null ? '' : String(config.monthlyTokenBudget),
+    connectionTypeGapDays: String(config.connectionTypeGapDays),
+    autoApprovalThreshold: String(config.autoApprovalThreshold),
+    autoApprovalMode: config.autoApprovalMode,
+    selfCritiqueEnabled: config.selfCritiqueEnabled,
+  };
+}
+
+/**
+ * Parse the form; blank numbers are NaN so validation rejects them (a blank budget means no limit)
+ */
+function fromFormState(form: FormState, config: PipelineConfig): PipelineConfigValues {
+  const parseNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+
+  return {
+    enabled: config.enabled,
+    rollingWindowDays: parseNumber(form.rollingWindowDays),
+    minGroupsPerColor: parseNumber(form.minGroupsPerColor),
+    aiGenerationBatchSize: parseNumber(form.aiGenerationBatchSize),
+    monthlyTokenBudget: form.monthlyTokenBudget.trim() === '' ? null : parseNumber(form.monthlyTokenBudget),
+    connectionTypeGapDays: parseNumber(form.connectionTypeGapDays),
+    autoApprovalMode: form.autoApprovalMode,
+    autoApprovalThreshold: parseNumber(form.autoApprovalThreshold),
+    selfCritiqueEnabled: form.selfCritiqueEnabled,
+  };
+}
+
+function defaultHelp(field: PipelineConfigField, value: PipelineConfigValues[PipelineConfigField]): string {
+  const defaultValue = DEFAULT_PIPELINE_CONFIG[field];
+  const label = `Default: ${formatConfigValue(field, defaultValue)}`;
+  return value === defaultValue ? label : `${label} (changed)`;
+}
+
+function ChangeHistory({
+  history,
+  isLoading,
+  isSaving,
+  onRevert,
+}: {
+  history: PipelineConfigChange[];
+  isLoading: boolean;
+  isSaving: boolean;
+  onRevert: (changeId: string) => void;
+}) {
+  if (isLoading) {
+    return <Spinner size="sm" />;
+  }
+
+  if (history.length === 0) {
+    return (
+      <Text size="sm" semantic="secondary">
+        No changes recorded yet
+      </Text>
+    );
+  }
+
+  return (
+    <Box display="flex" flexDirection="column" gap="sm">
+      {history.map((change) => (
+        <Box
+          key={change.id}
+          display="flex"
+          justifyContent="space-between"
+          alignItems="flex-start"
+          gap="md"
+          aria-label={`Change by ${change.changedBy}`}
+        >
+          <Box display="flex" flexDirection="column" gap="xs">
+            <Box display="flex" alignItems="center" gap="sm">
+              <Text size="sm" weight="medium">
+                {change.changedBy}
+              </Text>
+              <Text size="xs" semantic="secondary">
+                {change.changedAt.toLocaleString('en-US')}
+              </Text>
+              <Tag size="sm" variant="outlined">
+                {change.source === 'copy' && change.copiedFrom
+                  ? `Copied from ${change.copiedFrom}`
+                  : SOURCE_LABELS[change.source]}
+              </Tag>
+            </Box>
+            {change.changes.map(({ field, from, to }) => (
+              <Text key={field} size="xs" semantic="secondary">
+                {PIPELINE_CONFIG_FIELD_LABELS[field]}: {formatConfigValue(field, from)} →{' '}
+                {formatConfigValue(field, to)}
+              </Text>
+            ))}
+          </Box>
+          <Button variant="ghost" size="sm" onClick={() => onRevert(change.id)} disabled={isSaving}>
+            Revert
+          </Button>
+        </Box>
+      ))}
+    </Box>
+  );
+}
+
+function ConfigForm({
+  config,
+  otherGenres,
+  history,
+  isLoadingHistory,
+  isSaving,
+  onSave,
+  onReset,
+  onCopyFrom,
+  onRevert,
+}: PipelineConfigEditorProps) {
+  const [form, setForm] = useState<FormState>(() => toFormState(config));
+  const [copySource, setCopySource] = useState<Genre | ''>(otherGenres[0] ?? '');
+
+  const values = fromFormState(form, config);
+  const errors = validatePipelineConfig(values);
+  const hasErrors = Object.keys(errors).length > 0;
+  const changes = diffPipelineConfig(config, values, COPYABLE_CONFIG_FIELDS);
+  const fromDefaults = diffFromDefaults(values).filter(({ field }) => field !== 'enabled');
+
+  const setField = <K extends keyof FormState>(field: K, value: FormState[K]) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = () => {
+    onSave(Object.fromEntries(changes.map(({ field, to }) => [field, to])));
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap="lg">
+      {/* Settings */}
+      <Box display="flex" flexDirection="column" gap="md">
+        {NUMBER_FIELDS.map((field) => (
+          <Input
+            key={field}
+            label={PIPELINE_CONFIG_FIELD_LABELS[field]}
+            type="number"
+            inputSize="sm"
+            value={form[field]}
+            onChange={(e) => setField(field, e.target.value)}
+            placeholder={field === 'monthlyTokenBudget' ? 'No limit' : undefined}
+            error={errors[field]}
+            helperText={errors[field] ? undefined : defaultHelp(field, values[field])}
+            disabled={field === 'autoApprovalThreshold' && form.autoApprovalMode !== 'threshold'}
+          />
+        ))}
+
+        <Select
+          label={PIPELINE_CONFIG_FIELD_LABELS.autoApprovalMode}
+          size="sm"
+          options={AUTO_APPROVAL_OPTIONS}
+          value={form.autoApprovalMode}
+          onChange={(value) => setField('autoApprovalMode', value as AutoApprovalMode)}
+          helperText={defaultHelp('autoApprovalMode', values.autoApprovalMode)}
+        />
+
+        <Switch
+          label={PIPELINE_CONFIG_FIELD_LABELS.selfCritiqueEnabled}
+          size="sm"
+          checked={form.selfCritiqueEnabled}
+          onChange={(e) => setField('selfCritiqueEnabled', e.target.checked)}
+          helperText={`${defaultHelp('selfCritiqueEnabled', values.selfCritiqueEnabled)}; scheduled fills only`}
+        />
+      </Box>
+
+      {/* Diff against defaults */}
+      <Box display="flex" flexDirection="column" gap="xs" aria-label="Changes from defaults">
+        <Heading level={3} size="sm">
+          Changes from defaults
+        </Heading>
+        {fromDefaults.length === 0 ? (
+          <Text size="sm" semantic="secondary">
+            All settings are at their defaults
+          </Text>
+        ) : (
+          fromDefaults.map(({ field, from, to }) => (
+            <Text key={field} size="sm">
+              {PIPELINE_CONFIG_FIELD_LABELS[field]}: {formatConfigValue(field, from)} →{' '}
+              {formatConfigValue(field, to)}
+            </Text>
+          ))
+        )}
+      </Box>
+
+      {/* Actions */}
+      <Box display="flex" alignItems="flex-end" justifyContent="space-between" gap="md">
+        <Box display="flex" alignItems="flex-end" gap="sm">
+          {otherGenres.length > 0 && (
+            <>
+              <Select
+                label="Copy settings from"
+                size="sm"
+                options={otherGenres.map((genre) => ({ value: genre, label: genre }))}
+                value={copySource}
+                onChange={(value) => setCopySource(value as Genre)}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => copySource && onCopyFrom(copySource)}
+                disabled={isSaving || !copySource}
+              >
+                Copy
+              </Button>
+            </>
+          )}
+          <Button variant="outline" size="sm" onClick={onReset} disabled={isSaving}>
+            Reset to defaults
+          </Button>
+        </Box>
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={handleSave}
+          disabled={isSaving || hasErrors || changes.length === 0}
+        >
+          {isSaving ? 'Saving...' : 'Save changes'}
+        </Button>
+      </Box>
+
+      {/* Change history */}
+      <Box display="flex" flexDirection="column" gap="sm">
+        <Heading level={3} size="sm">
+          Recent changes
+        </Heading>
+        <ChangeHistory
+          history={history}
+          isLoading={isLoadingHistory}
+          isSaving={isSaving}
+          onRevert={onRevert}
+        />
+      </Box>
+    </Box>
+  );
+}
+
+export function PipelineConfigEditor(props: PipelineConfigEditorProps) {
+  // Start the form over whenever the stored config changes (save, copy, reset or revert)
+  const configKey = COPYABLE_CONFIG_FIELDS.map((field) => String(props.config[field])).join('|');
+
+  return <ConfigForm key={`${props.config.genre}:${configKey}`} {...props} />;
+}
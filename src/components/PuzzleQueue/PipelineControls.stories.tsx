@@ -1,6 +1,12 @@
 import type { Meta, StoryObj } from '@storybook/react-vite';
 import { PipelineControls } from './PipelineControls';
-import type { GroupAvailability, PipelineConfig } from '../../services/pipeline/types';
+import type {
+  GenerationJob,
+  GroupAvailability,
+  PipelineConfig,
+  PipelineLease,
+  PoolReserve,
+} from '../../services/pipeline/types';
 
 const mockConfig: PipelineConfig = {
   enabled: false,
@@ -8,6 +14,11 @@ const mockConfig: PipelineConfig = {
   genre: 'films',
   minGroupsPerColor: 10,
   aiGenerationBatchSize: 20,
+  monthlyTokenBudget: null,
+  connectionTypeGapDays: 7,
+  autoApprovalMode: 'threshold',
+  autoApprovalThreshold: 80,
+  selfCritiqueEnabled: false,
 };
 
 const mockPoolHealth: GroupAvailability = {
@@ -28,6 +39,40 @@ const lowPoolHealth: GroupAvailability = {
   sufficient: false,
 };
 
+const mockPoolReserve: PoolReserve = {
+  yellow: { unused: 22, neededForWindow: 7, spare: 15, target: 10 },
+  green: { unused: 17, neededForWindow: 7, spare: 10, target: 10 },
+  blue: { unused: 11, neededForWindow: 7, spare: 4, target: 10 },
+  purple: { unused: 5, neededForWindow: 7, spare: -2, target: 10 },
+};
+
+const mockLease: PipelineLease = {
+  genre: 'films',
+  token: 'token-1',
+  holder: 'GitHub Actions run 42',
+  trigger: 'cron',
+  acquiredAt: new Date('2025-03-04T06:00:00Z'),
+  expiresAt: new Date('2025-03-04T06:10:00Z'),
+  isExpired: false,
+};
+
+const mockGenerationJob: GenerationJob = {
+  id: 'job-1',
+  genre: 'films',
+  trigger: 'cron',
+  status: 'failed',
+  approvalPolicy: { mode: 'threshold', threshold: 80, selfCritique: false },
+  chunks: [
+    { color: 'purple', count: 10, status: 'completed', attempts: 1, generated: 10, saved: 9, pending: 1, errors: [] },
+    { color: 'purple', count: 10, status: 'completed', attempts: 2, generated: 10, saved: 10, pending: 0, errors: [] },
+    { color: 'purple', count: 10, status: 'failed', attempts: 3, generated: 0, saved: 0, pending: 0, errors: [] },
+  ],
+  createdAt: new Date('2025-03-04T06:00:00Z'),
+  updatedAt: new Date('2025-03-04T06:04:00Z'),
+  finishedAt: new Date('2025-03-04T06:04:00Z'),
+  failureMessage: null,
+};
+
 const meta: Meta<typeof PipelineControls> = {
   title: 'PuzzleQueue/PipelineControls',
   component: PipelineControls,
@@ -38,6 +83,8 @@ const meta: Meta<typeof PipelineControls> = {
   argTypes: {
     onToggleEnabled: { action: 'toggle enabled' },
     onFillNow: { action: 'fill now' },
+    onPreviewFill: { action: 'preview fill' },
+    onResumeJob: { action: 'resume job' },
   },
 };
 
@@ -96,3 +143,54 @@ export const LoadingConfig: Story = {
     isLoadingConfig: true,
   },
 };
+
+export const Previewing: Story = {
+  args: {
+    ...Default.args,
+    isPreviewing: true,
+  },
+};
+
+export const WithReserve: Story = {
+  args: {
+    ...Default.args,
+    poolReserve: mockPoolReserve,
+  },
+};
+
+export const LockedByScheduledFill: Story = {
+  args: {
+    ...Default.args,
+    lease: mockLease,
+  },
+};
+
+export const StaleLock: Story = {
+  args: {
+    ...Default.args,
+    lease: { ...mockLease, isExpired: true },
+  },
+};
+
+export const GeneratingWithProgress: Story = {
+  args: {
+    ...Default.args,
+    isFilling: true,
+    currentStage: 'generating-purple',
+    currentProgress: { current: 20, total: 30 },
+  },
+};
+
+export const FailedGenerationJob: Story = {
+  args: {
+    ...Default.args,
+    generationJob: mockGenerationJob,
+  },
+};
+
+export const InterruptedGenerationJob: Story = {
+  args: {
+    ...Default.args,
+    generationJob: { ...mockGenerationJob, status: 'running', finishedAt: null },
+  },
+};
@@ -1,7 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { PipelineControls } from './PipelineControls';
-import type { GroupAvailability, PipelineConfig } from '../../services/pipeline/types';
+import type {
+  GenerationJob,
+  GroupAvailability,
+  PipelineConfig,
+  PipelineLease,
+  PoolReserve,
+} from '../../services/pipeline/types';
 
 const mockConfig: PipelineConfig = {
   enabled: false,
@@ -9,6 +15,11 @@ const mockConfig: PipelineConfig = {
   genre: 'films',
   minGroupsPerColor: 10,
   aiGenerationBatchSize: 20,
+  monthlyTokenBudget: null,
+  connectionTypeGapDays: 7,
+  autoApprovalMode: 'threshold',
+  autoApprovalThreshold: 80,
+  selfCritiqueEnabled: false,
 };
 
 const mockPoolHealth: GroupAvailability = {
@@ -30,6 +41,7 @@ describe('PipelineControls', () => {
     isLoadingConfig: false,
     onToggleEnabled: vi.fn(),
     onFillNow: vi.fn(),
+    onPreviewFill: vi.fn(),
   };
 
   beforeEach(() => {
@@ -103,6 +115,26 @@ describe('PipelineControls', () => {
     expect(screen.getByText(/checking group pool/i)).toBeInTheDocument();
   });
 
+  it('should call onPreviewFill when Preview fill button is clicked', () => {
+    render(<PipelineControls {...defaultProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /preview fill/i }));
+
+    expect(defaultProps.onPreviewFill).toHaveBeenCalledTimes(1);
+  });
+
+  it('should disable Preview fill button while previewing', () => {
+    render(<PipelineControls {...defaultProps} isPreviewing={true} />);
+
+    expect(screen.getByRole('button', { name: /previewing/i })).toBeDisabled();
+  });
+
+  it('should not render Preview fill button without a handler', () => {
+    render(<PipelineControls {...defaultProps} onPreviewFill={undefined} />);
+
+    expect(screen.queryByRole('button', { name: /preview fill/i })).not.toBeInTheDocument();
+  });
+
   it('should show warning when pool is low', () => {
     const lowPoolHealth: GroupAvailability = {
       yellow: 5,
@@ -142,4 +174,154 @@ describe('PipelineControls', () => {
 
     expect(screen.getByText('0/30')).toBeInTheDocument();
   });
+
+  describe('reserve gauges', () => {
+    const poolReserve: PoolReserve = {
+      yellow: { unused: 22, neededForWindow: 7, spare: 15, target: 10 },
+      green: { unused: 17, neededForWindow: 7, spare: 10, target: 10 },
+      blue: { unused: 11, neededForWindow: 7, spare: 4, target: 10 },
+      purple: { unused: 5, neededForWindow: 7, spare: -2, target: 10 },
+    };
+
+    it('should show spare groups against the reserve for each color', () => {
+      render(<PipelineControls {...defaultProps} poolReserve={poolReserve} />);
+
+      expect(screen.getByLabelText('Easy reserve')).toHaveTextContent('15/10');
+      expect(screen.getByLabelText('Medium reserve')).toHaveTextContent('10/10');
+      expect(screen.getByLabelText('Hard reserve')).toHaveTextContent('4/10');
+    });
+
+    it('should show no spare groups when the window itself is short', () => {
+      render(<PipelineControls {...defaultProps} poolReserve={poolReserve} />);
+
+      expect(screen.getByLabelText('Hardest reserve')).toHaveTextContent('0/10');
+    });
+
+    it('should hide the gauges until the reserve is loaded', () => {
+      render(<PipelineControls {...defaultProps} />);
+
+      expect(screen.queryByText('Reserve')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('pipeline lock', () => {
+    const lease: PipelineLease = {
+      genre: 'films',
+      token: 'token-1',
+      holder: 'GitHub Actions run 42',
+      trigger: 'cron',
+      acquiredAt: new Date('2025-03-04T06:00:00Z'),
+      expiresAt: new Date('2025-03-04T06:10:00Z'),
+      isExpired: false,
+    };
+
+    it('should show who holds the lock and disable Fill Now', () => {
+      render(<PipelineControls {...defaultProps} lease={lease} />);
+
+      expect(screen.getByText('Fill running')).toBeInTheDocument();
+      expect(screen.getByLabelText('Pipeline lock')).toHaveTextContent('Scheduled fill by GitHub Actions run 42');
+      expect(screen.getByRole('button', { name: 'Fill Now' })).toBeDisabled();
+    });
+
+    it('should offer Fill Now over a stale lock', () => {
+      render(<PipelineControls {...defaultProps} lease={{ ...lease, isExpired: true }} />);
+
+      expect(screen.getByText('Stale lock')).toBeInTheDocument();
+      expect(screen.getByLabelText('Pipeline lock')).toHaveTextContent('the next fill reclaims it');
+      expect(screen.getByRole('button', { name: 'Fill Now' })).not.toBeDisabled();
+    });
+
+    it('should hide the lock while this admin is filling', () => {
+      render(<PipelineControls {...defaultProps} lease={lease} isFilling={true} />);
+
+      expect(screen.queryByLabelText('Pipeline lock')).not.toBeInTheDocument();
+    });
+  });
+
+  it('should show the groups generated so far while filling', () => {
+    render(
+      <PipelineControls
+        {...defaultProps}
+        isFilling={true}
+        currentStage="generating-purple"
+        currentProgress={{ current: 20, total: 30 }}
+      />
+    );
+
+    expect(screen.getByText('(20/30 groups)')).toBeInTheDocument();
+  });
+
+  describe('generation job', () => {
+    const job: GenerationJob = {
+      id: 'job-1',
+      genre: 'films',
+      trigger: 'cron',
+      status: 'failed',
+      approvalPolicy: { mode: 'threshold', threshold: 80, selfCritique: false },
+      chunks: [
+        { color: 'purple', count: 10, status: 'completed', attempts: 1, generated: 10, saved: 10, pending: 0, errors: [] },
+        { color: 'purple', count: 5, status: 'failed', attempts: 3, generated: 0, saved: 0, pending: 0, errors: [] },
+      ],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      finishedAt: new Date(),
+      failureMessage: null,
+    };
+
+    it('should show a failed job and resume it', () => {
+      const onResumeJob = vi.fn();
+      render(<PipelineControls {...defaultProps} generationJob={job} onResumeJob={onResumeJob} />);
+
+      expect(screen.getByText('Generation failed')).toBeInTheDocument();
+      expect(screen.getByLabelText('Generation job')).toHaveTextContent(
+        'Scheduled job: 10/15 groups, 1/2 chunks done'
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Resume' }));
+
+      expect(onResumeJob).toHaveBeenCalledWith(job);
+    });
+
+    it('should offer to resume a running job that stopped checkpointing', () => {
+      const interrupted = { ...job, status: 'running' as const, updatedAt: new Date(Date.now() - 60 * 60 * 1000) };
+      render(<PipelineControls {...defaultProps} generationJob={interrupted} onResumeJob={vi.fn()} />);
+
+      expect(screen.getByText('Generation interrupted')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Resume' })).toBeInTheDocument();
+    });
+
+    it('should show the progress of a running job without a Resume button', () => {
+      render(
+        <PipelineControls
+          {...defaultProps}
+          generationJob={{ ...job, status: 'running' }}
+          onResumeJob={vi.fn()}
+        />
+      );
+
+      expect(screen.getByText('Generating')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Resume' })).not.toBeInTheDocument();
+    });
+
+    it('should hide completed jobs', () => {
+      render(<PipelineControls {...defaultProps} generationJob={{ ...job, status: 'completed' }} />);
+
+      expect(screen.queryByLabelText('Generation job')).not.toBeInTheDocument();
+    });
+  });
+
+  it('should call onEditConfig when Settings is clicked', () => {
+    const onEditConfig = vi.fn();
+    render(<PipelineControls {...defaultProps} onEditConfig={onEditConfig} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Settings' }));
+
+    expect(onEditConfig).toHaveBeenCalled();
+  });
+
+  it('should not render Settings without a handler', () => {
+    render(<PipelineControls {...defaultProps} />);
+
+    expect(screen.queryByRole('button', { name: 'Settings' })).not.toBeInTheDocument();
+  });
 });
@@ -2,20 +2,45 @@
  * Pipeline Controls Component
  *
  * Displays pipeline status and controls for auto-filling puzzles.
- * Shows scheduled days count, pool health, toggle switch, and fill button.
+ * Shows scheduled days count, pool health, toggle switch, and preview/fill buttons.
+ * A gauge per color shows the spare groups kept beyond the window's needs
+ * against the configured reserve.
  * When filling, shows a spinner with the current pipeline stage.
+ * While another fill holds the genre's lock, shows who holds it and disables Fill Now.
+ * The latest generation job shows its progress while running, and can be
+ * resumed when it failed or was interrupted.
  */
 
 import { Box, Button, Text, Tag, Spinner } from '@mond-design-system/theme';
 import { Switch } from '@mond-design-system/theme/client';
-import type { GroupAvailability, PipelineConfig, PipelineStage } from '../../services/pipeline/types';
-import { PIPELINE_STAGE_LABELS } from '../../services/pipeline/types';
+import type { DifficultyColor } from '../../lib/supabase/storage';
+import type {
+  ColorReserve,
+  GenerationJob,
+  GroupAvailability,
+  PipelineConfig,
+  PipelineLease,
+  PipelineProgress,
+  PipelineStage,
+  PoolReserve,
+} from '../../services/pipeline/types';
+import { PIPELINE_STAGE_LABELS, PIPELINE_TRIGGER_LABELS } from '../../services/pipeline/types';
+import {
+  getGenerationJobProgress,
+  isGenerationJobResumable,
+  isGenerationJobStale,
+} from '../../services/pipeline/generationJobs';
+import { DIFFICULTY_COLORS, DIFFICULTY_LABELS } from '../../constants/difficulty';
+
+const COLORS: DifficultyColor[] = ['yellow', 'green', 'blue', 'purple'];
 
 export interface PipelineControlsProps {
   /** Current pipeline configuration */
   config: PipelineConfig;
   /** Pool health showing group availability by color */
   poolHealth: GroupAvailability;
+  /** Standing reserve by color (gauges are hidden while loading) */
+  poolReserve?: PoolReserve;
   /** Number of days currently scheduled */
   scheduledDays: number;
   /** Total days in the rolling window */
@@ -24,26 +49,169 @@ export interface PipelineControlsProps {
   isFilling: boolean;
   /** Current pipeline stage when filling */
   currentStage?: PipelineStage;
+  /** Progress within the current stage (groups generated so far) */
+  currentProgress?: PipelineProgress['progress'];
   /** Whether config is being loaded */
   isLoadingConfig: boolean;
   /** Handler for toggling auto-fill enabled */
   onToggleEnabled: () => void;
   /** Handler for manual fill trigger */
   onFillNow: () => void;
+  /** Whether a fill preview (dry run) is in progress */
+  isPreviewing?: boolean;
+  /** Handler for previewing a fill without writing anything */
+  onPreviewFill?: () => void;
+  /** Lease held on the genre's pipeline, if any */
+  lease?: PipelineLease | null;
+  /** Handler for opening the config editor */
+  onEditConfig?: () => void;
+  /** Most recent generation job of the genre, if any */
+  generationJob?: GenerationJob | null;
+  /** Whether a generation job is being resumed */
+  isResumingJob?: boolean;
+  /** Handler for resuming a failed or interrupted generation job */
+  onResumeJob?: (job: GenerationJob) => void;
+}
+
+function formatLeaseTime(date: Date): string {
+  return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+}
+
+function LeaseStatus({ lease }: { lease: PipelineLease }) {
+  return (
+    <Box display="flex" alignItems="center" gap="sm" aria-label="Pipeline lock">
+      {lease.isExpired ? (
+        <>
+          <Tag size="sm" variant="filled" semantic="warning">
+            Stale lock
+          </Tag>
+          <Text size="sm" semantic="secondary">
+            {PIPELINE_TRIGGER_LABELS[lease.trigger]} fill by {lease.holder} since{' '}
+            {formatLeaseTime(lease.acquiredAt)} stopped renewing its lock; the next fill reclaims it
+          </Text>
+        </>
+      ) : (
+        <>
+          <Tag size="sm" variant="filled" semantic="info">
+            Fill running
+          </Tag>
+          <Text size="sm" semantic="secondary">
+            {PIPELINE_TRIGGER_LABELS[lease.trigger]} fill by {lease.holder} since{' '}
+            {formatLeaseTime(lease.acquiredAt)}
+          </Text>
+        </>
+      )}
+    </Box>
+  );
+}
+
+function GenerationJobProgress({
+  job,
+  isResuming,
+  onResume,
+}: {
+  job: GenerationJob;
+  isResuming: boolean;
+  onResume?: (job: GenerationJob) => void;
+}) {
+  const isStale = isGenerationJobStale(job);
+  const canResume = onResume !== undefined && isGenerationJobResumable(job);
+  const { current, total } = getGenerationJobProgress(job);
+  const chunksDone = job.chunks.filter((chunk) => chunk.status === 'completed').length;
+
+  return (
+    <Box display="flex" alignItems="center" gap="sm" aria-label="Generation job">
+      {job.status === 'failed' ? (
+        <Tag size="sm" variant="filled" semantic="error">
+          Generation failed
+        </Tag>
+      ) : isStale ? (
+        <Tag size="sm" variant="filled" semantic="warning">
+          Generation interrupted
+        </Tag>
+      ) : (
+        <Tag size="sm" variant="filled" semantic="info">
+          Generating
+        </Tag>
+      )}
+      <Text size="sm" semantic="secondary">
+        {`${PIPELINE_TRIGGER_LABELS[job.trigger]} job: ${current}/${total} groups, `}
+        {`${chunksDone}/${job.chunks.length} chunks done`}
+        {job.failureMessage && ` (${job.failureMessage})`}
+      </Text>
+      {canResume && (
+        <Button variant="outline" size="sm" onClick={() => onResume(job)} disabled={isResuming}>
+          {isResuming ? 'Resuming...' : 'Resume'}
+        </Button>
+      )}
+    </Box>
+  );
+}
+
+function ReserveGauge({ color, reserve }: { color: DifficultyColor; reserve: ColorReserve }) {
+  const spare = Math.max(reserve.spare, 0);
+  const fill = reserve.target > 0 ? Math.min(spare / reserve.target, 1) : 1;
+  const isLow = reserve.spare < reserve.target;
+
+  return (
+    <Box
+      display="flex"
+      alignItems="center"
+      gap="xs"
+      aria-label={`${DIFFICULTY_LABELS[color]} reserve`}
+      title={`${reserve.unused} unused, ${reserve.neededForWindow} needed for the window`}
+    >
+      <div
+        style={{
+          width: '64px',
+          height: '8px',
+          borderRadius: '4px',
+          backgroundColor: 'rgba(128, 128, 128, 0.2)',
+          overflow: 'hidden',
+        }}
+      >
+        <div
+          style={{
+            width: `${fill * 100}%`,
+            height: '100%',
+            backgroundColor: DIFFICULTY_COLORS[color],
+          }}
+        />
+      </div>
+      <Text size="xs" semantic={isLow ? 'warning' : 'secondary'}>
+        {spare}/{reserve.target}
+      </Text>
+    </Box>
+  );
 }
 
 export function PipelineControls({
   config,
   poolHealth,
+  poolReserve,
   scheduledDays,
   windowDays,
   isFilling,
   currentStage = 'idle',
+  currentProgress,
   isLoadingConfig,
   onToggleEnabled,
   onFillNow,
+  isPreviewing = false,
+  onPreviewFill,
+  lease,
+  onEditConfig,
+  generationJob,
+  isResumingJob = false,
+  onResumeJob,
 }: PipelineControlsProps) {
   const isLowPool = !poolHealth.sufficient;
+  // While this admin's own fill runs, the lease is theirs
+  const showLease = lease != null && !isFilling;
+  const isLockedByOther = showLease && !lease.isExpired;
+  // Completed jobs need no attention; the admin's own fill shows its progress below
+  const showGenerationJob =
+    generationJob != null && generationJob.status !== 'completed' && !isFilling;
 
   return (
     <Box
@@ -101,18 +269,62 @@ export function PipelineControls({
             disabled={isLoadingConfig || isFilling}
           />
 
+          {/* Config editor button */}
+          {onEditConfig && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onEditConfig}
+              disabled={isLoadingConfig}
+            >
+              Settings
+            </Button>
+          )}
+
+          {/* Preview fill button */}
+          {onPreviewFill && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onPreviewFill}
+              disabled={isFilling || isPreviewing}
+            >
+              {isPreviewing ? 'Previewing...' : 'Preview fill'}
+            </Button>
+          )}
+
           {/* Fill Now button */}
           <Button
             variant="primary"
             size="sm"
             onClick={onFillNow}
-            disabled={isFilling}
+            disabled={isFilling || isLockedByOther}
           >
             Fill Now
           </Button>
         </Box>
       </Box>
 
+      {/* Standing reserve per color */}
+      {poolReserve && (
+        <Box display="flex" alignItems="center" gap="md">
+          <Text size="sm" semantic="secondary">
+            Reserve
+          </Text>
+          {COLORS.map((color) => (
+            <ReserveGauge key={color} color={color} reserve={poolReserve[color]} />
+          ))}
+        </Box>
+      )}
+
+      {/* Fill holding the genre's lock (e.g. the scheduled fill) */}
+      {showLease && <LeaseStatus lease={lease} />}
+
+      {/* Generation job still running elsewhere, failed or interrupted */}
+      {showGenerationJob && (
+        <GenerationJobProgress job={generationJob} isResuming={isResumingJob} onResume={onResumeJob} />
+      )}
+
       {/* Pipeline progress indicator */}
       {isFilling && (
         <Box
@@ -127,6 +339,11 @@ export function PipelineControls({
           <Text size="sm" weight="medium">
             {PIPELINE_STAGE_LABELS[currentStage]}
           </Text>
+          {currentProgress && (
+            <Text size="sm" semantic="secondary">
+              ({currentProgress.current}/{currentProgress.total} groups)
+            </Text>
+          )}
         </Box>
       )}
     </Box>
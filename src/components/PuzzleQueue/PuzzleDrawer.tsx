@@ -12,6 +12,7 @@ import { Drawer, DrawerHeader, DrawerBody, Input, Accordion, Modal, ModalBody, M
 import type { StoredPuzzle } from '../../lib/supabase/storage/IPuzzleStorage';
 import type { Group } from '../../types';
 import { FilmGroupCard } from '../FilmGroupCard/FilmGroupCard';
+import { PuzzlePlaytest } from './PuzzlePlaytest';
 import { formatDateHeader } from '../../utils/dateUtils';
 
 interface PuzzleDrawerProps {
@@ -116,6 +117,7 @@ function ScheduledPuzzleView({
   const [isEditing, setIsEditing] = useState(false);
   const [editedTitle, setEditedTitle] = useState(puzzle.title || '');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [isPlaytesting, setIsPlaytesting] = useState(false);
 
   const handleStartEdit = () => {
     setEditedTitle(puzzle.title || '');
@@ -212,8 +214,17 @@ function ScheduledPuzzleView({
 
           {/* Groups Section */}
           <Box display="flex" flexDirection="column" gap="sm">
-            <Text size="sm" weight="medium">Groups</Text>
-            {puzzle.groups?.map((group, index) => (
+            <Box display="flex" justifyContent="space-between" alignItems="center">
+              <Text size="sm" weight="medium">Groups</Text>
+              {Boolean(puzzle.groups?.length) && !isEditing && (
+                <Button size="sm" variant="ghost" onClick={() => setIsPlaytesting(!isPlaytesting)}>
+                  {isPlaytesting ? 'Done' : 'Playtest'}
+                </Button>
+              )}
+            </Box>
+            {isPlaytesting && puzzle.groups ? (
+              <PuzzlePlaytest groups={puzzle.groups as Group[]} seed={puzzle.id} />
+            ) : puzzle.groups?.map((group, index) => (
               <Box key={group.id || index} display="flex" flexDirection="column" gap="xs">
                 <FilmGroupCard group={group as Group} />
                 {canSwap && !isEditing && (
@@ -0,0 +1,83 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { PuzzlePlaytest } from './PuzzlePlaytest';
+import { MockThemeProvider } from '../../../.storybook/MockThemeProvider';
+import type { Group } from '../../types';
+
+const mockGroups: Group[] = [
+  {
+    id: 'group-yellow',
+    connection: 'Directed by Quentin Tarantino',
+    difficulty: 'easy',
+    color: 'yellow',
+    items: [
+      { id: 1, title: 'Pulp Fiction' },
+      { id: 2, title: 'Kill Bill' },
+      { id: 3, title: 'Reservoir Dogs' },
+      { id: 4, title: 'Django Unchained' },
+    ],
+  },
+  {
+    id: 'group-green',
+    connection: 'Classic mob films',
+    difficulty: 'medium',
+    color: 'green',
+    items: [
+      { id: 5, title: 'The Godfather' },
+      { id: 6, title: 'Goodfellas' },
+      { id: 7, title: 'Casino' },
+      { id: 8, title: 'Scarface' },
+    ],
+  },
+  {
+    id: 'group-blue',
+    connection: 'Mind-bending narratives',
+    difficulty: 'hard',
+    color: 'blue',
+    items: [
+      { id: 9, title: 'Inception' },
+      { id: 10, title: 'Memento' },
+      { id: 11, title: 'Primer' },
+      { id: 12, title: 'Tenet' },
+    ],
+  },
+  {
+    id: 'group-purple',
+    connection: 'Sci-fi about communication',
+    difficulty: 'hardest',
+    color: 'purple',
+    items: [
+      { id: 13, title: 'Arrival' },
+      { id: 14, title: 'Contact' },
+      { id: 15, title: 'Close Encounters of the Third Kind' },
+      { id: 16, title: 'The Day the Earth Stood Still' },
+    ],
+  },
+];
+
+const meta: Meta<typeof PuzzlePlaytest> = {
+  title: 'Components/PuzzleQueue/PuzzlePlaytest',
+  component: PuzzlePlaytest,
+  parameters: {
+    layout: 'padded',
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <MockThemeProvider>
+        <div style={{ maxWidth: '600px' }}>
+          <Story />
+        </div>
+      </MockThemeProvider>
+    ),
+  ],
+};
+
+export default meta;
+type Story = StoryObj<typeof PuzzlePlaytest>;
+
+export const Default: Story = {
+  args: {
+    groups: mockGroups,
+    seed: 'puzzle-1',
+  },
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PuzzlePlaytest } from './PuzzlePlaytest';
+import type { DifficultyColor, DifficultyLevel, Group } from '../../types';
+
+const createGroup = (color: DifficultyColor, difficulty: DifficultyLevel, ids: number[]): Group => ({
+  id: `group-${color}`,
+  items: ids.map((id) => ({ id, title: `Film ${id}` })),
+  connection: `${color} connection`,
+  difficulty,
+  color,
+});
+
+const groups = [
+  createGroup('yellow', 'easy', [1, 2, 3, 4]),
+  createGroup('green', 'medium', [5, 6, 7, 8]),
+  createGroup('blue', 'hard', [9, 10, 11, 12]),
+  createGroup('purple', 'hardest', [13, 14, 15, 16]),
+];
+
+const clickItems = (...ids: number[]) => {
+  ids.forEach((id) => fireEvent.click(screen.getByRole('button', { name: `Film ${id}` })));
+};
+
+describe('PuzzlePlaytest', () => {
+  it('should show every item without the connections', () => {
+    render(<PuzzlePlaytest groups={groups} seed="puzzle-1" />);
+
+    expect(screen.getByRole('button', { name: 'Film 1' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Film 16' })).toBeInTheDocument();
+    expect(screen.queryByText('yellow connection')).not.toBeInTheDocument();
+    expect(screen.getByText('Mistakes remaining: 4')).toBeInTheDocument();
+  });
+
+  it('should reveal a group once it is solved', () => {
+    render(<PuzzlePlaytest groups={groups} seed="puzzle-1" />);
+
+    clickItems(1, 2, 3, 4);
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+    expect(screen.getByText('yellow connection')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Film 1' })).not.toBeInTheDocument();
+  });
+
+  it('should say when a guess is one away', () => {
+    render(<PuzzlePlaytest groups={groups} seed="puzzle-1" />);
+
+    clickItems(1, 2, 3, 5);
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+    expect(screen.getByText('One away!')).toBeInTheDocument();
+    expect(screen.getByText('Mistakes remaining: 3')).toBeInTheDocument();
+  });
+
+  it('should show every group on reveal and start over on Play Again', () => {
+    render(<PuzzlePlaytest groups={groups} seed="puzzle-1" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reveal' }));
+
+    expect(screen.getByText('purple connection')).toBeInTheDocument();
+    expect(screen.getByText('Game over')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Play Again' }));
+
+    expect(screen.queryByText('purple connection')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Film 16' })).toBeInTheDocument();
+  });
+});
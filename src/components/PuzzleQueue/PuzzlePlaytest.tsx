@@ -0,0 +1,116 @@
+/**
+ * Puzzle Playtest Component
+ *
+ * Plays a puzzle the way players will, with the shared game engine, so a
+ * scheduled puzzle can be tried before it goes out.
+ */
+
+import { useReducer, useState } from 'react';
+import { Box, Button, Text } from '@mond-design-system/theme';
+import type { Group } from '../../types';
+import { FilmGroupCard } from '../FilmGroupCard/FilmGroupCard';
+import {
+  createGameState,
+  gameReducer,
+  getMistakesRemaining,
+  GROUP_SIZE,
+} from '../../services/game-engine';
+
+export interface PuzzlePlaytestProps {
+  groups: Group[];
+  /** Seed for the starting item order */
+  seed?: string;
+}
+
+export function PuzzlePlaytest({ groups, seed }: PuzzlePlaytestProps) {
+  const [state, dispatch] = useReducer(gameReducer, groups, (initial) => createGameState(initial, { seed }));
+  const [shuffleCount, setShuffleCount] = useState(0);
+
+  const isPlaying = state.gameStatus === 'playing';
+  const selected = new Set(state.selectedItemIds.map(String));
+
+  const handleShuffle = () => {
+    dispatch({ type: 'shuffle', seed: `${seed ?? ''}:${shuffleCount + 1}` });
+    setShuffleCount(shuffleCount + 1);
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap="sm">
+      {[...state.foundGroups, ...state.revealedGroups].map((group) => (
+        <FilmGroupCard key={group.id} group={group} />
+      ))}
+
+      {state.items.length > 0 && (
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: `repeat(${GROUP_SIZE}, 1fr)`,
+            gap: '4px',
+          }}
+        >
+          {state.items.map((item) => {
+            const isSelected = selected.has(String(item.id));
+            return (
+              <Button
+                key={item.id}
+                size="sm"
+                variant={isSelected ? 'primary' : 'outline'}
+                disabled={!isPlaying}
+                aria-label={isSelected ? `${item.title}, selected` : item.title}
+                onClick={() =>
+                  dispatch({ type: isSelected ? 'deselect' : 'select', itemId: item.id })
+                }
+              >
+                {item.title}
+              </Button>
+            );
+          })}
+        </div>
+      )}
+
+      <Text size="sm" semantic="secondary">
+        {state.gameStatus === 'won' && 'Solved!'}
+        {state.gameStatus === 'lost' && 'Game over'}
+        {isPlaying && `Mistakes remaining: ${getMistakesRemaining(state)}`}
+      </Text>
+      {state.notification && (
+        <Text size="sm" weight="medium">
+          {state.notification}
+        </Text>
+      )}
+
+      <Box display="flex" gap="sm" justifyContent="flex-end">
+        {isPlaying ? (
+          <>
+            <Button size="sm" variant="ghost" onClick={() => dispatch({ type: 'reveal' })}>
+              Reveal
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleShuffle}>
+              Shuffle
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => dispatch({ type: 'deselect' })}
+              disabled={state.selectedItemIds.length === 0}
+            >
+              Deselect All
+            </Button>
+            <Button
+              size="sm"
+              variant="primary"
+              onClick={() => dispatch({ type: 'submit' })}
+              disabled={state.selectedItemIds.length !== GROUP_SIZE}
+            >
+              Submit
+            </Button>
+          </>
+        ) : (
+          <Button size="sm" variant="outline" onClick={() => dispatch({ type: 'restore', previousGuesses: [] })}>
+            Play Again
+          </Button>
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -2,6 +2,7 @@ import type { Meta, StoryObj } from '@storybook/react-vite';
 import { PuzzlePreview } from './PuzzlePreview';
 import { MockThemeProvider } from '../../../.storybook/MockThemeProvider';
 import type { StoredGroup, DifficultyColor } from '../../lib/supabase/storage';
+import type { OverlapAnalysis } from '../../services/puzzle-analysis';
 
 const createMockGroup = (color: DifficultyColor, connection: string): StoredGroup => ({
   id: `group-${color}`,
@@ -67,3 +68,65 @@ export const Saving: Story = {
     isSaving: true,
   },
 };
+
+const healthyAnalysis: OverlapAnalysis = {
+  misdirectionScore: 75,
+  verdict: 'healthy',
+  ambiguities: [],
+  decoys: [
+    {
+      item: { id: 2, title: 'Kill Bill', year: 2003 },
+      groupId: 'group-yellow',
+      otherGroupId: 'group-green',
+      otherConnection: 'Classic mob films',
+      kind: 'decoy',
+      reasons: ['Shares cast member Uma Thurman with 2 items'],
+    },
+    {
+      item: { id: 3, title: 'Reservoir Dogs', year: 1992 },
+      groupId: 'group-yellow',
+      otherGroupId: 'group-green',
+      otherConnection: 'Classic mob films',
+      kind: 'decoy',
+      reasons: ['Shares cast member Harvey Keitel with 2 items'],
+    },
+  ],
+};
+
+export const WithRedHerrings: Story = {
+  args: {
+    selectedGroups: mockSelectedGroups,
+    isSaving: false,
+    analysis: healthyAnalysis,
+  },
+};
+
+export const Ambiguous: Story = {
+  args: {
+    selectedGroups: mockSelectedGroups,
+    isSaving: false,
+    analysis: {
+      misdirectionScore: 25,
+      verdict: 'ambiguous',
+      decoys: [],
+      ambiguities: [
+        {
+          item: { id: 1, title: 'Pulp Fiction', year: 1994 },
+          groupId: 'group-green',
+          otherGroupId: 'group-yellow',
+          otherConnection: 'Directed by Quentin Tarantino',
+          kind: 'ambiguity',
+          reasons: ['Its director Quentin Tarantino is named in the connection'],
+        },
+      ],
+    },
+  },
+};
+
+export const Analyzing: Story = {
+  args: {
+    selectedGroups: mockSelectedGroups,
+    isSaving: false,
+    isAnalyzing: true,
+  },
+};
@@ -98,4 +98,47 @@ describe('PuzzlePreview', () => {
 
     expect(screen.getByText(/saving/i)).toBeInTheDocument();
   });
+
+  it('should show the misdirection score and overlapping items', () => {
+    render(
+      <PuzzlePreview
+        selectedGroups={mockSelectedGroups}
+        onSave={() => {}}
+        isSaving={false}
+        analysis={{
+          misdirectionScore: 25,
+          verdict: 'ambiguous',
+          decoys: [],
+          ambiguities: [
+            {
+              item: { id: 1, title: 'Film 1', year: 2000 },
+              groupId: 'group-yellow',
+              otherGroupId: 'group-green',
+              otherConnection: 'Medium connection',
+              kind: 'ambiguity',
+              reasons: ['Is also one of its items'],
+            },
+          ],
+        }}
+      />
+    );
+
+    expect(screen.getByText('Misdirection: 25/100')).toBeInTheDocument();
+    expect(screen.getByText('Ambiguous')).toBeInTheDocument();
+    expect(screen.getByText('Items that fit two groups')).toBeInTheDocument();
+    expect(screen.getByText(/Is also one of its items/)).toBeInTheDocument();
+  });
+
+  it('should show progress while the analysis runs', () => {
+    render(
+      <PuzzlePreview
+        selectedGroups={mockSelectedGroups}
+        onSave={() => {}}
+        isSaving={false}
+        isAnalyzing={true}
+      />
+    );
+
+    expect(screen.getByText('Checking red herrings...')).toBeInTheDocument();
+  });
 });
@@ -1,16 +1,72 @@
-import { Box, Heading, Text, Button } from '@mond-design-system/theme';
+import { Box, Heading, Text, Button, Badge } from '@mond-design-system/theme';
 import type { StoredGroup, DifficultyColor } from '../../lib/supabase/storage';
+import type { ItemOverlap, OverlapAnalysis, OverlapVerdict } from '../../services/puzzle-analysis';
 import { DIFFICULTY_COLORS } from '../../constants/difficulty';
 
 const colors: DifficultyColor[] = ['yellow', 'green', 'blue', 'purple'];
 
+const VERDICT_BADGES: Record<OverlapVerdict, { label: string; variant: 'success' | 'warning' | 'error' }> = {
+  healthy: { label: 'Healthy misdirection', variant: 'success' },
+  flat: { label: 'Few red herrings', variant: 'warning' },
+  ambiguous: { label: 'Ambiguous', variant: 'error' },
+};
+
 interface PuzzlePreviewProps {
   selectedGroups: Record<DifficultyColor, StoredGroup>;
   onSave: () => void;
   isSaving: boolean;
+  /** Red-herring analysis of the selected groups */
+  analysis?: OverlapAnalysis | null;
+  /** Whether the analysis is still running */
+  isAnalyzing?: boolean;
+}
+
+function OverlapList({ title, overlaps }: { title: string; overlaps: ItemOverlap[] }) {
+  if (overlaps.length === 0) return null;
+
+  return (
+    <Box display="flex" flexDirection="column" gap="xs">
+      <Text size="sm" weight="medium">
+        {title}
+      </Text>
+      {overlaps.map((overlap) => (
+        <Text key={`${overlap.groupId}-${overlap.item.id}-${overlap.otherGroupId}`} size="xs">
+          {overlap.item.title} → {`"${overlap.otherConnection}"`}: {overlap.reasons.join('; ')}
+        </Text>
+      ))}
+    </Box>
+  );
+}
+
+function MisdirectionSummary({ analysis, isAnalyzing }: { analysis?: OverlapAnalysis | null; isAnalyzing: boolean }) {
+  if (isAnalyzing) {
+    return <Text size="sm" semantic="secondary">Checking red herrings...</Text>;
+  }
+  if (!analysis) return null;
+
+  const badge = VERDICT_BADGES[analysis.verdict];
+
+  return (
+    <Box display="flex" flexDirection="column" gap="sm">
+      <Box display="flex" gap="sm" alignItems="center">
+        <Text size="md" weight="medium">
+          Misdirection: {analysis.misdirectionScore}/100
+        </Text>
+        <Badge variant={badge.variant}>{badge.label}</Badge>
+      </Box>
+      <OverlapList title="Items that fit two groups" overlaps={analysis.ambiguities} />
+      <OverlapList title="Red herrings" overlaps={analysis.decoys} />
+    </Box>
+  );
 }
 
-export function PuzzlePreview({ selectedGroups, onSave, isSaving }: PuzzlePreviewProps) {
+export function PuzzlePreview({
+  selectedGroups,
+  onSave,
+  isSaving,
+  analysis,
+  isAnalyzing = false,
+}: PuzzlePreviewProps) {
   return (
     <Box
       display="flex"
@@ -52,6 +108,8 @@ export function PuzzlePreview({ selectedGroups, onSave, isSaving }: PuzzlePrevie
         ))}
       </Box>
 
+      <MisdirectionSummary analysis={analysis} isAnalyzing={isAnalyzing} />
+
       <Box display="flex" justifyContent="center" padding="4">
         <Button
           variant="primary"
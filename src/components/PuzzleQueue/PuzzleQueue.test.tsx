@@ -1,8 +1,13 @@
 import React from 'react';
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter } from 'react-router-dom';
 import { PuzzleQueue } from './PuzzleQueue';
+import { usePuzzleList } from '../../lib/supabase/storage/usePuzzleStorage';
+import type { StoredPuzzle } from '../../lib/supabase/storage/IPuzzleStorage';
+
+const mockBatchMutate = vi.hoisted(() => vi.fn());
 
 // Mock the storage hooks
 vi.mock('../../lib/supabase/storage/usePuzzleStorage', () => ({
@@ -20,7 +25,7 @@ vi.mock('../../lib/supabase/storage/usePuzzleStorage', () => ({
     isPending: false,
   })),
   useBatchUpdatePuzzles: vi.fn(() => ({
-    mutate: vi.fn(),
+    mutate: mockBatchMutate,
     isPending: false,
   })),
 }));
@@ -58,9 +63,11 @@ const queryClient = new QueryClient({
   },
 });
 
-const renderWithProviders = (component: React.ReactElement) => {
+const renderWithProviders = (component: React.ReactElement, route = '/admin/puzzles') => {
   return render(
-    <QueryClientProvider client={queryClient}>{component}</QueryClientProvider>
+    <QueryClientProvider client={queryClient}>
+      <MemoryRouter initialEntries={[route]}>{component}</MemoryRouter>
+    </QueryClientProvider>
   );
 };
 
@@ -112,4 +119,94 @@ describe('PuzzleQueue', () => {
     // Verify the calendar still renders
     expect(screen.getByText('MON')).toBeInTheDocument();
   });
+
+  it('should open the drawer for the day in the link', () => {
+    renderWithProviders(<PuzzleQueue />, '/admin/puzzles?date=2025-03-12');
+
+    expect(screen.getByText('Schedule for March 12, 2025')).toBeInTheDocument();
+    expect(screen.getByText('March 10 - 16, 2025')).toBeInTheDocument();
+  });
+
+  describe('month view', () => {
+    const createPuzzle = (date: string): StoredPuzzle => ({
+      id: `puzzle-${date}`,
+      createdAt: Date.now(),
+      puzzleDate: date,
+      title: null,
+      groupIds: ['g1', 'g2', 'g3', 'g4'],
+      status: 'published',
+      genre: 'films',
+      source: 'system',
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      mockBatchMutate.mockClear();
+      vi.mocked(usePuzzleList).mockReset();
+      vi.mocked(usePuzzleList).mockReturnValue({
+        data: { puzzles: [], total: 0 },
+        isLoading: false,
+        error: null,
+      } as unknown as ReturnType<typeof usePuzzleList>);
+    });
+
+    it('should show the month and navigate by month', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(2025, 2, 10, 12));
+      renderWithProviders(<PuzzleQueue />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Month' }));
+      expect(screen.getByText('March 2025')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Next month' }));
+      expect(screen.getByText('April 2025')).toBeInTheDocument();
+    });
+
+    it('should swap two selected days through one batch update', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(2025, 2, 10, 12));
+      vi.mocked(usePuzzleList).mockReturnValue({
+        data: { puzzles: [createPuzzle('2025-03-12'), createPuzzle('2025-03-14')], total: 2 },
+        isLoading: false,
+        error: null,
+      } as unknown as ReturnType<typeof usePuzzleList>);
+      renderWithProviders(<PuzzleQueue />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Month' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Select' }));
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Select March 12, 2025' }));
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Select March 14, 2025' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Swap' }));
+
+      expect(mockBatchMutate).toHaveBeenCalledWith(
+        [
+          { id: 'puzzle-2025-03-12', updates: { puzzleDate: null, status: 'approved' } },
+          { id: 'puzzle-2025-03-14', updates: { puzzleDate: '2025-03-12' } },
+          { id: 'puzzle-2025-03-12', updates: { puzzleDate: '2025-03-14', status: 'published' } },
+        ],
+        expect.anything()
+      );
+    });
+
+    it('should move a dragged puzzle to the day it is dropped on', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(2025, 2, 10, 12));
+      vi.mocked(usePuzzleList).mockReturnValue({
+        data: { puzzles: [createPuzzle('2025-03-12')], total: 1 },
+        isLoading: false,
+        error: null,
+      } as unknown as ReturnType<typeof usePuzzleList>);
+      renderWithProviders(<PuzzleQueue />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Month' }));
+      fireEvent.dragStart(screen.getByTestId('month-day-2025-03-12'));
+      fireEvent.dragOver(screen.getByTestId('month-day-2025-03-20'));
+      fireEvent.drop(screen.getByTestId('month-day-2025-03-20'));
+
+      expect(mockBatchMutate).toHaveBeenCalledWith(
+        [{ id: 'puzzle-2025-03-12', updates: { puzzleDate: '2025-03-20' } }],
+        expect.anything()
+      );
+    });
+  });
 });
@@ -2,12 +2,16 @@
  * PuzzleQueue Admin Page
  *
  * Calendar-based puzzle scheduling interface.
- * Displays a week view with puzzles scheduled on each day.
+ * Displays a week or month view with puzzles scheduled on each day; the
+ * month view moves puzzles between days, and selected days can be swapped
+ * or shifted as a range.
  */
 
 import { useState, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useQueryClient } from "@tanstack/react-query";
 import { Box, Heading, Text, Button, Spinner } from "@mond-design-system/theme";
+import { Input, Modal, ModalBody, ModalFooter } from "@mond-design-system/theme/client";
 import {
   usePuzzleList,
   useUpdatePuzzle,
@@ -19,28 +23,70 @@ import { SupabaseStorage } from "../../lib/supabase/storage/SupabaseStorage";
 import { SupabaseGroupStorage } from "../../lib/supabase/storage/SupabaseGroupStorage";
 import { supabase } from "../../lib/supabase/client";
 import { useToast } from "../../providers/useToast";
+import { useAuth } from "../../providers/useAuth";
 import { useGenre } from "../../providers";
 import type { StoredPuzzle } from "../../lib/supabase/storage/IPuzzleStorage";
 import type { DifficultyColor } from "../../lib/supabase/storage/IGroupStorage";
-import type { Group } from "../../types";
+import { GENRES, type Genre, type Group } from "../../types";
 import { CalendarDay } from "./CalendarDay";
+import { MonthCalendar } from "./MonthCalendar";
+import {
+  buildRescheduleUpdates,
+  planMove,
+  planShift,
+  planSwap,
+  shiftDate,
+  type PuzzleMove,
+} from "./reschedulePlan";
 import { PuzzleDrawer } from "./PuzzleDrawer";
 import { GroupSwapDrawer } from "./GroupSwapDrawer";
 import { PipelineControls } from "./PipelineControls";
+import { FillPreview } from "./FillPreview";
+import { PipelineConfigEditor } from "./PipelineConfigEditor";
 import {
   usePipelineStatus,
   useTogglePipelineEnabled,
   useFillRollingWindowWithGeneration,
+  usePreviewRollingWindowFill,
+  usePipelineLease,
+  useUpdatePipelineConfig,
+  useResetPipelineConfig,
+  useCopyPipelineConfig,
+  useRevertPipelineConfigChange,
+  usePipelineConfigHistory,
+  useGenerationJobs,
+  useResumeGenerationJob,
+  useSchedulingRules,
+  PipelineRunStore,
+  PipelineLockStore,
+  GenerationJobStore,
+  SchedulingRuleStore,
   DEFAULT_PIPELINE_CONFIG,
+  getRulesForDate,
+} from "../../services/pipeline";
+import type {
+  GenerationJob,
+  PipelineConfigValues,
+  PipelineFillResult,
 } from "../../services/pipeline";
 import { ConnectionTypeStore } from "../../services/group-generator/ConnectionTypeStore";
 import { FeedbackStore } from "../../services/group-generator/FeedbackStore";
 import { createVerifier } from "../../services/group-generator/verifiers/VerifierFactory";
+import { GenerationLedgerStore } from "../../services/group-generator/GenerationLedgerStore";
+import { createBrowserGenerationProvider } from "../../services/group-generator/providers/ProviderFactory";
+import { LedgerRecordingProvider } from "../../services/group-generator/providers/LedgerRecordingProvider";
+import {
+  MetadataOverlapAnalyzer,
+  TMDBMetadataSource,
+} from "../../services/puzzle-analysis";
 import {
   getWeekStart,
   getWeekDays,
+  getMonthGridDays,
   formatDateForStorage,
+  parseStorageDate,
   formatWeekRange,
+  formatMonth,
 } from "../../utils/dateUtils";
 import "./PuzzleQueue.css";
 
@@ -49,15 +95,44 @@ const storage = new SupabaseStorage(supabase);
 const groupStorage = new SupabaseGroupStorage(supabase);
 const connectionTypeStore = new ConnectionTypeStore(supabase);
 const feedbackStore = new FeedbackStore(supabase);
+const generationLedger = new GenerationLedgerStore(supabase);
+const runLog = new PipelineRunStore(supabase);
+const pipelineLock = new PipelineLockStore(supabase);
+const generationJobStore = new GenerationJobStore(supabase);
+const schedulingRuleStore = new SchedulingRuleStore(supabase);
 
 // Get API key from environment (for AI generation)
 const anthropicApiKey = import.meta.env.VITE_ANTHROPIC_API_KEY as string | undefined;
 
+// AI generation runs through the API route, or fully offline with the stub provider
+const generationProvider = createBrowserGenerationProvider(
+  import.meta.env.VITE_GENERATION_PROVIDER,
+);
+const pipelineProvider =
+  anthropicApiKey || generationProvider.offline
+    ? new LedgerRecordingProvider(generationProvider, generationLedger, "fill-now")
+    : undefined;
+
+// Fill Now prefers puzzles with red herrings and skips ones where an item fits two groups
+const overlapAnalyzer = new MetadataOverlapAnalyzer(
+  generationProvider.offline ? null : new TMDBMetadataSource(),
+);
+
 export function PuzzleQueue() {
+  // ?date=YYYY-MM-DD (from the master calendar) opens that day's drawer
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedDate = /^\d{4}-\d{2}-\d{2}$/.test(searchParams.get("date") ?? "")
+    ? searchParams.get("date")
+    : null;
+  const [view, setView] = useState<"week" | "month">("week");
   const [currentWeekStart, setCurrentWeekStart] = useState(() =>
-    getWeekStart(new Date()),
+    getWeekStart(linkedDate ? parseStorageDate(linkedDate) : new Date()),
   );
-  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [currentMonth, setCurrentMonth] = useState(() => {
+    const day = linkedDate ? parseStorageDate(linkedDate) : new Date();
+    return new Date(day.getFullYear(), day.getMonth(), 1);
+  });
+  const [selectedDate, setSelectedDate] = useState<string | null>(linkedDate);
   const [isSelectMode, setIsSelectMode] = useState(false);
   const [selectedDates, setSelectedDates] = useState<Set<string>>(new Set());
   // State for group swap drawer
@@ -65,31 +140,70 @@ export function PuzzleQueue() {
     index: number;
     group: Group;
   } | null>(null);
+  // Dry-run result shown in the fill preview modal
+  const [fillPreview, setFillPreview] = useState<PipelineFillResult | null>(null);
+  const [isConfigOpen, setIsConfigOpen] = useState(false);
+  // Range shift form (open when not null)
+  const [shiftForm, setShiftForm] = useState<{
+    from: string;
+    to: string;
+    days: string;
+  } | null>(null);
   const toast = useToast();
   const { genre } = useGenre();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
 
   // Helper to invalidate pipeline status queries
   const invalidatePipelineStatus = () => {
     queryClient.invalidateQueries({ queryKey: ['pipeline', 'scheduledCount', genre] });
     queryClient.invalidateQueries({ queryKey: ['pipeline', 'poolHealth', genre] });
+    queryClient.invalidateQueries({ queryKey: ['pipeline', 'poolReserve', genre] });
+    queryClient.invalidateQueries({ queryKey: ['pipeline', 'poolForecast', genre] });
     queryClient.invalidateQueries({ queryKey: ['pipeline', 'emptyDates', genre] });
   };
 
-  // Create verifier based on genre
-  const itemVerifier = useMemo(() => createVerifier(genre), [genre]);
+  // Create verifier based on genre (skipped when generating offline)
+  const itemVerifier = useMemo(
+    () => createVerifier(genre, { offline: generationProvider.offline }),
+    [genre],
+  );
 
   // Pipeline status and hooks
   const pipelineStatus = usePipelineStatus(supabase, storage, groupStorage, genre);
-  const toggleEnabled = useTogglePipelineEnabled(supabase, genre);
-  const fillWindow = useFillRollingWindowWithGeneration({
+  const changedBy = user?.email ?? "admin";
+  const toggleEnabled = useTogglePipelineEnabled(supabase, genre, changedBy);
+  const updateConfig = useUpdatePipelineConfig(supabase, genre, changedBy);
+  const resetConfig = useResetPipelineConfig(supabase, genre, changedBy);
+  const copyConfig = useCopyPipelineConfig(supabase, genre, changedBy);
+  const revertConfigChange = useRevertPipelineConfigChange(supabase, genre, changedBy);
+  const configHistory = usePipelineConfigHistory(supabase, genre);
+  const isSavingConfig =
+    updateConfig.isPending ||
+    resetConfig.isPending ||
+    copyConfig.isPending ||
+    revertConfigChange.isPending;
+  const pipelineLease = usePipelineLease(supabase, genre);
+  const fillOptions = {
     puzzleStorage: storage,
     groupStorage,
     connectionTypeStore,
     feedbackStore,
     itemVerifier,
-    apiKey: anthropicApiKey,
-  });
+    provider: pipelineProvider,
+    generationLedger,
+    overlapAnalyzer,
+    runLog,
+    trigger: "manual" as const,
+    lock: pipelineLock,
+    holder: changedBy,
+    jobStore: generationJobStore,
+    ruleStore: schedulingRuleStore,
+  };
+  const fillWindow = useFillRollingWindowWithGeneration(fillOptions);
+  const previewFill = usePreviewRollingWindowFill(fillOptions);
+  const generationJobs = useGenerationJobs(supabase, genre);
+  const resumeJob = useResumeGenerationJob(fillOptions);
 
   // Note: Auto-fill is handled by the cron job when enabled.
   // The toggle only changes the enabled state in the database.
@@ -109,13 +223,57 @@ export function PuzzleQueue() {
     });
   };
 
-  // Handler for manual fill
-  const handleFillNow = () => {
-    const config = pipelineStatus.config ?? {
+  // Config editor handlers
+  const handleSaveConfig = (updates: Partial<PipelineConfigValues>) => {
+    updateConfig.mutate(updates, {
+      onSuccess: () => toast.showSuccess("Pipeline settings saved"),
+      onError: (error) => toast.showError("Failed to save settings", error.message),
+    });
+  };
+
+  const handleResetConfig = () => {
+    resetConfig.mutate(undefined, {
+      onSuccess: () => toast.showSuccess("Pipeline settings reset to defaults"),
+      onError: (error) => toast.showError("Failed to reset settings", error.message),
+    });
+  };
+
+  const handleCopyConfig = (sourceGenre: Genre) => {
+    copyConfig.mutate(sourceGenre, {
+      onSuccess: () => toast.showSuccess(`Copied pipeline settings from ${sourceGenre}`),
+      onError: (error) => toast.showError("Failed to copy settings", error.message),
+    });
+  };
+
+  const handleRevertConfigChange = (changeId: string) => {
+    revertConfigChange.mutate(changeId, {
+      onSuccess: () => toast.showSuccess("Change reverted"),
+      onError: (error) => toast.showError("Failed to revert change", error.message),
+    });
+  };
+
+  const getFillConfig = () =>
+    pipelineStatus.config ?? {
       ...DEFAULT_PIPELINE_CONFIG,
       genre,
     };
-    fillWindow.mutate(config, {
+
+  // Handler for previewing a fill (dry run)
+  const handlePreviewFill = () => {
+    previewFill.mutate(getFillConfig(), {
+      onSuccess: (result) => {
+        setFillPreview(result);
+      },
+      onError: (error) => {
+        toast.showError('Preview failed', error.message);
+      },
+    });
+  };
+
+  // Handler for manual fill
+  const handleFillNow = () => {
+    setFillPreview(null);
+    fillWindow.mutate(getFillConfig(), {
       onSuccess: (result) => {
         // Build detailed summary
         const parts: string[] = [];
@@ -127,7 +285,10 @@ export function PuzzleQueue() {
             .map(([color, stats]) => `${color}: ${stats.saved}/${stats.generated}`)
             .join(', ');
           if (colorStats) {
-            parts.push(`Groups saved: ${colorStats}`);
+            parts.push(`Groups approved: ${colorStats}`);
+          }
+          if (result.groupsPendingReview > 0) {
+            parts.push(`${result.groupsPendingReview} group(s) awaiting review in the Group Pool`);
           }
           if (result.groupsSaved < result.groupsGenerated) {
             parts.push(`${result.groupsGenerated - result.groupsSaved} group(s) failed`);
@@ -146,6 +307,9 @@ export function PuzzleQueue() {
         if (result.errors.length > 0) {
           parts.push(`${result.errors.length} error(s)`);
         }
+        if (result.warnings.length > 0) {
+          parts.push(`${result.warnings.length} warning(s)`);
+        }
 
         // Show result
         const summary = parts.join(' | ');
@@ -163,17 +327,44 @@ export function PuzzleQueue() {
     });
   };
 
+  // Handler for resuming a failed or interrupted generation job
+  const handleResumeJob = (job: GenerationJob) => {
+    resumeJob.mutate(job, {
+      onSuccess: (result) => {
+        // Errors include retried attempts, so the job list shows whether chunks are still missing
+        const parts = [
+          `${result.groupsSaved} group(s) saved`,
+          `${result.groupsPending} awaiting review`,
+        ];
+        if (result.errors.length > 0) {
+          parts.push(`${result.errors.length} error(s)`);
+        }
+        toast.showSuccess("Generation resumed", parts.join(" | "));
+      },
+      onError: (error) => {
+        toast.showError("Failed to resume generation", error.message);
+      },
+    });
+  };
+
   // Get week days
   const weekDays = useMemo(
     () => getWeekDays(currentWeekStart),
     [currentWeekStart],
   );
 
-  // Date range for the current week
-  const dateFrom = formatDateForStorage(weekDays[0]);
-  const dateTo = formatDateForStorage(weekDays[6]);
+  // Get month grid days (whole weeks)
+  const monthDays = useMemo(
+    () => getMonthGridDays(currentMonth),
+    [currentMonth],
+  );
+
+  // Date range of the visible calendar
+  const visibleDays = view === "week" ? weekDays : monthDays;
+  const dateFrom = formatDateForStorage(visibleDays[0]);
+  const dateTo = formatDateForStorage(visibleDays[visibleDays.length - 1]);
 
-  // Fetch scheduled puzzles for current week (filtered by genre)
+  // Fetch scheduled puzzles for the visible calendar (filtered by genre)
   const { data: scheduledData, isLoading: isLoadingScheduled } = usePuzzleList(
     { dateFrom, dateTo, genre },
     storage,
@@ -191,7 +382,7 @@ export function PuzzleQueue() {
   // Mutation for deleting puzzles
   const deleteMutation = useDeletePuzzle(storage);
 
-  // Batch mutation for selection mode (unschedule)
+  // Batch mutation for selection mode (unschedule) and rescheduling
   const batchUpdateMutation = useBatchUpdatePuzzles(storage);
 
   // Build map of puzzles by date
@@ -207,6 +398,20 @@ export function PuzzleQueue() {
     return map;
   }, [scheduledData]);
 
+  // Themed days of the visible calendar, by date
+  const { data: schedulingRules } = useSchedulingRules(supabase, genre);
+  const themesByDate = useMemo(() => {
+    const map = new Map<string, string[]>();
+    for (const date of visibleDays) {
+      const dateStr = formatDateForStorage(date);
+      const rules = getRulesForDate(schedulingRules ?? [], dateStr);
+      if (rules.length > 0) {
+        map.set(dateStr, rules.map((rule) => rule.name));
+      }
+    }
+    return map;
+  }, [visibleDays, schedulingRules]);
+
   // Determine which drawer to show
   const selectedPuzzle = selectedDate ? puzzlesByDate.get(selectedDate) : null;
 
@@ -239,6 +444,14 @@ export function PuzzleQueue() {
     setCurrentWeekStart(newStart);
   };
 
+  const goToPrevMonth = () => {
+    setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1, 1));
+  };
+
+  const goToNextMonth = () => {
+    setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 1));
+  };
+
   // Day click handler
   const handleDayClick = (date: Date) => {
     setSelectedDate(formatDateForStorage(date));
@@ -247,6 +460,9 @@ export function PuzzleQueue() {
   // Close drawer handler
   const handleCloseDrawer = () => {
     setSelectedDate(null);
+    if (linkedDate) {
+      setSearchParams({}, { replace: true });
+    }
   };
 
   // Schedule puzzle handler - also publishes the puzzle
@@ -314,6 +530,102 @@ export function PuzzleQueue() {
     });
   };
 
+  // Rescheduling handlers - every move goes through one batch update,
+  // ordered so no two puzzles share a date and live puzzles stay put
+  const applyMoves = (
+    moves: PuzzleMove[],
+    calendar: Map<string, StoredPuzzle>,
+    successMessage: string,
+    onDone?: () => void,
+  ) => {
+    let updates;
+    try {
+      updates = buildRescheduleUpdates(moves, calendar, today);
+    } catch (err) {
+      toast.showError("Cannot reschedule", (err as Error).message);
+      return;
+    }
+
+    batchUpdateMutation.mutate(updates, {
+      onSuccess: () => {
+        toast.showSuccess(successMessage);
+        setSelectedDates(new Set());
+        setIsSelectMode(false);
+        invalidatePipelineStatus();
+        onDone?.();
+      },
+      onError: (err) => {
+        toast.showError("Failed to reschedule puzzles", err.message);
+      },
+    });
+  };
+
+  const handleMove = (from: string, to: string) => {
+    const moves = planMove(puzzlesByDate, from, to);
+    applyMoves(
+      moves,
+      puzzlesByDate,
+      moves.length > 1 ? `Swapped ${from} and ${to}` : `Moved puzzle to ${to}`,
+    );
+  };
+
+  const handleSwapSelected = () => {
+    const [first, second] = Array.from(selectedDates).sort();
+    try {
+      applyMoves(planSwap(puzzlesByDate, first, second), puzzlesByDate, `Swapped ${first} and ${second}`);
+    } catch (err) {
+      toast.showError("Cannot swap", (err as Error).message);
+    }
+  };
+
+  const handleOpenShift = () => {
+    const dates = Array.from(selectedDates).sort();
+    setShiftForm({
+      from: dates[0] ?? dateFrom,
+      to: dates[dates.length - 1] ?? dateTo,
+      days: "1",
+    });
+  };
+
+  const handleShift = async () => {
+    if (!shiftForm) return;
+    const { from, to } = shiftForm;
+    const days = Number(shiftForm.days);
+    if (!Number.isInteger(days) || days === 0 || !from || !to) {
+      toast.showError("Cannot shift", "Enter a range and a whole number of days other than 0");
+      return;
+    }
+
+    try {
+      // The shifted range can reach past the visible calendar
+      const rangeFrom = days < 0 ? shiftDate(from, days) : from;
+      const rangeTo = days > 0 ? shiftDate(to, days) : to;
+      const { puzzles } = await storage.listPuzzles({
+        dateFrom: rangeFrom,
+        dateTo: rangeTo,
+        genre,
+        // One puzzle a day at most
+        limit: (Date.parse(rangeTo) - Date.parse(rangeFrom)) / (24 * 60 * 60 * 1000) + 1,
+      });
+      const calendar = new Map<string, StoredPuzzle>();
+      for (const puzzle of puzzles) {
+        if (puzzle.puzzleDate) {
+          calendar.set(puzzle.puzzleDate, puzzle);
+        }
+      }
+
+      const moves = planShift(calendar, from, to, days);
+      applyMoves(
+        moves,
+        calendar,
+        `Shifted ${moves.length} puzzle(s) by ${days} day(s)`,
+        () => setShiftForm(null),
+      );
+    } catch (err) {
+      toast.showError("Cannot shift", (err as Error).message);
+    }
+  };
+
   // Puzzle detail handlers
   const handlePuzzleUpdate = (puzzleId: string, updates: { title?: string; groupIds?: string[] }) => {
     updateMutation.mutate(
@@ -406,20 +718,43 @@ export function PuzzleQueue() {
           <PipelineControls
             config={pipelineStatus.config}
             poolHealth={pipelineStatus.poolHealth}
+            poolReserve={pipelineStatus.poolReserve}
             scheduledDays={pipelineStatus.scheduledDays}
             windowDays={pipelineStatus.windowDays}
             isFilling={fillWindow.isPending}
             currentStage={fillWindow.currentStage}
+            currentProgress={fillWindow.currentProgress}
             isLoadingConfig={pipelineStatus.isLoadingConfig}
             onToggleEnabled={handleToggleEnabled}
             onFillNow={handleFillNow}
+            isPreviewing={previewFill.isPending}
+            onPreviewFill={handlePreviewFill}
+            lease={pipelineLease.data}
+            onEditConfig={() => setIsConfigOpen(true)}
+            generationJob={generationJobs.data?.[0]}
+            isResumingJob={resumeJob.isPending}
+            onResumeJob={pipelineProvider ? handleResumeJob : undefined}
           />
         )}
 
-        {/* Week Navigation and Selection Mode Controls */}
+        {/* Calendar Navigation and Selection Mode Controls */}
         <Box display="flex" justifyContent="space-between" alignItems="center">
-          {/* Left: Select Mode Toggle */}
-          <Box>
+          {/* Left: View and Select Mode Toggles */}
+          <Box display="flex" gap="sm">
+            <Button
+              variant={view === "week" ? "primary" : "outline"}
+              size="sm"
+              onClick={() => setView("week")}
+            >
+              Week
+            </Button>
+            <Button
+              variant={view === "month" ? "primary" : "outline"}
+              size="sm"
+              onClick={() => setView("month")}
+            >
+              Month
+            </Button>
             <Button
               variant={isSelectMode ? "ghost" : "outline"}
               size="sm"
@@ -429,22 +764,24 @@ export function PuzzleQueue() {
             </Button>
           </Box>
 
-          {/* Center: Week Navigation */}
+          {/* Center: Week or Month Navigation */}
           <Box display="flex" alignItems="center" gap="md">
             <Button
               variant="outline"
-              onClick={goToPrevWeek}
-              aria-label="Previous week"
+              onClick={view === "week" ? goToPrevWeek : goToPrevMonth}
+              aria-label={view === "week" ? "Previous week" : "Previous month"}
             >
               ← Prev
             </Button>
             <Text size="lg" weight="medium">
-              {formatWeekRange(weekDays[0], weekDays[6])}
+              {view === "week"
+                ? formatWeekRange(weekDays[0], weekDays[6])
+                : formatMonth(currentMonth)}
             </Text>
             <Button
               variant="outline"
-              onClick={goToNextWeek}
-              aria-label="Next week"
+              onClick={view === "week" ? goToNextWeek : goToNextMonth}
+              aria-label={view === "week" ? "Next week" : "Next month"}
             >
               Next →
             </Button>
@@ -452,6 +789,26 @@ export function PuzzleQueue() {
 
           {/* Right: Selection Actions */}
           <Box display="flex" gap="sm">
+            {isSelectMode && selectedDates.size === 2 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSwapSelected}
+                disabled={batchUpdateMutation.isPending}
+              >
+                Swap
+              </Button>
+            )}
+            {isSelectMode && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleOpenShift}
+                disabled={batchUpdateMutation.isPending}
+              >
+                Shift…
+              </Button>
+            )}
             {isSelectMode && selectedDates.size > 0 && (
               <Button
                 variant="outline"
@@ -472,7 +829,25 @@ export function PuzzleQueue() {
           </Box>
         )}
 
-        {!isLoadingScheduled && !isLoadingAvailable && (
+        {!isLoadingScheduled && !isLoadingAvailable && view === "month" && (
+          <Box border="default" padding="2">
+            <MonthCalendar
+              days={monthDays}
+              month={currentMonth.getMonth()}
+              puzzlesByDate={puzzlesByDate}
+              today={today}
+              onDayClick={setSelectedDate}
+              onMove={handleMove}
+              isMoving={batchUpdateMutation.isPending}
+              isSelectMode={isSelectMode}
+              selectedDates={selectedDates}
+              onSelect={handleToggleDateSelection}
+              themesByDate={themesByDate}
+            />
+          </Box>
+        )}
+
+        {!isLoadingScheduled && !isLoadingAvailable && view === "week" && (
           <Box display="flex" justifyContent="space-evenly" gap="xxs" border="default" padding="2">
             {weekDays.map((date, index) => {
               const dateStr = formatDateForStorage(date);
@@ -491,6 +866,7 @@ export function PuzzleQueue() {
                   isSelectMode={isSelectMode}
                   isSelected={selectedDates.has(dateStr)}
                   onSelect={() => handleToggleDateSelection(dateStr)}
+                  themes={themesByDate.get(dateStr)}
                 />
               );
             })}
@@ -526,6 +902,114 @@ export function PuzzleQueue() {
           isSwapping={updateMutation.isPending}
         />
       )}
+
+      {/* Pipeline Config Modal - settings, diff against defaults and change history */}
+      <Modal
+        isOpen={isConfigOpen && pipelineStatus.config !== undefined}
+        onClose={() => setIsConfigOpen(false)}
+        title={`Pipeline Settings (${genre})`}
+        size="lg"
+      >
+        <ModalBody>
+          {pipelineStatus.config && (
+            <PipelineConfigEditor
+              config={pipelineStatus.config}
+              otherGenres={GENRES.filter((g) => g !== genre)}
+              history={configHistory.data ?? []}
+              isLoadingHistory={configHistory.isLoading}
+              isSaving={isSavingConfig}
+              onSave={handleSaveConfig}
+              onReset={handleResetConfig}
+              onCopyFrom={handleCopyConfig}
+              onRevert={handleRevertConfigChange}
+            />
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Box display="flex" justifyContent="flex-end">
+            <Button variant="outline" onClick={() => setIsConfigOpen(false)}>
+              Close
+            </Button>
+          </Box>
+        </ModalFooter>
+      </Modal>
+
+      {/* Shift Modal - moves every puzzle in a range by a number of days */}
+      <Modal
+        isOpen={shiftForm !== null}
+        onClose={() => setShiftForm(null)}
+        title="Shift Puzzles"
+      >
+        <ModalBody>
+          {shiftForm && (
+            <Box display="flex" flexDirection="column" gap="md">
+              <Text size="sm" semantic="secondary">
+                Moves every puzzle from the first day to the last by the given
+                number of days (negative moves them earlier). Puzzles on today
+                or earlier cannot be moved.
+              </Text>
+              <Input
+                label="From"
+                type="date"
+                value={shiftForm.from}
+                onChange={(e) => setShiftForm({ ...shiftForm, from: e.target.value })}
+              />
+              <Input
+                label="To"
+                type="date"
+                value={shiftForm.to}
+                onChange={(e) => setShiftForm({ ...shiftForm, to: e.target.value })}
+              />
+              <Input
+                label="Days"
+                type="number"
+                value={shiftForm.days}
+                onChange={(e) => setShiftForm({ ...shiftForm, days: e.target.value })}
+              />
+            </Box>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Box display="flex" gap="sm" justifyContent="flex-end">
+            <Button variant="outline" onClick={() => setShiftForm(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleShift}
+              disabled={batchUpdateMutation.isPending}
+            >
+              Shift
+            </Button>
+          </Box>
+        </ModalFooter>
+      </Modal>
+
+      {/* Fill Preview Modal - dry-run result of a fill */}
+      <Modal
+        isOpen={fillPreview !== null}
+        onClose={() => setFillPreview(null)}
+        title="Fill Preview"
+        size="lg"
+      >
+        <ModalBody>
+          {fillPreview && <FillPreview result={fillPreview} />}
+        </ModalBody>
+        <ModalFooter>
+          <Box display="flex" gap="sm" justifyContent="flex-end">
+            <Button variant="outline" onClick={() => setFillPreview(null)}>
+              Close
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleFillNow}
+              disabled={fillWindow.isPending}
+            >
+              Fill Now
+            </Button>
+          </Box>
+        </ModalFooter>
+      </Modal>
     </>
   );
 }
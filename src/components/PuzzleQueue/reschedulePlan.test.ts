@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRescheduleUpdates,
+  isLockedDate,
+  planMove,
+  planShift,
+  planSwap,
+  shiftDate,
+} from './reschedulePlan';
+import type { StoredPuzzle } from '../../lib/supabase/storage/IPuzzleStorage';
+
+const TODAY = '2025-03-10';
+
+const createPuzzle = (date: string): StoredPuzzle => ({
+  id: `puzzle-${date}`,
+  createdAt: Date.now(),
+  puzzleDate: date,
+  title: null,
+  groupIds: ['g1', 'g2', 'g3', 'g4'],
+  status: 'published',
+  genre: 'films',
+  source: 'system',
+});
+
+const createCalendar = (...dates: string[]) =>
+  new Map(dates.map((date) => [date, createPuzzle(date)]));
+
+describe('reschedulePlan', () => {
+  describe('isLockedDate', () => {
+    it('should lock today and earlier', () => {
+      expect(isLockedDate('2025-03-09', TODAY)).toBe(true);
+      expect(isLockedDate(TODAY, TODAY)).toBe(true);
+      expect(isLockedDate('2025-03-11', TODAY)).toBe(false);
+    });
+  });
+
+  describe('shiftDate', () => {
+    it('should shift across month and year boundaries', () => {
+      expect(shiftDate('2025-02-27', 3)).toBe('2025-03-02');
+      expect(shiftDate('2025-01-02', -3)).toBe('2024-12-30');
+    });
+  });
+
+  describe('planMove', () => {
+    it('should move a puzzle to an empty day', () => {
+      const calendar = createCalendar('2025-03-12');
+
+      expect(planMove(calendar, '2025-03-12', '2025-03-15')).toEqual([
+        { puzzleId: 'puzzle-2025-03-12', from: '2025-03-12', to: '2025-03-15' },
+      ]);
+    });
+
+    it('should swap when dropped on a day with a puzzle', () => {
+      const calendar = createCalendar('2025-03-12', '2025-03-15');
+
+      expect(planMove(calendar, '2025-03-12', '2025-03-15')).toEqual([
+        { puzzleId: 'puzzle-2025-03-12', from: '2025-03-12', to: '2025-03-15' },
+        { puzzleId: 'puzzle-2025-03-15', from: '2025-03-15', to: '2025-03-12' },
+      ]);
+    });
+
+    it('should throw when the day has no puzzle', () => {
+      expect(() => planMove(createCalendar(), '2025-03-12', '2025-03-15')).toThrow(
+        'No puzzle scheduled on 2025-03-12'
+      );
+    });
+  });
+
+  describe('planSwap', () => {
+    it('should move the only puzzle when one day is empty', () => {
+      const calendar = createCalendar('2025-03-15');
+
+      expect(planSwap(calendar, '2025-03-12', '2025-03-15')).toEqual([
+        { puzzleId: 'puzzle-2025-03-15', from: '2025-03-15', to: '2025-03-12' },
+      ]);
+    });
+  });
+
+  describe('planShift', () => {
+    it('should move every puzzle in the range', () => {
+      const calendar = createCalendar('2025-03-12', '2025-03-13', '2025-03-20');
+
+      expect(planShift(calendar, '2025-03-12', '2025-03-14', 2)).toEqual([
+        { puzzleId: 'puzzle-2025-03-12', from: '2025-03-12', to: '2025-03-14' },
+        { puzzleId: 'puzzle-2025-03-13', from: '2025-03-13', to: '2025-03-15' },
+      ]);
+    });
+
+    it('should reject an empty range or a zero shift', () => {
+      const calendar = createCalendar('2025-03-12');
+
+      expect(() => planShift(calendar, '2025-03-13', '2025-03-14', 1)).toThrow('No puzzles scheduled');
+      expect(() => planShift(calendar, '2025-03-12', '2025-03-12', 0)).toThrow('whole number');
+      expect(() => planShift(calendar, '2025-03-14', '2025-03-12', 1)).toThrow('must end on or after');
+    });
+  });
+
+  describe('buildRescheduleUpdates', () => {
+    it('should move into free days first when shifting forward', () => {
+      const calendar = createCalendar('2025-03-12', '2025-03-13');
+      const moves = planShift(calendar, '2025-03-12', '2025-03-13', 1);
+
+      expect(buildRescheduleUpdates(moves, calendar, TODAY)).toEqual([
+        { id: 'puzzle-2025-03-13', updates: { puzzleDate: '2025-03-14' } },
+        { id: 'puzzle-2025-03-12', updates: { puzzleDate: '2025-03-13' } },
+      ]);
+    });
+
+    it('should park one puzzle to swap two days', () => {
+      const calendar = createCalendar('2025-03-12', '2025-03-15');
+      const moves = planSwap(calendar, '2025-03-12', '2025-03-15');
+
+      expect(buildRescheduleUpdates(moves, calendar, TODAY)).toEqual([
+        { id: 'puzzle-2025-03-12', updates: { puzzleDate: null, status: 'approved' } },
+        { id: 'puzzle-2025-03-15', updates: { puzzleDate: '2025-03-12' } },
+        { id: 'puzzle-2025-03-12', updates: { puzzleDate: '2025-03-15', status: 'published' } },
+      ]);
+    });
+
+    it('should refuse to move a puzzle that is already live', () => {
+      const calendar = createCalendar(TODAY);
+
+      expect(() => buildRescheduleUpdates(planMove(calendar, TODAY, '2025-03-12'), calendar, TODAY)).toThrow(
+        'already live'
+      );
+    });
+
+    it('should refuse to move a puzzle onto today or earlier', () => {
+      const calendar = createCalendar('2025-03-12');
+
+      expect(() =>
+        buildRescheduleUpdates(planMove(calendar, '2025-03-12', TODAY), calendar, TODAY)
+      ).toThrow('after today');
+    });
+
+    it('should refuse to shift onto a day that keeps its puzzle', () => {
+      const calendar = createCalendar('2025-03-12', '2025-03-14');
+      const moves = planShift(calendar, '2025-03-12', '2025-03-12', 2);
+
+      expect(() => buildRescheduleUpdates(moves, calendar, TODAY)).toThrow('2025-03-14 already has a puzzle');
+    });
+  });
+});
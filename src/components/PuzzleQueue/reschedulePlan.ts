@@ -0,0 +1,174 @@
+/**
+ * Rescheduling helpers for the puzzle calendar
+ *
+ * Turns drag-and-drop moves, swaps and range shifts into an ordered list of
+ * updates for batchUpdatePuzzles. Updates run one at a time (and are undone
+ * if one fails, so a parked puzzle is not left unscheduled) and each date
+ * holds one puzzle per genre, so moves are ordered to land on free dates and
+ * a cycle (like a swap) parks one puzzle unscheduled until its date is free
+ * (as approved, since a published puzzle must have a date).
+ * Puzzles on today or earlier cannot move (028_protect_past_puzzles), and
+ * nothing is moved onto those days either.
+ */
+
+import type { PuzzleUpdate, StoredPuzzle } from "../../lib/supabase/storage/IPuzzleStorage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A scheduled puzzle moving to another date
+ */
+export interface PuzzleMove {
+  puzzleId: string;
+  /** YYYY-MM-DD */
+  from: string;
+  /** YYYY-MM-DD */
+  to: string;
+}
+
+export interface PuzzleDateUpdate {
+  id: string;
+  updates: PuzzleUpdate;
+}
+
+/**
+ * Whether a date is today or earlier, so its puzzle is locked in place
+ */
+export function isLockedDate(date: string, today: string): boolean {
+  return date <= today;
+}
+
+/**
+ * YYYY-MM-DD the given number of days after (or before) a YYYY-MM-DD date
+ */
+export function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split("T")[0];
+}
+
+/**
+ * Move a day's puzzle onto another day; onto a day with a puzzle, the two swap
+ */
+export function planMove(
+  puzzlesByDate: Map<string, StoredPuzzle>,
+  from: string,
+  to: string,
+): PuzzleMove[] {
+  const puzzle = puzzlesByDate.get(from);
+  if (!puzzle) {
+    throw new Error(`No puzzle scheduled on ${from}`);
+  }
+  if (from === to) {
+    return [];
+  }
+
+  const target = puzzlesByDate.get(to);
+  const moves = [{ puzzleId: puzzle.id, from, to }];
+  if (target) {
+    moves.push({ puzzleId: target.id, from: to, to: from });
+  }
+  return moves;
+}
+
+/**
+ * Swap the puzzles of two days (moves the puzzle if only one day has one)
+ */
+export function planSwap(
+  puzzlesByDate: Map<string, StoredPuzzle>,
+  first: string,
+  second: string,
+): PuzzleMove[] {
+  if (!puzzlesByDate.has(first) && !puzzlesByDate.has(second)) {
+    throw new Error(`No puzzles scheduled on ${first} or ${second}`);
+  }
+  return puzzlesByDate.has(first)
+    ? planMove(puzzlesByDate, first, second)
+    : planMove(puzzlesByDate, second, first);
+}
+
+/**
+ * Move every puzzle between `from` and `to` (inclusive) by `days` days
+ */
+export function planShift(
+  puzzlesByDate: Map<string, StoredPuzzle>,
+  from: string,
+  to: string,
+  days: number,
+): PuzzleMove[] {
+  if (!Number.isInteger(days) || days === 0) {
+    throw new Error("Shift by a whole number of days other than 0");
+  }
+  if (from > to) {
+    throw new Error("The range must end on or after its start");
+  }
+
+  const moves: PuzzleMove[] = [];
+  for (const [date, puzzle] of puzzlesByDate) {
+    if (date >= from && date <= to) {
+      moves.push({ puzzleId: puzzle.id, from: date, to: shiftDate(date, days) });
+    }
+  }
+
+  if (moves.length === 0) {
+    throw new Error(`No puzzles scheduled from ${from} to ${to}`);
+  }
+  return moves;
+}
+
+/**
+ * Check moves against the calendar and order them into updates that never
+ * put two puzzles on one date. Throws when a move is not allowed.
+ */
+export function buildRescheduleUpdates(
+  moves: PuzzleMove[],
+  puzzlesByDate: Map<string, StoredPuzzle>,
+  today: string,
+): PuzzleDateUpdate[] {
+  const movingFrom = new Set(moves.map((move) => move.from));
+  const targets = new Set<string>();
+
+  for (const move of moves) {
+    if (isLockedDate(move.from, today)) {
+      throw new Error(`The puzzle on ${move.from} is already live and cannot be moved`);
+    }
+    if (isLockedDate(move.to, today)) {
+      throw new Error(`Puzzles can only be moved to days after today (not ${move.to})`);
+    }
+    if (targets.has(move.to)) {
+      throw new Error(`Two puzzles would be scheduled on ${move.to}`);
+    }
+    if (puzzlesByDate.has(move.to) && !movingFrom.has(move.to)) {
+      throw new Error(`${move.to} already has a puzzle`);
+    }
+    targets.add(move.to);
+  }
+
+  const updates: PuzzleDateUpdate[] = [];
+  const parked: PuzzleMove[] = [];
+  const pending = moves.filter((move) => move.from !== move.to);
+  // Dates still holding a puzzle that has yet to move
+  const occupied = new Set(pending.map((move) => move.from));
+
+  while (pending.length > 0) {
+    const index = pending.findIndex((move) => !occupied.has(move.to));
+
+    if (index === -1) {
+      // Every remaining move waits on another: park one to break the cycle
+      const move = pending.shift()!;
+      updates.push({ id: move.puzzleId, updates: { puzzleDate: null, status: "approved" } });
+      occupied.delete(move.from);
+      parked.push(move);
+      continue;
+    }
+
+    const [move] = pending.splice(index, 1);
+    updates.push({ id: move.puzzleId, updates: { puzzleDate: move.to } });
+    occupied.delete(move.from);
+  }
+
+  for (const move of parked) {
+    const status = puzzlesByDate.get(move.from)?.status ?? "published";
+    updates.push({ id: move.puzzleId, updates: { puzzleDate: move.to, status } });
+  }
+
+  return updates;
+}
@@ -0,0 +1,14 @@
+/**
+ * Genre Constants
+ *
+ * Human-readable labels for each genre.
+ */
+
+import type { Genre } from '../types';
+
+export const GENRE_LABELS: Record<Genre, string> = {
+  films: 'Films',
+  music: 'Music',
+  books: 'Books',
+  sports: 'Sports',
+};
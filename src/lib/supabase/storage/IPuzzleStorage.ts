@@ -5,7 +5,7 @@
  * Following Interface Segregation and Dependency Inversion principles.
  */
 
-import type { SavedPuzzle, Group, Genre } from '../../../types';
+import type { SavedPuzzle, Group, Genre, ReleaseSettings } from '../../../types';
 import type { Database } from '../types';
 
 /**
@@ -29,6 +29,16 @@ export interface PuzzleInput {
   genre?: Genre;
 }
 
+/**
+ * Input for creating a puzzle atomically, optionally scheduled
+ */
+export interface PuzzleCreateInput extends PuzzleInput {
+  /** Date to schedule the puzzle for (YYYY-MM-DD); unscheduled when omitted */
+  puzzleDate?: string | null;
+  /** Initial status (defaults to 'pending') */
+  status?: PuzzleStatus;
+}
+
 /**
  * Stored puzzle with database fields.
  * Uses group_ids references instead of inline data.
@@ -45,6 +55,8 @@ export interface StoredPuzzle {
   genre: Genre;
   /** Source of the puzzle (system-created or user-submitted) */
   source: PuzzleSource;
+  /** When the scheduled puzzle is released (ms), set from its date and the genre's release settings */
+  publishAt?: number | null;
   // Populated when fetched with groups
   groups?: Group[];
 }
@@ -79,6 +91,16 @@ export interface PuzzleUpdate {
   title?: string | null;
 }
 
+/**
+ * Options for resolving today's daily puzzle
+ */
+export interface DailyPuzzleOptions {
+  /** The player's IANA time zone; today is their calendar date, held back to the latest release */
+  timeZone?: string;
+  /** Instant to resolve at (defaults to now) */
+  now?: Date;
+}
+
 /**
  * Result from listPuzzles query
  */
@@ -103,6 +125,17 @@ export interface IPuzzleStorage {
    */
   savePuzzle(puzzle: PuzzleInput): Promise<StoredPuzzle>;
 
+  /**
+   * Create a puzzle in a single transaction.
+   * Rejects a date that already has a puzzle for the genre and a group
+   * combination that already exists (errors mention "duplicate"), then inserts,
+   * schedules and increments the groups' usage counts. Nothing is written on failure.
+   *
+   * @param puzzle - Puzzle input with group_ids, optional date and status
+   * @returns Promise resolving to the created puzzle
+   */
+  createPuzzle(puzzle: PuzzleCreateInput): Promise<StoredPuzzle>;
+
   /**
    * Get a puzzle by its unique ID.
    * Returns puzzle with groups populated.
@@ -116,12 +149,43 @@ export interface IPuzzleStorage {
    * Get the published puzzle for a specific date and genre.
    * This is the primary method for loading daily puzzles (public access).
    * Returns assembled SavedPuzzle with groups data fetched from connection_groups.
+   * Public readers only see a puzzle once it is released (puzzles.publish_at).
    *
-   * @param date - Date string (YYYY-MM-DD format)
+   * @param date - Date string (YYYY-MM-DD format), or null for today as resolved from
+   *   the caller's time zone and the genre's release settings
    * @param genre - Genre/domain to filter by (defaults to 'films')
+   * @param options - Caller's time zone when resolving today
    * @returns Promise resolving to puzzle or null if no puzzle assigned to date
    */
-  getDailyPuzzle(date: string, genre?: Genre): Promise<SavedPuzzle | null>;
+  getDailyPuzzle(date: string | null, genre?: Genre, options?: DailyPuzzleOptions): Promise<SavedPuzzle | null>;
+
+  /**
+   * Get a published puzzle by ID, assembled for play like getDailyPuzzle.
+   * Public readers only see it once it is released.
+   *
+   * @param id - Puzzle identifier
+   * @returns Promise resolving to puzzle or null if not found or not published
+   */
+  getPublishedPuzzle(id: string): Promise<SavedPuzzle | null>;
+
+  /**
+   * Get the daily rollover of a genre.
+   * Genres without stored settings roll over at UTC midnight.
+   *
+   * @param genre - Genre/domain
+   * @returns Promise resolving to the genre's release settings
+   */
+  getReleaseSettings(genre: Genre): Promise<ReleaseSettings>;
+
+  /**
+   * Change the daily rollover of a genre.
+   * The database moves the release of the genre's unreleased puzzles to match.
+   *
+   * @param genre - Genre/domain
+   * @param settings - Release hour and time zone
+   * @returns Promise resolving to the stored settings
+   */
+  updateReleaseSettings(genre: Genre, settings: ReleaseSettings): Promise<ReleaseSettings>;
 
   /**
    * List puzzles with optional filtering and pagination.
@@ -176,6 +240,8 @@ export interface IPuzzleStorage {
   /**
    * Batch update multiple puzzles at once.
    * Used for bulk operations like clearing selected dates.
+   * Updates run in order; if one fails, the completed ones are undone
+   * before the error is thrown.
    *
    * @param updates - Array of puzzle updates with IDs
    * @returns Promise that resolves when all updates complete
@@ -9,11 +9,15 @@
 
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '../types';
-import type { SavedPuzzle, Group, Item, Genre } from '../../../types';
+import { DEFAULT_RELEASE_SETTINGS } from '../../../types';
+import type { SavedPuzzle, Group, Item, Genre, ReleaseSettings } from '../../../types';
+import { resolvePuzzleDate } from '../../../utils/releaseTime';
 import type {
+  DailyPuzzleOptions,
   IPuzzleStorage,
   StoredPuzzle,
   PuzzleInput,
+  PuzzleCreateInput,
   PuzzleListFilters,
   PuzzleListResult,
   PuzzleUpdate,
@@ -25,6 +29,8 @@ type DbPuzzleRow = Database['public']['Tables']['puzzles']['Row'] & {
 };
 type DbPuzzleInsert = Database['public']['Tables']['puzzles']['Insert'];
 type DbGroupRow = Database['public']['Tables']['connection_groups']['Row'];
+type DbReleaseSettingsRow = Database['public']['Tables']['puzzle_release_settings']['Row'];
+type DbCreatePuzzleArgs = Database['public']['Functions']['create_puzzle']['Args'];
 
 /**
  * SupabaseStorage implementation.
@@ -51,6 +57,7 @@ export class SupabaseStorage implements IPuzzleStorage {
       metadata: row.metadata as Record<string, unknown> | undefined,
       genre: ((row as { genre?: string }).genre || 'films') as Genre,
       source: ((row as { source?: string }).source || 'system') as 'system' | 'user',
+      publishAt: row.publish_at ? new Date(row.publish_at).getTime() : null,
     };
   }
 
@@ -67,6 +74,36 @@ export class SupabaseStorage implements IPuzzleStorage {
     };
   }
 
+  /**
+   * Assemble a published puzzle row into a SavedPuzzle for play
+   */
+  private async assembleSavedPuzzle(row: DbPuzzleRow): Promise<SavedPuzzle> {
+    // Use snapshot if available (published puzzles), otherwise fetch from connection_groups
+    // The snapshot makes the puzzle self-contained for anonymous users
+    const groups: Group[] = row.groups
+      ? (row.groups as unknown as Group[])
+      : await this.fetchGroupsByIds(row.group_ids);
+
+    // Extract all items from groups
+    const items = groups.flatMap((group) => group.items);
+
+    // Return assembled SavedPuzzle
+    return {
+      id: row.id,
+      groups,
+      items,
+      createdAt: new Date(row.created_at).getTime(),
+      metadata: row.metadata as Record<string, unknown> | undefined,
+    };
+  }
+
+  /**
+   * Convert release settings row to ReleaseSettings
+   */
+  private rowToReleaseSettings(row: DbReleaseSettingsRow): ReleaseSettings {
+    return { timeZone: row.time_zone, releaseHour: row.release_hour };
+  }
+
   /**
    * Fetch groups by IDs and return them in order
    */
@@ -114,6 +151,36 @@ export class SupabaseStorage implements IPuzzleStorage {
     return this.rowToStoredPuzzle(data);
   }
 
+  async createPuzzle(puzzle: PuzzleCreateInput): Promise<StoredPuzzle> {
+    // Use type assertion for RPC call since the function signature is custom
+    const { data, error } = await (
+      this.supabase.rpc as unknown as (
+        fn: string,
+        args: DbCreatePuzzleArgs
+      ) => Promise<{ data: DbPuzzleRow | null; error: { message: string } | null }>
+    )('create_puzzle', {
+      group_ids_param: puzzle.groupIds,
+      genre_param: puzzle.genre || 'films',
+      puzzle_date_param: puzzle.puzzleDate ?? null,
+      status_param: puzzle.status ?? 'pending',
+      title_param: puzzle.title ?? null,
+      metadata_param: (puzzle.metadata ?? null) as DbPuzzleInsert['metadata'],
+    });
+
+    if (error) {
+      throw new Error(`Failed to create puzzle: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Failed to create puzzle: no puzzle returned');
+    }
+
+    const created = this.rowToStoredPuzzle(data);
+    created.groups = await this.fetchGroupsByIds(created.groupIds);
+
+    return created;
+  }
+
   async getPuzzle(id: string): Promise<StoredPuzzle | null> {
     const { data, error } = await this.supabase
       .from('puzzles')
@@ -137,11 +204,17 @@ export class SupabaseStorage implements IPuzzleStorage {
     return puzzle;
   }
 
-  async getDailyPuzzle(date: string, genre: Genre = 'films'): Promise<SavedPuzzle | null> {
+  async getDailyPuzzle(
+    date: string | null,
+    genre: Genre = 'films',
+    options: DailyPuzzleOptions = {}
+  ): Promise<SavedPuzzle | null> {
+    const puzzleDate = date ?? resolvePuzzleDate(await this.getReleaseSettings(genre), options);
+
     let query = this.supabase
       .from('puzzles')
       .select()
-      .eq('puzzle_date', date)
+      .eq('puzzle_date', puzzleDate)
       .eq('status', 'published')
       .eq('genre', genre);
 
@@ -156,25 +229,52 @@ export class SupabaseStorage implements IPuzzleStorage {
     }
 
     // Cast to DbPuzzleRow for type safety
-    const row = data as DbPuzzleRow;
+    return this.assembleSavedPuzzle(data as DbPuzzleRow);
+  }
 
-    // Use snapshot if available (published puzzles), otherwise fetch from connection_groups
-    // The snapshot makes the puzzle self-contained for anonymous users
-    const groups: Group[] = row.groups
-      ? (row.groups as unknown as Group[])
-      : await this.fetchGroupsByIds(row.group_ids);
+  async getPublishedPuzzle(id: string): Promise<SavedPuzzle | null> {
+    const { data, error } = await this.supabase
+      .from('puzzles')
+      .select()
+      .eq('id', id)
+      .eq('status', 'published')
+      .maybeSingle();
 
-    // Extract all items from groups
-    const items = groups.flatMap((group) => group.items);
+    if (error) {
+      throw new Error(`Failed to get published puzzle: ${error.message}`);
+    }
 
-    // Return assembled SavedPuzzle
-    return {
-      id: row.id,
-      groups,
-      items,
-      createdAt: new Date(row.created_at).getTime(),
-      metadata: row.metadata as Record<string, unknown> | undefined,
-    };
+    return data ? this.assembleSavedPuzzle(data as DbPuzzleRow) : null;
+  }
+
+  async getReleaseSettings(genre: Genre): Promise<ReleaseSettings> {
+    const { data, error } = await this.supabase
+      .from('puzzle_release_settings')
+      .select()
+      .eq('genre', genre)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get release settings: ${error.message}`);
+    }
+
+    return data ? this.rowToReleaseSettings(data as DbReleaseSettingsRow) : { ...DEFAULT_RELEASE_SETTINGS };
+  }
+
+  async updateReleaseSettings(genre: Genre, settings: ReleaseSettings): Promise<ReleaseSettings> {
+    const { data, error } = await this.supabase
+      .from('puzzle_release_settings')
+      .upsert({ genre, time_zone: settings.timeZone, release_hour: settings.releaseHour } as never, {
+        onConflict: 'genre',
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update release settings: ${error.message}`);
+    }
+
+    return this.rowToReleaseSettings(data as DbReleaseSettingsRow);
   }
 
   async listPuzzles(filters?: PuzzleListFilters): Promise<PuzzleListResult> {
@@ -390,11 +490,62 @@ export class SupabaseStorage implements IPuzzleStorage {
   async batchUpdatePuzzles(
     updates: Array<{ id: string; updates: PuzzleUpdate }>
   ): Promise<void> {
-    // Process updates sequentially to maintain consistency
-    // Could be optimized with Promise.all for independent updates
+    if (updates.length === 0) {
+      return;
+    }
+
+    // Updates run one at a time because callers rely on their order (rescheduling
+    // parks a puzzle to free its date), so there is no transaction to roll back.
+    // Keep each puzzle's current values to undo the completed updates instead.
+    const ids = [...new Set(updates.map(({ id }) => id))];
+    const { data, error } = await this.supabase.from('puzzles').select().in('id', ids);
+
+    if (error) {
+      throw new Error(`Failed to get puzzles to update: ${error.message}`);
+    }
+
+    const current = new Map(
+      (data as DbPuzzleRow[]).map((row) => [row.id, this.rowToStoredPuzzle(row)])
+    );
+    const undo: Array<{ id: string; updates: PuzzleUpdate }> = [];
+
     for (const { id, updates: puzzleUpdates } of updates) {
-      await this.updatePuzzle(id, puzzleUpdates);
+      const before = current.get(id);
+      try {
+        current.set(id, await this.updatePuzzle(id, puzzleUpdates));
+      } catch (updateError) {
+        throw await this.undoBatchUpdates(undo, updateError);
+      }
+      if (before) {
+        undo.unshift({ id, updates: revertUpdate(before, puzzleUpdates) });
+      }
+    }
+  }
+
+  /**
+   * Undo completed batch updates, newest first, and describe the outcome
+   */
+  private async undoBatchUpdates(
+    undo: Array<{ id: string; updates: PuzzleUpdate }>,
+    cause: unknown
+  ): Promise<Error> {
+    const message = cause instanceof Error ? cause.message : 'Unknown error';
+    if (undo.length === 0) {
+      return new Error(message);
+    }
+
+    try {
+      for (const { id, updates } of undo) {
+        await this.updatePuzzle(id, updates);
+      }
+    } catch (undoError) {
+      return new Error(
+        `${message}. Undoing the ${undo.length} earlier update(s) also failed ` +
+          `(${undoError instanceof Error ? undoError.message : 'Unknown error'}), so some puzzles may have moved or been unscheduled`
+      );
     }
+
+    return new Error(`${message}. The ${undo.length} earlier update(s) were undone`);
   }
 
   async batchDeletePuzzles(ids: string[]): Promise<void> {
@@ -433,3 +584,26 @@ export class SupabaseStorage implements IPuzzleStorage {
     return usedIds;
   }
 }
+
+/**
+ * The update that puts back the fields another update changes
+ */
+function revertUpdate(puzzle: StoredPuzzle, updates: PuzzleUpdate): PuzzleUpdate {
+  const revert: PuzzleUpdate = {};
+  if (updates.status !== undefined) {
+    revert.status = puzzle.status;
+  }
+  if (updates.puzzleDate !== undefined) {
+    revert.puzzleDate = puzzle.puzzleDate;
+  }
+  if (updates.metadata !== undefined) {
+    revert.metadata = puzzle.metadata ?? {};
+  }
+  if (updates.groupIds !== undefined) {
+    revert.groupIds = puzzle.groupIds;
+  }
+  if (updates.title !== undefined) {
+    revert.title = puzzle.title;
+  }
+  return revert;
+}
@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SupabaseStorage } from '../SupabaseStorage';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../types';
+
+type DbPuzzleRow = Database['public']['Tables']['puzzles']['Row'];
+
+const createMockDbRow = (overrides: Partial<DbPuzzleRow> = {}): DbPuzzleRow => ({
+  id: 'puzzle-1',
+  created_at: '2024-01-01T00:00:00Z',
+  puzzle_date: '2024-12-10',
+  title: null,
+  group_ids: ['g1', 'g2', 'g3', 'g4'],
+  status: 'published',
+  metadata: null,
+  genre: 'films',
+  groups: null,
+  source: 'system',
+  publish_at: null,
+  ...overrides,
+});
+
+// Create mock Supabase client
+const createMockSupabase = () => {
+  const mockSelect = vi.fn();
+  const mockIn = vi.fn();
+
+  const chainableMock = {
+    select: mockSelect,
+    in: mockIn,
+  };
+
+  mockSelect.mockReturnValue(chainableMock);
+  mockIn.mockResolvedValue({ data: [], error: null });
+
+  const mockFrom = vi.fn().mockReturnValue(chainableMock);
+  const mockRpc = vi.fn();
+
+  return {
+    from: mockFrom,
+    rpc: mockRpc,
+    _mocks: {
+      from: mockFrom,
+      rpc: mockRpc,
+      ...chainableMock,
+    },
+  } as unknown as SupabaseClient<Database> & {
+    _mocks: Record<string, ReturnType<typeof vi.fn>>;
+  };
+};
+
+describe('SupabaseStorage', () => {
+  let storage: SupabaseStorage;
+  let mockSupabase: ReturnType<typeof createMockSupabase>;
+
+  beforeEach(() => {
+    mockSupabase = createMockSupabase();
+    storage = new SupabaseStorage(mockSupabase);
+  });
+
+  describe('createPuzzle', () => {
+    it('should create the puzzle through a single RPC call', async () => {
+      mockSupabase._mocks.rpc.mockResolvedValueOnce({ data: createMockDbRow(), error: null });
+
+      const puzzle = await storage.createPuzzle({
+        groupIds: ['g1', 'g2', 'g3', 'g4'],
+        genre: 'films',
+        puzzleDate: '2024-12-10',
+        status: 'published',
+      });
+
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('create_puzzle', {
+        group_ids_param: ['g1', 'g2', 'g3', 'g4'],
+        genre_param: 'films',
+        puzzle_date_param: '2024-12-10',
+        status_param: 'published',
+        title_param: null,
+        metadata_param: null,
+      });
+      expect(puzzle.id).toBe('puzzle-1');
+      expect(puzzle.puzzleDate).toBe('2024-12-10');
+      expect(puzzle.status).toBe('published');
+    });
+
+    it('should default to an unscheduled pending puzzle', async () => {
+      mockSupabase._mocks.rpc.mockResolvedValueOnce({
+        data: createMockDbRow({ puzzle_date: null, status: 'pending', title: 'My puzzle' }),
+        error: null,
+      });
+
+      await storage.createPuzzle({ groupIds: ['g1', 'g2', 'g3', 'g4'], title: 'My puzzle' });
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith(
+        'create_puzzle',
+        expect.objectContaining({
+          genre_param: 'films',
+          puzzle_date_param: null,
+          status_param: 'pending',
+          title_param: 'My puzzle',
+        })
+      );
+    });
+
+    it('should surface the database error', async () => {
+      mockSupabase._mocks.rpc.mockResolvedValueOnce({
+        data: null,
+        error: { message: 'duplicate puzzle date: 2024-12-10 already has a films puzzle' },
+      });
+
+      await expect(
+        storage.createPuzzle({ groupIds: ['g1', 'g2', 'g3', 'g4'], puzzleDate: '2024-12-10' })
+      ).rejects.toThrow('Failed to create puzzle: duplicate puzzle date: 2024-12-10 already has a films puzzle');
+    });
+  });
+
+  describe('getDailyPuzzle', () => {
+    let mockEq: ReturnType<typeof vi.fn>;
+    let mockMaybeSingle: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      mockEq = vi.fn();
+      mockMaybeSingle = vi.fn();
+      const chain = { select: vi.fn(), eq: mockEq, maybeSingle: mockMaybeSingle };
+      chain.select.mockReturnValue(chain);
+      mockEq.mockReturnValue(chain);
+      mockSupabase._mocks.from.mockReturnValue(chain);
+
+      mockMaybeSingle.mockImplementation(async () => {
+        const table = mockSupabase._mocks.from.mock.lastCall?.[0];
+        return table === 'puzzle_release_settings'
+          ? { data: { genre: 'films', updated_at: '', time_zone: 'America/New_York', release_hour: 0 }, error: null }
+          : { data: createMockDbRow({ groups: [] }), error: null };
+      });
+    });
+
+    it('should load the puzzle of the given date', async () => {
+      const puzzle = await storage.getDailyPuzzle('2024-12-10', 'films');
+
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('puzzle_release_settings');
+      expect(mockEq).toHaveBeenCalledWith('puzzle_date', '2024-12-10');
+      expect(puzzle?.id).toBe('puzzle-1');
+    });
+
+    it("should resolve today from the caller's time zone and the genre's release time", async () => {
+      // 23:00 in Los Angeles on December 9, already December 10 in New York
+      const now = new Date('2024-12-10T07:00:00Z');
+
+      await storage.getDailyPuzzle(null, 'films', { timeZone: 'America/Los_Angeles', now });
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('puzzle_release_settings');
+      expect(mockEq).toHaveBeenCalledWith('puzzle_date', '2024-12-09');
+    });
+  });
+
+  describe('release settings', () => {
+    it('should fall back to UTC midnight for a genre without settings', async () => {
+      const chain = { select: vi.fn(), eq: vi.fn(), maybeSingle: vi.fn() };
+      chain.select.mockReturnValue(chain);
+      chain.eq.mockReturnValue(chain);
+      chain.maybeSingle.mockResolvedValue({ data: null, error: null });
+      mockSupabase._mocks.from.mockReturnValue(chain);
+
+      expect(await storage.getReleaseSettings('books')).toEqual({ timeZone: 'UTC', releaseHour: 0 });
+      expect(chain.eq).toHaveBeenCalledWith('genre', 'books');
+    });
+
+    it('should upsert the settings of a genre', async () => {
+      const chain = { upsert: vi.fn(), select: vi.fn(), single: vi.fn() };
+      chain.upsert.mockReturnValue(chain);
+      chain.select.mockReturnValue(chain);
+      chain.single.mockResolvedValue({
+        data: { genre: 'music', updated_at: '', time_zone: 'Europe/London', release_hour: 6 },
+        error: null,
+      });
+      mockSupabase._mocks.from.mockReturnValue(chain);
+
+      const settings = await storage.updateReleaseSettings('music', { timeZone: 'Europe/London', releaseHour: 6 });
+
+      expect(chain.upsert).toHaveBeenCalledWith(
+        { genre: 'music', time_zone: 'Europe/London', release_hour: 6 },
+        { onConflict: 'genre' }
+      );
+      expect(settings).toEqual({ timeZone: 'Europe/London', releaseHour: 6 });
+    });
+
+    it('should surface the database error', async () => {
+      const chain = { upsert: vi.fn(), select: vi.fn(), single: vi.fn() };
+      chain.upsert.mockReturnValue(chain);
+      chain.select.mockReturnValue(chain);
+      chain.single.mockResolvedValue({ data: null, error: { message: 'time zone "Mars/Olympus" not recognized' } });
+      mockSupabase._mocks.from.mockReturnValue(chain);
+
+      await expect(
+        storage.updateReleaseSettings('music', { timeZone: 'Mars/Olympus', releaseHour: 0 })
+      ).rejects.toThrow('Failed to update release settings: time zone "Mars/Olympus" not recognized');
+    });
+  });
+
+  describe('batchUpdatePuzzles', () => {
+    // A swap of 2024-12-10 and 2024-12-11: park puzzle-1, move puzzle-2, put puzzle-1 back
+    const swapUpdates = [
+      { id: 'puzzle-1', updates: { puzzleDate: null, status: 'approved' as const } },
+      { id: 'puzzle-2', updates: { puzzleDate: '2024-12-10' } },
+      { id: 'puzzle-1', updates: { puzzleDate: '2024-12-11', status: 'published' as const } },
+    ];
+
+    beforeEach(() => {
+      mockSupabase._mocks.in.mockResolvedValue({
+        data: [createMockDbRow(), createMockDbRow({ id: 'puzzle-2', puzzle_date: '2024-12-11' })],
+        error: null,
+      });
+    });
+
+    it('should run every update in order', async () => {
+      const updateSpy = vi.spyOn(storage, 'updatePuzzle').mockResolvedValue({} as never);
+
+      await storage.batchUpdatePuzzles(swapUpdates);
+
+      expect(mockSupabase._mocks.in).toHaveBeenCalledWith('id', ['puzzle-1', 'puzzle-2']);
+      expect(updateSpy.mock.calls).toEqual(swapUpdates.map(({ id, updates }) => [id, updates]));
+    });
+
+    it('should undo the completed updates, newest first, when one fails', async () => {
+      const updateSpy = vi
+        .spyOn(storage, 'updatePuzzle')
+        .mockResolvedValueOnce({} as never)
+        .mockResolvedValueOnce({} as never)
+        .mockRejectedValueOnce(new Error('Failed to update puzzle: network error'))
+        .mockResolvedValue({} as never);
+
+      await expect(storage.batchUpdatePuzzles(swapUpdates)).rejects.toThrow(
+        'Failed to update puzzle: network error. The 2 earlier update(s) were undone'
+      );
+
+      expect(updateSpy.mock.calls.slice(3)).toEqual([
+        ['puzzle-2', { puzzleDate: '2024-12-11' }],
+        ['puzzle-1', { puzzleDate: '2024-12-10', status: 'published' }],
+      ]);
+    });
+
+    it('should say so when the undo fails too', async () => {
+      vi.spyOn(storage, 'updatePuzzle')
+        .mockResolvedValueOnce({} as never)
+        .mockRejectedValueOnce(new Error('Failed to update puzzle: network error'))
+        .mockRejectedValue(new Error('Failed to update puzzle: offline'));
+
+      await expect(storage.batchUpdatePuzzles(swapUpdates)).rejects.toThrow(
+        'Failed to update puzzle: network error. Undoing the 1 earlier update(s) also failed ' +
+          '(Failed to update puzzle: offline), so some puzzles may have moved or been unscheduled'
+      );
+    });
+
+    it('should not update anything when the current puzzles cannot be read', async () => {
+      mockSupabase._mocks.in.mockResolvedValue({ data: null, error: { message: 'timeout' } });
+      const updateSpy = vi.spyOn(storage, 'updatePuzzle');
+
+      await expect(storage.batchUpdatePuzzles(swapUpdates)).rejects.toThrow(
+        'Failed to get puzzles to update: timeout'
+      );
+      expect(updateSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -17,10 +17,12 @@ import type {
   IPuzzleStorage,
   StoredPuzzle,
   PuzzleInput,
+  PuzzleCreateInput,
   PuzzleListFilters,
   PuzzleListResult,
   PuzzleUpdate,
 } from './IPuzzleStorage';
+import { groupKeys } from './useGroupStorage';
 
 /**
  * Query keys for puzzle operations.
@@ -125,6 +127,35 @@ export function useSavePuzzle(
   });
 }
 
+/**
+ * Hook for creating a puzzle atomically (insert, optional schedule, usage counts).
+ * Used by admin puzzle builder.
+ *
+ * @param storage - Storage implementation
+ * @param options - Mutation options
+ */
+export function useCreatePuzzle(
+  storage: IPuzzleStorage,
+  options?: UseMutationOptions<StoredPuzzle, Error, PuzzleCreateInput>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (puzzle: PuzzleCreateInput) => storage.createPuzzle(puzzle),
+    onSuccess: (data) => {
+      // Invalidate list queries to refetch
+      queryClient.invalidateQueries({ queryKey: puzzleKeys.lists() });
+
+      // Set the puzzle in cache
+      queryClient.setQueryData(puzzleKeys.detail(data.id), data);
+
+      // Usage counts of the puzzle's groups changed
+      queryClient.invalidateQueries({ queryKey: groupKeys.all });
+    },
+    ...options,
+  });
+}
+
 /**
  * Hook for updating a puzzle.
  * Used by admin approval workflow and date assignment.
@@ -250,8 +281,8 @@ export function useBatchUpdatePuzzles(
 
   return useMutation({
     mutationFn: (updates) => storage.batchUpdatePuzzles(updates),
-    onSuccess: () => {
-      // Invalidate all puzzle queries to refetch
+    onSettled: () => {
+      // Invalidate all puzzle queries to refetch (a failed batch may not have been fully undone)
       queryClient.invalidateQueries({ queryKey: puzzleKeys.all });
     },
     ...options,
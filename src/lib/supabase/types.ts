@@ -66,6 +66,7 @@ export interface Database {
           genre: string;
           groups: Json | null;
           source: 'system' | 'user';
+          publish_at: string | null;
         };
         Insert: {
           id?: string;
@@ -78,6 +79,7 @@ export interface Database {
           genre?: string;
           groups?: Json | null;
           source?: 'system' | 'user';
+          publish_at?: string | null;
         };
         Update: {
           id?: string;
@@ -90,6 +92,27 @@ export interface Database {
           genre?: string;
           groups?: Json | null;
           source?: 'system' | 'user';
+          publish_at?: string | null;
+        };
+      };
+      puzzle_release_settings: {
+        Row: {
+          genre: string;
+          updated_at: string;
+          time_zone: string;
+          release_hour: number;
+        };
+        Insert: {
+          genre: string;
+          updated_at?: string;
+          time_zone?: string;
+          release_hour?: number;
+        };
+        Update: {
+          genre?: string;
+          updated_at?: string;
+          time_zone?: string;
+          release_hour?: number;
         };
       };
       user_stats: {
@@ -260,6 +283,50 @@ export interface Database {
           generation_filters?: Json | null;
         };
       };
+      generation_ledger: {
+        Row: {
+          id: string;
+          created_at: string;
+          genre: string;
+          target_difficulty: string | null;
+          requested_count: number;
+          returned_count: number;
+          dropped_count: number;
+          input_tokens: number;
+          output_tokens: number;
+          model: string;
+          provider: string;
+          caller: 'generator-page' | 'fill-now' | 'cron' | 'cli';
+        };
+        Insert: {
+          id?: string;
+          created_at?: string;
+          genre: string;
+          target_difficulty?: string | null;
+          requested_count: number;
+          returned_count: number;
+          dropped_count?: number;
+          input_tokens?: number;
+          output_tokens?: number;
+          model: string;
+          provider: string;
+          caller: 'generator-page' | 'fill-now' | 'cron' | 'cli';
+        };
+        Update: {
+          id?: string;
+          created_at?: string;
+          genre?: string;
+          target_difficulty?: string | null;
+          requested_count?: number;
+          returned_count?: number;
+          dropped_count?: number;
+          input_tokens?: number;
+          output_tokens?: number;
+          model?: string;
+          provider?: string;
+          caller?: 'generator-page' | 'fill-now' | 'cron' | 'cli';
+        };
+      };
     };
     Views: {
       [_ in never]: never;
@@ -269,6 +336,17 @@ export interface Database {
         Args: { group_ids: string[] };
         Returns: void;
       };
+      create_puzzle: {
+        Args: {
+          group_ids_param: string[];
+          genre_param?: string;
+          puzzle_date_param?: string | null;
+          status_param?: 'pending' | 'approved' | 'published' | 'rejected';
+          title_param?: string | null;
+          metadata_param?: Json | null;
+        };
+        Returns: Database['public']['Tables']['puzzles']['Row'];
+      };
     };
     Enums: {
       puzzle_status: 'pending' | 'approved' | 'published' | 'rejected';
@@ -6,16 +6,15 @@
  */
 
 import type { IStatsStorage, UserStats, GameResult } from '../types/stats';
-import { getTodayDate } from '../utils/index';
 
 const STORAGE_KEY = 'puzzlecules-stats';
 
 /**
- * Get the date for yesterday in YYYY-MM-DD format
+ * Get the day before a date in YYYY-MM-DD format
  */
-function getYesterdayDate(): string {
-  const now = new Date();
-  const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+function getPreviousDate(date: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  const yesterday = new Date(Date.UTC(y, m - 1, d - 1));
   const year = yesterday.getUTCFullYear();
   const month = String(yesterday.getUTCMonth() + 1).padStart(2, '0');
   const day = String(yesterday.getUTCDate()).padStart(2, '0');
@@ -40,15 +39,20 @@ function getDefaultStats(): UserStats {
 /**
  * Calculate streak based on last played date, current streak, and whether user won
  * Streak only continues/increments on wins. Losses reset the streak to 0.
+ * Days are puzzle dates, so streaks follow the puzzle rollover rather than UTC.
  */
-function calculateStreak(lastPlayedDate: string | null, currentStreak: number, won: boolean): number {
+function calculateStreak(
+  lastPlayedDate: string | null,
+  currentStreak: number,
+  won: boolean,
+  today: string
+): number {
   // If user lost, streak is broken
   if (!won) {
     return 0;
   }
 
-  const today = getTodayDate();
-  const yesterday = getYesterdayDate();
+  const yesterday = getPreviousDate(today);
 
   // First game ever (and won)
   if (!lastPlayedDate) {
@@ -100,7 +104,8 @@ export class LocalStatsStorage implements IStatsStorage {
   async recordCompletion(result: GameResult): Promise<UserStats> {
     try {
       const stats = await this.getStats();
-      const today = getTodayDate();
+      // The date of the puzzle played, resolved from the player's zone and the release time
+      const today = result.date;
 
       // Don't record duplicate games for the same day
       const alreadyPlayedToday = stats.gameHistory.some((game) => game.date === today);
@@ -115,7 +120,7 @@ export class LocalStatsStorage implements IStatsStorage {
       const newWinRate = Math.round((newGamesWon / newGamesPlayed) * 100);
 
       // Calculate new streak (only continues on wins)
-      const newCurrentStreak = calculateStreak(stats.lastPlayedDate, stats.currentStreak, result.won);
+      const newCurrentStreak = calculateStreak(stats.lastPlayedDate, stats.currentStreak, result.won, today);
       const newMaxStreak = Math.max(stats.maxStreak, newCurrentStreak);
 
       // Add to history
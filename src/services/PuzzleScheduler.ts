@@ -7,8 +7,9 @@
 
 import type { IPuzzleStorage } from '../lib/supabase/storage';
 import type { IStatsStorage } from '../types/stats';
-import type { SavedPuzzle } from '../types';
+import { DEFAULT_GENRE, type SavedPuzzle } from '../types';
 import { getTodayDate } from '../utils/index';
+import { resolvePuzzleDate } from '../utils/releaseTime';
 
 /**
  * PuzzleScheduler
@@ -23,10 +24,11 @@ export class PuzzleScheduler {
 
   /**
    * Get today's puzzle
+   *
+   * @param timeZone - The player's IANA time zone (defaults to the genre's release zone)
    */
-  async getTodaysPuzzle(): Promise<SavedPuzzle | null> {
-    const today = getTodayDate();
-    return this.storage.getDailyPuzzle(today);
+  async getTodaysPuzzle(timeZone?: string): Promise<SavedPuzzle | null> {
+    return this.storage.getDailyPuzzle(null, DEFAULT_GENRE, { timeZone });
   }
 
   /**
@@ -38,9 +40,12 @@ export class PuzzleScheduler {
 
   /**
    * Check if user has completed today's puzzle
+   *
+   * @param timeZone - The player's IANA time zone (defaults to the genre's release zone)
    */
-  async hasUserCompletedToday(): Promise<boolean> {
-    const today = getTodayDate();
+  async hasUserCompletedToday(timeZone?: string): Promise<boolean> {
+    const settings = await this.storage.getReleaseSettings(DEFAULT_GENRE);
+    const today = resolvePuzzleDate(settings, { timeZone });
     const userStats = await this.stats.getStats();
 
     // Check if user has any game history
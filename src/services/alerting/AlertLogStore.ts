@@ -0,0 +1,71 @@
+/**
+ * Alert Log Store
+ *
+ * Remembers in Supabase when each alert key was last sent. Repeats of a
+ * key are counted by the record_alert_sent function.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Alert, IAlertLog } from './types';
+
+/** Arguments of the record_alert_sent function */
+interface RecordAlertSentArgs {
+  key_param: string;
+  rule_param: string;
+  severity_param: string;
+  genre_param: string;
+  title_param: string;
+  message_param: string;
+  sent_at_param: string;
+}
+
+export class AlertLogStore implements IAlertLog {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  /**
+   * When the key was last sent, or null if never
+   */
+  async getLastSent(key: string): Promise<Date | null> {
+    const { data, error } = await this.supabase
+      .from('alert_log')
+      .select('last_sent_at')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read alert log: ${error.message}`);
+    }
+
+    const row = data as { last_sent_at: string } | null;
+    return row ? new Date(row.last_sent_at) : null;
+  }
+
+  /**
+   * Record that the alert was sent
+   */
+  async recordSent(alert: Alert, sentAt: Date): Promise<void> {
+    // Use type assertion for RPC call since the function signature is custom
+    const { error } = await (
+      this.supabase.rpc as unknown as (
+        fn: string,
+        args: RecordAlertSentArgs
+      ) => Promise<{ error: { message: string } | null }>
+    )('record_alert_sent', {
+      key_param: alert.key,
+      rule_param: alert.rule,
+      severity_param: alert.severity,
+      genre_param: alert.genre,
+      title_param: alert.title,
+      message_param: alert.message,
+      sent_at_param: sentAt.toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to record sent alert: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Alert Service
+ *
+ * Evaluates the alert rules and sends each alert to every notifier.
+ * An alert whose key was sent within the cooldown is suppressed, so a
+ * condition that persists across fills is reported once a day rather than
+ * on every run. Without an alert log, alerts are only deduplicated within
+ * this process.
+ */
+
+import type {
+  Alert,
+  AlertCheckInput,
+  AlertDispatchResult,
+  AlertThresholds,
+  IAlerter,
+  IAlertLog,
+  INotifier,
+} from './types';
+import { DEFAULT_ALERT_THRESHOLDS } from './types';
+import { evaluateAlertRules } from './alertRules';
+
+/** How long an alert is not sent again for */
+export const DEFAULT_ALERT_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+export interface AlertServiceOptions {
+  thresholds?: Partial<AlertThresholds>;
+  cooldownMs?: number;
+}
+
+export class AlertService implements IAlerter {
+  private thresholds: AlertThresholds;
+  private cooldownMs: number;
+  /** Keys sent by this process, for deduplication without (or besides) the alert log */
+  private sentAt = new Map<string, Date>();
+
+  constructor(
+    private notifiers: INotifier[],
+    private alertLog: IAlertLog | null = null,
+    options: AlertServiceOptions = {}
+  ) {
+    this.thresholds = { ...DEFAULT_ALERT_THRESHOLDS, ...options.thresholds };
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_ALERT_COOLDOWN_MS;
+  }
+
+  /**
+   * Evaluate a genre's alert rules and send the alerts
+   */
+  async check(input: AlertCheckInput): Promise<AlertDispatchResult> {
+    return this.dispatch(evaluateAlertRules(input, this.thresholds));
+  }
+
+  /**
+   * Send alerts that were not sent within the cooldown.
+   * A notifier failure is reported in the result and never stops the others.
+   */
+  async dispatch(alerts: Alert[], now: Date = new Date()): Promise<AlertDispatchResult> {
+    const result: AlertDispatchResult = { sent: [], suppressed: [], failures: [] };
+
+    for (const alert of alerts) {
+      if (await this.wasSentRecently(alert.key, now)) {
+        result.suppressed.push(alert);
+        continue;
+      }
+
+      let delivered = false;
+      for (const notifier of this.notifiers) {
+        try {
+          await notifier.send(alert);
+          delivered = true;
+        } catch (error) {
+          result.failures.push({
+            key: alert.key,
+            notifier: notifier.name,
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      // Undelivered alerts are tried again on the next check
+      if (delivered) {
+        result.sent.push(alert);
+        await this.recordSent(alert, now);
+      }
+    }
+
+    return result;
+  }
+
+  private async wasSentRecently(key: string, now: Date): Promise<boolean> {
+    let lastSent = this.sentAt.get(key) ?? null;
+
+    if (!lastSent && this.alertLog) {
+      try {
+        lastSent = await this.alertLog.getLastSent(key);
+      } catch (error) {
+        // Sending a duplicate beats missing an alert
+        console.error('Failed to read alert log:', error);
+      }
+    }
+
+    return lastSent !== null && now.getTime() - lastSent.getTime() < this.cooldownMs;
+  }
+
+  private async recordSent(alert: Alert, now: Date): Promise<void> {
+    this.sentAt.set(alert.key, now);
+
+    if (!this.alertLog) {
+      return;
+    }
+
+    try {
+      await this.alertLog.recordSent(alert, now);
+    } catch (error) {
+      console.error('Failed to record sent alert:', error);
+    }
+  }
+}
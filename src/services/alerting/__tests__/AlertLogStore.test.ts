@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AlertLogStore } from '../AlertLogStore';
+import type { Alert } from '../types';
+
+// Create mock functions
+const mockRpc = vi.fn();
+const mockSelect = vi.fn();
+const mockEq = vi.fn();
+const mockMaybeSingle = vi.fn();
+const mockFrom = vi.fn();
+
+// Create mock Supabase client
+const mockSupabase = {
+  from: mockFrom,
+  rpc: mockRpc,
+} as unknown as SupabaseClient;
+
+const alert: Alert = {
+  rule: 'pool-low',
+  severity: 'critical',
+  genre: 'books',
+  key: 'pool-low:books:purple:critical',
+  title: 'books: group pool low for purple',
+  message: 'purple: 2 unused',
+  details: {},
+};
+
+describe('AlertLogStore', () => {
+  let store: AlertLogStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = new AlertLogStore(mockSupabase);
+
+    mockFrom.mockReturnValue({ select: mockSelect });
+    mockSelect.mockReturnValue({ eq: mockEq });
+    mockEq.mockReturnValue({ maybeSingle: mockMaybeSingle });
+  });
+
+  describe('getLastSent', () => {
+    it('should return when the key was last sent', async () => {
+      mockMaybeSingle.mockResolvedValue({ data: { last_sent_at: '2025-03-10T06:00:00Z' }, error: null });
+
+      const lastSent = await store.getLastSent(alert.key);
+
+      expect(mockFrom).toHaveBeenCalledWith('alert_log');
+      expect(mockEq).toHaveBeenCalledWith('key', alert.key);
+      expect(lastSent).toEqual(new Date('2025-03-10T06:00:00Z'));
+    });
+
+    it('should return null for a key never sent', async () => {
+      mockMaybeSingle.mockResolvedValue({ data: null, error: null });
+
+      expect(await store.getLastSent(alert.key)).toBeNull();
+    });
+
+    it('should throw on error', async () => {
+      mockMaybeSingle.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+
+      await expect(store.getLastSent(alert.key)).rejects.toThrow(
+        'Failed to read alert log: permission denied'
+      );
+    });
+  });
+
+  describe('recordSent', () => {
+    it('should call record_alert_sent', async () => {
+      mockRpc.mockResolvedValue({ error: null });
+
+      await store.recordSent(alert, new Date('2025-03-10T06:00:00Z'));
+
+      expect(mockRpc).toHaveBeenCalledWith('record_alert_sent', {
+        key_param: alert.key,
+        rule_param: 'pool-low',
+        severity_param: 'critical',
+        genre_param: 'books',
+        title_param: alert.title,
+        message_param: alert.message,
+        sent_at_param: '2025-03-10T06:00:00.000Z',
+      });
+    });
+
+    it('should throw when the function fails', async () => {
+      mockRpc.mockResolvedValue({ error: { message: 'timeout' } });
+
+      await expect(store.recordSent(alert, new Date())).rejects.toThrow(
+        'Failed to record sent alert: timeout'
+      );
+    });
+  });
+});
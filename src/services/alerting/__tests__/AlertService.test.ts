@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AlertService, DEFAULT_ALERT_COOLDOWN_MS } from '../AlertService';
+import type { Alert, IAlertLog, INotifier } from '../types';
+
+const createAlert = (key: string): Alert => ({
+  rule: 'calendar-gap',
+  severity: 'warning',
+  genre: 'films',
+  key,
+  title: 'films: no puzzle scheduled in 4 days',
+  message: 'The first empty day is 2025-03-14',
+  details: {},
+});
+
+const createNotifier = (name: string): INotifier & { send: ReturnType<typeof vi.fn> } => ({
+  name,
+  send: vi.fn().mockResolvedValue(undefined),
+});
+
+const createAlertLog = () => ({
+  getLastSent: vi.fn<IAlertLog['getLastSent']>().mockResolvedValue(null),
+  recordSent: vi.fn<IAlertLog['recordSent']>().mockResolvedValue(undefined),
+});
+
+describe('AlertService', () => {
+  const now = new Date('2025-03-10T06:00:00Z');
+  let webhook: ReturnType<typeof createNotifier>;
+  let email: ReturnType<typeof createNotifier>;
+  let alertLog: ReturnType<typeof createAlertLog>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    webhook = createNotifier('webhook');
+    email = createNotifier('email');
+    alertLog = createAlertLog();
+  });
+
+  describe('dispatch', () => {
+    it('should send every alert to every notifier and record it', async () => {
+      const service = new AlertService([webhook, email], alertLog);
+      const alert = createAlert('a');
+
+      const result = await service.dispatch([alert], now);
+
+      expect(webhook.send).toHaveBeenCalledWith(alert);
+      expect(email.send).toHaveBeenCalledWith(alert);
+      expect(alertLog.recordSent).toHaveBeenCalledWith(alert, now);
+      expect(result).toEqual({ sent: [alert], suppressed: [], failures: [] });
+    });
+
+    it('should suppress alerts the log sent within the cooldown', async () => {
+      alertLog.getLastSent.mockResolvedValue(new Date(now.getTime() - 60 * 60 * 1000));
+      const service = new AlertService([webhook], alertLog);
+
+      const result = await service.dispatch([createAlert('a')], now);
+
+      expect(webhook.send).not.toHaveBeenCalled();
+      expect(alertLog.recordSent).not.toHaveBeenCalled();
+      expect(result.suppressed.map((alert) => alert.key)).toEqual(['a']);
+    });
+
+    it('should send again once the cooldown has passed', async () => {
+      alertLog.getLastSent.mockResolvedValue(new Date(now.getTime() - DEFAULT_ALERT_COOLDOWN_MS));
+      const service = new AlertService([webhook], alertLog);
+
+      const result = await service.dispatch([createAlert('a')], now);
+
+      expect(result.sent).toHaveLength(1);
+    });
+
+    it('should honour a custom cooldown', async () => {
+      alertLog.getLastSent.mockResolvedValue(new Date(now.getTime() - 2 * 60 * 60 * 1000));
+      const service = new AlertService([webhook], alertLog, { cooldownMs: 60 * 60 * 1000 });
+
+      const result = await service.dispatch([createAlert('a')], now);
+
+      expect(result.sent).toHaveLength(1);
+    });
+
+    it('should deduplicate within the process without an alert log', async () => {
+      const service = new AlertService([webhook]);
+
+      await service.dispatch([createAlert('a')], now);
+      const result = await service.dispatch([createAlert('a'), createAlert('b')], now);
+
+      expect(webhook.send).toHaveBeenCalledTimes(2);
+      expect(result.sent.map((alert) => alert.key)).toEqual(['b']);
+      expect(result.suppressed.map((alert) => alert.key)).toEqual(['a']);
+    });
+
+    it('should report a failing notifier and still send to the others', async () => {
+      webhook.send.mockRejectedValue(new Error('Webhook responded with 500'));
+      const service = new AlertService([webhook, email], alertLog);
+
+      const result = await service.dispatch([createAlert('a')], now);
+
+      expect(email.send).toHaveBeenCalled();
+      expect(result.sent).toHaveLength(1);
+      expect(result.failures).toEqual([
+        { key: 'a', notifier: 'webhook', message: 'Webhook responded with 500' },
+      ]);
+    });
+
+    it('should not record alerts no notifier delivered', async () => {
+      webhook.send.mockRejectedValue(new Error('offline'));
+      const service = new AlertService([webhook], alertLog);
+
+      const result = await service.dispatch([createAlert('a')], now);
+
+      expect(result.sent).toEqual([]);
+      expect(result.failures).toHaveLength(1);
+      expect(alertLog.recordSent).not.toHaveBeenCalled();
+
+      // Tried again on the next check
+      webhook.send.mockResolvedValue(undefined);
+      expect((await service.dispatch([createAlert('a')], now)).sent).toHaveLength(1);
+    });
+
+    it('should send when the alert log cannot be read', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      alertLog.getLastSent.mockRejectedValue(new Error('Failed to read alert log: timeout'));
+      const service = new AlertService([webhook], alertLog);
+
+      const result = await service.dispatch([createAlert('a')], now);
+
+      expect(result.sent).toHaveLength(1);
+      consoleSpy.mockRestore();
+    });
+
+    it('should not fail when recording a sent alert fails', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      alertLog.recordSent.mockRejectedValue(new Error('Failed to record sent alert: timeout'));
+      const service = new AlertService([webhook], alertLog);
+
+      const result = await service.dispatch([createAlert('a')], now);
+
+      expect(result.sent).toHaveLength(1);
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('check', () => {
+    it('should evaluate the rules with the configured thresholds', async () => {
+      const service = new AlertService([webhook], null, { thresholds: { gapWarningDays: 30 } });
+      const reserve = { unused: 50, neededForWindow: 0, spare: 50, target: 10 };
+
+      const result = await service.check({
+        genre: 'music',
+        today: '2025-03-10',
+        emptyDates: ['2025-03-30'],
+        poolReserve: { yellow: reserve, green: reserve, blue: reserve, purple: reserve },
+        forecast: null,
+        latestCronRun: null,
+      });
+
+      expect(result.sent.map((alert) => alert.key)).toEqual(['calendar-gap:music:2025-03-30:warning']);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkCalendarGap,
+  checkFailedCronRun,
+  checkPoolForecast,
+  checkPoolLow,
+  evaluateAlertRules,
+} from '../alertRules';
+import { DEFAULT_ALERT_THRESHOLDS, type AlertCheckInput } from '../types';
+import type { ColorForecast, ColorReserve, PoolForecast, PoolReserve } from '../../pipeline/types';
+
+const reserve = (unused: number, neededForWindow = 0, target = 10): ColorReserve => ({
+  unused,
+  neededForWindow,
+  spare: unused - neededForWindow,
+  target,
+});
+
+const healthyPool = (): PoolReserve => ({
+  yellow: reserve(50),
+  green: reserve(50),
+  blue: reserve(50),
+  purple: reserve(50),
+});
+
+const colorForecast = (daysUntilDry: number | null, unused = 20): ColorForecast => ({
+  unused,
+  usedPerDay: 1,
+  approvedPerDay: 0.5,
+  netBurnPerDay: 0.5,
+  daysUntilDry,
+  dryDate: null,
+});
+
+const createForecast = (days: Record<'yellow' | 'green' | 'blue' | 'purple', number | null>): PoolForecast => ({
+  genre: 'films',
+  today: '2025-03-10',
+  lookbackDays: 28,
+  puzzlesPerDay: 1,
+  colors: {
+    yellow: colorForecast(days.yellow),
+    green: colorForecast(days.green),
+    blue: colorForecast(days.blue),
+    purple: colorForecast(days.purple),
+  },
+  firstDryColor: null,
+  daysUntilGap: null,
+  gapDate: '2025-04-20',
+  series: [],
+});
+
+const createInput = (overrides: Partial<AlertCheckInput> = {}): AlertCheckInput => ({
+  genre: 'films',
+  today: '2025-03-10',
+  emptyDates: [],
+  poolReserve: healthyPool(),
+  forecast: null,
+  latestCronRun: null,
+  ...overrides,
+});
+
+describe('checkCalendarGap', () => {
+  it('should not alert when the window is full', () => {
+    expect(checkCalendarGap(createInput(), DEFAULT_ALERT_THRESHOLDS)).toBeNull();
+  });
+
+  it('should not alert when the first gap is beyond the warning threshold', () => {
+    const input = createInput({ emptyDates: ['2025-03-17', '2025-03-18'] });
+
+    expect(checkCalendarGap(input, DEFAULT_ALERT_THRESHOLDS)).toBeNull();
+  });
+
+  it('should warn about the earliest gap within the warning threshold', () => {
+    const input = createInput({ emptyDates: ['2025-03-20', '2025-03-14'] });
+
+    const alert = checkCalendarGap(input, DEFAULT_ALERT_THRESHOLDS);
+
+    expect(alert).toMatchObject({
+      rule: 'calendar-gap',
+      severity: 'warning',
+      genre: 'films',
+      key: 'calendar-gap:films:2025-03-14:warning',
+      title: 'films: no puzzle scheduled in 4 days',
+    });
+    expect(alert?.details).toMatchObject({ firstGap: '2025-03-14', daysUntilGap: 4, emptyDays: 2 });
+  });
+
+  it('should be critical when the gap is closer than the critical threshold', () => {
+    const alert = checkCalendarGap(
+      createInput({ emptyDates: ['2025-03-11'] }),
+      DEFAULT_ALERT_THRESHOLDS
+    );
+
+    expect(alert?.severity).toBe('critical');
+    expect(alert?.title).toBe('films: no puzzle scheduled tomorrow');
+    expect(alert?.key).toBe('calendar-gap:films:2025-03-11:critical');
+  });
+
+  it('should describe a gap today', () => {
+    const alert = checkCalendarGap(createInput({ emptyDates: ['2025-03-10'] }), DEFAULT_ALERT_THRESHOLDS);
+
+    expect(alert?.title).toBe('films: no puzzle scheduled today');
+  });
+
+  it('should use custom thresholds', () => {
+    const alert = checkCalendarGap(createInput({ emptyDates: ['2025-03-20'] }), {
+      ...DEFAULT_ALERT_THRESHOLDS,
+      gapWarningDays: 14,
+    });
+
+    expect(alert?.severity).toBe('warning');
+  });
+});
+
+describe('checkPoolLow', () => {
+  it('should not alert when every color covers the window and the target', () => {
+    expect(checkPoolLow(createInput(), DEFAULT_ALERT_THRESHOLDS)).toBeNull();
+  });
+
+  it('should warn about colors below the window needs plus the target', () => {
+    const input = createInput({
+      poolReserve: { ...healthyPool(), blue: reserve(12, 5), purple: reserve(8, 2) },
+    });
+
+    const alert = checkPoolLow(input, DEFAULT_ALERT_THRESHOLDS);
+
+    expect(alert).toMatchObject({
+      rule: 'pool-low',
+      severity: 'warning',
+      key: 'pool-low:films:blue,purple:warning',
+      title: 'films: group pool low for blue, purple',
+    });
+    expect(alert?.message).toContain('blue: 12 unused (alert below 15, 5 needed for the window)');
+  });
+
+  it('should be critical when a color cannot fill the window', () => {
+    const input = createInput({ poolReserve: { ...healthyPool(), yellow: reserve(3, 5) } });
+
+    expect(checkPoolLow(input, DEFAULT_ALERT_THRESHOLDS)?.severity).toBe('critical');
+  });
+
+  it('should use a fixed minimum when one is configured', () => {
+    const input = createInput({ poolReserve: { ...healthyPool(), green: reserve(40) } });
+    const thresholds = { ...DEFAULT_ALERT_THRESHOLDS, minUnusedGroupsPerColor: 45 };
+
+    expect(checkPoolLow(input, thresholds)?.key).toBe('pool-low:films:green:warning');
+  });
+});
+
+describe('checkPoolForecast', () => {
+  it('should not alert without a forecast or when nothing runs dry soon', () => {
+    expect(checkPoolForecast(createInput(), DEFAULT_ALERT_THRESHOLDS)).toBeNull();
+    expect(
+      checkPoolForecast(
+        createInput({ forecast: createForecast({ yellow: null, green: 40, blue: 21, purple: null }) }),
+        DEFAULT_ALERT_THRESHOLDS
+      )
+    ).toBeNull();
+  });
+
+  it('should warn about colors projected to run dry, soonest first', () => {
+    const alert = checkPoolForecast(
+      createInput({ forecast: createForecast({ yellow: null, green: 18.5, blue: null, purple: 12 }) }),
+      DEFAULT_ALERT_THRESHOLDS
+    );
+
+    expect(alert).toMatchObject({
+      rule: 'pool-forecast',
+      severity: 'warning',
+      key: 'pool-forecast:films:green,purple:warning',
+      title: 'films: purple runs dry in 12 days',
+    });
+    expect(alert?.message).toContain('purple runs dry in 12 days (20 unused, 1.0 used and 0.5 approved per day)');
+    expect(alert?.message).toContain('first has a gap on 2025-04-20');
+  });
+
+  it('should be critical when a color runs dry within the critical threshold', () => {
+    const alert = checkPoolForecast(
+      createInput({ forecast: createForecast({ yellow: 3, green: null, blue: null, purple: null }) }),
+      DEFAULT_ALERT_THRESHOLDS
+    );
+
+    expect(alert?.severity).toBe('critical');
+  });
+});
+
+describe('checkFailedCronRun', () => {
+  const startedAt = new Date('2025-03-01T06:00:00Z');
+
+  it('should alert for a failed scheduled fill', () => {
+    const alert = checkFailedCronRun(
+      createInput({
+        latestCronRun: { status: 'failed', trigger: 'cron', startedAt, failureMessage: 'Pool exhausted' },
+      })
+    );
+
+    expect(alert).toMatchObject({
+      rule: 'run-failed',
+      severity: 'critical',
+      key: 'run-failed:films:2025-03-01T06:00:00.000Z',
+      title: 'films: scheduled fill failed',
+    });
+    expect(alert?.message).toContain('Pool exhausted');
+  });
+
+  it('should not alert for successful or manual runs', () => {
+    expect(
+      checkFailedCronRun(
+        createInput({ latestCronRun: { status: 'success', trigger: 'cron', startedAt, failureMessage: null } })
+      )
+    ).toBeNull();
+    expect(
+      checkFailedCronRun(
+        createInput({ latestCronRun: { status: 'failed', trigger: 'manual', startedAt, failureMessage: 'x' } })
+      )
+    ).toBeNull();
+  });
+});
+
+describe('evaluateAlertRules', () => {
+  it('should return nothing for a healthy genre', () => {
+    expect(evaluateAlertRules(createInput())).toEqual([]);
+  });
+
+  it('should return every rule that fires', () => {
+    const alerts = evaluateAlertRules(
+      createInput({
+        emptyDates: ['2025-03-11'],
+        poolReserve: { ...healthyPool(), purple: reserve(0, 1) },
+        latestCronRun: {
+          status: 'failed',
+          trigger: 'cron',
+          startedAt: new Date('2025-03-01T06:00:00Z'),
+          failureMessage: null,
+        },
+      })
+    );
+
+    expect(alerts.map((alert) => alert.rule)).toEqual(['calendar-gap', 'pool-low', 'run-failed']);
+  });
+});
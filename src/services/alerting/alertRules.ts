@@ -0,0 +1,180 @@
+/**
+ * Alert Rules
+ *
+ * Turns a genre's calendar, pool, projected pool burn and latest scheduled
+ * fill into alerts.
+ * Keys change when the condition does (a new first gap, other low colors,
+ * a higher severity), so AlertService only deduplicates repeats.
+ */
+
+import type { DifficultyColor } from '../../lib/supabase/storage/IGroupStorage';
+import type { ColorReserve } from '../pipeline/types';
+import { describeColorForecast } from '../pipeline/poolForecast';
+import type { Alert, AlertCheckInput, AlertThresholds } from './types';
+import { DEFAULT_ALERT_THRESHOLDS } from './types';
+
+const COLORS: DifficultyColor[] = ['yellow', 'green', 'blue', 'purple'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Evaluate every alert rule for a genre
+ */
+export function evaluateAlertRules(
+  input: AlertCheckInput,
+  thresholds: AlertThresholds = DEFAULT_ALERT_THRESHOLDS
+): Alert[] {
+  return [
+    checkCalendarGap(input, thresholds),
+    checkPoolLow(input, thresholds),
+    checkPoolForecast(input, thresholds),
+    checkFailedCronRun(input),
+  ].filter((alert): alert is Alert => alert !== null);
+}
+
+/**
+ * Alert when the first empty day of the window is close
+ */
+export function checkCalendarGap(input: AlertCheckInput, thresholds: AlertThresholds): Alert | null {
+  const { genre, today, emptyDates } = input;
+  const firstGap = [...emptyDates].sort()[0];
+  if (!firstGap) {
+    return null;
+  }
+
+  const daysUntilGap = daysBetween(today, firstGap);
+  if (daysUntilGap >= thresholds.gapWarningDays) {
+    return null;
+  }
+
+  const severity = daysUntilGap < thresholds.gapCriticalDays ? 'critical' : 'warning';
+  const when = describeDaysAway(daysUntilGap);
+
+  return {
+    rule: 'calendar-gap',
+    severity,
+    genre,
+    key: `calendar-gap:${genre}:${firstGap}:${severity}`,
+    title: `${genre}: no puzzle scheduled ${when}`,
+    message: `The first empty day in the ${genre} calendar is ${firstGap} (${when}); ${emptyDates.length} day(s) in the window have no puzzle.`,
+    details: { firstGap, daysUntilGap, emptyDays: emptyDates.length, emptyDates },
+  };
+}
+
+/**
+ * Alert when colors have fewer unused groups than the threshold
+ */
+export function checkPoolLow(input: AlertCheckInput, thresholds: AlertThresholds): Alert | null {
+  const { genre, poolReserve } = input;
+  const minimumFor = (reserve: ColorReserve) =>
+    thresholds.minUnusedGroupsPerColor ?? reserve.neededForWindow + reserve.target;
+
+  const lowColors = COLORS.filter((color) => poolReserve[color].unused < minimumFor(poolReserve[color]));
+  if (lowColors.length === 0) {
+    return null;
+  }
+
+  // Critical once the pool cannot even fill the window's empty days
+  const severity = lowColors.some((color) => poolReserve[color].spare < 0) ? 'critical' : 'warning';
+
+  return {
+    rule: 'pool-low',
+    severity,
+    genre,
+    key: `pool-low:${genre}:${lowColors.join(',')}:${severity}`,
+    title: `${genre}: group pool low for ${lowColors.join(', ')}`,
+    message: lowColors
+      .map((color) => {
+        const reserve = poolReserve[color];
+        return `${color}: ${reserve.unused} unused (alert below ${minimumFor(reserve)}, ${reserve.neededForWindow} needed for the window)`;
+      })
+      .join('; '),
+    details: {
+      colors: Object.fromEntries(
+        lowColors.map((color) => [color, { ...poolReserve[color], minimum: minimumFor(poolReserve[color]) }])
+      ),
+    },
+  };
+}
+
+/**
+ * Alert when colors are projected to run dry soon at the current burn rate
+ */
+export function checkPoolForecast(input: AlertCheckInput, thresholds: AlertThresholds): Alert | null {
+  const { genre, forecast } = input;
+  if (!forecast) {
+    return null;
+  }
+
+  const dryingColors = COLORS.filter((color) => {
+    const days = forecast.colors[color].daysUntilDry;
+    return days !== null && days < thresholds.forecastWarningDays;
+  }).sort((a, b) => (forecast.colors[a].daysUntilDry as number) - (forecast.colors[b].daysUntilDry as number));
+  if (dryingColors.length === 0) {
+    return null;
+  }
+
+  const first = forecast.colors[dryingColors[0]];
+  const severity = (first.daysUntilDry as number) < thresholds.forecastCriticalDays ? 'critical' : 'warning';
+  const gap = forecast.gapDate ? ` At this rate the calendar first has a gap on ${forecast.gapDate}.` : '';
+
+  return {
+    rule: 'pool-forecast',
+    severity,
+    genre,
+    key: `pool-forecast:${genre}:${[...dryingColors].sort().join(',')}:${severity}`,
+    title: `${genre}: ${describeColorForecast(dryingColors[0], first)}`,
+    message:
+      dryingColors
+        .map((color) => {
+          const colorForecast = forecast.colors[color];
+          return `${describeColorForecast(color, colorForecast)} (${colorForecast.unused} unused, ${formatRate(colorForecast.usedPerDay)} used and ${formatRate(colorForecast.approvedPerDay)} approved per day)`;
+        })
+        .join('; ') + `.${gap}`,
+    details: {
+      colors: Object.fromEntries(dryingColors.map((color) => [color, forecast.colors[color]])),
+      gapDate: forecast.gapDate,
+      lookbackDays: forecast.lookbackDays,
+    },
+  };
+}
+
+/**
+ * Alert when the latest scheduled fill failed
+ */
+export function checkFailedCronRun(input: AlertCheckInput): Alert | null {
+  const run = input.latestCronRun;
+  if (!run || run.trigger !== 'cron' || run.status !== 'failed') {
+    return null;
+  }
+
+  const startedAt = run.startedAt.toISOString();
+
+  return {
+    rule: 'run-failed',
+    severity: 'critical',
+    genre: input.genre,
+    // One alert per failed run
+    key: `run-failed:${input.genre}:${startedAt}`,
+    title: `${input.genre}: scheduled fill failed`,
+    message: `The scheduled ${input.genre} fill started at ${startedAt} failed: ${run.failureMessage ?? 'Unknown error'}`,
+    details: { startedAt, failureMessage: run.failureMessage },
+  };
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+function formatRate(perDay: number): string {
+  return perDay.toFixed(1);
+}
+
+function describeDaysAway(days: number): string {
+  if (days <= 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  return `in ${days} days`;
+}
@@ -0,0 +1,28 @@
+/**
+ * Alerting Module
+ *
+ * Warns before a day goes blank: alert rules for coming calendar gaps, a
+ * low group pool and failed scheduled fills, deduplicated and sent through
+ * pluggable notifiers (webhook, email, console or file).
+ */
+
+export { AlertService, DEFAULT_ALERT_COOLDOWN_MS } from './AlertService';
+export type { AlertServiceOptions } from './AlertService';
+export { AlertLogStore } from './AlertLogStore';
+export { evaluateAlertRules, checkCalendarGap, checkPoolLow, checkFailedCronRun } from './alertRules';
+export * from './notifiers';
+export type {
+  Alert,
+  AlertRule,
+  AlertSeverity,
+  AlertThresholds,
+  AlertCheckInput,
+  AlertSendFailure,
+  AlertDispatchResult,
+  IAlerter,
+  IAlertLog,
+  EmailMessage,
+  IEmailTransport,
+  SmtpConfig,
+} from './types';
+export { DEFAULT_ALERT_THRESHOLDS } from './types';
@@ -0,0 +1,35 @@
+/**
+ * Email Notifier
+ *
+ * Emails alerts to the configured recipients through an email transport
+ * (SMTP in the CLI, see scripts/smtpTransport.ts).
+ */
+
+import type { Alert, IEmailTransport, INotifier, SmtpConfig } from '../types';
+import { formatAlertTitle } from './formatAlert';
+
+export class EmailNotifier implements INotifier {
+  readonly name = 'email';
+
+  constructor(
+    private config: Pick<SmtpConfig, 'from' | 'to'>,
+    private transport: IEmailTransport
+  ) {}
+
+  async send(alert: Alert): Promise<void> {
+    await this.transport.sendMail({
+      from: this.config.from,
+      to: this.config.to,
+      subject: `Puzzlecules pipeline ${formatAlertTitle(alert)}`,
+      text: [
+        alert.message,
+        '',
+        `Genre: ${alert.genre}`,
+        `Rule: ${alert.rule}`,
+        `Severity: ${alert.severity}`,
+        '',
+        JSON.stringify(alert.details, null, 2),
+      ].join('\n'),
+    });
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Log Notifier
+ *
+ * Writes alerts as timestamped lines to the console or a file, for local
+ * testing and for runs without a webhook or email set up.
+ */
+
+import type { Alert, INotifier } from '../types';
+import { formatAlertLine } from './formatAlert';
+
+export class LogNotifier implements INotifier {
+  /**
+   * @param write - Writes one line (console.warn, or an append to a file)
+   * @param name - 'console' or 'file', shown when writing fails
+   */
+  constructor(
+    private write: (line: string) => void | Promise<void>,
+    readonly name: string = 'console'
+  ) {}
+
+  async send(alert: Alert): Promise<void> {
+    await this.write(`${new Date().toISOString()} ${formatAlertLine(alert)}`);
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Notifier Factory
+ *
+ * Creates the alert notifiers from configuration. Node-only pieces (SMTP,
+ * file appends) are passed in by the caller so this stays usable anywhere.
+ *
+ * Environment variables:
+ * - ALERT_WEBHOOK_URL: POST alerts as JSON to this URL
+ * - SMTP_HOST, SMTP_PORT (default 587, or 465 when secure), SMTP_SECURE ("true" for TLS),
+ *   SMTP_USER, SMTP_PASSWORD, ALERT_EMAIL_FROM (default SMTP_USER),
+ *   ALERT_EMAIL_TO (comma-separated): email alerts
+ * - ALERT_LOG_FILE: append alerts to this file
+ * - ALERT_CONSOLE: "true" to print alerts (the default when nothing else is set)
+ * - ALERT_GAP_WARNING_DAYS, ALERT_GAP_CRITICAL_DAYS, ALERT_MIN_UNUSED_GROUPS,
+ *   ALERT_FORECAST_WARNING_DAYS, ALERT_FORECAST_CRITICAL_DAYS: rule thresholds
+ * - ALERT_COOLDOWN_HOURS: hours before the same alert is sent again
+ */
+
+import type { AlertThresholds, IEmailTransport, INotifier, SmtpConfig } from '../types';
+import { EmailNotifier } from './EmailNotifier';
+import { LogNotifier } from './LogNotifier';
+import { WebhookNotifier } from './WebhookNotifier';
+
+export interface AlertingOptions {
+  webhookUrl: string | null;
+  smtp: SmtpConfig | null;
+  logFile: string | null;
+  console: boolean;
+  thresholds: Partial<AlertThresholds>;
+  cooldownMs?: number;
+}
+
+export interface NotifierAdapters {
+  createEmailTransport(config: SmtpConfig): IEmailTransport;
+  appendToFile(path: string, line: string): Promise<void>;
+  /** Defaults to console.warn */
+  writeToConsole?: (line: string) => void;
+}
+
+/**
+ * Create a notifier for every configured destination
+ */
+export function createNotifiers(options: AlertingOptions, adapters: NotifierAdapters): INotifier[] {
+  const notifiers: INotifier[] = [];
+
+  if (options.webhookUrl) {
+    notifiers.push(new WebhookNotifier(options.webhookUrl));
+  }
+
+  if (options.smtp) {
+    notifiers.push(new EmailNotifier(options.smtp, adapters.createEmailTransport(options.smtp)));
+  }
+
+  if (options.logFile) {
+    const path = options.logFile;
+    notifiers.push(new LogNotifier((line) => adapters.appendToFile(path, `${line}\n`), 'file'));
+  }
+
+  if (options.console) {
+    notifiers.push(new LogNotifier(adapters.writeToConsole ?? ((line) => console.warn(line)), 'console'));
+  }
+
+  return notifiers;
+}
+
+/**
+ * Read alerting options from environment variables
+ */
+export function getAlertingOptionsFromEnv(env: Record<string, string | undefined>): AlertingOptions {
+  const webhookUrl = env.ALERT_WEBHOOK_URL || null;
+  const smtp = parseSmtpConfig(env);
+  const logFile = env.ALERT_LOG_FILE || null;
+  const cooldownHours = parseNumber(env.ALERT_COOLDOWN_HOURS);
+
+  return {
+    webhookUrl,
+    smtp,
+    logFile,
+    // Alerts are never silently dropped: print them when nowhere else is configured
+    console: env.ALERT_CONSOLE === 'true' || (!webhookUrl && !smtp && !logFile),
+    // Unset thresholds keep their defaults
+    thresholds: Object.fromEntries(
+      Object.entries({
+        gapWarningDays: parseNumber(env.ALERT_GAP_WARNING_DAYS),
+        gapCriticalDays: parseNumber(env.ALERT_GAP_CRITICAL_DAYS),
+        minUnusedGroupsPerColor: parseNumber(env.ALERT_MIN_UNUSED_GROUPS),
+        forecastWarningDays: parseNumber(env.ALERT_FORECAST_WARNING_DAYS),
+        forecastCriticalDays: parseNumber(env.ALERT_FORECAST_CRITICAL_DAYS),
+      }).filter(([, value]) => value !== undefined)
+    ),
+    cooldownMs: cooldownHours === undefined ? undefined : cooldownHours * 60 * 60 * 1000,
+  };
+}
+
+function parseSmtpConfig(env: Record<string, string | undefined>): SmtpConfig | null {
+  if (!env.SMTP_HOST) return null;
+
+  const to = (env.ALERT_EMAIL_TO ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (to.length === 0) {
+    throw new Error('ALERT_EMAIL_TO is required when SMTP_HOST is set');
+  }
+
+  const from = env.ALERT_EMAIL_FROM || env.SMTP_USER;
+  if (!from) {
+    throw new Error('ALERT_EMAIL_FROM (or SMTP_USER) is required when SMTP_HOST is set');
+  }
+
+  const port = parseNumber(env.SMTP_PORT);
+  const secure = env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465;
+
+  return {
+    host: env.SMTP_HOST,
+    port: port ?? (secure ? 465 : 587),
+    secure,
+    user: env.SMTP_USER || null,
+    password: env.SMTP_PASSWORD || null,
+    from,
+    to,
+  };
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
@@ -0,0 +1,49 @@
+/**
+ * Webhook Notifier
+ *
+ * POSTs alerts as JSON. The payload carries a `text` summary so chat
+ * incoming webhooks (e.g. Slack) can post it as is.
+ */
+
+import type { Alert, INotifier } from '../types';
+import { formatAlertLine } from './formatAlert';
+
+export interface WebhookNotifierOptions {
+  /** Extra request headers, e.g. an Authorization header */
+  headers?: Record<string, string>;
+  /** Fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+}
+
+export class WebhookNotifier implements INotifier {
+  readonly name = 'webhook';
+  private fetchImpl: typeof fetch;
+
+  constructor(
+    private url: string,
+    private options: WebhookNotifierOptions = {}
+  ) {
+    this.fetchImpl = options.fetch ?? ((input, init) => globalThis.fetch(input, init));
+  }
+
+  async send(alert: Alert): Promise<void> {
+    const response = await this.fetchImpl(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      body: JSON.stringify({
+        text: formatAlertLine(alert),
+        rule: alert.rule,
+        severity: alert.severity,
+        genre: alert.genre,
+        key: alert.key,
+        title: alert.title,
+        message: alert.message,
+        details: alert.details,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status} ${response.statusText}`.trim());
+    }
+  }
+}
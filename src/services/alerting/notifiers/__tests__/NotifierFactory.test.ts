@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createNotifiers, getAlertingOptionsFromEnv, type AlertingOptions } from '../NotifierFactory';
+import { WebhookNotifier } from '../WebhookNotifier';
+import { EmailNotifier } from '../EmailNotifier';
+import { LogNotifier } from '../LogNotifier';
+
+const createAdapters = () => ({
+  createEmailTransport: vi.fn(() => ({ sendMail: vi.fn() })),
+  appendToFile: vi.fn().mockResolvedValue(undefined),
+  writeToConsole: vi.fn(),
+});
+
+const noNotifiers: AlertingOptions = {
+  webhookUrl: null,
+  smtp: null,
+  logFile: null,
+  console: false,
+  thresholds: {},
+};
+
+describe('createNotifiers', () => {
+  it('should create a notifier for every configured destination', () => {
+    const adapters = createAdapters();
+    const smtp = {
+      host: 'smtp.example.com',
+      port: 587,
+      secure: false,
+      user: null,
+      password: null,
+      from: 'pipeline@example.com',
+      to: ['ops@example.com'],
+    };
+
+    const notifiers = createNotifiers(
+      { ...noNotifiers, webhookUrl: 'https://hooks.example.com', smtp, logFile: 'alerts.log', console: true },
+      adapters
+    );
+
+    expect(notifiers.map((notifier) => notifier.name)).toEqual(['webhook', 'email', 'file', 'console']);
+    expect(notifiers[0]).toBeInstanceOf(WebhookNotifier);
+    expect(notifiers[1]).toBeInstanceOf(EmailNotifier);
+    expect(notifiers[2]).toBeInstanceOf(LogNotifier);
+    expect(adapters.createEmailTransport).toHaveBeenCalledWith(smtp);
+  });
+
+  it('should append file alerts as lines', async () => {
+    const adapters = createAdapters();
+    const [notifier] = createNotifiers({ ...noNotifiers, logFile: 'alerts.log' }, adapters);
+
+    await notifier.send({
+      rule: 'run-failed',
+      severity: 'critical',
+      genre: 'music',
+      key: 'run-failed:music:x',
+      title: 'music: scheduled fill failed',
+      message: 'boom',
+      details: {},
+    });
+
+    expect(adapters.appendToFile).toHaveBeenCalledWith(
+      'alerts.log',
+      expect.stringMatching(/music: scheduled fill failed: boom\n$/)
+    );
+  });
+
+  it('should create nothing when nothing is configured', () => {
+    expect(createNotifiers(noNotifiers, createAdapters())).toEqual([]);
+  });
+});
+
+describe('getAlertingOptionsFromEnv', () => {
+  it('should fall back to console alerts', () => {
+    expect(getAlertingOptionsFromEnv({})).toEqual({
+      webhookUrl: null,
+      smtp: null,
+      logFile: null,
+      console: true,
+      thresholds: {},
+      cooldownMs: undefined,
+    });
+  });
+
+  it('should not print to the console when another notifier is set', () => {
+    const options = getAlertingOptionsFromEnv({ ALERT_WEBHOOK_URL: 'https://hooks.example.com' });
+
+    expect(options.webhookUrl).toBe('https://hooks.example.com');
+    expect(options.console).toBe(false);
+  });
+
+  it('should print to the console as well when asked', () => {
+    const options = getAlertingOptionsFromEnv({ ALERT_LOG_FILE: 'alerts.log', ALERT_CONSOLE: 'true' });
+
+    expect(options.console).toBe(true);
+  });
+
+  it('should read the SMTP configuration', () => {
+    const options = getAlertingOptionsFromEnv({
+      SMTP_HOST: 'smtp.example.com',
+      SMTP_USER: 'pipeline@example.com',
+      SMTP_PASSWORD: 'secret',
+      ALERT_EMAIL_TO: 'ops@example.com, editor@example.com',
+    });
+
+    expect(options.smtp).toEqual({
+      host: 'smtp.example.com',
+      port: 587,
+      secure: false,
+      user: 'pipeline@example.com',
+      password: 'secret',
+      from: 'pipeline@example.com',
+      to: ['ops@example.com', 'editor@example.com'],
+    });
+  });
+
+  it('should use TLS on port 465', () => {
+    const options = getAlertingOptionsFromEnv({
+      SMTP_HOST: 'smtp.example.com',
+      SMTP_PORT: '465',
+      ALERT_EMAIL_FROM: 'pipeline@example.com',
+      ALERT_EMAIL_TO: 'ops@example.com',
+    });
+
+    expect(options.smtp).toMatchObject({ port: 465, secure: true, user: null });
+  });
+
+  it('should require recipients and a sender with SMTP', () => {
+    expect(() => getAlertingOptionsFromEnv({ SMTP_HOST: 'smtp.example.com' })).toThrow(
+      'ALERT_EMAIL_TO is required when SMTP_HOST is set'
+    );
+    expect(() =>
+      getAlertingOptionsFromEnv({ SMTP_HOST: 'smtp.example.com', ALERT_EMAIL_TO: 'ops@example.com' })
+    ).toThrow('ALERT_EMAIL_FROM (or SMTP_USER) is required when SMTP_HOST is set');
+  });
+
+  it('should read thresholds and the cooldown, leaving unset ones out', () => {
+    const options = getAlertingOptionsFromEnv({
+      ALERT_GAP_WARNING_DAYS: '10',
+      ALERT_MIN_UNUSED_GROUPS: 'lots',
+      ALERT_FORECAST_WARNING_DAYS: '30',
+      ALERT_COOLDOWN_HOURS: '6',
+    });
+
+    expect(options.thresholds).toEqual({ gapWarningDays: 10, forecastWarningDays: 30 });
+    expect(options.cooldownMs).toBe(6 * 60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { WebhookNotifier } from '../WebhookNotifier';
+import { EmailNotifier } from '../EmailNotifier';
+import { LogNotifier } from '../LogNotifier';
+import type { Alert } from '../../types';
+
+const alert: Alert = {
+  rule: 'calendar-gap',
+  severity: 'critical',
+  genre: 'films',
+  key: 'calendar-gap:films:2025-03-11:critical',
+  title: 'films: no puzzle scheduled tomorrow',
+  message: 'The first empty day in the films calendar is 2025-03-11 (tomorrow)',
+  details: { firstGap: '2025-03-11' },
+};
+
+describe('WebhookNotifier', () => {
+  it('should POST the alert as JSON', async () => {
+    const fetch = vi.fn().mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+    const notifier = new WebhookNotifier('https://hooks.example.com/alerts', {
+      fetch,
+      headers: { Authorization: 'Bearer token' },
+    });
+
+    await notifier.send(alert);
+
+    expect(fetch).toHaveBeenCalledWith('https://hooks.example.com/alerts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer token' },
+      body: expect.any(String),
+    });
+    const body = JSON.parse(fetch.mock.calls[0][1].body);
+    expect(body).toMatchObject({
+      text: `[CRITICAL] ${alert.title}: ${alert.message}`,
+      rule: 'calendar-gap',
+      severity: 'critical',
+      key: alert.key,
+      details: { firstGap: '2025-03-11' },
+    });
+  });
+
+  it('should throw when the webhook rejects the alert', async () => {
+    const fetch = vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' });
+    const notifier = new WebhookNotifier('https://hooks.example.com/alerts', { fetch });
+
+    await expect(notifier.send(alert)).rejects.toThrow('Webhook responded with 404 Not Found');
+  });
+});
+
+describe('EmailNotifier', () => {
+  it('should email the alert to every recipient', async () => {
+    const transport = { sendMail: vi.fn().mockResolvedValue(undefined) };
+    const notifier = new EmailNotifier(
+      { from: 'pipeline@example.com', to: ['ops@example.com', 'editor@example.com'] },
+      transport
+    );
+
+    await notifier.send(alert);
+
+    const message = transport.sendMail.mock.calls[0][0];
+    expect(message).toMatchObject({
+      from: 'pipeline@example.com',
+      to: ['ops@example.com', 'editor@example.com'],
+      subject: 'Puzzlecules pipeline [CRITICAL] films: no puzzle scheduled tomorrow',
+    });
+    expect(message.text).toContain(alert.message);
+    expect(message.text).toContain('Severity: critical');
+  });
+
+  it('should pass on transport errors', async () => {
+    const transport = { sendMail: vi.fn().mockRejectedValue(new Error('SMTP AUTH failed: 535')) };
+    const notifier = new EmailNotifier({ from: 'a@example.com', to: ['b@example.com'] }, transport);
+
+    await expect(notifier.send(alert)).rejects.toThrow('SMTP AUTH failed: 535');
+  });
+});
+
+describe('LogNotifier', () => {
+  it('should write a timestamped line', async () => {
+    const write = vi.fn();
+    const notifier = new LogNotifier(write, 'file');
+
+    await notifier.send(alert);
+
+    expect(notifier.name).toBe('file');
+    expect(write).toHaveBeenCalledWith(
+      expect.stringMatching(/^\d{4}-\d{2}-\d{2}T.+Z \[CRITICAL\] films: no puzzle scheduled tomorrow: /)
+    );
+  });
+
+  it('should default to the console name', () => {
+    expect(new LogNotifier(vi.fn()).name).toBe('console');
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * Alert Formatting
+ *
+ * Plain-text renderings of an alert shared by the notifiers.
+ */
+
+import type { Alert } from '../types';
+
+/**
+ * One-line summary, e.g. "[CRITICAL] films: no puzzle scheduled tomorrow"
+ */
+export function formatAlertTitle(alert: Alert): string {
+  return `[${alert.severity.toUpperCase()}] ${alert.title}`;
+}
+
+/**
+ * Summary and message on one line, for logs and chat webhooks
+ */
+export function formatAlertLine(alert: Alert): string {
+  return `${formatAlertTitle(alert)}: ${alert.message}`;
+}
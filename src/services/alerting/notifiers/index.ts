@@ -0,0 +1,17 @@
+/**
+ * Alert Notifiers Module
+ *
+ * Exports the alert notifiers and the factory functions.
+ */
+
+export type { INotifier } from '../types';
+export { WebhookNotifier, type WebhookNotifierOptions } from './WebhookNotifier';
+export { EmailNotifier } from './EmailNotifier';
+export { LogNotifier } from './LogNotifier';
+export { formatAlertTitle, formatAlertLine } from './formatAlert';
+export {
+  createNotifiers,
+  getAlertingOptionsFromEnv,
+  type AlertingOptions,
+  type NotifierAdapters,
+} from './NotifierFactory';
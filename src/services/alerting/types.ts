@@ -0,0 +1,153 @@
+/**
+ * Alerting Types
+ *
+ * Types for the pipeline alerts: rules that spot a coming calendar gap, a
+ * low group pool or a failed scheduled fill, and the notifiers that send them.
+ */
+
+import type { Genre } from '../../types';
+import type { PipelineRun, PoolForecast, PoolReserve } from '../pipeline/types';
+
+/**
+ * Condition an alert reports:
+ * - 'calendar-gap': an empty day is coming up in the rolling window
+ * - 'pool-low': a color is running out of unused approved groups
+ * - 'pool-forecast': at the current burn rate a color's pool runs dry soon
+ * - 'run-failed': a scheduled (cron) fill failed
+ */
+export type AlertRule = 'calendar-gap' | 'pool-low' | 'pool-forecast' | 'run-failed';
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export interface Alert {
+  rule: AlertRule;
+  severity: AlertSeverity;
+  genre: Genre;
+  /**
+   * Identifies the condition; an alert whose key was sent within the
+   * cooldown is not sent again
+   */
+  key: string;
+  title: string;
+  message: string;
+  /** Rule-specific values, included in webhook payloads */
+  details: Record<string, unknown>;
+}
+
+/**
+ * Thresholds the alert rules check against
+ */
+export interface AlertThresholds {
+  /** Alert when the first empty day is fewer than this many days away */
+  gapWarningDays: number;
+  /** Raise the gap alert to critical when it is fewer than this many days away */
+  gapCriticalDays: number;
+  /**
+   * Alert when a color has fewer unused groups than this; null uses the
+   * genre's reserve (groups the window needs plus minGroupsPerColor)
+   */
+  minUnusedGroupsPerColor: number | null;
+  /** Alert when a color is projected to run dry in fewer than this many days */
+  forecastWarningDays: number;
+  /** Raise the forecast alert to critical when it is fewer than this many days away */
+  forecastCriticalDays: number;
+}
+
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  gapWarningDays: 7,
+  gapCriticalDays: 2,
+  minUnusedGroupsPerColor: null,
+  forecastWarningDays: 21,
+  forecastCriticalDays: 7,
+};
+
+/**
+ * What the rules check for one genre
+ */
+export interface AlertCheckInput {
+  genre: Genre;
+  /** YYYY-MM-DD */
+  today: string;
+  /** Empty dates in the rolling window */
+  emptyDates: string[];
+  poolReserve: PoolReserve;
+  /** Projected pool burn, or null when not available */
+  forecast: PoolForecast | null;
+  /** Most recent scheduled fill, if any */
+  latestCronRun: Pick<PipelineRun, 'status' | 'trigger' | 'startedAt' | 'failureMessage'> | null;
+}
+
+/**
+ * Sends alerts somewhere (a webhook, email, a log file)
+ */
+export interface INotifier {
+  /** Shown when sending fails */
+  readonly name: string;
+  send(alert: Alert): Promise<void>;
+}
+
+/**
+ * Remembers when each alert key was last sent, for deduplication
+ */
+export interface IAlertLog {
+  getLastSent(key: string): Promise<Date | null>;
+  recordSent(alert: Alert, sentAt: Date): Promise<void>;
+}
+
+/**
+ * A notifier that failed to send an alert
+ */
+export interface AlertSendFailure {
+  key: string;
+  notifier: string;
+  message: string;
+}
+
+/**
+ * Outcome of checking the rules and sending the alerts
+ */
+export interface AlertDispatchResult {
+  /** Sent to at least one notifier */
+  sent: Alert[];
+  /** Already sent within the cooldown */
+  suppressed: Alert[];
+  failures: AlertSendFailure[];
+}
+
+/**
+ * Checks a genre's alert rules and sends the alerts that were not sent recently
+ */
+export interface IAlerter {
+  check(input: AlertCheckInput): Promise<AlertDispatchResult>;
+}
+
+/**
+ * Email to send
+ */
+export interface EmailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers email (SMTP in the CLI)
+ */
+export interface IEmailTransport {
+  sendMail(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * SMTP server and addresses for email alerts
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Connect over TLS (port 465); otherwise STARTTLS is used when the server offers it */
+  secure: boolean;
+  user: string | null;
+  password: string | null;
+  from: string;
+  to: string[];
+}
@@ -0,0 +1,314 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createGameReducer,
+  createGameState,
+  evaluateGuess,
+  gameReducer,
+  getMistakesRemaining,
+  getUnsolvedGroups,
+  GAME_MESSAGES,
+} from '../gameEngine';
+import type { GameAction } from '../types';
+import type { DifficultyColor, DifficultyLevel, GameState, Group } from '../../../types';
+
+const createGroup = (color: DifficultyColor, difficulty: DifficultyLevel, ids: number[]): Group => ({
+  id: `group-${color}`,
+  items: ids.map((id) => ({ id, title: `Film ${id}` })),
+  connection: `${color} connection`,
+  difficulty,
+  color,
+});
+
+// Listed out of difficulty order on purpose
+const groups = [
+  createGroup('blue', 'hard', [9, 10, 11, 12]),
+  createGroup('yellow', 'easy', [1, 2, 3, 4]),
+  createGroup('purple', 'hardest', [13, 14, 15, 16]),
+  createGroup('green', 'medium', [5, 6, 7, 8]),
+];
+
+const play = (actions: GameAction[], state: GameState = createGameState(groups)) =>
+  actions.reduce(gameReducer, state);
+
+const select = (...ids: (number | string)[]): GameAction[] => ids.map((itemId) => ({ type: 'select', itemId }));
+
+const guess = (...ids: number[]): GameAction[] => [...select(...ids), { type: 'submit' }];
+
+const ids = (state: GameState) => state.items.map((item) => item.id);
+
+describe('gameEngine', () => {
+  describe('createGameState', () => {
+    it('should start a game with every item and nothing solved', () => {
+      const state = createGameState(groups, { puzzleDate: '2025-03-05' });
+
+      expect(ids(state)).toHaveLength(16);
+      expect([...ids(state)].sort((a, b) => Number(a) - Number(b))).toEqual(
+        Array.from({ length: 16 }, (_, i) => i + 1)
+      );
+      expect(state).toMatchObject({
+        groups,
+        selectedItemIds: [],
+        foundGroups: [],
+        revealedGroups: [],
+        previousGuesses: [],
+        mistakes: 0,
+        gameStatus: 'playing',
+        isLoading: false,
+        notification: null,
+        isShaking: false,
+        puzzleDate: '2025-03-05',
+      });
+    });
+
+    it('should shuffle the items the same way for the same seed', () => {
+      expect(ids(createGameState(groups, { seed: 'abc' }))).toEqual(ids(createGameState(groups, { seed: 'abc' })));
+      expect(ids(createGameState(groups, { seed: 'abc' }))).not.toEqual(ids(createGameState(groups, { seed: 'xyz' })));
+      expect(ids(createGameState(groups))).not.toEqual(groups.flatMap((group) => group.items.map((item) => item.id)));
+    });
+  });
+
+  describe('evaluateGuess', () => {
+    it('should find the group of a correct guess', () => {
+      expect(evaluateGuess(groups, [4, 3, 2, 1])).toEqual({ result: 'correct', group: groups[1] });
+    });
+
+    it('should tell one away from wrong', () => {
+      expect(evaluateGuess(groups, [1, 2, 3, 5])).toEqual({ result: 'one-away' });
+      expect(evaluateGuess(groups, [1, 2, 5, 6])).toEqual({ result: 'wrong' });
+    });
+
+    it('should match ids sent as strings', () => {
+      expect(evaluateGuess(groups, ['13', '14', '15', '16'])).toEqual({ result: 'correct', group: groups[2] });
+    });
+  });
+
+  describe('select and deselect', () => {
+    it('should select up to four items', () => {
+      const state = play(select(1, 2, 3, 4, 5));
+
+      expect(state.selectedItemIds).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should ignore items that are already selected or not in play', () => {
+      const state = play(select(1, 1, 99, '2'));
+
+      expect(state.selectedItemIds).toEqual([1, 2]);
+    });
+
+    it('should deselect one item, or every item without one', () => {
+      expect(play([...select(1, 2, 3), { type: 'deselect', itemId: 2 }]).selectedItemIds).toEqual([1, 3]);
+      expect(play([...select(1, 2, 3), { type: 'deselect' }]).selectedItemIds).toEqual([]);
+    });
+
+    it('should clear the notification and shake', () => {
+      const afterMiss = play(guess(1, 2, 3, 5));
+      expect(afterMiss.isShaking).toBe(true);
+
+      const state = play([{ type: 'deselect', itemId: 5 }], afterMiss);
+      expect(state).toMatchObject({ notification: null, isShaking: false });
+    });
+  });
+
+  describe('submit', () => {
+    it('should do nothing without four selected items', () => {
+      const selected = play(select(1, 2, 3));
+
+      expect(play([{ type: 'submit' }], selected)).toBe(selected);
+    });
+
+    it('should solve a group and take its items out of play', () => {
+      const state = play(guess(1, 2, 3, 4));
+
+      expect(state.foundGroups).toEqual([groups[1]]);
+      expect(ids(state)).toHaveLength(12);
+      expect(ids(state)).not.toContain(1);
+      expect(state.selectedItemIds).toEqual([]);
+      expect(state.previousGuesses).toEqual([[1, 2, 3, 4]]);
+      expect(state.mistakes).toBe(0);
+    });
+
+    it('should record the order groups are solved in', () => {
+      const state = play([...guess(13, 14, 15, 16), ...guess(1, 2, 3, 4), ...guess(9, 10, 11, 12)]);
+
+      expect(state.foundGroups.map((group) => group.color)).toEqual(['purple', 'yellow', 'blue']);
+    });
+
+    it('should win once every group is solved', () => {
+      const state = play([...guess(1, 2, 3, 4), ...guess(5, 6, 7, 8), ...guess(9, 10, 11, 12), ...guess(13, 14, 15, 16)]);
+
+      expect(state.gameStatus).toBe('won');
+      expect(state.items).toEqual([]);
+    });
+
+    it('should count a one-away guess as a mistake and say so', () => {
+      const state = play(guess(1, 2, 3, 5));
+
+      expect(state).toMatchObject({
+        mistakes: 1,
+        notification: GAME_MESSAGES.ONE_AWAY,
+        isShaking: true,
+        selectedItemIds: [1, 2, 3, 5],
+        gameStatus: 'playing',
+      });
+    });
+
+    it('should count a wrong guess as a mistake without a notification', () => {
+      const state = play(guess(1, 2, 5, 6));
+
+      expect(state).toMatchObject({ mistakes: 1, notification: null, isShaking: true });
+    });
+
+    it('should not count a repeated guess, in any order', () => {
+      const state = play([...guess(1, 2, 5, 6), { type: 'deselect' }, ...guess(6, 5, 2, 1)]);
+
+      expect(state).toMatchObject({
+        mistakes: 1,
+        notification: GAME_MESSAGES.ALREADY_GUESSED,
+        isShaking: false,
+        previousGuesses: [[1, 2, 5, 6]],
+      });
+    });
+
+    it('should lose after four mistakes by default', () => {
+      const state = play([
+        ...guess(1, 2, 5, 6),
+        { type: 'deselect' },
+        ...guess(1, 2, 7, 8),
+        { type: 'deselect' },
+        ...guess(1, 2, 9, 10),
+        { type: 'deselect' },
+        ...guess(1, 2, 11, 12),
+      ]);
+
+      expect(state).toMatchObject({ mistakes: 4, gameStatus: 'lost', selectedItemIds: [] });
+      expect(getMistakesRemaining(state)).toBe(0);
+    });
+
+    it('should show the unsolved groups, easiest first, on a loss', () => {
+      const reducer = createGameReducer({ maxMistakes: 1 });
+      const state = [...guess(9, 10, 11, 12), ...guess(1, 2, 3, 5)].reduce(reducer, createGameState(groups));
+
+      expect(state).toMatchObject({
+        gameStatus: 'lost',
+        items: [],
+        selectedItemIds: [],
+        foundGroups: [groups[0]],
+        notification: GAME_MESSAGES.ONE_AWAY,
+        isShaking: true,
+      });
+      expect(state.revealedGroups.map((group) => group.color)).toEqual(['yellow', 'green', 'purple']);
+    });
+
+    it('should follow a configured mistake limit', () => {
+      const reducer = createGameReducer({ maxMistakes: 1 });
+      const state = guess(1, 2, 5, 6).reduce(reducer, createGameState(groups));
+
+      expect(state.gameStatus).toBe('lost');
+      expect(getMistakesRemaining(state, { maxMistakes: 2 })).toBe(1);
+    });
+
+    it('should ignore moves once the game is over', () => {
+      const lost = guess(1, 2, 5, 6).reduce(createGameReducer({ maxMistakes: 1 }), createGameState(groups));
+
+      expect(play(select(1), lost)).toBe(lost);
+      expect(play([{ type: 'submit' }], lost)).toBe(lost);
+    });
+  });
+
+  describe('shuffle', () => {
+    it('should reorder only the unsolved items, the same way for the same seed', () => {
+      const solved = play(guess(1, 2, 3, 4));
+      const shuffled = play([{ type: 'shuffle', seed: 7 }], solved);
+
+      expect([...ids(shuffled)].sort()).toEqual([...ids(solved)].sort());
+      expect(ids(shuffled)).not.toEqual(ids(solved));
+      expect(ids(play([{ type: 'shuffle', seed: 7 }], solved))).toEqual(ids(shuffled));
+    });
+
+    it('should keep the selection', () => {
+      const state = play([...select(1, 2), { type: 'shuffle', seed: 'again' }]);
+
+      expect(state.selectedItemIds).toEqual([1, 2]);
+    });
+  });
+
+  describe('reveal', () => {
+    it('should give up and show the unsolved groups, easiest first', () => {
+      const state = play([...guess(5, 6, 7, 8), ...select(1), { type: 'reveal' }]);
+
+      expect(state.gameStatus).toBe('lost');
+      expect(state.foundGroups).toEqual([groups[3]]);
+      expect(state.revealedGroups.map((group) => group.color)).toEqual(['yellow', 'blue', 'purple']);
+      expect(state).toMatchObject({ items: [], selectedItemIds: [] });
+    });
+
+    it('should leave a won game alone', () => {
+      const won = play([...guess(1, 2, 3, 4), ...guess(5, 6, 7, 8), ...guess(9, 10, 11, 12), ...guess(13, 14, 15, 16)]);
+
+      expect(play([{ type: 'reveal' }], won)).toBe(won);
+    });
+  });
+
+  describe('restore', () => {
+    it('should replay saved guesses onto a fresh game', () => {
+      const played = play([...guess(1, 2, 3, 5), { type: 'deselect' }, ...guess(1, 2, 3, 4)]);
+      const restored = play([{ type: 'restore', previousGuesses: played.previousGuesses }], createGameState(groups));
+
+      expect(restored).toMatchObject({
+        foundGroups: played.foundGroups,
+        previousGuesses: played.previousGuesses,
+        mistakes: 1,
+        gameStatus: 'playing',
+        selectedItemIds: [],
+        notification: null,
+        isShaking: false,
+      });
+      expect(ids(restored)).toEqual(ids(played));
+    });
+
+    it('should restore a finished game', () => {
+      const restored = play(
+        [{ type: 'restore', previousGuesses: [[1, 2, 5, 6], [1, 2, 7, 8], [1, 2, 9, 10], [1, 2, 11, 12]] }],
+        createGameState(groups)
+      );
+
+      expect(restored).toMatchObject({ mistakes: 4, gameStatus: 'lost' });
+    });
+
+    it('should start over from a game in progress or given up', () => {
+      const givenUp = play([...guess(1, 2, 3, 4), ...guess(1, 5, 6, 7), { type: 'reveal' }]);
+      const restarted = play([{ type: 'restore', previousGuesses: [] }], givenUp);
+
+      expect(ids(restarted)).toHaveLength(16);
+      expect(restarted).toMatchObject({
+        foundGroups: [],
+        revealedGroups: [],
+        previousGuesses: [],
+        mistakes: 0,
+        gameStatus: 'playing',
+      });
+    });
+
+    it('should keep the order of the items in play and put solved items after them', () => {
+      const inProgress = play(guess(1, 2, 3, 4));
+      const restarted = play([{ type: 'restore', previousGuesses: [] }], inProgress);
+
+      expect(ids(restarted)).toEqual([...ids(inProgress), 1, 2, 3, 4]);
+    });
+
+    it('should drop guesses that do not fit the puzzle', () => {
+      const restored = play([{ type: 'restore', previousGuesses: [[1, 2, 3, 99], [1, 2, 3, 4]] }], createGameState(groups));
+
+      expect(restored.previousGuesses).toEqual([[1, 2, 3, 4]]);
+      expect(restored.mistakes).toBe(0);
+    });
+  });
+
+  describe('getUnsolvedGroups', () => {
+    it('should list the groups not yet solved, easiest first', () => {
+      const state = play(guess(1, 2, 3, 4));
+
+      expect(getUnsolvedGroups(state).map((group) => group.color)).toEqual(['green', 'blue', 'purple']);
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Game Engine
+ *
+ * The rules of a game as a pure reducer over GameState: selecting items,
+ * checking guesses (duplicates, one away, mistakes), shuffling and giving up.
+ * It has no framework or I/O dependencies, so the admin playtest, player
+ * clients and the server-side guess route all play by the same rules.
+ */
+
+import type { DifficultyLevel, GameState, Group, Item } from '../../types';
+import { createSeededRandom, shuffle } from '../../utils/random';
+import type { GameReducer, GameRules, GuessEvaluation } from './types';
+
+/** Items in a group, and so in a guess */
+export const GROUP_SIZE = 4;
+
+export const DEFAULT_GAME_RULES: GameRules = {
+  maxMistakes: 4,
+};
+
+/** Notifications shown to the player */
+export const GAME_MESSAGES = {
+  ONE_AWAY: 'One away!',
+  ALREADY_GUESSED: 'Already guessed!',
+} as const;
+
+const DIFFICULTY_ORDER: DifficultyLevel[] = ['easy', 'medium', 'hard', 'hardest'];
+
+/**
+ * Start a game of the given groups, with the items shuffled by `seed`
+ */
+export function createGameState(
+  groups: Group[],
+  options: { seed?: number | string; puzzleDate?: string | null } = {}
+): GameState {
+  return {
+    items: shuffle(
+      groups.flatMap((group) => group.items),
+      createSeededRandom(options.seed ?? 0)
+    ),
+    groups,
+    selectedItemIds: [],
+    foundGroups: [],
+    revealedGroups: [],
+    previousGuesses: [],
+    mistakes: 0,
+    gameStatus: 'playing',
+    isLoading: false,
+    notification: null,
+    isShaking: false,
+    puzzleDate: options.puzzleDate ?? null,
+  };
+}
+
+/**
+ * Compare a guess of item ids with the groups. Ids are matched as strings, so
+ * a guess that went through JSON still matches numeric ids.
+ */
+export function evaluateGuess(groups: Group[], itemIds: Item['id'][]): GuessEvaluation {
+  const guessed = new Set(itemIds.map(String));
+  let oneAway = false;
+
+  for (const group of groups) {
+    const matching = group.items.filter((item) => guessed.has(String(item.id))).length;
+
+    if (matching === GROUP_SIZE) {
+      return { result: 'correct', group };
+    }
+    if (matching === GROUP_SIZE - 1) {
+      oneAway = true;
+    }
+  }
+
+  return oneAway ? { result: 'one-away' } : { result: 'wrong' };
+}
+
+/**
+ * Groups the player has not solved, easiest first
+ */
+export function getUnsolvedGroups(state: GameState): Group[] {
+  const solvedIds = new Set(state.foundGroups.map((group) => group.id));
+  return state.groups
+    .filter((group) => !solvedIds.has(group.id))
+    .sort((a, b) => DIFFICULTY_ORDER.indexOf(a.difficulty) - DIFFICULTY_ORDER.indexOf(b.difficulty));
+}
+
+/**
+ * Wrong guesses left before the game is lost
+ */
+export function getMistakesRemaining(state: GameState, rules: GameRules = DEFAULT_GAME_RULES): number {
+  return Math.max(0, rules.maxMistakes - state.mistakes);
+}
+
+/**
+ * Create a reducer for the given rules, e.g. for React's useReducer
+ */
+export function createGameReducer(rules: Partial<GameRules> = {}): GameReducer {
+  const resolved: GameRules = { ...DEFAULT_GAME_RULES, ...rules };
+
+  const reduce: GameReducer = (state, action) => {
+    switch (action.type) {
+      case 'select':
+        return select(state, action.itemId);
+      case 'deselect':
+        return deselect(state, action.itemId);
+      case 'submit':
+        return submit(state, resolved);
+      case 'shuffle':
+        return {
+          ...state,
+          items: shuffle(state.items, createSeededRandom(action.seed)),
+        };
+      case 'reveal':
+        return reveal(state);
+      case 'restore':
+        return restore(state, action.previousGuesses, reduce);
+    }
+  };
+
+  return reduce;
+}
+
+/** Reducer with the default rules */
+export const gameReducer = createGameReducer();
+
+function select(state: GameState, itemId: Item['id']): GameState {
+  if (
+    state.gameStatus !== 'playing' ||
+    state.selectedItemIds.length >= GROUP_SIZE ||
+    state.selectedItemIds.some((id) => String(id) === String(itemId))
+  ) {
+    return state;
+  }
+
+  const item = state.items.find((candidate) => String(candidate.id) === String(itemId));
+  if (!item) {
+    return state;
+  }
+
+  return {
+    ...state,
+    selectedItemIds: [...state.selectedItemIds, item.id],
+    notification: null,
+    isShaking: false,
+  };
+}
+
+function deselect(state: GameState, itemId?: Item['id']): GameState {
+  return {
+    ...state,
+    selectedItemIds:
+      itemId === undefined ? [] : state.selectedItemIds.filter((id) => String(id) !== String(itemId)),
+    notification: null,
+    isShaking: false,
+  };
+}
+
+function submit(state: GameState, rules: GameRules): GameState {
+  const guess = state.selectedItemIds;
+  if (state.gameStatus !== 'playing' || guess.length !== GROUP_SIZE) {
+    return state;
+  }
+
+  if (state.previousGuesses.some((previous) => isSameGuess(previous, guess))) {
+    return { ...state, notification: GAME_MESSAGES.ALREADY_GUESSED, isShaking: false };
+  }
+
+  const previousGuesses = [...state.previousGuesses, guess];
+  const evaluation = evaluateGuess(getUnsolvedGroups(state), guess);
+
+  if (evaluation.result === 'correct') {
+    const solvedIds = new Set(evaluation.group.items.map((item) => String(item.id)));
+    const foundGroups = [...state.foundGroups, evaluation.group];
+
+    return {
+      ...state,
+      items: state.items.filter((item) => !solvedIds.has(String(item.id))),
+      selectedItemIds: [],
+      foundGroups,
+      previousGuesses,
+      gameStatus: foundGroups.length === state.groups.length ? 'won' : 'playing',
+      notification: null,
+      isShaking: false,
+    };
+  }
+
+  const mistakes = state.mistakes + 1;
+  const missed: GameState = {
+    ...state,
+    selectedItemIds: guess,
+    previousGuesses,
+    mistakes,
+    notification: evaluation.result === 'one-away' ? GAME_MESSAGES.ONE_AWAY : null,
+    isShaking: true,
+  };
+
+  if (mistakes >= rules.maxMistakes) {
+    // Out of mistakes: show the unsolved groups, as when giving up
+    return { ...reveal(missed), notification: missed.notification, isShaking: true };
+  }
+
+  return missed;
+}
+
+function reveal(state: GameState): GameState {
+  if (state.gameStatus === 'won') {
+    return state;
+  }
+
+  return {
+    ...state,
+    items: [],
+    selectedItemIds: [],
+    revealedGroups: getUnsolvedGroups(state),
+    gameStatus: 'lost',
+    notification: null,
+    isShaking: false,
+  };
+}
+
+/**
+ * Replay guesses on a fresh game of the same items. Items still in play keep
+ * their order and the items of solved or revealed groups go back after them,
+ * so replaying the same guesses leaves the same items in play in the same order.
+ * Guesses that no longer apply (unknown items, game already over) are dropped.
+ */
+function restore(state: GameState, previousGuesses: Item['id'][][], reduce: GameReducer): GameState {
+  const fresh: GameState = {
+    ...state,
+    items: [
+      ...state.items,
+      ...state.foundGroups.flatMap((group) => group.items),
+      ...state.revealedGroups.flatMap((group) => group.items),
+    ],
+    selectedItemIds: [],
+    foundGroups: [],
+    revealedGroups: [],
+    previousGuesses: [],
+    mistakes: 0,
+    gameStatus: 'playing',
+  };
+
+  const replayed = previousGuesses.reduce((current, guess) => {
+    const selected = guess.reduce(
+      (next, itemId) => reduce(next, { type: 'select', itemId }),
+      reduce(current, { type: 'deselect' })
+    );
+    return reduce(selected, { type: 'submit' });
+  }, fresh);
+
+  return {
+    ...replayed,
+    selectedItemIds: [],
+    notification: null,
+    isShaking: false,
+  };
+}
+
+function isSameGuess(a: Item['id'][], b: Item['id'][]): boolean {
+  const ids = new Set(a.map(String));
+  return a.length === b.length && b.every((id) => ids.has(String(id)));
+}
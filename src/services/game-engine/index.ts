@@ -0,0 +1,19 @@
+/**
+ * Game Engine Module
+ *
+ * Pure, deterministic rules of a game, shared by every client and the
+ * server-side guess route.
+ */
+
+export {
+  createGameReducer,
+  createGameState,
+  evaluateGuess,
+  gameReducer,
+  getMistakesRemaining,
+  getUnsolvedGroups,
+  DEFAULT_GAME_RULES,
+  GAME_MESSAGES,
+  GROUP_SIZE,
+} from './gameEngine';
+export type { GameAction, GameReducer, GameRules, GuessEvaluation } from './types';
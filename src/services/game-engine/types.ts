@@ -0,0 +1,44 @@
+/**
+ * Game Engine Types
+ */
+
+import type { GameState, Group, Item } from '../../types';
+
+/**
+ * Rules a game is played under
+ */
+export interface GameRules {
+  /** Wrong guesses allowed before the game is lost */
+  maxMistakes: number;
+}
+
+/**
+ * Moves a player (or a restore) can make.
+ *
+ * - `select` / `deselect`: toggle an item in the current guess; `deselect`
+ *   without an item clears the whole guess
+ * - `submit`: check the current guess
+ * - `shuffle`: reorder the unsolved items; the same seed gives the same order
+ * - `reveal`: give up and show every unsolved group
+ * - `restore`: replay saved guesses from the start, e.g. to resume a game
+ */
+export type GameAction =
+  | { type: 'select'; itemId: Item['id'] }
+  | { type: 'deselect'; itemId?: Item['id'] }
+  | { type: 'submit' }
+  | { type: 'shuffle'; seed: number | string }
+  | { type: 'reveal' }
+  | { type: 'restore'; previousGuesses: Item['id'][][] };
+
+/**
+ * How a guess compares to a puzzle's groups
+ */
+export type GuessEvaluation =
+  | { result: 'correct'; group: Group }
+  | { result: 'one-away' }
+  | { result: 'wrong' };
+
+/**
+ * Applies an action to a game, returning the next state
+ */
+export type GameReducer = (state: GameState, action: GameAction) => GameState;
@@ -0,0 +1,132 @@
+/**
+ * Generation Ledger Store
+ *
+ * Records token usage for every AI generation call in Supabase.
+ * Feeds the Dashboard spend view and the pipeline's monthly token budget.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  IGenerationLedger,
+  GenerationCaller,
+  GenerationLedgerEntry,
+  GenerationLedgerEntryInput,
+  Difficulty,
+  Genre,
+} from './types'
+
+/** Database row type from Supabase */
+interface GenerationLedgerRow {
+  id: string
+  created_at: string
+  genre: string
+  target_difficulty: string | null
+  requested_count: number
+  returned_count: number
+  dropped_count: number
+  input_tokens: number
+  output_tokens: number
+  model: string
+  provider: string
+  caller: GenerationCaller
+}
+
+export class GenerationLedgerStore implements IGenerationLedger {
+  private supabase: SupabaseClient
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient
+  }
+
+  /**
+   * Record one generation call
+   */
+  async record(entry: GenerationLedgerEntryInput): Promise<void> {
+    const insertData = {
+      genre: entry.genre,
+      target_difficulty: entry.targetDifficulty,
+      requested_count: entry.requestedCount,
+      returned_count: entry.returnedCount,
+      dropped_count: entry.droppedCount,
+      input_tokens: entry.inputTokens,
+      output_tokens: entry.outputTokens,
+      model: entry.model,
+      provider: entry.provider,
+      caller: entry.caller,
+    }
+
+    const { error } = await this.supabase
+      .from('generation_ledger')
+      .insert(insertData as never)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+  }
+
+  /**
+   * List entries created at or after `since`, newest first, optionally filtered by genre
+   */
+  async listEntries(since: Date, genre?: Genre): Promise<GenerationLedgerEntry[]> {
+    let query = this.supabase
+      .from('generation_ledger')
+      .select('*')
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: false })
+
+    if (genre) {
+      query = query.eq('genre', genre)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return (data || []).map(this.mapRowToEntry)
+  }
+
+  /**
+   * Total input + output tokens used at or after `since`, optionally filtered by genre
+   */
+  async getTokensUsed(since: Date, genre?: Genre): Promise<number> {
+    let query = this.supabase
+      .from('generation_ledger')
+      .select('input_tokens, output_tokens')
+      .gte('created_at', since.toISOString())
+
+    if (genre) {
+      query = query.eq('genre', genre)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return ((data || []) as Array<Pick<GenerationLedgerRow, 'input_tokens' | 'output_tokens'>>)
+      .reduce((total, row) => total + row.input_tokens + row.output_tokens, 0)
+  }
+
+  /**
+   * Map database row to GenerationLedgerEntry
+   */
+  private mapRowToEntry(row: GenerationLedgerRow): GenerationLedgerEntry {
+    return {
+      id: row.id,
+      createdAt: new Date(row.created_at),
+      genre: row.genre as Genre,
+      targetDifficulty: row.target_difficulty as Difficulty | null,
+      requestedCount: row.requested_count,
+      returnedCount: row.returned_count,
+      droppedCount: row.dropped_count,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      model: row.model,
+      provider: row.provider,
+      caller: row.caller,
+    }
+  }
+}
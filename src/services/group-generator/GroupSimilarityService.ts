@@ -0,0 +1,252 @@
+/**
+ * Group Similarity Service
+ *
+ * Detects likely duplicates of a generated group within one genre's approved pool.
+ * The UNIQUE (connection) constraint only catches identical text, so groups are
+ * also compared by normalised connection wording and by item overlap
+ * (same externalId or same normalised title).
+ */
+
+import type { IGroupStorage, StoredGroup } from '../../lib/supabase/storage/IGroupStorage'
+import type { Genre } from './types'
+
+/** Connection similarity at or above which two groups are likely duplicates */
+export const CONNECTION_SIMILARITY_THRESHOLD = 0.8
+
+/** Shared items at or above which two groups are likely duplicates (3 of 4) */
+export const SHARED_ITEMS_THRESHOLD = 3
+
+/** Upper bound on approved groups loaded for comparison */
+const MAX_POOL_SIZE = 10000
+
+/**
+ * Words that carry no meaning for comparison: filler, relation words and
+ * item nouns for every genre ("Films directed by Nolan" -> "nolan")
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'by', 'with', 'in', 'on', 'at', 'to', 'for', 'from',
+  'and', 'or', 'that', 'which', 'who', 'whose', 'where', 'their', 'its',
+  'is', 'are', 'was', 'were', 'be', 'been', 'has', 'have', 'had',
+  'all', 'each', 'about', 'named', 'called', 'featuring', 'starring',
+  'directed', 'director', 'written', 'writer', 'performed', 'released',
+  'film', 'movie', 'song', 'track', 'album', 'book', 'novel', 'athlete', 'team', 'player',
+])
+
+/** Group shape the service compares (generated and stored groups both fit) */
+export interface ComparableGroup {
+  /** Stored group id, when the group is already saved */
+  id?: string
+  connection: string
+  items: Array<{ title: string; externalId?: number | string | null }>
+}
+
+/** Why a group was flagged */
+export type DuplicateReason = 'connection' | 'items'
+
+/** An existing group that a candidate likely duplicates */
+export interface DuplicateMatch {
+  group: ComparableGroup
+  /** 0-1 similarity of the normalised connection text */
+  connectionSimilarity: number
+  /** Number of candidate items also in the existing group */
+  sharedItems: number
+  reasons: DuplicateReason[]
+}
+
+interface IndexedGroup {
+  group: ComparableGroup
+  connectionTokens: Set<string>
+  titles: string[]
+  externalIds: Array<string | null>
+}
+
+export class GroupSimilarityService {
+  private pool: IndexedGroup[] = []
+
+  constructor(pool: ComparableGroup[] = []) {
+    pool.forEach((group) => this.add(group))
+  }
+
+  /**
+   * Build the service from stored groups, keeping only approved groups of the genre
+   */
+  static fromStoredGroups(groups: StoredGroup[], genre: Genre): GroupSimilarityService {
+    return new GroupSimilarityService(
+      groups
+        .filter((group) => group.status === 'approved' && group.genre === genre)
+        .map(toComparableGroup)
+    )
+  }
+
+  /**
+   * Load the approved pool for a genre from storage
+   */
+  static async forGenre(groupStorage: IGroupStorage, genre: Genre): Promise<GroupSimilarityService> {
+    const { groups } = await groupStorage.listGroups({
+      genre,
+      status: 'approved',
+      limit: MAX_POOL_SIZE,
+    })
+    return GroupSimilarityService.fromStoredGroups(groups, genre)
+  }
+
+  /**
+   * Add a group to the pool (e.g. once it has been saved)
+   */
+  add(group: ComparableGroup): void {
+    this.pool.push({
+      group,
+      connectionTokens: tokenizeConnection(group.connection),
+      titles: group.items.map((item) => normalizeTitle(item.title)),
+      externalIds: group.items.map((item) => normalizeExternalId(item.externalId)),
+    })
+  }
+
+  /**
+   * Find pool groups the candidate likely duplicates, strongest match first
+   */
+  findDuplicates(candidate: ComparableGroup): DuplicateMatch[] {
+    const matches: DuplicateMatch[] = []
+
+    for (const { existing, connectionSimilarity, sharedItems } of this.compare(candidate)) {
+      const reasons: DuplicateReason[] = []
+      if (connectionSimilarity >= CONNECTION_SIMILARITY_THRESHOLD) reasons.push('connection')
+      if (sharedItems >= SHARED_ITEMS_THRESHOLD) reasons.push('items')
+
+      if (reasons.length > 0) {
+        matches.push({ group: existing.group, connectionSimilarity, sharedItems, reasons })
+      }
+    }
+
+    return matches.sort(
+      (a, b) =>
+        b.reasons.length - a.reasons.length ||
+        b.sharedItems - a.sharedItems ||
+        b.connectionSimilarity - a.connectionSimilarity
+    )
+  }
+
+  /**
+   * Similarity (0-1) of the candidate to its closest pool group: the higher of
+   * connection similarity and the share of its items found in that group
+   */
+  closestSimilarity(candidate: ComparableGroup): number {
+    const itemCount = Math.max(candidate.items.length, 1)
+    let closest = 0
+
+    for (const { connectionSimilarity, sharedItems } of this.compare(candidate)) {
+      closest = Math.max(closest, connectionSimilarity, sharedItems / itemCount)
+    }
+
+    return closest
+  }
+
+  private compare(
+    candidate: ComparableGroup
+  ): Array<{ existing: IndexedGroup; connectionSimilarity: number; sharedItems: number }> {
+    const candidateTokens = tokenizeConnection(candidate.connection)
+    const candidateTitles = candidate.items.map((item) => normalizeTitle(item.title))
+    const candidateIds = candidate.items.map((item) => normalizeExternalId(item.externalId))
+
+    return this.pool.map((existing) => ({
+      existing,
+      connectionSimilarity: compareTokens(candidateTokens, existing.connectionTokens),
+      sharedItems: countSharedItems(candidateTitles, candidateIds, existing),
+    }))
+  }
+}
+
+/**
+ * Human-readable summary of a match, e.g. `Shares 3 items with "Heist films"`
+ */
+export function describeDuplicate(match: DuplicateMatch): string {
+  const name = `"${match.group.connection}"`
+  if (match.reasons.includes('items') && match.reasons.includes('connection')) {
+    return `Same connection and ${match.sharedItems} shared items as ${name}`
+  }
+  if (match.reasons.includes('items')) {
+    return `Shares ${match.sharedItems} items with ${name}`
+  }
+  return `Similar connection to ${name}`
+}
+
+/**
+ * Lowercase, strip accents and punctuation, drop a leading article
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '')
+}
+
+/**
+ * Meaningful, singularised words of a connection
+ */
+export function tokenizeConnection(connection: string): Set<string> {
+  const words = normalizeTitle(connection).split(' ').filter(Boolean)
+  return new Set(words.map(singularize).filter((word) => !STOP_WORDS.has(word)))
+}
+
+/**
+ * Overlap of two connections' words (0-1).
+ * Uses the smaller set as the base but tolerates one extra qualifying word,
+ * so "Nolan" matches "Christopher Nolan" while "Nolan" vs "Nolan time travel" does not.
+ */
+export function compareTokens(a: Set<string>, b: Set<string>): number {
+  const smaller = Math.min(a.size, b.size)
+  const larger = Math.max(a.size, b.size)
+  if (smaller === 0) return 0
+
+  let shared = 0
+  for (const token of a) {
+    if (b.has(token)) shared++
+  }
+
+  return shared / (smaller + Math.max(0, larger - smaller - 1))
+}
+
+function countSharedItems(
+  titles: string[],
+  externalIds: Array<string | null>,
+  existing: IndexedGroup
+): number {
+  const used = new Set<number>()
+  let shared = 0
+
+  titles.forEach((title, index) => {
+    const externalId = externalIds[index]
+    const match = existing.titles.findIndex(
+      (existingTitle, existingIndex) =>
+        !used.has(existingIndex) &&
+        ((externalId !== null && externalId === existing.externalIds[existingIndex]) ||
+          title === existingTitle)
+    )
+    if (match >= 0) {
+      used.add(match)
+      shared++
+    }
+  })
+
+  return shared
+}
+
+function singularize(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word
+}
+
+function normalizeExternalId(externalId: number | string | null | undefined): string | null {
+  return externalId === null || externalId === undefined ? null : String(externalId)
+}
+
+function toComparableGroup(group: StoredGroup): ComparableGroup {
+  return {
+    id: group.id,
+    connection: group.connection,
+    items: group.items.map((item) => ({ title: item.title, externalId: item.id })),
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { GenerationLedgerEntryInput } from '../types'
+import { GenerationLedgerStore } from '../GenerationLedgerStore'
+import { awaitable } from '../../../test/supabaseQueryMock'
+
+// Create mock functions
+const mockSelect = vi.fn()
+const mockInsert = vi.fn()
+const mockGte = vi.fn()
+const mockEq = vi.fn()
+const mockOrder = vi.fn()
+const mockFrom = vi.fn()
+
+// Create mock Supabase client
+const mockSupabase = {
+  from: mockFrom,
+} as unknown as SupabaseClient
+
+describe('GenerationLedgerStore', () => {
+  let store: GenerationLedgerStore
+
+  const entry: GenerationLedgerEntryInput = {
+    genre: 'films',
+    targetDifficulty: 'hard',
+    requestedCount: 10,
+    returnedCount: 9,
+    droppedCount: 1,
+    inputTokens: 1200,
+    outputTokens: 3400,
+    model: 'claude-sonnet-4-20250514',
+    provider: 'anthropic',
+    caller: 'fill-now',
+  }
+
+  const mockRow = {
+    id: 'ledger-1',
+    created_at: '2025-03-04T10:00:00Z',
+    genre: 'films',
+    target_difficulty: 'hard',
+    requested_count: 10,
+    returned_count: 9,
+    dropped_count: 1,
+    input_tokens: 1200,
+    output_tokens: 3400,
+    model: 'claude-sonnet-4-20250514',
+    provider: 'anthropic',
+    caller: 'fill-now',
+  }
+
+  const since = new Date('2025-03-01T00:00:00Z')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    store = new GenerationLedgerStore(mockSupabase)
+
+    const chain = { gte: mockGte, eq: mockEq, order: mockOrder }
+
+    mockFrom.mockReturnValue({ select: mockSelect, insert: mockInsert })
+    mockSelect.mockReturnValue(chain)
+    mockGte.mockReturnValue(awaitable({ data: [mockRow], error: null }, chain))
+    mockOrder.mockReturnValue(awaitable({ data: [mockRow], error: null }, chain))
+    mockEq.mockResolvedValue({ data: [mockRow], error: null })
+  })
+
+  describe('record', () => {
+    it('should insert the entry as a snake_case row', async () => {
+      mockInsert.mockResolvedValue({ error: null })
+
+      await store.record(entry)
+
+      expect(mockFrom).toHaveBeenCalledWith('generation_ledger')
+      expect(mockInsert).toHaveBeenCalledWith({
+        genre: 'films',
+        target_difficulty: 'hard',
+        requested_count: 10,
+        returned_count: 9,
+        dropped_count: 1,
+        input_tokens: 1200,
+        output_tokens: 3400,
+        model: 'claude-sonnet-4-20250514',
+        provider: 'anthropic',
+        caller: 'fill-now',
+      })
+    })
+
+    it('should throw on database error', async () => {
+      mockInsert.mockResolvedValue({ error: { message: 'permission denied' } })
+
+      await expect(store.record(entry)).rejects.toThrow('permission denied')
+    })
+  })
+
+  describe('listEntries', () => {
+    it('should return entries since the given date, newest first', async () => {
+      const entries = await store.listEntries(since)
+
+      expect(mockGte).toHaveBeenCalledWith('created_at', '2025-03-01T00:00:00.000Z')
+      expect(mockOrder).toHaveBeenCalledWith('created_at', { ascending: false })
+      expect(mockEq).not.toHaveBeenCalled()
+      expect(entries).toEqual([
+        {
+          id: 'ledger-1',
+          createdAt: new Date('2025-03-04T10:00:00Z'),
+          ...entry,
+        },
+      ])
+    })
+
+    it('should filter by genre when provided', async () => {
+      await store.listEntries(since, 'music')
+
+      expect(mockEq).toHaveBeenCalledWith('genre', 'music')
+    })
+  })
+
+  describe('getTokensUsed', () => {
+    it('should sum input and output tokens', async () => {
+      mockGte.mockResolvedValue({
+        data: [
+          { input_tokens: 1000, output_tokens: 2000 },
+          { input_tokens: 500, output_tokens: 700 },
+        ],
+        error: null,
+      })
+
+      const used = await store.getTokensUsed(since)
+
+      expect(mockSelect).toHaveBeenCalledWith('input_tokens, output_tokens')
+      expect(used).toBe(4200)
+    })
+
+    it('should return 0 when nothing was recorded', async () => {
+      mockGte.mockResolvedValue({ data: [], error: null })
+
+      expect(await store.getTokensUsed(since)).toBe(0)
+    })
+
+    it('should throw on database error', async () => {
+      mockGte.mockReturnValue(awaitable({ data: null, error: { message: 'Database error' } }, { eq: mockEq }))
+      mockEq.mockResolvedValue({ data: null, error: { message: 'Database error' } })
+
+      await expect(store.getTokensUsed(since, 'films')).rejects.toThrow('Database error')
+    })
+  })
+})
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { IGroupStorage, StoredGroup } from '../../../lib/supabase/storage/IGroupStorage'
+import {
+  GroupSimilarityService,
+  compareTokens,
+  describeDuplicate,
+  normalizeTitle,
+  tokenizeConnection,
+  type ComparableGroup,
+} from '../GroupSimilarityService'
+
+const nolanFilms: ComparableGroup = {
+  id: 'existing-1',
+  connection: 'Films directed by Nolan',
+  items: [
+    { title: 'Inception', externalId: 27205 },
+    { title: 'Interstellar', externalId: 157336 },
+    { title: 'Tenet', externalId: 577922 },
+    { title: 'Memento', externalId: 77 },
+  ],
+}
+
+const createStoredGroup = (overrides: Partial<StoredGroup> = {}): StoredGroup => ({
+  id: 'stored-1',
+  createdAt: Date.now(),
+  items: [
+    { id: 27205, title: 'Inception', year: 2010 },
+    { id: 157336, title: 'Interstellar', year: 2014 },
+    { id: 577922, title: 'Tenet', year: 2020 },
+    { id: 77, title: 'Memento', year: 2000 },
+  ],
+  connection: 'Films directed by Nolan',
+  connectionType: 'people',
+  difficultyScore: 1,
+  color: 'yellow',
+  difficulty: 'easy',
+  status: 'approved',
+  usageCount: 0,
+  lastUsedAt: null,
+  genre: 'films',
+  ...overrides,
+})
+
+describe('GroupSimilarityService', () => {
+  describe('normalizeTitle', () => {
+    it('should ignore case, accents, punctuation and a leading article', () => {
+      expect(normalizeTitle('The Amélie!')).toBe('amelie')
+      expect(normalizeTitle('Se7en')).toBe('se7en')
+      expect(normalizeTitle('Crouching Tiger, Hidden Dragon')).toBe('crouching tiger hidden dragon')
+    })
+  })
+
+  describe('tokenizeConnection', () => {
+    it('should drop stop words and singularise', () => {
+      expect([...tokenizeConnection('Films directed by Nolan')]).toEqual(['nolan'])
+      expect([...tokenizeConnection('Songs about heists')]).toEqual(['heist'])
+    })
+  })
+
+  describe('compareTokens', () => {
+    it('should tolerate one extra qualifying word', () => {
+      expect(compareTokens(new Set(['nolan']), new Set(['christopher', 'nolan']))).toBe(1)
+    })
+
+    it('should not match a much more specific connection', () => {
+      expect(compareTokens(new Set(['nolan']), new Set(['nolan', 'time', 'travel']))).toBe(0.5)
+    })
+
+    it('should return 0 when either side has no meaningful words', () => {
+      expect(compareTokens(new Set(), new Set(['nolan']))).toBe(0)
+    })
+  })
+
+  describe('findDuplicates', () => {
+    it('should flag reworded connections', () => {
+      const service = new GroupSimilarityService([nolanFilms])
+
+      const [match] = service.findDuplicates({
+        connection: 'Christopher Nolan films',
+        items: [{ title: 'A' }, { title: 'B' }, { title: 'C' }, { title: 'D' }],
+      })
+
+      expect(match.group).toBe(nolanFilms)
+      expect(match.reasons).toEqual(['connection'])
+    })
+
+    it('should flag groups sharing three items by title', () => {
+      const service = new GroupSimilarityService([nolanFilms])
+
+      const [match] = service.findDuplicates({
+        connection: 'Mind-bending plots',
+        items: [{ title: 'inception' }, { title: 'Interstellar' }, { title: 'TENET' }, { title: 'Primer' }],
+      })
+
+      expect(match.reasons).toEqual(['items'])
+      expect(match.sharedItems).toBe(3)
+    })
+
+    it('should match items by externalId even when titles differ', () => {
+      const service = new GroupSimilarityService([nolanFilms])
+
+      const [match] = service.findDuplicates({
+        connection: 'Mind-bending plots',
+        items: [
+          { title: 'Origin', externalId: 27205 },
+          { title: 'Interstellar (2014)', externalId: '157336' },
+          { title: 'Tenet', externalId: null },
+          { title: 'Primer', externalId: 14337 },
+        ],
+      })
+
+      expect(match.sharedItems).toBe(3)
+    })
+
+    it('should not flag groups with two shared items and different wording', () => {
+      const service = new GroupSimilarityService([nolanFilms])
+
+      const matches = service.findDuplicates({
+        connection: 'One-word titles',
+        items: [{ title: 'Inception' }, { title: 'Tenet' }, { title: 'Drive' }, { title: 'Crash' }],
+      })
+
+      expect(matches).toEqual([])
+    })
+
+    it('should include groups added after construction', () => {
+      const service = new GroupSimilarityService()
+      service.add(nolanFilms)
+
+      expect(service.findDuplicates(nolanFilms)).toHaveLength(1)
+    })
+
+    it('should rank matches with more reasons first', () => {
+      const reworded: ComparableGroup = { connection: 'Nolan movies', items: [{ title: 'X' }] }
+      const service = new GroupSimilarityService([reworded, nolanFilms])
+
+      const matches = service.findDuplicates({ ...nolanFilms, id: undefined })
+
+      expect(matches.map((m) => m.group)).toEqual([nolanFilms, reworded])
+    })
+  })
+
+  describe('closestSimilarity', () => {
+    it('should be 0 for an empty pool', () => {
+      expect(new GroupSimilarityService().closestSimilarity(nolanFilms)).toBe(0)
+    })
+
+    it('should use the share of items found in the closest group', () => {
+      const service = new GroupSimilarityService([nolanFilms])
+
+      const similarity = service.closestSimilarity({
+        connection: 'Films with mind-bending plots',
+        items: [{ title: 'Inception' }, { title: 'Tenet' }, { title: 'Primer' }, { title: 'Coherence' }],
+      })
+
+      expect(similarity).toBe(0.5)
+    })
+
+    it('should use connection similarity when it is higher', () => {
+      const service = new GroupSimilarityService([nolanFilms])
+
+      expect(
+        service.closestSimilarity({ connection: 'Christopher Nolan films', items: [{ title: 'Heat' }] })
+      ).toBe(1)
+    })
+  })
+
+  describe('fromStoredGroups', () => {
+    it('should only compare against approved groups of the genre', () => {
+      const service = GroupSimilarityService.fromStoredGroups(
+        [
+          createStoredGroup({ id: 'pending', status: 'pending' }),
+          createStoredGroup({ id: 'music', genre: 'music' }),
+          createStoredGroup({ id: 'approved' }),
+        ],
+        'films'
+      )
+
+      const matches = service.findDuplicates(nolanFilms)
+
+      expect(matches.map((m) => m.group.id)).toEqual(['approved'])
+    })
+  })
+
+  describe('forGenre', () => {
+    it('should load the approved pool for the genre', async () => {
+      const groupStorage = {
+        listGroups: vi.fn().mockResolvedValue({ groups: [createStoredGroup()], total: 1 }),
+      } as unknown as IGroupStorage
+
+      const service = await GroupSimilarityService.forGenre(groupStorage, 'films')
+
+      expect(groupStorage.listGroups).toHaveBeenCalledWith(
+        expect.objectContaining({ genre: 'films', status: 'approved' })
+      )
+      expect(service.findDuplicates(nolanFilms)).toHaveLength(1)
+    })
+  })
+
+  describe('describeDuplicate', () => {
+    it('should describe each kind of match', () => {
+      const base = { group: nolanFilms, connectionSimilarity: 1, sharedItems: 4 }
+
+      expect(describeDuplicate({ ...base, reasons: ['connection'] })).toBe(
+        'Similar connection to "Films directed by Nolan"'
+      )
+      expect(describeDuplicate({ ...base, reasons: ['items'] })).toBe(
+        'Shares 4 items with "Films directed by Nolan"'
+      )
+      expect(describeDuplicate({ ...base, reasons: ['connection', 'items'] })).toBe(
+        'Same connection and 4 shared items as "Films directed by Nolan"'
+      )
+    })
+  })
+})
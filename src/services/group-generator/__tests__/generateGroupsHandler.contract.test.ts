@@ -0,0 +1,341 @@
+/**
+ * Generate Groups Handler Contract Tests
+ *
+ * Runs the same request/response contract against both adapters:
+ * the Vercel route and the Vite dev middleware.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import vercelHandler from '../../../../api/generate-groups-v2'
+import { createGenerateGroupsMiddleware } from '../generateGroupsMiddleware'
+import {
+  DEFAULT_MODEL_SETTINGS,
+  generateGroupsV2,
+  streamGroupsV2,
+  type GenerateGroupsV2Result,
+} from '../generateGroupsV2'
+import { createGenerationProvider, getProviderOptionsFromEnv } from '../providers/ProviderFactory'
+import type { ConnectionType } from '../types'
+
+vi.mock('../generateGroupsV2', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../generateGroupsV2')>()),
+  generateGroupsV2: vi.fn(),
+  streamGroupsV2: vi.fn(),
+}))
+
+const ENV_NAMES = [
+  'ANTHROPIC_API_KEY',
+  'VITE_ANTHROPIC_API_KEY',
+  'GENERATION_PROVIDER',
+  'GENERATION_MODEL',
+  'GENERATION_MAX_TOKENS',
+  'GENERATION_TEMPERATURE',
+  'GENERATION_STUB_SEED',
+] as const
+
+type TestEnv = Partial<Record<(typeof ENV_NAMES)[number], string>>
+
+const withKey: TestEnv = { ANTHROPIC_API_KEY: 'test-key' }
+
+interface AdapterResponse {
+  status: number
+  body: Record<string, unknown>
+  contentType?: string
+  /** Parsed NDJSON lines for streamed responses */
+  events: Record<string, unknown>[]
+}
+
+interface Adapter {
+  name: string
+  send: (method: string, body: unknown, env: TestEnv) => Promise<AdapterResponse>
+}
+
+const vercelAdapter: Adapter = {
+  name: 'Vercel route',
+  send: async (method, body, env) => {
+    for (const name of ENV_NAMES) {
+      vi.stubEnv(name, env[name])
+    }
+
+    const captured: AdapterResponse = { status: 0, body: {}, events: [] }
+    const res = {
+      status(code: number) {
+        captured.status = code
+        return res
+      },
+      json(data: Record<string, unknown>) {
+        captured.body = data
+        return res
+      },
+      setHeader(name: string, value: string) {
+        if (name === 'Content-Type') captured.contentType = value
+        return res
+      },
+      write(chunk: string) {
+        captured.events.push(JSON.parse(chunk))
+        return true
+      },
+      end() {
+        return res
+      },
+    }
+
+    await vercelHandler(
+      { method, body } as unknown as VercelRequest,
+      res as unknown as VercelResponse
+    )
+    return captured
+  },
+}
+
+const devMiddlewareAdapter: Adapter = {
+  name: 'Vite dev middleware',
+  send: async (method, body, env) => {
+    const middleware = createGenerateGroupsMiddleware(() =>
+      createGenerationProvider(getProviderOptionsFromEnv(env))
+    )
+    const raw = body === undefined ? '' : JSON.stringify(body)
+
+    const req = {
+      url: '/api/generate-groups-v2',
+      method,
+      on: (event: string, callback: (chunk: Buffer) => void) => {
+        if (event === 'data' && raw) callback(Buffer.from(raw))
+        if (event === 'end') callback(Buffer.from(''))
+      },
+    }
+
+    const captured: AdapterResponse = { status: 0, body: {}, events: [] }
+    const res = {
+      statusCode: 0,
+      setHeader: (name: string, value: string) => {
+        if (name === 'Content-Type') captured.contentType = value
+      },
+      write: (chunk: string) => {
+        captured.events.push(JSON.parse(chunk))
+      },
+      end: (data?: string) => {
+        captured.status = res.statusCode
+        if (data !== undefined) captured.body = JSON.parse(data)
+      },
+    }
+
+    await middleware(req, res, () => {
+      throw new Error('next() should not be called for the generate route')
+    })
+    return captured
+  },
+}
+
+const connectionTypes: ConnectionType[] = [
+  {
+    id: '1',
+    name: 'Titles that are verbs',
+    category: 'word-game',
+    description: 'One-word verb titles',
+    active: true,
+    createdAt: new Date(),
+    genre: 'films',
+  },
+]
+
+const validBody = {
+  filters: { genre: 'films' },
+  connectionTypes,
+  goodExamples: [],
+  badExamples: [],
+  count: 5,
+}
+
+const generated: GenerateGroupsV2Result = {
+  groups: [
+    {
+      id: 'group-1',
+      items: [
+        { title: 'Run', year: 2020, externalId: null, verified: false },
+        { title: 'Drive', year: 2011, externalId: null, verified: false },
+        { title: 'Crash', year: 2004, externalId: null, verified: false },
+        { title: 'Taken', year: 2008, externalId: null, verified: false },
+      ],
+      connection: 'Titles that are verbs',
+      connectionType: 'Titles that are verbs',
+      explanation: 'Each title is a verb.',
+      allItemsVerified: false,
+    },
+  ],
+  validationErrors: [{ index: 1, connection: 'Bad group', errors: ['Expected 4 items, got 2'] }],
+  tokensUsed: { input: 100, output: 200 },
+}
+
+describe.each([vercelAdapter, devMiddlewareAdapter])('generate-groups contract: $name', (adapter) => {
+  beforeEach(() => {
+    vi.mocked(generateGroupsV2).mockReset()
+    vi.mocked(streamGroupsV2).mockReset()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('should return generated groups and validation errors', async () => {
+    vi.mocked(generateGroupsV2).mockResolvedValue(generated)
+
+    const response = await adapter.send('POST', validBody, withKey)
+
+    expect(response.status).toBe(200)
+    expect(response.body).toEqual(JSON.parse(JSON.stringify(generated)))
+    expect(generateGroupsV2).toHaveBeenCalledWith(
+      'test-key',
+      { genre: 'films' },
+      [expect.objectContaining({ name: 'Titles that are verbs' })],
+      5,
+      [],
+      [],
+      DEFAULT_MODEL_SETTINGS
+    )
+  })
+
+  it('should default optional fields', async () => {
+    vi.mocked(generateGroupsV2).mockResolvedValue(generated)
+
+    const response = await adapter.send('POST', { connectionTypes, count: 1 }, withKey)
+
+    expect(response.status).toBe(200)
+    expect(generateGroupsV2).toHaveBeenCalledWith(
+      'test-key',
+      {},
+      expect.any(Array),
+      1,
+      [],
+      [],
+      DEFAULT_MODEL_SETTINGS
+    )
+  })
+
+  it('should pass model settings from the environment', async () => {
+    vi.mocked(generateGroupsV2).mockResolvedValue(generated)
+
+    await adapter.send('POST', validBody, {
+      ...withKey,
+      GENERATION_MODEL: 'claude-test-model',
+      GENERATION_MAX_TOKENS: '1024',
+      GENERATION_TEMPERATURE: '0.2',
+    })
+
+    expect(vi.mocked(generateGroupsV2).mock.calls[0][6]).toEqual({
+      model: 'claude-test-model',
+      maxTokens: 1024,
+      temperature: 0.2,
+    })
+  })
+
+  it('should serve stub groups offline without an API key', async () => {
+    const response = await adapter.send('POST', validBody, { GENERATION_PROVIDER: 'stub' })
+
+    expect(response.status).toBe(200)
+    expect(response.body.groups).toHaveLength(5)
+    expect(response.body.tokensUsed).toEqual({ input: 0, output: 0 })
+    expect(generateGroupsV2).not.toHaveBeenCalled()
+  })
+
+  it('should reject non-POST methods with 405', async () => {
+    const response = await adapter.send('GET', undefined, withKey)
+
+    expect(response.status).toBe(405)
+    expect(response.body.error).toBe('Method not allowed')
+  })
+
+  it('should return 500 when the API key is missing', async () => {
+    const response = await adapter.send('POST', validBody, {})
+
+    expect(response.status).toBe(500)
+    expect(response.body.error).toBe('API key not configured')
+    expect(generateGroupsV2).not.toHaveBeenCalled()
+  })
+
+  it('should return 400 when the body is missing', async () => {
+    const response = await adapter.send('POST', undefined, withKey)
+
+    expect(response.status).toBe(400)
+    expect(generateGroupsV2).not.toHaveBeenCalled()
+  })
+
+  it('should return 400 when no connection types are supplied', async () => {
+    const response = await adapter.send('POST', { ...validBody, connectionTypes: [] }, withKey)
+
+    expect(response.status).toBe(400)
+    expect(response.body.error).toBe('At least one connection type required')
+  })
+
+  it.each([0, 31, 2.5, '5'])('should return 400 for count %s', async (count) => {
+    const response = await adapter.send('POST', { ...validBody, count }, withKey)
+
+    expect(response.status).toBe(400)
+    expect(response.body.error).toBe('Count must be between 1 and 30')
+  })
+
+  it('should return 500 with the error message when generation fails', async () => {
+    vi.mocked(generateGroupsV2).mockRejectedValue(new Error('No tool use in AI response'))
+
+    const response = await adapter.send('POST', validBody, withKey)
+
+    expect(response.status).toBe(500)
+    expect(response.body.error).toBe('No tool use in AI response')
+  })
+  it('should stream groups as NDJSON when stream is true', async () => {
+    const response = await adapter.send(
+      'POST',
+      { ...validBody, stream: true },
+      { GENERATION_PROVIDER: 'stub' }
+    )
+
+    expect(response.status).toBe(200)
+    expect(response.contentType).toBe('application/x-ndjson')
+    expect(response.events.map((e) => e.type)).toEqual([
+      'group',
+      'group',
+      'group',
+      'group',
+      'group',
+      'done',
+    ])
+  })
+
+  it('should pass invalid groups through the stream', async () => {
+    vi.mocked(streamGroupsV2).mockImplementation(async function* () {
+      yield { type: 'group', group: generated.groups[0] }
+      yield { type: 'invalid', error: generated.validationErrors[0] }
+      yield { type: 'done', tokensUsed: generated.tokensUsed }
+    })
+
+    const response = await adapter.send('POST', { ...validBody, stream: true }, withKey)
+
+    expect(response.events).toEqual([
+      { type: 'group', group: JSON.parse(JSON.stringify(generated.groups[0])) },
+      { type: 'invalid', error: generated.validationErrors[0] },
+      { type: 'done', tokensUsed: generated.tokensUsed },
+    ])
+  })
+
+  it('should end the stream with an error event when generation fails', async () => {
+    vi.mocked(streamGroupsV2).mockImplementation(async function* () {
+      yield { type: 'group', group: generated.groups[0] }
+      throw new Error('Connection reset')
+    })
+
+    const response = await adapter.send('POST', { ...validBody, stream: true }, withKey)
+
+    expect(response.status).toBe(200)
+    expect(response.events[response.events.length - 1]).toEqual({ type: 'error', error: 'Connection reset' })
+  })
+
+  it('should return 400 for a non-boolean stream flag', async () => {
+    const response = await adapter.send('POST', { ...validBody, stream: 'yes' }, withKey)
+
+    expect(response.status).toBe(400)
+    expect(response.body.error).toBe('Stream must be a boolean')
+  })
+})
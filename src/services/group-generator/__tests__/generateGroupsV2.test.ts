@@ -0,0 +1,134 @@
+/**
+ * generateGroupsV2 Streaming Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { streamGroupsV2 } from '../generateGroupsV2'
+import type { ConnectionType, GroupStreamEvent } from '../types'
+
+const mockStream = vi.fn()
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    messages = { stream: mockStream }
+  },
+}))
+
+const connectionTypes: ConnectionType[] = [
+  {
+    id: '1',
+    name: 'Titles that are verbs',
+    category: 'word-game',
+    description: 'One-word verb titles',
+    active: true,
+    createdAt: new Date(),
+    genre: 'films',
+  },
+]
+
+const validGroup = {
+  items: [
+    { title: 'Run', year: 2020 },
+    { title: 'Drive', year: 2011 },
+    { title: 'Crash', year: 2004 },
+    { title: 'Taken', year: 2008 },
+  ],
+  connection: 'Titles that are verbs',
+  connectionType: 'Titles that are verbs',
+  explanation: 'Each title is an action verb.',
+}
+
+/**
+ * Fake MessageStream: emits the tool input as input_json_delta chunks
+ */
+function createMessageStream(toolInput: unknown, chunkSize = 16) {
+  const json = JSON.stringify(toolInput)
+  const chunks: string[] = []
+  for (let i = 0; i < json.length; i += chunkSize) {
+    chunks.push(json.slice(i, i + chunkSize))
+  }
+
+  return {
+    async *[Symbol.asyncIterator]() {
+      yield { type: 'content_block_start', index: 0 }
+      for (const partial_json of chunks) {
+        yield {
+          type: 'content_block_delta',
+          index: 0,
+          delta: { type: 'input_json_delta', partial_json },
+        }
+      }
+    },
+    finalMessage: async () => ({
+      content: [{ type: 'tool_use', name: 'submit_groups', input: toolInput }],
+      model: 'claude-sonnet-4-20250514',
+      usage: { input_tokens: 100, output_tokens: 200 },
+    }),
+  }
+}
+
+async function collect(events: AsyncIterable<GroupStreamEvent>): Promise<GroupStreamEvent[]> {
+  const result: GroupStreamEvent[] = []
+  for await (const event of events) result.push(event)
+  return result
+}
+
+const stream = () =>
+  streamGroupsV2('test-key', { genre: 'films' }, connectionTypes, 2, [], [])
+
+describe('streamGroupsV2', () => {
+  beforeEach(() => {
+    mockStream.mockReset()
+  })
+
+  it('should emit valid and invalid groups in order, then done', async () => {
+    const shortGroup = { ...validGroup, connection: 'Too short', items: validGroup.items.slice(0, 2) }
+    mockStream.mockReturnValue(createMessageStream({ groups: [validGroup, shortGroup] }))
+
+    const events = await collect(stream())
+
+    expect(events.map((e) => e.type)).toEqual(['group', 'invalid', 'done'])
+    expect(events[0]).toMatchObject({ group: { connection: 'Titles that are verbs', allItemsVerified: false } })
+    expect(events[1]).toEqual({
+      type: 'invalid',
+      error: { index: 1, connection: 'Too short', errors: ['Expected 4 items, got 2'] },
+    })
+    expect(events[2]).toEqual({
+      type: 'done',
+      tokensUsed: { input: 100, output: 200 },
+      model: 'claude-sonnet-4-20250514',
+    })
+  })
+
+  it('should emit the first group before the response is complete', async () => {
+    mockStream.mockReturnValue(createMessageStream({ groups: [validGroup, validGroup] }))
+
+    const iterator = stream()[Symbol.asyncIterator]()
+    const first = await iterator.next()
+
+    expect(first.value).toMatchObject({ type: 'group' })
+    await iterator.return?.(undefined)
+  })
+
+  it('should pass model settings to the SDK', async () => {
+    mockStream.mockReturnValue(createMessageStream({ groups: [] }))
+
+    await collect(
+      streamGroupsV2('test-key', { genre: 'films' }, connectionTypes, 1, [], [], {
+        model: 'claude-test-model',
+        maxTokens: 1024,
+        temperature: 0.3,
+      })
+    )
+
+    expect(mockStream).toHaveBeenCalledWith(
+      expect.objectContaining({ model: 'claude-test-model', max_tokens: 1024, temperature: 0.3 })
+    )
+  })
+
+  it('should throw when the tool input has no groups array', async () => {
+    mockStream.mockReturnValue(createMessageStream({ something: 'else' }))
+
+    await expect(collect(stream())).rejects.toThrow('groups array')
+  })
+})
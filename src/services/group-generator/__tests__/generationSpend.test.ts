@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import type { GenerationLedgerEntry } from '../types'
+import {
+  estimateCost,
+  getModelPricing,
+  getMonthStart,
+  getTokenBudgetStatus,
+  summarizeSpend,
+} from '../generationSpend'
+
+const createEntry = (overrides: Partial<GenerationLedgerEntry> = {}): GenerationLedgerEntry => ({
+  id: 'entry-1',
+  createdAt: new Date('2025-03-04T10:00:00Z'),
+  genre: 'films',
+  targetDifficulty: 'easy',
+  requestedCount: 10,
+  returnedCount: 10,
+  droppedCount: 0,
+  inputTokens: 1_000_000,
+  outputTokens: 100_000,
+  model: 'claude-sonnet-4-20250514',
+  provider: 'anthropic',
+  caller: 'cron',
+  ...overrides,
+})
+
+describe('generationSpend', () => {
+  describe('getMonthStart', () => {
+    it('should return midnight UTC on the first of the month', () => {
+      expect(getMonthStart(new Date('2025-03-31T23:59:59Z')).toISOString()).toBe(
+        '2025-03-01T00:00:00.000Z'
+      )
+    })
+  })
+
+  describe('getModelPricing', () => {
+    it('should match dated model ids by family prefix', () => {
+      expect(getModelPricing('claude-sonnet-4-20250514')).toEqual({ input: 3, output: 15 })
+    })
+
+    it('should prefer the longest matching prefix', () => {
+      expect(getModelPricing('claude-haiku-4-5-20251001')).toEqual({ input: 1, output: 5 })
+    })
+
+    it('should return null for unknown models', () => {
+      expect(getModelPricing('some-other-model')).toBeNull()
+    })
+  })
+
+  describe('estimateCost', () => {
+    it('should price input and output tokens per million', () => {
+      expect(estimateCost('claude-sonnet-4-20250514', 1_000_000, 100_000)).toBeCloseTo(4.5)
+    })
+
+    it('should be free for the stub provider', () => {
+      expect(estimateCost('stub', 0, 0)).toBe(0)
+    })
+
+    it('should return null for unknown models', () => {
+      expect(estimateCost('some-other-model', 10, 10)).toBeNull()
+    })
+  })
+
+  describe('getTokenBudgetStatus', () => {
+    it('should report remaining tokens', () => {
+      expect(getTokenBudgetStatus(400, 1000)).toEqual({
+        used: 400,
+        budget: 1000,
+        remaining: 600,
+        exhausted: false,
+      })
+    })
+
+    it('should be exhausted once usage reaches the budget', () => {
+      expect(getTokenBudgetStatus(1200, 1000)).toMatchObject({ remaining: 0, exhausted: true })
+    })
+  })
+
+  describe('summarizeSpend', () => {
+    it('should total entries overall, per caller and per model', () => {
+      const summary = summarizeSpend([
+        createEntry(),
+        createEntry({ id: 'entry-2', caller: 'generator-page' }),
+        createEntry({ id: 'entry-3', model: 'stub', provider: 'stub', inputTokens: 0, outputTokens: 0 }),
+      ])
+
+      expect(summary.total.calls).toBe(3)
+      expect(summary.total.inputTokens).toBe(2_000_000)
+      expect(summary.total.estimatedCost).toBeCloseTo(9)
+      expect(summary.byCaller.cron.calls).toBe(2)
+      expect(summary.byCaller['generator-page'].estimatedCost).toBeCloseTo(4.5)
+      expect(summary.byCaller['fill-now'].calls).toBe(0)
+      expect(summary.byCaller.cli.calls).toBe(0)
+      expect(Object.keys(summary.byModel)).toEqual(['claude-sonnet-4-20250514', 'stub'])
+    })
+
+    it('should flag totals that include unpriced models', () => {
+      const summary = summarizeSpend([createEntry({ model: 'some-other-model' })])
+
+      expect(summary.total.hasUnpricedModels).toBe(true)
+      expect(summary.total.estimatedCost).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,136 @@
+/**
+ * groupSchema Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  SUBMIT_GROUPS_TOOL_NAME,
+  buildGroupsTool,
+  validateGroups,
+} from '../groupSchema'
+import { getDomainConfig } from '../domainConfig'
+import type { ConnectionType } from '../types'
+
+const connectionTypes: ConnectionType[] = [
+  {
+    id: '1',
+    name: 'Titles that are verbs',
+    category: 'word-game',
+    description: 'One-word verb titles',
+    active: true,
+    createdAt: new Date(),
+    genre: 'films',
+  },
+  {
+    id: '2',
+    name: 'Same director',
+    category: 'people',
+    description: 'Films by one director',
+    active: true,
+    createdAt: new Date(),
+    genre: 'films',
+  },
+]
+
+const validGroup = {
+  items: [
+    { title: 'Run', year: 2020 },
+    { title: 'Drive', year: 2011 },
+    { title: 'Crash', year: 2004 },
+    { title: 'Taken', year: 2008 },
+  ],
+  connection: 'Titles that are verbs',
+  connectionType: 'Titles that are verbs',
+  explanation: 'Each title is an action verb.',
+}
+
+describe('buildGroupsTool', () => {
+  it('should declare the submit_groups tool', () => {
+    const tool = buildGroupsTool(getDomainConfig('films'), connectionTypes)
+
+    expect(tool.name).toBe(SUBMIT_GROUPS_TOOL_NAME)
+    expect(tool.input_schema.required).toEqual(['groups'])
+  })
+
+  it('should constrain connectionType to the supplied types', () => {
+    const tool = buildGroupsTool(getDomainConfig('films'), connectionTypes)
+    const schema = JSON.stringify(tool.input_schema)
+
+    expect(schema).toContain('"enum":["Titles that are verbs","Same director"]')
+  })
+
+  it('should omit year for genres without a year label', () => {
+    const tool = buildGroupsTool(getDomainConfig('music'), connectionTypes)
+    const schema = JSON.stringify(tool.input_schema)
+
+    expect(schema).not.toContain('"year"')
+  })
+})
+
+describe('validateGroups', () => {
+  it('should accept valid groups', () => {
+    const result = validateGroups({ groups: [validGroup] }, connectionTypes)
+
+    expect(result.groups).toHaveLength(1)
+    expect(result.validationErrors).toEqual([])
+    expect(result.groups[0].items[1]).toEqual({ title: 'Drive', year: 2011 })
+  })
+
+  it('should throw when the groups array is missing', () => {
+    expect(() => validateGroups({}, connectionTypes)).toThrow('groups array')
+    expect(() => validateGroups(null, connectionTypes)).toThrow('groups array')
+  })
+
+  it('should drop groups with the wrong item count and keep the rest', () => {
+    const shortGroup = { ...validGroup, connection: 'Too short', items: validGroup.items.slice(0, 3) }
+
+    const result = validateGroups({ groups: [shortGroup, validGroup] }, connectionTypes)
+
+    expect(result.groups).toHaveLength(1)
+    expect(result.validationErrors).toEqual([
+      { index: 0, connection: 'Too short', errors: ['Expected 4 items, got 3'] },
+    ])
+  })
+
+  it('should drop groups with an unknown connectionType', () => {
+    const badType = { ...validGroup, connectionType: 'Made-up type' }
+
+    const result = validateGroups({ groups: [badType] }, connectionTypes)
+
+    expect(result.groups).toHaveLength(0)
+    expect(result.validationErrors[0].errors).toEqual(['Unknown connectionType "Made-up type"'])
+  })
+
+  it('should allow any connectionType when none are supplied', () => {
+    const result = validateGroups({ groups: [{ ...validGroup, connectionType: 'anything' }] }, [])
+
+    expect(result.groups).toHaveLength(1)
+  })
+
+  it('should report every problem with a malformed group', () => {
+    const malformed = {
+      items: [{ title: '' }, { title: 'Drive', year: '2011' }, { title: 'drive' }, 'Taken'],
+      connectionType: 'Same director',
+    }
+
+    const result = validateGroups({ groups: [malformed] }, connectionTypes)
+
+    expect(result.validationErrors[0].connection).toBeUndefined()
+    expect(result.validationErrors[0].errors).toEqual([
+      'Missing connection',
+      'Missing explanation',
+      'Item 1 is missing a title',
+      'Item "Drive" has an invalid year',
+      'Duplicate item "drive"',
+      'Item 4 is missing a title',
+    ])
+  })
+
+  it('should report non-object groups', () => {
+    const result = validateGroups({ groups: ['not a group'] }, connectionTypes)
+
+    expect(result.validationErrors).toEqual([
+      { index: 0, connection: undefined, errors: ['Group is not an object'] },
+    ])
+  })
+})
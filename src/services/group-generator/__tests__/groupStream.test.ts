@@ -0,0 +1,139 @@
+/**
+ * groupStream Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  GroupStreamParser,
+  collectGroupStream,
+  readNdjsonEvents,
+  toNdjsonLines,
+} from '../groupStream'
+import type { GeneratedGroup, GroupStreamEvent } from '../types'
+
+const group = (connection: string) => ({
+  items: [{ title: 'A {1}' }, { title: 'B "quoted"' }, { title: 'C ]' }, { title: 'D' }],
+  connection,
+  connectionType: 'Same director',
+  explanation: 'Braces } and brackets [ inside strings',
+})
+
+const generatedGroup: GeneratedGroup = {
+  id: 'g1',
+  items: [],
+  connection: 'Test',
+  connectionType: 'Same director',
+  explanation: '',
+  allItemsVerified: false,
+}
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+  for (const item of items) yield item
+}
+
+function toBody(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    },
+  })
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = []
+  for await (const item of iterable) result.push(item)
+  return result
+}
+
+describe('GroupStreamParser', () => {
+  it('should emit each group as soon as it is complete', () => {
+    const json = JSON.stringify({ groups: [group('First'), group('Second')] })
+    const secondStart = json.indexOf('{"items"', 20)
+    const parser = new GroupStreamParser()
+
+    expect(parser.push(json.slice(0, secondStart - 1))).toEqual([group('First')])
+    expect(parser.push(json.slice(secondStart - 1, -5))).toEqual([])
+    expect(parser.push(json.slice(-5))).toEqual([group('Second')])
+  })
+
+  it('should handle chunks split at every character', () => {
+    const json = JSON.stringify({ groups: [group('One'), group('Two'), group('Three')] })
+    const parser = new GroupStreamParser()
+
+    const groups = json.split('').flatMap((char) => parser.push(char))
+
+    expect(groups).toEqual([group('One'), group('Two'), group('Three')])
+  })
+
+  it('should emit non-object elements so validation can report them', () => {
+    const parser = new GroupStreamParser()
+
+    expect(parser.push('{"groups": ["te,xt", 4, {"connection": "x"}, null]}')).toEqual([
+      'te,xt',
+      4,
+      { connection: 'x' },
+      null,
+    ])
+  })
+})
+
+describe('collectGroupStream', () => {
+  it('should collect groups, validation errors and token usage', async () => {
+    const result = await collectGroupStream(
+      fromArray<GroupStreamEvent>([
+        { type: 'group', group: generatedGroup },
+        { type: 'invalid', error: { index: 1, errors: ['Missing connection'] } },
+        { type: 'done', tokensUsed: { input: 10, output: 20 } },
+      ])
+    )
+
+    expect(result).toEqual({
+      groups: [generatedGroup],
+      validationErrors: [{ index: 1, errors: ['Missing connection'] }],
+      tokensUsed: { input: 10, output: 20 },
+    })
+  })
+})
+
+describe('NDJSON encoding', () => {
+  it('should round-trip events through toNdjsonLines and readNdjsonEvents', async () => {
+    const events: GroupStreamEvent[] = [
+      { type: 'group', group: generatedGroup },
+      { type: 'done', tokensUsed: { input: 1, output: 2 } },
+    ]
+    const lines = await collect(toNdjsonLines(fromArray(events)))
+
+    // Split mid-line to simulate network chunking
+    const joined = lines.join('')
+    const decoded = await collect(readNdjsonEvents(toBody([joined.slice(0, 7), joined.slice(7)])))
+
+    expect(decoded).toEqual(events)
+  })
+
+  it('should turn a mid-stream failure into an error line', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    async function* failing(): AsyncGenerator<GroupStreamEvent> {
+      yield { type: 'group', group: generatedGroup }
+      throw new Error('Overloaded')
+    }
+
+    const lines = await collect(toNdjsonLines(failing()))
+
+    expect(JSON.parse(lines[1])).toEqual({ type: 'error', error: 'Overloaded' })
+    vi.restoreAllMocks()
+  })
+
+  it('should throw the server error when reading an error line', async () => {
+    const body = toBody([`${JSON.stringify({ type: 'error', error: 'Overloaded' })}\n`])
+
+    await expect(collect(readNdjsonEvents(body))).rejects.toThrow('Overloaded')
+  })
+
+  it('should throw when the stream ends without a done event', async () => {
+    const body = toBody([`${JSON.stringify({ type: 'group', group: generatedGroup })}\n`])
+
+    await expect(collect(readNdjsonEvents(body))).rejects.toThrow('ended unexpectedly')
+  })
+})
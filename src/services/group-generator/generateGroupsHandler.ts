@@ -0,0 +1,149 @@
+/**
+ * Generate Groups Handler
+ *
+ * Framework-neutral request handler for /api/generate-groups-v2.
+ * Validates the request and delegates generation to the configured provider.
+ * With `stream: true` in the body, groups are returned as NDJSON events as they are generated.
+ * The Vercel route and the Vite dev middleware are thin adapters around it.
+ */
+
+import type {
+  ConnectionType,
+  FeedbackRecord,
+  GenerationFilters,
+  IGroupGenerationProvider,
+} from './types'
+import type { GenerateGroupsV2Result } from './generateGroupsV2'
+import { toNdjsonLines } from './groupStream'
+
+/** Route served by both adapters */
+export const GENERATE_GROUPS_PATH = '/api/generate-groups-v2'
+
+/** Maximum groups per request (keeps a single reply within the token limit) */
+export const MAX_GROUPS_PER_REQUEST = 30
+
+/**
+ * Incoming request, already stripped of framework details
+ */
+export interface GenerateGroupsHandlerRequest {
+  method?: string
+  /** Parsed JSON body */
+  body: unknown
+}
+
+/**
+ * Outgoing response: a JSON body, or NDJSON lines for the adapter to write as they arrive
+ */
+export type GenerateGroupsHandlerResponse =
+  | { status: number; body: GenerateGroupsV2Result | { error: string } }
+  | { status: 200; stream: AsyncIterable<string> }
+
+/**
+ * Dependencies supplied by the adapter
+ */
+export interface GenerateGroupsHandlerDeps {
+  /** Generation provider built from the adapter's environment (null when no API key is configured) */
+  provider: IGroupGenerationProvider | null
+}
+
+/**
+ * Validated request body
+ */
+interface GenerateGroupsBody {
+  filters: GenerationFilters
+  connectionTypes: ConnectionType[]
+  goodExamples: FeedbackRecord[]
+  badExamples: FeedbackRecord[]
+  count: number
+  stream: boolean
+}
+
+/**
+ * Handle a generate-groups request.
+ * Never throws: every failure is returned as a JSON error response.
+ */
+export async function handleGenerateGroupsRequest(
+  request: GenerateGroupsHandlerRequest,
+  deps: GenerateGroupsHandlerDeps
+): Promise<GenerateGroupsHandlerResponse> {
+  if (request.method !== 'POST') {
+    return errorResponse(405, 'Method not allowed')
+  }
+
+  if (!deps.provider) {
+    console.error('ANTHROPIC_API_KEY not configured')
+    return errorResponse(500, 'API key not configured')
+  }
+
+  const parsed = parseBody(request.body)
+  if ('error' in parsed) {
+    return errorResponse(400, parsed.error)
+  }
+
+  const { filters, connectionTypes, goodExamples, badExamples, count, stream } = parsed
+  const generationRequest = { filters, connectionTypes, count, goodExamples, badExamples }
+
+  if (stream) {
+    return {
+      status: 200,
+      stream: toNdjsonLines(deps.provider.streamGroups(generationRequest)),
+    }
+  }
+
+  try {
+    const result = await deps.provider.generateGroups(generationRequest)
+    return { status: 200, body: result }
+  } catch (error) {
+    console.error('Error generating groups:', error)
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : 'Failed to generate groups'
+    )
+  }
+}
+
+/**
+ * Validate the request body and fill in optional fields
+ */
+function parseBody(body: unknown): GenerateGroupsBody | { error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' }
+  }
+
+  const { filters, connectionTypes, goodExamples, badExamples, count, stream } =
+    body as Partial<Record<keyof GenerateGroupsBody, unknown>>
+
+  if (!Array.isArray(connectionTypes) || connectionTypes.length === 0) {
+    return { error: 'At least one connection type required' }
+  }
+
+  if (
+    typeof count !== 'number' ||
+    !Number.isInteger(count) ||
+    count < 1 ||
+    count > MAX_GROUPS_PER_REQUEST
+  ) {
+    return { error: `Count must be between 1 and ${MAX_GROUPS_PER_REQUEST}` }
+  }
+
+  if (filters !== undefined && (typeof filters !== 'object' || filters === null)) {
+    return { error: 'Filters must be an object' }
+  }
+
+  if (stream !== undefined && typeof stream !== 'boolean') {
+    return { error: 'Stream must be a boolean' }
+  }
+
+  return {
+    filters: (filters ?? {}) as GenerationFilters,
+    connectionTypes: connectionTypes as ConnectionType[],
+    goodExamples: Array.isArray(goodExamples) ? (goodExamples as FeedbackRecord[]) : [],
+    badExamples: Array.isArray(badExamples) ? (badExamples as FeedbackRecord[]) : [],
+    count,
+    stream: stream ?? false,
+  }
+}
+
+function errorResponse(status: number, error: string): GenerateGroupsHandlerResponse {
+  return { status, body: { error } }
+}
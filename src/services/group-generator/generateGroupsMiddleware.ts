@@ -0,0 +1,97 @@
+/**
+ * Generate Groups Dev Middleware
+ *
+ * Connect-style adapter that serves /api/generate-groups-v2 from the Vite dev server.
+ * Mirrors the Vercel route by delegating to handleGenerateGroupsRequest.
+ */
+
+import {
+  GENERATE_GROUPS_PATH,
+  handleGenerateGroupsRequest,
+} from './generateGroupsHandler'
+import { NDJSON_CONTENT_TYPE } from './groupStream'
+import type { IGroupGenerationProvider } from './types'
+
+export type ServerMiddlewareReq = {
+  url?: string
+  method?: string
+  on: (event: string, callback: (chunk: Buffer) => void) => void
+}
+
+export type ServerMiddlewareRes = {
+  statusCode: number
+  setHeader: (name: string, value: string) => void
+  write: (chunk: string) => void
+  end: (data?: string) => void
+}
+
+export type ServerMiddlewareHandler = (
+  req: ServerMiddlewareReq,
+  res: ServerMiddlewareRes,
+  next: () => void
+) => void | Promise<void>
+
+/**
+ * Helper to read request body as a string
+ */
+export function readBody(req: ServerMiddlewareReq): Promise<string> {
+  return new Promise((resolve) => {
+    let body = ''
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString()
+    })
+    req.on('end', () => {
+      resolve(body)
+    })
+  })
+}
+
+function sendJson(res: ServerMiddlewareRes, status: number, body: unknown): void {
+  res.statusCode = status
+  res.setHeader('Content-Type', 'application/json')
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * Create the dev middleware for /api/generate-groups-v2.
+ *
+ * @param getProvider - Builds the provider per request (so .env changes apply without restart)
+ */
+export function createGenerateGroupsMiddleware(
+  getProvider: () => IGroupGenerationProvider | null
+): ServerMiddlewareHandler {
+  return async (req, res, next) => {
+    if (req.url !== GENERATE_GROUPS_PATH) {
+      next()
+      return
+    }
+
+    let body: unknown
+    if (req.method === 'POST') {
+      try {
+        body = JSON.parse(await readBody(req))
+      } catch {
+        sendJson(res, 400, { error: 'Request body must be valid JSON' })
+        return
+      }
+    }
+
+    const result = await handleGenerateGroupsRequest(
+      { method: req.method, body },
+      { provider: getProvider() }
+    )
+
+    if ('stream' in result) {
+      res.statusCode = result.status
+      res.setHeader('Content-Type', NDJSON_CONTENT_TYPE)
+      res.setHeader('Cache-Control', 'no-cache')
+      for await (const line of result.stream) {
+        res.write(line)
+      }
+      res.end()
+      return
+    }
+
+    sendJson(res, result.status, result.body)
+  }
+}
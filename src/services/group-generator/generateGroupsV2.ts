@@ -3,7 +3,9 @@
  *
  * Shared logic for generating connection groups using Claude.
  * Supports multiple genres (films, music, books, sports).
- * Used by both Vite dev server and Vercel API route.
+ * Wrapped by AnthropicGenerationProvider, which the generate-groups handler
+ * (Vite dev server and Vercel API route) and the pipeline CLI use.
+ * streamGroupsV2 emits each group as soon as Claude has written it.
  */
 
 import Anthropic from '@anthropic-ai/sdk'
@@ -12,33 +14,31 @@ import type {
   ConnectionType,
   FeedbackRecord,
   GeneratedGroup,
+  GroupGenerationResult,
+  GroupStreamEvent,
+  ModelSettings,
   VerifiedItem,
 } from './types'
 import { getDomainConfig, type DomainConfig } from './domainConfig'
+import {
+  SUBMIT_GROUPS_TOOL_NAME,
+  buildGroupsTool,
+  validateGroupInput,
+  validateGroups,
+  type AIGroup,
+} from './groupSchema'
+import { GroupStreamParser, readNdjsonEvents } from './groupStream'
 
-interface AIItemResponse {
-  title: string
-  year?: number
-}
-
-interface AIGroupResponse {
-  items: AIItemResponse[]
-  connection: string
-  connectionType: string
-  explanation: string
-}
+/** Most recent existing connections listed in the prompt (keeps the prompt bounded) */
+export const MAX_EXCLUDED_CONNECTIONS = 100
 
-interface AIResponse {
-  groups: AIGroupResponse[]
+/** Model settings used when none are configured */
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  model: 'claude-sonnet-4-20250514',
+  maxTokens: 8192,
 }
 
-export interface GenerateGroupsV2Result {
-  groups: GeneratedGroup[]
-  tokensUsed: {
-    input: number | undefined
-    output: number | undefined
-  }
-}
+export type GenerateGroupsV2Result = GroupGenerationResult
 
 export async function generateGroupsV2(
   apiKey: string,
@@ -46,7 +46,8 @@ export async function generateGroupsV2(
   connectionTypes: ConnectionType[],
   count: number,
   goodExamples: FeedbackRecord[],
-  badExamples: FeedbackRecord[]
+  badExamples: FeedbackRecord[],
+  settings: ModelSettings = DEFAULT_MODEL_SETTINGS
 ): Promise<GenerateGroupsV2Result> {
   const genre = filters.genre || 'films'
   const domainConfig = getDomainConfig(genre)
@@ -54,28 +55,112 @@ export async function generateGroupsV2(
 
   const client = new Anthropic({ apiKey })
   const response = await client.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 8192,
+    model: settings.model,
+    max_tokens: settings.maxTokens,
+    ...(settings.temperature !== undefined && { temperature: settings.temperature }),
     messages: [{ role: 'user', content: prompt }],
+    tools: [buildGroupsTool(domainConfig, connectionTypes)],
+    tool_choice: { type: 'tool', name: SUBMIT_GROUPS_TOOL_NAME },
   })
 
-  const textContent = response.content.find((c) => c.type === 'text')
-  if (!textContent || textContent.type !== 'text') {
-    throw new Error('No text content in AI response')
+  const toolUse = response.content.find(
+    (c) => c.type === 'tool_use' && c.name === SUBMIT_GROUPS_TOOL_NAME
+  )
+  if (!toolUse || toolUse.type !== 'tool_use') {
+    throw new Error('No tool use in AI response')
   }
 
-  const aiResponse = parseResponse(textContent.text)
-  const groups = mapToGeneratedGroups(aiResponse)
+  const { groups: validGroups, validationErrors } = validateGroups(toolUse.input, connectionTypes)
+  const groups = validGroups.map(mapToGeneratedGroup)
 
   return {
     groups,
+    validationErrors,
     tokensUsed: {
       input: response.usage?.input_tokens,
       output: response.usage?.output_tokens,
     },
+    model: response.model,
+  }
+}
+
+/**
+ * Streaming version of generateGroupsV2.
+ * Each group is validated and emitted as soon as Claude finishes writing it.
+ */
+export async function* streamGroupsV2(
+  apiKey: string,
+  filters: GenerationFilters,
+  connectionTypes: ConnectionType[],
+  count: number,
+  goodExamples: FeedbackRecord[],
+  badExamples: FeedbackRecord[],
+  settings: ModelSettings = DEFAULT_MODEL_SETTINGS
+): AsyncGenerator<GroupStreamEvent> {
+  const genre = filters.genre || 'films'
+  const domainConfig = getDomainConfig(genre)
+  const prompt = buildPrompt(domainConfig, filters, connectionTypes, count, goodExamples, badExamples)
+
+  const client = new Anthropic({ apiKey })
+  const stream = client.messages.stream({
+    model: settings.model,
+    max_tokens: settings.maxTokens,
+    ...(settings.temperature !== undefined && { temperature: settings.temperature }),
+    messages: [{ role: 'user', content: prompt }],
+    tools: [buildGroupsTool(domainConfig, connectionTypes)],
+    tool_choice: { type: 'tool', name: SUBMIT_GROUPS_TOOL_NAME },
+  })
+
+  const parser = new GroupStreamParser()
+  let emitted = 0
+
+  for await (const event of stream) {
+    if (event.type === 'content_block_delta' && event.delta.type === 'input_json_delta') {
+      for (const raw of parser.push(event.delta.partial_json)) {
+        yield toStreamEvent(raw, emitted++, connectionTypes)
+      }
+    }
+  }
+
+  const message = await stream.finalMessage()
+  const toolUse = message.content.find(
+    (c) => c.type === 'tool_use' && c.name === SUBMIT_GROUPS_TOOL_NAME
+  )
+  if (!toolUse || toolUse.type !== 'tool_use') {
+    throw new Error('No tool use in AI response')
+  }
+
+  const input = toolUse.input as { groups?: unknown }
+  if (!Array.isArray(input?.groups)) {
+    throw new Error('AI response did not include a groups array')
+  }
+
+  // Anything the incremental parser missed is emitted from the final tool input
+  for (; emitted < input.groups.length; emitted++) {
+    yield toStreamEvent(input.groups[emitted], emitted, connectionTypes)
+  }
+
+  yield {
+    type: 'done',
+    tokensUsed: {
+      input: message.usage?.input_tokens,
+      output: message.usage?.output_tokens,
+    },
+    model: message.model,
   }
 }
 
+function toStreamEvent(
+  raw: unknown,
+  index: number,
+  connectionTypes: ConnectionType[]
+): GroupStreamEvent {
+  const result = validateGroupInput(raw, index, connectionTypes)
+  return 'error' in result
+    ? { type: 'invalid', error: result.error }
+    : { type: 'group', group: mapToGeneratedGroup(result.group) }
+}
+
 function buildPrompt(
   config: DomainConfig,
   filters: GenerationFilters,
@@ -139,7 +224,9 @@ IMPORTANT REQUIREMENTS:
 
   if (filters.excludeConnections && filters.excludeConnections.length > 0) {
     parts.push('\n\nEXCLUDE THESE CONNECTIONS (already used):')
-    filters.excludeConnections.forEach((c) => parts.push(`- ${c}`))
+    filters.excludeConnections
+      .slice(-MAX_EXCLUDED_CONNECTIONS)
+      .forEach((c) => parts.push(`- ${c}`))
   }
 
   // Good examples
@@ -169,41 +256,15 @@ IMPORTANT REQUIREMENTS:
   const connectionInstruction = connectionTypes.length > 0
     ? `using ONLY the connection types listed above (distribute evenly across the provided types)`
     : `with diverse connection types`
-  const itemExample = yearLabel
-    ? `{"title": "${itemName.charAt(0).toUpperCase() + itemName.slice(1)} Title", "year": 2020}`
-    : `{"title": "${itemName.charAt(0).toUpperCase() + itemName.slice(1)} Title"}`
   parts.push(`\n\nGenerate ${count} ${itemName} groups ${connectionInstruction}.
 
-Respond with valid JSON only, no other text:
-{
-  "groups": [
-    {
-      "items": [
-        ${itemExample},
-        ${itemExample},
-        ${itemExample},
-        ${itemExample}
-      ],
-      "connection": "The connection description",
-      "connectionType": "category-name",
-      "explanation": "Why these ${itemNamePlural} fit the connection"
-    }
-  ]
-}`)
+Submit all groups in a single call to the ${SUBMIT_GROUPS_TOOL_NAME} tool.`)
 
   return parts.join('\n')
 }
 
-function parseResponse(text: string): AIResponse {
-  const jsonMatch = text.match(/\{[\s\S]*\}/)
-  if (!jsonMatch) {
-    throw new Error('No JSON found in AI response')
-  }
-  return JSON.parse(jsonMatch[0])
-}
-
-function mapToGeneratedGroups(response: AIResponse): GeneratedGroup[] {
-  return response.groups.map((group) => ({
+function mapToGeneratedGroup(group: AIGroup): GeneratedGroup {
+  return {
     id: globalThis.crypto.randomUUID(),
     items: group.items.map(
       (item): VerifiedItem => ({
@@ -217,7 +278,7 @@ function mapToGeneratedGroups(response: AIResponse): GeneratedGroup[] {
     connectionType: group.connectionType,
     explanation: group.explanation,
     allItemsVerified: false,
-  }))
+  }
 }
 
 /**
@@ -245,24 +306,65 @@ export async function generateGroupsV2Browser(
   })
 
   if (!response.ok) {
-    // Try to parse JSON error, fall back to text
-    const contentType = response.headers.get('content-type')
-    if (contentType?.includes('application/json')) {
-      const errorData = await response.json()
-      throw new Error(errorData.error || 'Failed to generate groups')
-    } else {
-      const errorText = await response.text()
-      throw new Error(errorText || 'Failed to generate groups')
-    }
+    throw await toResponseError(response)
   }
 
   const data = await response.json()
 
   return {
     groups: data.groups,
+    validationErrors: data.validationErrors ?? [],
     tokensUsed: {
       input: data.tokensUsed?.input,
       output: data.tokensUsed?.output,
     },
+    model: data.model,
+  }
+}
+
+/**
+ * Browser-safe streaming version: requests NDJSON from the API endpoint
+ * and yields each group as the server emits it.
+ */
+export async function* streamGroupsV2Browser(
+  filters: GenerationFilters,
+  connectionTypes: ConnectionType[],
+  count: number,
+  goodExamples: FeedbackRecord[],
+  badExamples: FeedbackRecord[]
+): AsyncGenerator<GroupStreamEvent> {
+  const response = await fetch('/api/generate-groups-v2', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      filters,
+      connectionTypes,
+      goodExamples,
+      badExamples,
+      count,
+      stream: true,
+    }),
+  })
+
+  if (!response.ok) {
+    throw await toResponseError(response)
+  }
+  if (!response.body) {
+    throw new Error('Streaming responses are not supported')
+  }
+
+  yield* readNdjsonEvents(response.body)
+}
+
+/**
+ * Build an Error from a failed response (JSON error body, falling back to text)
+ */
+async function toResponseError(response: Response): Promise<Error> {
+  const contentType = response.headers.get('content-type')
+  if (contentType?.includes('application/json')) {
+    const errorData = await response.json()
+    return new Error(errorData.error || 'Failed to generate groups')
   }
+  const errorText = await response.text()
+  return new Error(errorText || 'Failed to generate groups')
 }
@@ -0,0 +1,130 @@
+/**
+ * Generation Spend
+ *
+ * Turns generation ledger entries into token and cost totals.
+ * Prices are estimates in USD per million tokens; unknown models have no cost.
+ */
+
+import type { GenerationCaller, GenerationLedgerEntry } from './types'
+
+/** USD per million tokens */
+export interface ModelPricing {
+  input: number
+  output: number
+}
+
+/** Pricing by model id prefix (dated model ids match their family) */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  stub: { input: 0, output: 0 },
+}
+
+/** Token and cost totals for a set of ledger entries */
+export interface SpendTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  /** Estimated cost in USD (entries for models without pricing count as zero) */
+  estimatedCost: number
+  /** True when some entries used a model without known pricing */
+  hasUnpricedModels: boolean
+}
+
+/** Month-to-date token usage against a monthly budget */
+export interface TokenBudgetStatus {
+  /** Input + output tokens used since the start of the month (UTC) */
+  used: number
+  budget: number
+  /** Tokens left this month (never negative) */
+  remaining: number
+  /** Whether the budget is used up and pipeline generation should be skipped */
+  exhausted: boolean
+}
+
+/** Spend summary for the Dashboard */
+export interface SpendSummary {
+  total: SpendTotals
+  byCaller: Record<GenerationCaller, SpendTotals>
+  byModel: Record<string, SpendTotals>
+}
+
+/**
+ * Start of the calendar month (UTC) containing `date`.
+ * Monthly token budgets reset at this boundary.
+ */
+export function getMonthStart(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))
+}
+
+/**
+ * Compare tokens used against a monthly budget
+ */
+export function getTokenBudgetStatus(used: number, budget: number): TokenBudgetStatus {
+  return {
+    used,
+    budget,
+    remaining: Math.max(0, budget - used),
+    exhausted: used >= budget,
+  }
+}
+
+/**
+ * Look up pricing for a model id by longest matching prefix
+ */
+export function getModelPricing(model: string): ModelPricing | null {
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0]
+  return prefix ? MODEL_PRICING[prefix] : null
+}
+
+/**
+ * Estimated cost in USD, or null when the model has no known pricing
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number | null {
+  const pricing = getModelPricing(model)
+  if (!pricing) return null
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000
+}
+
+/**
+ * Summarize ledger entries overall, per caller and per model
+ */
+export function summarizeSpend(entries: GenerationLedgerEntry[]): SpendSummary {
+  const summary: SpendSummary = {
+    total: emptyTotals(),
+    byCaller: {
+      'generator-page': emptyTotals(),
+      'fill-now': emptyTotals(),
+      cron: emptyTotals(),
+      cli: emptyTotals(),
+    },
+    byModel: {},
+  }
+
+  for (const entry of entries) {
+    summary.byModel[entry.model] ??= emptyTotals()
+    for (const totals of [summary.total, summary.byCaller[entry.caller], summary.byModel[entry.model]]) {
+      addEntry(totals, entry)
+    }
+  }
+
+  return summary
+}
+
+function emptyTotals(): SpendTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0, hasUnpricedModels: false }
+}
+
+function addEntry(totals: SpendTotals, entry: GenerationLedgerEntry): void {
+  const cost = estimateCost(entry.model, entry.inputTokens, entry.outputTokens)
+  totals.calls++
+  totals.inputTokens += entry.inputTokens
+  totals.outputTokens += entry.outputTokens
+  totals.estimatedCost += cost ?? 0
+  totals.hasUnpricedModels ||= cost === null
+}
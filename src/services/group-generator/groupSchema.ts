@@ -0,0 +1,230 @@
+/**
+ * Group Schema
+ *
+ * Tool definition and validation for structured AI group output.
+ * Claude submits groups through a declared tool instead of free-form JSON,
+ * and each group is validated on its own so one bad group never sinks the batch.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk'
+import type {
+  AIGroupResponse,
+  ConnectionType,
+  GroupValidationError,
+} from './types'
+import type { DomainConfig } from './domainConfig'
+
+/** Name of the tool Claude must call to submit generated groups */
+export const SUBMIT_GROUPS_TOOL_NAME = 'submit_groups'
+
+/** Number of items required in every group */
+export const ITEMS_PER_GROUP = 4
+
+/** A single group as submitted through the tool */
+export type AIGroup = AIGroupResponse['groups'][number]
+
+/**
+ * Result of validating a tool submission
+ */
+export interface GroupValidationResult {
+  /** Groups that passed validation */
+  groups: AIGroup[]
+  /** One entry per dropped group */
+  validationErrors: GroupValidationError[]
+}
+
+/**
+ * Build the submit_groups tool definition for a domain.
+ * The schema mirrors AIGroupResponse; connectionType is constrained to the supplied types.
+ */
+export function buildGroupsTool(
+  config: DomainConfig,
+  connectionTypes: ConnectionType[]
+): Anthropic.Tool {
+  const { itemName, itemNamePlural, yearLabel } = config
+
+  const itemProperties: Record<string, unknown> = {
+    title: { type: 'string', description: `The ${itemName} title` },
+  }
+  if (yearLabel) {
+    itemProperties.year = { type: 'integer', description: `The ${yearLabel}` }
+  }
+
+  const connectionTypeSchema: Record<string, unknown> = {
+    type: 'string',
+    description: 'Name of the connection type this group uses',
+  }
+  if (connectionTypes.length > 0) {
+    connectionTypeSchema.enum = connectionTypes.map((ct) => ct.name)
+  }
+
+  return {
+    name: SUBMIT_GROUPS_TOOL_NAME,
+    description: `Submit the generated groups of ${itemNamePlural} for the puzzle game.`,
+    input_schema: {
+      type: 'object',
+      properties: {
+        groups: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              items: {
+                type: 'array',
+                minItems: ITEMS_PER_GROUP,
+                maxItems: ITEMS_PER_GROUP,
+                items: {
+                  type: 'object',
+                  properties: itemProperties,
+                  required: yearLabel ? ['title', 'year'] : ['title'],
+                },
+              },
+              connection: { type: 'string', description: 'The connection description' },
+              connectionType: connectionTypeSchema,
+              explanation: {
+                type: 'string',
+                description: `Why these ${itemNamePlural} fit the connection`,
+              },
+            },
+            required: ['items', 'connection', 'connectionType', 'explanation'],
+          },
+        },
+      },
+      required: ['groups'],
+    },
+  }
+}
+
+/**
+ * Validate a submit_groups tool input.
+ * Invalid groups are dropped and reported; only a missing groups array is fatal.
+ */
+export function validateGroups(
+  input: unknown,
+  connectionTypes: ConnectionType[]
+): GroupValidationResult {
+  const rawGroups = isRecord(input) ? input.groups : undefined
+  if (!Array.isArray(rawGroups)) {
+    throw new Error('AI response did not include a groups array')
+  }
+
+  const validTypeNames = new Set(connectionTypes.map((ct) => ct.name))
+  const groups: AIGroup[] = []
+  const validationErrors: GroupValidationError[] = []
+
+  rawGroups.forEach((raw, index) => {
+    const result = checkGroup(raw, index, validTypeNames)
+    if ('error' in result) {
+      validationErrors.push(result.error)
+    } else {
+      groups.push(result.group)
+    }
+  })
+
+  return { groups, validationErrors }
+}
+
+/**
+ * Validate a single group from a submit_groups tool input.
+ * Used when groups are streamed and validated one at a time.
+ *
+ * @param index - Position of the group in the tool input (reported on failure)
+ */
+export function validateGroupInput(
+  raw: unknown,
+  index: number,
+  connectionTypes: ConnectionType[]
+): { group: AIGroup } | { error: GroupValidationError } {
+  return checkGroup(raw, index, new Set(connectionTypes.map((ct) => ct.name)))
+}
+
+function checkGroup(
+  raw: unknown,
+  index: number,
+  validTypeNames: Set<string>
+): { group: AIGroup } | { error: GroupValidationError } {
+  const errors = validateGroup(raw, validTypeNames)
+
+  if (errors.length > 0) {
+    return {
+      error: {
+        index,
+        connection: isRecord(raw) && typeof raw.connection === 'string' ? raw.connection : undefined,
+        errors,
+      },
+    }
+  }
+
+  const group = raw as AIGroup
+  return {
+    group: {
+      items: group.items.map((item) => ({
+        title: item.title.trim(),
+        year: typeof item.year === 'number' ? item.year : undefined,
+      })),
+      connection: group.connection.trim(),
+      connectionType: group.connectionType,
+      explanation: group.explanation,
+    },
+  }
+}
+
+/**
+ * Collect every problem with a single group (empty array means valid)
+ */
+function validateGroup(raw: unknown, validTypeNames: Set<string>): string[] {
+  if (!isRecord(raw)) {
+    return ['Group is not an object']
+  }
+
+  const errors: string[] = []
+
+  if (!isNonEmptyString(raw.connection)) {
+    errors.push('Missing connection')
+  }
+
+  if (!isNonEmptyString(raw.connectionType)) {
+    errors.push('Missing connectionType')
+  } else if (validTypeNames.size > 0 && !validTypeNames.has(raw.connectionType)) {
+    errors.push(`Unknown connectionType "${raw.connectionType}"`)
+  }
+
+  if (typeof raw.explanation !== 'string') {
+    errors.push('Missing explanation')
+  }
+
+  if (!Array.isArray(raw.items)) {
+    errors.push('Missing items')
+    return errors
+  }
+
+  if (raw.items.length !== ITEMS_PER_GROUP) {
+    errors.push(`Expected ${ITEMS_PER_GROUP} items, got ${raw.items.length}`)
+  }
+
+  const titles = new Set<string>()
+  raw.items.forEach((item, i) => {
+    if (!isRecord(item) || !isNonEmptyString(item.title)) {
+      errors.push(`Item ${i + 1} is missing a title`)
+      return
+    }
+    if (item.year !== undefined && item.year !== null && !Number.isInteger(item.year)) {
+      errors.push(`Item "${item.title}" has an invalid year`)
+    }
+    const key = item.title.trim().toLowerCase()
+    if (titles.has(key)) {
+      errors.push(`Duplicate item "${item.title}"`)
+    }
+    titles.add(key)
+  })
+
+  return errors
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
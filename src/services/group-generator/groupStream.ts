@@ -0,0 +1,203 @@
+/**
+ * Group Stream
+ *
+ * Helpers for streaming generated groups one at a time:
+ * - GroupStreamParser pulls complete groups out of partial tool-input JSON
+ * - NDJSON encoding (server) and decoding (browser) for /api/generate-groups-v2
+ * - collectGroupStream turns a stream back into a single result
+ */
+
+import type { GroupGenerationResult, GroupStreamEvent } from './types'
+
+/** Content type for streamed responses (one JSON event per line) */
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson'
+
+/** Event as sent over the wire; "error" ends a stream that failed after it started */
+export type GroupStreamWireEvent = GroupStreamEvent | { type: 'error'; error: string }
+
+/** Nesting depth of the groups array in {"groups": [...]} */
+const GROUPS_ARRAY_DEPTH = 2
+
+/**
+ * Incremental parser for streamed submit_groups tool input.
+ * Feed it partial JSON as it arrives; it returns each element of the
+ * groups array as soon as the element is complete.
+ */
+export class GroupStreamParser {
+  private buffer = ''
+  private position = 0
+  private depth = 0
+  private inString = false
+  private escaped = false
+  private elementStart = -1
+
+  /**
+   * Add a chunk of partial JSON
+   * @returns Raw group elements completed by this chunk (unvalidated)
+   */
+  push(chunk: string): unknown[] {
+    this.buffer += chunk
+    const completed: unknown[] = []
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position]
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false
+        } else if (char === '\\') {
+          this.escaped = true
+        } else if (char === '"') {
+          this.inString = false
+        }
+        continue
+      }
+
+      if (
+        this.depth === GROUPS_ARRAY_DEPTH &&
+        this.elementStart < 0 &&
+        char !== ',' &&
+        char !== ']' &&
+        char.trim() !== ''
+      ) {
+        this.elementStart = this.position
+      }
+
+      if (char === '"') {
+        this.inString = true
+      } else if (char === '{' || char === '[') {
+        this.depth++
+      } else if (char === '}' || char === ']') {
+        this.depth--
+        if (this.depth === GROUPS_ARRAY_DEPTH && this.elementStart >= 0) {
+          // An object (or array) element just closed
+          completed.push(parseElement(this.buffer.slice(this.elementStart, this.position + 1)))
+          this.elementStart = -1
+        } else if (this.depth === GROUPS_ARRAY_DEPTH - 1 && this.elementStart >= 0) {
+          // The groups array closed after a primitive element
+          completed.push(parseElement(this.buffer.slice(this.elementStart, this.position)))
+          this.elementStart = -1
+        }
+      } else if (char === ',' && this.depth === GROUPS_ARRAY_DEPTH && this.elementStart >= 0) {
+        completed.push(parseElement(this.buffer.slice(this.elementStart, this.position)))
+        this.elementStart = -1
+      }
+    }
+
+    // Only keep the unfinished element in memory
+    const keepFrom = this.elementStart >= 0 ? this.elementStart : this.buffer.length
+    this.buffer = this.buffer.slice(keepFrom)
+    this.position -= keepFrom
+    if (this.elementStart >= 0) {
+      this.elementStart = 0
+    }
+
+    return completed
+  }
+}
+
+function parseElement(json: string): unknown {
+  try {
+    return JSON.parse(json)
+  } catch {
+    // Reported as "Group is not an object" by validation
+    return undefined
+  }
+}
+
+/**
+ * Collect a group stream into a single result
+ */
+export async function collectGroupStream(
+  events: AsyncIterable<GroupStreamEvent>
+): Promise<GroupGenerationResult> {
+  const result: GroupGenerationResult = {
+    groups: [],
+    validationErrors: [],
+    tokensUsed: { input: undefined, output: undefined },
+  }
+
+  for await (const event of events) {
+    if (event.type === 'group') {
+      result.groups.push(event.group)
+    } else if (event.type === 'invalid') {
+      result.validationErrors.push(event.error)
+    } else {
+      result.tokensUsed = event.tokensUsed
+      result.model = event.model
+    }
+  }
+
+  return result
+}
+
+/**
+ * Encode a group stream as NDJSON lines.
+ * Errors thrown mid-stream become a final "error" line (the status is already sent).
+ */
+export async function* toNdjsonLines(
+  events: AsyncIterable<GroupStreamEvent>
+): AsyncGenerator<string> {
+  try {
+    for await (const event of events) {
+      yield `${JSON.stringify(event)}\n`
+    }
+  } catch (error) {
+    console.error('Error streaming groups:', error)
+    const wireEvent: GroupStreamWireEvent = {
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Failed to generate groups',
+    }
+    yield `${JSON.stringify(wireEvent)}\n`
+  }
+}
+
+/**
+ * Decode an NDJSON response body into group stream events.
+ * Throws when the server reports an error or the stream ends without "done".
+ */
+export async function* readNdjsonEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<GroupStreamEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let pending = ''
+  let done = false
+
+  const decodeLine = (line: string): GroupStreamEvent | null => {
+    if (!line.trim()) return null
+    const event = JSON.parse(line) as GroupStreamWireEvent
+    if (event.type === 'error') {
+      throw new Error(event.error || 'Failed to generate groups')
+    }
+    if (event.type === 'done') {
+      done = true
+    }
+    return event
+  }
+
+  try {
+    for (;;) {
+      const { value, done: streamDone } = await reader.read()
+      if (streamDone) break
+
+      pending += decoder.decode(value, { stream: true })
+      const lines = pending.split('\n')
+      pending = lines.pop() ?? ''
+
+      for (const line of lines) {
+        const event = decodeLine(line)
+        if (event) yield event
+      }
+    }
+
+    const last = decodeLine(pending + decoder.decode())
+    if (last) yield last
+  } finally {
+    reader.releaseLock()
+  }
+
+  if (!done) {
+    throw new Error('Generation stream ended unexpectedly')
+  }
+}
@@ -19,18 +19,82 @@ export type {
   IConnectionTypeStore,
   IFeedbackStore,
   IItemVerifier,
+  IGroupGenerationProvider,
+  IGenerationLedger,
+  GenerationCaller,
+  GenerationLedgerEntry,
+  GenerationLedgerEntryInput,
+  ModelSettings,
+  GroupGenerationRequest,
+  GroupGenerationResult,
+  GroupStreamEvent,
   GenerateGroupsRequest,
   GenerateGroupsResponse,
+  GroupValidationError,
   AIGroupResponse,
 } from './types'
 
 // Implementations
 export { ConnectionTypeStore } from './ConnectionTypeStore'
 export { FeedbackStore } from './FeedbackStore'
+export { GenerationLedgerStore } from './GenerationLedgerStore'
+export {
+  GroupSimilarityService,
+  describeDuplicate,
+  CONNECTION_SIMILARITY_THRESHOLD,
+  SHARED_ITEMS_THRESHOLD,
+  type ComparableGroup,
+  type DuplicateMatch,
+  type DuplicateReason,
+} from './GroupSimilarityService'
 export { TMDBVerifier } from './TMDBVerifier'
 
 // Domain config
 export { getDomainConfig, DOMAIN_CONFIGS, type DomainConfig } from './domainConfig'
 
+// Structured output schema
+export {
+  SUBMIT_GROUPS_TOOL_NAME,
+  buildGroupsTool,
+  validateGroups,
+  type AIGroup,
+  type GroupValidationResult,
+} from './groupSchema'
+
+// Streaming
+export {
+  GroupStreamParser,
+  collectGroupStream,
+  NDJSON_CONTENT_TYPE,
+  type GroupStreamWireEvent,
+} from './groupStream'
+
+// Spend
+export {
+  MODEL_PRICING,
+  getMonthStart,
+  getTokenBudgetStatus,
+  getModelPricing,
+  estimateCost,
+  summarizeSpend,
+  type ModelPricing,
+  type SpendTotals,
+  type SpendSummary,
+  type TokenBudgetStatus,
+} from './generationSpend'
+
 // Verifiers
 export { createVerifier } from './verifiers'
+
+// Generation providers
+export {
+  AnthropicGenerationProvider,
+  ApiGenerationProvider,
+  LedgerRecordingProvider,
+  StubGenerationProvider,
+  createGenerationProvider,
+  createBrowserGenerationProvider,
+  getProviderOptionsFromEnv,
+  type GenerationProviderType,
+  type ProviderOptions,
+} from './providers'
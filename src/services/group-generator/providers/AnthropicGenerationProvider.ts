@@ -0,0 +1,57 @@
+/**
+ * Anthropic Generation Provider
+ *
+ * Generates groups with Claude (server-side only - needs the API key).
+ * Model, max tokens and temperature are configurable per instance.
+ */
+
+import type {
+  GroupGenerationRequest,
+  GroupGenerationResult,
+  GroupStreamEvent,
+  IGroupGenerationProvider,
+  ModelSettings,
+} from '../types'
+import { DEFAULT_MODEL_SETTINGS, generateGroupsV2, streamGroupsV2 } from '../generateGroupsV2'
+
+export class AnthropicGenerationProvider implements IGroupGenerationProvider {
+  readonly name = 'anthropic'
+  readonly offline = false
+
+  readonly settings: ModelSettings
+
+  constructor(
+    private apiKey: string,
+    settings: Partial<ModelSettings> = {}
+  ) {
+    this.settings = {
+      model: settings.model ?? DEFAULT_MODEL_SETTINGS.model,
+      maxTokens: settings.maxTokens ?? DEFAULT_MODEL_SETTINGS.maxTokens,
+      temperature: settings.temperature ?? DEFAULT_MODEL_SETTINGS.temperature,
+    }
+  }
+
+  async generateGroups(request: GroupGenerationRequest): Promise<GroupGenerationResult> {
+    return generateGroupsV2(
+      this.apiKey,
+      request.filters,
+      request.connectionTypes,
+      request.count,
+      request.goodExamples,
+      request.badExamples,
+      this.settings
+    )
+  }
+
+  streamGroups(request: GroupGenerationRequest): AsyncIterable<GroupStreamEvent> {
+    return streamGroupsV2(
+      this.apiKey,
+      request.filters,
+      request.connectionTypes,
+      request.count,
+      request.goodExamples,
+      request.badExamples,
+      this.settings
+    )
+  }
+}
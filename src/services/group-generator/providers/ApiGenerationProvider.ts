@@ -0,0 +1,40 @@
+/**
+ * API Generation Provider
+ *
+ * Browser-safe provider that calls the /api/generate-groups-v2 route.
+ * Whichever provider the server is configured with does the actual generation.
+ */
+
+import type {
+  GroupGenerationRequest,
+  GroupGenerationResult,
+  GroupStreamEvent,
+  IGroupGenerationProvider,
+} from '../types'
+import { generateGroupsV2Browser, streamGroupsV2Browser } from '../generateGroupsV2'
+
+export class ApiGenerationProvider implements IGroupGenerationProvider {
+  readonly name = 'api'
+  readonly offline = false
+
+  async generateGroups(request: GroupGenerationRequest): Promise<GroupGenerationResult> {
+    return generateGroupsV2Browser(
+      '',
+      request.filters,
+      request.connectionTypes,
+      request.count,
+      request.goodExamples,
+      request.badExamples
+    )
+  }
+
+  streamGroups(request: GroupGenerationRequest): AsyncIterable<GroupStreamEvent> {
+    return streamGroupsV2Browser(
+      request.filters,
+      request.connectionTypes,
+      request.count,
+      request.goodExamples,
+      request.badExamples
+    )
+  }
+}
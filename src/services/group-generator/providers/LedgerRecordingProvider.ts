@@ -0,0 +1,76 @@
+/**
+ * Ledger Recording Provider
+ *
+ * Wraps another provider and records every completed generation call
+ * (counts, tokens, model and caller) in the generation ledger.
+ * A ledger failure is logged and never fails the generation itself.
+ */
+
+import type {
+  GenerationCaller,
+  GroupGenerationRequest,
+  GroupGenerationResult,
+  GroupStreamEvent,
+  IGenerationLedger,
+  IGroupGenerationProvider,
+} from '../types'
+
+export class LedgerRecordingProvider implements IGroupGenerationProvider {
+  readonly name: string
+  readonly offline: boolean
+
+  constructor(
+    private provider: IGroupGenerationProvider,
+    private ledger: IGenerationLedger,
+    private caller: GenerationCaller
+  ) {
+    this.name = provider.name
+    this.offline = provider.offline
+  }
+
+  async generateGroups(request: GroupGenerationRequest): Promise<GroupGenerationResult> {
+    const result = await this.provider.generateGroups(request)
+    await this.record(request, result.groups.length, result.validationErrors.length, result)
+    return result
+  }
+
+  async *streamGroups(request: GroupGenerationRequest): AsyncGenerator<GroupStreamEvent> {
+    let returned = 0
+    let dropped = 0
+
+    for await (const event of this.provider.streamGroups(request)) {
+      if (event.type === 'group') {
+        returned++
+      } else if (event.type === 'invalid') {
+        dropped++
+      } else {
+        await this.record(request, returned, dropped, event)
+      }
+      yield event
+    }
+  }
+
+  private async record(
+    request: GroupGenerationRequest,
+    returnedCount: number,
+    droppedCount: number,
+    usage: Pick<GroupGenerationResult, 'tokensUsed' | 'model'>
+  ): Promise<void> {
+    try {
+      await this.ledger.record({
+        genre: request.filters.genre || 'films',
+        targetDifficulty: request.filters.targetDifficulty ?? null,
+        requestedCount: request.count,
+        returnedCount,
+        droppedCount,
+        inputTokens: usage.tokensUsed.input ?? 0,
+        outputTokens: usage.tokensUsed.output ?? 0,
+        model: usage.model ?? this.provider.name,
+        provider: this.provider.name,
+        caller: this.caller,
+      })
+    } catch (error) {
+      console.error('Failed to record generation usage:', error)
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Provider Factory
+ *
+ * Creates the group generation provider from configuration.
+ *
+ * Server environment variables:
+ * - GENERATION_PROVIDER: "anthropic" (default) or "stub" (offline fixtures)
+ * - GENERATION_MODEL, GENERATION_MAX_TOKENS, GENERATION_TEMPERATURE: model settings
+ * - GENERATION_STUB_SEED: fixture order for the stub provider
+ * - ANTHROPIC_API_KEY (or VITE_ANTHROPIC_API_KEY)
+ */
+
+import type { IGroupGenerationProvider, ModelSettings } from '../types'
+import { AnthropicGenerationProvider } from './AnthropicGenerationProvider'
+import { ApiGenerationProvider } from './ApiGenerationProvider'
+import { StubGenerationProvider } from './StubGenerationProvider'
+
+export type GenerationProviderType = 'anthropic' | 'stub'
+
+export interface ProviderOptions {
+  type: GenerationProviderType
+  apiKey?: string
+  settings?: Partial<ModelSettings>
+  /** Stub provider seed */
+  seed?: number
+}
+
+/**
+ * Create a server-side provider.
+ * Returns null when the Anthropic provider is selected but no API key is configured.
+ */
+export function createGenerationProvider(options: ProviderOptions): IGroupGenerationProvider | null {
+  switch (options.type) {
+    case 'stub':
+      return new StubGenerationProvider({ seed: options.seed })
+    case 'anthropic':
+    default:
+      return options.apiKey
+        ? new AnthropicGenerationProvider(options.apiKey, options.settings)
+        : null
+  }
+}
+
+/**
+ * Create the provider for browser code.
+ * Uses the offline stub when VITE_GENERATION_PROVIDER is "stub", otherwise the API route.
+ */
+export function createBrowserGenerationProvider(providerType?: string): IGroupGenerationProvider {
+  return providerType === 'stub' ? new StubGenerationProvider() : new ApiGenerationProvider()
+}
+
+/**
+ * Read provider options from environment variables
+ */
+export function getProviderOptionsFromEnv(env: Record<string, string | undefined>): ProviderOptions {
+  return {
+    type: parseProviderType(env.GENERATION_PROVIDER),
+    apiKey: env.ANTHROPIC_API_KEY || env.VITE_ANTHROPIC_API_KEY,
+    settings: {
+      model: env.GENERATION_MODEL || undefined,
+      maxTokens: parseNumber(env.GENERATION_MAX_TOKENS),
+      temperature: parseNumber(env.GENERATION_TEMPERATURE),
+    },
+    seed: parseNumber(env.GENERATION_STUB_SEED),
+  }
+}
+
+function parseProviderType(value: string | undefined): GenerationProviderType {
+  if (!value || value === 'anthropic') return 'anthropic'
+  if (value === 'stub') return 'stub'
+  throw new Error(`Unknown GENERATION_PROVIDER "${value}" (expected "anthropic" or "stub")`)
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
@@ -0,0 +1,140 @@
+/**
+ * Stub Generation Provider
+ *
+ * Deterministic, fixture-backed provider that needs no network access.
+ * The same seed and request always produce the same groups, so the
+ * pipeline, CLI and generator page can run offline and in tests.
+ */
+
+import type {
+  ConnectionType,
+  Difficulty,
+  GeneratedGroup,
+  GroupGenerationRequest,
+  GroupGenerationResult,
+  GroupStreamEvent,
+  IGroupGenerationProvider,
+} from '../types'
+import { createSeededRandom, hashString, shuffle } from '../../../utils/random'
+import { STUB_FIXTURES, type StubFixtures, type StubGroupFixture } from './stubFixtures'
+
+const ALL_DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard', 'expert']
+
+/** Upper bound on "(set N)" variants, so a fully excluded pool still terminates */
+const MAX_VARIANT_ROUNDS = 100
+
+export interface StubProviderOptions {
+  /** Seed for the fixture order (default 1) */
+  seed?: number
+  /** Override the built-in fixtures */
+  fixtures?: StubFixtures
+}
+
+export class StubGenerationProvider implements IGroupGenerationProvider {
+  readonly name = 'stub'
+  readonly offline = true
+
+  private seed: number
+  private fixtures: StubFixtures
+
+  constructor(options: StubProviderOptions = {}) {
+    this.seed = options.seed ?? 1
+    this.fixtures = options.fixtures ?? STUB_FIXTURES
+  }
+
+  /**
+   * Serve fixture groups for the requested genre and difficulty.
+   * Excluded connections are skipped; once the fixtures run out,
+   * numbered variants ("… (set 2)") keep the count honest.
+   */
+  async generateGroups(request: GroupGenerationRequest): Promise<GroupGenerationResult> {
+    const { filters, connectionTypes, count } = request
+    const genre = filters.genre || 'films'
+    const difficulties = filters.targetDifficulty ? [filters.targetDifficulty] : ALL_DIFFICULTIES
+
+    const candidates = shuffle(
+      difficulties
+        .flatMap((difficulty) => this.fixtures[genre][difficulty])
+        .filter((fixture) => isInYearRange(fixture, filters.yearRange)),
+      createSeededRandom(hashString(`${this.seed}:${genre}:${difficulties.join(',')}`))
+    )
+
+    const taken = new Set((filters.excludeConnections ?? []).map(normalizeConnection))
+    const groups: GeneratedGroup[] = []
+
+    for (let round = 1; round <= MAX_VARIANT_ROUNDS && groups.length < count; round++) {
+      for (const fixture of candidates) {
+        if (groups.length >= count) break
+
+        const connection = round === 1 ? fixture.connection : `${fixture.connection} (set ${round})`
+        if (taken.has(normalizeConnection(connection))) continue
+
+        taken.add(normalizeConnection(connection))
+        groups.push(toGeneratedGroup(fixture, connection, connectionTypes, groups.length))
+      }
+    }
+
+    return {
+      groups,
+      validationErrors: [],
+      tokensUsed: { input: 0, output: 0 },
+      model: this.name,
+    }
+  }
+
+  async *streamGroups(request: GroupGenerationRequest): AsyncGenerator<GroupStreamEvent> {
+    const result = await this.generateGroups(request)
+    for (const group of result.groups) {
+      yield { type: 'group', group }
+    }
+    yield { type: 'done', tokensUsed: result.tokensUsed, model: result.model }
+  }
+}
+
+function toGeneratedGroup(
+  fixture: StubGroupFixture,
+  connection: string,
+  connectionTypes: ConnectionType[],
+  index: number
+): GeneratedGroup {
+  return {
+    id: `stub-${hashString(connection).toString(36)}`,
+    items: fixture.items.map((item) => ({
+      title: item.title,
+      year: item.year,
+      externalId: null,
+      verified: false,
+    })),
+    connection,
+    connectionType: resolveConnectionType(fixture, connectionTypes, index),
+    explanation: fixture.explanation,
+    allItemsVerified: false,
+  }
+}
+
+/**
+ * Use a requested connection type whose category matches the fixture,
+ * otherwise distribute evenly across the requested types (as the prompt asks Claude to)
+ */
+function resolveConnectionType(
+  fixture: StubGroupFixture,
+  connectionTypes: ConnectionType[],
+  index: number
+): string {
+  if (connectionTypes.length === 0) {
+    return fixture.category
+  }
+  const match = connectionTypes.find((ct) => ct.category === fixture.category)
+  return (match ?? connectionTypes[index % connectionTypes.length]).name
+}
+
+function isInYearRange(fixture: StubGroupFixture, yearRange?: [number, number]): boolean {
+  if (!yearRange) return true
+  return fixture.items.every(
+    (item) => item.year === undefined || (item.year >= yearRange[0] && item.year <= yearRange[1])
+  )
+}
+
+function normalizeConnection(connection: string): string {
+  return connection.trim().toLowerCase()
+}
@@ -0,0 +1,147 @@
+/**
+ * LedgerRecordingProvider Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { LedgerRecordingProvider } from '../LedgerRecordingProvider'
+import { StubGenerationProvider } from '../StubGenerationProvider'
+import { collectGroupStream } from '../../groupStream'
+import type {
+  GroupGenerationRequest,
+  GroupStreamEvent,
+  IGenerationLedger,
+  IGroupGenerationProvider,
+} from '../../types'
+
+const request: GroupGenerationRequest = {
+  filters: { genre: 'music', targetDifficulty: 'medium' },
+  connectionTypes: [],
+  count: 3,
+  goodExamples: [],
+  badExamples: [],
+}
+
+const createMockLedger = (): IGenerationLedger => ({
+  record: vi.fn().mockResolvedValue(undefined),
+  listEntries: vi.fn(),
+  getTokensUsed: vi.fn(),
+})
+
+const createMockProvider = (): IGroupGenerationProvider => ({
+  name: 'anthropic',
+  offline: false,
+  generateGroups: vi.fn(),
+  streamGroups: vi.fn(),
+})
+
+describe('LedgerRecordingProvider', () => {
+  let ledger: IGenerationLedger
+
+  beforeEach(() => {
+    ledger = createMockLedger()
+  })
+
+  it('should expose the wrapped provider name and offline flag', () => {
+    const provider = new LedgerRecordingProvider(new StubGenerationProvider(), ledger, 'cron')
+
+    expect(provider.name).toBe('stub')
+    expect(provider.offline).toBe(true)
+  })
+
+  it('should record a completed generateGroups call', async () => {
+    const inner = createMockProvider()
+    vi.mocked(inner.generateGroups).mockResolvedValue({
+      groups: [],
+      validationErrors: [{ index: 0, errors: ['Expected 4 items, got 3'] }],
+      tokensUsed: { input: 1500, output: 4200 },
+      model: 'claude-sonnet-4-20250514',
+    })
+    const provider = new LedgerRecordingProvider(inner, ledger, 'fill-now')
+
+    await provider.generateGroups(request)
+
+    expect(ledger.record).toHaveBeenCalledWith({
+      genre: 'music',
+      targetDifficulty: 'medium',
+      requestedCount: 3,
+      returnedCount: 0,
+      droppedCount: 1,
+      inputTokens: 1500,
+      outputTokens: 4200,
+      model: 'claude-sonnet-4-20250514',
+      provider: 'anthropic',
+      caller: 'fill-now',
+    })
+  })
+
+  it('should record a stream once it is done, before passing "done" on', async () => {
+    const provider = new LedgerRecordingProvider(new StubGenerationProvider(), ledger, 'generator-page')
+    const seen: GroupStreamEvent['type'][] = []
+
+    for await (const event of provider.streamGroups(request)) {
+      seen.push(event.type)
+      if (event.type === 'done') {
+        expect(ledger.record).toHaveBeenCalledTimes(1)
+      }
+    }
+
+    expect(seen).toEqual(['group', 'group', 'group', 'done'])
+    expect(ledger.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        returnedCount: 3,
+        droppedCount: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        model: 'stub',
+        provider: 'stub',
+        caller: 'generator-page',
+      })
+    )
+  })
+
+  it('should not record a stream that fails before "done"', async () => {
+    const inner = createMockProvider()
+    vi.mocked(inner.streamGroups).mockImplementation(async function* () {
+      yield { type: 'invalid', error: { index: 0, errors: ['Group is not an object'] } }
+      throw new Error('Connection reset')
+    })
+    const provider = new LedgerRecordingProvider(inner, ledger, 'generator-page')
+
+    await expect(collectGroupStream(provider.streamGroups(request))).rejects.toThrow('Connection reset')
+    expect(ledger.record).not.toHaveBeenCalled()
+  })
+
+  it('should fall back to the provider name and zero tokens when usage is missing', async () => {
+    const inner = createMockProvider()
+    vi.mocked(inner.generateGroups).mockResolvedValue({
+      groups: [],
+      validationErrors: [],
+      tokensUsed: { input: undefined, output: undefined },
+    })
+    const provider = new LedgerRecordingProvider(inner, ledger, 'cron')
+
+    await provider.generateGroups({ ...request, filters: {} })
+
+    expect(ledger.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        genre: 'films',
+        targetDifficulty: null,
+        inputTokens: 0,
+        outputTokens: 0,
+        model: 'anthropic',
+      })
+    )
+  })
+
+  it('should still return the result when recording fails', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(ledger.record).mockRejectedValue(new Error('permission denied'))
+    const provider = new LedgerRecordingProvider(new StubGenerationProvider(), ledger, 'cron')
+
+    const result = await provider.generateGroups(request)
+
+    expect(result.groups).toHaveLength(3)
+    expect(consoleSpy).toHaveBeenCalledWith('Failed to record generation usage:', expect.any(Error))
+    consoleSpy.mockRestore()
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * ProviderFactory Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  createBrowserGenerationProvider,
+  createGenerationProvider,
+  getProviderOptionsFromEnv,
+} from '../ProviderFactory'
+import { AnthropicGenerationProvider } from '../AnthropicGenerationProvider'
+import { ApiGenerationProvider } from '../ApiGenerationProvider'
+import { StubGenerationProvider } from '../StubGenerationProvider'
+import { DEFAULT_MODEL_SETTINGS } from '../../generateGroupsV2'
+
+describe('createGenerationProvider', () => {
+  it('should return AnthropicGenerationProvider when an API key is set', () => {
+    const provider = createGenerationProvider({ type: 'anthropic', apiKey: 'test-key' })
+    expect(provider).toBeInstanceOf(AnthropicGenerationProvider)
+  })
+
+  it('should return null for anthropic without an API key', () => {
+    expect(createGenerationProvider({ type: 'anthropic' })).toBeNull()
+  })
+
+  it('should return StubGenerationProvider without needing an API key', () => {
+    const provider = createGenerationProvider({ type: 'stub' })
+    expect(provider).toBeInstanceOf(StubGenerationProvider)
+  })
+
+  it('should fill unset model settings with defaults', () => {
+    const provider = createGenerationProvider({
+      type: 'anthropic',
+      apiKey: 'test-key',
+      settings: { temperature: 0.5 },
+    }) as AnthropicGenerationProvider
+
+    expect(provider.settings).toEqual({ ...DEFAULT_MODEL_SETTINGS, temperature: 0.5 })
+  })
+})
+
+describe('createBrowserGenerationProvider', () => {
+  it('should return StubGenerationProvider for "stub"', () => {
+    expect(createBrowserGenerationProvider('stub')).toBeInstanceOf(StubGenerationProvider)
+  })
+
+  it('should return ApiGenerationProvider by default', () => {
+    expect(createBrowserGenerationProvider(undefined)).toBeInstanceOf(ApiGenerationProvider)
+  })
+})
+
+describe('getProviderOptionsFromEnv', () => {
+  it('should default to anthropic', () => {
+    const options = getProviderOptionsFromEnv({ VITE_ANTHROPIC_API_KEY: 'vite-key' })
+
+    expect(options.type).toBe('anthropic')
+    expect(options.apiKey).toBe('vite-key')
+    expect(options.settings).toEqual({})
+  })
+
+  it('should read provider and model settings', () => {
+    const options = getProviderOptionsFromEnv({
+      GENERATION_PROVIDER: 'stub',
+      GENERATION_MODEL: 'claude-test-model',
+      GENERATION_MAX_TOKENS: '2048',
+      GENERATION_TEMPERATURE: '0',
+      GENERATION_STUB_SEED: '42',
+    })
+
+    expect(options).toMatchObject({
+      type: 'stub',
+      settings: { model: 'claude-test-model', maxTokens: 2048, temperature: 0 },
+      seed: 42,
+    })
+  })
+
+  it('should ignore numbers that do not parse', () => {
+    const options = getProviderOptionsFromEnv({ GENERATION_MAX_TOKENS: 'lots' })
+    expect(options.settings?.maxTokens).toBeUndefined()
+  })
+
+  it('should throw for an unknown provider', () => {
+    expect(() => getProviderOptionsFromEnv({ GENERATION_PROVIDER: 'openai' })).toThrow(
+      'Unknown GENERATION_PROVIDER "openai"'
+    )
+  })
+})
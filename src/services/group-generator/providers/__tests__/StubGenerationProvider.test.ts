@@ -0,0 +1,144 @@
+/**
+ * StubGenerationProvider Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { StubGenerationProvider } from '../StubGenerationProvider'
+import { STUB_FIXTURES } from '../stubFixtures'
+import { GENRES } from '../../../../types'
+import type { ConnectionType, Difficulty, GroupGenerationRequest } from '../../types'
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard', 'expert']
+
+const connectionTypes: ConnectionType[] = [
+  {
+    id: '1',
+    name: 'Same director',
+    category: 'people',
+    description: 'Films by one director',
+    active: true,
+    createdAt: new Date(),
+    genre: 'films',
+  },
+  {
+    id: '2',
+    name: 'Titles that are verbs',
+    category: 'word-game',
+    description: 'One-word verb titles',
+    active: true,
+    createdAt: new Date(),
+    genre: 'films',
+  },
+]
+
+const createRequest = (overrides: Partial<GroupGenerationRequest> = {}): GroupGenerationRequest => ({
+  filters: { genre: 'films', targetDifficulty: 'easy' },
+  connectionTypes,
+  count: 3,
+  goodExamples: [],
+  badExamples: [],
+  ...overrides,
+})
+
+describe('StubGenerationProvider', () => {
+  it('should be an offline provider', () => {
+    const provider = new StubGenerationProvider()
+
+    expect(provider.name).toBe('stub')
+    expect(provider.offline).toBe(true)
+  })
+
+  it('should return the same groups for the same seed and request', async () => {
+    const first = await new StubGenerationProvider({ seed: 7 }).generateGroups(createRequest())
+    const second = await new StubGenerationProvider({ seed: 7 }).generateGroups(createRequest())
+
+    expect(second).toEqual(first)
+  })
+
+  it('should serve fixtures for the target genre and difficulty', async () => {
+    const result = await new StubGenerationProvider().generateGroups(createRequest())
+    const fixtureConnections = STUB_FIXTURES.films.easy.map((f) => f.connection)
+
+    expect(result.groups).toHaveLength(3)
+    expect(result.groups.map((g) => g.connection).sort()).toEqual([...fixtureConnections].sort())
+    expect(result.validationErrors).toEqual([])
+    expect(result.tokensUsed).toEqual({ input: 0, output: 0 })
+  })
+
+  it('should return unverified items, like an AI provider', async () => {
+    const result = await new StubGenerationProvider().generateGroups(createRequest({ count: 1 }))
+
+    expect(result.groups[0].allItemsVerified).toBe(false)
+    expect(result.groups[0].items.every((item) => !item.verified && item.externalId === null)).toBe(true)
+  })
+
+  it('should use a requested connection type matching the fixture category', async () => {
+    const result = await new StubGenerationProvider().generateGroups(createRequest())
+    const spielberg = result.groups.find((g) => g.connection === 'Directed by Steven Spielberg')
+
+    expect(spielberg?.connectionType).toBe('Same director')
+    result.groups.forEach((group) => {
+      expect(connectionTypes.map((ct) => ct.name)).toContain(group.connectionType)
+    })
+  })
+
+  it('should skip excluded connections', async () => {
+    const result = await new StubGenerationProvider().generateGroups(
+      createRequest({ filters: { genre: 'films', targetDifficulty: 'easy', excludeConnections: ['pixar FILMS'] } })
+    )
+
+    expect(result.groups.map((g) => g.connection)).not.toContain('Pixar films')
+  })
+
+  it('should number variants once the fixtures run out', async () => {
+    const result = await new StubGenerationProvider().generateGroups(createRequest({ count: 7 }))
+    const connections = result.groups.map((g) => g.connection)
+
+    expect(result.groups).toHaveLength(7)
+    expect(new Set(connections).size).toBe(7)
+    expect(connections).toContain('Pixar films (set 2)')
+    expect(connections).toContain('Pixar films (set 3)')
+  })
+
+  it('should drop fixtures outside the year range', async () => {
+    const result = await new StubGenerationProvider().generateGroups(
+      createRequest({ filters: { genre: 'films', targetDifficulty: 'easy', yearRange: [1990, 2020] } })
+    )
+
+    expect(result.groups.every((g) => !g.connection.startsWith('Directed by Steven Spielberg'))).toBe(true)
+  })
+
+  it('should mix difficulties when no target difficulty is set', async () => {
+    const result = await new StubGenerationProvider().generateGroups(
+      createRequest({ filters: { genre: 'music' }, count: 12 })
+    )
+    const allMusic = DIFFICULTIES.flatMap((d) => STUB_FIXTURES.music[d].map((f) => f.connection))
+
+    expect(result.groups.map((g) => g.connection).sort()).toEqual(allMusic.sort())
+  })
+
+  it('should stream the same groups it generates, then done', async () => {
+    const provider = new StubGenerationProvider()
+    const events = []
+    for await (const event of provider.streamGroups(createRequest())) {
+      events.push(event)
+    }
+    const { groups } = await provider.generateGroups(createRequest())
+
+    expect(events).toEqual([
+      ...groups.map((group) => ({ type: 'group', group })),
+      { type: 'done', tokensUsed: { input: 0, output: 0 }, model: 'stub' },
+    ])
+  })
+
+  it.each(GENRES)('should have four distinct items in every %s fixture', (genre) => {
+    DIFFICULTIES.forEach((difficulty) => {
+      const fixtures = STUB_FIXTURES[genre][difficulty]
+      expect(fixtures.length).toBeGreaterThan(0)
+      fixtures.forEach((fixture) => {
+        const titles = fixture.items.map((item) => item.title.toLowerCase())
+        expect(new Set(titles).size).toBe(4)
+      })
+    })
+  })
+})
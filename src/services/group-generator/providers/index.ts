@@ -0,0 +1,19 @@
+/**
+ * Generation Providers Module
+ *
+ * Exports all group generation providers and the factory functions.
+ */
+
+export type { IGroupGenerationProvider } from '../types'
+export { AnthropicGenerationProvider } from './AnthropicGenerationProvider'
+export { ApiGenerationProvider } from './ApiGenerationProvider'
+export { LedgerRecordingProvider } from './LedgerRecordingProvider'
+export { StubGenerationProvider, type StubProviderOptions } from './StubGenerationProvider'
+export { STUB_FIXTURES, type StubFixtures, type StubGroupFixture } from './stubFixtures'
+export {
+  createGenerationProvider,
+  createBrowserGenerationProvider,
+  getProviderOptionsFromEnv,
+  type GenerationProviderType,
+  type ProviderOptions,
+} from './ProviderFactory'
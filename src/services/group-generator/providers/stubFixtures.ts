@@ -0,0 +1,561 @@
+/**
+ * Stub Provider Fixtures
+ *
+ * Hand-written, realistic groups per genre and difficulty.
+ * Served by StubGenerationProvider so generation can run without network access.
+ */
+
+import type { Genre } from '../../../types'
+import type { AIItem, ConnectionCategory, Difficulty } from '../types'
+
+/** A seeded group served by the stub provider */
+export interface StubGroupFixture {
+  connection: string
+  /** Used to pick a matching connection type from the request */
+  category: ConnectionCategory
+  explanation: string
+  items: AIItem[]
+}
+
+export type StubFixtures = Record<Genre, Record<Difficulty, StubGroupFixture[]>>
+
+export const STUB_FIXTURES: StubFixtures = {
+  films: {
+    easy: [
+      {
+        connection: 'Pixar films',
+        category: 'production',
+        explanation: 'All four were made by Pixar Animation Studios.',
+        items: [
+          { title: 'Toy Story', year: 1995 },
+          { title: 'Ratatouille', year: 2007 },
+          { title: 'Up', year: 2009 },
+          { title: 'Coco', year: 2017 },
+        ],
+      },
+      {
+        connection: 'Directed by Steven Spielberg',
+        category: 'people',
+        explanation: 'Each film was directed by Steven Spielberg.',
+        items: [
+          { title: 'Jaws', year: 1975 },
+          { title: 'E.T. the Extra-Terrestrial', year: 1982 },
+          { title: 'Jurassic Park', year: 1993 },
+          { title: "Schindler's List", year: 1993 },
+        ],
+      },
+      {
+        connection: 'Set in space',
+        category: 'setting',
+        explanation: 'Most of the action takes place in outer space.',
+        items: [
+          { title: 'Apollo 13', year: 1995 },
+          { title: 'Gravity', year: 2013 },
+          { title: 'Interstellar', year: 2014 },
+          { title: 'The Martian', year: 2015 },
+        ],
+      },
+    ],
+    medium: [
+      {
+        connection: 'Starring Tom Hanks',
+        category: 'people',
+        explanation: 'Tom Hanks plays the lead in each film.',
+        items: [
+          { title: 'Big', year: 1988 },
+          { title: 'Philadelphia', year: 1993 },
+          { title: 'Cast Away', year: 2000 },
+          { title: 'The Terminal', year: 2004 },
+        ],
+      },
+      {
+        connection: 'One-word titles that are verbs',
+        category: 'word-game',
+        explanation: 'Each title is a single verb.',
+        items: [
+          { title: 'Crash', year: 2004 },
+          { title: 'Taken', year: 2008 },
+          { title: 'Drive', year: 2011 },
+          { title: 'Run', year: 2020 },
+        ],
+      },
+      {
+        connection: 'Set in Boston',
+        category: 'setting',
+        explanation: 'Each story takes place in or around Boston.',
+        items: [
+          { title: 'Good Will Hunting', year: 1997 },
+          { title: 'Mystic River', year: 2003 },
+          { title: 'The Departed', year: 2006 },
+          { title: 'Spotlight', year: 2015 },
+        ],
+      },
+    ],
+    hard: [
+      {
+        connection: "Titled with the lead character's first name",
+        category: 'character',
+        explanation: 'The title is the first name of the main character.',
+        items: [
+          { title: 'Carrie', year: 1976 },
+          { title: 'Rocky', year: 1976 },
+          { title: 'Amélie', year: 2001 },
+          { title: 'Juno', year: 2007 },
+        ],
+      },
+      {
+        connection: 'Scored by Hans Zimmer',
+        category: 'production',
+        explanation: 'Hans Zimmer composed the score for each film.',
+        items: [
+          { title: 'The Lion King', year: 1994 },
+          { title: 'Gladiator', year: 2000 },
+          { title: 'Inception', year: 2010 },
+          { title: 'Dune', year: 2021 },
+        ],
+      },
+      {
+        connection: 'Best Picture winners set during a war',
+        category: 'thematic',
+        explanation: 'Each won Best Picture and is set during wartime.',
+        items: [
+          { title: 'Casablanca', year: 1942 },
+          { title: 'Patton', year: 1970 },
+          { title: 'Platoon', year: 1986 },
+          { title: 'The Hurt Locker', year: 2008 },
+        ],
+      },
+    ],
+    expert: [
+      {
+        connection: 'Presented as a single continuous take',
+        category: 'production',
+        explanation: 'Each film is shot (or edited to appear) as one unbroken take.',
+        items: [
+          { title: 'Rope', year: 1948 },
+          { title: 'Birdman', year: 2014 },
+          { title: 'Victoria', year: 2015 },
+          { title: '1917', year: 2019 },
+        ],
+      },
+      {
+        connection: 'Titles that are days or holidays',
+        category: 'word-game',
+        explanation: 'Each title names a day or a holiday.',
+        items: [
+          { title: 'Halloween', year: 1978 },
+          { title: 'Groundhog Day', year: 1993 },
+          { title: 'Friday', year: 1995 },
+          { title: 'Independence Day', year: 1996 },
+        ],
+      },
+      {
+        connection: 'Remakes of Akira Kurosawa films',
+        category: 'cultural',
+        explanation: 'Each is a remake of a Kurosawa film (Seven Samurai, Yojimbo, Rashomon).',
+        items: [
+          { title: 'The Magnificent Seven', year: 1960 },
+          { title: 'A Fistful of Dollars', year: 1964 },
+          { title: 'The Outrage', year: 1964 },
+          { title: 'Last Man Standing', year: 1996 },
+        ],
+      },
+    ],
+  },
+  music: {
+    easy: [
+      {
+        connection: 'Beatles songs',
+        category: 'people',
+        explanation: 'All four were recorded by The Beatles.',
+        items: [{ title: 'Hey Jude' }, { title: 'Let It Be' }, { title: 'Yesterday' }, { title: 'Help!' }],
+      },
+      {
+        connection: 'Michael Jackson songs',
+        category: 'people',
+        explanation: 'All four are Michael Jackson singles.',
+        items: [{ title: 'Thriller' }, { title: 'Billie Jean' }, { title: 'Beat It' }, { title: 'Bad' }],
+      },
+      {
+        connection: 'Songs with a colour in the title',
+        category: 'word-game',
+        explanation: 'Each title contains a colour.',
+        items: [
+          { title: 'Purple Rain' },
+          { title: 'Yellow Submarine' },
+          { title: 'Back in Black' },
+          { title: 'Blue Suede Shoes' },
+        ],
+      },
+    ],
+    medium: [
+      {
+        connection: "Songs titled with a woman's name",
+        category: 'word-game',
+        explanation: "Each title is a woman's first name.",
+        items: [{ title: 'Roxanne' }, { title: 'Jolene' }, { title: 'Layla' }, { title: 'Valerie' }],
+      },
+      {
+        connection: 'Queen songs',
+        category: 'people',
+        explanation: 'All four were recorded by Queen.',
+        items: [
+          { title: 'Bohemian Rhapsody' },
+          { title: 'Radio Ga Ga' },
+          { title: 'Somebody to Love' },
+          { title: 'Under Pressure' },
+        ],
+      },
+      {
+        connection: 'Songs about the weather',
+        category: 'thematic',
+        explanation: 'Each song is about sun, rain or storms.',
+        items: [
+          { title: 'Here Comes the Sun' },
+          { title: 'Umbrella' },
+          { title: 'Riders on the Storm' },
+          { title: "It's Raining Men" },
+        ],
+      },
+    ],
+    hard: [
+      {
+        connection: 'Songs with a day of the week',
+        category: 'word-game',
+        explanation: 'Each title contains a day of the week.',
+        items: [
+          { title: 'Monday, Monday' },
+          { title: "Friday I'm in Love" },
+          { title: 'Ruby Tuesday' },
+          { title: 'Sunday Bloody Sunday' },
+        ],
+      },
+      {
+        connection: 'Songs with a number in the title',
+        category: 'word-game',
+        explanation: 'Each title contains a number.',
+        items: [{ title: '7 Years' }, { title: '22' }, { title: '99 Problems' }, { title: '9 to 5' }],
+      },
+      {
+        connection: 'Eurovision winners',
+        category: 'cultural',
+        explanation: 'Each song won the Eurovision Song Contest.',
+        items: [
+          { title: 'Waterloo' },
+          { title: 'Hard Rock Hallelujah' },
+          { title: 'Euphoria' },
+          { title: 'Arcade' },
+        ],
+      },
+    ],
+    expert: [
+      {
+        connection: 'Songs named after a city',
+        category: 'setting',
+        explanation: 'Each title is the name of a city.',
+        items: [{ title: 'Vienna' }, { title: 'Galveston' }, { title: 'Rio' }, { title: 'Paris' }],
+      },
+      {
+        connection: 'Written by Prince for other artists',
+        category: 'people',
+        explanation: 'Prince wrote each song, but another artist made it a hit.',
+        items: [
+          { title: 'Nothing Compares 2 U' },
+          { title: 'Manic Monday' },
+          { title: 'I Feel for You' },
+          { title: 'The Glamorous Life' },
+        ],
+      },
+      {
+        connection: 'Songs named after planets',
+        category: 'elements',
+        explanation: 'Each title is the name of a planet.',
+        items: [{ title: 'Venus' }, { title: 'Saturn' }, { title: 'Mercury' }, { title: 'Pluto' }],
+      },
+    ],
+  },
+  books: {
+    easy: [
+      {
+        connection: 'Harry Potter books',
+        category: 'narrative',
+        explanation: 'All four are books in the Harry Potter series.',
+        items: [
+          { title: "Harry Potter and the Philosopher's Stone", year: 1997 },
+          { title: 'Harry Potter and the Chamber of Secrets', year: 1998 },
+          { title: 'Harry Potter and the Goblet of Fire', year: 2000 },
+          { title: 'Harry Potter and the Deathly Hallows', year: 2007 },
+        ],
+      },
+      {
+        connection: 'Novels by Jane Austen',
+        category: 'people',
+        explanation: 'All four were written by Jane Austen.',
+        items: [
+          { title: 'Sense and Sensibility', year: 1811 },
+          { title: 'Pride and Prejudice', year: 1813 },
+          { title: 'Emma', year: 1815 },
+          { title: 'Persuasion', year: 1817 },
+        ],
+      },
+      {
+        connection: 'Dystopian novels',
+        category: 'thematic',
+        explanation: 'Each novel depicts a dystopian society.',
+        items: [
+          { title: 'Brave New World', year: 1932 },
+          { title: 'Nineteen Eighty-Four', year: 1949 },
+          { title: 'Fahrenheit 451', year: 1953 },
+          { title: "The Handmaid's Tale", year: 1985 },
+        ],
+      },
+    ],
+    medium: [
+      {
+        connection: 'Stephen King novels',
+        category: 'people',
+        explanation: 'All four were written by Stephen King.',
+        items: [
+          { title: 'Carrie', year: 1974 },
+          { title: 'The Shining', year: 1977 },
+          { title: 'It', year: 1986 },
+          { title: 'Misery', year: 1987 },
+        ],
+      },
+      {
+        connection: 'Titles with a number',
+        category: 'word-game',
+        explanation: 'Each title contains a number.',
+        items: [
+          { title: 'The Thirty-Nine Steps', year: 1915 },
+          { title: 'Catch-22', year: 1961 },
+          { title: 'One Hundred Years of Solitude', year: 1967 },
+          { title: 'Slaughterhouse-Five', year: 1969 },
+        ],
+      },
+      {
+        connection: 'Set in New York',
+        category: 'setting',
+        explanation: 'Each novel takes place in New York.',
+        items: [
+          { title: 'The Age of Innocence', year: 1920 },
+          { title: 'The Great Gatsby', year: 1925 },
+          { title: 'The Catcher in the Rye', year: 1951 },
+          { title: "Breakfast at Tiffany's", year: 1958 },
+        ],
+      },
+    ],
+    hard: [
+      {
+        connection: 'Unreliable narrators',
+        category: 'narrative',
+        explanation: 'Each story is told by a narrator who cannot be trusted.',
+        items: [
+          { title: 'Lolita', year: 1955 },
+          { title: 'The Talented Mr. Ripley', year: 1955 },
+          { title: 'Fight Club', year: 1996 },
+          { title: 'Gone Girl', year: 2012 },
+        ],
+      },
+      {
+        connection: 'Pulitzer Prize for Fiction winners',
+        category: 'cultural',
+        explanation: 'Each won the Pulitzer Prize for Fiction.',
+        items: [
+          { title: 'To Kill a Mockingbird', year: 1960 },
+          { title: 'Beloved', year: 1987 },
+          { title: 'The Road', year: 2006 },
+          { title: 'The Goldfinch', year: 2013 },
+        ],
+      },
+      {
+        connection: 'Titles taken from poems',
+        category: 'word-game',
+        explanation: 'Each title is a line or phrase from an earlier poem.',
+        items: [
+          { title: 'Tender Is the Night', year: 1934 },
+          { title: 'Of Mice and Men', year: 1937 },
+          { title: 'For Whom the Bell Tolls', year: 1940 },
+          { title: 'Things Fall Apart', year: 1958 },
+        ],
+      },
+    ],
+    expert: [
+      {
+        connection: 'Published under a pseudonym',
+        category: 'people',
+        explanation: 'Each was first published under a pen name (Claire Morgan, Victoria Lucas, Richard Bachman, Robert Galbraith).',
+        items: [
+          { title: 'The Price of Salt', year: 1952 },
+          { title: 'The Bell Jar', year: 1963 },
+          { title: 'Thinner', year: 1984 },
+          { title: "The Cuckoo's Calling", year: 2013 },
+        ],
+      },
+      {
+        connection: 'Constrained writing',
+        category: 'word-game',
+        explanation: 'Each novel follows a strict letter constraint, such as never using the letter E.',
+        items: [
+          { title: 'Gadsby', year: 1939 },
+          { title: 'A Void', year: 1969 },
+          { title: 'Ella Minnow Pea', year: 2001 },
+          { title: 'Eunoia', year: 2001 },
+        ],
+      },
+      {
+        connection: 'Booker Prize winners',
+        category: 'cultural',
+        explanation: 'Each won the Booker Prize.',
+        items: [
+          { title: "Midnight's Children", year: 1981 },
+          { title: 'The Remains of the Day', year: 1989 },
+          { title: 'Life of Pi', year: 2001 },
+          { title: 'Wolf Hall', year: 2009 },
+        ],
+      },
+    ],
+  },
+  sports: {
+    easy: [
+      {
+        connection: 'Basketball legends',
+        category: 'people',
+        explanation: 'Each is an NBA great.',
+        items: [
+          { title: 'Magic Johnson', year: 1979 },
+          { title: 'Michael Jordan', year: 1984 },
+          { title: 'Kobe Bryant', year: 1996 },
+          { title: 'LeBron James', year: 2003 },
+        ],
+      },
+      {
+        connection: 'Grand Slam tennis champions',
+        category: 'people',
+        explanation: 'Each has won multiple Grand Slam singles titles.',
+        items: [
+          { title: 'Serena Williams', year: 1995 },
+          { title: 'Roger Federer', year: 1998 },
+          { title: 'Rafael Nadal', year: 2001 },
+          { title: 'Novak Djokovic', year: 2003 },
+        ],
+      },
+      {
+        connection: 'Premier League clubs',
+        category: 'cultural',
+        explanation: 'Each club plays in the English Premier League.',
+        items: [
+          { title: 'Manchester United', year: 1878 },
+          { title: 'Arsenal', year: 1886 },
+          { title: 'Liverpool', year: 1892 },
+          { title: 'Chelsea', year: 1905 },
+        ],
+      },
+    ],
+    medium: [
+      {
+        connection: 'Olympic swimming champions',
+        category: 'people',
+        explanation: 'Each won multiple Olympic gold medals in swimming.',
+        items: [
+          { title: 'Mark Spitz', year: 1968 },
+          { title: 'Michael Phelps', year: 2000 },
+          { title: 'Ian Thorpe', year: 2000 },
+          { title: 'Katie Ledecky', year: 2012 },
+        ],
+      },
+      {
+        connection: 'Super Bowl MVP quarterbacks',
+        category: 'people',
+        explanation: 'Each quarterback was named Super Bowl MVP.',
+        items: [
+          { title: 'Joe Montana', year: 1979 },
+          { title: 'Peyton Manning', year: 1998 },
+          { title: 'Tom Brady', year: 2000 },
+          { title: 'Patrick Mahomes', year: 2017 },
+        ],
+      },
+      {
+        connection: 'Teams named after animals',
+        category: 'word-game',
+        explanation: 'Each team nickname is an animal.',
+        items: [
+          { title: 'Detroit Tigers', year: 1894 },
+          { title: 'Chicago Bulls', year: 1966 },
+          { title: 'Miami Dolphins', year: 1966 },
+          { title: 'Toronto Raptors', year: 1995 },
+        ],
+      },
+    ],
+    hard: [
+      {
+        connection: 'Footballers known by one name',
+        category: 'people',
+        explanation: 'Each Brazilian star is known by a single name.',
+        items: [
+          { title: 'Pelé', year: 1956 },
+          { title: 'Ronaldinho', year: 1998 },
+          { title: 'Kaká', year: 2001 },
+          { title: 'Neymar', year: 2009 },
+        ],
+      },
+      {
+        connection: 'Fought Muhammad Ali',
+        category: 'people',
+        explanation: 'Each boxer faced Muhammad Ali in the ring.',
+        items: [
+          { title: 'Sonny Liston', year: 1953 },
+          { title: 'Joe Frazier', year: 1965 },
+          { title: 'Ken Norton', year: 1967 },
+          { title: 'George Foreman', year: 1969 },
+        ],
+      },
+      {
+        connection: 'NBA teams that relocated',
+        category: 'setting',
+        explanation: 'Each franchise moved from another city.',
+        items: [
+          { title: 'Sacramento Kings', year: 1923 },
+          { title: 'Los Angeles Lakers', year: 1947 },
+          { title: 'Oklahoma City Thunder', year: 1967 },
+          { title: 'Memphis Grizzlies', year: 1995 },
+        ],
+      },
+    ],
+    expert: [
+      {
+        connection: 'Played two professional sports',
+        category: 'people',
+        explanation: 'Each played at the professional level in more than one sport.',
+        items: [
+          { title: 'Jim Thorpe', year: 1913 },
+          { title: 'Danny Ainge', year: 1981 },
+          { title: 'Bo Jackson', year: 1986 },
+          { title: 'Deion Sanders', year: 1989 },
+        ],
+      },
+      {
+        connection: 'Three-time Tour de France winners',
+        category: 'people',
+        explanation: 'Each won the Tour de France at least three times.',
+        items: [
+          { title: 'Eddy Merckx', year: 1965 },
+          { title: 'Greg LeMond', year: 1984 },
+          { title: 'Miguel Induráin', year: 1985 },
+          { title: 'Chris Froome', year: 2008 },
+        ],
+      },
+      {
+        connection: 'Clubs nicknamed after their kit colours',
+        category: 'word-game',
+        explanation: 'Bianconeri, Rossoneri, Nerazzurri and Giallorossi all describe kit colours.',
+        items: [
+          { title: 'Juventus', year: 1897 },
+          { title: 'AC Milan', year: 1899 },
+          { title: 'Inter Milan', year: 1908 },
+          { title: 'AS Roma', year: 1927 },
+        ],
+      },
+    ],
+  },
+}
@@ -144,12 +144,105 @@ export interface IFeedbackStore {
   getRejectedExamples(limit: number, genre?: Genre): Promise<FeedbackRecord[]>
 }
 
+/** Generation Ledger - Records token usage for every generation call */
+export interface IGenerationLedger {
+  record(entry: GenerationLedgerEntryInput): Promise<void>
+  /** Entries created at or after `since`, newest first */
+  listEntries(since: Date, genre?: Genre): Promise<GenerationLedgerEntry[]>
+  /** Total input + output tokens used at or after `since` */
+  getTokensUsed(since: Date, genre?: Genre): Promise<number>
+}
+
 /** Item Verifier - Validates items exist in external service (TMDB, MusicBrainz, etc.) */
 export interface IItemVerifier {
   verifyItem(title: string, year?: number): Promise<VerifiedItem>
   verifyItems(items: AIItem[]): Promise<VerifiedItem[]>
 }
 
+/** Group Generation Provider - Produces candidate groups (Claude, offline stub, API route, etc.) */
+export interface IGroupGenerationProvider {
+  /** Provider name, e.g. "anthropic" or "stub" */
+  readonly name: string
+  /** True when the provider needs no network access (pair it with offline verification) */
+  readonly offline: boolean
+  generateGroups(request: GroupGenerationRequest): Promise<GroupGenerationResult>
+  /** Same as generateGroups, but emits each group as soon as it is ready */
+  streamGroups(request: GroupGenerationRequest): AsyncIterable<GroupStreamEvent>
+}
+
+// =============================================================================
+// Provider Types
+// =============================================================================
+
+/** Model settings for AI providers */
+export interface ModelSettings {
+  model: string
+  maxTokens: number
+  /** Sampling temperature; omitted to use the model default */
+  temperature?: number
+}
+
+/** Everything a provider needs to generate one batch of groups */
+export interface GroupGenerationRequest {
+  filters: GenerationFilters
+  connectionTypes: ConnectionType[]
+  count: number
+  goodExamples: FeedbackRecord[]
+  badExamples: FeedbackRecord[]
+}
+
+/** Groups produced by a provider */
+export interface GroupGenerationResult {
+  groups: GeneratedGroup[]
+  /** Groups the provider returned that failed validation and were dropped */
+  validationErrors: GroupValidationError[]
+  tokensUsed: {
+    input: number | undefined
+    output: number | undefined
+  }
+  /** Model that produced the groups, when the provider reports one */
+  model?: string
+}
+
+/** Event emitted while streaming groups (always ends with "done" on success) */
+export type GroupStreamEvent =
+  | { type: 'group'; group: GeneratedGroup }
+  | { type: 'invalid'; error: GroupValidationError }
+  | {
+      type: 'done'
+      tokensUsed: GroupGenerationResult['tokensUsed']
+      model?: GroupGenerationResult['model']
+    }
+
+
+// =============================================================================
+// Ledger Types
+// =============================================================================
+
+/** What triggered a generation call */
+export type GenerationCaller = 'generator-page' | 'fill-now' | 'cron' | 'cli'
+
+/** One recorded generation call */
+export interface GenerationLedgerEntry {
+  id: string
+  createdAt: Date
+  genre: Genre
+  targetDifficulty: Difficulty | null
+  requestedCount: number
+  /** Valid groups returned */
+  returnedCount: number
+  /** Returned groups dropped by validation */
+  droppedCount: number
+  inputTokens: number
+  outputTokens: number
+  model: string
+  /** Provider name, e.g. "anthropic" or "stub" */
+  provider: string
+  caller: GenerationCaller
+}
+
+/** Ledger entry before it is stored */
+export type GenerationLedgerEntryInput = Omit<GenerationLedgerEntry, 'id' | 'createdAt'>
 
 // =============================================================================
 // API Types
@@ -166,9 +259,21 @@ export interface GenerateGroupsRequest {
   genre?: Genre
 }
 
+/** Validation failure for a single AI-generated group (the group is dropped, the batch continues) */
+export interface GroupValidationError {
+  /** Position of the group in the AI response */
+  index: number
+  /** Connection text, if the AI provided one */
+  connection?: string
+  /** Every problem found with the group */
+  errors: string[]
+}
+
 /** Response from generate-groups API route */
 export interface GenerateGroupsResponse {
   groups: GeneratedGroup[]
+  /** Groups dropped because they failed validation */
+  validationErrors?: GroupValidationError[]
   tokensUsed?: number
   /** Genre used for generation */
   genre?: Genre
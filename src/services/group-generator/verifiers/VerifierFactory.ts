@@ -11,10 +11,19 @@ import { MusicBrainzVerifier } from './MusicBrainzVerifier'
 import { NoOpVerifier } from './NoOpVerifier'
 import type { IItemVerifier } from './IItemVerifier'
 
+export interface VerifierOptions {
+  /** Skip external verification (for offline generation with the stub provider) */
+  offline?: boolean
+}
+
 /**
  * Create the appropriate verifier for a given genre
  */
-export function createVerifier(genre: Genre): IItemVerifier {
+export function createVerifier(genre: Genre, options: VerifierOptions = {}): IItemVerifier {
+  if (options.offline) {
+    return new NoOpVerifier()
+  }
+
   const config = getDomainConfig(genre)
 
   switch (config.verifierType) {
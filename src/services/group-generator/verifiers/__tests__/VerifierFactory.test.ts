@@ -27,4 +27,9 @@ describe('createVerifier', () => {
     const verifier = createVerifier('sports')
     expect(verifier).toBeInstanceOf(NoOpVerifier)
   })
+
+  it('should return NoOpVerifier for films when offline', () => {
+    const verifier = createVerifier('films', { offline: true })
+    expect(verifier).toBeInstanceOf(NoOpVerifier)
+  })
 })
@@ -7,4 +7,4 @@
 export type { IItemVerifier } from './IItemVerifier'
 export { MusicBrainzVerifier } from './MusicBrainzVerifier'
 export { NoOpVerifier } from './NoOpVerifier'
-export { createVerifier } from './VerifierFactory'
+export { createVerifier, type VerifierOptions } from './VerifierFactory'
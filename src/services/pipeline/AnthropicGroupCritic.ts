@@ -0,0 +1,127 @@
+/**
+ * Anthropic Group Critic
+ *
+ * Self-critique pass for the pipeline's quality gate: asks Claude to score a
+ * generated group (server-side only - needs the API key). Token usage is
+ * recorded in the generation ledger so it counts towards the monthly budget.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { Genre } from '../../types';
+import type { GenerationCaller, IGenerationLedger, ModelSettings } from '../group-generator/types';
+import { DEFAULT_MODEL_SETTINGS } from '../group-generator/generateGroupsV2';
+import { getDomainConfig } from '../group-generator/domainConfig';
+import type { GroupCritique, IGroupCritic } from './types';
+
+const SUBMIT_CRITIQUE_TOOL_NAME = 'submit_critique';
+
+/** A critique needs a score and a sentence or two */
+const CRITIQUE_MAX_TOKENS = 512;
+
+const CRITIQUE_TOOL: Anthropic.Tool = {
+  name: SUBMIT_CRITIQUE_TOOL_NAME,
+  description: 'Submit the quality score for the group',
+  input_schema: {
+    type: 'object',
+    properties: {
+      score: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 100,
+        description: 'Quality from 0 (unusable) to 100 (excellent)',
+      },
+      notes: {
+        type: 'string',
+        description: 'One or two sentences explaining the score',
+      },
+    },
+    required: ['score', 'notes'],
+  },
+};
+
+export class AnthropicGroupCritic implements IGroupCritic {
+  private model: string;
+
+  constructor(
+    private apiKey: string,
+    settings: Partial<Pick<ModelSettings, 'model'>> = {},
+    private ledger?: IGenerationLedger,
+    private caller: GenerationCaller = 'cron'
+  ) {
+    this.model = settings.model ?? DEFAULT_MODEL_SETTINGS.model;
+  }
+
+  async critique(
+    group: { connection: string; items: { title: string; year?: number }[] },
+    genre: Genre
+  ): Promise<GroupCritique> {
+    const client = new Anthropic({ apiKey: this.apiKey });
+    const response = await client.messages.create({
+      model: this.model,
+      max_tokens: CRITIQUE_MAX_TOKENS,
+      temperature: 0,
+      messages: [{ role: 'user', content: buildCritiquePrompt(group, genre) }],
+      tools: [CRITIQUE_TOOL],
+      tool_choice: { type: 'tool', name: SUBMIT_CRITIQUE_TOOL_NAME },
+    });
+
+    await this.record(genre, response.usage?.input_tokens ?? 0, response.usage?.output_tokens ?? 0, response.model);
+
+    const toolUse = response.content.find(
+      (c) => c.type === 'tool_use' && c.name === SUBMIT_CRITIQUE_TOOL_NAME
+    );
+    if (!toolUse || toolUse.type !== 'tool_use') {
+      throw new Error('No tool use in AI response');
+    }
+
+    const { score, notes } = toolUse.input as { score?: unknown; notes?: unknown };
+    if (typeof score !== 'number') {
+      throw new Error('Critique is missing a score');
+    }
+
+    return {
+      score: Math.min(100, Math.max(0, Math.round(score))),
+      notes: typeof notes === 'string' ? notes : '',
+    };
+  }
+
+  private async record(genre: Genre, inputTokens: number, outputTokens: number, model: string): Promise<void> {
+    if (!this.ledger) {
+      return;
+    }
+
+    try {
+      await this.ledger.record({
+        genre,
+        targetDifficulty: null,
+        requestedCount: 0,
+        returnedCount: 0,
+        droppedCount: 0,
+        inputTokens,
+        outputTokens,
+        model,
+        provider: 'anthropic',
+        caller: this.caller,
+      });
+    } catch (error) {
+      console.error('Failed to record critique usage:', error);
+    }
+  }
+}
+
+function buildCritiquePrompt(
+  group: { connection: string; items: { title: string; year?: number }[] },
+  genre: Genre
+): string {
+  const { itemNamePlural } = getDomainConfig(genre);
+  const items = group.items
+    .map((item) => `- ${item.title}${item.year ? ` (${item.year})` : ''}`)
+    .join('\n');
+
+  return `You are reviewing a group for a Connections-style puzzle about ${itemNamePlural}.
+
+Connection: ${group.connection}
+${items}
+
+Score the group from 0 to 100. A high score means every item clearly and correctly fits the connection, the connection is specific and interesting, and a player could reasonably solve it. Lower the score for factual errors, vague or trivial connections, or items that only loosely fit.`;
+}
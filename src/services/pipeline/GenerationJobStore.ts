@@ -0,0 +1,154 @@
+/**
+ * Generation Job Store
+ *
+ * Persists generation jobs in Supabase and checkpoints their chunks so
+ * interrupted jobs can be resumed from the admin or the CLI.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Genre } from '../../types';
+import type {
+  AutoApprovalPolicy,
+  GenerationJob,
+  GenerationJobCheckpoint,
+  GenerationJobChunk,
+  GenerationJobInput,
+  GenerationJobStatus,
+  IGenerationJobStore,
+  PipelineRunTrigger,
+} from './types';
+
+/** Number of jobs listed when no limit is given */
+const DEFAULT_JOB_LIMIT = 20;
+
+/** Database row type from Supabase */
+interface GenerationJobRow {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  genre: string;
+  trigger: PipelineRunTrigger;
+  status: GenerationJobStatus;
+  approval_policy: AutoApprovalPolicy;
+  chunks: GenerationJobChunk[] | null;
+  finished_at: string | null;
+  failure_message: string | null;
+}
+
+export class GenerationJobStore implements IGenerationJobStore {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  /**
+   * Create a running job
+   */
+  async create(job: GenerationJobInput): Promise<GenerationJob> {
+    const insertData = {
+      genre: job.genre,
+      trigger: job.trigger,
+      status: 'running',
+      approval_policy: job.approvalPolicy,
+      chunks: job.chunks,
+    };
+
+    const { data, error } = await this.supabase
+      .from('generation_jobs')
+      .insert(insertData as never)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create generation job: ${error.message}`);
+    }
+
+    return this.mapRowToJob(data as GenerationJobRow);
+  }
+
+  /**
+   * Save a job's progress
+   */
+  async checkpoint(id: string, checkpoint: GenerationJobCheckpoint): Promise<void> {
+    const updateData = {
+      status: checkpoint.status,
+      chunks: checkpoint.chunks,
+      finished_at: checkpoint.finishedAt?.toISOString() ?? null,
+      failure_message: checkpoint.failureMessage,
+    };
+
+    const { error } = await this.supabase
+      .from('generation_jobs')
+      .update(updateData as never)
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to checkpoint generation job: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a single job, or null if it does not exist
+   */
+  async getJob(id: string): Promise<GenerationJob | null> {
+    const { data, error } = await this.supabase
+      .from('generation_jobs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get generation job: ${error.message}`);
+    }
+
+    return data ? this.mapRowToJob(data as GenerationJobRow) : null;
+  }
+
+  /**
+   * List jobs, most recent first, optionally filtered by genre and status
+   */
+  async listJobs(
+    options: { genre?: Genre; status?: GenerationJobStatus; limit?: number } = {}
+  ): Promise<GenerationJob[]> {
+    let query = this.supabase
+      .from('generation_jobs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? DEFAULT_JOB_LIMIT);
+
+    if (options.genre) {
+      query = query.eq('genre', options.genre);
+    }
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list generation jobs: ${error.message}`);
+    }
+
+    return ((data || []) as GenerationJobRow[]).map(this.mapRowToJob);
+  }
+
+  /**
+   * Map database row to GenerationJob
+   */
+  private mapRowToJob(row: GenerationJobRow): GenerationJob {
+    return {
+      id: row.id,
+      genre: row.genre as Genre,
+      trigger: row.trigger,
+      status: row.status,
+      approvalPolicy: row.approval_policy,
+      chunks: row.chunks ?? [],
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      finishedAt: row.finished_at ? new Date(row.finished_at) : null,
+      failureMessage: row.failure_message,
+    };
+  }
+}
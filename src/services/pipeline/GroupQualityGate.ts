@@ -0,0 +1,134 @@
+/**
+ * Group Quality Gate
+ *
+ * Decides whether a generated group is approved straight away or saved as
+ * pending for an editor to review. The quality score (0-100) combines:
+ * - verification rate: share of items found in the genre's catalogue
+ * - uniqueness: distance from the closest group already in the pool
+ * - AI self-critique (optional): a second model pass scoring the group
+ *
+ * Groups with unverified items are never approved automatically, in any mode.
+ * In threshold mode with self-critique on, a failed critique call holds the
+ * group too: the threshold is set for scores that include the critique.
+ */
+
+import type { Genre } from '../../types';
+import type { VerifiedItem } from '../group-generator/types';
+import type { GroupSimilarityService } from '../group-generator/GroupSimilarityService';
+import type {
+  AutoApprovalPolicy,
+  GroupCritique,
+  GroupQualityAssessment,
+  IGroupCritic,
+} from './types';
+
+/** Score weights without a critique: verification, uniqueness */
+const WEIGHTS = { verification: 0.6, uniqueness: 0.4 };
+
+/** Score weights with a critique: verification, uniqueness, critique */
+const WEIGHTS_WITH_CRITIQUE = { verification: 0.4, uniqueness: 0.3, critique: 0.3 };
+
+/**
+ * A generated group ready for assessment
+ */
+export interface GateCandidate {
+  connection: string;
+  items: VerifiedItem[];
+}
+
+export class GroupQualityGate {
+  constructor(
+    private policy: AutoApprovalPolicy,
+    private critic?: IGroupCritic
+  ) {}
+
+  /**
+   * Score a group against the pool and decide whether to approve it
+   */
+  async assess(
+    candidate: GateCandidate,
+    similarity: GroupSimilarityService,
+    genre: Genre
+  ): Promise<GroupQualityAssessment> {
+    const reasons: string[] = [];
+
+    const verifiedCount = candidate.items.filter((item) => item.verified).length;
+    const verificationRate = candidate.items.length > 0 ? verifiedCount / candidate.items.length : 0;
+    const closestSimilarity = similarity.closestSimilarity(candidate);
+
+    let critique: GroupCritique | undefined;
+    if (this.shouldCritique()) {
+      try {
+        critique = await this.critic!.critique(candidate, genre);
+      } catch (error) {
+        reasons.push(
+          `Self-critique failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    const score = scoreGroup(verificationRate, closestSimilarity, critique);
+
+    if (verifiedCount < candidate.items.length) {
+      reasons.push(`${candidate.items.length - verifiedCount} of ${candidate.items.length} items unverified`);
+    }
+
+    if (this.policy.mode === 'never') {
+      reasons.push('Auto-approval is off');
+    } else if (this.policy.mode === 'threshold' && score < this.policy.threshold) {
+      reasons.push(`Quality score ${score} is below the threshold of ${this.policy.threshold}`);
+    }
+
+    return {
+      score,
+      verificationRate,
+      closestSimilarity,
+      ...(critique && { critique }),
+      mode: this.policy.mode,
+      approved: reasons.length === 0,
+      reasons,
+    };
+  }
+
+  /**
+   * The critique only affects the outcome in threshold mode, so skip the AI call otherwise
+   */
+  private shouldCritique(): boolean {
+    return this.policy.mode === 'threshold' && this.policy.selfCritique && this.critic !== undefined;
+  }
+}
+
+/**
+ * Combine the signals into a 0-100 score
+ */
+export function scoreGroup(
+  verificationRate: number,
+  closestSimilarity: number,
+  critique?: GroupCritique
+): number {
+  const uniqueness = 1 - closestSimilarity;
+  const raw = critique
+    ? WEIGHTS_WITH_CRITIQUE.verification * verificationRate +
+      WEIGHTS_WITH_CRITIQUE.uniqueness * uniqueness +
+      WEIGHTS_WITH_CRITIQUE.critique * (clamp(critique.score, 0, 100) / 100)
+    : WEIGHTS.verification * verificationRate + WEIGHTS.uniqueness * uniqueness;
+
+  return Math.round(clamp(raw, 0, 1) * 100);
+}
+
+/**
+ * Read the assessment stored in a group's metadata, if the group went through the gate
+ */
+export function getQualityAssessment(
+  metadata: Record<string, unknown> | undefined
+): GroupQualityAssessment | null {
+  const assessment = metadata?.qualityGate;
+  if (!assessment || typeof assessment !== 'object') {
+    return null;
+  }
+  return assessment as GroupQualityAssessment;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,112 @@
+/**
+ * Pipeline Config History Store
+ *
+ * Records every pipeline config change in Supabase so changes can be
+ * audited and reverted from the config editor.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Genre } from '../../types';
+import type {
+  IPipelineConfigHistory,
+  PipelineConfigChange,
+  PipelineConfigChangeInput,
+  PipelineConfigChangeSource,
+  PipelineConfigFieldChange,
+} from './types';
+
+/** Number of changes listed when no limit is given */
+const DEFAULT_CHANGE_LIMIT = 20;
+
+/** Database row type from Supabase */
+interface PipelineConfigChangeRow {
+  id: string;
+  created_at: string;
+  genre: string;
+  changed_by: string;
+  source: PipelineConfigChangeSource;
+  changes: PipelineConfigFieldChange[];
+  copied_from: string | null;
+  reverted_change_id: string | null;
+}
+
+export class PipelineConfigHistoryStore implements IPipelineConfigHistory {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  /**
+   * Record one config change
+   */
+  async record(change: PipelineConfigChangeInput): Promise<void> {
+    const insertData = {
+      genre: change.genre,
+      changed_by: change.changedBy,
+      source: change.source,
+      changes: change.changes,
+      copied_from: change.copiedFrom,
+      reverted_change_id: change.revertedChangeId,
+    };
+
+    const { error } = await this.supabase
+      .from('pipeline_config_changes')
+      .insert(insertData as never);
+
+    if (error) {
+      throw new Error(`Failed to record pipeline config change: ${error.message}`);
+    }
+  }
+
+  /**
+   * List a genre's changes, most recent first
+   */
+  async listChanges(genre: Genre, limit: number = DEFAULT_CHANGE_LIMIT): Promise<PipelineConfigChange[]> {
+    const { data, error } = await this.supabase
+      .from('pipeline_config_changes')
+      .select('*')
+      .eq('genre', genre)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list pipeline config changes: ${error.message}`);
+    }
+
+    return ((data || []) as PipelineConfigChangeRow[]).map(this.mapRowToChange);
+  }
+
+  /**
+   * Get a single change, or null if it does not exist
+   */
+  async getChange(id: string): Promise<PipelineConfigChange | null> {
+    const { data, error } = await this.supabase
+      .from('pipeline_config_changes')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get pipeline config change: ${error.message}`);
+    }
+
+    return data ? this.mapRowToChange(data as PipelineConfigChangeRow) : null;
+  }
+
+  /**
+   * Map database row to PipelineConfigChange
+   */
+  private mapRowToChange(row: PipelineConfigChangeRow): PipelineConfigChange {
+    return {
+      id: row.id,
+      genre: row.genre as Genre,
+      changedBy: row.changed_by,
+      changedAt: new Date(row.created_at),
+      source: row.source,
+      changes: row.changes,
+      copiedFrom: row.copied_from as Genre | null,
+      revertedChangeId: row.reverted_change_id,
+    };
+  }
+}
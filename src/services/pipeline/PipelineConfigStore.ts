@@ -2,13 +2,26 @@
  * Pipeline Config Store
  *
  * Manages pipeline configuration in Supabase database.
+ * With a history, every change is recorded with who made it so it can be reverted.
  */
 
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '../../lib/supabase/types';
 import type { Genre } from '../../types';
-import type { PipelineConfig } from './types';
+import type {
+  AutoApprovalMode,
+  IPipelineConfigHistory,
+  PipelineConfig,
+  PipelineConfigChangeContext,
+  PipelineConfigValues,
+} from './types';
 import { DEFAULT_PIPELINE_CONFIG } from './types';
+import {
+  COPYABLE_CONFIG_FIELDS,
+  diffPipelineConfig,
+  pickConfigFields,
+  validatePipelineConfig,
+} from './pipelineConfigEditing';
 
 /**
  * Database row type for pipeline_config table
@@ -22,13 +35,21 @@ interface DbPipelineConfigRow {
   rolling_window_days: number;
   min_groups_per_color: number;
   ai_generation_batch_size: number;
+  monthly_token_budget: number | null;
+  connection_type_gap_days: number;
+  auto_approval_mode: string;
+  auto_approval_threshold: number;
+  self_critique_enabled: boolean;
 }
 
 /**
  * PipelineConfigStore handles CRUD operations for pipeline configuration.
  */
 export class PipelineConfigStore {
-  constructor(private supabase: SupabaseClient<Database>) {}
+  constructor(
+    private supabase: SupabaseClient<Database>,
+    private history: IPipelineConfigHistory | null = null
+  ) {}
 
   /**
    * Convert database row to PipelineConfig
@@ -40,6 +61,11 @@ export class PipelineConfigStore {
       genre: row.genre as Genre,
       minGroupsPerColor: row.min_groups_per_color,
       aiGenerationBatchSize: row.ai_generation_batch_size,
+      monthlyTokenBudget: row.monthly_token_budget,
+      connectionTypeGapDays: row.connection_type_gap_days,
+      autoApprovalMode: row.auto_approval_mode as AutoApprovalMode,
+      autoApprovalThreshold: row.auto_approval_threshold,
+      selfCritiqueEnabled: row.self_critique_enabled,
     };
   }
 
@@ -72,11 +98,21 @@ export class PipelineConfigStore {
   /**
    * Update pipeline configuration for a genre.
    * Creates the config if it doesn't exist.
+   * Throws without saving when a value is invalid.
    */
   async updateConfig(
     genre: Genre,
-    updates: Partial<Omit<PipelineConfig, 'genre'>>
+    updates: Partial<Omit<PipelineConfig, 'genre'>>,
+    context?: PipelineConfigChangeContext
   ): Promise<PipelineConfig> {
+    const errors = Object.values(validatePipelineConfig(updates));
+    if (errors.length > 0) {
+      throw new Error(`Invalid pipeline config: ${errors.join('; ')}`);
+    }
+
+    // The previous values are needed to record what changed
+    const previous = this.history ? await this.getConfig(genre) : null;
+
     const dbUpdates: Record<string, unknown> = {};
 
     if (updates.enabled !== undefined) {
@@ -91,6 +127,21 @@ export class PipelineConfigStore {
     if (updates.aiGenerationBatchSize !== undefined) {
       dbUpdates.ai_generation_batch_size = updates.aiGenerationBatchSize;
     }
+    if (updates.monthlyTokenBudget !== undefined) {
+      dbUpdates.monthly_token_budget = updates.monthlyTokenBudget;
+    }
+    if (updates.connectionTypeGapDays !== undefined) {
+      dbUpdates.connection_type_gap_days = updates.connectionTypeGapDays;
+    }
+    if (updates.autoApprovalMode !== undefined) {
+      dbUpdates.auto_approval_mode = updates.autoApprovalMode;
+    }
+    if (updates.autoApprovalThreshold !== undefined) {
+      dbUpdates.auto_approval_threshold = updates.autoApprovalThreshold;
+    }
+    if (updates.selfCritiqueEnabled !== undefined) {
+      dbUpdates.self_critique_enabled = updates.selfCritiqueEnabled;
+    }
 
     // Use upsert to create or update
     const { data, error } = await this.supabase
@@ -111,21 +162,94 @@ export class PipelineConfigStore {
       throw new Error(`Failed to update pipeline config: ${error.message}`);
     }
 
-    return this.rowToConfig(data as unknown as DbPipelineConfigRow);
+    const config = this.rowToConfig(data as unknown as DbPipelineConfigRow);
+
+    if (previous) {
+      await this.recordChange(previous, config, context);
+    }
+
+    return config;
   }
 
   /**
    * Reset pipeline configuration to defaults for a genre.
    */
-  async resetToDefaults(genre: Genre): Promise<PipelineConfig> {
-    return this.updateConfig(genre, DEFAULT_PIPELINE_CONFIG);
+  async resetToDefaults(genre: Genre, context?: PipelineConfigChangeContext): Promise<PipelineConfig> {
+    return this.updateConfig(genre, DEFAULT_PIPELINE_CONFIG, { ...context, source: 'reset' });
   }
 
   /**
    * Toggle the enabled state for a genre.
    */
-  async toggleEnabled(genre: Genre): Promise<PipelineConfig> {
+  async toggleEnabled(genre: Genre, context?: PipelineConfigChangeContext): Promise<PipelineConfig> {
     const current = await this.getConfig(genre);
-    return this.updateConfig(genre, { enabled: !current.enabled });
+    return this.updateConfig(genre, { enabled: !current.enabled }, { ...context, source: 'toggle' });
+  }
+
+  /**
+   * Copy another genre's settings to a genre. Auto-fill is left as it is.
+   */
+  async copyFromGenre(
+    genre: Genre,
+    sourceGenre: Genre,
+    context?: PipelineConfigChangeContext
+  ): Promise<PipelineConfig> {
+    const source = await this.getConfig(sourceGenre);
+    return this.updateConfig(genre, pickConfigFields(source, COPYABLE_CONFIG_FIELDS), {
+      ...context,
+      source: 'copy',
+      copiedFrom: sourceGenre,
+    });
+  }
+
+  /**
+   * Restore the values a recorded change replaced. The revert is recorded as a change itself.
+   */
+  async revertChange(changeId: string, context?: PipelineConfigChangeContext): Promise<PipelineConfig> {
+    if (!this.history) {
+      throw new Error('Cannot revert pipeline config change: no change history');
+    }
+
+    const change = await this.history.getChange(changeId);
+    if (!change) {
+      throw new Error(`Cannot revert pipeline config change: change ${changeId} not found`);
+    }
+
+    const updates = Object.fromEntries(
+      change.changes.map(({ field, from }) => [field, from])
+    ) as Partial<PipelineConfigValues>;
+
+    return this.updateConfig(change.genre, updates, {
+      ...context,
+      source: 'revert',
+      revertedChangeId: changeId,
+    });
+  }
+
+  /**
+   * Record the fields a change touched; a failed record does not undo the change
+   */
+  private async recordChange(
+    previous: PipelineConfig,
+    config: PipelineConfig,
+    context?: PipelineConfigChangeContext
+  ): Promise<void> {
+    const changes = diffPipelineConfig(previous, config);
+    if (changes.length === 0 || !this.history) {
+      return;
+    }
+
+    try {
+      await this.history.record({
+        genre: config.genre,
+        changedBy: context?.changedBy ?? 'unknown',
+        source: context?.source ?? 'edit',
+        changes,
+        copiedFrom: context?.copiedFrom ?? null,
+        revertedChangeId: context?.revertedChangeId ?? null,
+      });
+    } catch (error) {
+      console.error('Failed to record pipeline config change:', error);
+    }
   }
 }
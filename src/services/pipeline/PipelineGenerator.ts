@@ -3,6 +3,9 @@
  *
  * Handles AI group generation for the pipeline.
  * Generates groups for specific colors when pool is low.
+ * Each saved group passes the quality gate, which either approves it
+ * or leaves it pending for review.
+ * Requests run as chunked generation jobs (see generationJobs.ts).
  */
 
 import type { Genre } from '../../types';
@@ -10,15 +13,44 @@ import type { DifficultyColor } from '../../lib/supabase/storage/IGroupStorage';
 import type { IGroupStorage, GroupInput } from '../../lib/supabase/storage/IGroupStorage';
 import type {
   ConnectionType,
-  GeneratedGroup,
   FeedbackRecord,
   GenerationFilters,
+  VerifiedItem,
+} from '../group-generator/types';
+import type {
+  IConnectionTypeStore,
+  IFeedbackStore,
+  IGroupGenerationProvider,
+  IItemVerifier,
 } from '../group-generator/types';
-import type { IConnectionTypeStore, IFeedbackStore, IItemVerifier } from '../group-generator/types';
 
 import type { Difficulty } from '../group-generator/types';
+import {
+  GroupSimilarityService,
+  describeDuplicate,
+} from '../group-generator/GroupSimilarityService';
 import type { DifficultyLevel } from '../../lib/supabase/storage/IGroupStorage';
-import type { PipelineStageCallback } from './types';
+import type {
+  AutoApprovalPolicy,
+  GenerationJob,
+  GenerationJobChunk,
+  GenerationJobInput,
+  IGenerationJobStore,
+  IGroupCritic,
+  PipelineRunTrigger,
+  PipelineStageCallback,
+} from './types';
+import { DEFAULT_PIPELINE_CONFIG } from './types';
+import { GroupQualityGate } from './GroupQualityGate';
+import {
+  DEFAULT_RETRY_POLICY,
+  getGenerationJobProgress,
+  getRetryDelay,
+  isGenerationJobResumable,
+  planGenerationChunks,
+  summarizeGenerationJob,
+  type RetryPolicy,
+} from './generationJobs';
 
 /**
  * Difficulty mapping for colors
@@ -43,9 +75,18 @@ const COLOR_TO_STORAGE_DIFFICULTY: Record<DifficultyColor, { level: DifficultyLe
  */
 export interface PipelineGenerationResult {
   groupsGenerated: number;
+  /** Groups saved, approved or pending */
   groupsSaved: number;
+  /** Saved groups the quality gate held for review */
+  groupsPending: number;
+  /** Failed chunks and groups that could not be saved */
   errors: string[];
+  /** Groups skipped as invalid, unverifiable or likely duplicates */
+  warnings: string[];
+  /** Approved groups saved per color */
   byColor: Record<DifficultyColor, number>;
+  /** Persisted job the groups were generated in (null when no job store was given) */
+  jobId?: string | null;
 }
 
 /**
@@ -53,163 +94,348 @@ export interface PipelineGenerationResult {
  */
 export interface PipelineGenerationConfig {
   genre: Genre;
-  /** How many groups to generate per color that's low */
+  /** How many groups to generate per color that's low (split into chunks) */
   groupsPerColor: number;
   /** Colors that need more groups */
   colorsNeeded: DifficultyColor[];
-  /** API key for AI generation */
-  apiKey: string;
-  /** Optional callback for stage updates */
+  /** Auto-approval policy for saved groups (defaults to the default pipeline config) */
+  approvalPolicy?: AutoApprovalPolicy;
+  /** Optional callback for stage updates, with groups generated of groups requested */
   onStageChange?: PipelineStageCallback;
+  /** Persists the job so it can be resumed; without one the job only lives in memory */
+  jobStore?: IGenerationJobStore;
+  /** What started the generation, recorded with the job (default: 'manual') */
+  trigger?: PipelineRunTrigger;
+}
+
+/**
+ * Everything a generation job loads once and shares across its chunks
+ */
+interface GenerationContext {
+  genre: Genre;
+  connectionTypes: ConnectionType[];
+  goodExamples: FeedbackRecord[];
+  badExamples: FeedbackRecord[];
+  /** Existing connections, plus the ones saved by earlier chunks */
+  excludeConnections: string[];
+  /** Approved pool for duplicate detection (grows as new groups are saved) */
+  similarity: GroupSimilarityService;
+  gate: GroupQualityGate;
 }
 
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 /**
  * PipelineGenerator handles AI group generation for the pipeline.
+ *
+ * Requests run as generation jobs: split into chunks, each chunk retried with
+ * exponential backoff and, with a job store, checkpointed so an interrupted
+ * job can be resumed with resumeJob.
  */
 export class PipelineGenerator {
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
   constructor(
     private groupStorage: IGroupStorage,
     private connectionTypeStore: IConnectionTypeStore,
     private feedbackStore: IFeedbackStore,
     private itemVerifier: IItemVerifier,
-    private generateGroupsFn: (
-      apiKey: string,
-      filters: GenerationFilters,
-      connectionTypes: ConnectionType[],
-      count: number,
-      goodExamples: FeedbackRecord[],
-      badExamples: FeedbackRecord[]
-    ) => Promise<{ groups: GeneratedGroup[]; tokensUsed: { input: number | undefined; output: number | undefined } }>
+    private provider: IGroupGenerationProvider,
+    private critic?: IGroupCritic
   ) {}
 
+  /**
+   * Set how failed provider calls and item verifications are retried
+   */
+  setRetryPolicy(policy: RetryPolicy): void {
+    this.retryPolicy = policy;
+  }
+
   /**
    * Generate groups for colors that need them
    */
   async generateForPipeline(config: PipelineGenerationConfig): Promise<PipelineGenerationResult> {
-    const result: PipelineGenerationResult = {
-      groupsGenerated: 0,
-      groupsSaved: 0,
-      errors: [],
-      byColor: { yellow: 0, green: 0, blue: 0, purple: 0 },
+    if (config.colorsNeeded.length === 0) {
+      return { ...summarizeGenerationJob({ chunks: [], failureMessage: null }), jobId: null };
+    }
+
+    const input: GenerationJobInput = {
+      genre: config.genre,
+      trigger: config.trigger ?? 'manual',
+      approvalPolicy: config.approvalPolicy ?? {
+        mode: DEFAULT_PIPELINE_CONFIG.autoApprovalMode,
+        threshold: DEFAULT_PIPELINE_CONFIG.autoApprovalThreshold,
+        selfCritique: DEFAULT_PIPELINE_CONFIG.selfCritiqueEnabled,
+      },
+      chunks: planGenerationChunks(config.colorsNeeded, config.groupsPerColor),
     };
 
-    if (config.colorsNeeded.length === 0) {
-      return result;
+    let job: GenerationJob | null = null;
+    if (config.jobStore) {
+      try {
+        job = await config.jobStore.create(input);
+      } catch (error) {
+        // Generation does not depend on the job table; the job just cannot be resumed
+        console.error('Failed to create generation job, generating without checkpoints:', error);
+      }
     }
 
-    const reportStage = config.onStageChange ?? (() => {});
+    const jobStore = job ? config.jobStore ?? null : null;
+    const now = new Date();
+    const runningJob = job ?? {
+      ...input,
+      id: globalThis.crypto.randomUUID(),
+      status: 'running' as const,
+      createdAt: now,
+      updatedAt: now,
+      finishedAt: null,
+      failureMessage: null,
+    };
 
+    await this.runJob(runningJob, jobStore, config.onStageChange);
+
+    return { ...summarizeGenerationJob(runningJob), jobId: jobStore ? runningJob.id : null };
+  }
+
+  /**
+   * Resume a failed or interrupted job, running the chunks that did not complete
+   */
+  async resumeJob(
+    jobId: string,
+    jobStore: IGenerationJobStore,
+    onStageChange?: PipelineStageCallback
+  ): Promise<PipelineGenerationResult> {
+    const job = await jobStore.getJob(jobId);
+
+    if (!job) {
+      throw new Error(`Generation job ${jobId} not found`);
+    }
+
+    if (!isGenerationJobResumable(job)) {
+      throw new Error(
+        job.status === 'completed'
+          ? `Generation job ${jobId} is already complete`
+          : `Generation job ${jobId} is still running`
+      );
+    }
+
+    await this.runJob(job, jobStore, onStageChange);
+
+    return { ...summarizeGenerationJob(job), jobId };
+  }
+
+  /**
+   * Run the job's unfinished chunks, checkpointing after each one
+   */
+  private async runJob(
+    job: GenerationJob,
+    jobStore: IGenerationJobStore | null,
+    onStageChange?: PipelineStageCallback
+  ): Promise<void> {
+    const reportStage = onStageChange ?? (() => {});
+
+    job.status = 'running';
+    job.finishedAt = null;
+    job.failureMessage = null;
+    await this.checkpoint(job, jobStore);
+
+    let context: GenerationContext;
     try {
-      // Get connection types for this genre
-      const connectionTypes = await this.connectionTypeStore.getActive(config.genre);
+      context = await this.prepare(job.genre, job.approvalPolicy);
+    } catch (error) {
+      job.status = 'failed';
+      job.failureMessage = error instanceof Error ? error.message : 'Unknown error';
+      job.finishedAt = new Date();
+      await this.checkpoint(job, jobStore);
+      return;
+    }
 
-      if (connectionTypes.length === 0) {
-        result.errors.push('No active connection types found for genre');
-        return result;
+    for (const chunk of job.chunks) {
+      if (chunk.status === 'completed') {
+        continue;
       }
 
-      // Get feedback examples
-      const [goodExamples, badExamples] = await Promise.all([
-        this.feedbackStore.getAcceptedExamples(5, config.genre),
-        this.feedbackStore.getRejectedExamples(5, config.genre),
-      ]);
+      reportStage(`generating-${chunk.color}` as const, getGenerationJobProgress(job));
+      await this.runChunk(chunk, context);
+      await this.checkpoint(job, jobStore);
+    }
+
+    job.status = job.chunks.every((chunk) => chunk.status === 'completed') ? 'completed' : 'failed';
+    job.finishedAt = new Date();
+    await this.checkpoint(job, jobStore);
+  }
+
+  /**
+   * Generate one chunk, retrying failed provider calls with exponential backoff
+   */
+  private async runChunk(chunk: GenerationJobChunk, context: GenerationContext): Promise<void> {
+    // Failed attempts are only kept when the chunk fails; a retry that succeeds is not an error
+    const attemptErrors: string[] = [];
+
+    try {
+      const result = await this.withRetry(
+        () => {
+          chunk.attempts++;
+          return this.generateForColor(chunk.color, chunk.count, context);
+        },
+        (error) => attemptErrors.push(`Attempt ${chunk.attempts} failed: ${errorMessage(error)}`)
+      );
+
+      chunk.status = 'completed';
+      chunk.generated = result.generated;
+      chunk.saved = result.saved;
+      chunk.pending = result.pending;
+      chunk.errors = result.errors;
+      chunk.warnings = result.warnings;
+    } catch {
+      chunk.status = 'failed';
+      chunk.errors = attemptErrors;
+    }
+  }
+
+  /**
+   * Save the job's progress. A failed checkpoint is logged and never fails the job.
+   */
+  private async checkpoint(job: GenerationJob, jobStore: IGenerationJobStore | null): Promise<void> {
+    job.updatedAt = new Date();
+    if (!jobStore) {
+      return;
+    }
 
-      // Get existing connections to exclude
-      const existingGroups = await this.groupStorage.listGroups({
-        genre: config.genre,
-        limit: 1000,
+    try {
+      await jobStore.checkpoint(job.id, {
+        status: job.status,
+        chunks: job.chunks,
+        finishedAt: job.finishedAt,
+        failureMessage: job.failureMessage,
       });
-      const excludeConnections = existingGroups.groups.map((g) => g.connection);
-
-      // Generate groups for each color needed
-      for (const color of config.colorsNeeded) {
-        // Report stage for this color
-        reportStage(`generating-${color}` as const);
-
-        try {
-          const colorResult = await this.generateForColor(
-            color,
-            config,
-            connectionTypes,
-            goodExamples,
-            badExamples,
-            excludeConnections
-          );
-
-          result.groupsGenerated += colorResult.generated;
-          result.groupsSaved += colorResult.saved;
-          result.byColor[color] = colorResult.saved;
-
-          if (colorResult.errors.length > 0) {
-            result.errors.push(...colorResult.errors.map((e) => `[${color}] ${e}`));
-          }
-
-          // Add newly generated connections to exclude list
-          excludeConnections.push(...colorResult.connections);
-        } catch (error) {
-          result.errors.push(
-            `[${color}] ${error instanceof Error ? error.message : 'Unknown error'}`
-          );
+    } catch (error) {
+      console.error('Failed to checkpoint generation job:', error);
+    }
+  }
+
+  /**
+   * Run an operation, retrying with exponential backoff until the retry policy gives up
+   */
+  private async withRetry<T>(
+    operation: () => Promise<T>,
+    onFailedAttempt?: (error: unknown) => void
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        onFailedAttempt?.(error);
+        if (attempt >= this.retryPolicy.maxAttempts) {
+          throw error;
         }
+        await sleep(getRetryDelay(this.retryPolicy, attempt));
       }
-    } catch (error) {
-      result.errors.push(error instanceof Error ? error.message : 'Unknown error');
     }
+  }
 
-    return result;
+  /**
+   * Load what every chunk of a job needs
+   */
+  private async prepare(genre: Genre, approvalPolicy: AutoApprovalPolicy): Promise<GenerationContext> {
+    // Get connection types for this genre
+    const connectionTypes = await this.connectionTypeStore.getActive(genre);
+
+    if (connectionTypes.length === 0) {
+      throw new Error('No active connection types found for genre');
+    }
+
+    // Get feedback examples
+    const [goodExamples, badExamples] = await Promise.all([
+      this.feedbackStore.getAcceptedExamples(5, genre),
+      this.feedbackStore.getRejectedExamples(5, genre),
+    ]);
+
+    // Get existing connections to exclude
+    const existingGroups = await this.groupStorage.listGroups({
+      genre,
+      limit: 1000,
+    });
+
+    return {
+      genre,
+      connectionTypes,
+      goodExamples,
+      badExamples,
+      excludeConnections: existingGroups.groups.map((g) => g.connection),
+      similarity: GroupSimilarityService.fromStoredGroups(existingGroups.groups, genre),
+      gate: new GroupQualityGate(approvalPolicy, this.critic),
+    };
   }
 
   /**
-   * Generate groups for a specific color
+   * Generate a chunk of groups for a specific color.
+   * Throws when the provider call fails so the chunk can be retried;
+   * groups that could not be saved are reported in `errors`, skipped ones in `warnings`.
    */
   private async generateForColor(
     color: DifficultyColor,
-    config: PipelineGenerationConfig,
-    connectionTypes: ConnectionType[],
-    goodExamples: FeedbackRecord[],
-    badExamples: FeedbackRecord[],
-    excludeConnections: string[]
-  ): Promise<{ generated: number; saved: number; errors: string[]; connections: string[] }> {
+    count: number,
+    context: GenerationContext
+  ): Promise<{ generated: number; saved: number; pending: number; errors: string[]; warnings: string[] }> {
     const errors: string[] = [];
-    const savedConnections: string[] = [];
+    const warnings: string[] = [];
+    const { similarity, gate } = context;
 
     // Build filters with target difficulty for this color
     const aiDifficulty = COLOR_TO_AI_DIFFICULTY[color];
     const storageDifficulty = COLOR_TO_STORAGE_DIFFICULTY[color];
     const filters: GenerationFilters = {
-      genre: config.genre,
-      excludeConnections,
+      genre: context.genre,
+      excludeConnections: [...context.excludeConnections],
       targetDifficulty: aiDifficulty,
     };
 
-    // Generate groups via AI
-    const { groups } = await this.generateGroupsFn(
-      config.apiKey,
+    // Generate groups via the provider (Claude, API route or offline stub)
+    const { groups, validationErrors } = await this.provider.generateGroups({
       filters,
-      connectionTypes,
-      config.groupsPerColor,
-      goodExamples,
-      badExamples
-    );
+      connectionTypes: context.connectionTypes,
+      count,
+      goodExamples: context.goodExamples,
+      badExamples: context.badExamples,
+    });
+
+    // Groups that failed schema validation were already dropped by the generator
+    for (const invalid of validationErrors) {
+      warnings.push(
+        `Dropped invalid group "${invalid.connection ?? `#${invalid.index + 1}`}": ${invalid.errors.join('; ')}`
+      );
+    }
 
     let saved = 0;
+    let pending = 0;
 
     // Process each generated group
     for (const group of groups) {
+      let verifiedItems: VerifiedItem[];
       try {
-        // Verify items
-        const verifiedItems = await this.itemVerifier.verifyItems(
-          group.items.map((i) => ({ title: i.title, year: i.year }))
+        // Verify items, retrying lookups that fail (e.g. a rate-limited TMDB)
+        verifiedItems = await this.withRetry(() =>
+          this.itemVerifier.verifyItems(group.items.map((i) => ({ title: i.title, year: i.year })))
         );
+      } catch (error) {
+        warnings.push(`Failed to verify group "${group.connection}": ${errorMessage(error)}`);
+        continue;
+      }
 
-        // Check if all items are verified (externalId may be null for some verifiers like MusicBrainz)
-        const allVerified = verifiedItems.every((item) => item.verified);
+      try {
+        // Skip likely duplicates of the approved pool before saving
+        const candidate = { connection: group.connection, items: verifiedItems };
+        const [duplicate] = similarity.findDuplicates(candidate);
 
-        if (!allVerified) {
-          errors.push(`Group "${group.connection}" has unverified items, skipping`);
+        if (duplicate) {
+          warnings.push(`Group "${group.connection}" is a likely duplicate (${describeDuplicate(duplicate)}), skipping`);
           continue;
         }
 
+        // Approve or hold for review (externalId may be null for some verifiers like MusicBrainz)
+        const assessment = await gate.assess(candidate, similarity, context.genre);
+
         // Create group input with color assignment (storageDifficulty defined above)
         const groupInput: GroupInput = {
           items: verifiedItems.map((item, index) => ({
@@ -222,28 +448,35 @@ export class PipelineGenerator {
           difficultyScore: storageDifficulty.score,
           color,
           difficulty: storageDifficulty.level,
-          status: 'approved', // Auto-approve for pipeline
-          genre: config.genre,
+          status: assessment.approved ? 'approved' : 'pending',
+          metadata: { qualityGate: assessment },
+          genre: context.genre,
         };
 
         // Save to storage
         await this.groupStorage.saveGroup(groupInput);
+        similarity.add(candidate);
+        context.excludeConnections.push(group.connection);
         saved++;
-        savedConnections.push(group.connection);
+
+        if (!assessment.approved) {
+          pending++;
+        }
       } catch (error) {
-        errors.push(
-          `Failed to save group "${group.connection}": ${
-            error instanceof Error ? error.message : 'Unknown error'
-          }`
-        );
+        errors.push(`Failed to save group "${group.connection}": ${errorMessage(error)}`);
       }
     }
 
     return {
-      generated: groups.length,
+      generated: groups.length + validationErrors.length,
       saved,
+      pending,
       errors,
-      connections: savedConnections,
+      warnings,
     };
   }
 }
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
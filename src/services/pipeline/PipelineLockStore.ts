@@ -0,0 +1,151 @@
+/**
+ * Pipeline Lock Store
+ *
+ * Per-genre pipeline leases in Supabase. Leases are taken atomically by the
+ * acquire_pipeline_lock function and extended by renew_pipeline_lock, which
+ * never recreates a released lease.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Genre } from '../../types';
+import type {
+  IPipelineLock,
+  PipelineLease,
+  PipelineLeaseRequest,
+  PipelineRunTrigger,
+} from './types';
+
+/** Database row type from Supabase */
+interface PipelineLockRow {
+  genre: string;
+  token: string;
+  holder: string;
+  trigger: PipelineRunTrigger;
+  acquired_at: string;
+  expires_at: string;
+}
+
+/** Arguments of the acquire_pipeline_lock function */
+interface AcquirePipelineLockArgs {
+  genre_param: string;
+  token_param: string;
+  holder_param: string;
+  trigger_param: PipelineRunTrigger;
+  ttl_seconds_param: number;
+}
+
+/** Arguments of the renew_pipeline_lock function */
+interface RenewPipelineLockArgs {
+  genre_param: string;
+  token_param: string;
+  ttl_seconds_param: number;
+}
+
+export class PipelineLockStore implements IPipelineLock {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  /**
+   * Take or renew the genre's lease; returns the lease holding the genre afterwards
+   */
+  async acquire(genre: Genre, request: PipelineLeaseRequest, ttlMs: number): Promise<PipelineLease> {
+    // Use type assertion for RPC call since the function signature is custom
+    const { data, error } = await (
+      this.supabase.rpc as unknown as (
+        fn: string,
+        args: AcquirePipelineLockArgs
+      ) => Promise<{ data: PipelineLockRow | null; error: { message: string } | null }>
+    )('acquire_pipeline_lock', {
+      genre_param: genre,
+      token_param: request.token,
+      holder_param: request.holder,
+      trigger_param: request.trigger,
+      ttl_seconds_param: Math.ceil(ttlMs / 1000),
+    });
+
+    if (error) {
+      throw new Error(`Failed to acquire pipeline lock: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Failed to acquire pipeline lock: no lease returned');
+    }
+
+    return this.mapRowToLease(data);
+  }
+
+  /**
+   * Extend the lease if it is still held with `token`
+   */
+  async renew(genre: Genre, token: string, ttlMs: number): Promise<boolean> {
+    // Use type assertion for RPC call since the function signature is custom
+    const { data, error } = await (
+      this.supabase.rpc as unknown as (
+        fn: string,
+        args: RenewPipelineLockArgs
+      ) => Promise<{ data: boolean | null; error: { message: string } | null }>
+    )('renew_pipeline_lock', {
+      genre_param: genre,
+      token_param: token,
+      ttl_seconds_param: Math.ceil(ttlMs / 1000),
+    });
+
+    if (error) {
+      throw new Error(`Failed to renew pipeline lock: ${error.message}`);
+    }
+
+    return data === true;
+  }
+
+  /**
+   * Release the lease if it is still held with `token`
+   */
+  async release(genre: Genre, token: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('pipeline_locks')
+      .delete()
+      .eq('genre', genre)
+      .eq('token', token);
+
+    if (error) {
+      throw new Error(`Failed to release pipeline lock: ${error.message}`);
+    }
+  }
+
+  /**
+   * Lease currently stored for the genre, expired or not
+   */
+  async getLease(genre: Genre): Promise<PipelineLease | null> {
+    const { data, error } = await this.supabase
+      .from('pipeline_locks')
+      .select('*')
+      .eq('genre', genre)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get pipeline lock: ${error.message}`);
+    }
+
+    return data ? this.mapRowToLease(data as PipelineLockRow) : null;
+  }
+
+  /**
+   * Map database row to PipelineLease
+   */
+  private mapRowToLease(row: PipelineLockRow): PipelineLease {
+    const expiresAt = new Date(row.expires_at);
+
+    return {
+      genre: row.genre as Genre,
+      token: row.token,
+      holder: row.holder,
+      trigger: row.trigger,
+      acquiredAt: new Date(row.acquired_at),
+      expiresAt,
+      isExpired: expiresAt.getTime() <= Date.now(),
+    };
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Pipeline Run Store
+ *
+ * Records every pipeline fill in Supabase for the Pipeline History view.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Genre } from '../../types';
+import type {
+  CreatedPuzzleSummary,
+  IPipelineRunLog,
+  PipelineConfig,
+  PipelineError,
+  PipelineFillResult,
+  PipelineRun,
+  PipelineRunInput,
+  PipelineRunStatus,
+  PipelineRunTrigger,
+  PipelineStageTiming,
+  PipelineWarning,
+} from './types';
+
+/** Number of runs listed when no limit is given */
+const DEFAULT_RUN_LIMIT = 50;
+
+/** Database row type from Supabase */
+interface PipelineRunRow {
+  id: string;
+  created_at: string;
+  genre: string;
+  trigger: PipelineRunTrigger;
+  status: PipelineRunStatus;
+  started_at: string;
+  finished_at: string;
+  config: PipelineConfig;
+  stage_timings: PipelineStageTiming[] | null;
+  ai_generation_triggered: boolean;
+  groups_generated: number;
+  groups_saved: number;
+  groups_pending_review: number;
+  groups_by_color: PipelineFillResult['groupsByColor'];
+  puzzles_created: number;
+  empty_days_remaining: number;
+  puzzles: CreatedPuzzleSummary[] | null;
+  errors: PipelineError[] | null;
+  warnings: PipelineWarning[] | null;
+  failure_message: string | null;
+}
+
+export class PipelineRunStore implements IPipelineRunLog {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  /**
+   * Record one pipeline run
+   */
+  async record(run: PipelineRunInput): Promise<void> {
+    const insertData = {
+      genre: run.genre,
+      trigger: run.trigger,
+      status: run.status,
+      started_at: run.startedAt.toISOString(),
+      finished_at: run.finishedAt.toISOString(),
+      config: run.config,
+      stage_timings: run.stageTimings,
+      ai_generation_triggered: run.aiGenerationTriggered,
+      groups_generated: run.groupsGenerated,
+      groups_saved: run.groupsSaved,
+      groups_pending_review: run.groupsPendingReview,
+      groups_by_color: run.groupsByColor,
+      puzzles_created: run.puzzlesCreated,
+      empty_days_remaining: run.emptyDaysRemaining,
+      puzzles: run.puzzles,
+      errors: run.errors,
+      warnings: run.warnings,
+      failure_message: run.failureMessage,
+    };
+
+    const { error } = await this.supabase
+      .from('pipeline_runs')
+      .insert(insertData as never);
+
+    if (error) {
+      throw new Error(`Failed to record pipeline run: ${error.message}`);
+    }
+  }
+
+  /**
+   * List runs, most recent first, optionally filtered by genre
+   */
+  async listRuns(options: { genre?: Genre; limit?: number } = {}): Promise<PipelineRun[]> {
+    let query = this.supabase
+      .from('pipeline_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(options.limit ?? DEFAULT_RUN_LIMIT);
+
+    if (options.genre) {
+      query = query.eq('genre', options.genre);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list pipeline runs: ${error.message}`);
+    }
+
+    return ((data || []) as PipelineRunRow[]).map(this.mapRowToRun);
+  }
+
+  /**
+   * Get a single run, or null if it does not exist
+   */
+  async getRun(id: string): Promise<PipelineRun | null> {
+    const { data, error } = await this.supabase
+      .from('pipeline_runs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get pipeline run: ${error.message}`);
+    }
+
+    return data ? this.mapRowToRun(data as PipelineRunRow) : null;
+  }
+
+  /**
+   * Map database row to PipelineRun
+   */
+  private mapRowToRun(row: PipelineRunRow): PipelineRun {
+    return {
+      id: row.id,
+      genre: row.genre as Genre,
+      trigger: row.trigger,
+      status: row.status,
+      startedAt: new Date(row.started_at),
+      finishedAt: new Date(row.finished_at),
+      config: row.config,
+      stageTimings: row.stage_timings ?? [],
+      aiGenerationTriggered: row.ai_generation_triggered,
+      groupsGenerated: row.groups_generated,
+      groupsSaved: row.groups_saved,
+      groupsPendingReview: row.groups_pending_review,
+      groupsByColor: row.groups_by_color,
+      puzzlesCreated: row.puzzles_created,
+      emptyDaysRemaining: row.empty_days_remaining,
+      puzzles: row.puzzles ?? [],
+      errors: row.errors ?? [],
+      warnings: row.warnings ?? [],
+      failureMessage: row.failure_message,
+    };
+  }
+}
@@ -7,36 +7,133 @@
  */
 
 import type { Genre } from '../../types';
-import type { IPuzzleStorage, StoredPuzzle, PuzzleInput } from '../../lib/supabase/storage/IPuzzleStorage';
-import type { IGroupStorage, FreshestGroupSet, DifficultyColor } from '../../lib/supabase/storage/IGroupStorage';
+import type { IPuzzleStorage, StoredPuzzle } from '../../lib/supabase/storage/IPuzzleStorage';
+import type {
+  IGroupStorage,
+  DifficultyColor,
+  StoredGroup,
+} from '../../lib/supabase/storage/IGroupStorage';
 import type {
   PipelineConfig,
   PipelineFillResult,
   GroupAvailability,
+  PipelineError,
   PipelineErrorCode,
   PipelineStageCallback,
+  PipelineFillOptions,
+  AssemblyPlan,
+  PoolReserve,
+  PoolForecast,
+  IPipelineRunLog,
+  IPipelineLock,
+  IGenerationJobStore,
+  PipelineLeaseRequest,
+  PipelineRun,
+  PipelineRunStatus,
+  PipelineRunTrigger,
+  PipelineStage,
+  PipelineStageTiming,
+  ISchedulingRuleStore,
+  SchedulingRule,
+  UnsatisfiedRule,
 } from './types';
 import { DEFAULT_PIPELINE_CONFIG } from './types';
 import type { PipelineGenerator } from './PipelineGenerator';
+import { PuzzleAssemblyPlanner } from './PuzzleAssemblyPlanner';
+import { forecastPool } from './poolForecast';
+import { describeRuleShortfall, getRulesForDate, satisfiesRule } from './schedulingRules';
+import type {
+  ConnectionCategory,
+  IConnectionTypeStore,
+  IGenerationLedger,
+} from '../group-generator/types';
+import {
+  getMonthStart,
+  getTokenBudgetStatus,
+  type TokenBudgetStatus,
+} from '../group-generator/generationSpend';
+import type { IOverlapAnalyzer } from '../puzzle-analysis/types';
+import type { AlertCheckInput, AlertDispatchResult, IAlerter } from '../alerting/types';
+
+/**
+ * How long a fill's lease lasts without renewal. Fills renew it at every
+ * stage, so this only needs to cover the longest stage (a color's generation).
+ */
+const LEASE_TTL_MS = 10 * 60 * 1000;
+
+/** Most groups a fill generates per color; generation jobs split them into chunks */
+const MAX_GROUPS_PER_COLOR = 60;
 
 /**
  * PipelineService handles automated puzzle generation and scheduling.
  */
 export class PipelineService {
   private generator: PipelineGenerator | null = null;
-  private apiKey: string | null = null;
+  private overlapAnalyzer: IOverlapAnalyzer | null = null;
+  private runLog: IPipelineRunLog | null = null;
+  private lock: IPipelineLock | null = null;
+  private jobStore: IGenerationJobStore | null = null;
+  private alerter: IAlerter | null = null;
+  private ruleStore: ISchedulingRuleStore | null = null;
+  private connectionTypeStore: IConnectionTypeStore | null = null;
 
   constructor(
     private puzzleStorage: IPuzzleStorage,
-    private groupStorage: IGroupStorage
+    private groupStorage: IGroupStorage,
+    private generationLedger: IGenerationLedger | null = null
   ) {}
 
   /**
    * Set the generator for AI group generation
    */
-  setGenerator(generator: PipelineGenerator, apiKey: string): void {
+  setGenerator(generator: PipelineGenerator): void {
     this.generator = generator;
-    this.apiKey = apiKey;
+  }
+
+  /**
+   * Set the analyzer used to prefer group sets with healthy misdirection
+   * and to reject sets where an item fits two groups
+   */
+  setOverlapAnalyzer(analyzer: IOverlapAnalyzer): void {
+    this.overlapAnalyzer = analyzer;
+  }
+
+  /**
+   * Set the log that records every fill in the run history
+   */
+  setRunLog(runLog: IPipelineRunLog): void {
+    this.runLog = runLog;
+  }
+
+  /**
+   * Set the per-genre lock that keeps concurrent fills of the same genre apart
+   */
+  setLock(lock: IPipelineLock): void {
+    this.lock = lock;
+  }
+
+  /**
+   * Set the store that persists generation jobs so an interrupted generation can be resumed
+   */
+  setJobStore(jobStore: IGenerationJobStore): void {
+    this.jobStore = jobStore;
+  }
+
+  /**
+   * Set the alerter that reports coming calendar gaps, a low pool and
+   * failed scheduled fills after every fill
+   */
+  setAlerter(alerter: IAlerter): void {
+    this.alerter = alerter;
+  }
+
+  /**
+   * Set the themed-day rules honoured when planning puzzles, with the
+   * connection types that rules on categories are matched against
+   */
+  setSchedulingRules(ruleStore: ISchedulingRuleStore, connectionTypeStore: IConnectionTypeStore): void {
+    this.ruleStore = ruleStore;
+    this.connectionTypeStore = connectionTypeStore;
   }
 
   /**
@@ -64,6 +161,19 @@ export class PipelineService {
     };
   }
 
+  /**
+   * Get month-to-date token usage against the genre's monthly budget.
+   * Returns null when no budget is set or no generation ledger is available.
+   */
+  async getTokenBudgetStatus(config: PipelineConfig): Promise<TokenBudgetStatus | null> {
+    if (config.monthlyTokenBudget === null || !this.generationLedger) {
+      return null;
+    }
+
+    const used = await this.generationLedger.getTokensUsed(getMonthStart(), config.genre);
+    return getTokenBudgetStatus(used, config.monthlyTokenBudget);
+  }
+
   /**
    * Get count of unused groups per color (not in any puzzle)
    */
@@ -93,13 +203,61 @@ export class PipelineService {
 
   /**
    * Determine which colors need more groups to fill the window
+   * and keep `reserve` unused groups spare
    */
   getColorsNeeded(
     unusedCounts: Record<DifficultyColor, number>,
-    puzzlesNeeded: number
+    puzzlesNeeded: number,
+    reserve: number = 0
   ): DifficultyColor[] {
     const colors: DifficultyColor[] = ['yellow', 'green', 'blue', 'purple'];
-    return colors.filter((color) => unusedCounts[color] < puzzlesNeeded);
+    return colors.filter((color) => unusedCounts[color] < puzzlesNeeded + reserve);
+  }
+
+  /**
+   * Get the standing reserve per color: unused approved groups beyond
+   * what the window's empty dates need, against minGroupsPerColor
+   */
+  async getPoolReserve(config: PipelineConfig): Promise<PoolReserve> {
+    const [emptyDates, unusedCounts] = await Promise.all([
+      this.getEmptyDates(config.genre, config.rollingWindowDays),
+      this.getUnusedGroupCounts(config.genre),
+    ]);
+
+    const toReserve = (color: DifficultyColor) => ({
+      unused: unusedCounts[color],
+      neededForWindow: emptyDates.length,
+      spare: unusedCounts[color] - emptyDates.length,
+      target: config.minGroupsPerColor,
+    });
+
+    return {
+      yellow: toReserve('yellow'),
+      green: toReserve('green'),
+      blue: toReserve('blue'),
+      purple: toReserve('purple'),
+    };
+  }
+
+  /**
+   * Project when each color's pool runs dry and the calendar first has a gap,
+   * from recent puzzle creation and group approval rates
+   */
+  async getPoolForecast(config: PipelineConfig): Promise<PoolForecast> {
+    const [emptyDates, usedGroupIds, allGroups] = await Promise.all([
+      this.getEmptyDates(config.genre, config.rollingWindowDays),
+      this.puzzleStorage.getUsedGroupIds(config.genre),
+      this.groupStorage.listGroups({ genre: config.genre, status: 'approved', limit: 10000 }),
+    ]);
+
+    return forecastPool({
+      genre: config.genre,
+      today: new Date().toISOString().split('T')[0],
+      windowDays: config.rollingWindowDays,
+      emptyDates,
+      groups: allGroups.groups,
+      usedGroupIds,
+    });
   }
 
   /**
@@ -125,13 +283,135 @@ export class PipelineService {
   }
 
   /**
-   * Fill the rolling window with puzzles
+   * Check the genre's alert rules and send the alerts not sent recently.
+   * Without `latestCronRun`, the most recent scheduled fill in the run log is checked.
+   * Returns null when no alerter is set.
+   */
+  async checkAlerts(
+    config: PipelineConfig,
+    latestCronRun?: AlertCheckInput['latestCronRun']
+  ): Promise<AlertDispatchResult | null> {
+    if (!this.alerter) {
+      return null;
+    }
+
+    const [emptyDates, poolReserve, forecast, cronRun] = await Promise.all([
+      this.getEmptyDates(config.genre, config.rollingWindowDays),
+      this.getPoolReserve(config),
+      this.getPoolForecast(config),
+      latestCronRun !== undefined ? latestCronRun : this.getLatestCronRun(config.genre),
+    ]);
+
+    return this.alerter.check({
+      genre: config.genre,
+      today: new Date().toISOString().split('T')[0],
+      emptyDates,
+      poolReserve,
+      forecast,
+      latestCronRun: cronRun,
+    });
+  }
+
+  /**
+   * Most recent scheduled fill of the genre, from the recent runs in the run log
+   */
+  private async getLatestCronRun(genre: Genre): Promise<PipelineRun | null> {
+    if (!this.runLog) {
+      return null;
+    }
+
+    const runs = await this.runLog.listRuns({ genre, limit: 20 });
+    return runs.find((run) => run.trigger === 'cron') ?? null;
+  }
+
+  /**
+   * Fill the rolling window with puzzles.
+   * Tops up the pool first so every color keeps `minGroupsPerColor` unused
+   * groups beyond what the window needs, even when the window is already full.
+   * With `dryRun`, returns what the fill would do (result.preview) without
+   * generating groups or writing to storage.
+   * Every other run is recorded in the run log, including failed ones.
+   * With a lock set, the fill holds the genre's lease throughout and throws
+   * without filling when another fill holds it.
+   * With an alerter set, every other run ends with an alert check.
    */
   async fillRollingWindow(
     config: PipelineConfig,
-    onStageChange?: PipelineStageCallback
+    onStageChange?: PipelineStageCallback,
+    options: PipelineFillOptions = {}
   ): Promise<PipelineFillResult> {
-    const reportStage = onStageChange ?? (() => {});
+    if (!this.lock || options.dryRun) {
+      return this.fill(config, onStageChange, options);
+    }
+
+    const lock = this.lock;
+    const trigger = options.trigger ?? 'manual';
+    const request: PipelineLeaseRequest = {
+      token: globalThis.crypto.randomUUID(),
+      holder: options.holder ?? trigger,
+      trigger,
+    };
+
+    const lease = await lock.acquire(config.genre, request, LEASE_TTL_MS);
+    if (lease.token !== request.token) {
+      throw new Error(
+        `Pipeline fill already running for ${config.genre}: held by ${lease.holder} (${lease.trigger}) until ${lease.expiresAt.toISOString()}`
+      );
+    }
+
+    // Renewals run one at a time and are awaited before the release, so none
+    // can land after it
+    let renewal: Promise<void> = Promise.resolve();
+
+    try {
+      return await this.fill(
+        config,
+        (stage, progress) => {
+          if (stage !== 'complete' && stage !== 'error') {
+            renewal = renewal.then(() => this.renewLease(lock, config.genre, request.token));
+          }
+          onStageChange?.(stage, progress);
+        },
+        options
+      );
+    } finally {
+      await renewal;
+      try {
+        await lock.release(config.genre, request.token);
+      } catch (error) {
+        // The lease expires on its own
+        console.error('Failed to release pipeline lock:', error);
+      }
+    }
+  }
+
+  /**
+   * Extend the fill's lease; a lost lease is logged since the fill cannot be stopped mid-stage
+   */
+  private async renewLease(lock: IPipelineLock, genre: Genre, token: string): Promise<void> {
+    try {
+      if (!(await lock.renew(genre, token, LEASE_TTL_MS))) {
+        console.warn(`Pipeline lease for ${genre} was lost to another fill`);
+      }
+    } catch (error) {
+      console.error('Failed to renew pipeline lock:', error);
+    }
+  }
+
+  /**
+   * Run a fill (see fillRollingWindow)
+   */
+  private async fill(
+    config: PipelineConfig,
+    onStageChange?: PipelineStageCallback,
+    options: PipelineFillOptions = {}
+  ): Promise<PipelineFillResult> {
+    const startedAt = new Date();
+    const stageTimings: PipelineStageTiming[] = [];
+    const reportStage: PipelineStageCallback = (stage, progress) => {
+      recordStageTiming(stageTimings, stage);
+      onStageChange?.(stage, progress);
+    };
 
     const result: PipelineFillResult = {
       puzzlesCreated: 0,
@@ -139,6 +419,7 @@ export class PipelineService {
       aiGenerationTriggered: false,
       groupsGenerated: 0,
       groupsSaved: 0,
+      groupsPendingReview: 0,
       groupsByColor: {
         yellow: { generated: 0, saved: 0 },
         green: { generated: 0, saved: 0 },
@@ -146,192 +427,478 @@ export class PipelineService {
         purple: { generated: 0, saved: 0 },
       },
       errors: [],
+      warnings: [],
+      createdPuzzles: [],
     };
 
+    if (options.dryRun) {
+      result.preview = {
+        plan: { genre: config.genre, puzzles: [], unplannedDates: [], unsatisfiedRules: [] },
+        generation: null,
+      };
+    }
+
     try {
       reportStage('checking-pool');
 
       // Get empty dates
       const emptyDates = await this.getEmptyDates(config.genre, config.rollingWindowDays);
 
-      if (emptyDates.length === 0) {
-        reportStage('complete');
-        return result; // Nothing to fill
-      }
-
       // Check unused group counts per color
       const unusedCounts = await this.getUnusedGroupCounts(config.genre);
       const puzzlesNeeded = emptyDates.length;
+      const reserve = config.minGroupsPerColor;
+
+      // Colors below the window's needs plus the standing reserve get more groups
+      const colorsNeeded = this.getColorsNeeded(unusedCounts, puzzlesNeeded, reserve);
+      const colorsShortForWindow = this.getColorsNeeded(unusedCounts, puzzlesNeeded);
 
-      // Determine which colors need more groups
-      const colorsNeeded = this.getColorsNeeded(unusedCounts, puzzlesNeeded);
+      // Respect the monthly token budget before spending anything on generation
+      const budgetStatus =
+        colorsNeeded.length > 0 && this.generator
+          ? await this.getTokenBudgetStatus(config)
+          : null;
 
       // If any colors need more groups, trigger AI generation
-      if (colorsNeeded.length > 0 && this.generator && this.apiKey) {
+      if (colorsNeeded.length > 0 && this.generator && !budgetStatus?.exhausted) {
         result.aiGenerationTriggered = true;
 
-        // Calculate how many groups to generate per color (max 30 per API limit)
+        // Calculate how many groups to generate per color
+        const largestShortfall = Math.max(
+          ...colorsNeeded.map((color) => puzzlesNeeded + reserve - unusedCounts[color])
+        );
         const groupsPerColor = Math.min(
-          30,
-          Math.max(
-            config.aiGenerationBatchSize,
-            puzzlesNeeded - Math.min(...Object.values(unusedCounts)) + 5 // Add buffer
-          )
+          MAX_GROUPS_PER_COLOR,
+          Math.max(config.aiGenerationBatchSize, largestShortfall)
         );
 
-        const genResult = await this.generator.generateForPipeline({
-          genre: config.genre,
-          groupsPerColor,
-          colorsNeeded,
-          apiKey: this.apiKey,
-          onStageChange: reportStage,
-        });
-
-        result.groupsGenerated = genResult.groupsGenerated;
-        result.groupsSaved = genResult.groupsSaved;
-
-        // Copy per-color stats
-        for (const color of ['yellow', 'green', 'blue', 'purple'] as const) {
-          // Generated = requested for that color, Saved = what we got
-          const savedCount = genResult.byColor[color] ?? 0;
-          const requestedForColor = colorsNeeded.includes(color) ? groupsPerColor : 0;
-          result.groupsByColor[color] = {
-            generated: requestedForColor,
-            saved: savedCount,
-          };
-        }
-
-        if (genResult.errors.length > 0) {
-          result.errors.push(
-            ...genResult.errors.map((msg) => ({
-              date: '',
-              message: msg,
-              code: 'GENERATION_FAILED' as const,
-            }))
+        if (result.preview) {
+          result.preview.generation = { groupsPerColor, colors: colorsNeeded };
+          for (const color of colorsNeeded) {
+            result.groupsByColor[color].generated = groupsPerColor;
+          }
+        } else {
+          await this.generateGroups(
+            this.generator,
+            config,
+            groupsPerColor,
+            colorsNeeded,
+            result,
+            reportStage,
+            options.trigger ?? 'manual'
           );
         }
-      } else if (colorsNeeded.length > 0) {
-        // No generator configured, just report the shortage
+      } else if (budgetStatus?.exhausted) {
         result.errors.push({
           date: '',
-          message: `Insufficient groups for colors: ${colorsNeeded.join(', ')}. AI generation not configured.`,
+          message: `Monthly token budget exhausted (${budgetStatus.used} of ${budgetStatus.budget} tokens used). AI generation skipped for colors: ${colorsNeeded.join(', ')}.`,
+          code: 'BUDGET_EXCEEDED',
+        });
+      } else if (colorsShortForWindow.length > 0) {
+        // No generator configured, just report the shortage (a low reserve alone is not an error)
+        result.errors.push({
+          date: '',
+          message: `Insufficient groups for colors: ${colorsShortForWindow.join(', ')}. AI generation not configured.`,
           code: 'INSUFFICIENT_GROUPS',
         });
       }
 
-      // Get all group IDs already used in existing puzzles
-      const usedGroupIds = await this.puzzleStorage.getUsedGroupIds(config.genre);
-
-      reportStage('creating-puzzles');
-
-      // Fill each empty date
-      for (const date of emptyDates) {
-        try {
-          const puzzle = await this.createPuzzleForDate(date, config.genre, usedGroupIds);
-
-          if (puzzle) {
-            result.puzzlesCreated++;
-            // Add the puzzle's group IDs to the used set
-            puzzle.groupIds.forEach((id) => usedGroupIds.add(id));
-          } else {
-            result.emptyDaysRemaining++;
-            result.errors.push({
-              date,
-              message: 'Insufficient groups available',
-              code: 'INSUFFICIENT_GROUPS',
-            });
-          }
-        } catch (error) {
+      // A full window only had its reserve topped up
+      if (emptyDates.length > 0) {
+        reportStage('creating-puzzles');
+
+        // Plan every empty date together, then write the plan
+        const plan = await this.planDates(config, emptyDates);
+
+        for (const unplanned of plan.unplannedDates) {
           result.emptyDaysRemaining++;
           result.errors.push({
-            date,
-            message: error instanceof Error ? error.message : 'Unknown error',
-            code: this.getErrorCode(error),
+            date: unplanned.date,
+            message: unplanned.reason,
+            code: 'INSUFFICIENT_GROUPS',
+          });
+        }
+
+        // The date still gets a puzzle, just not a themed one
+        for (const unsatisfied of plan.unsatisfiedRules) {
+          result.warnings.push({
+            date: unsatisfied.date,
+            message: `Rule "${unsatisfied.ruleName}" not honoured: ${unsatisfied.reason}`,
+            code: 'RULE_UNSATISFIED',
           });
         }
+
+        if (result.preview) {
+          result.preview.plan = plan;
+          result.puzzlesCreated = plan.puzzles.length;
+        } else {
+          const applied = await this.applyAssemblyPlan(plan);
+          result.puzzlesCreated += applied.puzzles.length;
+          result.emptyDaysRemaining += applied.errors.length;
+          result.errors.push(...applied.errors);
+          result.createdPuzzles = applied.puzzles.map((puzzle) => ({
+            date: puzzle.puzzleDate ?? '',
+            puzzleId: puzzle.id,
+            groupIds: puzzle.groupIds,
+          }));
+        }
       }
 
       reportStage('complete');
     } catch (error) {
       reportStage('error');
+      if (!options.dryRun) {
+        await this.recordRun(config, options, result, startedAt, stageTimings, error);
+        await this.sendAlerts(config, options, startedAt, error);
+      }
       throw error;
     }
 
+    if (!options.dryRun) {
+      await this.recordRun(config, options, result, startedAt, stageTimings);
+      await this.sendAlerts(config, options, startedAt);
+    }
+
     return result;
   }
 
   /**
-   * Create a puzzle for a specific date
+   * Check the alerts after a fill. Alerting failures are logged and never fail the fill.
    */
-  async createPuzzleForDate(
-    date: string,
-    genre: Genre,
-    usedGroupIds: Set<string>
-  ): Promise<StoredPuzzle | null> {
-    const MAX_ATTEMPTS = 10;
-
-    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
-      // Get freshest groups, excluding already-used ones
-      const groupSet = await this.groupStorage.getFreshestGroupSet(
-        [...usedGroupIds],
-        genre
-      );
+  private async sendAlerts(
+    config: PipelineConfig,
+    options: PipelineFillOptions,
+    startedAt: Date,
+    failure?: unknown
+  ): Promise<void> {
+    if (!this.alerter) {
+      return;
+    }
 
-      // Check all colors have groups
-      if (!this.hasAllColors(groupSet)) {
-        return null; // Not enough groups
+    const trigger = options.trigger ?? 'manual';
+    // This run is the latest scheduled fill; other fills leave the run log to tell
+    const latestCronRun =
+      trigger === 'cron'
+        ? {
+            trigger,
+            startedAt,
+            status: failure === undefined ? ('success' as const) : ('failed' as const),
+            failureMessage:
+              failure === undefined ? null : failure instanceof Error ? failure.message : 'Unknown error',
+          }
+        : undefined;
+
+    try {
+      const dispatch = await this.checkAlerts(config, latestCronRun);
+      for (const failed of dispatch?.failures ?? []) {
+        console.error(`Failed to send alert ${failed.key} via ${failed.notifier}: ${failed.message}`);
       }
+    } catch (error) {
+      console.error('Failed to check pipeline alerts:', error);
+    }
+  }
 
-      const groupIds = [
-        groupSet.yellow!.id,
-        groupSet.green!.id,
-        groupSet.blue!.id,
-        groupSet.purple!.id,
-      ];
-
-      // Check uniqueness
-      const exists = await this.puzzleStorage.checkPuzzleExists(groupIds, genre);
-
-      if (!exists) {
-        // Create the puzzle
-        const puzzleInput: PuzzleInput = {
-          groupIds,
-          genre,
-        };
-
-        const puzzle = await this.puzzleStorage.savePuzzle(puzzleInput);
-
-        // Schedule and publish
-        const updatedPuzzle = await this.puzzleStorage.updatePuzzle(puzzle.id, {
-          puzzleDate: date,
-          status: 'published',
-        });
+  /**
+   * Record a fill in the run log. A log failure is logged and never fails the fill.
+   */
+  private async recordRun(
+    config: PipelineConfig,
+    options: PipelineFillOptions,
+    result: PipelineFillResult,
+    startedAt: Date,
+    stageTimings: PipelineStageTiming[],
+    failure?: unknown
+  ): Promise<void> {
+    if (!this.runLog) {
+      return;
+    }
+
+    let status: PipelineRunStatus = 'success';
+    if (failure !== undefined) {
+      status = 'failed';
+    } else if (result.errors.length > 0 || result.emptyDaysRemaining > 0) {
+      status = 'partial';
+    }
+
+    try {
+      await this.runLog.record({
+        genre: config.genre,
+        trigger: options.trigger ?? 'manual',
+        status,
+        startedAt,
+        finishedAt: new Date(),
+        config,
+        stageTimings,
+        aiGenerationTriggered: result.aiGenerationTriggered,
+        groupsGenerated: result.groupsGenerated,
+        groupsSaved: result.groupsSaved,
+        groupsPendingReview: result.groupsPendingReview,
+        groupsByColor: result.groupsByColor,
+        puzzlesCreated: result.puzzlesCreated,
+        emptyDaysRemaining: result.emptyDaysRemaining,
+        puzzles: result.createdPuzzles,
+        errors: result.errors,
+        warnings: result.warnings,
+        failureMessage:
+          failure === undefined ? null : failure instanceof Error ? failure.message : 'Unknown error',
+      });
+    } catch (error) {
+      console.error('Failed to record pipeline run:', error);
+    }
+  }
+
+  /**
+   * Generate and save groups for the colors running low, recording the outcome in the fill result
+   */
+  private async generateGroups(
+    generator: PipelineGenerator,
+    config: PipelineConfig,
+    groupsPerColor: number,
+    colorsNeeded: DifficultyColor[],
+    result: PipelineFillResult,
+    reportStage: PipelineStageCallback,
+    trigger: PipelineRunTrigger
+  ): Promise<void> {
+    const genResult = await generator.generateForPipeline({
+      genre: config.genre,
+      groupsPerColor,
+      colorsNeeded,
+      approvalPolicy: {
+        mode: config.autoApprovalMode,
+        threshold: config.autoApprovalThreshold,
+        selfCritique: config.selfCritiqueEnabled,
+      },
+      onStageChange: reportStage,
+      jobStore: this.jobStore ?? undefined,
+      trigger,
+    });
+
+    result.generationJobId = genResult.jobId ?? null;
+    result.groupsGenerated = genResult.groupsGenerated;
+    result.groupsSaved = genResult.groupsSaved;
+    result.groupsPendingReview = genResult.groupsPending;
+
+    // Copy per-color stats
+    for (const color of ['yellow', 'green', 'blue', 'purple'] as const) {
+      // Generated = requested for that color, Saved = approved groups usable for puzzles
+      const savedCount = genResult.byColor[color] ?? 0;
+      const requestedForColor = colorsNeeded.includes(color) ? groupsPerColor : 0;
+      result.groupsByColor[color] = {
+        generated: requestedForColor,
+        saved: savedCount,
+      };
+    }
+
+    result.errors.push(
+      ...genResult.errors.map((msg) => ({
+        date: '',
+        message: msg,
+        code: 'GENERATION_FAILED' as const,
+      }))
+    );
+    result.warnings.push(
+      ...genResult.warnings.map((msg) => ({
+        date: '',
+        message: msg,
+        code: 'GROUP_SKIPPED' as const,
+      }))
+    );
+  }
+
+  /**
+   * Plan puzzles for every empty date in the rolling window without writing anything
+   */
+  async planRollingWindow(config: PipelineConfig): Promise<AssemblyPlan> {
+    const emptyDates = await this.getEmptyDates(config.genre, config.rollingWindowDays);
+    return this.planDates(config, emptyDates);
+  }
+
+  /**
+   * Themed-day rules in the rolling window that are not honoured: by puzzles
+   * already scheduled, or by the puzzles the next fill would plan for the
+   * empty dates. Empty when no rule store is set.
+   */
+  async checkSchedulingRules(config: PipelineConfig): Promise<UnsatisfiedRule[]> {
+    const { rules, connectionCategories: categories } = await this.loadSchedulingRules(config.genre);
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const today = new Date();
+    const endDate = new Date(today);
+    endDate.setDate(endDate.getDate() + config.rollingWindowDays - 1);
+
+    const { puzzles } = await this.puzzleStorage.listPuzzles({
+      genre: config.genre,
+      dateFrom: today.toISOString().split('T')[0],
+      dateTo: endDate.toISOString().split('T')[0],
+      limit: config.rollingWindowDays,
+    });
+    const themed = puzzles.filter(
+      (puzzle) => puzzle.puzzleDate !== null && getRulesForDate(rules, puzzle.puzzleDate).length > 0
+    );
+    const groupIds = [...new Set(themed.flatMap((puzzle) => puzzle.groupIds))];
+    const groups = groupIds.length > 0 ? await this.groupStorage.getGroupsByIds(groupIds) : [];
+    const groupById = new Map(groups.map((group) => [group.id, group]));
+
+    const unsatisfied: UnsatisfiedRule[] = [];
+    for (const puzzle of themed) {
+      const puzzleGroups = puzzle.groupIds
+        .map((id) => groupById.get(id))
+        .filter((group): group is StoredGroup => group !== undefined);
+
+      for (const rule of getRulesForDate(rules, puzzle.puzzleDate!)) {
+        if (!satisfiesRule(puzzleGroups, rule, categories)) {
+          unsatisfied.push({
+            date: puzzle.puzzleDate!,
+            ruleId: rule.id,
+            ruleName: rule.name,
+            reason: `Scheduled puzzle: ${describeRuleShortfall(puzzleGroups, rule, categories)}`,
+          });
+        }
+      }
+    }
 
-        // Increment usage counts
-        await this.groupStorage.incrementUsage(groupIds);
+    const plan = await this.planRollingWindow(config);
+    unsatisfied.push(...plan.unsatisfiedRules);
 
-        return updatedPuzzle;
+    return unsatisfied.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Create, schedule and publish the puzzles of a plan.
+   * A date that is already taken, whose group combination already exists or that
+   * fails to save is reported and skipped.
+   */
+  async applyAssemblyPlan(
+    plan: AssemblyPlan
+  ): Promise<{ puzzles: StoredPuzzle[]; errors: PipelineError[] }> {
+    const puzzles: StoredPuzzle[] = [];
+    const errors: PipelineError[] = [];
+
+    for (const planned of plan.puzzles) {
+      const groupIds = planned.groups.map((group) => group.id);
+
+      try {
+        puzzles.push(await this.publishPuzzle(planned.date, plan.genre, groupIds));
+      } catch (error) {
+        errors.push({
+          date: planned.date,
+          message: error instanceof Error ? error.message : 'Unknown error',
+          code: this.getErrorCode(error),
+        });
       }
+    }
+
+    return { puzzles, errors };
+  }
+
+  /**
+   * Plan the given dates from the unused approved pool, spacing connection
+   * types away from puzzles already scheduled around them
+   */
+  private async planDates(config: PipelineConfig, dates: string[]): Promise<AssemblyPlan> {
+    if (dates.length === 0) {
+      return { genre: config.genre, puzzles: [], unplannedDates: [], unsatisfiedRules: [] };
+    }
+
+    const usedGroupIds = await this.puzzleStorage.getUsedGroupIds(config.genre);
+    const approved = await this.groupStorage.listGroups({
+      genre: config.genre,
+      status: 'approved',
+      limit: 10000,
+    });
+
+    const planner = new PuzzleAssemblyPlanner(this.overlapAnalyzer);
+    return planner.plan({
+      genre: config.genre,
+      dates,
+      pool: approved.groups.filter((group) => !usedGroupIds.has(group.id)),
+      scheduledConnectionTypes: await this.getScheduledConnectionTypes(
+        config.genre,
+        dates,
+        config.connectionTypeGapDays
+      ),
+      connectionTypeGapDays: config.connectionTypeGapDays,
+      ...(await this.loadSchedulingRules(config.genre)),
+    });
+  }
 
-      // Add these groups to exclusion set for next attempt
-      groupIds.forEach((id) => usedGroupIds.add(id));
+  /**
+   * Active scheduling rules of the genre, with the category of each connection
+   * type when a rule matches on categories
+   */
+  private async loadSchedulingRules(
+    genre: Genre
+  ): Promise<{ rules: SchedulingRule[]; connectionCategories: Map<string, ConnectionCategory> }> {
+    const connectionCategories = new Map<string, ConnectionCategory>();
+    if (!this.ruleStore) {
+      return { rules: [], connectionCategories };
+    }
+
+    const rules = await this.ruleStore.listRules(genre, { activeOnly: true });
+    if (this.connectionTypeStore && rules.some((rule) => rule.categories.length > 0)) {
+      for (const type of await this.connectionTypeStore.getAll(genre)) {
+        connectionCategories.set(type.name, type.category);
+      }
     }
 
-    return null; // Failed to create unique puzzle after MAX_ATTEMPTS
+    return { rules, connectionCategories };
   }
 
   /**
-   * Check if a group set has all four colors
+   * Connection types of puzzles scheduled within the gap of the given dates
    */
-  private hasAllColors(groupSet: FreshestGroupSet): boolean {
-    return (
-      groupSet.yellow !== null &&
-      groupSet.green !== null &&
-      groupSet.blue !== null &&
-      groupSet.purple !== null
+  private async getScheduledConnectionTypes(
+    genre: Genre,
+    dates: string[],
+    gapDays: number
+  ): Promise<Array<{ date: string; connectionType: string }>> {
+    if (gapDays <= 0) {
+      return [];
+    }
+
+    const sorted = [...dates].sort();
+    const { puzzles } = await this.puzzleStorage.listPuzzles({
+      genre,
+      dateFrom: shiftDate(sorted[0], -gapDays),
+      dateTo: shiftDate(sorted[sorted.length - 1], gapDays),
+      limit: 1000,
+    });
+
+    const scheduled = puzzles.filter((puzzle) => puzzle.puzzleDate !== null);
+    const groupIds = [...new Set(scheduled.flatMap((puzzle) => puzzle.groupIds))];
+    if (groupIds.length === 0) {
+      return [];
+    }
+
+    const groups = await this.groupStorage.getGroupsByIds(groupIds);
+    const typeById = new Map(groups.map((group) => [group.id, group.connectionType]));
+
+    return scheduled.flatMap((puzzle) =>
+      puzzle.groupIds
+        .filter((id) => typeById.has(id))
+        .map((id) => ({ date: puzzle.puzzleDate!, connectionType: typeById.get(id)! }))
     );
   }
 
+  /**
+   * Create a puzzle scheduled and published on the date, counting its groups
+   * as used, in a single transaction
+   */
+  private async publishPuzzle(
+    date: string,
+    genre: Genre,
+    groupIds: string[]
+  ): Promise<StoredPuzzle> {
+    return this.puzzleStorage.createPuzzle({
+      groupIds,
+      genre,
+      puzzleDate: date,
+      status: 'published',
+    });
+  }
+
   /**
    * Get error code from an error
    */
@@ -347,3 +914,27 @@ export class PipelineService {
     return 'STORAGE_ERROR';
   }
 }
+
+/**
+ * Close the running stage's timing and start the next one
+ */
+function recordStageTiming(timings: PipelineStageTiming[], stage: PipelineStage): void {
+  const now = Date.now();
+  const running = timings[timings.length - 1];
+  if (running?.stage === stage) {
+    return; // Progress within the running stage (e.g. the next generation chunk)
+  }
+  if (running) {
+    running.durationMs = now - Date.parse(running.startedAt);
+  }
+  timings.push({ stage, startedAt: new Date(now).toISOString(), durationMs: 0 });
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
@@ -0,0 +1,371 @@
+/**
+ * Puzzle Assembly Planner
+ *
+ * Plans puzzles for every empty date in the rolling window at once,
+ * instead of taking the freshest group per color one date at a time.
+ *
+ * Constraints per puzzle:
+ * - one approved, unused group per color
+ * - no item repeated across the four groups
+ * - no connection type repeated within the puzzle
+ * - a connection type is not reused within `connectionTypeGapDays` of another
+ *   puzzle (already scheduled or planned) that uses it
+ *
+ * Dates are planned in order and candidates are tried freshest first, so
+ * earlier dates get the freshest groups. With an overlap analyzer, sets where an
+ * item fits two groups are rejected and sets with healthy misdirection preferred.
+ *
+ * On themed days (scheduling rules), groups matching the day's rules are tried
+ * first and a set must honour every rule. When no set can, the date is planned
+ * without the rules and the rules it misses are reported in the plan.
+ */
+
+import type { Genre } from '../../types';
+import type { DifficultyColor, StoredGroup } from '../../lib/supabase/storage/IGroupStorage';
+import type { IOverlapAnalyzer, OverlapAnalysis } from '../puzzle-analysis/types';
+import type { ConnectionCategory } from '../group-generator/types';
+import { normalizeTitle } from '../group-generator/GroupSimilarityService';
+import type { AssemblyPlan, PlannedPuzzle, SchedulingRule } from './types';
+import {
+  countMatchingGroups,
+  describeRuleShortfall,
+  getRulesForDate,
+  groupMatchesRule,
+  satisfiesRule,
+} from './schedulingRules';
+
+const COLORS: DifficultyColor[] = ['yellow', 'green', 'blue', 'purple'];
+
+/** Partial sets explored per date before giving up on it */
+const MAX_SEARCH_NODES = 5000;
+
+/** Complete sets analyzed per date before settling for the best flat one */
+const MAX_ANALYZED_SETS = 10;
+
+/** Unambiguous but flat sets tried per date before settling for the best of them */
+const MAX_FLAT_SETS = 3;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Input for planning the rolling window
+ */
+export interface AssemblyPlanInput {
+  genre: Genre;
+  /** Empty dates to fill (YYYY-MM-DD) */
+  dates: string[];
+  /** Approved groups not yet used in any puzzle */
+  pool: StoredGroup[];
+  /** Connection types of puzzles already scheduled near the window */
+  scheduledConnectionTypes: Array<{ date: string; connectionType: string }>;
+  /** Minimum days between puzzles that use the same connection type */
+  connectionTypeGapDays: number;
+  /** Active scheduling rules of the genre (default: none) */
+  rules?: SchedulingRule[];
+  /** Category of each connection type name, for rules on categories */
+  connectionCategories?: Map<string, ConnectionCategory>;
+}
+
+interface CandidateSet {
+  groups: StoredGroup[];
+  analysis?: OverlapAnalysis;
+}
+
+/**
+ * Search state for a single date
+ */
+interface DateSearch {
+  day: number;
+  nodes: number;
+  analyzedSets: number;
+  flatSets: number;
+  bestFlatSet: CandidateSet | null;
+  /** Rules the set must honour */
+  rules: SchedulingRule[];
+  categories: Map<string, ConnectionCategory>;
+}
+
+export class PuzzleAssemblyPlanner {
+  constructor(private overlapAnalyzer: IOverlapAnalyzer | null = null) {}
+
+  /**
+   * Plan a puzzle for each date. Returns the plan without writing anything.
+   */
+  async plan(input: AssemblyPlanInput): Promise<AssemblyPlan> {
+    const candidatesByColor = this.getCandidatesByColor(input.pool);
+    const categories = input.connectionCategories ?? new Map<string, ConnectionCategory>();
+    const plannedGroupIds = new Set<string>();
+    const typeDays = new Map<string, number[]>();
+
+    for (const { date, connectionType } of input.scheduledConnectionTypes) {
+      addTypeDay(typeDays, connectionType, toDay(date));
+    }
+
+    const plan: AssemblyPlan = {
+      genre: input.genre,
+      puzzles: [],
+      unplannedDates: [],
+      unsatisfiedRules: [],
+    };
+
+    for (const date of [...input.dates].sort()) {
+      const remaining = COLORS.map((color) =>
+        candidatesByColor[color].filter((group) => !plannedGroupIds.has(group.id))
+      );
+
+      const emptyColor = COLORS.find((_color, index) => remaining[index].length === 0);
+      if (emptyColor) {
+        plan.unplannedDates.push({ date, reason: `No unused ${emptyColor} groups left` });
+        continue;
+      }
+
+      const rules = getRulesForDate(input.rules ?? [], date);
+      let search = createSearch(date, rules, categories);
+      let found = await this.searchDate(remaining, typeDays, input.connectionTypeGapDays, search);
+
+      if (!found && rules.length > 0) {
+        // Plan the date without its theme rather than leave it empty
+        const themedSearch = search;
+        search = createSearch(date, [], categories);
+        found = await this.searchDate(remaining, typeDays, input.connectionTypeGapDays, search);
+
+        for (const rule of rules) {
+          if (found && satisfiesRule(found.groups, rule, categories)) {
+            continue;
+          }
+          plan.unsatisfiedRules.push({
+            date,
+            ruleId: rule.id,
+            ruleName: rule.name,
+            reason: found
+              ? `${describeRuleShortfall(found.groups, rule, categories)}; ${describeThemedSearch(themedSearch)}`
+              : 'No puzzle could be planned for the date',
+          });
+        }
+      }
+
+      if (!found) {
+        plan.unplannedDates.push({
+          date,
+          reason:
+            search.analyzedSets > 0
+              ? 'Every valid group combination has an item that fits two groups'
+              : 'No group combination satisfies the item and connection type constraints',
+        });
+        continue;
+      }
+
+      const puzzle: PlannedPuzzle = { date, groups: found.groups };
+      if (found.analysis) {
+        puzzle.analysis = found.analysis;
+      }
+      plan.puzzles.push(puzzle);
+
+      for (const group of found.groups) {
+        plannedGroupIds.add(group.id);
+        addTypeDay(typeDays, group.connectionType, search.day);
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Approved groups per color, freshest first (least used, then least recently used)
+   */
+  private getCandidatesByColor(pool: StoredGroup[]): Record<DifficultyColor, StoredGroup[]> {
+    const byColor: Record<DifficultyColor, StoredGroup[]> = {
+      yellow: [],
+      green: [],
+      blue: [],
+      purple: [],
+    };
+
+    for (const group of pool) {
+      if (group.status === 'approved' && group.color) {
+        byColor[group.color].push(group);
+      }
+    }
+
+    for (const color of COLORS) {
+      byColor[color].sort(
+        (a, b) =>
+          a.usageCount - b.usageCount || (a.lastUsedAt ?? 0) - (b.lastUsedAt ?? 0)
+      );
+    }
+
+    return byColor;
+  }
+
+  /**
+   * Search a date's set; on a themed day, groups matching its rules are tried first
+   */
+  private async searchDate(
+    remaining: StoredGroup[][],
+    typeDays: Map<string, number[]>,
+    gapDays: number,
+    search: DateSearch
+  ): Promise<CandidateSet | null> {
+    const candidates =
+      search.rules.length === 0
+        ? remaining
+        : remaining.map((groups) => [
+            ...groups.filter((group) => this.matchesAnyRule(group, search)),
+            ...groups.filter((group) => !this.matchesAnyRule(group, search)),
+          ]);
+
+    return (await this.searchSet(candidates, [], typeDays, gapDays, search)) ?? search.bestFlatSet;
+  }
+
+  /**
+   * Depth-first search for the freshest acceptable set, one color per level.
+   * Returns null when no acceptable set was found within the search limits.
+   */
+  private async searchSet(
+    candidates: StoredGroup[][],
+    chosen: StoredGroup[],
+    typeDays: Map<string, number[]>,
+    gapDays: number,
+    search: DateSearch
+  ): Promise<CandidateSet | null> {
+    if (chosen.length === COLORS.length) {
+      return this.evaluateSet(chosen, search);
+    }
+
+    for (const group of candidates[chosen.length]) {
+      if (search.nodes >= MAX_SEARCH_NODES || search.analyzedSets >= MAX_ANALYZED_SETS) {
+        return null;
+      }
+      search.nodes++;
+
+      if (!this.fits(group, chosen, typeDays, gapDays, search.day)) {
+        continue;
+      }
+
+      const next = [...chosen, group];
+      if (!this.canHonourRules(next, search)) {
+        continue;
+      }
+
+      const found = await this.searchSet(candidates, next, typeDays, gapDays, search);
+      if (found) {
+        return found;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check a group against the groups already chosen for the date
+   */
+  private fits(
+    group: StoredGroup,
+    chosen: StoredGroup[],
+    typeDays: Map<string, number[]>,
+    gapDays: number,
+    day: number
+  ): boolean {
+    if (chosen.some((other) => other.connectionType === group.connectionType)) {
+      return false;
+    }
+
+    const recentDays = typeDays.get(group.connectionType) ?? [];
+    if (recentDays.some((otherDay) => Math.abs(day - otherDay) < gapDays)) {
+      return false;
+    }
+
+    const chosenItems = new Set(chosen.flatMap(getItemKeys));
+    return !getItemKeys(group).some((key) => chosenItems.has(key));
+  }
+
+  /**
+   * Whether the groups left to choose can still bring every rule to its minimum
+   */
+  private canHonourRules(chosen: StoredGroup[], search: DateSearch): boolean {
+    const groupsLeft = COLORS.length - chosen.length;
+    return search.rules.every(
+      (rule) => countMatchingGroups(chosen, rule, search.categories) + groupsLeft >= rule.minGroups
+    );
+  }
+
+  private matchesAnyRule(group: StoredGroup, search: DateSearch): boolean {
+    return search.rules.some((rule) => groupMatchesRule(group, rule, search.categories));
+  }
+
+  /**
+   * Accept a complete set, or record it as a fallback and keep searching
+   */
+  private async evaluateSet(groups: StoredGroup[], search: DateSearch): Promise<CandidateSet | null> {
+    if (!this.overlapAnalyzer) {
+      return { groups };
+    }
+
+    const analysis = await this.overlapAnalyzer.analyze(groups);
+    search.analyzedSets++;
+
+    if (analysis.verdict === 'healthy') {
+      return { groups, analysis };
+    }
+
+    if (analysis.verdict === 'flat') {
+      if (!search.bestFlatSet || analysis.misdirectionScore > search.bestFlatSet.analysis!.misdirectionScore) {
+        search.bestFlatSet = { groups, analysis };
+      }
+      if (++search.flatSets >= MAX_FLAT_SETS) {
+        return search.bestFlatSet;
+      }
+    }
+
+    return null;
+  }
+}
+
+function createSearch(
+  date: string,
+  rules: SchedulingRule[],
+  categories: Map<string, ConnectionCategory>
+): DateSearch {
+  return {
+    day: toDay(date),
+    nodes: 0,
+    analyzedSets: 0,
+    flatSets: 0,
+    bestFlatSet: null,
+    rules,
+    categories,
+  };
+}
+
+/**
+ * Why a themed search found no set
+ */
+function describeThemedSearch(search: DateSearch): string {
+  if (search.analyzedSets > 0) {
+    return 'every themed combination has an item that fits two groups';
+  }
+  return search.nodes >= MAX_SEARCH_NODES
+    ? 'no themed combination was found within the search limit'
+    : 'not enough unused matching groups fit the item and connection type constraints';
+}
+
+/**
+ * Keys identifying a group's items, by id and by normalised title
+ */
+function getItemKeys(group: StoredGroup): string[] {
+  return group.items.flatMap((item) => [`id:${item.id}`, `title:${normalizeTitle(item.title)}`]);
+}
+
+function addTypeDay(typeDays: Map<string, number[]>, connectionType: string, day: number): void {
+  const days = typeDays.get(connectionType) ?? [];
+  days.push(day);
+  typeDays.set(connectionType, days);
+}
+
+/**
+ * Whole days since the epoch for a YYYY-MM-DD date
+ */
+function toDay(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / MS_PER_DAY;
+}
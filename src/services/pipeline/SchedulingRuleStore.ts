@@ -0,0 +1,135 @@
+/**
+ * Scheduling Rule Store
+ *
+ * Themed-day rules per genre in Supabase, applied by the pipeline when it
+ * plans puzzles for the dates they cover.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Genre } from '../../types';
+import type { ConnectionCategory } from '../group-generator/types';
+import type {
+  ISchedulingRuleStore,
+  SchedulingRule,
+  SchedulingRuleInput,
+  SchedulingRuleSchedule,
+} from './types';
+
+/** Database row type from Supabase */
+interface SchedulingRuleRow {
+  id: string;
+  created_at: string;
+  genre: string;
+  name: string;
+  schedule: SchedulingRuleSchedule;
+  connection_types: string[] | null;
+  categories: string[] | null;
+  tags: string[] | null;
+  min_groups: number;
+  active: boolean;
+}
+
+export class SchedulingRuleStore implements ISchedulingRuleStore {
+  private supabase: SupabaseClient;
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabase = supabaseClient;
+  }
+
+  /**
+   * List the genre's rules, oldest first
+   */
+  async listRules(genre: Genre, options: { activeOnly?: boolean } = {}): Promise<SchedulingRule[]> {
+    let query = this.supabase
+      .from('scheduling_rules')
+      .select('*')
+      .eq('genre', genre)
+      .order('created_at', { ascending: true });
+
+    if (options.activeOnly) {
+      query = query.eq('active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list scheduling rules: ${error.message}`);
+    }
+
+    return ((data || []) as SchedulingRuleRow[]).map(this.mapRowToRule);
+  }
+
+  /**
+   * Store a new rule
+   */
+  async createRule(rule: SchedulingRuleInput): Promise<SchedulingRule> {
+    const insertData = {
+      genre: rule.genre,
+      name: rule.name,
+      schedule: rule.schedule,
+      connection_types: rule.connectionTypes,
+      categories: rule.categories,
+      tags: rule.tags,
+      min_groups: rule.minGroups,
+      active: rule.active,
+    };
+
+    const { data, error } = await this.supabase
+      .from('scheduling_rules')
+      .insert(insertData as never)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create scheduling rule: ${error.message}`);
+    }
+
+    return this.mapRowToRule(data as SchedulingRuleRow);
+  }
+
+  /**
+   * Turn a rule on or off without deleting it
+   */
+  async setRuleActive(id: string, active: boolean): Promise<void> {
+    const { error } = await this.supabase
+      .from('scheduling_rules')
+      .update({ active } as never)
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to update scheduling rule: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete a rule
+   */
+  async deleteRule(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('scheduling_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete scheduling rule: ${error.message}`);
+    }
+  }
+
+  /**
+   * Map database row to SchedulingRule
+   */
+  private mapRowToRule(row: SchedulingRuleRow): SchedulingRule {
+    return {
+      id: row.id,
+      createdAt: new Date(row.created_at),
+      genre: row.genre as Genre,
+      name: row.name,
+      schedule: row.schedule,
+      connectionTypes: row.connection_types ?? [],
+      categories: (row.categories ?? []) as ConnectionCategory[],
+      tags: row.tags ?? [],
+      minGroups: row.min_groups,
+      active: row.active,
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AnthropicGroupCritic } from '../AnthropicGroupCritic';
+import type { IGenerationLedger } from '../../group-generator/types';
+
+const mockCreate = vi.fn();
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: class {
+    messages = { create: mockCreate };
+  },
+}));
+
+const group = {
+  connection: 'Heist films',
+  items: [
+    { title: 'Heat', year: 1995 },
+    { title: 'Inside Man', year: 2006 },
+    { title: 'The Italian Job', year: 1969 },
+    { title: 'Rififi', year: 1955 },
+  ],
+};
+
+const createResponse = (input: unknown) => ({
+  content: [{ type: 'tool_use', name: 'submit_critique', input }],
+  usage: { input_tokens: 120, output_tokens: 30 },
+  model: 'claude-test',
+});
+
+describe('AnthropicGroupCritic', () => {
+  let ledger: IGenerationLedger;
+
+  beforeEach(() => {
+    mockCreate.mockReset();
+    ledger = {
+      record: vi.fn(),
+      listEntries: vi.fn(),
+      getTokensUsed: vi.fn(),
+    };
+  });
+
+  it('should return the score and notes from the tool call', async () => {
+    mockCreate.mockResolvedValue(createResponse({ score: 85, notes: 'Clear and correct' }));
+    const critic = new AnthropicGroupCritic('test-key');
+
+    const critique = await critic.critique(group, 'films');
+
+    expect(critique).toEqual({ score: 85, notes: 'Clear and correct' });
+    expect(mockCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ tool_choice: { type: 'tool', name: 'submit_critique' } })
+    );
+    expect(mockCreate.mock.calls[0][0].messages[0].content).toContain('- Heat (1995)');
+  });
+
+  it('should record token usage in the ledger', async () => {
+    mockCreate.mockResolvedValue(createResponse({ score: 85, notes: 'Clear and correct' }));
+    const critic = new AnthropicGroupCritic('test-key', {}, ledger, 'cron');
+
+    await critic.critique(group, 'films');
+
+    expect(ledger.record).toHaveBeenCalledWith({
+      genre: 'films',
+      targetDifficulty: null,
+      requestedCount: 0,
+      returnedCount: 0,
+      droppedCount: 0,
+      inputTokens: 120,
+      outputTokens: 30,
+      model: 'claude-test',
+      provider: 'anthropic',
+      caller: 'cron',
+    });
+  });
+
+  it('should throw when the response has no score', async () => {
+    mockCreate.mockResolvedValue(createResponse({ notes: 'No score' }));
+    const critic = new AnthropicGroupCritic('test-key');
+
+    await expect(critic.critique(group, 'films')).rejects.toThrow('Critique is missing a score');
+  });
+});
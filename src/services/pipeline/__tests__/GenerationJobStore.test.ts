@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { GenerationJobStore } from '../GenerationJobStore';
+import { awaitable } from '../../../test/supabaseQueryMock';
+import type { GenerationJobChunk, GenerationJobInput } from '../types';
+
+// Create mock functions
+const mockSelect = vi.fn();
+const mockInsert = vi.fn();
+const mockUpdate = vi.fn();
+const mockEq = vi.fn();
+const mockOrder = vi.fn();
+const mockLimit = vi.fn();
+const mockSingle = vi.fn();
+const mockMaybeSingle = vi.fn();
+const mockFrom = vi.fn();
+
+// Create mock Supabase client
+const mockSupabase = {
+  from: mockFrom,
+} as unknown as SupabaseClient;
+
+const chunks: GenerationJobChunk[] = [
+  { color: 'purple', count: 10, status: 'completed', attempts: 2, generated: 10, saved: 8, pending: 1, errors: [] },
+  { color: 'purple', count: 5, status: 'pending', attempts: 0, generated: 0, saved: 0, pending: 0, errors: [] },
+];
+
+describe('GenerationJobStore', () => {
+  let store: GenerationJobStore;
+
+  const input: GenerationJobInput = {
+    genre: 'films',
+    trigger: 'cli',
+    approvalPolicy: { mode: 'threshold', threshold: 80, selfCritique: false },
+    chunks,
+  };
+
+  const mockRow = {
+    id: 'job-1',
+    created_at: '2025-03-04T10:00:00Z',
+    updated_at: '2025-03-04T10:02:00Z',
+    genre: 'films',
+    trigger: 'cli',
+    status: 'running',
+    approval_policy: input.approvalPolicy,
+    chunks,
+    finished_at: null,
+    failure_message: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = new GenerationJobStore(mockSupabase);
+
+    const chain = {
+      eq: mockEq,
+      order: mockOrder,
+      limit: mockLimit,
+      single: mockSingle,
+      maybeSingle: mockMaybeSingle,
+    };
+
+    mockFrom.mockReturnValue({ select: mockSelect, insert: mockInsert, update: mockUpdate });
+    mockInsert.mockReturnValue({ select: mockSelect });
+    mockUpdate.mockReturnValue({ eq: mockEq });
+    mockSelect.mockReturnValue(chain);
+    mockOrder.mockReturnValue(chain);
+    mockLimit.mockReturnValue(awaitable({ data: [mockRow], error: null }, chain));
+    mockEq.mockReturnValue(awaitable({ data: [mockRow], error: null }, chain));
+    mockSingle.mockResolvedValue({ data: mockRow, error: null });
+    mockMaybeSingle.mockResolvedValue({ data: mockRow, error: null });
+  });
+
+  describe('create', () => {
+    it('should insert a running job and return it', async () => {
+      const job = await store.create(input);
+
+      expect(mockFrom).toHaveBeenCalledWith('generation_jobs');
+      expect(mockInsert).toHaveBeenCalledWith({
+        genre: 'films',
+        trigger: 'cli',
+        status: 'running',
+        approval_policy: input.approvalPolicy,
+        chunks,
+      });
+      expect(job).toEqual({
+        ...input,
+        id: 'job-1',
+        status: 'running',
+        createdAt: new Date('2025-03-04T10:00:00Z'),
+        updatedAt: new Date('2025-03-04T10:02:00Z'),
+        finishedAt: null,
+        failureMessage: null,
+      });
+    });
+
+    it('should throw when the insert fails', async () => {
+      mockSingle.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+
+      await expect(store.create(input)).rejects.toThrow('Failed to create generation job: permission denied');
+    });
+  });
+
+  describe('checkpoint', () => {
+    it('should update the job status and chunks', async () => {
+      await store.checkpoint('job-1', {
+        status: 'failed',
+        chunks,
+        finishedAt: new Date('2025-03-04T10:05:00Z'),
+        failureMessage: 'No active connection types found for genre',
+      });
+
+      expect(mockUpdate).toHaveBeenCalledWith({
+        status: 'failed',
+        chunks,
+        finished_at: '2025-03-04T10:05:00.000Z',
+        failure_message: 'No active connection types found for genre',
+      });
+      expect(mockEq).toHaveBeenCalledWith('id', 'job-1');
+    });
+
+    it('should throw when the update fails', async () => {
+      mockEq.mockResolvedValue({ error: { message: 'timeout' } });
+
+      await expect(
+        store.checkpoint('job-1', { status: 'running', chunks, finishedAt: null, failureMessage: null })
+      ).rejects.toThrow('Failed to checkpoint generation job: timeout');
+    });
+  });
+
+  describe('listJobs', () => {
+    it('should list the most recent jobs', async () => {
+      const jobs = await store.listJobs();
+
+      expect(mockOrder).toHaveBeenCalledWith('created_at', { ascending: false });
+      expect(mockLimit).toHaveBeenCalledWith(20);
+      expect(mockEq).not.toHaveBeenCalled();
+      expect(jobs.map((job) => job.id)).toEqual(['job-1']);
+    });
+
+    it('should filter by genre and status', async () => {
+      await store.listJobs({ genre: 'music', status: 'failed', limit: 5 });
+
+      expect(mockLimit).toHaveBeenCalledWith(5);
+      expect(mockEq).toHaveBeenCalledWith('genre', 'music');
+      expect(mockEq).toHaveBeenCalledWith('status', 'failed');
+    });
+  });
+
+  describe('getJob', () => {
+    it('should return null when the job does not exist', async () => {
+      mockMaybeSingle.mockResolvedValue({ data: null, error: null });
+
+      expect(await store.getJob('missing')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GroupQualityGate, getQualityAssessment, scoreGroup, type GateCandidate } from '../GroupQualityGate';
+import { GroupSimilarityService } from '../../group-generator/GroupSimilarityService';
+import type { AutoApprovalPolicy, IGroupCritic } from '../types';
+
+const createCandidate = (verified: boolean[] = [true, true, true, true]): GateCandidate => ({
+  connection: 'Heist films',
+  items: verified.map((isVerified, index) => ({
+    title: `Film ${index + 1}`,
+    year: 2000 + index,
+    externalId: isVerified ? index + 1 : null,
+    verified: isVerified,
+  })),
+});
+
+const policy = (overrides: Partial<AutoApprovalPolicy> = {}): AutoApprovalPolicy => ({
+  mode: 'threshold',
+  threshold: 80,
+  selfCritique: false,
+  ...overrides,
+});
+
+describe('GroupQualityGate', () => {
+  describe('scoreGroup', () => {
+    it('should weigh verification and uniqueness without a critique', () => {
+      expect(scoreGroup(1, 0)).toBe(100);
+      expect(scoreGroup(0.75, 0)).toBe(85);
+      expect(scoreGroup(1, 0.5)).toBe(80);
+    });
+
+    it('should include the critique score when present', () => {
+      expect(scoreGroup(1, 0, { score: 100, notes: '' })).toBe(100);
+      expect(scoreGroup(1, 0, { score: 0, notes: '' })).toBe(70);
+    });
+
+    it('should clamp out-of-range critique scores', () => {
+      expect(scoreGroup(1, 0, { score: 150, notes: '' })).toBe(100);
+    });
+  });
+
+  describe('assess', () => {
+    it('should approve a verified, unique group in threshold mode', async () => {
+      const gate = new GroupQualityGate(policy());
+
+      const assessment = await gate.assess(createCandidate(), new GroupSimilarityService(), 'films');
+
+      expect(assessment.approved).toBe(true);
+      expect(assessment.score).toBe(100);
+      expect(assessment.reasons).toEqual([]);
+    });
+
+    it('should hold a group below the threshold', async () => {
+      const gate = new GroupQualityGate(policy({ threshold: 90 }));
+      const similarity = new GroupSimilarityService([
+        { connection: 'Bank robbery films', items: [{ title: 'Film 1' }, { title: 'Film 2' }] },
+      ]);
+
+      const assessment = await gate.assess(createCandidate(), similarity, 'films');
+
+      expect(assessment.approved).toBe(false);
+      expect(assessment.closestSimilarity).toBe(0.5);
+      expect(assessment.reasons).toEqual(['Quality score 80 is below the threshold of 90']);
+    });
+
+    it('should hold a group with unverified items in threshold mode', async () => {
+      const gate = new GroupQualityGate(policy({ threshold: 0 }));
+
+      const assessment = await gate.assess(
+        createCandidate([true, false, true, true]),
+        new GroupSimilarityService(),
+        'films'
+      );
+
+      expect(assessment.approved).toBe(false);
+      expect(assessment.verificationRate).toBe(0.75);
+      expect(assessment.reasons).toEqual(['1 of 4 items unverified']);
+    });
+
+    it('should approve regardless of score in always mode', async () => {
+      const gate = new GroupQualityGate(policy({ mode: 'always', threshold: 100 }));
+      const similarity = new GroupSimilarityService([
+        { connection: 'Bank robbery films', items: [{ title: 'Film 1' }, { title: 'Film 2' }] },
+      ]);
+
+      const assessment = await gate.assess(createCandidate(), similarity, 'films');
+
+      expect(assessment.approved).toBe(true);
+    });
+
+    it('should hold a group with unverified items in always mode', async () => {
+      const gate = new GroupQualityGate(policy({ mode: 'always' }));
+
+      const assessment = await gate.assess(
+        createCandidate([true, false, false, true]),
+        new GroupSimilarityService(),
+        'films'
+      );
+
+      expect(assessment.approved).toBe(false);
+      expect(assessment.verificationRate).toBe(0.5);
+      expect(assessment.reasons).toEqual(['2 of 4 items unverified']);
+    });
+
+    it('should hold every group in never mode', async () => {
+      const gate = new GroupQualityGate(policy({ mode: 'never' }));
+
+      const assessment = await gate.assess(createCandidate(), new GroupSimilarityService(), 'films');
+
+      expect(assessment.approved).toBe(false);
+      expect(assessment.reasons).toEqual(['Auto-approval is off']);
+    });
+
+    it('should run the self-critique only when enabled in threshold mode', async () => {
+      const critic: IGroupCritic = { critique: vi.fn().mockResolvedValue({ score: 50, notes: 'Fine' }) };
+
+      await new GroupQualityGate(policy({ selfCritique: false }), critic).assess(
+        createCandidate(),
+        new GroupSimilarityService(),
+        'films'
+      );
+      await new GroupQualityGate(policy({ mode: 'never', selfCritique: true }), critic).assess(
+        createCandidate(),
+        new GroupSimilarityService(),
+        'films'
+      );
+      expect(critic.critique).not.toHaveBeenCalled();
+
+      const assessment = await new GroupQualityGate(policy({ selfCritique: true }), critic).assess(
+        createCandidate(),
+        new GroupSimilarityService(),
+        'films'
+      );
+
+      expect(critic.critique).toHaveBeenCalledTimes(1);
+      expect(assessment.critique).toEqual({ score: 50, notes: 'Fine' });
+      expect(assessment.score).toBe(85);
+    });
+
+    it('should hold a group that would pass without the critique when the self-critique fails', async () => {
+      const critic: IGroupCritic = { critique: vi.fn().mockRejectedValue(new Error('Rate limited')) };
+      const gate = new GroupQualityGate(policy({ selfCritique: true }), critic);
+
+      const assessment = await gate.assess(createCandidate(), new GroupSimilarityService(), 'films');
+
+      expect(assessment.score).toBeGreaterThanOrEqual(80);
+      expect(assessment.approved).toBe(false);
+      expect(assessment.critique).toBeUndefined();
+      expect(assessment.reasons).toEqual(['Self-critique failed: Rate limited']);
+    });
+  });
+
+  describe('getQualityAssessment', () => {
+    it('should read the assessment from group metadata', () => {
+      const assessment = {
+        score: 70,
+        verificationRate: 1,
+        closestSimilarity: 0.75,
+        mode: 'threshold',
+        approved: false,
+        reasons: ['Quality score 70 is below the threshold of 80'],
+      };
+
+      expect(getQualityAssessment({ qualityGate: assessment })).toEqual(assessment);
+      expect(getQualityAssessment({})).toBeNull();
+      expect(getQualityAssessment(undefined)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../../lib/supabase/types';
+import { PipelineConfigStore } from '../PipelineConfigStore';
+import type { IPipelineConfigHistory } from '../types';
+
+// Create mock functions
+const mockSelect = vi.fn();
+const mockEq = vi.fn();
+const mockMaybeSingle = vi.fn();
+const mockUpsert = vi.fn();
+const mockUpsertSelect = vi.fn();
+const mockSingle = vi.fn();
+const mockFrom = vi.fn();
+
+// Create mock Supabase client
+const mockSupabase = {
+  from: mockFrom,
+} as unknown as SupabaseClient<Database>;
+
+const createRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'config-1',
+  created_at: '2025-03-01T00:00:00Z',
+  updated_at: '2025-03-01T00:00:00Z',
+  genre: 'films',
+  enabled: true,
+  rolling_window_days: 30,
+  min_groups_per_color: 10,
+  ai_generation_batch_size: 20,
+  monthly_token_budget: null,
+  connection_type_gap_days: 7,
+  auto_approval_mode: 'threshold',
+  auto_approval_threshold: 80,
+  self_critique_enabled: false,
+  ...overrides,
+});
+
+describe('PipelineConfigStore', () => {
+  let history: IPipelineConfigHistory;
+  let store: PipelineConfigStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    history = {
+      record: vi.fn().mockResolvedValue(undefined),
+      listChanges: vi.fn(),
+      getChange: vi.fn(),
+    };
+    store = new PipelineConfigStore(mockSupabase, history);
+
+    mockFrom.mockReturnValue({ select: mockSelect, upsert: mockUpsert });
+    mockSelect.mockReturnValue({ eq: mockEq });
+    mockEq.mockReturnValue({ maybeSingle: mockMaybeSingle });
+    mockMaybeSingle.mockResolvedValue({ data: createRow(), error: null });
+    mockUpsert.mockReturnValue({ select: mockUpsertSelect });
+    mockUpsertSelect.mockReturnValue({ single: mockSingle });
+  });
+
+  describe('updateConfig', () => {
+    it('should record the changed fields with who changed them', async () => {
+      mockSingle.mockResolvedValue({ data: createRow({ rolling_window_days: 14 }), error: null });
+
+      const config = await store.updateConfig('films', { rollingWindowDays: 14 }, { changedBy: 'admin@example.com' });
+
+      expect(config.rollingWindowDays).toBe(14);
+      expect(mockUpsert).toHaveBeenCalledWith({ genre: 'films', rolling_window_days: 14 }, { onConflict: 'genre' });
+      expect(history.record).toHaveBeenCalledWith({
+        genre: 'films',
+        changedBy: 'admin@example.com',
+        source: 'edit',
+        changes: [{ field: 'rollingWindowDays', from: 30, to: 14 }],
+        copiedFrom: null,
+        revertedChangeId: null,
+      });
+    });
+
+    it('should not record a save that changes nothing', async () => {
+      mockSingle.mockResolvedValue({ data: createRow(), error: null });
+
+      await store.updateConfig('films', { rollingWindowDays: 30 }, { changedBy: 'admin@example.com' });
+
+      expect(history.record).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid values without saving', async () => {
+      await expect(store.updateConfig('films', { aiGenerationBatchSize: 50 })).rejects.toThrow(
+        'Invalid pipeline config: Generation batch size must be a whole number from 1 to 30'
+      );
+
+      expect(mockUpsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('copyFromGenre', () => {
+    it('should copy the settings but not auto-fill from the other genre', async () => {
+      mockMaybeSingle
+        .mockResolvedValueOnce({
+          data: createRow({ genre: 'music', enabled: false, min_groups_per_color: 4 }),
+          error: null,
+        })
+        .mockResolvedValueOnce({ data: createRow(), error: null });
+      mockSingle.mockResolvedValue({ data: createRow({ min_groups_per_color: 4 }), error: null });
+
+      await store.copyFromGenre('films', 'music', { changedBy: 'admin@example.com' });
+
+      const upserted = mockUpsert.mock.calls[0][0];
+      expect(upserted).toMatchObject({ genre: 'films', min_groups_per_color: 4 });
+      expect(upserted).not.toHaveProperty('enabled');
+      expect(history.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: 'copy',
+          copiedFrom: 'music',
+          changes: [{ field: 'minGroupsPerColor', from: 10, to: 4 }],
+        })
+      );
+    });
+  });
+
+  describe('revertChange', () => {
+    it('should restore the previous values and record the revert', async () => {
+      vi.mocked(history.getChange).mockResolvedValue({
+        id: 'change-1',
+        genre: 'films',
+        changedBy: 'someone@example.com',
+        changedAt: new Date('2025-03-02T00:00:00Z'),
+        source: 'edit',
+        changes: [{ field: 'rollingWindowDays', from: 30, to: 14 }],
+        copiedFrom: null,
+        revertedChangeId: null,
+      });
+      mockMaybeSingle.mockResolvedValue({ data: createRow({ rolling_window_days: 14 }), error: null });
+      mockSingle.mockResolvedValue({ data: createRow(), error: null });
+
+      await store.revertChange('change-1', { changedBy: 'admin@example.com' });
+
+      expect(mockUpsert).toHaveBeenCalledWith({ genre: 'films', rolling_window_days: 30 }, { onConflict: 'genre' });
+      expect(history.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: 'revert',
+          revertedChangeId: 'change-1',
+          changes: [{ field: 'rollingWindowDays', from: 14, to: 30 }],
+        })
+      );
+    });
+
+    it('should throw when the change does not exist', async () => {
+      vi.mocked(history.getChange).mockResolvedValue(null);
+
+      await expect(store.revertChange('missing')).rejects.toThrow(
+        'Cannot revert pipeline config change: change missing not found'
+      );
+    });
+  });
+});
@@ -1,28 +1,17 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { PipelineGenerator } from '../PipelineGenerator';
-import type { IGroupStorage, GroupInput } from '../../../lib/supabase/storage/IGroupStorage';
+import type { IGroupStorage, GroupInput, StoredGroup } from '../../../lib/supabase/storage/IGroupStorage';
 import type {
+  AIItem,
   ConnectionType,
   GeneratedGroup,
   IConnectionTypeStore,
   IFeedbackStore,
   IItemVerifier,
-  FeedbackRecord,
-  GenerationFilters,
+  IGroupGenerationProvider,
+  VerifiedItem,
 } from '../../group-generator/types';
-
-// Type for the generate function
-type GenerateGroupsFn = (
-  apiKey: string,
-  filters: GenerationFilters,
-  connectionTypes: ConnectionType[],
-  count: number,
-  goodExamples: FeedbackRecord[],
-  badExamples: FeedbackRecord[]
-) => Promise<{ groups: GeneratedGroup[]; tokensUsed: { input: number | undefined; output: number | undefined } }>;
-
-// Mock type for generate function
-type MockGenerateGroupsFn = ReturnType<typeof vi.fn> & GenerateGroupsFn;
+import type { GenerationJob, GenerationJobCheckpoint, IGenerationJobStore, IGroupCritic } from '../types';
 
 // Mock implementations
 const createMockGroupStorage = (): IGroupStorage => ({
@@ -59,13 +48,20 @@ const createMockItemVerifier = (): IItemVerifier => ({
   verifyItems: vi.fn(),
 });
 
+const createMockProvider = (): IGroupGenerationProvider => ({
+  name: 'mock',
+  offline: false,
+  generateGroups: vi.fn(),
+  streamGroups: vi.fn(),
+});
+
 const createMockGeneratedGroup = (connection: string, type: string): GeneratedGroup => ({
   id: `gen-${Math.random()}`,
   items: [
-    { title: 'Item 1', year: 2020, externalId: null, verified: false },
-    { title: 'Item 2', year: 2021, externalId: null, verified: false },
-    { title: 'Item 3', year: 2022, externalId: null, verified: false },
-    { title: 'Item 4', year: 2023, externalId: null, verified: false },
+    { title: `${connection} Item 1`, year: 2020, externalId: null, verified: false },
+    { title: `${connection} Item 2`, year: 2021, externalId: null, verified: false },
+    { title: `${connection} Item 3`, year: 2022, externalId: null, verified: false },
+    { title: `${connection} Item 4`, year: 2023, externalId: null, verified: false },
   ],
   connection,
   connectionType: type,
@@ -73,27 +69,32 @@ const createMockGeneratedGroup = (connection: string, type: string): GeneratedGr
   allItemsVerified: false,
 });
 
+// Verifies every item with a unique external ID
+let nextExternalId = 100;
+const verifyAllItems = async (items: AIItem[]): Promise<VerifiedItem[]> =>
+  items.map((item) => ({ ...item, externalId: nextExternalId++, verified: true }));
+
 describe('PipelineGenerator', () => {
   let generator: PipelineGenerator;
   let mockGroupStorage: IGroupStorage;
   let mockConnectionTypeStore: IConnectionTypeStore;
   let mockFeedbackStore: IFeedbackStore;
   let mockItemVerifier: IItemVerifier;
-  let mockGenerateGroupsFn: MockGenerateGroupsFn;
+  let mockProvider: IGroupGenerationProvider;
 
   beforeEach(() => {
     mockGroupStorage = createMockGroupStorage();
     mockConnectionTypeStore = createMockConnectionTypeStore();
     mockFeedbackStore = createMockFeedbackStore();
     mockItemVerifier = createMockItemVerifier();
-    mockGenerateGroupsFn = vi.fn() as MockGenerateGroupsFn;
+    mockProvider = createMockProvider();
 
     generator = new PipelineGenerator(
       mockGroupStorage,
       mockConnectionTypeStore,
       mockFeedbackStore,
       mockItemVerifier,
-      mockGenerateGroupsFn
+      mockProvider
     );
 
     vi.clearAllMocks();
@@ -105,13 +106,12 @@ describe('PipelineGenerator', () => {
         genre: 'films',
         groupsPerColor: 10,
         colorsNeeded: [],
-        apiKey: 'test-key',
       });
 
       expect(result.groupsGenerated).toBe(0);
       expect(result.groupsSaved).toBe(0);
       expect(result.errors).toHaveLength(0);
-      expect(mockGenerateGroupsFn).not.toHaveBeenCalled();
+      expect(mockProvider.generateGroups).not.toHaveBeenCalled();
     });
 
     it('should return error when no connection types available', async () => {
@@ -121,7 +121,6 @@ describe('PipelineGenerator', () => {
         genre: 'films',
         groupsPerColor: 10,
         colorsNeeded: ['yellow'],
-        apiKey: 'test-key',
       });
 
       expect(result.errors).toHaveLength(1);
@@ -135,27 +134,22 @@ describe('PipelineGenerator', () => {
       vi.mocked(mockConnectionTypeStore.getActive).mockResolvedValue(connectionTypes);
 
       const generatedGroups = [
-        createMockGeneratedGroup('Yellow Connection', 'test-type'),
-        createMockGeneratedGroup('Yellow Connection 2', 'test-type'),
+        createMockGeneratedGroup('Heist films', 'test-type'),
+        createMockGeneratedGroup('Time travel films', 'test-type'),
       ];
-      mockGenerateGroupsFn.mockResolvedValue({
+      vi.mocked(mockProvider.generateGroups).mockResolvedValue({
         groups: generatedGroups,
+        validationErrors: [],
         tokensUsed: { input: 100, output: 200 },
       });
 
       // Mock item verification - all items verified
-      vi.mocked(mockItemVerifier.verifyItems).mockResolvedValue([
-        { title: 'Item 1', year: 2020, externalId: 101, verified: true },
-        { title: 'Item 2', year: 2021, externalId: 102, verified: true },
-        { title: 'Item 3', year: 2022, externalId: 103, verified: true },
-        { title: 'Item 4', year: 2023, externalId: 104, verified: true },
-      ]);
+      vi.mocked(mockItemVerifier.verifyItems).mockImplementation(verifyAllItems);
 
       const result = await generator.generateForPipeline({
         genre: 'films',
         groupsPerColor: 2,
         colorsNeeded: ['yellow'],
-        apiKey: 'test-key',
       });
 
       expect(result.groupsGenerated).toBe(2);
@@ -171,15 +165,16 @@ describe('PipelineGenerator', () => {
       expect(savedGroup.status).toBe('approved');
     });
 
-    it('should skip groups with unverified items', async () => {
+    it('should hold groups with unverified items for review', async () => {
       const connectionTypes: ConnectionType[] = [
         { id: '1', name: 'test-type', category: 'thematic', description: 'Test', active: true, createdAt: new Date(), genre: 'films' },
       ];
       vi.mocked(mockConnectionTypeStore.getActive).mockResolvedValue(connectionTypes);
 
       const generatedGroups = [createMockGeneratedGroup('Connection', 'test-type')];
-      mockGenerateGroupsFn.mockResolvedValue({
+      vi.mocked(mockProvider.generateGroups).mockResolvedValue({
         groups: generatedGroups,
+        validationErrors: [],
         tokensUsed: { input: 100, output: 200 },
       });
 
@@ -195,28 +190,35 @@ describe('PipelineGenerator', () => {
         genre: 'films',
         groupsPerColor: 1,
         colorsNeeded: ['yellow'],
-        apiKey: 'test-key',
       });
 
       expect(result.groupsGenerated).toBe(1);
-      expect(result.groupsSaved).toBe(0);
-      expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toContain('unverified items');
+      expect(result.groupsSaved).toBe(1);
+      expect(result.groupsPending).toBe(1);
+      expect(result.byColor.yellow).toBe(0);
+      expect(result.errors).toHaveLength(0);
+
+      const savedGroup = vi.mocked(mockGroupStorage.saveGroup).mock.calls[0][0] as GroupInput;
+      expect(savedGroup.status).toBe('pending');
+      expect(savedGroup.metadata?.qualityGate).toEqual(
+        expect.objectContaining({ approved: false, reasons: ['1 of 4 items unverified'] })
+      );
     });
 
-    it('should generate with correct difficulty for each color', async () => {
+    it('should report groups dropped by validation', async () => {
       const connectionTypes: ConnectionType[] = [
         { id: '1', name: 'test-type', category: 'thematic', description: 'Test', active: true, createdAt: new Date(), genre: 'films' },
       ];
       vi.mocked(mockConnectionTypeStore.getActive).mockResolvedValue(connectionTypes);
 
-      // Mock to return one group per call
-      mockGenerateGroupsFn.mockImplementation(async (_key: string, filters: GenerationFilters) => ({
-        groups: [createMockGeneratedGroup(`${filters.targetDifficulty} Connection`, 'test-type')],
+      vi.mocked(mockProvider.generateGroups).mockResolvedValue({
+        groups: [createMockGeneratedGroup('Valid Connection', 'test-type')],
+        validationErrors: [
+          { index: 1, connection: 'Bad Connection', errors: ['Expected 4 items, got 3'] },
+        ],
         tokensUsed: { input: 100, output: 200 },
-      }));
+      });
 
-      // All items verified
       vi.mocked(mockItemVerifier.verifyItems).mockResolvedValue([
         { title: 'Item 1', year: 2020, externalId: 101, verified: true },
         { title: 'Item 2', year: 2021, externalId: 102, verified: true },
@@ -224,21 +226,50 @@ describe('PipelineGenerator', () => {
         { title: 'Item 4', year: 2023, externalId: 104, verified: true },
       ]);
 
+      const result = await generator.generateForPipeline({
+        genre: 'films',
+        groupsPerColor: 2,
+        colorsNeeded: ['yellow'],
+      });
+
+      expect(result.groupsGenerated).toBe(2);
+      expect(result.groupsSaved).toBe(1);
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([
+        '[yellow] Dropped invalid group "Bad Connection": Expected 4 items, got 3',
+      ]);
+    });
+
+    it('should generate with correct difficulty for each color', async () => {
+      const connectionTypes: ConnectionType[] = [
+        { id: '1', name: 'test-type', category: 'thematic', description: 'Test', active: true, createdAt: new Date(), genre: 'films' },
+      ];
+      vi.mocked(mockConnectionTypeStore.getActive).mockResolvedValue(connectionTypes);
+
+      // Mock to return one group per call
+      vi.mocked(mockProvider.generateGroups).mockImplementation(async ({ filters }) => ({
+        groups: [createMockGeneratedGroup(`${filters.targetDifficulty} Connection`, 'test-type')],
+        validationErrors: [],
+        tokensUsed: { input: 100, output: 200 },
+      }));
+
+      // All items verified
+      vi.mocked(mockItemVerifier.verifyItems).mockImplementation(verifyAllItems);
+
       const result = await generator.generateForPipeline({
         genre: 'films',
         groupsPerColor: 1,
         colorsNeeded: ['yellow', 'green', 'blue', 'purple'],
-        apiKey: 'test-key',
       });
 
       expect(result.groupsSaved).toBe(4);
 
       // Check that each color was called with correct difficulty
-      const calls = mockGenerateGroupsFn.mock.calls;
-      expect(calls[0][1].targetDifficulty).toBe('easy'); // yellow
-      expect(calls[1][1].targetDifficulty).toBe('medium'); // green
-      expect(calls[2][1].targetDifficulty).toBe('hard'); // blue
-      expect(calls[3][1].targetDifficulty).toBe('expert'); // purple
+      const calls = vi.mocked(mockProvider.generateGroups).mock.calls;
+      expect(calls[0][0].filters.targetDifficulty).toBe('easy'); // yellow
+      expect(calls[1][0].filters.targetDifficulty).toBe('medium'); // green
+      expect(calls[2][0].filters.targetDifficulty).toBe('hard'); // blue
+      expect(calls[3][0].filters.targetDifficulty).toBe('expert'); // purple
 
       // Check saved groups have correct mapping
       const savedGroups = vi.mocked(mockGroupStorage.saveGroup).mock.calls.map(
@@ -269,8 +300,9 @@ describe('PipelineGenerator', () => {
         total: 2,
       });
 
-      mockGenerateGroupsFn.mockResolvedValue({
+      vi.mocked(mockProvider.generateGroups).mockResolvedValue({
         groups: [],
+        validationErrors: [],
         tokensUsed: { input: 100, output: 200 },
       });
 
@@ -278,13 +310,367 @@ describe('PipelineGenerator', () => {
         genre: 'films',
         groupsPerColor: 1,
         colorsNeeded: ['yellow'],
-        apiKey: 'test-key',
       });
 
-      // Check that excludeConnections was passed to generate function
-      const filters = mockGenerateGroupsFn.mock.calls[0][1];
+      // Check that excludeConnections was passed to the provider
+      const { filters } = vi.mocked(mockProvider.generateGroups).mock.calls[0][0];
       expect(filters.excludeConnections).toContain('Existing Connection 1');
       expect(filters.excludeConnections).toContain('Existing Connection 2');
     });
+
+    describe('auto-approval', () => {
+      const connectionTypes: ConnectionType[] = [
+        { id: '1', name: 'test-type', category: 'thematic', description: 'Test', active: true, createdAt: new Date(), genre: 'films' },
+      ];
+
+      beforeEach(() => {
+        vi.mocked(mockConnectionTypeStore.getActive).mockResolvedValue(connectionTypes);
+        vi.mocked(mockItemVerifier.verifyItems).mockImplementation(verifyAllItems);
+        vi.mocked(mockProvider.generateGroups).mockResolvedValue({
+          groups: [createMockGeneratedGroup('Heist films', 'test-type')],
+          validationErrors: [],
+          tokensUsed: { input: 100, output: 200 },
+        });
+      });
+
+      it('should store the quality gate assessment with the group', async () => {
+        await generator.generateForPipeline({
+          genre: 'films',
+          groupsPerColor: 1,
+          colorsNeeded: ['yellow'],
+        });
+
+        const savedGroup = vi.mocked(mockGroupStorage.saveGroup).mock.calls[0][0] as GroupInput;
+        expect(savedGroup.status).toBe('approved');
+        expect(savedGroup.metadata?.qualityGate).toEqual({
+          score: 100,
+          verificationRate: 1,
+          closestSimilarity: 0,
+          mode: 'threshold',
+          approved: true,
+          reasons: [],
+        });
+      });
+
+      it('should hold every group for review in never mode', async () => {
+        const result = await generator.generateForPipeline({
+          genre: 'films',
+          groupsPerColor: 1,
+          colorsNeeded: ['yellow'],
+          approvalPolicy: { mode: 'never', threshold: 80, selfCritique: false },
+        });
+
+        expect(result.groupsSaved).toBe(1);
+        expect(result.groupsPending).toBe(1);
+        expect(result.byColor.yellow).toBe(0);
+        const savedGroup = vi.mocked(mockGroupStorage.saveGroup).mock.calls[0][0] as GroupInput;
+        expect(savedGroup.status).toBe('pending');
+      });
+
+      it('should hold groups scoring below the threshold for review', async () => {
+        const critic: IGroupCritic = {
+          critique: vi.fn().mockResolvedValue({ score: 10, notes: 'Connection is too vague' }),
+        };
+        generator = new PipelineGenerator(
+          mockGroupStorage,
+          mockConnectionTypeStore,
+          mockFeedbackStore,
+          mockItemVerifier,
+          mockProvider,
+          critic
+        );
+
+        const result = await generator.generateForPipeline({
+          genre: 'films',
+          groupsPerColor: 1,
+          colorsNeeded: ['yellow'],
+          approvalPolicy: { mode: 'threshold', threshold: 80, selfCritique: true },
+        });
+
+        expect(critic.critique).toHaveBeenCalledWith(
+          expect.objectContaining({ connection: 'Heist films' }),
+          'films'
+        );
+        expect(result.groupsPending).toBe(1);
+        const savedGroup = vi.mocked(mockGroupStorage.saveGroup).mock.calls[0][0] as GroupInput;
+        expect(savedGroup.status).toBe('pending');
+        expect(savedGroup.metadata?.qualityGate).toEqual(
+          expect.objectContaining({
+            score: 73,
+            critique: { score: 10, notes: 'Connection is too vague' },
+            reasons: ['Quality score 73 is below the threshold of 80'],
+          })
+        );
+      });
+    });
+
+    describe('duplicate detection', () => {
+      const connectionTypes: ConnectionType[] = [
+        { id: '1', name: 'test-type', category: 'thematic', description: 'Test', active: true, createdAt: new Date(), genre: 'films' },
+      ];
+
+      const approvedGroup: StoredGroup = {
+        id: 'existing-1',
+        createdAt: Date.now(),
+        items: [
+          { id: 27205, title: 'Inception', year: 2010 },
+          { id: 157336, title: 'Interstellar', year: 2014 },
+          { id: 577922, title: 'Tenet', year: 2020 },
+          { id: 77, title: 'Memento', year: 2000 },
+        ],
+        connection: 'Films directed by Nolan',
+        connectionType: 'test-type',
+        difficultyScore: 1,
+        color: 'yellow',
+        difficulty: 'easy',
+        status: 'approved',
+        usageCount: 0,
+        lastUsedAt: null,
+        genre: 'films',
+      };
+
+      beforeEach(() => {
+        vi.mocked(mockConnectionTypeStore.getActive).mockResolvedValue(connectionTypes);
+        vi.mocked(mockGroupStorage.listGroups).mockResolvedValue({ groups: [approvedGroup], total: 1 });
+        vi.mocked(mockItemVerifier.verifyItems).mockImplementation(verifyAllItems);
+      });
+
+      it('should skip a group with a similar connection to an approved group', async () => {
+        vi.mocked(mockProvider.generateGroups).mockResolvedValue({
+          groups: [createMockGeneratedGroup('Christopher Nolan films', 'test-type')],
+          validationErrors: [],
+          tokensUsed: { input: 100, output: 200 },
+        });
+
+        const result = await generator.generateForPipeline({
+          genre: 'films',
+          groupsPerColor: 1,
+          colorsNeeded: ['yellow'],
+        });
+
+        expect(result.groupsSaved).toBe(0);
+        expect(mockGroupStorage.saveGroup).not.toHaveBeenCalled();
+        expect(result.warnings).toEqual([
+          '[yellow] Group "Christopher Nolan films" is a likely duplicate (Similar connection to "Films directed by Nolan"), skipping',
+        ]);
+      });
+
+      it('should skip a group sharing three items with an approved group', async () => {
+        vi.mocked(mockProvider.generateGroups).mockResolvedValue({
+          groups: [
+            {
+              ...createMockGeneratedGroup('Films with mind-bending plots', 'test-type'),
+              items: [
+                { title: 'Inception', year: 2010, externalId: null, verified: false },
+                { title: 'Interstellar', year: 2014, externalId: null, verified: false },
+                { title: 'Tenet', year: 2020, externalId: null, verified: false },
+                { title: 'Primer', year: 2004, externalId: null, verified: false },
+              ],
+            },
+          ],
+          validationErrors: [],
+          tokensUsed: { input: 100, output: 200 },
+        });
+
+        const result = await generator.generateForPipeline({
+          genre: 'films',
+          groupsPerColor: 1,
+          colorsNeeded: ['yellow'],
+        });
+
+        expect(result.groupsSaved).toBe(0);
+        expect(result.warnings[0]).toContain('Shares 3 items with "Films directed by Nolan"');
+      });
+
+      it('should skip duplicates of groups saved earlier in the same run', async () => {
+        vi.mocked(mockProvider.generateGroups).mockImplementation(async () => ({
+          groups: [createMockGeneratedGroup('Heist films', 'test-type')],
+          validationErrors: [],
+          tokensUsed: { input: 100, output: 200 },
+        }));
+
+        const result = await generator.generateForPipeline({
+          genre: 'films',
+          groupsPerColor: 1,
+          colorsNeeded: ['yellow', 'green'],
+        });
+
+        expect(result.byColor.yellow).toBe(1);
+        expect(result.byColor.green).toBe(0);
+        expect(mockGroupStorage.saveGroup).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('generation jobs', () => {
+    const connectionTypes: ConnectionType[] = [
+      { id: '1', name: 'test-type', category: 'thematic', description: 'Test', active: true, createdAt: new Date(), genre: 'films' },
+    ];
+
+    let jobStore: IGenerationJobStore;
+    let checkpoints: GenerationJobCheckpoint[];
+    let groupCount: number;
+
+    const lastCheckpoint = () => checkpoints[checkpoints.length - 1];
+
+    // Returns `count` new groups per call
+    const generateUniqueGroups: IGroupGenerationProvider['generateGroups'] = async ({ count }) => ({
+      groups: Array.from({ length: count }, () => createMockGeneratedGroup(`Group ${groupCount++}`, 'test-type')),
+      validationErrors: [],
+      tokensUsed: { input: 100, output: 200 },
+    });
+
+    beforeEach(() => {
+      groupCount = 0;
+      checkpoints = [];
+      generator.setRetryPolicy({ maxAttempts: 3, baseDelayMs: 0 });
+      vi.mocked(mockConnectionTypeStore.getActive).mockResolvedValue(connectionTypes);
+      vi.mocked(mockItemVerifier.verifyItems).mockImplementation(verifyAllItems);
+      vi.mocked(mockProvider.generateGroups).mockImplementation(generateUniqueGroups);
+
+      jobStore = {
+        create: vi.fn(async (input) => ({
+          ...input,
+          id: 'job-1',
+          status: 'running' as const,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          finishedAt: null,
+          failureMessage: null,
+        })),
+        checkpoint: vi.fn(async (_id, checkpoint) => {
+          checkpoints.push(JSON.parse(JSON.stringify(checkpoint)));
+        }),
+        getJob: vi.fn(),
+        listJobs: vi.fn(),
+      };
+    });
+
+    it('should split large requests into chunks and checkpoint each one', async () => {
+      const onStageChange = vi.fn();
+
+      const result = await generator.generateForPipeline({
+        genre: 'films',
+        groupsPerColor: 25,
+        colorsNeeded: ['purple'],
+        onStageChange,
+        jobStore,
+        trigger: 'cli',
+      });
+
+      expect(vi.mocked(mockProvider.generateGroups).mock.calls.map(([request]) => request.count)).toEqual([10, 10, 5]);
+      expect(jobStore.create).toHaveBeenCalledWith(expect.objectContaining({ genre: 'films', trigger: 'cli' }));
+      expect(onStageChange.mock.calls).toEqual([
+        ['generating-purple', { current: 0, total: 25 }],
+        ['generating-purple', { current: 10, total: 25 }],
+        ['generating-purple', { current: 20, total: 25 }],
+      ]);
+      // Once when starting, after each chunk and when finished
+      expect(checkpoints).toHaveLength(5);
+      expect(lastCheckpoint().status).toBe('completed');
+      expect(result).toMatchObject({ groupsGenerated: 25, groupsSaved: 25, jobId: 'job-1', errors: [] });
+    });
+
+    it('should retry a failed provider call and drop the errors once it succeeds', async () => {
+      vi.mocked(mockProvider.generateGroups)
+        .mockRejectedValueOnce(new Error('Overloaded'))
+        .mockImplementation(generateUniqueGroups);
+
+      const result = await generator.generateForPipeline({
+        genre: 'films',
+        groupsPerColor: 3,
+        colorsNeeded: ['yellow'],
+        jobStore,
+      });
+
+      expect(mockProvider.generateGroups).toHaveBeenCalledTimes(2);
+      expect(result.groupsSaved).toBe(3);
+      expect(result.errors).toEqual([]);
+      expect(lastCheckpoint().chunks[0]).toMatchObject({ status: 'completed', attempts: 2 });
+    });
+
+    it('should fail a chunk after the last attempt and carry on with the rest', async () => {
+      vi.mocked(mockProvider.generateGroups).mockImplementation(async (request) => {
+        if (request.filters.targetDifficulty === 'easy') {
+          throw new Error('Overloaded');
+        }
+        return generateUniqueGroups(request);
+      });
+
+      const result = await generator.generateForPipeline({
+        genre: 'films',
+        groupsPerColor: 2,
+        colorsNeeded: ['yellow', 'green'],
+        jobStore,
+      });
+
+      expect(result.byColor).toMatchObject({ yellow: 0, green: 2 });
+      expect(result.errors).toEqual([
+        '[yellow] Attempt 1 failed: Overloaded',
+        '[yellow] Attempt 2 failed: Overloaded',
+        '[yellow] Attempt 3 failed: Overloaded',
+      ]);
+      expect(lastCheckpoint()).toMatchObject({ status: 'failed' });
+      expect(lastCheckpoint().chunks.map((chunk) => chunk.status)).toEqual(['failed', 'completed']);
+    });
+
+    it('should resume a failed job from the chunks that did not complete', async () => {
+      const failedJob: GenerationJob = {
+        id: 'job-1',
+        genre: 'films',
+        trigger: 'cron',
+        status: 'failed',
+        approvalPolicy: { mode: 'always', threshold: 80, selfCritique: false },
+        chunks: [
+          { color: 'blue', count: 10, status: 'completed', attempts: 1, generated: 10, saved: 10, pending: 0, errors: [] },
+          { color: 'blue', count: 4, status: 'failed', attempts: 3, generated: 0, saved: 0, pending: 0, errors: ['Attempt 3 failed: Overloaded'] },
+        ],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        finishedAt: new Date(),
+        failureMessage: null,
+      };
+      vi.mocked(jobStore.getJob).mockResolvedValue(failedJob);
+
+      const result = await generator.resumeJob('job-1', jobStore);
+
+      expect(mockProvider.generateGroups).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(mockProvider.generateGroups).mock.calls[0][0].count).toBe(4);
+      expect(result).toMatchObject({ groupsGenerated: 14, groupsSaved: 14, errors: [], jobId: 'job-1' });
+      expect(lastCheckpoint()).toMatchObject({ status: 'completed', failureMessage: null });
+    });
+
+    it('should refuse to resume a job that is still running', async () => {
+      vi.mocked(jobStore.getJob).mockResolvedValue({
+        id: 'job-1',
+        genre: 'films',
+        trigger: 'manual',
+        status: 'running',
+        approvalPolicy: { mode: 'always', threshold: 80, selfCritique: false },
+        chunks: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        finishedAt: null,
+        failureMessage: null,
+      });
+
+      await expect(generator.resumeJob('job-1', jobStore)).rejects.toThrow('Generation job job-1 is still running');
+    });
+
+    it('should still generate when the job cannot be stored', async () => {
+      vi.mocked(jobStore.create).mockRejectedValue(new Error('relation "generation_jobs" does not exist'));
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await generator.generateForPipeline({
+        genre: 'films',
+        groupsPerColor: 2,
+        colorsNeeded: ['purple'],
+        jobStore,
+      });
+
+      expect(result).toMatchObject({ groupsSaved: 2, jobId: null });
+      expect(jobStore.checkpoint).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
   });
 });
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PipelineLockStore } from '../PipelineLockStore';
+import { awaitable } from '../../../test/supabaseQueryMock';
+
+// Create mock functions
+const mockRpc = vi.fn();
+const mockSelect = vi.fn();
+const mockDelete = vi.fn();
+const mockEq = vi.fn();
+const mockMaybeSingle = vi.fn();
+const mockFrom = vi.fn();
+
+// Create mock Supabase client
+const mockSupabase = {
+  from: mockFrom,
+  rpc: mockRpc,
+} as unknown as SupabaseClient;
+
+const createRow = (expiresAt: string) => ({
+  genre: 'films',
+  token: 'token-1',
+  holder: 'GitHub Actions run 42',
+  trigger: 'cron',
+  acquired_at: '2025-03-04T06:00:00Z',
+  expires_at: expiresAt,
+});
+
+describe('PipelineLockStore', () => {
+  let store: PipelineLockStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = new PipelineLockStore(mockSupabase);
+
+    const chain = { eq: mockEq, maybeSingle: mockMaybeSingle };
+    mockFrom.mockReturnValue({ select: mockSelect, delete: mockDelete });
+    mockSelect.mockReturnValue(chain);
+    mockDelete.mockReturnValue(chain);
+    mockEq.mockReturnValue(awaitable({ error: null }, chain));
+  });
+
+  describe('acquire', () => {
+    it('should call acquire_pipeline_lock and map the returned lease', async () => {
+      mockRpc.mockResolvedValue({ data: createRow('2999-01-01T00:00:00Z'), error: null });
+
+      const lease = await store.acquire(
+        'films',
+        { token: 'token-1', holder: 'GitHub Actions run 42', trigger: 'cron' },
+        600_000
+      );
+
+      expect(mockRpc).toHaveBeenCalledWith('acquire_pipeline_lock', {
+        genre_param: 'films',
+        token_param: 'token-1',
+        holder_param: 'GitHub Actions run 42',
+        trigger_param: 'cron',
+        ttl_seconds_param: 600,
+      });
+      expect(lease).toEqual({
+        genre: 'films',
+        token: 'token-1',
+        holder: 'GitHub Actions run 42',
+        trigger: 'cron',
+        acquiredAt: new Date('2025-03-04T06:00:00Z'),
+        expiresAt: new Date('2999-01-01T00:00:00Z'),
+        isExpired: false,
+      });
+    });
+
+    it('should throw when the function fails', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+
+      await expect(
+        store.acquire('films', { token: 'token-1', holder: 'cli', trigger: 'cli' }, 600_000)
+      ).rejects.toThrow('Failed to acquire pipeline lock: permission denied');
+    });
+  });
+
+  describe('renew', () => {
+    it('should call renew_pipeline_lock with the token', async () => {
+      mockRpc.mockResolvedValue({ data: true, error: null });
+
+      expect(await store.renew('films', 'token-1', 600_000)).toBe(true);
+      expect(mockRpc).toHaveBeenCalledWith('renew_pipeline_lock', {
+        genre_param: 'films',
+        token_param: 'token-1',
+        ttl_seconds_param: 600,
+      });
+    });
+
+    it('should report a lease that is gone', async () => {
+      mockRpc.mockResolvedValue({ data: false, error: null });
+
+      expect(await store.renew('films', 'token-1', 600_000)).toBe(false);
+    });
+
+    it('should throw when the function fails', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+
+      await expect(store.renew('films', 'token-1', 600_000)).rejects.toThrow(
+        'Failed to renew pipeline lock: permission denied'
+      );
+    });
+  });
+
+  describe('release', () => {
+    it('should delete the lease held with the token', async () => {
+      await store.release('films', 'token-1');
+
+      expect(mockFrom).toHaveBeenCalledWith('pipeline_locks');
+      expect(mockDelete).toHaveBeenCalled();
+      expect(mockEq).toHaveBeenCalledWith('genre', 'films');
+      expect(mockEq).toHaveBeenCalledWith('token', 'token-1');
+    });
+  });
+
+  describe('getLease', () => {
+    it('should flag an expired lease', async () => {
+      mockMaybeSingle.mockResolvedValue({ data: createRow('2025-03-04T06:10:00Z'), error: null });
+
+      const lease = await store.getLease('films');
+
+      expect(lease?.holder).toBe('GitHub Actions run 42');
+      expect(lease?.isExpired).toBe(true);
+    });
+
+    it('should return null when no fill holds the lease', async () => {
+      mockMaybeSingle.mockResolvedValue({ data: null, error: null });
+
+      expect(await store.getLease('films')).toBeNull();
+    });
+  });
+});
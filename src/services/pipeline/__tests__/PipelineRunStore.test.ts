@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PipelineRunStore } from '../PipelineRunStore';
+import { awaitable } from '../../../test/supabaseQueryMock';
+import { DEFAULT_PIPELINE_CONFIG, type PipelineRunInput } from '../types';
+
+// Create mock functions
+const mockSelect = vi.fn();
+const mockInsert = vi.fn();
+const mockEq = vi.fn();
+const mockOrder = vi.fn();
+const mockLimit = vi.fn();
+const mockMaybeSingle = vi.fn();
+const mockFrom = vi.fn();
+
+// Create mock Supabase client
+const mockSupabase = {
+  from: mockFrom,
+} as unknown as SupabaseClient;
+
+const config = { ...DEFAULT_PIPELINE_CONFIG, genre: 'films' as const };
+
+const groupsByColor = {
+  yellow: { generated: 5, saved: 4 },
+  green: { generated: 0, saved: 0 },
+  blue: { generated: 0, saved: 0 },
+  purple: { generated: 0, saved: 0 },
+};
+
+describe('PipelineRunStore', () => {
+  let store: PipelineRunStore;
+
+  const run: PipelineRunInput = {
+    genre: 'films',
+    trigger: 'cron',
+    status: 'partial',
+    startedAt: new Date('2025-03-04T10:00:00Z'),
+    finishedAt: new Date('2025-03-04T10:00:05Z'),
+    config,
+    stageTimings: [{ stage: 'checking-pool', startedAt: '2025-03-04T10:00:00.000Z', durationMs: 120 }],
+    aiGenerationTriggered: true,
+    groupsGenerated: 5,
+    groupsSaved: 4,
+    groupsPendingReview: 1,
+    groupsByColor,
+    puzzlesCreated: 1,
+    emptyDaysRemaining: 1,
+    puzzles: [{ date: '2025-03-05', puzzleId: 'puzzle-1', groupIds: ['y1', 'g1', 'b1', 'p1'] }],
+    errors: [{ date: '2025-03-06', message: 'Not enough groups', code: 'INSUFFICIENT_GROUPS' }],
+    warnings: [{ date: '2025-03-07', message: 'Rule "Horror night" not honoured', code: 'RULE_UNSATISFIED' }],
+    failureMessage: null,
+  };
+
+  const mockRow = {
+    id: 'run-1',
+    created_at: '2025-03-04T10:00:05Z',
+    genre: 'films',
+    trigger: 'cron',
+    status: 'partial',
+    started_at: '2025-03-04T10:00:00Z',
+    finished_at: '2025-03-04T10:00:05Z',
+    config,
+    stage_timings: run.stageTimings,
+    ai_generation_triggered: true,
+    groups_generated: 5,
+    groups_saved: 4,
+    groups_pending_review: 1,
+    groups_by_color: groupsByColor,
+    puzzles_created: 1,
+    empty_days_remaining: 1,
+    puzzles: run.puzzles,
+    errors: run.errors,
+    warnings: run.warnings,
+    failure_message: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = new PipelineRunStore(mockSupabase);
+
+    const chain = { eq: mockEq, order: mockOrder, limit: mockLimit, maybeSingle: mockMaybeSingle };
+
+    mockFrom.mockReturnValue({ select: mockSelect, insert: mockInsert });
+    mockSelect.mockReturnValue(chain);
+    mockOrder.mockReturnValue(chain);
+    mockLimit.mockReturnValue(awaitable({ data: [mockRow], error: null }, chain));
+    mockEq.mockReturnValue(awaitable({ data: [mockRow], error: null }, chain));
+    mockMaybeSingle.mockResolvedValue({ data: mockRow, error: null });
+  });
+
+  describe('record', () => {
+    it('should insert the run as a snake_case row', async () => {
+      mockInsert.mockResolvedValue({ error: null });
+
+      await store.record(run);
+
+      expect(mockFrom).toHaveBeenCalledWith('pipeline_runs');
+      expect(mockInsert).toHaveBeenCalledWith({
+        genre: 'films',
+        trigger: 'cron',
+        status: 'partial',
+        started_at: '2025-03-04T10:00:00.000Z',
+        finished_at: '2025-03-04T10:00:05.000Z',
+        config,
+        stage_timings: run.stageTimings,
+        ai_generation_triggered: true,
+        groups_generated: 5,
+        groups_saved: 4,
+        groups_pending_review: 1,
+        groups_by_color: groupsByColor,
+        puzzles_created: 1,
+        empty_days_remaining: 1,
+        puzzles: run.puzzles,
+        errors: run.errors,
+        warnings: run.warnings,
+        failure_message: null,
+      });
+    });
+
+    it('should throw when the insert fails', async () => {
+      mockInsert.mockResolvedValue({ error: { message: 'permission denied' } });
+
+      await expect(store.record(run)).rejects.toThrow('Failed to record pipeline run: permission denied');
+    });
+  });
+
+  describe('listRuns', () => {
+    it('should list the most recent runs mapped to PipelineRun', async () => {
+      const runs = await store.listRuns();
+
+      expect(mockOrder).toHaveBeenCalledWith('started_at', { ascending: false });
+      expect(mockLimit).toHaveBeenCalledWith(50);
+      expect(mockEq).not.toHaveBeenCalled();
+      expect(runs).toEqual([{ ...run, id: 'run-1' }]);
+    });
+
+    it('should filter by genre and limit', async () => {
+      await store.listRuns({ genre: 'music', limit: 10 });
+
+      expect(mockLimit).toHaveBeenCalledWith(10);
+      expect(mockEq).toHaveBeenCalledWith('genre', 'music');
+    });
+  });
+
+  describe('getRun', () => {
+    it('should return the run with the given id', async () => {
+      const result = await store.getRun('run-1');
+
+      expect(mockEq).toHaveBeenCalledWith('id', 'run-1');
+      expect(result?.id).toBe('run-1');
+      expect(result?.startedAt).toEqual(new Date('2025-03-04T10:00:00Z'));
+    });
+
+    it('should return null when the run does not exist', async () => {
+      mockMaybeSingle.mockResolvedValue({ data: null, error: null });
+
+      expect(await store.getRun('missing')).toBeNull();
+    });
+  });
+});
@@ -1,15 +1,30 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { PipelineService } from '../PipelineService';
 import type { IPuzzleStorage, StoredPuzzle } from '../../../lib/supabase/storage/IPuzzleStorage';
-import type { IGroupStorage, FreshestGroupSet, GroupCountsByColor, StoredGroup } from '../../../lib/supabase/storage/IGroupStorage';
-import type { PipelineConfig } from '../types';
+import type { DifficultyColor, IGroupStorage, GroupCountsByColor, StoredGroup } from '../../../lib/supabase/storage/IGroupStorage';
+import type {
+  IPipelineLock,
+  IPipelineRunLog,
+  ISchedulingRuleStore,
+  PipelineConfig,
+  PipelineLease,
+  PipelineLeaseRequest,
+  SchedulingRule,
+} from '../types';
+import type { PipelineGenerator } from '../PipelineGenerator';
+import type { IConnectionTypeStore, IGenerationLedger } from '../../group-generator/types';
+import type { IAlerter } from '../../alerting/types';
 
 // Mock storage implementations
 const createMockPuzzleStorage = (): IPuzzleStorage => ({
   savePuzzle: vi.fn(),
+  createPuzzle: vi.fn(),
   getPuzzle: vi.fn(),
   getDailyPuzzle: vi.fn(),
-  listPuzzles: vi.fn(),
+  getPublishedPuzzle: vi.fn(),
+  getReleaseSettings: vi.fn(),
+  updateReleaseSettings: vi.fn(),
+  listPuzzles: vi.fn().mockResolvedValue({ puzzles: [], total: 0 }),
   updatePuzzle: vi.fn(),
   deletePuzzle: vi.fn(),
   getEmptyDays: vi.fn(),
@@ -23,7 +38,7 @@ const createMockGroupStorage = (): IGroupStorage => ({
   saveGroup: vi.fn(),
   saveBatch: vi.fn(),
   getGroup: vi.fn(),
-  getGroupsByIds: vi.fn(),
+  getGroupsByIds: vi.fn().mockResolvedValue([]),
   listGroups: vi.fn().mockResolvedValue({ groups: [], total: 0 }),
   updateGroup: vi.fn(),
   deleteGroup: vi.fn(),
@@ -36,13 +51,13 @@ const createMockGroup = (color: string, id: string): StoredGroup => ({
   id,
   createdAt: Date.now(),
   items: [
-    { id: 1, title: 'Item 1', year: 2020 },
-    { id: 2, title: 'Item 2', year: 2021 },
-    { id: 3, title: 'Item 3', year: 2022 },
-    { id: 4, title: 'Item 4', year: 2023 },
+    { id: `${id}-1`, title: `${id} Item 1`, year: 2020 },
+    { id: `${id}-2`, title: `${id} Item 2`, year: 2021 },
+    { id: `${id}-3`, title: `${id} Item 3`, year: 2022 },
+    { id: `${id}-4`, title: `${id} Item 4`, year: 2023 },
   ],
   connection: `Test ${color} connection`,
-  connectionType: 'test-type',
+  connectionType: `type-${id}`,
   difficultyScore: 5000,
   color: color as 'yellow' | 'green' | 'blue' | 'purple',
   difficulty: 'medium',
@@ -121,6 +136,62 @@ describe('PipelineService', () => {
     });
   });
 
+  describe('getColorsNeeded', () => {
+    it('should include colors that cannot cover the window plus the reserve', () => {
+      const unusedCounts = { yellow: 15, green: 13, blue: 9, purple: 2 };
+
+      expect(service.getColorsNeeded(unusedCounts, 3)).toEqual(['purple']);
+      expect(service.getColorsNeeded(unusedCounts, 3, 10)).toEqual(['blue', 'purple']);
+    });
+  });
+
+  describe('getPoolReserve', () => {
+    it('should compare spare groups beyond the window with the reserve', async () => {
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue(['2024-12-10', '2024-12-11']);
+      vi.mocked(mockPuzzleStorage.getUsedGroupIds).mockResolvedValue(new Set(['y-used']));
+      vi.mocked(mockGroupStorage.listGroups).mockResolvedValue({
+        groups: [
+          createMockGroup('yellow', 'y-used'),
+          createMockGroup('yellow', 'y1'),
+          createMockGroup('yellow', 'y2'),
+          createMockGroup('yellow', 'y3'),
+          createMockGroup('green', 'g1'),
+        ],
+        total: 5,
+      });
+
+      const reserve = await service.getPoolReserve({
+        ...service.getDefaultConfig('films'),
+        minGroupsPerColor: 5,
+      });
+
+      expect(reserve.yellow).toEqual({ unused: 3, neededForWindow: 2, spare: 1, target: 5 });
+      expect(reserve.green).toEqual({ unused: 1, neededForWindow: 2, spare: -1, target: 5 });
+      expect(reserve.purple.spare).toBe(-2);
+    });
+  });
+
+  describe('getPoolForecast', () => {
+    it('should project the pool from used and newly approved groups', async () => {
+      const now = Date.now();
+      const usedGroup = { ...createMockGroup('purple', 'p-used'), lastUsedAt: now - 86_400_000 };
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue([]);
+      vi.mocked(mockPuzzleStorage.getUsedGroupIds).mockResolvedValue(new Set(['p-used']));
+      vi.mocked(mockGroupStorage.listGroups).mockResolvedValue({
+        groups: [usedGroup, createMockGroup('purple', 'p1'), createMockGroup('purple', 'p2')],
+        total: 3,
+      });
+
+      const forecast = await service.getPoolForecast(service.getDefaultConfig('films'));
+
+      expect(mockGroupStorage.listGroups).toHaveBeenCalledWith({ genre: 'films', status: 'approved', limit: 10000 });
+      expect(forecast.genre).toBe('films');
+      expect(forecast.colors.purple.unused).toBe(2);
+      expect(forecast.colors.purple.usedPerDay).toBeCloseTo(1 / 28);
+      expect(forecast.colors.yellow.daysUntilDry).toBe(0);
+    });
+  });
+
   describe('getEmptyDates', () => {
     it('should return empty dates from storage', async () => {
       const emptyDays = ['2024-12-10', '2024-12-12', '2024-12-15'];
@@ -140,6 +211,11 @@ describe('PipelineService', () => {
       genre: 'films',
       minGroupsPerColor: 10,
       aiGenerationBatchSize: 20,
+      monthlyTokenBudget: null,
+      connectionTypeGapDays: 7,
+      autoApprovalMode: 'threshold',
+      autoApprovalThreshold: 80,
+      selfCritiqueEnabled: false,
     };
 
     it('should return early when no empty days', async () => {
@@ -152,6 +228,65 @@ describe('PipelineService', () => {
       expect(result.errors).toHaveLength(0);
     });
 
+    it('should top up the reserve even when the window is full', async () => {
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue([]);
+      const mockGenerator = {
+        generateForPipeline: vi.fn().mockResolvedValue({
+          groupsGenerated: 0,
+          groupsSaved: 0,
+          groupsPending: 0,
+          errors: [],
+          warnings: [],
+          byColor: { yellow: 0, green: 0, blue: 0, purple: 0 },
+        }),
+      } as unknown as PipelineGenerator;
+      service.setGenerator(mockGenerator);
+
+      // 12 unused yellow groups, 4 of every other color
+      const mockGroups = [
+        ...Array.from({ length: 12 }, (_, i) => createMockGroup('yellow', `y${i}`)),
+        ...(['green', 'blue', 'purple'] as const).flatMap((color) =>
+          Array.from({ length: 4 }, (_, i) => createMockGroup(color, `${color}-${i}`))
+        ),
+      ];
+      vi.mocked(mockGroupStorage.listGroups).mockResolvedValue({ groups: mockGroups, total: mockGroups.length });
+
+      const result = await service.fillRollingWindow({ ...config, aiGenerationBatchSize: 5 });
+
+      expect(result.aiGenerationTriggered).toBe(true);
+      expect(mockGenerator.generateForPipeline).toHaveBeenCalledWith(
+        expect.objectContaining({ colorsNeeded: ['green', 'blue', 'purple'], groupsPerColor: 6 })
+      );
+      expect(mockPuzzleStorage.createPuzzle).not.toHaveBeenCalled();
+    });
+
+    it('should report skipped groups as warnings and failed generation as errors', async () => {
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue([]);
+      service.setGenerator({
+        generateForPipeline: vi.fn().mockResolvedValue({
+          groupsGenerated: 6,
+          groupsSaved: 4,
+          groupsPending: 0,
+          errors: ['[blue] Attempt 3 failed: overloaded'],
+          warnings: ['[green] Group "Heists" is a likely duplicate (same connection), skipping'],
+          byColor: { yellow: 0, green: 4, blue: 0, purple: 0 },
+        }),
+      } as unknown as PipelineGenerator);
+
+      const result = await service.fillRollingWindow(config);
+
+      expect(result.errors).toEqual([
+        { date: '', message: '[blue] Attempt 3 failed: overloaded', code: 'GENERATION_FAILED' },
+      ]);
+      expect(result.warnings).toEqual([
+        {
+          date: '',
+          message: '[green] Group "Heists" is a likely duplicate (same connection), skipping',
+          code: 'GROUP_SKIPPED',
+        },
+      ]);
+    });
+
     it('should create puzzles for empty days', async () => {
       const emptyDays = ['2024-12-10', '2024-12-11'];
       vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue(emptyDays);
@@ -173,41 +308,30 @@ describe('PipelineService', () => {
       ];
       vi.mocked(mockGroupStorage.listGroups).mockResolvedValue({ groups: mockGroups, total: mockGroups.length });
 
-      // Mock getFreshestGroupSet to return different groups each time
-      let callCount = 0;
-      vi.mocked(mockGroupStorage.getFreshestGroupSet).mockImplementation(async () => {
-        callCount++;
-        return {
-          yellow: createMockGroup('yellow', `yellow-${callCount}`),
-          green: createMockGroup('green', `green-${callCount}`),
-          blue: createMockGroup('blue', `blue-${callCount}`),
-          purple: createMockGroup('purple', `purple-${callCount}`),
-        };
-      });
-
-      vi.mocked(mockPuzzleStorage.checkPuzzleExists).mockResolvedValue(false);
-
       let puzzleCount = 0;
-      vi.mocked(mockPuzzleStorage.savePuzzle).mockImplementation(async (input) => {
+      vi.mocked(mockPuzzleStorage.createPuzzle).mockImplementation(async (input) => {
         puzzleCount++;
-        return createMockPuzzle(`puzzle-${puzzleCount}`, input.groupIds);
+        return {
+          ...createMockPuzzle(`puzzle-${puzzleCount}`, input.groupIds),
+          puzzleDate: input.puzzleDate ?? null,
+          status: input.status ?? 'pending',
+        };
       });
 
-      vi.mocked(mockPuzzleStorage.updatePuzzle).mockImplementation(async (id, updates) => ({
-        ...createMockPuzzle(id, ['y', 'g', 'b', 'p']),
-        ...updates,
-        status: updates.status || 'pending',
-      }));
-
-      vi.mocked(mockGroupStorage.incrementUsage).mockResolvedValue(undefined);
-
       const result = await service.fillRollingWindow(config);
 
       expect(result.puzzlesCreated).toBe(2);
       expect(result.emptyDaysRemaining).toBe(0);
       expect(result.errors).toHaveLength(0);
-      expect(mockPuzzleStorage.savePuzzle).toHaveBeenCalledTimes(2);
-      expect(mockGroupStorage.incrementUsage).toHaveBeenCalledTimes(2);
+      expect(mockPuzzleStorage.createPuzzle).toHaveBeenCalledTimes(2);
+      expect(mockPuzzleStorage.createPuzzle).toHaveBeenCalledWith({
+        groupIds: ['y1', 'g1', 'b1', 'p1'],
+        genre: 'films',
+        puzzleDate: '2024-12-10',
+        status: 'published',
+      });
+      expect(mockPuzzleStorage.savePuzzle).not.toHaveBeenCalled();
+      expect(mockGroupStorage.incrementUsage).not.toHaveBeenCalled();
     });
 
     it('should handle insufficient groups gracefully', async () => {
@@ -223,19 +347,11 @@ describe('PipelineService', () => {
       ];
       vi.mocked(mockGroupStorage.listGroups).mockResolvedValue({ groups: mockGroups, total: mockGroups.length });
 
-      // Return incomplete group set (missing purple)
-      vi.mocked(mockGroupStorage.getFreshestGroupSet).mockResolvedValue({
-        yellow: createMockGroup('yellow', 'y1'),
-        green: createMockGroup('green', 'g1'),
-        blue: createMockGroup('blue', 'b1'),
-        purple: null, // No purple available
-      });
-
       const result = await service.fillRollingWindow(config);
 
       expect(result.puzzlesCreated).toBe(0);
       expect(result.emptyDaysRemaining).toBe(1);
-      // Expect 2 errors: one from getColorsNeeded (no generator configured) and one from createPuzzleForDate
+      // Expect 2 errors: one from getColorsNeeded (no generator configured) and one for the date that could not be planned
       expect(result.errors).toHaveLength(2);
       expect(result.errors.some(e => e.code === 'INSUFFICIENT_GROUPS')).toBe(true);
     });
@@ -267,21 +383,10 @@ describe('PipelineService', () => {
       ];
       vi.mocked(mockGroupStorage.listGroups).mockResolvedValue({ groups: mockGroups, total: mockGroups.length });
 
-      // Still return groups for the puzzle
-      vi.mocked(mockGroupStorage.getFreshestGroupSet).mockResolvedValue({
-        yellow: createMockGroup('yellow', 'y1'),
-        green: createMockGroup('green', 'g1'),
-        blue: createMockGroup('blue', 'b1'),
-        purple: createMockGroup('purple', 'p1'),
-      });
-
-      vi.mocked(mockPuzzleStorage.checkPuzzleExists).mockResolvedValue(false);
-      vi.mocked(mockPuzzleStorage.savePuzzle).mockResolvedValue(createMockPuzzle('p1', ['y1', 'g1', 'b1', 'p1']));
-      vi.mocked(mockPuzzleStorage.updatePuzzle).mockResolvedValue({
+      vi.mocked(mockPuzzleStorage.createPuzzle).mockResolvedValue({
         ...createMockPuzzle('p1', ['y1', 'g1', 'b1', 'p1']),
         status: 'published',
       });
-      vi.mocked(mockGroupStorage.incrementUsage).mockResolvedValue(undefined);
 
       const result = await service.fillRollingWindow(config);
 
@@ -290,96 +395,714 @@ describe('PipelineService', () => {
       expect(result.errors.some(e => e.message.includes('yellow'))).toBe(true);
     });
 
-    it('should retry when puzzle combination already exists', async () => {
-      const emptyDays = ['2024-12-10'];
-      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue(emptyDays);
+    it('should skip a planned puzzle whose combination already exists', async () => {
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue(['2024-12-10']);
 
-      const poolCounts: GroupCountsByColor = {
-        yellow: 15,
-        green: 20,
-        blue: 12,
-        purple: 10,
+      const mockGroups = ['yellow', 'green', 'blue', 'purple'].map((color) =>
+        createMockGroup(color, `${color}-1`)
+      );
+      vi.mocked(mockGroupStorage.listGroups).mockResolvedValue({ groups: mockGroups, total: mockGroups.length });
+      vi.mocked(mockPuzzleStorage.createPuzzle).mockRejectedValue(
+        new Error('Failed to create puzzle: duplicate puzzle: this group combination already exists for films')
+      );
+
+      const result = await service.fillRollingWindow(config);
+
+      expect(result.puzzlesCreated).toBe(0);
+      expect(result.emptyDaysRemaining).toBe(1);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({ date: '2024-12-10', code: 'DUPLICATE_PUZZLE' })
+      );
+    });
+
+    it('should carry on with later dates when a date was taken by a concurrent fill', async () => {
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue(['2024-12-10', '2024-12-11']);
+
+      const mockGroups = ['yellow', 'green', 'blue', 'purple'].flatMap((color) => [
+        createMockGroup(color, `${color}-1`),
+        createMockGroup(color, `${color}-2`),
+      ]);
+      vi.mocked(mockGroupStorage.listGroups).mockResolvedValue({ groups: mockGroups, total: mockGroups.length });
+      vi.mocked(mockPuzzleStorage.createPuzzle)
+        .mockRejectedValueOnce(
+          new Error('Failed to create puzzle: duplicate puzzle date: 2024-12-10 already has a films puzzle')
+        )
+        .mockImplementationOnce(async (input) => createMockPuzzle('puzzle-2', input.groupIds));
+
+      const result = await service.fillRollingWindow(config);
+
+      expect(result.puzzlesCreated).toBe(1);
+      expect(result.emptyDaysRemaining).toBe(1);
+      expect(result.errors).toEqual([
+        expect.objectContaining({ date: '2024-12-10', code: 'DUPLICATE_PUZZLE' }),
+      ]);
+    });
+  });
+
+  describe('planRollingWindow', () => {
+    const config: PipelineConfig = {
+      enabled: true,
+      rollingWindowDays: 30,
+      genre: 'films',
+      minGroupsPerColor: 10,
+      aiGenerationBatchSize: 20,
+      monthlyTokenBudget: null,
+      connectionTypeGapDays: 7,
+      autoApprovalMode: 'threshold',
+      autoApprovalThreshold: 80,
+      selfCritiqueEnabled: false,
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue(['2024-12-10', '2024-12-11']);
+    });
+
+    it('should plan from unused approved groups without writing anything', async () => {
+      const mockGroups = ['yellow', 'green', 'blue', 'purple'].flatMap((color) => [
+        createMockGroup(color, `${color}-used`),
+        createMockGroup(color, `${color}-1`),
+        createMockGroup(color, `${color}-2`),
+      ]);
+      vi.mocked(mockGroupStorage.listGroups).mockResolvedValue({ groups: mockGroups, total: mockGroups.length });
+      vi.mocked(mockPuzzleStorage.getUsedGroupIds).mockResolvedValue(
+        new Set(['yellow-used', 'green-used', 'blue-used', 'purple-used'])
+      );
+
+      const plan = await service.planRollingWindow(config);
+
+      expect(plan.puzzles.map((puzzle) => puzzle.groups.map((group) => group.id))).toEqual([
+        ['yellow-1', 'green-1', 'blue-1', 'purple-1'],
+        ['yellow-2', 'green-2', 'blue-2', 'purple-2'],
+      ]);
+      expect(plan.unplannedDates).toEqual([]);
+      expect(mockPuzzleStorage.createPuzzle).not.toHaveBeenCalled();
+    });
+
+    it('should space connection types away from scheduled puzzles', async () => {
+      const mockGroups = ['yellow', 'green', 'blue', 'purple'].flatMap((color) => [
+        { ...createMockGroup(color, `${color}-1`), connectionType: `${color}-director` },
+        createMockGroup(color, `${color}-2`),
+        createMockGroup(color, `${color}-3`),
+      ]);
+      vi.mocked(mockGroupStorage.listGroups).mockResolvedValue({ groups: mockGroups, total: mockGroups.length });
+      vi.mocked(mockPuzzleStorage.listPuzzles).mockResolvedValue({
+        puzzles: [{ ...createMockPuzzle('scheduled', ['old-yellow']), puzzleDate: '2024-12-07' }],
+        total: 1,
+      });
+      vi.mocked(mockGroupStorage.getGroupsByIds).mockResolvedValue([
+        { ...createMockGroup('yellow', 'old-yellow'), connectionType: 'yellow-director' },
+      ]);
+
+      const plan = await service.planRollingWindow(config);
+
+      expect(mockPuzzleStorage.listPuzzles).toHaveBeenCalledWith(
+        expect.objectContaining({ genre: 'films', dateFrom: '2024-12-03', dateTo: '2024-12-18' })
+      );
+      expect(plan.puzzles[0].groups.map((group) => group.id)).toEqual([
+        'yellow-2',
+        'green-1',
+        'blue-1',
+        'purple-1',
+      ]);
+    });
+  });
+
+  describe('scheduling rules', () => {
+    const config: PipelineConfig = {
+      enabled: true,
+      rollingWindowDays: 30,
+      genre: 'films',
+      minGroupsPerColor: 10,
+      aiGenerationBatchSize: 20,
+      monthlyTokenBudget: null,
+      connectionTypeGapDays: 7,
+      autoApprovalMode: 'threshold',
+      autoApprovalThreshold: 80,
+      selfCritiqueEnabled: false,
+    };
+
+    const createRule = (overrides: Partial<SchedulingRule> = {}): SchedulingRule => ({
+      id: 'rule-1',
+      createdAt: new Date('2024-12-01T00:00:00Z'),
+      genre: 'films',
+      name: 'Horror night',
+      schedule: { type: 'date', date: '2024-12-10' },
+      connectionTypes: [],
+      categories: ['thematic'],
+      tags: [],
+      minGroups: 1,
+      active: true,
+      ...overrides,
+    });
+
+    let ruleStore: ISchedulingRuleStore;
+    let connectionTypeStore: IConnectionTypeStore;
+
+    beforeEach(() => {
+      ruleStore = {
+        listRules: vi.fn().mockResolvedValue([createRule()]),
+        createRule: vi.fn(),
+        setRuleActive: vi.fn(),
+        deleteRule: vi.fn(),
       };
-      vi.mocked(mockGroupStorage.getGroupCountsByColor).mockResolvedValue(poolCounts);
+      connectionTypeStore = {
+        getAll: vi.fn().mockResolvedValue([
+          {
+            id: 'ct-1',
+            name: 'Slasher villains',
+            category: 'thematic',
+            description: '',
+            active: true,
+            createdAt: new Date(),
+            genre: 'films',
+          },
+        ]),
+      } as unknown as IConnectionTypeStore;
+      service.setSchedulingRules(ruleStore, connectionTypeStore);
 
-      let callCount = 0;
-      vi.mocked(mockGroupStorage.getFreshestGroupSet).mockImplementation(async () => {
-        callCount++;
-        return {
-          yellow: createMockGroup('yellow', `yellow-${callCount}`),
-          green: createMockGroup('green', `green-${callCount}`),
-          blue: createMockGroup('blue', `blue-${callCount}`),
-          purple: createMockGroup('purple', `purple-${callCount}`),
-        };
+      const mockGroups = ['yellow', 'green', 'blue', 'purple'].flatMap((color) => [
+        createMockGroup(color, `${color}-1`),
+        color === 'purple'
+          ? { ...createMockGroup(color, 'purple-2'), connectionType: 'Slasher villains' }
+          : createMockGroup(color, `${color}-2`),
+      ]);
+      vi.mocked(mockGroupStorage.listGroups).mockResolvedValue({ groups: mockGroups, total: mockGroups.length });
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue(['2024-12-10', '2024-12-11']);
+    });
+
+    it('should plan themed dates with the active rules of the genre', async () => {
+      const plan = await service.planRollingWindow(config);
+
+      expect(ruleStore.listRules).toHaveBeenCalledWith('films', { activeOnly: true });
+      expect(connectionTypeStore.getAll).toHaveBeenCalledWith('films');
+      expect(plan.puzzles.map((puzzle) => puzzle.groups[3].id)).toEqual(['purple-2', 'purple-1']);
+      expect(plan.unsatisfiedRules).toEqual([]);
+    });
+
+    it('should report a rule the fill cannot honour', async () => {
+      vi.mocked(ruleStore.listRules).mockResolvedValue([createRule({ minGroups: 2 })]);
+
+      const result = await service.fillRollingWindow(config, undefined, { dryRun: true });
+
+      expect(result.puzzlesCreated).toBe(2);
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toContainEqual({
+        date: '2024-12-10',
+        message: expect.stringMatching(/^Rule "Horror night" not honoured: Needs 2 matching groups/),
+        code: 'RULE_UNSATISFIED',
       });
+    });
+
+    it('should check the puzzles already scheduled on themed days', async () => {
+      const today = new Date().toISOString().split('T')[0];
+      vi.mocked(ruleStore.listRules).mockResolvedValue([
+        createRule({ schedule: { type: 'weekly', weekdays: [0, 1, 2, 3, 4, 5, 6] } }),
+      ]);
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue([]);
+      vi.mocked(mockPuzzleStorage.listPuzzles).mockResolvedValue({
+        puzzles: [{ ...createMockPuzzle('scheduled', ['yellow-1', 'green-1', 'blue-1', 'purple-1']), puzzleDate: today }],
+        total: 1,
+      });
+      vi.mocked(mockGroupStorage.getGroupsByIds).mockResolvedValue(
+        ['yellow', 'green', 'blue', 'purple'].map((color) => createMockGroup(color, `${color}-1`))
+      );
+
+      const unsatisfied = await service.checkSchedulingRules(config);
+
+      expect(unsatisfied).toEqual([
+        {
+          date: today,
+          ruleId: 'rule-1',
+          ruleName: 'Horror night',
+          reason: 'Scheduled puzzle: Needs 1 matching group, the puzzle has 0',
+        },
+      ]);
+    });
+
+    it('should check nothing without a rule store', async () => {
+      const plainService = new PipelineService(mockPuzzleStorage, mockGroupStorage);
+
+      expect(await plainService.checkSchedulingRules(config)).toEqual([]);
+      expect(mockPuzzleStorage.listPuzzles).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('monthly token budget', () => {
+    const budgetConfig: PipelineConfig = {
+      enabled: true,
+      rollingWindowDays: 30,
+      genre: 'films',
+      minGroupsPerColor: 10,
+      aiGenerationBatchSize: 20,
+      monthlyTokenBudget: 100000,
+      connectionTypeGapDays: 7,
+      autoApprovalMode: 'threshold',
+      autoApprovalThreshold: 80,
+      selfCritiqueEnabled: false,
+    };
 
-      // First attempt: exists, second attempt: doesn't exist
-      vi.mocked(mockPuzzleStorage.checkPuzzleExists)
-        .mockResolvedValueOnce(true) // First combo exists
-        .mockResolvedValueOnce(false); // Second combo doesn't exist
+    let mockLedger: IGenerationLedger;
+    let mockGenerator: PipelineGenerator;
 
-      vi.mocked(mockPuzzleStorage.savePuzzle).mockResolvedValue(
-        createMockPuzzle('p1', ['yellow-2', 'green-2', 'blue-2', 'purple-2'])
+    beforeEach(() => {
+      mockLedger = {
+        record: vi.fn(),
+        listEntries: vi.fn(),
+        getTokensUsed: vi.fn(),
+      };
+      mockGenerator = {
+        generateForPipeline: vi.fn().mockResolvedValue({
+          groupsGenerated: 0,
+          groupsSaved: 0,
+          groupsPending: 0,
+          errors: [],
+          warnings: [],
+          byColor: { yellow: 0, green: 0, blue: 0, purple: 0 },
+        }),
+      } as unknown as PipelineGenerator;
+
+      service = new PipelineService(mockPuzzleStorage, mockGroupStorage, mockLedger);
+      service.setGenerator(mockGenerator);
+
+      // Empty pool (listGroups default), so every color needs generation
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue(['2024-12-10']);
+    });
+
+    it('should skip generation when the budget is exhausted', async () => {
+      vi.mocked(mockLedger.getTokensUsed).mockResolvedValue(100000);
+
+      const result = await service.fillRollingWindow(budgetConfig);
+
+      expect(mockGenerator.generateForPipeline).not.toHaveBeenCalled();
+      expect(result.aiGenerationTriggered).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({ code: 'BUDGET_EXCEEDED' })
       );
-      vi.mocked(mockPuzzleStorage.updatePuzzle).mockResolvedValue({
-        ...createMockPuzzle('p1', ['yellow-2', 'green-2', 'blue-2', 'purple-2']),
-        status: 'published',
+    });
+
+    it('should generate when tokens remain in the budget', async () => {
+      vi.mocked(mockLedger.getTokensUsed).mockResolvedValue(99999);
+
+      const result = await service.fillRollingWindow(budgetConfig);
+
+      expect(mockGenerator.generateForPipeline).toHaveBeenCalled();
+      expect(result.aiGenerationTriggered).toBe(true);
+      expect(result.errors.some((e) => e.code === 'BUDGET_EXCEEDED')).toBe(false);
+    });
+
+    it('should count usage for the genre since the start of the month (UTC)', async () => {
+      vi.mocked(mockLedger.getTokensUsed).mockResolvedValue(0);
+
+      await service.fillRollingWindow(budgetConfig);
+
+      const [since, genre] = vi.mocked(mockLedger.getTokensUsed).mock.calls[0];
+      expect(since.getUTCDate()).toBe(1);
+      expect(since.getUTCHours()).toBe(0);
+      expect(genre).toBe('films');
+    });
+
+    it('should not check usage when no budget is set', async () => {
+      const result = await service.fillRollingWindow({ ...budgetConfig, monthlyTokenBudget: null });
+
+      expect(mockLedger.getTokensUsed).not.toHaveBeenCalled();
+      expect(result.aiGenerationTriggered).toBe(true);
+    });
+
+    it('should pass the auto-approval policy and report groups held for review', async () => {
+      vi.mocked(mockLedger.getTokensUsed).mockResolvedValue(0);
+      vi.mocked(mockGenerator.generateForPipeline).mockResolvedValue({
+        groupsGenerated: 4,
+        groupsSaved: 3,
+        groupsPending: 2,
+        errors: [],
+        warnings: [],
+        byColor: { yellow: 1, green: 0, blue: 0, purple: 0 },
       });
-      vi.mocked(mockGroupStorage.incrementUsage).mockResolvedValue(undefined);
+
+      const result = await service.fillRollingWindow({
+        ...budgetConfig,
+        autoApprovalMode: 'never',
+        selfCritiqueEnabled: true,
+      });
+
+      expect(mockGenerator.generateForPipeline).toHaveBeenCalledWith(
+        expect.objectContaining({
+          approvalPolicy: { mode: 'never', threshold: 80, selfCritique: true },
+        })
+      );
+      expect(result.groupsSaved).toBe(3);
+      expect(result.groupsPendingReview).toBe(2);
+      expect(result.groupsByColor.yellow.saved).toBe(1);
+    });
+  });
+
+  describe('fillRollingWindow dry run', () => {
+    const config: PipelineConfig = {
+      enabled: true,
+      rollingWindowDays: 30,
+      genre: 'films',
+      minGroupsPerColor: 10,
+      aiGenerationBatchSize: 20,
+      monthlyTokenBudget: null,
+      connectionTypeGapDays: 7,
+      autoApprovalMode: 'threshold',
+      autoApprovalThreshold: 80,
+      selfCritiqueEnabled: false,
+    };
+
+    let mockGenerator: PipelineGenerator;
+
+    beforeEach(() => {
+      mockGenerator = {
+        generateForPipeline: vi.fn(),
+      } as unknown as PipelineGenerator;
+      service.setGenerator(mockGenerator);
+
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue(['2024-12-10', '2024-12-11']);
+    });
+
+    it('should return the planned puzzles without writing anything', async () => {
+      const colors: DifficultyColor[] = ['yellow', 'green', 'blue', 'purple'];
+      const mockGroups = colors.flatMap((color) =>
+        [1, 2].map((n) => createMockGroup(color, `${color}-${n}`))
+      );
+      vi.mocked(mockGroupStorage.listGroups).mockResolvedValue({ groups: mockGroups, total: mockGroups.length });
+
+      const result = await service.fillRollingWindow(config, undefined, { dryRun: true });
+
+      expect(result.puzzlesCreated).toBe(2);
+      expect(result.preview?.plan.puzzles.map((puzzle) => puzzle.date)).toEqual(['2024-12-10', '2024-12-11']);
+      expect(mockPuzzleStorage.createPuzzle).not.toHaveBeenCalled();
+    });
+
+    it('should report the generation it would request without generating', async () => {
+      const result = await service.fillRollingWindow(config, undefined, { dryRun: true });
+
+      expect(mockGenerator.generateForPipeline).not.toHaveBeenCalled();
+      expect(mockGroupStorage.saveBatch).not.toHaveBeenCalled();
+      expect(result.aiGenerationTriggered).toBe(true);
+      expect(result.preview?.generation).toEqual({
+        groupsPerColor: 20,
+        colors: ['yellow', 'green', 'blue', 'purple'],
+      });
+      expect(result.groupsByColor.yellow).toEqual({ generated: 20, saved: 0 });
+      expect(result.preview?.plan.unplannedDates).toHaveLength(2);
+    });
+  });
+
+  describe('run history', () => {
+    const config: PipelineConfig = {
+      enabled: true,
+      rollingWindowDays: 30,
+      genre: 'films',
+      minGroupsPerColor: 0,
+      aiGenerationBatchSize: 20,
+      monthlyTokenBudget: null,
+      connectionTypeGapDays: 7,
+      autoApprovalMode: 'threshold',
+      autoApprovalThreshold: 80,
+      selfCritiqueEnabled: false,
+    };
+
+    let runLog: IPipelineRunLog;
+
+    beforeEach(() => {
+      runLog = {
+        record: vi.fn().mockResolvedValue(undefined),
+        listRuns: vi.fn(),
+        getRun: vi.fn(),
+      };
+      service.setRunLog(runLog);
+
+      const colors: DifficultyColor[] = ['yellow', 'green', 'blue', 'purple'];
+      const mockGroups = colors.map((color) => createMockGroup(color, `${color}-1`));
+      vi.mocked(mockGroupStorage.listGroups).mockResolvedValue({ groups: mockGroups, total: mockGroups.length });
+      vi.mocked(mockPuzzleStorage.createPuzzle).mockImplementation(async (input) => ({
+        ...createMockPuzzle('puzzle-1', input.groupIds),
+        puzzleDate: input.puzzleDate ?? null,
+      }));
+    });
+
+    it('should record a successful run with its puzzles and stage timings', async () => {
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue(['2024-12-10']);
+
+      await service.fillRollingWindow(config, undefined, { trigger: 'cli' });
+
+      expect(runLog.record).toHaveBeenCalledTimes(1);
+      const run = vi.mocked(runLog.record).mock.calls[0][0];
+      expect(run).toMatchObject({
+        genre: 'films',
+        trigger: 'cli',
+        status: 'success',
+        config,
+        puzzlesCreated: 1,
+        puzzles: [
+          { date: '2024-12-10', puzzleId: 'puzzle-1', groupIds: ['yellow-1', 'green-1', 'blue-1', 'purple-1'] },
+        ],
+        errors: [],
+        failureMessage: null,
+      });
+      expect(run.stageTimings.map((timing) => timing.stage)).toEqual([
+        'checking-pool',
+        'creating-puzzles',
+        'complete',
+      ]);
+      expect(run.finishedAt.getTime()).toBeGreaterThanOrEqual(run.startedAt.getTime());
+    });
+
+    it('should record a partial run when a date stays empty', async () => {
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue(['2024-12-10', '2024-12-11']);
+
+      await service.fillRollingWindow(config);
+
+      expect(runLog.record).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'partial', trigger: 'manual', emptyDaysRemaining: 1 })
+      );
+    });
+
+    it('should record a failed run and rethrow', async () => {
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockRejectedValue(new Error('Connection lost'));
+
+      await expect(service.fillRollingWindow(config)).rejects.toThrow('Connection lost');
+
+      expect(runLog.record).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'failed', failureMessage: 'Connection lost' })
+      );
+    });
+
+    it('should not record dry runs', async () => {
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue(['2024-12-10']);
+
+      await service.fillRollingWindow(config, undefined, { dryRun: true });
+
+      expect(runLog.record).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the fill when the run cannot be recorded', async () => {
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue(['2024-12-10']);
+      vi.mocked(runLog.record).mockRejectedValue(new Error('Insert failed'));
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
 
       const result = await service.fillRollingWindow(config);
 
       expect(result.puzzlesCreated).toBe(1);
-      expect(mockGroupStorage.getFreshestGroupSet).toHaveBeenCalledTimes(2);
-      expect(mockPuzzleStorage.checkPuzzleExists).toHaveBeenCalledTimes(2);
+      expect(consoleError).toHaveBeenCalledWith('Failed to record pipeline run:', expect.any(Error));
+      consoleError.mockRestore();
     });
   });
 
-  describe('createPuzzleForDate', () => {
-    it('should create and publish a puzzle', async () => {
-      const groupSet: FreshestGroupSet = {
-        yellow: createMockGroup('yellow', 'y1'),
-        green: createMockGroup('green', 'g1'),
-        blue: createMockGroup('blue', 'b1'),
-        purple: createMockGroup('purple', 'p1'),
+  describe('pipeline lock', () => {
+    const config: PipelineConfig = {
+      enabled: true,
+      rollingWindowDays: 30,
+      genre: 'films',
+      minGroupsPerColor: 0,
+      aiGenerationBatchSize: 20,
+      monthlyTokenBudget: null,
+      connectionTypeGapDays: 7,
+      autoApprovalMode: 'threshold',
+      autoApprovalThreshold: 80,
+      selfCritiqueEnabled: false,
+    };
+
+    const leaseFor = (request: PipelineLeaseRequest): PipelineLease => ({
+      genre: 'films',
+      ...request,
+      acquiredAt: new Date('2024-12-09T06:00:00Z'),
+      expiresAt: new Date('2024-12-09T06:10:00Z'),
+      isExpired: false,
+    });
+
+    let lock: IPipelineLock;
+
+    beforeEach(() => {
+      lock = {
+        acquire: vi.fn(async (_genre: string, request: PipelineLeaseRequest) => leaseFor(request)),
+        renew: vi.fn().mockResolvedValue(true),
+        release: vi.fn().mockResolvedValue(undefined),
+        getLease: vi.fn(),
       };
+      service.setLock(lock);
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue([]);
+    });
 
-      vi.mocked(mockGroupStorage.getFreshestGroupSet).mockResolvedValue(groupSet);
-      vi.mocked(mockPuzzleStorage.checkPuzzleExists).mockResolvedValue(false);
-      vi.mocked(mockPuzzleStorage.savePuzzle).mockResolvedValue(
-        createMockPuzzle('p1', ['y1', 'g1', 'b1', 'p1'])
-      );
-      vi.mocked(mockPuzzleStorage.updatePuzzle).mockResolvedValue({
-        ...createMockPuzzle('p1', ['y1', 'g1', 'b1', 'p1']),
-        puzzleDate: '2024-12-10',
-        status: 'published',
+    it('should hold the lease during the fill and release it afterwards', async () => {
+      await service.fillRollingWindow(config, undefined, { trigger: 'cron', holder: 'GitHub Actions run 42' });
+
+      const request = vi.mocked(lock.acquire).mock.calls[0][1];
+      expect(request).toMatchObject({ holder: 'GitHub Actions run 42', trigger: 'cron' });
+      expect(lock.acquire).toHaveBeenCalledWith('films', request, 10 * 60 * 1000);
+      expect(lock.release).toHaveBeenCalledWith('films', request.token);
+    });
+
+    it('should renew the lease as the fill moves through its stages', async () => {
+      const onStageChange = vi.fn();
+
+      await service.fillRollingWindow(config, onStageChange);
+
+      // One renewal per stage but the last, with the token the lease was taken with
+      const { token } = vi.mocked(lock.acquire).mock.calls[0][1];
+      const stages = onStageChange.mock.calls.map(([stage]) => stage);
+      expect(stages[stages.length - 1]).toBe('complete');
+      expect(lock.acquire).toHaveBeenCalledTimes(1);
+      expect(lock.renew).toHaveBeenCalledTimes(stages.length - 1);
+      expect(lock.renew).toHaveBeenCalledWith('films', token, 10 * 60 * 1000);
+    });
+
+    it('should wait for a pending renewal before releasing the lease', async () => {
+      const events: string[] = [];
+      vi.mocked(lock.renew).mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        events.push('renewed');
+        return true;
+      });
+      vi.mocked(lock.release).mockImplementation(async () => {
+        events.push('released');
       });
-      vi.mocked(mockGroupStorage.incrementUsage).mockResolvedValue(undefined);
 
-      const result = await service.createPuzzleForDate('2024-12-10', 'films', new Set());
+      await service.fillRollingWindow(config);
 
-      expect(result).not.toBeNull();
-      expect(result?.puzzleDate).toBe('2024-12-10');
-      expect(result?.status).toBe('published');
-      expect(mockPuzzleStorage.updatePuzzle).toHaveBeenCalledWith('p1', {
-        puzzleDate: '2024-12-10',
-        status: 'published',
+      expect(events[events.length - 1]).toBe('released');
+      expect(events.filter((event) => event === 'released')).toHaveLength(1);
+    });
+
+    it('should not renew once the fill has failed', async () => {
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockRejectedValue(new Error('Connection lost'));
+      const onStageChange = vi.fn();
+
+      await expect(service.fillRollingWindow(config, onStageChange)).rejects.toThrow('Connection lost');
+
+      // Renewed for checking-pool only, not for error
+      expect(onStageChange).toHaveBeenLastCalledWith('error', undefined);
+      expect(lock.renew).toHaveBeenCalledTimes(onStageChange.mock.calls.length - 1);
+    });
+
+    it('should refuse to fill while another fill holds the lease', async () => {
+      vi.mocked(lock.acquire).mockResolvedValue(
+        leaseFor({ token: 'other-token', holder: 'admin@example.com', trigger: 'manual' })
+      );
+
+      await expect(service.fillRollingWindow(config, undefined, { trigger: 'cron' })).rejects.toThrow(
+        'Pipeline fill already running for films: held by admin@example.com (manual)'
+      );
+      expect(mockPuzzleStorage.getEmptyDays).not.toHaveBeenCalled();
+      expect(lock.release).not.toHaveBeenCalled();
+    });
+
+    it('should release the lease when the fill fails', async () => {
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockRejectedValue(new Error('Connection lost'));
+
+      await expect(service.fillRollingWindow(config)).rejects.toThrow('Connection lost');
+
+      expect(lock.release).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not take the lease for dry runs', async () => {
+      await service.fillRollingWindow(config, undefined, { dryRun: true });
+
+      expect(lock.acquire).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('alerts', () => {
+    const config: PipelineConfig = {
+      enabled: true,
+      rollingWindowDays: 30,
+      genre: 'films',
+      minGroupsPerColor: 0,
+      aiGenerationBatchSize: 20,
+      monthlyTokenBudget: null,
+      connectionTypeGapDays: 7,
+      autoApprovalMode: 'threshold',
+      autoApprovalThreshold: 80,
+      selfCritiqueEnabled: false,
+    };
+
+    let alerter: IAlerter;
+    let runLog: IPipelineRunLog;
+
+    beforeEach(() => {
+      alerter = { check: vi.fn().mockResolvedValue({ sent: [], suppressed: [], failures: [] }) };
+      runLog = {
+        record: vi.fn().mockResolvedValue(undefined),
+        listRuns: vi.fn().mockResolvedValue([]),
+        getRun: vi.fn(),
+      };
+      service.setRunLog(runLog);
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue([]);
+    });
+
+    it('should return null without an alerter', async () => {
+      expect(await service.checkAlerts(config)).toBeNull();
+    });
+
+    it('should check the window, the pool and the latest scheduled fill', async () => {
+      service.setAlerter(alerter);
+      vi.mocked(mockPuzzleStorage.getEmptyDays).mockResolvedValue(['2024-12-10']);
+      const cronRun = { trigger: 'cron', status: 'failed', startedAt: new Date(), failureMessage: 'Boom' };
+      vi.mocked(runLog.listRuns).mockResolvedValue([
+        { trigger: 'cli', status: 'success' },
+        cronRun,
+      ] as never);
+
+      await service.checkAlerts(config);
+
+      expect(runLog.listRuns).toHaveBeenCalledWith({ genre: 'films', limit: 20 });
+      expect(alerter.check).toHaveBeenCalledWith({
+        genre: 'films',
+        today: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
+        emptyDates: ['2024-12-10'],
+        poolReserve: expect.objectContaining({ yellow: expect.objectContaining({ neededForWindow: 1 }) }),
+        forecast: expect.objectContaining({ genre: 'films' }),
+        latestCronRun: cronRun,
       });
-      expect(mockGroupStorage.incrementUsage).toHaveBeenCalledWith(['y1', 'g1', 'b1', 'p1']);
     });
 
-    it('should return null when groups are insufficient', async () => {
-      vi.mocked(mockGroupStorage.getFreshestGroupSet).mockResolvedValue({
-        yellow: createMockGroup('yellow', 'y1'),
-        green: null, // Missing!
-        blue: createMockGroup('blue', 'b1'),
-        purple: createMockGroup('purple', 'p1'),
+    it('should check alerts after a fill, including a full window', async () => {
+      service.setAlerter(alerter);
+
+      await service.fillRollingWindow(config, undefined, { trigger: 'cli' });
+
+      expect(runLog.record).toHaveBeenCalledWith(expect.objectContaining({ status: 'success' }));
+      expect(alerter.check).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a failed scheduled fill as the latest cron run', async () => {
+      service.setAlerter(alerter);
+      vi.mocked(mockPuzzleStorage.getEmptyDays)
+        .mockRejectedValueOnce(new Error('Connection lost'))
+        .mockResolvedValue([]);
+
+      await expect(service.fillRollingWindow(config, undefined, { trigger: 'cron' })).rejects.toThrow(
+        'Connection lost'
+      );
+
+      expect(runLog.listRuns).not.toHaveBeenCalled();
+      expect(vi.mocked(alerter.check).mock.calls[0][0].latestCronRun).toMatchObject({
+        trigger: 'cron',
+        status: 'failed',
+        failureMessage: 'Connection lost',
       });
+    });
 
-      const result = await service.createPuzzleForDate('2024-12-10', 'films', new Set());
+    it('should not check alerts for dry runs', async () => {
+      service.setAlerter(alerter);
 
-      expect(result).toBeNull();
-      expect(mockPuzzleStorage.savePuzzle).not.toHaveBeenCalled();
+      await service.fillRollingWindow(config, undefined, { dryRun: true });
+
+      expect(alerter.check).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the fill when alerting fails', async () => {
+      service.setAlerter(alerter);
+      vi.mocked(alerter.check).mockRejectedValue(new Error('Alert log unavailable'));
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await service.fillRollingWindow(config);
+
+      expect(result.errors).toEqual([]);
+      expect(consoleError).toHaveBeenCalledWith('Failed to check pipeline alerts:', expect.any(Error));
+      consoleError.mockRestore();
     });
   });
 });
@@ -0,0 +1,267 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PuzzleAssemblyPlanner, type AssemblyPlanInput } from '../PuzzleAssemblyPlanner';
+import type { DifficultyColor, StoredGroup } from '../../../lib/supabase/storage/IGroupStorage';
+import type { IOverlapAnalyzer, OverlapAnalysis } from '../../puzzle-analysis/types';
+import type { SchedulingRule } from '../types';
+
+const COLORS: DifficultyColor[] = ['yellow', 'green', 'blue', 'purple'];
+
+const createGroup = (
+  color: DifficultyColor,
+  id: string,
+  overrides: Partial<StoredGroup> = {}
+): StoredGroup => ({
+  id,
+  createdAt: Date.now(),
+  items: [1, 2, 3, 4].map((n) => ({ id: `${id}-${n}`, title: `${id} Item ${n}` })),
+  connection: `Connection ${id}`,
+  connectionType: `type-${id}`,
+  difficultyScore: 5000,
+  color,
+  difficulty: 'medium',
+  status: 'approved',
+  usageCount: 0,
+  lastUsedAt: null,
+  genre: 'films',
+  ...overrides,
+});
+
+/** Groups `${color}-1` ... `${color}-count` for every color */
+const createPool = (count: number): StoredGroup[] =>
+  COLORS.flatMap((color) =>
+    Array.from({ length: count }, (_, index) => createGroup(color, `${color}-${index + 1}`))
+  );
+
+const createInput = (overrides: Partial<AssemblyPlanInput> = {}): AssemblyPlanInput => ({
+  genre: 'films',
+  dates: ['2024-12-10'],
+  pool: createPool(2),
+  scheduledConnectionTypes: [],
+  connectionTypeGapDays: 7,
+  ...overrides,
+});
+
+const plannedIds = (plan: Awaited<ReturnType<PuzzleAssemblyPlanner['plan']>>) =>
+  plan.puzzles.map((puzzle) => puzzle.groups.map((group) => group.id));
+
+describe('PuzzleAssemblyPlanner', () => {
+  const planner = new PuzzleAssemblyPlanner();
+
+  it('should plan one puzzle per date without reusing groups', async () => {
+    const plan = await planner.plan(createInput({ dates: ['2024-12-11', '2024-12-10'] }));
+
+    expect(plan.puzzles.map((puzzle) => puzzle.date)).toEqual(['2024-12-10', '2024-12-11']);
+    expect(plannedIds(plan)).toEqual([
+      ['yellow-1', 'green-1', 'blue-1', 'purple-1'],
+      ['yellow-2', 'green-2', 'blue-2', 'purple-2'],
+    ]);
+  });
+
+  it('should give the freshest groups to the earliest dates', async () => {
+    const pool = createPool(2).map((group) =>
+      group.id === 'yellow-1' ? { ...group, usageCount: 2 } : group
+    );
+
+    const plan = await planner.plan(createInput({ pool, dates: ['2024-12-10', '2024-12-11'] }));
+
+    expect(plannedIds(plan).map((ids) => ids[0])).toEqual(['yellow-2', 'yellow-1']);
+  });
+
+  it('should not repeat an item within a puzzle', async () => {
+    const pool = createPool(2).map((group) =>
+      group.id === 'green-1'
+        ? { ...group, items: [{ id: 99, title: 'The Matrix' }, ...group.items.slice(1)] }
+        : group.id === 'yellow-1'
+          ? { ...group, items: [{ id: 100, title: 'Matrix, The' }, { id: 99, title: 'Matrix' }] }
+          : group
+    );
+
+    const plan = await planner.plan(createInput({ pool }));
+
+    expect(plannedIds(plan)[0]).toEqual(['yellow-1', 'green-2', 'blue-1', 'purple-1']);
+  });
+
+  it('should not repeat a connection type within a puzzle', async () => {
+    const pool = createPool(2).map((group) =>
+      group.id === 'blue-1' ? { ...group, connectionType: 'type-yellow-1' } : group
+    );
+
+    const plan = await planner.plan(createInput({ pool }));
+
+    expect(plannedIds(plan)[0]).toEqual(['yellow-1', 'green-1', 'blue-2', 'purple-1']);
+  });
+
+  it('should keep a connection type out of puzzles within the gap', async () => {
+    const pool = createPool(2).map((group) =>
+      group.id === 'green-2' ? { ...group, connectionType: 'type-yellow-1' } : group
+    );
+
+    const plan = await planner.plan(createInput({ pool, dates: ['2024-12-10', '2024-12-12'] }));
+
+    expect(plan.puzzles).toHaveLength(1);
+    expect(plan.unplannedDates).toEqual([
+      {
+        date: '2024-12-12',
+        reason: 'No group combination satisfies the item and connection type constraints',
+      },
+    ]);
+  });
+
+  it('should count puzzles already scheduled near the window', async () => {
+    const plan = await planner.plan(
+      createInput({
+        scheduledConnectionTypes: [
+          { date: '2024-12-04', connectionType: 'type-yellow-1' },
+          { date: '2024-12-03', connectionType: 'type-green-1' },
+        ],
+      })
+    );
+
+    // 6 days after type-yellow-1 is inside the gap, 7 days after type-green-1 is not
+    expect(plannedIds(plan)[0]).toEqual(['yellow-2', 'green-1', 'blue-1', 'purple-1']);
+  });
+
+  it('should report the color that ran out', async () => {
+    const pool = createPool(1).filter((group) => group.color !== 'blue');
+
+    const plan = await planner.plan(createInput({ pool }));
+
+    expect(plan.puzzles).toEqual([]);
+    expect(plan.unplannedDates).toEqual([{ date: '2024-12-10', reason: 'No unused blue groups left' }]);
+  });
+
+  it('should ignore groups that are not approved', async () => {
+    const pool = createPool(2).map((group) =>
+      group.id === 'purple-1' ? { ...group, status: 'pending' as const } : group
+    );
+
+    const plan = await planner.plan(createInput({ pool }));
+
+    expect(plannedIds(plan)[0][3]).toBe('purple-2');
+  });
+
+  describe('with scheduling rules', () => {
+    const createRule = (overrides: Partial<SchedulingRule> = {}): SchedulingRule => ({
+      id: 'rule-1',
+      createdAt: new Date('2024-12-01T00:00:00Z'),
+      genre: 'films',
+      name: 'Horror night',
+      schedule: { type: 'date', date: '2024-12-10' },
+      connectionTypes: [],
+      categories: [],
+      tags: ['horror'],
+      minGroups: 1,
+      active: true,
+      ...overrides,
+    });
+
+    const themedPool = () =>
+      createPool(2).map((group) => {
+        if (group.id === 'purple-2') return { ...group, metadata: { tags: ['Horror'] } };
+        if (group.id === 'blue-2') return { ...group, connectionType: 'Slasher villains' };
+        return group;
+      });
+
+    it('should pick matching groups on a themed date only', async () => {
+      const plan = await planner.plan(
+        createInput({ pool: themedPool(), dates: ['2024-12-10', '2024-12-11'], rules: [createRule()] })
+      );
+
+      expect(plannedIds(plan)).toEqual([
+        ['yellow-1', 'green-1', 'blue-1', 'purple-2'],
+        ['yellow-2', 'green-2', 'blue-2', 'purple-1'],
+      ]);
+      expect(plan.unsatisfiedRules).toEqual([]);
+    });
+
+    it('should find enough matching groups by type, category and tag', async () => {
+      const rule = createRule({ categories: ['thematic'], minGroups: 2 });
+
+      const plan = await planner.plan(
+        createInput({
+          pool: themedPool(),
+          rules: [rule],
+          connectionCategories: new Map([['Slasher villains', 'thematic']]),
+        })
+      );
+
+      expect(plannedIds(plan)[0]).toEqual(['yellow-1', 'green-1', 'blue-2', 'purple-2']);
+    });
+
+    it('should plan without the theme and report a rule it cannot honour', async () => {
+      const rule = createRule({ minGroups: 2 });
+
+      const plan = await planner.plan(createInput({ pool: themedPool(), rules: [rule] }));
+
+      expect(plannedIds(plan)[0]).toEqual(['yellow-1', 'green-1', 'blue-1', 'purple-1']);
+      expect(plan.unsatisfiedRules).toEqual([
+        {
+          date: '2024-12-10',
+          ruleId: 'rule-1',
+          ruleName: 'Horror night',
+          reason:
+            'Needs 2 matching groups, the puzzle has 0; not enough unused matching groups fit the item and connection type constraints',
+        },
+      ]);
+    });
+
+    it('should ignore inactive rules', async () => {
+      const plan = await planner.plan(
+        createInput({ pool: themedPool(), rules: [createRule({ active: false })] })
+      );
+
+      expect(plannedIds(plan)[0]).toEqual(['yellow-1', 'green-1', 'blue-1', 'purple-1']);
+    });
+  });
+
+  describe('with an overlap analyzer', () => {
+    const createAnalysis = (overrides: Partial<OverlapAnalysis>): OverlapAnalysis => ({
+      misdirectionScore: 50,
+      verdict: 'healthy',
+      decoys: [],
+      ambiguities: [],
+      ...overrides,
+    });
+
+    it('should skip ambiguous sets and attach the analysis', async () => {
+      const analyzer: IOverlapAnalyzer = {
+        analyze: vi
+          .fn()
+          .mockResolvedValueOnce(createAnalysis({ verdict: 'ambiguous' }))
+          .mockResolvedValueOnce(createAnalysis({ verdict: 'healthy', misdirectionScore: 75 })),
+      };
+
+      const plan = await new PuzzleAssemblyPlanner(analyzer).plan(createInput());
+
+      expect(plannedIds(plan)[0]).toEqual(['yellow-1', 'green-1', 'blue-1', 'purple-2']);
+      expect(plan.puzzles[0].analysis?.misdirectionScore).toBe(75);
+    });
+
+    it('should settle for the best flat set', async () => {
+      const analyzer: IOverlapAnalyzer = {
+        analyze: vi
+          .fn()
+          .mockResolvedValueOnce(createAnalysis({ verdict: 'flat', misdirectionScore: 0 }))
+          .mockResolvedValueOnce(createAnalysis({ verdict: 'flat', misdirectionScore: 25 }))
+          .mockResolvedValueOnce(createAnalysis({ verdict: 'flat', misdirectionScore: 0 })),
+      };
+
+      const plan = await new PuzzleAssemblyPlanner(analyzer).plan(createInput());
+
+      expect(analyzer.analyze).toHaveBeenCalledTimes(3);
+      expect(plannedIds(plan)[0]).toEqual(['yellow-1', 'green-1', 'blue-1', 'purple-2']);
+    });
+
+    it('should leave a date unplanned when every set is ambiguous', async () => {
+      const analyzer: IOverlapAnalyzer = {
+        analyze: vi.fn().mockResolvedValue(createAnalysis({ verdict: 'ambiguous' })),
+      };
+
+      const plan = await new PuzzleAssemblyPlanner(analyzer).plan(createInput({ pool: createPool(1) }));
+
+      expect(plan.unplannedDates).toEqual([
+        { date: '2024-12-10', reason: 'Every valid group combination has an item that fits two groups' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SchedulingRuleStore } from '../SchedulingRuleStore';
+import { awaitable } from '../../../test/supabaseQueryMock';
+import type { SchedulingRuleInput } from '../types';
+
+// Create mock functions
+const mockSelect = vi.fn();
+const mockInsert = vi.fn();
+const mockUpdate = vi.fn();
+const mockDelete = vi.fn();
+const mockEq = vi.fn();
+const mockOrder = vi.fn();
+const mockSingle = vi.fn();
+const mockFrom = vi.fn();
+
+// Create mock Supabase client
+const mockSupabase = {
+  from: mockFrom,
+} as unknown as SupabaseClient;
+
+describe('SchedulingRuleStore', () => {
+  let store: SchedulingRuleStore;
+
+  const rule: SchedulingRuleInput = {
+    genre: 'films',
+    name: 'Horror Fridays',
+    schedule: { type: 'weekly', weekdays: [5] },
+    connectionTypes: ['Slasher villains'],
+    categories: ['thematic'],
+    tags: ['horror'],
+    minGroups: 2,
+    active: true,
+  };
+
+  const mockRow = {
+    id: 'rule-1',
+    created_at: '2025-03-04T10:00:00Z',
+    genre: 'films',
+    name: 'Horror Fridays',
+    schedule: { type: 'weekly', weekdays: [5] },
+    connection_types: ['Slasher villains'],
+    categories: ['thematic'],
+    tags: ['horror'],
+    min_groups: 2,
+    active: true,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = new SchedulingRuleStore(mockSupabase);
+
+    const chain = { eq: mockEq, order: mockOrder, select: mockSelect, single: mockSingle };
+
+    mockFrom.mockReturnValue({ select: mockSelect, insert: mockInsert, update: mockUpdate, delete: mockDelete });
+    mockSelect.mockReturnValue(chain);
+    mockInsert.mockReturnValue(chain);
+    mockUpdate.mockReturnValue(chain);
+    mockDelete.mockReturnValue(chain);
+    mockEq.mockReturnValue(chain);
+    mockOrder.mockReturnValue(awaitable({ data: [mockRow], error: null }, chain));
+    mockSingle.mockResolvedValue({ data: mockRow, error: null });
+  });
+
+  describe('listRules', () => {
+    it('should list the genre rules oldest first, mapped to SchedulingRule', async () => {
+      const rules = await store.listRules('films');
+
+      expect(mockFrom).toHaveBeenCalledWith('scheduling_rules');
+      expect(mockEq).toHaveBeenCalledWith('genre', 'films');
+      expect(mockEq).not.toHaveBeenCalledWith('active', true);
+      expect(mockOrder).toHaveBeenCalledWith('created_at', { ascending: true });
+      expect(rules).toEqual([{ ...rule, id: 'rule-1', createdAt: new Date('2025-03-04T10:00:00Z') }]);
+    });
+
+    it('should only list active rules when asked', async () => {
+      const ordered = awaitable({ data: [mockRow], error: null }, { eq: mockEq });
+      mockOrder.mockReturnValue(ordered);
+      mockEq.mockReturnValueOnce({ order: mockOrder }).mockReturnValueOnce(ordered);
+
+      await store.listRules('films', { activeOnly: true });
+
+      expect(mockEq).toHaveBeenCalledWith('active', true);
+    });
+
+    it('should default missing arrays to empty', async () => {
+      mockOrder.mockResolvedValue({
+        data: [{ ...mockRow, connection_types: null, categories: null, tags: null }],
+        error: null,
+      });
+
+      const [stored] = await store.listRules('films');
+
+      expect(stored.connectionTypes).toEqual([]);
+      expect(stored.categories).toEqual([]);
+      expect(stored.tags).toEqual([]);
+    });
+
+    it('should throw when the query fails', async () => {
+      mockOrder.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+
+      await expect(store.listRules('films')).rejects.toThrow('Failed to list scheduling rules: permission denied');
+    });
+  });
+
+  describe('createRule', () => {
+    it('should insert the rule as a snake_case row', async () => {
+      const created = await store.createRule(rule);
+
+      expect(mockInsert).toHaveBeenCalledWith({
+        genre: 'films',
+        name: 'Horror Fridays',
+        schedule: { type: 'weekly', weekdays: [5] },
+        connection_types: ['Slasher villains'],
+        categories: ['thematic'],
+        tags: ['horror'],
+        min_groups: 2,
+        active: true,
+      });
+      expect(created.id).toBe('rule-1');
+    });
+
+    it('should throw when the insert fails', async () => {
+      mockSingle.mockResolvedValue({ data: null, error: { message: 'violates check constraint' } });
+
+      await expect(store.createRule(rule)).rejects.toThrow(
+        'Failed to create scheduling rule: violates check constraint'
+      );
+    });
+  });
+
+  describe('setRuleActive', () => {
+    it('should update the active flag of the rule', async () => {
+      mockEq.mockResolvedValue({ error: null });
+
+      await store.setRuleActive('rule-1', false);
+
+      expect(mockUpdate).toHaveBeenCalledWith({ active: false });
+      expect(mockEq).toHaveBeenCalledWith('id', 'rule-1');
+    });
+  });
+
+  describe('deleteRule', () => {
+    it('should delete the rule', async () => {
+      mockEq.mockResolvedValue({ error: null });
+
+      await store.deleteRule('rule-1');
+
+      expect(mockDelete).toHaveBeenCalled();
+      expect(mockEq).toHaveBeenCalledWith('id', 'rule-1');
+    });
+
+    it('should throw when the delete fails', async () => {
+      mockEq.mockResolvedValue({ error: { message: 'not found' } });
+
+      await expect(store.deleteRule('rule-1')).rejects.toThrow('Failed to delete scheduling rule: not found');
+    });
+  });
+});
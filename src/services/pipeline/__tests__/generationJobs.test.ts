@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  STALE_GENERATION_JOB_MS,
+  getGenerationJobProgress,
+  getRetryDelay,
+  isGenerationJobResumable,
+  planGenerationChunks,
+  summarizeGenerationJob,
+} from '../generationJobs';
+import type { GenerationJob, GenerationJobChunk } from '../types';
+
+const NOW = new Date('2025-03-04T12:00:00Z').getTime();
+
+const createChunk = (overrides: Partial<GenerationJobChunk> = {}): GenerationJobChunk => ({
+  color: 'purple',
+  count: 10,
+  status: 'pending',
+  attempts: 0,
+  generated: 0,
+  saved: 0,
+  pending: 0,
+  errors: [],
+  ...overrides,
+});
+
+const createJob = (overrides: Partial<GenerationJob> = {}): GenerationJob => ({
+  id: 'job-1',
+  genre: 'films',
+  trigger: 'manual',
+  status: 'running',
+  approvalPolicy: { mode: 'threshold', threshold: 80, selfCritique: false },
+  chunks: [createChunk()],
+  createdAt: new Date(NOW - 60 * 1000),
+  updatedAt: new Date(NOW - 60 * 1000),
+  finishedAt: null,
+  failureMessage: null,
+  ...overrides,
+});
+
+describe('generationJobs', () => {
+  describe('planGenerationChunks', () => {
+    it('should split each color into chunks of at most the chunk size', () => {
+      const chunks = planGenerationChunks(['yellow', 'purple'], 25, 10);
+
+      expect(chunks.map(({ color, count }) => [color, count])).toEqual([
+        ['yellow', 10],
+        ['yellow', 10],
+        ['yellow', 5],
+        ['purple', 10],
+        ['purple', 10],
+        ['purple', 5],
+      ]);
+      expect(chunks.every((chunk) => chunk.status === 'pending' && chunk.attempts === 0)).toBe(true);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the delay after each failed attempt', () => {
+      const policy = { maxAttempts: 4, baseDelayMs: 500 };
+
+      expect([1, 2, 3].map((attempt) => getRetryDelay(policy, attempt))).toEqual([500, 1000, 2000]);
+    });
+  });
+
+  describe('isGenerationJobResumable', () => {
+    it('should resume failed jobs and running jobs that stopped checkpointing', () => {
+      const stale = new Date(NOW - STALE_GENERATION_JOB_MS - 1);
+
+      expect(isGenerationJobResumable(createJob({ status: 'failed' }), NOW)).toBe(true);
+      expect(isGenerationJobResumable(createJob({ updatedAt: stale }), NOW)).toBe(true);
+      expect(isGenerationJobResumable(createJob(), NOW)).toBe(false);
+      expect(isGenerationJobResumable(createJob({ status: 'completed', updatedAt: stale }), NOW)).toBe(false);
+    });
+  });
+
+  describe('progress and summary', () => {
+    const job = createJob({
+      status: 'failed',
+      chunks: [
+        createChunk({ color: 'blue', status: 'completed', generated: 10, saved: 8, pending: 2, warnings: ['Dup'] }),
+        createChunk({ color: 'purple', count: 5, status: 'failed', errors: ['Attempt 3 failed: timeout'] }),
+      ],
+    });
+
+    it('should count generated groups against requested groups', () => {
+      expect(getGenerationJobProgress(job)).toEqual({ current: 10, total: 15 });
+    });
+
+    it('should total the chunks and tag their errors and warnings with the color', () => {
+      expect(summarizeGenerationJob(job)).toEqual({
+        groupsGenerated: 10,
+        groupsSaved: 8,
+        groupsPending: 2,
+        errors: ['[purple] Attempt 3 failed: timeout'],
+        warnings: ['[blue] Dup'],
+        byColor: { yellow: 0, green: 0, blue: 6, purple: 0 },
+      });
+    });
+  });
+});
@@ -0,0 +1,617 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CLI_EXIT_CODES, exitCodeForErrors, runPipelineCli, type PipelineCliServices } from '../pipelineCli';
+import type { PipelineService } from '../PipelineService';
+import type { PipelineGenerator } from '../PipelineGenerator';
+import type { IPuzzleStorage, StoredPuzzle } from '../../../lib/supabase/storage/IPuzzleStorage';
+import type { IGroupStorage } from '../../../lib/supabase/storage/IGroupStorage';
+import type {
+  GenerationJob,
+  IGenerationJobStore,
+  ISchedulingRuleStore,
+  PipelineConfig,
+  PipelineFillResult,
+  SchedulingRule,
+  SchedulingRuleInput,
+} from '../types';
+import { DEFAULT_PIPELINE_CONFIG } from '../types';
+import type { Genre } from '../../../types';
+import type { Alert } from '../../alerting/types';
+
+const createConfig = (genre: Genre, overrides: Partial<PipelineConfig> = {}): PipelineConfig => ({
+  ...DEFAULT_PIPELINE_CONFIG,
+  genre,
+  enabled: true,
+  ...overrides,
+});
+
+const createFillResult = (overrides: Partial<PipelineFillResult> = {}): PipelineFillResult => ({
+  puzzlesCreated: 3,
+  emptyDaysRemaining: 0,
+  aiGenerationTriggered: false,
+  groupsGenerated: 0,
+  groupsSaved: 0,
+  groupsPendingReview: 0,
+  groupsByColor: {
+    yellow: { generated: 0, saved: 0 },
+    green: { generated: 0, saved: 0 },
+    blue: { generated: 0, saved: 0 },
+    purple: { generated: 0, saved: 0 },
+  },
+  errors: [],
+  warnings: [],
+  createdPuzzles: [],
+  ...overrides,
+});
+
+const createJob = (overrides: Partial<GenerationJob> = {}): GenerationJob => ({
+  id: 'job-1',
+  genre: 'music',
+  trigger: 'cron',
+  status: 'failed',
+  approvalPolicy: { mode: 'threshold', threshold: 80, selfCritique: false },
+  chunks: [
+    { color: 'purple', count: 10, status: 'completed', attempts: 1, generated: 10, saved: 9, pending: 0, errors: [] },
+    { color: 'purple', count: 10, status: 'failed', attempts: 3, generated: 0, saved: 0, pending: 0, errors: [] },
+  ],
+  createdAt: new Date('2025-03-01T10:00:00Z'),
+  updatedAt: new Date('2025-03-01T10:05:00Z'),
+  finishedAt: new Date('2025-03-01T10:05:00Z'),
+  failureMessage: null,
+  ...overrides,
+});
+
+const ruleInput: SchedulingRuleInput = {
+  genre: 'films',
+  name: 'Halloween week',
+  schedule: { type: 'yearly', from: '10-25', to: '10-31' },
+  connectionTypes: [],
+  categories: [],
+  tags: ['horror'],
+  minGroups: 2,
+  active: true,
+};
+
+const createRule = (overrides: Partial<SchedulingRule> = {}): SchedulingRule => ({
+  id: 'rule-1',
+  createdAt: new Date('2025-03-01T10:00:00Z'),
+  ...ruleInput,
+  ...overrides,
+});
+
+const createPuzzle = (id: string, puzzleDate: string | null): StoredPuzzle => ({
+  id,
+  createdAt: Date.now(),
+  puzzleDate,
+  title: null,
+  groupIds: [],
+  status: 'published',
+  genre: 'films',
+  source: 'system',
+});
+
+describe('runPipelineCli', () => {
+  let puzzleStorage: IPuzzleStorage;
+  let groupStorage: IGroupStorage;
+  let pipelineService: PipelineService;
+  let generator: PipelineGenerator;
+  let jobStore: IGenerationJobStore;
+  let ruleStore: ISchedulingRuleStore;
+  let services: PipelineCliServices;
+  let configs: Record<Genre, PipelineConfig>;
+
+  beforeEach(() => {
+    configs = {
+      films: createConfig('films'),
+      music: createConfig('music'),
+      books: createConfig('books', { enabled: false }),
+      sports: createConfig('sports', { enabled: false }),
+    };
+    puzzleStorage = {
+      getPuzzle: vi.fn(),
+      listPuzzles: vi.fn().mockResolvedValue({ puzzles: [], total: 0 }),
+      batchUpdatePuzzles: vi.fn().mockResolvedValue(undefined),
+      getReleaseSettings: vi.fn().mockResolvedValue({ timeZone: 'UTC', releaseHour: 0 }),
+      updateReleaseSettings: vi.fn().mockImplementation(async (_genre, settings) => settings),
+    } as unknown as IPuzzleStorage;
+    groupStorage = {
+      listGroups: vi.fn().mockResolvedValue({ groups: [], total: 0 }),
+      getGroupCountsByColor: vi.fn().mockResolvedValue({ yellow: 5, green: 5, blue: 5, purple: 5 }),
+    } as unknown as IGroupStorage;
+    pipelineService = {
+      setGenerator: vi.fn(),
+      fillRollingWindow: vi.fn().mockResolvedValue(createFillResult()),
+      getPoolReserve: vi.fn(),
+      getTokenBudgetStatus: vi.fn().mockResolvedValue(null),
+      checkAlerts: vi.fn().mockResolvedValue({ sent: [], suppressed: [], failures: [] }),
+      checkSchedulingRules: vi.fn().mockResolvedValue([]),
+    } as unknown as PipelineService;
+    generator = {
+      generateForPipeline: vi.fn().mockResolvedValue({
+        groupsGenerated: 5,
+        groupsSaved: 4,
+        groupsPending: 1,
+        errors: [],
+        warnings: [],
+        byColor: { yellow: 0, green: 0, blue: 0, purple: 3 },
+      }),
+      resumeJob: vi.fn().mockResolvedValue({
+        groupsGenerated: 10,
+        groupsSaved: 19,
+        groupsPending: 0,
+        errors: [],
+        warnings: [],
+        byColor: { yellow: 0, green: 0, blue: 0, purple: 19 },
+        jobId: 'job-1',
+      }),
+    } as unknown as PipelineGenerator;
+    jobStore = {
+      create: vi.fn(),
+      checkpoint: vi.fn(),
+      getJob: vi.fn().mockResolvedValue(createJob()),
+      listJobs: vi.fn().mockResolvedValue([createJob()]),
+    };
+    ruleStore = {
+      listRules: vi.fn(async (genre: Genre) => (genre === 'films' ? [createRule()] : [])),
+      createRule: vi.fn(async (rule) => ({ ...rule, id: 'rule-2', createdAt: new Date() })),
+      setRuleActive: vi.fn(),
+      deleteRule: vi.fn().mockResolvedValue(undefined),
+    };
+    services = {
+      puzzleStorage,
+      groupStorage,
+      configStore: { getConfig: vi.fn(async (genre: Genre) => configs[genre]) },
+      pipelineService,
+      createGenerator: vi.fn(() => generator),
+      jobStore,
+      ruleStore,
+      trigger: 'cli',
+      holder: 'ops@host',
+      log: vi.fn(),
+    };
+  });
+
+  describe('exitCodeForErrors', () => {
+    it('should pick the most severe pipeline error', () => {
+      expect(exitCodeForErrors([])).toBe(CLI_EXIT_CODES.OK);
+      expect(exitCodeForErrors(['INSUFFICIENT_GROUPS', 'STORAGE_ERROR', 'DUPLICATE_PUZZLE'])).toBe(14);
+      expect(exitCodeForErrors(['GENERATION_FAILED', 'INSUFFICIENT_GROUPS'])).toBe(13);
+    });
+  });
+
+  describe('fill', () => {
+    it('should fill enabled genres and skip the rest', async () => {
+      const result = await runPipelineCli({ name: 'fill', genre: null, days: null, dryRun: false }, services);
+
+      expect(pipelineService.fillRollingWindow).toHaveBeenCalledTimes(2);
+      expect(pipelineService.fillRollingWindow).toHaveBeenCalledWith(configs.films, undefined, {
+        dryRun: false,
+        trigger: 'cli',
+        holder: 'ops@host',
+      });
+      expect(result.exitCode).toBe(CLI_EXIT_CODES.OK);
+      expect(result.data).toMatchObject({
+        genres: [
+          { genre: 'films', status: 'filled' },
+          { genre: 'music', status: 'filled' },
+          { genre: 'books', status: 'skipped' },
+          { genre: 'sports', status: 'skipped' },
+        ],
+      });
+    });
+
+    it('should fill a named genre for the given days even when auto-fill is off', async () => {
+      await runPipelineCli({ name: 'fill', genre: 'books', days: 7, dryRun: true }, services);
+
+      expect(pipelineService.fillRollingWindow).toHaveBeenCalledWith(
+        { ...configs.books, rollingWindowDays: 7 },
+        undefined,
+        expect.objectContaining({ dryRun: true })
+      );
+    });
+
+    it('should exit with the code of the fill errors', async () => {
+      vi.mocked(pipelineService.fillRollingWindow).mockResolvedValue(
+        createFillResult({
+          emptyDaysRemaining: 1,
+          errors: [{ date: '2025-03-05', message: 'No groups', code: 'INSUFFICIENT_GROUPS' }],
+        })
+      );
+
+      const result = await runPipelineCli({ name: 'fill', genre: 'films', days: null, dryRun: false }, services);
+
+      expect(result.exitCode).toBe(10);
+    });
+
+    it('should succeed and report warnings when groups were skipped or a rule was missed', async () => {
+      vi.mocked(pipelineService.fillRollingWindow).mockResolvedValue(
+        createFillResult({
+          warnings: [
+            { date: '', message: '[purple] Group "Heists" is a likely duplicate, skipping', code: 'GROUP_SKIPPED' },
+            { date: '2025-10-31', message: 'Rule "Horror night" not honoured: Needs 2 matching groups', code: 'RULE_UNSATISFIED' },
+          ],
+        })
+      );
+
+      const result = await runPipelineCli({ name: 'fill', genre: 'films', days: null, dryRun: false }, services);
+
+      expect(result.exitCode).toBe(CLI_EXIT_CODES.OK);
+      expect(services.log).toHaveBeenCalledWith('  Warnings: 2');
+      expect(services.log).toHaveBeenCalledWith(
+        '    - [GROUP_SKIPPED] [purple] Group "Heists" is a likely duplicate, skipping'
+      );
+      expect(services.log).toHaveBeenCalledWith('\nOverall: SUCCESS');
+    });
+
+    it('should exit with LOCKED when another fill holds the lock', async () => {
+      vi.mocked(pipelineService.fillRollingWindow).mockRejectedValue(
+        new Error('Pipeline fill already running for films: held by admin@example.com (manual) until 2025-03-01T10:10:00.000Z')
+      );
+
+      const result = await runPipelineCli({ name: 'fill', genre: 'films', days: null, dryRun: false }, services);
+
+      expect(result.exitCode).toBe(CLI_EXIT_CODES.LOCKED);
+      expect(result.data).toMatchObject({ genres: [{ genre: 'films', status: 'failed', locked: true }] });
+    });
+
+    it('should exit with FAILED when a fill throws', async () => {
+      vi.mocked(pipelineService.fillRollingWindow).mockRejectedValue(new Error('connection reset'));
+
+      const result = await runPipelineCli({ name: 'fill', genre: 'films', days: null, dryRun: false }, services);
+
+      expect(result.exitCode).toBe(CLI_EXIT_CODES.FAILED);
+    });
+  });
+
+  describe('pool status', () => {
+    it('should report INSUFFICIENT_GROUPS when a color is short for the window', async () => {
+      vi.mocked(pipelineService.getPoolReserve).mockResolvedValue({
+        yellow: { unused: 12, neededForWindow: 4, spare: 8, target: 10 },
+        green: { unused: 12, neededForWindow: 4, spare: 8, target: 10 },
+        blue: { unused: 12, neededForWindow: 4, spare: 8, target: 10 },
+        purple: { unused: 2, neededForWindow: 4, spare: -2, target: 10 },
+      });
+
+      const result = await runPipelineCli({ name: 'pool status', genre: 'films' }, services);
+
+      expect(result.exitCode).toBe(10);
+      expect(result.data).toMatchObject({ genres: [{ genre: 'films', approved: 20, pendingReview: 0 }] });
+    });
+  });
+
+  describe('pool export', () => {
+    it('should page through the pool', async () => {
+      const page = Array.from({ length: 1000 }, (_, i) => ({ id: `g${i}`, items: [] }));
+      vi.mocked(groupStorage.listGroups)
+        .mockResolvedValueOnce({ groups: page, total: 1001 } as never)
+        .mockResolvedValueOnce({ groups: [{ id: 'g1000', items: [] }], total: 1001 } as never);
+
+      const result = await runPipelineCli({ name: 'pool export', genre: 'films', status: 'approved' }, services);
+
+      expect(groupStorage.listGroups).toHaveBeenLastCalledWith({
+        genre: 'films',
+        status: 'approved',
+        limit: 1000,
+        offset: 1000,
+      });
+      expect((result.data as { groups: unknown[] }).groups).toHaveLength(1001);
+    });
+  });
+
+  describe('puzzles unschedule', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ now: new Date('2025-02-27T12:00:00Z') });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should unschedule every puzzle in the range', async () => {
+      vi.mocked(puzzleStorage.listPuzzles).mockResolvedValue({
+        puzzles: [createPuzzle('p2', '2025-03-02'), createPuzzle('p1', '2025-03-01')],
+        total: 2,
+      });
+
+      const result = await runPipelineCli(
+        {
+          name: 'puzzles unschedule',
+          genre: 'films',
+          range: { from: '2025-03-01', to: '2025-03-02' },
+          ids: [],
+          dryRun: false,
+        },
+        services
+      );
+
+      expect(puzzleStorage.batchUpdatePuzzles).toHaveBeenCalledWith([
+        { id: 'p1', updates: { puzzleDate: null, status: 'approved' } },
+        { id: 'p2', updates: { puzzleDate: null, status: 'approved' } },
+      ]);
+      expect(result.exitCode).toBe(CLI_EXIT_CODES.OK);
+    });
+
+    it('should only list the puzzles on a dry run and fail on unknown ids', async () => {
+      vi.mocked(puzzleStorage.getPuzzle).mockImplementation(async (id) =>
+        id === 'p1' ? createPuzzle('p1', '2025-03-01') : null
+      );
+
+      const result = await runPipelineCli(
+        { name: 'puzzles unschedule', genre: null, range: null, ids: ['p1', 'missing'], dryRun: true },
+        services
+      );
+
+      expect(puzzleStorage.batchUpdatePuzzles).not.toHaveBeenCalled();
+      expect(result.exitCode).toBe(CLI_EXIT_CODES.FAILED);
+      expect(result.data).toMatchObject({ unscheduled: [{ id: 'p1' }], missingIds: ['missing'] });
+    });
+
+    it('should skip puzzles on today or earlier in a range spanning today', async () => {
+      vi.mocked(puzzleStorage.listPuzzles).mockResolvedValue({
+        puzzles: [
+          createPuzzle('p-past', '2025-02-26'),
+          createPuzzle('p-today', '2025-02-27'),
+          createPuzzle('p-future', '2025-02-28'),
+        ],
+        total: 3,
+      });
+
+      const result = await runPipelineCli(
+        {
+          name: 'puzzles unschedule',
+          genre: 'films',
+          range: { from: '2025-02-26', to: '2025-02-28' },
+          ids: [],
+          dryRun: false,
+        },
+        services
+      );
+
+      expect(puzzleStorage.batchUpdatePuzzles).toHaveBeenCalledWith([
+        { id: 'p-future', updates: { puzzleDate: null, status: 'approved' } },
+      ]);
+      expect(services.log).toHaveBeenCalledWith('Skipped 2 puzzle(s) on today or earlier (already live)');
+      expect(result.exitCode).toBe(CLI_EXIT_CODES.OK);
+      expect(result.data).toMatchObject({
+        unscheduled: [{ id: 'p-future' }],
+        skipped: [{ id: 'p-past' }, { id: 'p-today' }],
+      });
+    });
+  });
+
+  describe('generate', () => {
+    it('should generate with the genre approval policy and batch size', async () => {
+      const result = await runPipelineCli(
+        { name: 'generate', genre: 'films', colors: ['purple'], count: null },
+        services
+      );
+
+      expect(generator.generateForPipeline).toHaveBeenCalledWith({
+        genre: 'films',
+        groupsPerColor: DEFAULT_PIPELINE_CONFIG.aiGenerationBatchSize,
+        colorsNeeded: ['purple'],
+        approvalPolicy: { mode: 'threshold', threshold: 80, selfCritique: false },
+        onStageChange: expect.any(Function),
+        jobStore,
+        trigger: 'cli',
+      });
+      expect(result.exitCode).toBe(CLI_EXIT_CODES.OK);
+    });
+
+    it('should not generate once the token budget is spent', async () => {
+      vi.mocked(pipelineService.getTokenBudgetStatus).mockResolvedValue({
+        budget: 1000,
+        used: 1200,
+        remaining: 0,
+        exhausted: true,
+      });
+
+      const result = await runPipelineCli({ name: 'generate', genre: 'films', colors: ['purple'], count: 5 }, services);
+
+      expect(generator.generateForPipeline).not.toHaveBeenCalled();
+      expect(result.exitCode).toBe(12);
+    });
+
+    it('should exit with GENERATION_FAILED when generation reports errors', async () => {
+      vi.mocked(generator.generateForPipeline).mockResolvedValue({
+        groupsGenerated: 0,
+        groupsSaved: 0,
+        groupsPending: 0,
+        errors: ['No active connection types found for genre'],
+        warnings: [],
+        byColor: { yellow: 0, green: 0, blue: 0, purple: 0 },
+      });
+
+      const result = await runPipelineCli({ name: 'generate', genre: 'films', colors: ['purple'], count: 5 }, services);
+
+      expect(result.exitCode).toBe(13);
+    });
+  });
+
+  describe('jobs', () => {
+    it('should list jobs with their progress', async () => {
+      const result = await runPipelineCli({ name: 'jobs list', genre: 'music', status: null }, services);
+
+      expect(jobStore.listJobs).toHaveBeenCalledWith({ genre: 'music', status: undefined });
+      expect(result.data).toMatchObject({
+        jobs: [
+          {
+            id: 'job-1',
+            status: 'failed',
+            groupsGenerated: 10,
+            groupsRequested: 20,
+            chunksCompleted: 1,
+            chunks: 2,
+            resumable: true,
+          },
+        ],
+      });
+    });
+
+    it('should resume a failed job with the generator for its genre', async () => {
+      const result = await runPipelineCli({ name: 'jobs resume', id: 'job-1' }, services);
+
+      expect(services.createGenerator).toHaveBeenCalledWith('music');
+      expect(generator.resumeJob).toHaveBeenCalledWith('job-1', jobStore, expect.any(Function));
+      expect(result.exitCode).toBe(CLI_EXIT_CODES.OK);
+      expect(result.data).toMatchObject({ genre: 'music', groupsSaved: 19, jobId: 'job-1' });
+    });
+
+    it('should not resume missing, complete or running jobs', async () => {
+      vi.mocked(jobStore.getJob)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(createJob({ status: 'completed' }))
+        .mockResolvedValueOnce(createJob({ status: 'running', updatedAt: new Date() }));
+
+      for (const error of ['not found', 'is already complete', 'is still running']) {
+        const result = await runPipelineCli({ name: 'jobs resume', id: 'job-1' }, services);
+        expect(result.exitCode).toBe(CLI_EXIT_CODES.FAILED);
+        expect(result.data).toMatchObject({ error: expect.stringContaining(error) });
+      }
+      expect(generator.resumeJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('alerts check', () => {
+    const gapAlert: Alert = {
+      rule: 'calendar-gap',
+      severity: 'critical',
+      genre: 'films',
+      key: 'calendar-gap:films:2025-03-11:critical',
+      title: 'films: no puzzle scheduled tomorrow',
+      message: 'The first empty day is 2025-03-11',
+      details: {},
+    };
+
+    it('should check enabled genres and report what was sent', async () => {
+      vi.mocked(pipelineService.checkAlerts).mockResolvedValueOnce({
+        sent: [gapAlert],
+        suppressed: [],
+        failures: [],
+      });
+
+      const result = await runPipelineCli({ name: 'alerts check', genre: null }, services);
+
+      expect(pipelineService.checkAlerts).toHaveBeenCalledTimes(2);
+      expect(pipelineService.checkAlerts).toHaveBeenCalledWith(configs.films);
+      expect(pipelineService.checkAlerts).toHaveBeenCalledWith(configs.music);
+      expect(services.log).toHaveBeenCalledWith('  - [critical] films: no puzzle scheduled tomorrow');
+      expect(result.exitCode).toBe(CLI_EXIT_CODES.OK);
+      expect(result.data).toMatchObject({
+        checks: [
+          { genre: 'films', sent: [gapAlert] },
+          { genre: 'music', sent: [] },
+        ],
+      });
+    });
+
+    it('should check a disabled genre named with --genre', async () => {
+      await runPipelineCli({ name: 'alerts check', genre: 'books' }, services);
+
+      expect(pipelineService.checkAlerts).toHaveBeenCalledWith(configs.books);
+    });
+
+    it('should fail only when an alert reached no notifier', async () => {
+      const failure = { key: gapAlert.key, notifier: 'webhook', message: 'Webhook responded with 500' };
+      vi.mocked(pipelineService.checkAlerts).mockResolvedValue({ sent: [gapAlert], suppressed: [], failures: [failure] });
+
+      const delivered = await runPipelineCli({ name: 'alerts check', genre: 'films' }, services);
+      expect(delivered.exitCode).toBe(CLI_EXIT_CODES.OK);
+
+      vi.mocked(pipelineService.checkAlerts).mockResolvedValue({ sent: [], suppressed: [], failures: [failure] });
+
+      const undelivered = await runPipelineCli({ name: 'alerts check', genre: 'films' }, services);
+      expect(undelivered.exitCode).toBe(CLI_EXIT_CODES.FAILED);
+    });
+
+    it('should throw when alerting is not configured', async () => {
+      vi.mocked(pipelineService.checkAlerts).mockResolvedValue(null);
+
+      await expect(runPipelineCli({ name: 'alerts check', genre: 'films' }, services)).rejects.toThrow(
+        'Alerting is not configured'
+      );
+    });
+  });
+
+  describe('rules', () => {
+    it('should list the rules of every genre', async () => {
+      const result = await runPipelineCli({ name: 'rules list', genre: null }, services);
+
+      expect(ruleStore.listRules).toHaveBeenCalledTimes(4);
+      expect(services.log).toHaveBeenCalledWith(
+        'rule-1  films  active  Halloween week: Every year from 10-25 to 10-31, at least 2 groups: tag horror'
+      );
+      expect(result.data).toEqual({ rules: [createRule()] });
+    });
+
+    it('should add and remove a rule', async () => {
+      const added = await runPipelineCli({ name: 'rules add', rule: ruleInput }, services);
+      expect(ruleStore.createRule).toHaveBeenCalledWith(ruleInput);
+      expect(added.data).toMatchObject({ rule: { id: 'rule-2', name: 'Halloween week' } });
+
+      await runPipelineCli({ name: 'rules remove', id: 'rule-2' }, services);
+      expect(ruleStore.deleteRule).toHaveBeenCalledWith('rule-2');
+    });
+
+    it('should report rules that cannot be honoured', async () => {
+      const unsatisfied = {
+        date: '2025-10-31',
+        ruleId: 'rule-1',
+        ruleName: 'Halloween week',
+        reason: 'Needs 2 matching groups, the puzzle has 1',
+      };
+      vi.mocked(pipelineService.checkSchedulingRules).mockImplementation(async (config) =>
+        config.genre === 'films' ? [unsatisfied] : []
+      );
+
+      const result = await runPipelineCli({ name: 'rules check', genre: null }, services);
+
+      expect(pipelineService.checkSchedulingRules).toHaveBeenCalledTimes(4);
+      expect(services.log).toHaveBeenCalledWith('films: 1 rule(s) not honoured');
+      expect(services.log).toHaveBeenCalledWith(
+        '  - 2025-10-31 "Halloween week": Needs 2 matching groups, the puzzle has 1'
+      );
+      expect(result.exitCode).toBe(9);
+    });
+
+    it('should succeed when every themed day honours its rules', async () => {
+      const result = await runPipelineCli({ name: 'rules check', genre: 'films' }, services);
+
+      expect(result.exitCode).toBe(CLI_EXIT_CODES.OK);
+      expect(result.data).toEqual({ checks: [{ genre: 'films', unsatisfied: [] }] });
+    });
+  });
+
+  describe('release', () => {
+    it('should show the rollover of each genre and its current puzzle date', async () => {
+      vi.useFakeTimers({ now: new Date('2025-03-05T03:00:00Z') });
+      vi.mocked(puzzleStorage.getReleaseSettings).mockImplementation(async (genre) =>
+        genre === 'films' ? { timeZone: 'America/New_York', releaseHour: 0 } : { timeZone: 'UTC', releaseHour: 0 }
+      );
+
+      try {
+        const result = await runPipelineCli({ name: 'release show', genre: null }, services);
+
+        expect(puzzleStorage.getReleaseSettings).toHaveBeenCalledTimes(4);
+        expect(services.log).toHaveBeenCalledWith("films: released at 00:00 America/New_York, on 2025-03-04's puzzle");
+        expect(services.log).toHaveBeenCalledWith("music: released at 00:00 UTC, on 2025-03-05's puzzle");
+        expect(result.data).toMatchObject({
+          releases: expect.arrayContaining([
+            { genre: 'films', timeZone: 'America/New_York', releaseHour: 0, currentDate: '2025-03-04' },
+          ]),
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should change the rollover of a genre', async () => {
+      const settings = { timeZone: 'Europe/London', releaseHour: 6 };
+
+      const result = await runPipelineCli({ name: 'release set', genre: 'music', settings }, services);
+
+      expect(puzzleStorage.updateReleaseSettings).toHaveBeenCalledWith('music', settings);
+      expect(services.log).toHaveBeenCalledWith('music: puzzles are released at 06:00 Europe/London');
+      expect(result.data).toEqual({ genre: 'music', ...settings });
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { PipelineCliUsageError, parsePipelineCliArgs } from '../pipelineCliArgs';
+
+const TODAY = '2025-03-01';
+
+const parse = (args: string) => parsePipelineCliArgs(args.split(' ').filter(Boolean), TODAY);
+
+describe('parsePipelineCliArgs', () => {
+  it('should show help without a command or with --help', () => {
+    expect(parse('').command).toEqual({ name: 'help' });
+    expect(parse('fill --help').command).toEqual({ name: 'help' });
+  });
+
+  it('should parse fill with every genre by default', () => {
+    expect(parse('fill')).toEqual({
+      command: { name: 'fill', genre: null, days: null, dryRun: false },
+      json: false,
+    });
+  });
+
+  it('should parse fill options in either flag form', () => {
+    expect(parse('fill --genre=music --days 7 --dry-run --json')).toEqual({
+      command: { name: 'fill', genre: 'music', days: 7, dryRun: true },
+      json: true,
+    });
+  });
+
+  it('should parse the two-word commands', () => {
+    expect(parse('pool status --genre books').command).toEqual({ name: 'pool status', genre: 'books' });
+    expect(parse('pool export --status pending').command).toEqual({
+      name: 'pool export',
+      genre: null,
+      status: 'pending',
+    });
+  });
+
+  it('should default puzzles list to the next 30 days', () => {
+    expect(parse('puzzles list').command).toEqual({
+      name: 'puzzles list',
+      genre: null,
+      from: '2025-03-01',
+      to: '2025-03-30',
+    });
+  });
+
+  it('should unschedule a date range or puzzle ids', () => {
+    expect(parse('puzzles unschedule --genre films --from 2025-03-05').command).toEqual({
+      name: 'puzzles unschedule',
+      genre: 'films',
+      range: { from: '2025-03-05', to: '2025-03-05' },
+      ids: [],
+      dryRun: false,
+    });
+    expect(parse('puzzles unschedule --id a --id b --dry-run').command).toEqual({
+      name: 'puzzles unschedule',
+      genre: null,
+      range: null,
+      ids: ['a', 'b'],
+      dryRun: true,
+    });
+  });
+
+  it('should default generate to every color', () => {
+    expect(parse('generate --genre films --count 5').command).toEqual({
+      name: 'generate',
+      genre: 'films',
+      colors: ['yellow', 'green', 'blue', 'purple'],
+      count: 5,
+    });
+    expect(parse('generate --genre films --color purple --color blue').command).toMatchObject({
+      colors: ['purple', 'blue'],
+      count: null,
+    });
+  });
+
+  it('should parse the generation job commands', () => {
+    expect(parse('jobs list').command).toEqual({ name: 'jobs list', genre: null, status: null });
+    expect(parse('jobs list --genre music --status failed').command).toEqual({
+      name: 'jobs list',
+      genre: 'music',
+      status: 'failed',
+    });
+    expect(parse('jobs resume --id job-1').command).toEqual({ name: 'jobs resume', id: 'job-1' });
+  });
+
+  it('should parse alerts check', () => {
+    expect(parse('alerts check').command).toEqual({ name: 'alerts check', genre: null });
+    expect(parse('alerts check --genre books').command).toEqual({ name: 'alerts check', genre: 'books' });
+  });
+
+  it('should parse the scheduling rule commands', () => {
+    expect(parse('rules list').command).toEqual({ name: 'rules list', genre: null });
+    expect(parse('rules check --genre films').command).toEqual({ name: 'rules check', genre: 'films' });
+    expect(parse('rules remove --id rule-1').command).toEqual({ name: 'rules remove', id: 'rule-1' });
+  });
+
+  it('should parse rules add with each kind of schedule', () => {
+    expect(
+      parse('rules add --genre films --name Halloween --yearly 10-25..10-31 --tag horror --min-groups 2').command
+    ).toEqual({
+      name: 'rules add',
+      rule: {
+        genre: 'films',
+        name: 'Halloween',
+        schedule: { type: 'yearly', from: '10-25', to: '10-31' },
+        connectionTypes: [],
+        categories: [],
+        tags: ['horror'],
+        minGroups: 2,
+        active: true,
+      },
+    });
+
+    const schedules = [
+      ['--weekday fri --weekday Friday', { type: 'weekly', weekdays: [5] }],
+      ['--date 2025-12-25', { type: 'date', date: '2025-12-25' }],
+      ['--from 2025-12-20 --to 2025-12-31', { type: 'range', from: '2025-12-20', to: '2025-12-31' }],
+      ['--yearly 12-25', { type: 'yearly', from: '12-25', to: '12-25' }],
+    ] as const;
+    for (const [flags, schedule] of schedules) {
+      const { command } = parse(`rules add --genre music --name Themed --category word-game ${flags}`);
+      expect(command).toMatchObject({ rule: { schedule, categories: ['word-game'], minGroups: 1 } });
+    }
+  });
+
+  it('should parse the release commands', () => {
+    expect(parse('release show').command).toEqual({ name: 'release show', genre: null });
+    expect(parse('release set --genre films --timezone America/New_York --hour 6').command).toEqual({
+      name: 'release set',
+      genre: 'films',
+      settings: { timeZone: 'America/New_York', releaseHour: 6 },
+    });
+    expect(parse('release set --genre music --timezone Europe/London').command).toMatchObject({
+      settings: { timeZone: 'Europe/London', releaseHour: 0 },
+    });
+  });
+
+  it.each([
+    ['pool', 'Unknown command: pool'],
+    ['fill --genre games', 'Unknown genre: games (expected one of films, music, books, sports)'],
+    ['fill --days 0', '--days must be a whole number from 1 to 90'],
+    ['fill --color purple', 'Unknown option for fill: --color'],
+    ['fill --genre', '--genre needs a value'],
+    ['puzzles list --from 2025-03-10 --to 2025-03-01', '--to must not be before --from'],
+    ['puzzles list --from 03/01/2025', '--from must be a date (YYYY-MM-DD)'],
+    ['puzzles unschedule --genre films', 'puzzles unschedule needs --from (and optionally --to) or --id'],
+    ['puzzles unschedule --from 2025-03-05', 'puzzles unschedule needs --genre with --from'],
+    ['puzzles unschedule --id a --from 2025-03-05', 'Use either --id or --from/--to, not both'],
+    ['generate --color purple', 'generate needs --genre'],
+    ['generate --genre films --count 101', '--count must be a whole number from 1 to 100'],
+    ['jobs list --status paused', 'Unknown status: paused (expected one of running, completed, failed)'],
+    ['jobs resume', 'jobs resume needs --id'],
+    ['rules add --genre films --tag horror --date 2025-10-31', 'rules add needs --genre and --name'],
+    ['rules add --genre films --name Halloween --tag horror', 'needs one of --date, --weekday, --from/--to or --yearly'],
+    ['rules add --genre films --name Fri --weekday fri --date 2025-10-31 --tag x', 'needs one of --date'],
+    ['rules add --genre films --name Fri --weekday friyay --tag x', 'Unknown weekday: friyay'],
+    ['rules add --genre films --name Halloween --date 2025-10-31', 'at least one connection type, category or tag'],
+    ['rules add --genre films --name Halloween --yearly 13-01 --tag horror', 'Invalid yearly range'],
+    ['rules add --genre films --name X --date 2025-10-31 --category horror', 'Unknown category: horror'],
+    ['rules add --genre films --name X --date 2025-10-31 --tag x --min-groups 5', '--min-groups must be a whole number from 1 to 4'],
+    ['rules remove', 'rules remove needs --id'],
+    ['release set --timezone UTC', 'release set needs --genre and --timezone'],
+    ['release set --genre films --timezone Mars/Olympus', 'Unknown time zone: Mars/Olympus'],
+    ['release set --genre films --timezone UTC --hour 24', '--hour must be a whole number from 0 to 23'],
+  ])('should reject "%s"', (args, message) => {
+    expect(() => parse(args)).toThrow(PipelineCliUsageError);
+    expect(() => parse(args)).toThrow(message);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffFromDefaults,
+  diffPipelineConfig,
+  formatConfigValue,
+  validatePipelineConfig,
+} from '../pipelineConfigEditing';
+import { DEFAULT_PIPELINE_CONFIG } from '../types';
+
+describe('pipelineConfigEditing', () => {
+  describe('validatePipelineConfig', () => {
+    it('should accept the defaults', () => {
+      expect(validatePipelineConfig(DEFAULT_PIPELINE_CONFIG)).toEqual({});
+    });
+
+    it('should reject out-of-range and fractional numbers', () => {
+      const errors = validatePipelineConfig({
+        rollingWindowDays: 0,
+        aiGenerationBatchSize: 31,
+        autoApprovalThreshold: 80.5,
+      });
+
+      expect(errors).toEqual({
+        rollingWindowDays: 'Rolling window (days) must be a whole number from 1 to 90',
+        aiGenerationBatchSize: 'Generation batch size must be a whole number from 1 to 30',
+        autoApprovalThreshold: 'Auto-approval threshold must be a whole number from 0 to 100',
+      });
+    });
+
+    it('should allow no token budget but not a zero one', () => {
+      expect(validatePipelineConfig({ monthlyTokenBudget: null })).toEqual({});
+      expect(validatePipelineConfig({ monthlyTokenBudget: 0 }).monthlyTokenBudget).toBeDefined();
+    });
+
+    it('should reject blank numbers', () => {
+      expect(validatePipelineConfig({ minGroupsPerColor: NaN }).minGroupsPerColor).toBeDefined();
+    });
+  });
+
+  describe('diffPipelineConfig', () => {
+    it('should list changed fields in editor order', () => {
+      const changes = diffPipelineConfig(DEFAULT_PIPELINE_CONFIG, {
+        ...DEFAULT_PIPELINE_CONFIG,
+        selfCritiqueEnabled: true,
+        rollingWindowDays: 14,
+      });
+
+      expect(changes).toEqual([
+        { field: 'rollingWindowDays', from: 30, to: 14 },
+        { field: 'selfCritiqueEnabled', from: false, to: true },
+      ]);
+    });
+
+    it('should diff a config against the defaults', () => {
+      expect(diffFromDefaults(DEFAULT_PIPELINE_CONFIG)).toEqual([]);
+      expect(diffFromDefaults({ ...DEFAULT_PIPELINE_CONFIG, monthlyTokenBudget: 500_000 })).toEqual([
+        { field: 'monthlyTokenBudget', from: null, to: 500_000 },
+      ]);
+    });
+  });
+
+  describe('formatConfigValue', () => {
+    it('should format budgets and switches', () => {
+      expect(formatConfigValue('monthlyTokenBudget', null)).toBe('No limit');
+      expect(formatConfigValue('monthlyTokenBudget', 500_000)).toBe('500,000');
+      expect(formatConfigValue('selfCritiqueEnabled', true)).toBe('On');
+      expect(formatConfigValue('autoApprovalMode', 'never')).toBe('never');
+    });
+  });
+});
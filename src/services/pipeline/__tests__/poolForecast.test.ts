@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest';
+import { describeColorForecast, forecastPool, type PoolForecastInput } from '../poolForecast';
+import type { DifficultyColor, StoredGroup } from '../../../lib/supabase/storage/IGroupStorage';
+
+const TODAY = '2025-03-01';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const todayMs = Date.parse(`${TODAY}T00:00:00Z`);
+
+let nextId = 0;
+
+/**
+ * Approved group created `createdDaysAgo` days ago, put into a puzzle `usedDaysAgo` days ago
+ */
+const createGroup = (
+  color: DifficultyColor,
+  createdDaysAgo: number,
+  usedDaysAgo: number | null = null
+): StoredGroup => ({
+  id: `${color}-${nextId++}`,
+  createdAt: todayMs - createdDaysAgo * DAY_MS,
+  items: [],
+  connection: 'Connection',
+  connectionType: 'type',
+  difficultyScore: 5000,
+  color,
+  difficulty: null,
+  status: 'approved',
+  usageCount: usedDaysAgo === null ? 0 : 1,
+  lastUsedAt: usedDaysAgo === null ? null : todayMs - usedDaysAgo * DAY_MS,
+  genre: 'films',
+});
+
+/**
+ * `unused` old unused groups, `used` used in the lookback and `approved` created in the lookback per color
+ */
+const createPool = (counts: Partial<Record<DifficultyColor, { unused: number; used: number; approved?: number }>>) => {
+  const groups: StoredGroup[] = [];
+  const usedGroupIds = new Set<string>();
+
+  for (const [color, { unused, used, approved = 0 }] of Object.entries(counts) as [
+    DifficultyColor,
+    { unused: number; used: number; approved?: number },
+  ][]) {
+    for (let i = 0; i < unused; i++) groups.push(createGroup(color, 100));
+    for (let i = 0; i < used; i++) {
+      const group = createGroup(color, 100, 5);
+      groups.push(group);
+      usedGroupIds.add(group.id);
+    }
+    for (let i = 0; i < approved; i++) {
+      const group = createGroup(color, 3);
+      groups.push(group);
+    }
+  }
+
+  return { groups, usedGroupIds };
+};
+
+const createInput = (overrides: Partial<PoolForecastInput> = {}): PoolForecastInput => ({
+  genre: 'films',
+  today: TODAY,
+  windowDays: 30,
+  emptyDates: [],
+  groups: [],
+  usedGroupIds: new Set(),
+  ...overrides,
+});
+
+describe('forecastPool', () => {
+  it('should project when each color runs dry from the net burn rate', () => {
+    // 28 used over 28 days = 1 per day; purple gets 14 approvals = 0.5 per day
+    const pool = createPool({
+      yellow: { unused: 60, used: 28 },
+      green: { unused: 60, used: 28 },
+      blue: { unused: 60, used: 28 },
+      purple: { unused: 6, used: 28, approved: 14 },
+    });
+
+    const forecast = forecastPool(createInput(pool));
+
+    // Purple: 6 old + 14 new unused, shrinking by 0.5 a day
+    expect(forecast.colors.purple).toEqual({
+      unused: 20,
+      usedPerDay: 1,
+      approvedPerDay: 0.5,
+      netBurnPerDay: 0.5,
+      daysUntilDry: 40,
+      dryDate: '2025-04-10',
+    });
+    expect(forecast.colors.yellow.daysUntilDry).toBe(60);
+    expect(forecast.firstDryColor).toBe('purple');
+    expect(forecast.puzzlesPerDay).toBe(1);
+  });
+
+  it('should not project a color that is not shrinking', () => {
+    const pool = createPool({
+      yellow: { unused: 10, used: 14, approved: 28 },
+      green: { unused: 10, used: 0 },
+      blue: { unused: 10, used: 0 },
+      purple: { unused: 10, used: 0 },
+    });
+
+    const forecast = forecastPool(createInput(pool));
+
+    expect(forecast.colors.yellow).toMatchObject({ unused: 38, netBurnPerDay: -0.5, daysUntilDry: null, dryDate: null });
+    expect(forecast.colors.green.daysUntilDry).toBeNull();
+  });
+
+  it('should treat a color without unused groups as dry today', () => {
+    const pool = createPool({ yellow: { unused: 10, used: 0 } });
+
+    const forecast = forecastPool(createInput(pool));
+
+    expect(forecast.colors.purple).toMatchObject({ unused: 0, daysUntilDry: 0, dryDate: TODAY });
+  });
+
+  it('should project the first gap after the pool runs dry', () => {
+    // One puzzle a day keeps the full window 30 days ahead until purple runs dry on day 10
+    const pool = createPool({
+      yellow: { unused: 50, used: 28 },
+      green: { unused: 50, used: 28 },
+      blue: { unused: 50, used: 28 },
+      purple: { unused: 10, used: 28 },
+    });
+
+    const forecast = forecastPool(createInput(pool));
+
+    expect(forecast.colors.purple.daysUntilDry).toBe(10);
+    expect(forecast.daysUntilGap).toBe(40);
+    expect(forecast.gapDate).toBe('2025-04-10');
+  });
+
+  it('should start from the current first empty date', () => {
+    const pool = createPool({
+      yellow: { unused: 0, used: 28 },
+      green: { unused: 50, used: 28 },
+      blue: { unused: 50, used: 28 },
+      purple: { unused: 50, used: 28 },
+    });
+
+    const forecast = forecastPool(createInput({ ...pool, emptyDates: ['2025-03-08', '2025-03-05'] }));
+
+    // Yellow is dry already, so nothing fills the gap four days out
+    expect(forecast.daysUntilGap).toBe(4);
+    expect(forecast.gapDate).toBe('2025-03-05');
+  });
+
+  it('should project a gap when puzzles are created slower than one a day', () => {
+    // Half a puzzle a day against a calendar that uses one: 10 covered days last 20
+    const pool = createPool({
+      yellow: { unused: 100, used: 14, approved: 14 },
+      green: { unused: 100, used: 14, approved: 14 },
+      blue: { unused: 100, used: 14, approved: 14 },
+      purple: { unused: 100, used: 14, approved: 14 },
+    });
+
+    const forecast = forecastPool(createInput({ ...pool, emptyDates: ['2025-03-11'] }));
+
+    expect(forecast.firstDryColor).toBeNull();
+    expect(forecast.daysUntilGap).toBe(20);
+  });
+
+  it('should project no gap while the pool keeps up', () => {
+    const pool = createPool({
+      yellow: { unused: 30, used: 28, approved: 28 },
+      green: { unused: 30, used: 28, approved: 28 },
+      blue: { unused: 30, used: 28, approved: 28 },
+      purple: { unused: 30, used: 28, approved: 28 },
+    });
+
+    const forecast = forecastPool(createInput(pool));
+
+    expect(forecast.daysUntilGap).toBeNull();
+    expect(forecast.gapDate).toBeNull();
+  });
+
+  it('should chart projected unused groups for every day of the horizon', () => {
+    const pool = createPool({
+      yellow: { unused: 50, used: 28 },
+      green: { unused: 50, used: 28 },
+      blue: { unused: 50, used: 28 },
+      purple: { unused: 10, used: 28 },
+    });
+
+    const forecast = forecastPool(createInput({ ...pool, horizonDays: 14 }));
+
+    expect(forecast.series).toHaveLength(15);
+    expect(forecast.series[0]).toEqual({
+      date: TODAY,
+      unused: { yellow: 50, green: 50, blue: 50, purple: 10 },
+    });
+    expect(forecast.series[14].date).toBe('2025-03-15');
+    expect(forecast.series[14].unused.purple).toBe(0);
+    expect(forecast.series[14].unused.yellow).toBe(36);
+  });
+});
+
+describe('describeColorForecast', () => {
+  const colorForecast = {
+    unused: 12,
+    usedPerDay: 1,
+    approvedPerDay: 0,
+    netBurnPerDay: 1,
+    daysUntilDry: 12,
+    dryDate: '2025-03-13',
+  };
+
+  it('should say when the color runs dry', () => {
+    expect(describeColorForecast('purple', colorForecast)).toBe('purple runs dry in 12 days');
+    expect(describeColorForecast('purple', { ...colorForecast, daysUntilDry: 1.5 })).toBe(
+      'purple runs dry tomorrow'
+    );
+    expect(describeColorForecast('purple', { ...colorForecast, daysUntilDry: 0.4 })).toBe('purple runs dry today');
+  });
+
+  it('should describe dry and steady colors', () => {
+    expect(describeColorForecast('blue', { ...colorForecast, unused: 0, daysUntilDry: 0 })).toBe(
+      'blue has run dry'
+    );
+    expect(describeColorForecast('green', { ...colorForecast, daysUntilDry: null })).toBe(
+      'green is not running down'
+    );
+  });
+});
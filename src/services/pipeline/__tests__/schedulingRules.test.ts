@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeRuleConstraints,
+  describeRuleSchedule,
+  describeRuleShortfall,
+  getRulesForDate,
+  groupMatchesRule,
+  ruleAppliesOn,
+  satisfiesRule,
+  validateSchedulingRule,
+} from '../schedulingRules';
+import type { SchedulingRule, SchedulingRuleInput } from '../types';
+import type { StoredGroup } from '../../../lib/supabase/storage/IGroupStorage';
+import type { ConnectionCategory } from '../../group-generator/types';
+
+const createRule = (overrides: Partial<SchedulingRule> = {}): SchedulingRule => ({
+  id: 'rule-1',
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  genre: 'films',
+  name: 'Horror',
+  schedule: { type: 'date', date: '2025-10-31' },
+  connectionTypes: [],
+  categories: [],
+  tags: ['horror'],
+  minGroups: 1,
+  active: true,
+  ...overrides,
+});
+
+const createGroup = (id: string, connectionType: string, tags?: string[]): StoredGroup => ({
+  id,
+  createdAt: Date.now(),
+  items: [],
+  connection: 'Connection',
+  connectionType,
+  difficultyScore: 5000,
+  color: 'yellow',
+  difficulty: null,
+  status: 'approved',
+  usageCount: 0,
+  lastUsedAt: null,
+  genre: 'films',
+  ...(tags ? { metadata: { tags } } : {}),
+});
+
+const categories = new Map<string, ConnectionCategory>([['Slasher villains', 'thematic']]);
+
+describe('schedulingRules', () => {
+  describe('ruleAppliesOn', () => {
+    it('should match a single date', () => {
+      const rule = createRule();
+
+      expect(ruleAppliesOn(rule, '2025-10-31')).toBe(true);
+      expect(ruleAppliesOn(rule, '2025-10-30')).toBe(false);
+    });
+
+    it('should match weekdays', () => {
+      // 2025-10-31 is a Friday
+      const rule = createRule({ schedule: { type: 'weekly', weekdays: [5] } });
+
+      expect(ruleAppliesOn(rule, '2025-10-31')).toBe(true);
+      expect(ruleAppliesOn(rule, '2025-11-07')).toBe(true);
+      expect(ruleAppliesOn(rule, '2025-11-01')).toBe(false);
+    });
+
+    it('should match a range inclusively', () => {
+      const rule = createRule({ schedule: { type: 'range', from: '2025-10-25', to: '2025-10-31' } });
+
+      expect(ruleAppliesOn(rule, '2025-10-25')).toBe(true);
+      expect(ruleAppliesOn(rule, '2025-10-31')).toBe(true);
+      expect(ruleAppliesOn(rule, '2025-11-01')).toBe(false);
+    });
+
+    it('should match a yearly range, including one that wraps the year end', () => {
+      const october = createRule({ schedule: { type: 'yearly', from: '10-25', to: '10-31' } });
+      const holidays = createRule({ schedule: { type: 'yearly', from: '12-24', to: '01-02' } });
+
+      expect(ruleAppliesOn(october, '2026-10-28')).toBe(true);
+      expect(ruleAppliesOn(october, '2026-11-28')).toBe(false);
+      expect(ruleAppliesOn(holidays, '2025-12-31')).toBe(true);
+      expect(ruleAppliesOn(holidays, '2026-01-02')).toBe(true);
+      expect(ruleAppliesOn(holidays, '2026-01-03')).toBe(false);
+    });
+
+    it('should never apply an inactive rule', () => {
+      expect(ruleAppliesOn(createRule({ active: false }), '2025-10-31')).toBe(false);
+    });
+  });
+
+  describe('getRulesForDate', () => {
+    it('should return the rules covering the date', () => {
+      const halloween = createRule();
+      const fridays = createRule({ id: 'rule-2', schedule: { type: 'weekly', weekdays: [5] } });
+
+      expect(getRulesForDate([halloween, fridays], '2025-11-07')).toEqual([fridays]);
+    });
+  });
+
+  describe('groupMatchesRule', () => {
+    it('should match on connection type, category or tag', () => {
+      expect(groupMatchesRule(createGroup('g1', 'Remakes'), createRule({ connectionTypes: ['Remakes'] }), categories)).toBe(
+        true
+      );
+      expect(
+        groupMatchesRule(createGroup('g2', 'Slasher villains'), createRule({ categories: ['thematic'] }), categories)
+      ).toBe(true);
+      expect(groupMatchesRule(createGroup('g3', 'Remakes', ['Horror']), createRule(), categories)).toBe(true);
+      expect(groupMatchesRule(createGroup('g4', 'Remakes'), createRule(), categories)).toBe(false);
+    });
+  });
+
+  describe('satisfiesRule', () => {
+    it('should need the minimum number of matching groups', () => {
+      const groups = [createGroup('g1', 'Remakes', ['horror']), createGroup('g2', 'Remakes')];
+
+      expect(satisfiesRule(groups, createRule(), categories)).toBe(true);
+      expect(satisfiesRule(groups, createRule({ minGroups: 2 }), categories)).toBe(false);
+      expect(describeRuleShortfall(groups, createRule({ minGroups: 2 }), categories)).toBe(
+        'Needs 2 matching groups, the puzzle has 1'
+      );
+    });
+  });
+
+  describe('describing rules', () => {
+    it('should describe each schedule', () => {
+      expect(describeRuleSchedule({ type: 'date', date: '2025-10-31' })).toBe('2025-10-31');
+      expect(describeRuleSchedule({ type: 'weekly', weekdays: [5, 1] })).toBe('Every Monday, Friday');
+      expect(describeRuleSchedule({ type: 'range', from: '2025-10-25', to: '2025-10-31' })).toBe(
+        '2025-10-25 to 2025-10-31'
+      );
+      expect(describeRuleSchedule({ type: 'yearly', from: '10-31', to: '10-31' })).toBe('Every year on 10-31');
+      expect(describeRuleSchedule({ type: 'yearly', from: '12-24', to: '01-02' })).toBe(
+        'Every year from 12-24 to 01-02'
+      );
+    });
+
+    it('should describe the constraints', () => {
+      expect(
+        describeRuleConstraints(createRule({ connectionTypes: ['Remakes'], categories: ['thematic'], minGroups: 2 }))
+      ).toBe('at least 2 groups: type "Remakes", category thematic, tag horror');
+    });
+  });
+
+  describe('validateSchedulingRule', () => {
+    const valid: SchedulingRuleInput = {
+      genre: 'films',
+      name: 'Halloween',
+      schedule: { type: 'yearly', from: '10-31', to: '10-31' },
+      connectionTypes: [],
+      categories: [],
+      tags: ['horror'],
+      minGroups: 1,
+      active: true,
+    };
+
+    it('should accept a valid rule', () => {
+      expect(validateSchedulingRule(valid)).toEqual([]);
+    });
+
+    it('should report every problem', () => {
+      expect(
+        validateSchedulingRule({
+          ...valid,
+          name: ' ',
+          schedule: { type: 'date', date: '2025-02-30' },
+          tags: [],
+          minGroups: 5,
+        })
+      ).toEqual([
+        'A rule needs a name',
+        'Invalid date: 2025-02-30 (expected YYYY-MM-DD)',
+        'A rule needs at least one connection type, category or tag',
+        'Minimum groups must be a whole number from 1 to 4',
+      ]);
+    });
+
+    it('should check the schedule', () => {
+      expect(validateSchedulingRule({ ...valid, schedule: { type: 'weekly', weekdays: [] } })).toEqual([
+        'A weekly rule needs at least one weekday',
+      ]);
+      expect(validateSchedulingRule({ ...valid, schedule: { type: 'weekly', weekdays: [7] } })).toEqual([
+        'Weekdays must be 0 (Sunday) to 6 (Saturday)',
+      ]);
+      expect(
+        validateSchedulingRule({ ...valid, schedule: { type: 'range', from: '2025-10-31', to: '2025-10-01' } })
+      ).toEqual(['The range must end on or after its start']);
+      expect(validateSchedulingRule({ ...valid, schedule: { type: 'yearly', from: '02-29', to: '13-01' } })).toEqual([
+        'Invalid yearly range: 02-29 to 13-01 (expected MM-DD)',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Generation Jobs
+ *
+ * Chunking, retry and progress helpers for generation jobs. PipelineGenerator
+ * runs the jobs; GenerationJobStore persists them.
+ */
+
+import type { DifficultyColor } from '../../lib/supabase/storage/IGroupStorage';
+import type { GenerationJob, GenerationJobChunk, PipelineProgress } from './types';
+import type { PipelineGenerationResult } from './PipelineGenerator';
+
+/**
+ * Groups requested per provider call. Smaller than the 30 a request allows
+ * so a failed call loses less and is cheaper to retry.
+ */
+export const GENERATION_CHUNK_SIZE = 10;
+
+/**
+ * A running job that has not checkpointed for this long was interrupted
+ * (a chunk, retries included, takes a few minutes at most)
+ */
+export const STALE_GENERATION_JOB_MS = 10 * 60 * 1000;
+
+/**
+ * How chunk attempts are retried: attempt n waits baseDelayMs * 2^(n-1) after a failure
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+};
+
+/**
+ * Delay before retrying after the given (1-based) failed attempt
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  return policy.baseDelayMs * 2 ** (attempt - 1);
+}
+
+/**
+ * Split a request into chunks of at most `chunkSize` groups, color by color
+ */
+export function planGenerationChunks(
+  colors: DifficultyColor[],
+  groupsPerColor: number,
+  chunkSize: number = GENERATION_CHUNK_SIZE
+): GenerationJobChunk[] {
+  const chunks: GenerationJobChunk[] = [];
+
+  for (const color of colors) {
+    for (let planned = 0; planned < groupsPerColor; planned += chunkSize) {
+      chunks.push({
+        color,
+        count: Math.min(chunkSize, groupsPerColor - planned),
+        status: 'pending',
+        attempts: 0,
+        generated: 0,
+        saved: 0,
+        pending: 0,
+        errors: [],
+        warnings: [],
+      });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Whether a running job stopped checkpointing, i.e. its process died
+ */
+export function isGenerationJobStale(job: GenerationJob, now: number = Date.now()): boolean {
+  return job.status === 'running' && now - job.updatedAt.getTime() > STALE_GENERATION_JOB_MS;
+}
+
+/**
+ * Whether a job has chunks left to run and nothing is running it
+ */
+export function isGenerationJobResumable(job: GenerationJob, now: number = Date.now()): boolean {
+  return job.status === 'failed' || isGenerationJobStale(job, now);
+}
+
+/**
+ * Groups generated so far against groups requested
+ */
+export function getGenerationJobProgress(
+  job: Pick<GenerationJob, 'chunks'>
+): NonNullable<PipelineProgress['progress']> {
+  return {
+    current: job.chunks.reduce((sum, chunk) => sum + chunk.generated, 0),
+    total: job.chunks.reduce((sum, chunk) => sum + chunk.count, 0),
+  };
+}
+
+/**
+ * Totals of a job's chunks, in the shape of a generation result
+ */
+export function summarizeGenerationJob(
+  job: Pick<GenerationJob, 'chunks' | 'failureMessage'>
+): Omit<PipelineGenerationResult, 'jobId'> {
+  const result: Omit<PipelineGenerationResult, 'jobId'> = {
+    groupsGenerated: 0,
+    groupsSaved: 0,
+    groupsPending: 0,
+    errors: job.failureMessage ? [job.failureMessage] : [],
+    warnings: [],
+    byColor: { yellow: 0, green: 0, blue: 0, purple: 0 },
+  };
+
+  for (const chunk of job.chunks) {
+    result.groupsGenerated += chunk.generated;
+    result.groupsSaved += chunk.saved;
+    result.groupsPending += chunk.pending;
+    result.byColor[chunk.color] += chunk.saved - chunk.pending;
+    result.errors.push(...chunk.errors.map((error) => `[${chunk.color}] ${error}`));
+    result.warnings.push(...(chunk.warnings ?? []).map((warning) => `[${chunk.color}] ${warning}`));
+  }
+
+  return result;
+}
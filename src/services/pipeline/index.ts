@@ -6,30 +6,140 @@
 
 export { PipelineService } from './PipelineService';
 export { PipelineConfigStore } from './PipelineConfigStore';
+export { PipelineConfigHistoryStore } from './PipelineConfigHistoryStore';
+export {
+  PIPELINE_CONFIG_FIELDS,
+  COPYABLE_CONFIG_FIELDS,
+  PIPELINE_CONFIG_FIELD_LABELS,
+  PIPELINE_CONFIG_LIMITS,
+  validatePipelineConfig,
+  diffPipelineConfig,
+  diffFromDefaults,
+  pickConfigFields,
+  formatConfigValue,
+} from './pipelineConfigEditing';
+export { PipelineRunStore } from './PipelineRunStore';
+export { PipelineLockStore } from './PipelineLockStore';
+export { SchedulingRuleStore } from './SchedulingRuleStore';
+export {
+  ruleAppliesOn,
+  getRulesForDate,
+  getGroupTags,
+  groupMatchesRule,
+  countMatchingGroups,
+  satisfiesRule,
+  describeRuleShortfall,
+  describeRuleSchedule,
+  describeRuleConstraints,
+  validateSchedulingRule,
+} from './schedulingRules';
 export { PipelineGenerator } from './PipelineGenerator';
 export type { PipelineGenerationResult, PipelineGenerationConfig } from './PipelineGenerator';
+export { GenerationJobStore } from './GenerationJobStore';
+export {
+  GENERATION_CHUNK_SIZE,
+  STALE_GENERATION_JOB_MS,
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  planGenerationChunks,
+  isGenerationJobStale,
+  isGenerationJobResumable,
+  getGenerationJobProgress,
+  summarizeGenerationJob,
+} from './generationJobs';
+export type { RetryPolicy } from './generationJobs';
+export {
+  FORECAST_LOOKBACK_DAYS,
+  FORECAST_HORIZON_DAYS,
+  forecastPool,
+  describeColorForecast,
+} from './poolForecast';
+export type { PoolForecastInput } from './poolForecast';
+export { GroupQualityGate, scoreGroup, getQualityAssessment } from './GroupQualityGate';
+export type { GateCandidate } from './GroupQualityGate';
+export { PuzzleAssemblyPlanner } from './PuzzleAssemblyPlanner';
+export type { AssemblyPlanInput } from './PuzzleAssemblyPlanner';
 export type {
   PipelineConfig,
+  PipelineConfigField,
+  PipelineConfigValues,
+  PipelineConfigErrors,
+  PipelineConfigFieldChange,
+  PipelineConfigChange,
+  PipelineConfigChangeInput,
+  PipelineConfigChangeSource,
+  PipelineConfigChangeContext,
+  IPipelineConfigHistory,
+  AutoApprovalMode,
+  AutoApprovalPolicy,
+  GroupCritique,
+  GroupQualityAssessment,
+  IGroupCritic,
   PipelineFillResult,
+  PipelineFillOptions,
+  PipelineFillPreview,
   PipelineError,
   PipelineErrorCode,
   GroupAvailability,
+  ColorReserve,
+  PoolReserve,
+  ColorForecast,
+  PoolForecastPoint,
+  PoolForecast,
   PipelineStatus,
   PipelineStage,
   PipelineStageCallback,
   PipelineProgress,
+  PipelineRun,
+  PipelineRunInput,
+  PipelineRunStatus,
+  PipelineRunTrigger,
+  PipelineStageTiming,
+  CreatedPuzzleSummary,
+  IPipelineRunLog,
+  PipelineLease,
+  PipelineLeaseRequest,
+  IPipelineLock,
+  GenerationJob,
+  GenerationJobChunk,
+  GenerationJobStatus,
+  GenerationChunkStatus,
+  GenerationJobInput,
+  GenerationJobCheckpoint,
+  IGenerationJobStore,
+  AssemblyPlan,
+  PlannedPuzzle,
+  UnplannedDate,
+  SchedulingRule,
+  SchedulingRuleInput,
+  SchedulingRuleSchedule,
+  ISchedulingRuleStore,
+  UnsatisfiedRule,
 } from './types';
-export { DEFAULT_PIPELINE_CONFIG, PIPELINE_STAGE_LABELS } from './types';
+export { DEFAULT_PIPELINE_CONFIG, PIPELINE_STAGE_LABELS, PIPELINE_TRIGGER_LABELS } from './types';
 
 // React hooks
 export {
   usePipelineConfig,
   useUpdatePipelineConfig,
   useTogglePipelineEnabled,
+  useResetPipelineConfig,
+  useCopyPipelineConfig,
+  useRevertPipelineConfigChange,
+  usePipelineConfigHistory,
   usePoolHealth,
+  usePoolReserve,
+  usePoolForecast,
   useScheduledCount,
   useEmptyDates,
   useFillRollingWindow,
   useFillRollingWindowWithGeneration,
+  usePreviewRollingWindowFill,
   usePipelineStatus,
+  usePipelineRuns,
+  usePipelineRun,
+  usePipelineLease,
+  useGenerationJobs,
+  useResumeGenerationJob,
+  useSchedulingRules,
 } from './usePipeline';
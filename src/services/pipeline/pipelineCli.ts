@@ -0,0 +1,729 @@
+/**
+ * Pipeline CLI Commands
+ *
+ * Runs the pipeline CLI's commands against the pipeline and storage services.
+ * scripts/pipeline.ts wires up Supabase and the generation provider, parses
+ * the arguments with parsePipelineCliArgs and prints the result.
+ */
+
+import { GENRES, type Genre, type ReleaseSettings } from '../../types';
+import type { IPuzzleStorage, StoredPuzzle } from '../../lib/supabase/storage/IPuzzleStorage';
+import type { IGroupStorage, StoredGroup } from '../../lib/supabase/storage/IGroupStorage';
+import type { PipelineService } from './PipelineService';
+import type { PipelineGenerationResult, PipelineGenerator } from './PipelineGenerator';
+import type {
+  GenerationJob,
+  IGenerationJobStore,
+  ISchedulingRuleStore,
+  PipelineConfig,
+  PipelineErrorCode,
+  PipelineFillPreview,
+  PipelineFillResult,
+  PipelineRunTrigger,
+  PipelineStageCallback,
+  PoolReserve,
+  SchedulingRule,
+  UnsatisfiedRule,
+} from './types';
+import type { PipelineCliCommand } from './pipelineCliArgs';
+import {
+  getGenerationJobProgress,
+  isGenerationJobResumable,
+  isGenerationJobStale,
+} from './generationJobs';
+import { describeRuleConstraints, describeRuleSchedule } from './schedulingRules';
+import { resolvePuzzleDate } from '../../utils/releaseTime';
+
+/**
+ * Process exit codes. Pipeline errors are ordered by severity so the
+ * highest code wins when a command hits several. Warnings (skipped groups,
+ * missed rules) never change a fill's exit code.
+ */
+export const CLI_EXIT_CODES = {
+  OK: 0,
+  FAILED: 1,
+  USAGE: 2,
+  LOCKED: 3,
+  /** `rules check` found a themed day that does not honour its rules */
+  RULE_UNSATISFIED: 9,
+} as const;
+
+export const PIPELINE_ERROR_EXIT_CODES: Record<PipelineErrorCode, number> = {
+  INSUFFICIENT_GROUPS: 10,
+  DUPLICATE_PUZZLE: 11,
+  BUDGET_EXCEEDED: 12,
+  GENERATION_FAILED: 13,
+  STORAGE_ERROR: 14,
+};
+
+/** Page size when reading the whole pool */
+const EXPORT_PAGE_SIZE = 1000;
+
+/** Most puzzles a single list or unschedule reads per genre */
+const PUZZLE_LIST_LIMIT = 1000;
+
+export interface PipelineCliServices {
+  puzzleStorage: IPuzzleStorage;
+  groupStorage: IGroupStorage;
+  configStore: { getConfig(genre: Genre): Promise<PipelineConfig> };
+  pipelineService: PipelineService;
+  /** Generator for a genre (genre-specific item verifier) */
+  createGenerator(genre: Genre): PipelineGenerator;
+  /** Persists generation jobs so they can be listed and resumed */
+  jobStore: IGenerationJobStore;
+  /** Themed-day rules */
+  ruleStore: ISchedulingRuleStore;
+  trigger: PipelineRunTrigger;
+  /** Shown in the admin while a fill holds a genre's lock */
+  holder: string;
+  /** Human-readable progress and results */
+  log(message: string): void;
+}
+
+export interface PipelineCliResult {
+  exitCode: number;
+  /** Printed with --json */
+  data: unknown;
+}
+
+/**
+ * Exit code for the pipeline errors a command ran into
+ */
+export function exitCodeForErrors(codes: PipelineErrorCode[]): number {
+  return Math.max(CLI_EXIT_CODES.OK, ...codes.map((code) => PIPELINE_ERROR_EXIT_CODES[code]));
+}
+
+/**
+ * Whether an error is a fill refused because another fill holds the genre's lock
+ */
+export function isPipelineLockedError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith('Pipeline fill already running');
+}
+
+/**
+ * Run a parsed CLI command
+ */
+export async function runPipelineCli(
+  command: Exclude<PipelineCliCommand, { name: 'help' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  switch (command.name) {
+    case 'fill':
+      return fill(command, services);
+    case 'pool status':
+      return poolStatus(command, services);
+    case 'pool export':
+      return poolExport(command, services);
+    case 'puzzles list':
+      return listPuzzles(command, services);
+    case 'puzzles unschedule':
+      return unschedulePuzzles(command, services);
+    case 'generate':
+      return generate(command, services);
+    case 'jobs list':
+      return listJobs(command, services);
+    case 'jobs resume':
+      return resumeJob(command, services);
+    case 'alerts check':
+      return checkAlerts(command, services);
+    case 'rules list':
+      return listRules(command, services);
+    case 'rules add':
+      return addRule(command, services);
+    case 'rules remove':
+      return removeRule(command, services);
+    case 'rules check':
+      return checkRules(command, services);
+    case 'release show':
+      return showRelease(command, services);
+    case 'release set':
+      return setRelease(command, services);
+  }
+}
+
+type FillOutcome =
+  | { genre: Genre; status: 'skipped'; reason: string }
+  | { genre: Genre; status: 'filled'; result: PipelineFillResult }
+  | { genre: Genre; status: 'failed'; error: string; locked: boolean };
+
+async function fill(
+  command: Extract<PipelineCliCommand, { name: 'fill' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  const { configStore, pipelineService, log } = services;
+  const outcomes: FillOutcome[] = [];
+
+  log(command.dryRun ? 'Starting pipeline fill (dry run, nothing will be written)...' : 'Starting pipeline fill...');
+
+  for (const genre of command.genre ? [command.genre] : GENRES) {
+    log(`\nProcessing genre: ${genre}`);
+
+    try {
+      const storedConfig = await configStore.getConfig(genre);
+      const config = command.days ? { ...storedConfig, rollingWindowDays: command.days } : storedConfig;
+      log(
+        `  Config: enabled=${config.enabled}, rollingWindowDays=${config.rollingWindowDays}, autoApproval=${config.autoApprovalMode}`
+      );
+
+      // A genre named on the command line is filled like Fill Now, whatever its auto-fill switch
+      if (!config.enabled && !command.genre) {
+        log(`  Skipping ${genre}: auto-fill is disabled`);
+        outcomes.push({ genre, status: 'skipped', reason: 'Auto-fill disabled' });
+        continue;
+      }
+
+      pipelineService.setGenerator(services.createGenerator(genre));
+
+      log(`  Running pipeline fill for ${genre}...`);
+      const result = await pipelineService.fillRollingWindow(config, undefined, {
+        dryRun: command.dryRun,
+        trigger: services.trigger,
+        holder: services.holder,
+      });
+
+      logFillResult(result, log);
+      outcomes.push({ genre, status: 'filled', result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      log(`  Error processing ${genre}: ${message}`);
+      outcomes.push({ genre, status: 'failed', error: message, locked: isPipelineLockedError(error) });
+    }
+  }
+
+  log('\n--- Summary ---');
+  for (const outcome of outcomes) {
+    log(`${outcome.genre}: ${outcome.status.toUpperCase()}`);
+  }
+
+  const failed = outcomes.filter((outcome) => outcome.status === 'failed');
+  let exitCode: number;
+  if (failed.length > 0) {
+    // Only lock conflicts: another fill is doing the work, so retrying later is safe
+    exitCode = failed.every((outcome) => outcome.locked) ? CLI_EXIT_CODES.LOCKED : CLI_EXIT_CODES.FAILED;
+  } else {
+    exitCode = exitCodeForErrors(
+      outcomes.flatMap((outcome) =>
+        outcome.status === 'filled' ? outcome.result.errors.map((error) => error.code) : []
+      )
+    );
+  }
+
+  log(`\nOverall: ${exitCode === CLI_EXIT_CODES.OK ? 'SUCCESS' : 'PARTIAL FAILURE'}`);
+
+  return { exitCode, data: { dryRun: command.dryRun, genres: outcomes } };
+}
+
+function logFillResult(result: PipelineFillResult, log: (message: string) => void): void {
+  if (result.preview) {
+    logPreview(result.preview, log);
+    log(`  Result: ${result.puzzlesCreated} puzzles would be created, ${result.emptyDaysRemaining} empty days would remain`);
+  } else {
+    log(`  Result: ${result.puzzlesCreated} puzzles created, ${result.emptyDaysRemaining} empty days remaining`);
+  }
+  if (result.aiGenerationTriggered && !result.preview) {
+    log(
+      `  AI generation: ${result.groupsGenerated} groups generated, ${result.groupsSaved} saved, ${result.groupsPendingReview} held for review`
+    );
+  }
+  if (result.errors.length > 0) {
+    log(`  Errors: ${result.errors.length}`);
+    result.errors.forEach((error) => log(`    - [${error.code}] ${error.message}`));
+  }
+  if (result.warnings.length > 0) {
+    log(`  Warnings: ${result.warnings.length}`);
+    result.warnings.forEach((warning) => log(`    - [${warning.code}] ${warning.message}`));
+  }
+}
+
+/**
+ * Print what a dry-run fill would do
+ */
+function logPreview(preview: PipelineFillPreview, log: (message: string) => void): void {
+  if (preview.generation) {
+    log(`  Would generate ${preview.generation.groupsPerColor} groups for: ${preview.generation.colors.join(', ')}`);
+    log('  Plan below covers the current pool only; the generated groups could fill more dates');
+  }
+
+  for (const puzzle of preview.plan.puzzles) {
+    const score = puzzle.analysis ? ` (misdirection ${puzzle.analysis.misdirectionScore}/100)` : '';
+    log(`  ${puzzle.date}${score}`);
+    puzzle.groups.forEach((group) => log(`    ${group.color}: ${group.connection}`));
+  }
+
+  for (const unplanned of preview.plan.unplannedDates) {
+    log(`  ${unplanned.date}: left empty (${unplanned.reason})`);
+  }
+
+  for (const unsatisfied of preview.plan.unsatisfiedRules) {
+    log(`  ${unsatisfied.date}: rule "${unsatisfied.ruleName}" not honoured (${unsatisfied.reason})`);
+  }
+}
+
+async function poolStatus(
+  command: Extract<PipelineCliCommand, { name: 'pool status' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  const { configStore, groupStorage, pipelineService, log } = services;
+  const genres: { genre: Genre; approved: number; pendingReview: number; reserve: PoolReserve }[] = [];
+
+  for (const genre of command.genre ? [command.genre] : GENRES) {
+    const config = await configStore.getConfig(genre);
+    const [approved, pending, reserve] = await Promise.all([
+      groupStorage.getGroupCountsByColor(genre),
+      groupStorage.listGroups({ genre, status: 'pending', limit: 1 }),
+      pipelineService.getPoolReserve(config),
+    ]);
+    const approvedTotal = Object.values(approved).reduce((sum, count) => sum + count, 0);
+
+    log(`${genre}: ${approvedTotal} approved, ${pending.total} pending review`);
+    for (const [color, { unused, neededForWindow, spare, target }] of Object.entries(reserve)) {
+      log(`  ${color.padEnd(6)} ${unused} unused, ${neededForWindow} needed for the window, ${spare} spare of ${target}`);
+    }
+
+    genres.push({ genre, approved: approvedTotal, pendingReview: pending.total, reserve });
+  }
+
+  // A color without enough unused groups for its window leaves dates empty on the next fill
+  const short = genres.some(({ reserve }) => Object.values(reserve).some(({ spare }) => spare < 0));
+
+  return {
+    exitCode: short ? PIPELINE_ERROR_EXIT_CODES.INSUFFICIENT_GROUPS : CLI_EXIT_CODES.OK,
+    data: { genres },
+  };
+}
+
+async function poolExport(
+  command: Extract<PipelineCliCommand, { name: 'pool export' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  const groups: StoredGroup[] = [];
+
+  for (const genre of command.genre ? [command.genre] : GENRES) {
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      const page = await services.groupStorage.listGroups({
+        genre,
+        status: command.status ?? undefined,
+        limit: EXPORT_PAGE_SIZE,
+        offset,
+      });
+      groups.push(...page.groups);
+      if (page.groups.length < EXPORT_PAGE_SIZE) break;
+    }
+  }
+
+  for (const group of groups) {
+    const items = group.items.map((item) => item.title).join(', ');
+    services.log(`${group.id}\t${group.genre}\t${group.color ?? '-'}\t${group.status}\t${group.connection}: ${items}`);
+  }
+
+  return { exitCode: CLI_EXIT_CODES.OK, data: { groups } };
+}
+
+/**
+ * Puzzle fields printed by the puzzles commands
+ */
+function summarizePuzzle(puzzle: StoredPuzzle) {
+  return {
+    id: puzzle.id,
+    date: puzzle.puzzleDate,
+    genre: puzzle.genre,
+    status: puzzle.status,
+    source: puzzle.source,
+    connections: (puzzle.groups ?? []).map((group) => group.connection),
+  };
+}
+
+async function listScheduledPuzzles(
+  puzzleStorage: IPuzzleStorage,
+  genres: Genre[],
+  from: string,
+  to: string
+): Promise<StoredPuzzle[]> {
+  const puzzles: StoredPuzzle[] = [];
+  for (const genre of genres) {
+    const { puzzles: found } = await puzzleStorage.listPuzzles({
+      genre,
+      dateFrom: from,
+      dateTo: to,
+      limit: PUZZLE_LIST_LIMIT,
+    });
+    puzzles.push(...found);
+  }
+  return puzzles.sort((a, b) => (a.puzzleDate ?? '').localeCompare(b.puzzleDate ?? ''));
+}
+
+async function listPuzzles(
+  command: Extract<PipelineCliCommand, { name: 'puzzles list' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  const genres = command.genre ? [command.genre] : GENRES;
+  const puzzles = await listScheduledPuzzles(services.puzzleStorage, genres, command.from, command.to);
+
+  services.log(`${puzzles.length} puzzles scheduled from ${command.from} to ${command.to}`);
+  for (const puzzle of puzzles) {
+    const connections = (puzzle.groups ?? []).map((group) => group.connection).join(' | ');
+    services.log(`${puzzle.puzzleDate}\t${puzzle.genre}\t${puzzle.status}\t${puzzle.id}\t${connections}`);
+  }
+
+  return {
+    exitCode: CLI_EXIT_CODES.OK,
+    data: { from: command.from, to: command.to, puzzles: puzzles.map(summarizePuzzle) },
+  };
+}
+
+async function unschedulePuzzles(
+  command: Extract<PipelineCliCommand, { name: 'puzzles unschedule' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  const { puzzleStorage, log } = services;
+  let puzzles: StoredPuzzle[] = [];
+  const missingIds: string[] = [];
+
+  if (command.range) {
+    const genres = command.genre ? [command.genre] : GENRES;
+    puzzles = await listScheduledPuzzles(puzzleStorage, genres, command.range.from, command.range.to);
+  } else {
+    for (const id of command.ids) {
+      const puzzle = await puzzleStorage.getPuzzle(id);
+      if (!puzzle) {
+        log(`Puzzle not found: ${id}`);
+        missingIds.push(id);
+      } else if (puzzle.puzzleDate === null) {
+        log(`Puzzle ${id} is not scheduled`);
+      } else {
+        puzzles.push(puzzle);
+      }
+    }
+  }
+
+  // Puzzles on today or earlier are live and the database refuses to unschedule them
+  // (028_protect_past_puzzles), which would fail the whole batch
+  const today = new Date().toISOString().split('T')[0];
+  const skipped = puzzles.filter((puzzle) => (puzzle.puzzleDate ?? '') <= today);
+  puzzles = puzzles.filter((puzzle) => (puzzle.puzzleDate ?? '') > today);
+
+  if (puzzles.length > 0 && !command.dryRun) {
+    // Same as unscheduling in the Puzzle Queue: the puzzle goes back to the approved pool
+    await puzzleStorage.batchUpdatePuzzles(
+      puzzles.map((puzzle) => ({ id: puzzle.id, updates: { puzzleDate: null, status: 'approved' as const } }))
+    );
+  }
+
+  log(`${command.dryRun ? 'Would unschedule' : 'Unscheduled'} ${puzzles.length} puzzle(s)`);
+  for (const puzzle of puzzles) {
+    log(`  ${puzzle.puzzleDate}\t${puzzle.genre}\t${puzzle.id}`);
+  }
+  if (skipped.length > 0) {
+    log(`Skipped ${skipped.length} puzzle(s) on today or earlier (already live)`);
+    for (const puzzle of skipped) {
+      log(`  ${puzzle.puzzleDate}\t${puzzle.genre}\t${puzzle.id}`);
+    }
+  }
+
+  return {
+    exitCode: missingIds.length > 0 ? CLI_EXIT_CODES.FAILED : CLI_EXIT_CODES.OK,
+    data: {
+      dryRun: command.dryRun,
+      unscheduled: puzzles.map(summarizePuzzle),
+      skipped: skipped.map(summarizePuzzle),
+      missingIds,
+    },
+  };
+}
+
+async function generate(
+  command: Extract<PipelineCliCommand, { name: 'generate' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  const { configStore, log } = services;
+  const config = await configStore.getConfig(command.genre);
+  const count = command.count ?? config.aiGenerationBatchSize;
+
+  const budgetExceeded = await checkTokenBudget(config, services);
+  if (budgetExceeded) {
+    return budgetExceeded;
+  }
+
+  log(`Generating ${count} ${command.genre} groups for: ${command.colors.join(', ')}`);
+  const result = await services.createGenerator(command.genre).generateForPipeline({
+    genre: command.genre,
+    groupsPerColor: count,
+    colorsNeeded: command.colors,
+    approvalPolicy: {
+      mode: config.autoApprovalMode,
+      threshold: config.autoApprovalThreshold,
+      selfCritique: config.selfCritiqueEnabled,
+    },
+    onStageChange: logGenerationProgress(log),
+    jobStore: services.jobStore,
+    trigger: services.trigger,
+  });
+
+  logGenerationResult(result, log);
+
+  return {
+    exitCode: result.errors.length > 0 ? PIPELINE_ERROR_EXIT_CODES.GENERATION_FAILED : CLI_EXIT_CODES.OK,
+    data: { genre: command.genre, colors: command.colors, groupsPerColor: count, ...result },
+  };
+}
+
+/**
+ * Respect the monthly token budget like a fill does; returns the result to exit with when it is exhausted
+ */
+async function checkTokenBudget(
+  config: PipelineConfig,
+  services: PipelineCliServices
+): Promise<PipelineCliResult | null> {
+  const budget = await services.pipelineService.getTokenBudgetStatus(config);
+  if (!budget?.exhausted) {
+    return null;
+  }
+
+  const message = `Monthly token budget exhausted (${budget.used} of ${budget.budget} tokens used)`;
+  services.log(message);
+  return {
+    exitCode: PIPELINE_ERROR_EXIT_CODES.BUDGET_EXCEEDED,
+    data: { genre: config.genre, error: message, code: 'BUDGET_EXCEEDED' },
+  };
+}
+
+function logGenerationProgress(log: (message: string) => void): PipelineStageCallback {
+  return (stage, progress) => {
+    log(progress ? `${stage}: ${progress.current}/${progress.total} groups` : stage);
+  };
+}
+
+function logGenerationResult(result: PipelineGenerationResult, log: (message: string) => void): void {
+  if (result.jobId) {
+    log(`Generation job ${result.jobId}`);
+  }
+  log(`${result.groupsGenerated} groups generated, ${result.groupsSaved} saved, ${result.groupsPending} held for review`);
+  result.errors.forEach((error) => log(`  - ${error}`));
+  result.warnings.forEach((warning) => log(`  - Warning: ${warning}`));
+}
+
+function summarizeJob(job: GenerationJob) {
+  const { current, total } = getGenerationJobProgress(job);
+  return {
+    id: job.id,
+    genre: job.genre,
+    trigger: job.trigger,
+    // A running job that stopped checkpointing was interrupted
+    status: isGenerationJobStale(job) ? 'interrupted' : job.status,
+    groupsGenerated: current,
+    groupsRequested: total,
+    chunksCompleted: job.chunks.filter((chunk) => chunk.status === 'completed').length,
+    chunks: job.chunks.length,
+    resumable: isGenerationJobResumable(job),
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+    failureMessage: job.failureMessage,
+  };
+}
+
+async function listJobs(
+  command: Extract<PipelineCliCommand, { name: 'jobs list' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  const jobs = (
+    await services.jobStore.listJobs({
+      genre: command.genre ?? undefined,
+      status: command.status ?? undefined,
+    })
+  ).map(summarizeJob);
+
+  if (jobs.length === 0) {
+    services.log('No generation jobs');
+  }
+  for (const job of jobs) {
+    services.log(
+      `${job.id}  ${job.genre}  ${job.status}  ${job.groupsGenerated}/${job.groupsRequested} groups` +
+        `  ${job.chunksCompleted}/${job.chunks} chunks  ${job.createdAt}`
+    );
+  }
+
+  return { exitCode: CLI_EXIT_CODES.OK, data: { jobs } };
+}
+
+async function resumeJob(
+  command: Extract<PipelineCliCommand, { name: 'jobs resume' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  const { jobStore, log } = services;
+  const job = await jobStore.getJob(command.id);
+
+  if (!job) {
+    const message = `Generation job ${command.id} not found`;
+    log(message);
+    return { exitCode: CLI_EXIT_CODES.FAILED, data: { id: command.id, error: message } };
+  }
+
+  if (!isGenerationJobResumable(job)) {
+    const message =
+      job.status === 'completed'
+        ? `Generation job ${job.id} is already complete`
+        : `Generation job ${job.id} is still running`;
+    log(message);
+    return { exitCode: CLI_EXIT_CODES.FAILED, data: { id: job.id, error: message } };
+  }
+
+  const budgetExceeded = await checkTokenBudget(await services.configStore.getConfig(job.genre), services);
+  if (budgetExceeded) {
+    return budgetExceeded;
+  }
+
+  log(`Resuming ${job.genre} generation job ${job.id}`);
+  const result = await services
+    .createGenerator(job.genre)
+    .resumeJob(job.id, jobStore, logGenerationProgress(log));
+
+  logGenerationResult(result, log);
+
+  return {
+    exitCode: result.errors.length > 0 ? PIPELINE_ERROR_EXIT_CODES.GENERATION_FAILED : CLI_EXIT_CODES.OK,
+    data: { genre: job.genre, ...result },
+  };
+}
+
+async function checkAlerts(
+  command: Extract<PipelineCliCommand, { name: 'alerts check' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  const { configStore, pipelineService, log } = services;
+  const genres: Genre[] = command.genre ? [command.genre] : [...GENRES];
+  const checks = [];
+  let undelivered = false;
+
+  for (const genre of genres) {
+    const config = await configStore.getConfig(genre);
+    // Like fill, an explicit --genre is checked even when auto-fill is off
+    if (!command.genre && !config.enabled) {
+      log(`${genre}: auto-fill disabled, skipping`);
+      continue;
+    }
+
+    const dispatch = await pipelineService.checkAlerts(config);
+    if (!dispatch) {
+      throw new Error('Alerting is not configured');
+    }
+
+    log(`${genre}: ${dispatch.sent.length} alert(s) sent, ${dispatch.suppressed.length} already sent recently`);
+    dispatch.sent.forEach((alert) => log(`  - [${alert.severity}] ${alert.title}`));
+    dispatch.failures.forEach((failure) => log(`  ! ${failure.key} via ${failure.notifier}: ${failure.message}`));
+
+    // An alert no notifier accepted is retried on the next check
+    undelivered ||= dispatch.failures.some(
+      (failure) => !dispatch.sent.some((alert) => alert.key === failure.key)
+    );
+    checks.push({
+      genre,
+      sent: dispatch.sent,
+      suppressed: dispatch.suppressed.map((alert) => alert.key),
+      failures: dispatch.failures,
+    });
+  }
+
+  return { exitCode: undelivered ? CLI_EXIT_CODES.FAILED : CLI_EXIT_CODES.OK, data: { checks } };
+}
+
+function describeRule(rule: SchedulingRule): string {
+  return `${rule.name}: ${describeRuleSchedule(rule.schedule)}, ${describeRuleConstraints(rule)}`;
+}
+
+async function listRules(
+  command: Extract<PipelineCliCommand, { name: 'rules list' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  const rules: SchedulingRule[] = [];
+  for (const genre of command.genre ? [command.genre] : GENRES) {
+    rules.push(...(await services.ruleStore.listRules(genre)));
+  }
+
+  if (rules.length === 0) {
+    services.log('No scheduling rules');
+  }
+  for (const rule of rules) {
+    services.log(`${rule.id}  ${rule.genre}  ${rule.active ? 'active' : 'inactive'}  ${describeRule(rule)}`);
+  }
+
+  return { exitCode: CLI_EXIT_CODES.OK, data: { rules } };
+}
+
+async function addRule(
+  command: Extract<PipelineCliCommand, { name: 'rules add' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  const rule = await services.ruleStore.createRule(command.rule);
+  services.log(`Added ${rule.genre} rule ${rule.id}`);
+  services.log(`  ${describeRule(rule)}`);
+
+  return { exitCode: CLI_EXIT_CODES.OK, data: { rule } };
+}
+
+async function removeRule(
+  command: Extract<PipelineCliCommand, { name: 'rules remove' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  await services.ruleStore.deleteRule(command.id);
+  services.log(`Deleted rule ${command.id}`);
+
+  return { exitCode: CLI_EXIT_CODES.OK, data: { id: command.id } };
+}
+
+async function checkRules(
+  command: Extract<PipelineCliCommand, { name: 'rules check' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  const { configStore, pipelineService, log } = services;
+  const checks: { genre: Genre; unsatisfied: UnsatisfiedRule[] }[] = [];
+
+  for (const genre of command.genre ? [command.genre] : GENRES) {
+    const unsatisfied = await pipelineService.checkSchedulingRules(await configStore.getConfig(genre));
+
+    log(
+      unsatisfied.length === 0
+        ? `${genre}: every themed day honours its rules`
+        : `${genre}: ${unsatisfied.length} rule(s) not honoured`
+    );
+    unsatisfied.forEach((rule) => log(`  - ${rule.date} "${rule.ruleName}": ${rule.reason}`));
+    checks.push({ genre, unsatisfied });
+  }
+
+  const anyUnsatisfied = checks.some((check) => check.unsatisfied.length > 0);
+  return {
+    exitCode: anyUnsatisfied ? CLI_EXIT_CODES.RULE_UNSATISFIED : CLI_EXIT_CODES.OK,
+    data: { checks },
+  };
+}
+
+function describeRelease(settings: ReleaseSettings): string {
+  return `${String(settings.releaseHour).padStart(2, '0')}:00 ${settings.timeZone}`;
+}
+
+async function showRelease(
+  command: Extract<PipelineCliCommand, { name: 'release show' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  const releases: ({ genre: Genre; currentDate: string } & ReleaseSettings)[] = [];
+
+  for (const genre of command.genre ? [command.genre] : GENRES) {
+    const settings = await services.puzzleStorage.getReleaseSettings(genre);
+    const currentDate = resolvePuzzleDate(settings);
+
+    services.log(`${genre}: released at ${describeRelease(settings)}, on ${currentDate}'s puzzle`);
+    releases.push({ genre, ...settings, currentDate });
+  }
+
+  return { exitCode: CLI_EXIT_CODES.OK, data: { releases } };
+}
+
+async function setRelease(
+  command: Extract<PipelineCliCommand, { name: 'release set' }>,
+  services: PipelineCliServices
+): Promise<PipelineCliResult> {
+  const settings = await services.puzzleStorage.updateReleaseSettings(command.genre, command.settings);
+  services.log(`${command.genre}: puzzles are released at ${describeRelease(settings)}`);
+  services.log('  Puzzles not yet released move to the new time');
+
+  return { exitCode: CLI_EXIT_CODES.OK, data: { genre: command.genre, ...settings } };
+}
@@ -0,0 +1,500 @@
+/**
+ * Pipeline CLI Arguments
+ *
+ * Parses the pipeline CLI's subcommands and flags (see PIPELINE_CLI_USAGE).
+ * Kept free of Node APIs so it can be tested alongside the services.
+ */
+
+import { GENRES, type Genre, type ReleaseSettings } from '../../types';
+import type { DifficultyColor, GroupStatus } from '../../lib/supabase/storage/IGroupStorage';
+import type { ConnectionCategory } from '../group-generator/types';
+import type { GenerationJobStatus, SchedulingRuleInput, SchedulingRuleSchedule } from './types';
+import { PIPELINE_CONFIG_LIMITS } from './pipelineConfigEditing';
+import { validateSchedulingRule } from './schedulingRules';
+import { isValidTimeZone } from '../../utils/releaseTime';
+
+const COLORS: DifficultyColor[] = ['yellow', 'green', 'blue', 'purple'];
+const GROUP_STATUSES: GroupStatus[] = ['pending', 'approved', 'rejected'];
+const JOB_STATUSES: GenerationJobStatus[] = ['running', 'completed', 'failed'];
+const CATEGORIES: ConnectionCategory[] = [
+  'word-game',
+  'people',
+  'thematic',
+  'setting',
+  'cultural',
+  'narrative',
+  'character',
+  'production',
+  'elements',
+];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/** Days listed by `puzzles list` when --to is left out */
+const DEFAULT_LIST_DAYS = 30;
+
+/** Largest number of groups `generate` asks for per color (run as a chunked job) */
+const MAX_GENERATE_COUNT = 100;
+
+export const PIPELINE_CLI_USAGE = `Usage: bun run scripts/pipeline.ts <command> [options]
+
+Commands:
+  fill                  Fill the rolling window with puzzles
+    --genre <genre>       Only this genre (fills it even when auto-fill is off)
+    --days <n>            Fill the next n days instead of the configured window
+    --dry-run             Show what would be created without writing anything
+  pool status           Approved, unused and spare groups per color
+    --genre <genre>       Only this genre
+  pool export           Every group in the pool
+    --genre <genre>       Only this genre
+    --status <status>     Only groups with this status (pending, approved, rejected)
+  puzzles list          Scheduled puzzles in a date range
+    --from <date>         First date (YYYY-MM-DD, default today)
+    --to <date>           Last date (default ${DEFAULT_LIST_DAYS} days from --from)
+    --genre <genre>       Only this genre
+  puzzles unschedule    Take puzzles off the calendar (they go back to approved; today and earlier are skipped)
+    --genre <genre>       Genre of the dates (required with --from)
+    --from <date>         First date to clear
+    --to <date>           Last date to clear (default --from)
+    --id <id>             Puzzle to unschedule instead of a date range (repeatable)
+    --dry-run             List the puzzles without unscheduling them
+  generate              Generate groups with AI
+    --genre <genre>       Genre to generate for (required)
+    --color <color>       Color to generate (repeatable, default all four)
+    --count <n>           Groups per color (default the genre's batch size)
+  jobs list             Recent generation jobs and their progress
+    --genre <genre>       Only this genre
+    --status <status>     Only jobs with this status (running, completed, failed)
+  jobs resume           Run the chunks a failed or interrupted job did not finish
+    --id <id>             Job to resume (required)
+  alerts check          Send alerts for coming calendar gaps, low pools and failed scheduled fills
+    --genre <genre>       Only this genre (checks it even when auto-fill is off)
+  rules list            Scheduling rules (themed days)
+    --genre <genre>       Only this genre
+  rules add             Add a scheduling rule
+    --genre <genre>       Genre of the rule (required)
+    --name <name>         Shown on the calendar, e.g. "Halloween week" (required)
+    --date <date>         On one date (YYYY-MM-DD)
+    --weekday <day>       Every week on this day, e.g. fri (repeatable)
+    --from <date>         From this date ...
+    --to <date>           ... to this date (default --from)
+    --yearly <MM-DD>      Every year on this day, or MM-DD..MM-DD for a range
+    --type <name>         Groups of this connection type match (repeatable)
+    --category <category> Groups whose connection type is in this category match (repeatable)
+    --tag <tag>           Groups with this tag match (repeatable)
+    --min-groups <n>      Matching groups each puzzle needs (1-4, default 1)
+  rules remove          Delete a scheduling rule
+    --id <id>             Rule to delete (required)
+  rules check           Themed days in the rolling window whose puzzle does not honour their rules
+    --genre <genre>       Only this genre
+  release show          When each genre's daily puzzle rolls over, and the puzzle date it is on now
+    --genre <genre>       Only this genre
+  release set           Change when a genre's daily puzzle is released
+    --genre <genre>       Genre (required)
+    --timezone <zone>     IANA time zone of the release hour, e.g. America/New_York (required)
+    --hour <n>            Hour of the puzzle's date it is released (0-23, default 0)
+
+Global options:
+  --json                Print the result as JSON on stdout (progress goes to stderr)
+  --help                Show this help
+
+Exit codes:
+  0   Success
+  1   Failed (unexpected error)
+  2   Invalid command or options
+  3   The pipeline lock is held by another fill
+  9   RULE_UNSATISFIED (rules check: a themed day's puzzle does not honour its rules;
+      a fill only warns about it)
+  10  INSUFFICIENT_GROUPS (a date could not be filled, or the pool is short for the window)
+  11  DUPLICATE_PUZZLE
+  12  BUDGET_EXCEEDED
+  13  GENERATION_FAILED
+  14  STORAGE_ERROR`;
+
+export type PipelineCliCommand =
+  | { name: 'help' }
+  | { name: 'fill'; genre: Genre | null; days: number | null; dryRun: boolean }
+  | { name: 'pool status'; genre: Genre | null }
+  | { name: 'pool export'; genre: Genre | null; status: GroupStatus | null }
+  | { name: 'puzzles list'; genre: Genre | null; from: string; to: string }
+  | {
+      name: 'puzzles unschedule';
+      genre: Genre | null;
+      /** Dates to clear, or null when unscheduling by id */
+      range: { from: string; to: string } | null;
+      ids: string[];
+      dryRun: boolean;
+    }
+  | { name: 'generate'; genre: Genre; colors: DifficultyColor[]; count: number | null }
+  | { name: 'jobs list'; genre: Genre | null; status: GenerationJobStatus | null }
+  | { name: 'jobs resume'; id: string }
+  | { name: 'alerts check'; genre: Genre | null }
+  | { name: 'rules list'; genre: Genre | null }
+  | { name: 'rules add'; rule: SchedulingRuleInput }
+  | { name: 'rules remove'; id: string }
+  | { name: 'rules check'; genre: Genre | null }
+  | { name: 'release show'; genre: Genre | null }
+  | { name: 'release set'; genre: Genre; settings: ReleaseSettings };
+
+export interface PipelineCliInvocation {
+  command: PipelineCliCommand;
+  /** Print the result as JSON */
+  json: boolean;
+}
+
+/**
+ * Thrown for unknown commands and invalid options; the CLI prints the usage and exits with 2
+ */
+export class PipelineCliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipelineCliUsageError';
+  }
+}
+
+/** Flags that take no value */
+const BOOLEAN_FLAGS = new Set(['dry-run', 'json', 'help']);
+
+/** Flags each command accepts, besides --json and --help */
+const COMMAND_FLAGS: Record<Exclude<PipelineCliCommand['name'], 'help'>, string[]> = {
+  fill: ['genre', 'days', 'dry-run'],
+  'pool status': ['genre'],
+  'pool export': ['genre', 'status'],
+  'puzzles list': ['genre', 'from', 'to'],
+  'puzzles unschedule': ['genre', 'from', 'to', 'id', 'dry-run'],
+  generate: ['genre', 'color', 'count'],
+  'jobs list': ['genre', 'status'],
+  'jobs resume': ['id'],
+  'alerts check': ['genre'],
+  'rules list': ['genre'],
+  'rules add': [
+    'genre',
+    'name',
+    'date',
+    'weekday',
+    'from',
+    'to',
+    'yearly',
+    'type',
+    'category',
+    'tag',
+    'min-groups',
+  ],
+  'rules remove': ['id'],
+  'rules check': ['genre'],
+  'release show': ['genre'],
+  'release set': ['genre', 'timezone', 'hour'],
+};
+
+interface ParsedFlags {
+  positional: string[];
+  values: Map<string, string[]>;
+  booleans: Set<string>;
+}
+
+/**
+ * Parse CLI arguments (without the runtime and script path)
+ */
+export function parsePipelineCliArgs(argv: string[], today: string): PipelineCliInvocation {
+  const flags = parseFlags(argv);
+  const json = flags.booleans.has('json');
+
+  if (flags.booleans.has('help') || flags.positional.length === 0) {
+    return { command: { name: 'help' }, json };
+  }
+
+  const name = resolveCommandName(flags.positional);
+  checkFlags(name, flags);
+
+  return { command: buildCommand(name, flags, today), json };
+}
+
+function parseFlags(argv: string[]): ParsedFlags {
+  const flags: ParsedFlags = { positional: [], values: new Map(), booleans: new Set() };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (!arg.startsWith('--')) {
+      flags.positional.push(arg);
+      continue;
+    }
+
+    const [flag, inlineValue] = splitFlag(arg.slice(2));
+
+    if (BOOLEAN_FLAGS.has(flag)) {
+      if (inlineValue !== undefined) {
+        throw new PipelineCliUsageError(`--${flag} does not take a value`);
+      }
+      flags.booleans.add(flag);
+      continue;
+    }
+
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined || value.startsWith('--')) {
+      throw new PipelineCliUsageError(`--${flag} needs a value`);
+    }
+    flags.values.set(flag, [...(flags.values.get(flag) ?? []), value]);
+  }
+
+  return flags;
+}
+
+function splitFlag(flag: string): [string, string | undefined] {
+  const equals = flag.indexOf('=');
+  return equals === -1 ? [flag, undefined] : [flag.slice(0, equals), flag.slice(equals + 1)];
+}
+
+function resolveCommandName(positional: string[]): Exclude<PipelineCliCommand['name'], 'help'> {
+  const name = positional.join(' ');
+  if (Object.keys(COMMAND_FLAGS).includes(name)) {
+    return name as Exclude<PipelineCliCommand['name'], 'help'>;
+  }
+  throw new PipelineCliUsageError(`Unknown command: ${name}`);
+}
+
+function checkFlags(name: Exclude<PipelineCliCommand['name'], 'help'>, flags: ParsedFlags): void {
+  const allowed = COMMAND_FLAGS[name];
+  for (const flag of [...flags.values.keys(), ...flags.booleans]) {
+    if (flag !== 'json' && !allowed.includes(flag)) {
+      throw new PipelineCliUsageError(`Unknown option for ${name}: --${flag}`);
+    }
+  }
+}
+
+function buildCommand(
+  name: Exclude<PipelineCliCommand['name'], 'help'>,
+  flags: ParsedFlags,
+  today: string
+): PipelineCliCommand {
+  const genre = parseGenre(single(flags, 'genre'));
+  const dryRun = flags.booleans.has('dry-run');
+
+  switch (name) {
+    case 'fill': {
+      const { min, max } = PIPELINE_CONFIG_LIMITS.rollingWindowDays;
+      return { name, genre, days: parseInteger(single(flags, 'days'), 'days', min, max), dryRun };
+    }
+    case 'pool status':
+      return { name, genre };
+    case 'pool export':
+      return { name, genre, status: parseStatus(single(flags, 'status')) };
+    case 'puzzles list': {
+      const from = parseDate(single(flags, 'from'), 'from') ?? today;
+      const to = parseDate(single(flags, 'to'), 'to') ?? addDays(from, DEFAULT_LIST_DAYS - 1);
+      checkRange(from, to);
+      return { name, genre, from, to };
+    }
+    case 'puzzles unschedule': {
+      const ids = flags.values.get('id') ?? [];
+      const from = parseDate(single(flags, 'from'), 'from');
+      const to = parseDate(single(flags, 'to'), 'to') ?? from;
+
+      if (ids.length > 0 && (from || to)) {
+        throw new PipelineCliUsageError('Use either --id or --from/--to, not both');
+      }
+      if (ids.length === 0) {
+        if (!from || !to) {
+          throw new PipelineCliUsageError('puzzles unschedule needs --from (and optionally --to) or --id');
+        }
+        if (!genre) {
+          throw new PipelineCliUsageError('puzzles unschedule needs --genre with --from');
+        }
+        checkRange(from, to);
+        return { name, genre, range: { from, to }, ids, dryRun };
+      }
+      return { name, genre, range: null, ids, dryRun };
+    }
+    case 'generate': {
+      if (!genre) {
+        throw new PipelineCliUsageError('generate needs --genre');
+      }
+      const colors = (flags.values.get('color') ?? []).map(parseColor);
+      return {
+        name,
+        genre,
+        colors: colors.length > 0 ? [...new Set(colors)] : COLORS,
+        count: parseInteger(single(flags, 'count'), 'count', 1, MAX_GENERATE_COUNT),
+      };
+    }
+    case 'jobs list':
+      return { name, genre, status: parseJobStatus(single(flags, 'status')) };
+    case 'jobs resume': {
+      const id = single(flags, 'id');
+      if (!id) {
+        throw new PipelineCliUsageError('jobs resume needs --id');
+      }
+      return { name, id };
+    }
+    case 'alerts check':
+      return { name, genre };
+    case 'rules list':
+      return { name, genre };
+    case 'rules add':
+      return { name, rule: buildRule(genre, flags) };
+    case 'rules remove': {
+      const id = single(flags, 'id');
+      if (!id) {
+        throw new PipelineCliUsageError('rules remove needs --id');
+      }
+      return { name, id };
+    }
+    case 'rules check':
+      return { name, genre };
+    case 'release show':
+      return { name, genre };
+    case 'release set': {
+      const timeZone = single(flags, 'timezone');
+      if (!genre || !timeZone) {
+        throw new PipelineCliUsageError('release set needs --genre and --timezone');
+      }
+      if (!isValidTimeZone(timeZone)) {
+        throw new PipelineCliUsageError(`Unknown time zone: ${timeZone} (expected e.g. America/New_York)`);
+      }
+      const releaseHour = parseInteger(single(flags, 'hour'), 'hour', 0, 23) ?? 0;
+      return { name, genre, settings: { timeZone, releaseHour } };
+    }
+  }
+}
+
+function buildRule(genre: Genre | null, flags: ParsedFlags): SchedulingRuleInput {
+  const name = single(flags, 'name');
+  if (!genre || !name) {
+    throw new PipelineCliUsageError('rules add needs --genre and --name');
+  }
+
+  const rule: SchedulingRuleInput = {
+    genre,
+    name,
+    schedule: parseRuleSchedule(flags),
+    connectionTypes: flags.values.get('type') ?? [],
+    categories: (flags.values.get('category') ?? []).map(parseCategory),
+    tags: flags.values.get('tag') ?? [],
+    minGroups: parseInteger(single(flags, 'min-groups'), 'min-groups', 1, 4) ?? 1,
+    active: true,
+  };
+
+  const [problem] = validateSchedulingRule(rule);
+  if (problem) {
+    throw new PipelineCliUsageError(problem);
+  }
+  return rule;
+}
+
+function parseRuleSchedule(flags: ParsedFlags): SchedulingRuleSchedule {
+  const date = parseDate(single(flags, 'date'), 'date');
+  const weekdays = (flags.values.get('weekday') ?? []).map(parseWeekday);
+  const from = parseDate(single(flags, 'from'), 'from');
+  const to = parseDate(single(flags, 'to'), 'to');
+  const yearly = single(flags, 'yearly');
+
+  const given = [date !== null, weekdays.length > 0, from !== null || to !== null, yearly !== null];
+  if (given.filter(Boolean).length !== 1) {
+    throw new PipelineCliUsageError('rules add needs one of --date, --weekday, --from/--to or --yearly');
+  }
+
+  if (date) {
+    return { type: 'date', date };
+  }
+  if (weekdays.length > 0) {
+    return { type: 'weekly', weekdays: [...new Set(weekdays)] };
+  }
+  if (yearly) {
+    const [yearlyFrom, yearlyTo = yearlyFrom] = yearly.split('..');
+    return { type: 'yearly', from: yearlyFrom, to: yearlyTo };
+  }
+  if (!from) {
+    throw new PipelineCliUsageError('--to needs --from');
+  }
+  checkRange(from, to ?? from);
+  return { type: 'range', from, to: to ?? from };
+}
+
+/**
+ * Weekday (0 = Sunday) from its name or an abbreviation of at least three letters
+ */
+function parseWeekday(value: string): number {
+  const name = value.toLowerCase();
+  const weekday = WEEKDAYS.findIndex((day) => name.length >= 3 && day.startsWith(name));
+  if (weekday === -1) {
+    throw new PipelineCliUsageError(`Unknown weekday: ${value} (expected e.g. mon or monday)`);
+  }
+  return weekday;
+}
+
+function parseCategory(value: string): ConnectionCategory {
+  if (!CATEGORIES.includes(value as ConnectionCategory)) {
+    throw new PipelineCliUsageError(`Unknown category: ${value} (expected one of ${CATEGORIES.join(', ')})`);
+  }
+  return value as ConnectionCategory;
+}
+
+function single(flags: ParsedFlags, flag: string): string | null {
+  const values = flags.values.get(flag) ?? [];
+  if (values.length > 1) {
+    throw new PipelineCliUsageError(`--${flag} can only be given once`);
+  }
+  return values[0] ?? null;
+}
+
+function parseGenre(value: string | null): Genre | null {
+  if (value === null) return null;
+  if (!GENRES.includes(value as Genre)) {
+    throw new PipelineCliUsageError(`Unknown genre: ${value} (expected one of ${GENRES.join(', ')})`);
+  }
+  return value as Genre;
+}
+
+function parseColor(value: string): DifficultyColor {
+  if (!COLORS.includes(value as DifficultyColor)) {
+    throw new PipelineCliUsageError(`Unknown color: ${value} (expected one of ${COLORS.join(', ')})`);
+  }
+  return value as DifficultyColor;
+}
+
+function parseStatus(value: string | null): GroupStatus | null {
+  if (value === null) return null;
+  if (!GROUP_STATUSES.includes(value as GroupStatus)) {
+    throw new PipelineCliUsageError(`Unknown status: ${value} (expected one of ${GROUP_STATUSES.join(', ')})`);
+  }
+  return value as GroupStatus;
+}
+
+function parseJobStatus(value: string | null): GenerationJobStatus | null {
+  if (value === null) return null;
+  if (!JOB_STATUSES.includes(value as GenerationJobStatus)) {
+    throw new PipelineCliUsageError(`Unknown status: ${value} (expected one of ${JOB_STATUSES.join(', ')})`);
+  }
+  return value as GenerationJobStatus;
+}
+
+function parseInteger(value: string | null, flag: string, min: number, max: number): number | null {
+  if (value === null) return null;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new PipelineCliUsageError(`--${flag} must be a whole number from ${min} to ${max}`);
+  }
+  return parsed;
+}
+
+function parseDate(value: string | null, flag: string): string | null {
+  if (value === null) return null;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(`${value}T00:00:00Z`))) {
+    throw new PipelineCliUsageError(`--${flag} must be a date (YYYY-MM-DD)`);
+  }
+  return value;
+}
+
+function checkRange(from: string, to: string): void {
+  if (to < from) {
+    throw new PipelineCliUsageError('--to must not be before --from');
+  }
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
@@ -0,0 +1,134 @@
+/**
+ * Pipeline Config Editing
+ *
+ * Field labels, validation and diffs for the pipeline config editor
+ * and the config change history.
+ */
+
+import type {
+  AutoApprovalMode,
+  PipelineConfigErrors,
+  PipelineConfigField,
+  PipelineConfigFieldChange,
+  PipelineConfigValues,
+} from './types';
+import { DEFAULT_PIPELINE_CONFIG } from './types';
+
+/**
+ * Every changeable field, in editor order
+ */
+export const PIPELINE_CONFIG_FIELDS: PipelineConfigField[] = [
+  'enabled',
+  'rollingWindowDays',
+  'minGroupsPerColor',
+  'aiGenerationBatchSize',
+  'monthlyTokenBudget',
+  'connectionTypeGapDays',
+  'autoApprovalMode',
+  'autoApprovalThreshold',
+  'selfCritiqueEnabled',
+];
+
+/**
+ * Fields copied between genres. Auto-fill stays as it is on the target genre.
+ */
+export const COPYABLE_CONFIG_FIELDS: PipelineConfigField[] = PIPELINE_CONFIG_FIELDS.filter(
+  (field) => field !== 'enabled'
+);
+
+export const PIPELINE_CONFIG_FIELD_LABELS: Record<PipelineConfigField, string> = {
+  enabled: 'Auto-fill',
+  rollingWindowDays: 'Rolling window (days)',
+  minGroupsPerColor: 'Reserve per color',
+  aiGenerationBatchSize: 'Generation batch size',
+  monthlyTokenBudget: 'Monthly token budget',
+  connectionTypeGapDays: 'Connection type gap (days)',
+  autoApprovalMode: 'Auto-approval',
+  autoApprovalThreshold: 'Auto-approval threshold',
+  selfCritiqueEnabled: 'AI self-critique',
+};
+
+/**
+ * Inclusive bounds of the integer fields
+ */
+export const PIPELINE_CONFIG_LIMITS = {
+  rollingWindowDays: { min: 1, max: 90 },
+  minGroupsPerColor: { min: 0, max: 100 },
+  // Generation requests are capped at 30 groups per color
+  aiGenerationBatchSize: { min: 1, max: 30 },
+  connectionTypeGapDays: { min: 0, max: 60 },
+  autoApprovalThreshold: { min: 0, max: 100 },
+} as const;
+
+const AUTO_APPROVAL_MODES: AutoApprovalMode[] = ['always', 'never', 'threshold'];
+
+/**
+ * Validate the given fields; fields left out are not checked
+ */
+export function validatePipelineConfig(values: Partial<PipelineConfigValues>): PipelineConfigErrors {
+  const errors: PipelineConfigErrors = {};
+
+  for (const [field, { min, max }] of Object.entries(PIPELINE_CONFIG_LIMITS) as [
+    keyof typeof PIPELINE_CONFIG_LIMITS,
+    { min: number; max: number },
+  ][]) {
+    const value = values[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < min || value > max)) {
+      errors[field] = `${PIPELINE_CONFIG_FIELD_LABELS[field]} must be a whole number from ${min} to ${max}`;
+    }
+  }
+
+  const budget = values.monthlyTokenBudget;
+  if (budget !== undefined && budget !== null && (!Number.isInteger(budget) || budget <= 0)) {
+    errors.monthlyTokenBudget = 'Monthly token budget must be a positive whole number, or empty for no limit';
+  }
+
+  if (values.autoApprovalMode !== undefined && !AUTO_APPROVAL_MODES.includes(values.autoApprovalMode)) {
+    errors.autoApprovalMode = `Auto-approval must be one of ${AUTO_APPROVAL_MODES.join(', ')}`;
+  }
+
+  return errors;
+}
+
+/**
+ * Fields that differ between two configs, in editor order
+ */
+export function diffPipelineConfig(
+  from: PipelineConfigValues,
+  to: PipelineConfigValues,
+  fields: PipelineConfigField[] = PIPELINE_CONFIG_FIELDS
+): PipelineConfigFieldChange[] {
+  return fields
+    .filter((field) => from[field] !== to[field])
+    .map((field) => ({ field, from: from[field], to: to[field] }));
+}
+
+/**
+ * Fields where a config departs from the defaults
+ */
+export function diffFromDefaults(config: PipelineConfigValues): PipelineConfigFieldChange[] {
+  return diffPipelineConfig(DEFAULT_PIPELINE_CONFIG, config);
+}
+
+/**
+ * Copy the given fields of a config
+ */
+export function pickConfigFields(
+  config: PipelineConfigValues,
+  fields: PipelineConfigField[]
+): Partial<PipelineConfigValues> {
+  return Object.fromEntries(fields.map((field) => [field, config[field]]));
+}
+
+/**
+ * Display a config value, e.g. `null` budgets as "No limit"
+ */
+export function formatConfigValue(
+  field: PipelineConfigField,
+  value: PipelineConfigValues[PipelineConfigField]
+): string {
+  if (value === null) return 'No limit';
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  if (typeof value === 'number' && field === 'monthlyTokenBudget') return value.toLocaleString('en-US');
+  return String(value);
+}
@@ -0,0 +1,200 @@
+/**
+ * Pool Forecast
+ *
+ * Projects when each color's unused pool runs dry and when the calendar
+ * first has a gap, from the rates groups were put into puzzles and approved
+ * over a recent lookback. PipelineService gathers the inputs; the Dashboard
+ * charts the result and the alert rules warn before a color runs dry.
+ */
+
+import type { DifficultyColor, StoredGroup } from '../../lib/supabase/storage/IGroupStorage';
+import type { Genre } from '../../types';
+import type { ColorForecast, PoolForecast, PoolForecastPoint } from './types';
+
+/** Days of history the rates are measured over */
+export const FORECAST_LOOKBACK_DAYS = 28;
+
+/** Days the charted projection covers */
+export const FORECAST_HORIZON_DAYS = 60;
+
+const COLORS: DifficultyColor[] = ['yellow', 'green', 'blue', 'purple'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PoolForecastInput {
+  genre: Genre;
+  /** YYYY-MM-DD */
+  today: string;
+  /** Rolling window the pipeline keeps filled */
+  windowDays: number;
+  /** Empty dates in the rolling window */
+  emptyDates: string[];
+  /** Approved groups of the genre, used or not */
+  groups: StoredGroup[];
+  /** Groups already in a puzzle */
+  usedGroupIds: Set<string>;
+  lookbackDays?: number;
+  horizonDays?: number;
+}
+
+/**
+ * Project the pool and calendar of a genre.
+ *
+ * Every puzzle takes one group per color, so the pool shrinks by the puzzle
+ * creation rate less the approval rate. The pipeline keeps creating puzzles
+ * at the measured rate (never further ahead than the window) until a color
+ * runs dry, and the calendar uses one puzzle a day; the first gap is the
+ * first day the puzzles made so far no longer cover.
+ */
+export function forecastPool(input: PoolForecastInput): PoolForecast {
+  const {
+    genre,
+    today,
+    windowDays,
+    emptyDates,
+    groups,
+    usedGroupIds,
+    lookbackDays = FORECAST_LOOKBACK_DAYS,
+    horizonDays = FORECAST_HORIZON_DAYS,
+  } = input;
+  const todayMs = Date.parse(`${today}T00:00:00Z`);
+  const lookbackStart = todayMs - lookbackDays * DAY_MS;
+
+  const measure = (color: DifficultyColor): ColorForecast => {
+    const ofColor = groups.filter((group) => group.color === color);
+    const unused = ofColor.filter((group) => !usedGroupIds.has(group.id)).length;
+    const used = ofColor.filter((group) => group.lastUsedAt !== null && group.lastUsedAt >= lookbackStart).length;
+    const approved = ofColor.filter((group) => group.createdAt >= lookbackStart).length;
+
+    const usedPerDay = used / lookbackDays;
+    const approvedPerDay = approved / lookbackDays;
+    const netBurnPerDay = usedPerDay - approvedPerDay;
+    const daysUntilDry = unused === 0 ? 0 : netBurnPerDay > 0 ? unused / netBurnPerDay : null;
+
+    return {
+      unused,
+      usedPerDay,
+      approvedPerDay,
+      netBurnPerDay,
+      daysUntilDry,
+      dryDate: daysUntilDry === null ? null : addDays(today, Math.floor(daysUntilDry)),
+    };
+  };
+
+  const colors = {
+    yellow: measure('yellow'),
+    green: measure('green'),
+    blue: measure('blue'),
+    purple: measure('purple'),
+  };
+
+  const firstDryColor = COLORS.reduce<DifficultyColor | null>((first, color) => {
+    const days = colors[color].daysUntilDry;
+    if (days === null) return first;
+    return first === null || days < (colors[first].daysUntilDry as number) ? color : first;
+  }, null);
+
+  // Puzzles take one group of each color, so the busiest color is the puzzle rate
+  const puzzlesPerDay = Math.max(...COLORS.map((color) => colors[color].usedPerDay));
+  const gap = projectFirstGap(
+    daysUntilFirstEmpty(today, emptyDates, windowDays),
+    puzzlesPerDay,
+    windowDays,
+    firstDryColor ? (colors[firstDryColor].daysUntilDry as number) : null
+  );
+
+  return {
+    genre,
+    today,
+    lookbackDays,
+    puzzlesPerDay,
+    colors,
+    firstDryColor,
+    daysUntilGap: gap === null ? null : Math.floor(gap),
+    gapDate: gap === null ? null : addDays(today, Math.floor(gap)),
+    series: projectSeries(today, colors, horizonDays),
+  };
+}
+
+/**
+ * Days of puzzles the pool has left in a color, phrased for admins
+ * ("purple runs dry in 12 days")
+ */
+export function describeColorForecast(color: DifficultyColor, forecast: ColorForecast): string {
+  const days = forecast.daysUntilDry;
+  if (days === null) return `${color} is not running down`;
+  if (forecast.unused === 0) return `${color} has run dry`;
+
+  const whole = Math.floor(days);
+  if (whole === 0) return `${color} runs dry today`;
+  if (whole === 1) return `${color} runs dry tomorrow`;
+  return `${color} runs dry in ${whole} days`;
+}
+
+/**
+ * Days from today to the first empty date, or the window length when the window is full
+ */
+function daysUntilFirstEmpty(today: string, emptyDates: string[], windowDays: number): number {
+  const firstEmpty = [...emptyDates].sort()[0];
+  if (!firstEmpty) return windowDays;
+  return Math.max(0, Math.round((Date.parse(`${firstEmpty}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / DAY_MS));
+}
+
+/**
+ * Day the calendar first runs out: puzzles cover `coveredDays` now, the
+ * pipeline adds `puzzlesPerDay` (at most up to the window) until the pool
+ * runs dry on `daysUntilDry`, and each day uses one puzzle
+ */
+function projectFirstGap(
+  coveredDays: number,
+  puzzlesPerDay: number,
+  windowDays: number,
+  daysUntilDry: number | null
+): number | null {
+  // Creating puzzles slower than one a day runs the calendar down even with a full pool
+  if (puzzlesPerDay < 1) {
+    const runsOut = coveredDays / (1 - puzzlesPerDay);
+    if (daysUntilDry === null || runsOut <= daysUntilDry) {
+      return runsOut;
+    }
+  }
+
+  if (daysUntilDry === null) {
+    return null;
+  }
+
+  // No puzzles are created after the pool runs dry; the calendar lasts as far as it got
+  return Math.min(coveredDays + puzzlesPerDay * daysUntilDry, windowDays + daysUntilDry);
+}
+
+function projectSeries(
+  today: string,
+  colors: Record<DifficultyColor, ColorForecast>,
+  horizonDays: number
+): PoolForecastPoint[] {
+  const series: PoolForecastPoint[] = [];
+
+  for (let day = 0; day <= horizonDays; day++) {
+    const unusedOn = (color: DifficultyColor) =>
+      Math.max(0, colors[color].unused - colors[color].netBurnPerDay * day);
+
+    series.push({
+      date: addDays(today, day),
+      unused: {
+        yellow: unusedOn('yellow'),
+        green: unusedOn('green'),
+        blue: unusedOn('blue'),
+        purple: unusedOn('purple'),
+      },
+    });
+  }
+
+  return series;
+}
+
+/**
+ * YYYY-MM-DD the given number of days after a YYYY-MM-DD date
+ */
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+}
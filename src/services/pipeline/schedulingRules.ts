@@ -0,0 +1,218 @@
+/**
+ * Scheduling Rules
+ *
+ * Helpers for themed days: which rules cover a date, which groups match a
+ * rule and whether a puzzle's groups honour it. Rules are stored per genre
+ * (SchedulingRuleStore) and applied by the assembly planner.
+ */
+
+import type { StoredGroup } from '../../lib/supabase/storage/IGroupStorage';
+import type { ConnectionCategory } from '../group-generator/types';
+import type { SchedulingRule, SchedulingRuleInput, SchedulingRuleSchedule } from './types';
+
+/** Groups in a puzzle, the most a rule can ask for */
+const GROUPS_PER_PUZZLE = 4;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_DAY_PATTERN = /^\d{2}-\d{2}$/;
+
+/**
+ * Whether a rule covers a date (YYYY-MM-DD). Inactive rules cover no dates.
+ */
+export function ruleAppliesOn(rule: SchedulingRule, date: string): boolean {
+  if (!rule.active) {
+    return false;
+  }
+
+  const { schedule } = rule;
+  switch (schedule.type) {
+    case 'date':
+      return date === schedule.date;
+    case 'weekly': {
+      const [year, month, day] = date.split('-').map(Number);
+      return schedule.weekdays.includes(new Date(Date.UTC(year, month - 1, day)).getUTCDay());
+    }
+    case 'range':
+      return date >= schedule.from && date <= schedule.to;
+    case 'yearly': {
+      const monthDay = date.slice(5);
+      return schedule.from <= schedule.to
+        ? monthDay >= schedule.from && monthDay <= schedule.to
+        : monthDay >= schedule.from || monthDay <= schedule.to;
+    }
+  }
+}
+
+/**
+ * Rules covering a date
+ */
+export function getRulesForDate(rules: SchedulingRule[], date: string): SchedulingRule[] {
+  return rules.filter((rule) => ruleAppliesOn(rule, date));
+}
+
+/**
+ * Tags of a group, from its metadata (lowercased)
+ */
+export function getGroupTags(group: StoredGroup): string[] {
+  const tags = group.metadata?.tags;
+  return Array.isArray(tags)
+    ? tags.filter((tag): tag is string => typeof tag === 'string').map((tag) => tag.toLowerCase())
+    : [];
+}
+
+/**
+ * Whether a group matches a rule by connection type, the type's category or a tag
+ *
+ * @param categories - Category of each connection type name
+ */
+export function groupMatchesRule(
+  group: StoredGroup,
+  rule: SchedulingRule,
+  categories: Map<string, ConnectionCategory>
+): boolean {
+  if (rule.connectionTypes.includes(group.connectionType)) {
+    return true;
+  }
+
+  const category = categories.get(group.connectionType);
+  if (category && rule.categories.includes(category)) {
+    return true;
+  }
+
+  const ruleTags = rule.tags.map((tag) => tag.toLowerCase());
+  return getGroupTags(group).some((tag) => ruleTags.includes(tag));
+}
+
+/**
+ * Number of groups matching a rule
+ */
+export function countMatchingGroups(
+  groups: StoredGroup[],
+  rule: SchedulingRule,
+  categories: Map<string, ConnectionCategory>
+): number {
+  return groups.filter((group) => groupMatchesRule(group, rule, categories)).length;
+}
+
+/**
+ * Whether a puzzle's groups honour a rule
+ */
+export function satisfiesRule(
+  groups: StoredGroup[],
+  rule: SchedulingRule,
+  categories: Map<string, ConnectionCategory>
+): boolean {
+  return countMatchingGroups(groups, rule, categories) >= rule.minGroups;
+}
+
+/**
+ * Why a puzzle's groups do not honour a rule
+ */
+export function describeRuleShortfall(
+  groups: StoredGroup[],
+  rule: SchedulingRule,
+  categories: Map<string, ConnectionCategory>
+): string {
+  const matching = countMatchingGroups(groups, rule, categories);
+  return `Needs ${rule.minGroups} matching group${rule.minGroups === 1 ? '' : 's'}, the puzzle has ${matching}`;
+}
+
+/**
+ * When a rule applies, for display (e.g. 'Every Friday')
+ */
+export function describeRuleSchedule(schedule: SchedulingRuleSchedule): string {
+  switch (schedule.type) {
+    case 'date':
+      return schedule.date;
+    case 'weekly':
+      return `Every ${[...schedule.weekdays]
+        .sort((a, b) => a - b)
+        .map((weekday) => WEEKDAY_NAMES[weekday])
+        .join(', ')}`;
+    case 'range':
+      return `${schedule.from} to ${schedule.to}`;
+    case 'yearly':
+      return schedule.from === schedule.to
+        ? `Every year on ${schedule.from}`
+        : `Every year from ${schedule.from} to ${schedule.to}`;
+  }
+}
+
+/**
+ * What a rule asks for, for display (e.g. 'at least 2 groups: category thematic, tag horror')
+ */
+export function describeRuleConstraints(
+  rule: Pick<SchedulingRule, 'connectionTypes' | 'categories' | 'tags' | 'minGroups'>
+): string {
+  const constraints = [
+    ...rule.connectionTypes.map((type) => `type "${type}"`),
+    ...rule.categories.map((category) => `category ${category}`),
+    ...rule.tags.map((tag) => `tag ${tag}`),
+  ];
+  return `at least ${rule.minGroups} group${rule.minGroups === 1 ? '' : 's'}: ${constraints.join(', ')}`;
+}
+
+/**
+ * Check a rule before it is stored. Returns the problems found (empty when valid).
+ */
+export function validateSchedulingRule(rule: SchedulingRuleInput): string[] {
+  const errors: string[] = [];
+
+  if (!rule.name.trim()) {
+    errors.push('A rule needs a name');
+  }
+
+  const { schedule } = rule;
+  switch (schedule.type) {
+    case 'date':
+      if (!isValidDate(schedule.date)) {
+        errors.push(`Invalid date: ${schedule.date} (expected YYYY-MM-DD)`);
+      }
+      break;
+    case 'weekly':
+      if (schedule.weekdays.length === 0) {
+        errors.push('A weekly rule needs at least one weekday');
+      } else if (schedule.weekdays.some((weekday) => !Number.isInteger(weekday) || weekday < 0 || weekday > 6)) {
+        errors.push('Weekdays must be 0 (Sunday) to 6 (Saturday)');
+      }
+      break;
+    case 'range':
+      if (!isValidDate(schedule.from) || !isValidDate(schedule.to)) {
+        errors.push(`Invalid range: ${schedule.from} to ${schedule.to} (expected YYYY-MM-DD)`);
+      } else if (schedule.from > schedule.to) {
+        errors.push('The range must end on or after its start');
+      }
+      break;
+    case 'yearly':
+      if (!isValidMonthDay(schedule.from) || !isValidMonthDay(schedule.to)) {
+        errors.push(`Invalid yearly range: ${schedule.from} to ${schedule.to} (expected MM-DD)`);
+      }
+      break;
+  }
+
+  if (rule.connectionTypes.length + rule.categories.length + rule.tags.length === 0) {
+    errors.push('A rule needs at least one connection type, category or tag');
+  }
+
+  if (!Number.isInteger(rule.minGroups) || rule.minGroups < 1 || rule.minGroups > GROUPS_PER_PUZZLE) {
+    errors.push(`Minimum groups must be a whole number from 1 to ${GROUPS_PER_PUZZLE}`);
+  }
+
+  return errors;
+}
+
+function isValidDate(date: string): boolean {
+  if (!DATE_PATTERN.test(date)) {
+    return false;
+  }
+  const [year, month, day] = date.split('-').map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+}
+
+function isValidMonthDay(monthDay: string): boolean {
+  // 2024 is a leap year, so 02-29 is accepted
+  return MONTH_DAY_PATTERN.test(monthDay) && isValidDate(`2024-${monthDay}`);
+}
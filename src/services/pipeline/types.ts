@@ -5,6 +5,9 @@
  */
 
 import type { Genre } from '../../types';
+import type { DifficultyColor, StoredGroup } from '../../lib/supabase/storage/IGroupStorage';
+import type { OverlapAnalysis } from '../puzzle-analysis/types';
+import type { ConnectionCategory } from '../group-generator/types';
 
 /**
  * Pipeline configuration options.
@@ -17,12 +20,108 @@ export interface PipelineConfig {
   rollingWindowDays: number;
   /** Genre this config applies to */
   genre: Genre;
-  /** Minimum approved groups per color before triggering AI generation (default: 10) */
+  /** Unused approved groups to keep per color beyond what the rolling window needs; AI generation tops the pool up to this reserve (default: 10) */
   minGroupsPerColor: number;
   /** Number of groups to generate when pool is low (default: 20) */
   aiGenerationBatchSize: number;
+  /** Maximum input + output tokens AI generation may use per calendar month (UTC); null for no limit */
+  monthlyTokenBudget: number | null;
+  /** Minimum days between puzzles that use the same connection type (default: 7) */
+  connectionTypeGapDays: number;
+  /** Whether generated groups are approved automatically (default: 'threshold') */
+  autoApprovalMode: AutoApprovalMode;
+  /** Minimum quality score (0-100) for auto-approval in 'threshold' mode (default: 80) */
+  autoApprovalThreshold: number;
+  /** Whether to ask the AI to critique each generated group before scoring it (default: false; server-side fills only) */
+  selfCritiqueEnabled: boolean;
 }
 
+/**
+ * Config fields that can be changed (the genre identifies the config itself)
+ */
+export type PipelineConfigField = Exclude<keyof PipelineConfig, 'genre'>;
+
+/**
+ * Config values keyed by field
+ */
+export type PipelineConfigValues = Omit<PipelineConfig, 'genre'>;
+
+/**
+ * Validation errors keyed by field
+ */
+export type PipelineConfigErrors = Partial<Record<PipelineConfigField, string>>;
+
+/**
+ * One field's change between two configs
+ */
+export interface PipelineConfigFieldChange {
+  field: PipelineConfigField;
+  from: PipelineConfigValues[PipelineConfigField];
+  to: PipelineConfigValues[PipelineConfigField];
+}
+
+/**
+ * How a config change was made:
+ * - edit: saved from the config editor
+ * - toggle: the auto-fill switch
+ * - reset: reset to defaults
+ * - copy: copied from another genre's config
+ * - revert: reverted an earlier change
+ */
+export type PipelineConfigChangeSource = 'edit' | 'toggle' | 'reset' | 'copy' | 'revert';
+
+/**
+ * A recorded change to a genre's pipeline config
+ */
+export interface PipelineConfigChange {
+  id: string;
+  genre: Genre;
+  /** Who made the change (an admin's email) */
+  changedBy: string;
+  changedAt: Date;
+  source: PipelineConfigChangeSource;
+  /** Fields that changed, with their previous and new values */
+  changes: PipelineConfigFieldChange[];
+  /** Genre the values were copied from ('copy' only) */
+  copiedFrom: Genre | null;
+  /** Change this one reverted ('revert' only) */
+  revertedChangeId: string | null;
+}
+
+/**
+ * Config change before it is stored
+ */
+export type PipelineConfigChangeInput = Omit<PipelineConfigChange, 'id' | 'changedAt'>;
+
+/**
+ * Who is changing the config and how, recorded with the change
+ */
+export interface PipelineConfigChangeContext {
+  /** Recorded as 'unknown' when omitted */
+  changedBy?: string;
+  source?: PipelineConfigChangeSource;
+  copiedFrom?: Genre;
+  revertedChangeId?: string;
+}
+
+/**
+ * Persists the history of config changes
+ */
+export interface IPipelineConfigHistory {
+  record(change: PipelineConfigChangeInput): Promise<void>;
+  /** Most recent changes first */
+  listChanges(genre: Genre, limit?: number): Promise<PipelineConfigChange[]>;
+  getChange(id: string): Promise<PipelineConfigChange | null>;
+}
+
+/**
+ * How generated groups are approved:
+ * - always: every fully verified, non-duplicate group is approved
+ * - never: every group waits in the review queue
+ * - threshold: groups scoring at least the threshold are approved, the rest wait for review
+ */
+export type AutoApprovalMode = 'always' | 'never' | 'threshold';
+
 /**
  * Default pipeline configuration values
  */
@@ -31,8 +130,65 @@ export const DEFAULT_PIPELINE_CONFIG: Omit<PipelineConfig, 'genre'> = {
   rollingWindowDays: 30,
   minGroupsPerColor: 10,
   aiGenerationBatchSize: 20,
+  monthlyTokenBudget: null,
+  connectionTypeGapDays: 7,
+  autoApprovalMode: 'threshold',
+  autoApprovalThreshold: 80,
+  selfCritiqueEnabled: false,
 };
 
+/**
+ * Auto-approval policy applied to generated groups
+ */
+export interface AutoApprovalPolicy {
+  mode: AutoApprovalMode;
+  /** Minimum quality score (0-100) for 'threshold' mode */
+  threshold: number;
+  /** Whether to run the AI self-critique pass */
+  selfCritique: boolean;
+}
+
+/**
+ * AI self-critique of a generated group
+ */
+export interface GroupCritique {
+  /** Quality score from 0 (unusable) to 100 (excellent) */
+  score: number;
+  /** Short explanation of the score */
+  notes: string;
+}
+
+/**
+ * Critiques generated groups (e.g. a second AI pass)
+ */
+export interface IGroupCritic {
+  critique(
+    group: { connection: string; items: { title: string; year?: number }[] },
+    genre: Genre
+  ): Promise<GroupCritique>;
+}
+
+/**
+ * Quality gate assessment of a generated group.
+ * Stored in the group's metadata under `qualityGate` for the review queue.
+ */
+export interface GroupQualityAssessment {
+  /** Combined quality score (0-100) */
+  score: number;
+  /** Share of items verified against the catalogue (0-1) */
+  verificationRate: number;
+  /** Highest similarity to a group already in the pool (0-1) */
+  closestSimilarity: number;
+  /** AI self-critique, when the pass ran */
+  critique?: GroupCritique;
+  /** Approval mode the group was assessed under */
+  mode: AutoApprovalMode;
+  /** Whether the group was approved automatically */
+  approved: boolean;
+  /** Why the group was held for review (empty when approved) */
+  reasons: string[];
+}
+
 /**
  * Result of a pipeline fill operation
  */
@@ -47,6 +203,8 @@ export interface PipelineFillResult {
   groupsGenerated: number;
   /** Number of groups successfully saved */
   groupsSaved: number;
+  /** Number of saved groups held for review by the quality gate */
+  groupsPendingReview: number;
   /** Groups generated/saved by color */
   groupsByColor: {
     yellow: { generated: number; saved: number };
@@ -56,6 +214,50 @@ export interface PipelineFillResult {
   };
   /** List of errors encountered during fill */
   errors: PipelineError[];
+  /** Things worth knowing that did not stop the fill (skipped groups, missed rules) */
+  warnings: PipelineWarning[];
+  /** Puzzles created, by date (empty for dry runs) */
+  createdPuzzles: CreatedPuzzleSummary[];
+  /** Persisted generation job of the fill, which can be resumed if it did not complete */
+  generationJobId?: string | null;
+  /**
+   * Set for dry runs. Counts then describe what the fill would do:
+   * puzzlesCreated is the number of planned puzzles and groupsByColor.generated
+   * the groups that would be requested; nothing is generated or saved.
+   */
+  preview?: PipelineFillPreview;
+}
+
+/**
+ * Options for a pipeline fill
+ */
+export interface PipelineFillOptions {
+  /** Plan the fill without generating groups or writing to storage */
+  dryRun?: boolean;
+  /** What started the fill; recorded in the run history (default: 'manual') */
+  trigger?: PipelineRunTrigger;
+  /** Who started the fill, shown to others while it holds the genre's lease (default: the trigger) */
+  holder?: string;
+}
+
+/**
+ * A puzzle created by a fill
+ */
+export interface CreatedPuzzleSummary {
+  /** Date the puzzle was scheduled for (YYYY-MM-DD) */
+  date: string;
+  puzzleId: string;
+  groupIds: string[];
+}
+
+/**
+ * What a dry-run fill would do
+ */
+export interface PipelineFillPreview {
+  /** Puzzles that would be created, by date, planned from the current pool only (not the groups generation would add) */
+  plan: AssemblyPlan;
+  /** AI generation that would be requested (null when none would run) */
+  generation: { groupsPerColor: number; colors: DifficultyColor[] } | null;
 }
 
 /**
@@ -70,6 +272,16 @@ export interface PipelineError {
   code: PipelineErrorCode;
 }
 
+/**
+ * Something a fill reports that is not a failure
+ */
+export interface PipelineWarning {
+  /** Date it concerns (YYYY-MM-DD), empty when it is not about a date */
+  date: string;
+  message: string;
+  code: PipelineWarningCode;
+}
+
 /**
  * Pipeline error codes
  */
@@ -77,8 +289,114 @@ export type PipelineErrorCode =
   | 'INSUFFICIENT_GROUPS'
   | 'DUPLICATE_PUZZLE'
   | 'GENERATION_FAILED'
+  | 'BUDGET_EXCEEDED'
   | 'STORAGE_ERROR';
 
+/**
+ * Pipeline warning codes: a generated group that was skipped (invalid,
+ * unverifiable or a likely duplicate), or a themed day whose puzzle does not
+ * honour its scheduling rules
+ */
+export type PipelineWarningCode = 'GROUP_SKIPPED' | 'RULE_UNSATISFIED';
+
+/**
+ * A puzzle the assembly planner intends to create
+ */
+export interface PlannedPuzzle {
+  /** Date the puzzle will be published (YYYY-MM-DD) */
+  date: string;
+  /** One group per color, in yellow, green, blue, purple order */
+  groups: StoredGroup[];
+  /** Red-herring analysis, when an overlap analyzer was used */
+  analysis?: OverlapAnalysis;
+}
+
+/**
+ * A date the assembly planner could not fill
+ */
+export interface UnplannedDate {
+  /** Date (YYYY-MM-DD) */
+  date: string;
+  /** Why no puzzle could be assembled */
+  reason: string;
+}
+
+/**
+ * Plan for every empty date in the rolling window.
+ * Nothing is written until the plan is applied.
+ */
+export interface AssemblyPlan {
+  genre: Genre;
+  puzzles: PlannedPuzzle[];
+  unplannedDates: UnplannedDate[];
+  /** Themed-day rules the plan could not honour, by date */
+  unsatisfiedRules: UnsatisfiedRule[];
+}
+
+/**
+ * When a scheduling rule applies:
+ * - date: a single date (YYYY-MM-DD)
+ * - weekly: every week on the given weekdays (0 = Sunday)
+ * - range: every date from `from` to `to` inclusive (YYYY-MM-DD)
+ * - yearly: every year from `from` to `to` inclusive (MM-DD); wraps the new year when `to` is before `from`
+ */
+export type SchedulingRuleSchedule =
+  | { type: 'date'; date: string }
+  | { type: 'weekly'; weekdays: number[] }
+  | { type: 'range'; from: string; to: string }
+  | { type: 'yearly'; from: string; to: string };
+
+/**
+ * A themed day (or days): on the dates it covers, puzzles need at least
+ * `minGroups` groups matching the rule. A group matches when its connection
+ * type, the type's category or one of its tags (metadata.tags) is listed.
+ */
+export interface SchedulingRule {
+  id: string;
+  createdAt: Date;
+  genre: Genre;
+  /** Shown on the calendar, e.g. 'Halloween week' */
+  name: string;
+  schedule: SchedulingRuleSchedule;
+  /** Connection type names */
+  connectionTypes: string[];
+  categories: ConnectionCategory[];
+  /** Group tags */
+  tags: string[];
+  /** Matching groups a puzzle needs (1-4) */
+  minGroups: number;
+  /** Inactive rules are kept but not applied */
+  active: boolean;
+}
+
+/**
+ * Scheduling rule before it is stored
+ */
+export type SchedulingRuleInput = Omit<SchedulingRule, 'id' | 'createdAt'>;
+
+/**
+ * Persists scheduling rules
+ */
+export interface ISchedulingRuleStore {
+  /** Rules of the genre, oldest first */
+  listRules(genre: Genre, options?: { activeOnly?: boolean }): Promise<SchedulingRule[]>;
+  createRule(rule: SchedulingRuleInput): Promise<SchedulingRule>;
+  setRuleActive(id: string, active: boolean): Promise<void>;
+  deleteRule(id: string): Promise<void>;
+}
+
+/**
+ * A scheduling rule a date's puzzle does not honour
+ */
+export interface UnsatisfiedRule {
+  /** Date (YYYY-MM-DD) */
+  date: string;
+  ruleId: string;
+  ruleName: string;
+  /** Why the rule is not met */
+  reason: string;
+}
+
 /**
  * Group availability by color.
  * Used to check pool health before pipeline operations.
@@ -98,6 +416,76 @@ export interface GroupAvailability {
   sufficient: boolean;
 }
 
+/**
+ * Standing reserve of one color: unused approved groups compared with
+ * what the rolling window needs plus the configured reserve
+ */
+export interface ColorReserve {
+  /** Unused approved groups */
+  unused: number;
+  /** Groups the empty dates in the window still need */
+  neededForWindow: number;
+  /** Unused groups beyond what the window needs (negative when the window is short) */
+  spare: number;
+  /** Spare groups to keep (minGroupsPerColor) */
+  target: number;
+}
+
+/**
+ * Standing reserve by color
+ */
+export type PoolReserve = Record<DifficultyColor, ColorReserve>;
+
+/**
+ * Projected burn of one color's unused pool
+ */
+export interface ColorForecast {
+  /** Unused approved groups today */
+  unused: number;
+  /** Groups put into puzzles per day over the lookback */
+  usedPerDay: number;
+  /** Groups approved per day over the lookback */
+  approvedPerDay: number;
+  /** Groups per day the pool shrinks by (negative when it grows) */
+  netBurnPerDay: number;
+  /** Days until no unused groups are left, or null if the pool is not shrinking */
+  daysUntilDry: number | null;
+  /** YYYY-MM-DD the pool runs dry, or null */
+  dryDate: string | null;
+}
+
+/**
+ * Projected unused groups by color on one day
+ */
+export interface PoolForecastPoint {
+  /** YYYY-MM-DD */
+  date: string;
+  unused: Record<DifficultyColor, number>;
+}
+
+/**
+ * When each color's pool runs dry and the calendar first has a gap,
+ * projected from recent puzzle creation and group approval rates
+ */
+export interface PoolForecast {
+  genre: Genre;
+  /** YYYY-MM-DD the projection starts from */
+  today: string;
+  /** Days of history the rates are measured over */
+  lookbackDays: number;
+  /** Puzzles created per day over the lookback */
+  puzzlesPerDay: number;
+  colors: Record<DifficultyColor, ColorForecast>;
+  /** Color that runs dry first, or null if none is shrinking */
+  firstDryColor: DifficultyColor | null;
+  /** Days until the first day without a puzzle, or null if none is projected */
+  daysUntilGap: number | null;
+  /** YYYY-MM-DD of the first day without a puzzle, or null */
+  gapDate: string | null;
+  /** Projected unused groups for each day of the horizon, for charting */
+  series: PoolForecastPoint[];
+}
+
 /**
  * Pipeline status for UI display
  */
@@ -130,6 +518,198 @@ export type PipelineStage =
   | 'complete'
   | 'error';
 
+/**
+ * What started a pipeline run:
+ * - manual: Fill Now in the admin
+ * - cron: the scheduled GitHub Actions workflow
+ * - cli: the fill script run by hand
+ */
+export type PipelineRunTrigger = 'manual' | 'cron' | 'cli';
+
+/**
+ * Outcome of a pipeline run: partial when any date stayed empty or an error was reported,
+ * failed when the run was aborted by an exception
+ */
+export type PipelineRunStatus = 'success' | 'partial' | 'failed';
+
+/**
+ * Time spent in one pipeline stage
+ */
+export interface PipelineStageTiming {
+  stage: PipelineStage;
+  /** ISO timestamp the stage started */
+  startedAt: string;
+  durationMs: number;
+}
+
+/**
+ * A recorded pipeline fill (dry runs are not recorded)
+ */
+export interface PipelineRun {
+  id: string;
+  genre: Genre;
+  trigger: PipelineRunTrigger;
+  status: PipelineRunStatus;
+  startedAt: Date;
+  finishedAt: Date;
+  /** Config the run used */
+  config: PipelineConfig;
+  stageTimings: PipelineStageTiming[];
+  aiGenerationTriggered: boolean;
+  groupsGenerated: number;
+  groupsSaved: number;
+  groupsPendingReview: number;
+  groupsByColor: PipelineFillResult['groupsByColor'];
+  puzzlesCreated: number;
+  emptyDaysRemaining: number;
+  puzzles: CreatedPuzzleSummary[];
+  errors: PipelineError[];
+  warnings: PipelineWarning[];
+  /** Message of the exception that aborted a failed run */
+  failureMessage: string | null;
+}
+
+/**
+ * Pipeline run before it is stored
+ */
+export type PipelineRunInput = Omit<PipelineRun, 'id'>;
+
+/**
+ * Persists pipeline runs for the run history
+ */
+export interface IPipelineRunLog {
+  record(run: PipelineRunInput): Promise<void>;
+  /** Most recent runs first, optionally filtered by genre */
+  listRuns(options?: { genre?: Genre; limit?: number }): Promise<PipelineRun[]>;
+  getRun(id: string): Promise<PipelineRun | null>;
+}
+
+/**
+ * Lease on a genre's pipeline. Only the fill holding it may fill the genre
+ * until it expires; an expired lease is reclaimed by the next fill.
+ */
+export interface PipelineLease {
+  genre: Genre;
+  /** Random token identifying the fill that holds the lease */
+  token: string;
+  /** Who holds the lease, for display (an admin's email, a GitHub Actions run, user@host) */
+  holder: string;
+  trigger: PipelineRunTrigger;
+  acquiredAt: Date;
+  expiresAt: Date;
+  /** Whether the lease had expired when it was read (left behind by a crashed fill) */
+  isExpired: boolean;
+}
+
+/**
+ * Fill asking for a genre's lease
+ */
+export interface PipelineLeaseRequest {
+  token: string;
+  holder: string;
+  trigger: PipelineRunTrigger;
+}
+
+/**
+ * Per-genre lease lock that keeps concurrent fills apart
+ */
+export interface IPipelineLock {
+  /**
+   * Take the lease for `ttlMs` when it is free, expired or already held with the
+   * request's token (a renewal). Returns the lease holding the genre afterwards;
+   * the request owns it when the tokens match.
+   */
+  acquire(genre: Genre, request: PipelineLeaseRequest, ttlMs: number): Promise<PipelineLease>;
+  /**
+   * Extend the lease by `ttlMs` if it is still held with `token`. Never
+   * creates a lease; false when it was released or taken over.
+   */
+  renew(genre: Genre, token: string, ttlMs: number): Promise<boolean>;
+  /** Release the lease if it is still held with `token` */
+  release(genre: Genre, token: string): Promise<void>;
+  /** Lease currently stored for the genre, expired or not */
+  getLease(genre: Genre): Promise<PipelineLease | null>;
+}
+
+/**
+ * Generation job status. A running job that stopped checkpointing was
+ * interrupted (see isGenerationJobStale) and can be resumed like a failed one.
+ */
+export type GenerationJobStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * Status of one chunk of a generation job
+ */
+export type GenerationChunkStatus = 'pending' | 'completed' | 'failed';
+
+/**
+ * One provider call of a generation job: up to GENERATION_CHUNK_SIZE groups of a color
+ */
+export interface GenerationJobChunk {
+  color: DifficultyColor;
+  /** Groups requested */
+  count: number;
+  status: GenerationChunkStatus;
+  /** Attempts made so far, across resumes */
+  attempts: number;
+  /** Groups returned by the provider (including ones dropped by validation) */
+  generated: number;
+  /** Groups saved, approved or pending */
+  saved: number;
+  /** Saved groups held for review */
+  pending: number;
+  /** Group errors and failed attempts */
+  errors: string[];
+  /** Groups skipped without failing the chunk (absent on chunks stored before warnings) */
+  warnings?: string[];
+}
+
+/**
+ * A persisted group generation request, split into chunks and checkpointed
+ * after each one so an interrupted job can be resumed
+ */
+export interface GenerationJob {
+  id: string;
+  genre: Genre;
+  trigger: PipelineRunTrigger;
+  status: GenerationJobStatus;
+  approvalPolicy: AutoApprovalPolicy;
+  chunks: GenerationJobChunk[];
+  createdAt: Date;
+  /** Last checkpoint */
+  updatedAt: Date;
+  finishedAt: Date | null;
+  /** Error that stopped the job before its chunks ran (e.g. no connection types) */
+  failureMessage: string | null;
+}
+
+export type GenerationJobInput = Pick<GenerationJob, 'genre' | 'trigger' | 'approvalPolicy' | 'chunks'>;
+
+/**
+ * Fields written at each checkpoint
+ */
+export type GenerationJobCheckpoint = Pick<GenerationJob, 'status' | 'chunks' | 'finishedAt' | 'failureMessage'>;
+
+/**
+ * Persists generation jobs and their checkpoints
+ */
+export interface IGenerationJobStore {
+  create(job: GenerationJobInput): Promise<GenerationJob>;
+  checkpoint(id: string, checkpoint: GenerationJobCheckpoint): Promise<void>;
+  getJob(id: string): Promise<GenerationJob | null>;
+  /** Most recent jobs first */
+  listJobs(options?: { genre?: Genre; status?: GenerationJobStatus; limit?: number }): Promise<GenerationJob[]>;
+}
+
+/**
+ * Pipeline run trigger labels for UI display
+ */
+export const PIPELINE_TRIGGER_LABELS: Record<PipelineRunTrigger, string> = {
+  manual: 'Fill Now',
+  cron: 'Scheduled',
+  cli: 'CLI',
+};
+
 /**
  * Pipeline stage labels for UI display
  */
@@ -159,6 +739,7 @@ export interface PipelineProgress {
 }
 
 /**
- * Callback for reporting pipeline stage changes
+ * Callback for reporting pipeline stage changes, with counts where the stage has them
+ * (e.g. groups generated of groups requested while generating)
  */
-export type PipelineStageCallback = (stage: PipelineStage) => void;
+export type PipelineStageCallback = (stage: PipelineStage, progress?: PipelineProgress['progress']) => void;
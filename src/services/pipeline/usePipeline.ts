@@ -9,14 +9,36 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '../../lib/supabase/types';
 import type { Genre } from '../../types';
-import type { PipelineConfig, PipelineFillResult, PipelineStage } from './types';
+import type {
+  GenerationJob,
+  IGenerationJobStore,
+  IPipelineLock,
+  IPipelineRunLog,
+  ISchedulingRuleStore,
+  PipelineConfig,
+  PipelineFillResult,
+  PipelineProgress,
+  PipelineRunTrigger,
+  PipelineStage,
+} from './types';
 import { PipelineService } from './PipelineService';
 import { PipelineConfigStore } from './PipelineConfigStore';
-import { PipelineGenerator } from './PipelineGenerator';
+import { PipelineConfigHistoryStore } from './PipelineConfigHistoryStore';
+import { PipelineRunStore } from './PipelineRunStore';
+import { PipelineLockStore } from './PipelineLockStore';
+import { GenerationJobStore } from './GenerationJobStore';
+import { SchedulingRuleStore } from './SchedulingRuleStore';
+import { PipelineGenerator, type PipelineGenerationResult } from './PipelineGenerator';
 import type { IPuzzleStorage } from '../../lib/supabase/storage/IPuzzleStorage';
 import type { IGroupStorage } from '../../lib/supabase/storage/IGroupStorage';
-import type { IConnectionTypeStore, IFeedbackStore, IItemVerifier } from '../group-generator/types';
-import { generateGroupsV2Browser } from '../group-generator/generateGroupsV2';
+import type {
+  IConnectionTypeStore,
+  IFeedbackStore,
+  IGenerationLedger,
+  IGroupGenerationProvider,
+  IItemVerifier,
+} from '../group-generator/types';
+import type { IOverlapAnalyzer } from '../puzzle-analysis/types';
 
 /**
  * Options for fill rolling window with AI generation
@@ -27,19 +49,62 @@ interface FillWithGenerationOptions {
   connectionTypeStore: IConnectionTypeStore;
   feedbackStore: IFeedbackStore;
   itemVerifier: IItemVerifier;
-  apiKey?: string;
+  /** Generation provider; AI generation is skipped when omitted */
+  provider?: IGroupGenerationProvider;
+  /** Ledger used to enforce the monthly token budget */
+  generationLedger?: IGenerationLedger;
+  /** Analyzer used to prefer group sets with healthy misdirection */
+  overlapAnalyzer?: IOverlapAnalyzer;
+  /** Run history; fills are not recorded when omitted */
+  runLog?: IPipelineRunLog;
+  /** What started the fill, recorded in the run history (default: manual) */
+  trigger?: PipelineRunTrigger;
+  /** Per-genre lock; fills are not locked when omitted */
+  lock?: IPipelineLock;
+  /** Who starts the fill, shown to others while it holds the lock */
+  holder?: string;
+  /** Generation job store; generation is not resumable when omitted */
+  jobStore?: IGenerationJobStore;
+  /** Themed-day rules; fills ignore themed days when omitted */
+  ruleStore?: ISchedulingRuleStore;
 }
 
+/** How often the lock status is refreshed, since scheduled fills take it without the admin */
+const LEASE_REFETCH_INTERVAL_MS = 30 * 1000;
+
+/** How often generation jobs are refreshed while one is running, to show its progress */
+const RUNNING_JOB_REFETCH_INTERVAL_MS = 5 * 1000;
+
+/** Recent generation jobs listed per genre */
+const GENERATION_JOB_LIMIT = 5;
+
 // Query keys
 const PIPELINE_KEYS = {
   config: (genre: Genre) => ['pipeline', 'config', genre] as const,
   poolHealth: (genre: Genre) => ['pipeline', 'poolHealth', genre] as const,
+  poolReserve: (genre: Genre, windowDays: number, minGroupsPerColor: number) =>
+    ['pipeline', 'poolReserve', genre, windowDays, minGroupsPerColor] as const,
+  poolForecast: (genre: Genre, windowDays: number) =>
+    ['pipeline', 'poolForecast', genre, windowDays] as const,
   scheduledCount: (genre: Genre, windowDays: number) =>
     ['pipeline', 'scheduledCount', genre, windowDays] as const,
   emptyDates: (genre: Genre, windowDays: number) =>
     ['pipeline', 'emptyDates', genre, windowDays] as const,
+  runs: (genre: Genre | undefined) => ['pipeline', 'runs', genre ?? 'all'] as const,
+  run: (id: string) => ['pipeline', 'run', id] as const,
+  lease: (genre: Genre) => ['pipeline', 'lease', genre] as const,
+  configHistory: (genre: Genre) => ['pipeline', 'configHistory', genre] as const,
+  generationJobs: (genre: Genre) => ['pipeline', 'generationJobs', genre] as const,
+  schedulingRules: (genre: Genre) => ['pipeline', 'schedulingRules', genre] as const,
 };
 
+/**
+ * Config store that records every change in the config history
+ */
+function createConfigStore(supabase: SupabaseClient<Database>): PipelineConfigStore {
+  return new PipelineConfigStore(supabase, new PipelineConfigHistoryStore(supabase));
+}
+
 /**
  * Hook to get pipeline configuration for a genre
  */
@@ -56,20 +121,22 @@ export function usePipelineConfig(
 }
 
 /**
- * Hook to update pipeline configuration
+ * Hook to update pipeline configuration, recording the change as made by `changedBy`
  */
 export function useUpdatePipelineConfig(
   supabase: SupabaseClient<Database>,
-  genre: Genre
+  genre: Genre,
+  changedBy?: string
 ) {
   const queryClient = useQueryClient();
-  const store = new PipelineConfigStore(supabase);
+  const store = createConfigStore(supabase);
 
   return useMutation({
     mutationFn: (updates: Partial<Omit<PipelineConfig, 'genre'>>) =>
-      store.updateConfig(genre, updates),
+      store.updateConfig(genre, updates, { changedBy }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: PIPELINE_KEYS.config(genre) });
+      queryClient.invalidateQueries({ queryKey: PIPELINE_KEYS.configHistory(genre) });
     },
   });
 }
@@ -79,19 +146,96 @@ export function useUpdatePipelineConfig(
  */
 export function useTogglePipelineEnabled(
   supabase: SupabaseClient<Database>,
-  genre: Genre
+  genre: Genre,
+  changedBy?: string
 ) {
   const queryClient = useQueryClient();
-  const store = new PipelineConfigStore(supabase);
+  const store = createConfigStore(supabase);
 
   return useMutation({
-    mutationFn: () => store.toggleEnabled(genre),
+    mutationFn: () => store.toggleEnabled(genre, { changedBy }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: PIPELINE_KEYS.config(genre) });
+      queryClient.invalidateQueries({ queryKey: PIPELINE_KEYS.configHistory(genre) });
     },
   });
 }
 
+/**
+ * Hook to reset pipeline configuration to defaults
+ */
+export function useResetPipelineConfig(
+  supabase: SupabaseClient<Database>,
+  genre: Genre,
+  changedBy?: string
+) {
+  const queryClient = useQueryClient();
+  const store = createConfigStore(supabase);
+
+  return useMutation({
+    mutationFn: () => store.resetToDefaults(genre, { changedBy }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PIPELINE_KEYS.config(genre) });
+      queryClient.invalidateQueries({ queryKey: PIPELINE_KEYS.configHistory(genre) });
+    },
+  });
+}
+
+/**
+ * Hook to copy another genre's pipeline settings to this genre
+ */
+export function useCopyPipelineConfig(
+  supabase: SupabaseClient<Database>,
+  genre: Genre,
+  changedBy?: string
+) {
+  const queryClient = useQueryClient();
+  const store = createConfigStore(supabase);
+
+  return useMutation({
+    mutationFn: (sourceGenre: Genre) => store.copyFromGenre(genre, sourceGenre, { changedBy }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PIPELINE_KEYS.config(genre) });
+      queryClient.invalidateQueries({ queryKey: PIPELINE_KEYS.configHistory(genre) });
+    },
+  });
+}
+
+/**
+ * Hook to revert a recorded pipeline config change
+ */
+export function useRevertPipelineConfigChange(
+  supabase: SupabaseClient<Database>,
+  genre: Genre,
+  changedBy?: string
+) {
+  const queryClient = useQueryClient();
+  const store = createConfigStore(supabase);
+
+  return useMutation({
+    mutationFn: (changeId: string) => store.revertChange(changeId, { changedBy }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PIPELINE_KEYS.config(genre) });
+      queryClient.invalidateQueries({ queryKey: PIPELINE_KEYS.configHistory(genre) });
+    },
+  });
+}
+
+/**
+ * Hook to list a genre's recent pipeline config changes
+ */
+export function usePipelineConfigHistory(
+  supabase: SupabaseClient<Database>,
+  genre: Genre
+) {
+  const store = new PipelineConfigHistoryStore(supabase);
+
+  return useQuery({
+    queryKey: PIPELINE_KEYS.configHistory(genre),
+    queryFn: () => store.listChanges(genre),
+  });
+}
+
 /**
  * Hook to get pool health (group availability by color)
  */
@@ -108,6 +252,44 @@ export function usePoolHealth(
   });
 }
 
+/**
+ * Hook to get the standing reserve per color (disabled until the config is loaded)
+ */
+export function usePoolReserve(
+  puzzleStorage: IPuzzleStorage,
+  groupStorage: IGroupStorage,
+  config: PipelineConfig | undefined
+) {
+  const service = new PipelineService(puzzleStorage, groupStorage);
+
+  return useQuery({
+    queryKey: PIPELINE_KEYS.poolReserve(
+      config?.genre ?? 'films',
+      config?.rollingWindowDays ?? 0,
+      config?.minGroupsPerColor ?? 0
+    ),
+    queryFn: () => service.getPoolReserve(config!),
+    enabled: config !== undefined,
+  });
+}
+
+/**
+ * Hook to get the pool burn forecast (disabled until the config is loaded)
+ */
+export function usePoolForecast(
+  puzzleStorage: IPuzzleStorage,
+  groupStorage: IGroupStorage,
+  config: PipelineConfig | undefined
+) {
+  const service = new PipelineService(puzzleStorage, groupStorage);
+
+  return useQuery({
+    queryKey: PIPELINE_KEYS.poolForecast(config?.genre ?? 'films', config?.rollingWindowDays ?? 0),
+    queryFn: () => service.getPoolForecast(config!),
+    enabled: config !== undefined,
+  });
+}
+
 /**
  * Hook to get scheduled count
  */
@@ -189,43 +371,30 @@ export function useFillRollingWindow(
 export function useFillRollingWindowWithGeneration(options: FillWithGenerationOptions) {
   const queryClient = useQueryClient();
   const [currentStage, setCurrentStage] = useState<PipelineStage>('idle');
-  const {
-    puzzleStorage,
-    groupStorage,
-    connectionTypeStore,
-    feedbackStore,
-    itemVerifier,
-    apiKey,
-  } = options;
+  const [currentProgress, setCurrentProgress] = useState<PipelineProgress['progress']>();
 
-  const handleStageChange = useCallback((stage: PipelineStage) => {
-    setCurrentStage(stage);
-  }, []);
+  const handleStageChange = useCallback(
+    (stage: PipelineStage, progress?: PipelineProgress['progress']) => {
+      setCurrentStage(stage);
+      setCurrentProgress(progress);
+    },
+    []
+  );
 
   const mutation = useMutation({
     mutationFn: async (config: PipelineConfig): Promise<PipelineFillResult> => {
       // Create service and generator inside mutation to ensure fresh instances
-      const service = new PipelineService(puzzleStorage, groupStorage);
-
-      // Set up the generator if API key is available
-      if (apiKey) {
-        const generator = new PipelineGenerator(
-          groupStorage,
-          connectionTypeStore,
-          feedbackStore,
-          itemVerifier,
-          generateGroupsV2Browser
-        );
-        service.setGenerator(generator, apiKey);
-      }
-
-      return service.fillRollingWindow(config, handleStageChange);
+      const service = createFillService(options);
+      return service.fillRollingWindow(config, handleStageChange, {
+        trigger: options.trigger ?? 'manual',
+        holder: options.holder,
+      });
     },
     onMutate: () => {
-      setCurrentStage('idle');
+      handleStageChange('idle');
     },
     onSuccess: (_result, config) => {
-      setCurrentStage('complete');
+      handleStageChange('complete');
       // Invalidate all related queries
       queryClient.invalidateQueries({
         queryKey: ['pipeline', 'scheduledCount', config.genre],
@@ -246,16 +415,203 @@ export function useFillRollingWindowWithGeneration(options: FillWithGenerationOp
       });
     },
     onError: () => {
-      setCurrentStage('error');
+      handleStageChange('error');
+    },
+    onSettled: (_result, _error, config) => {
+      // Failed runs are recorded too
+      queryClient.invalidateQueries({ queryKey: ['pipeline', 'runs'] });
+      queryClient.invalidateQueries({ queryKey: PIPELINE_KEYS.lease(config.genre) });
+      queryClient.invalidateQueries({ queryKey: PIPELINE_KEYS.generationJobs(config.genre) });
     },
   });
 
   return {
     ...mutation,
     currentStage,
+    currentProgress,
   };
 }
 
+/**
+ * Hook to preview a rolling window fill without generating groups or writing puzzles
+ *
+ * Runs the fill as a dry run; the result's `preview` holds the planned puzzles
+ * and the generation that would be requested.
+ */
+export function usePreviewRollingWindowFill(options: FillWithGenerationOptions) {
+  return useMutation({
+    mutationFn: async (config: PipelineConfig): Promise<PipelineFillResult> => {
+      const service = createFillService(options);
+      return service.fillRollingWindow(config, undefined, { dryRun: true });
+    },
+  });
+}
+
+/**
+ * Create a pipeline service with the generator and overlap analyzer the options provide
+ */
+function createFillService(options: FillWithGenerationOptions): PipelineService {
+  const {
+    puzzleStorage,
+    groupStorage,
+    provider,
+    generationLedger,
+    overlapAnalyzer,
+    runLog,
+    lock,
+    jobStore,
+    ruleStore,
+  } = options;
+  const service = new PipelineService(puzzleStorage, groupStorage, generationLedger);
+
+  // Set up the generator if a provider is available
+  if (provider) {
+    service.setGenerator(createGenerator(options, provider));
+  }
+
+  if (overlapAnalyzer) {
+    service.setOverlapAnalyzer(overlapAnalyzer);
+  }
+
+  if (runLog) {
+    service.setRunLog(runLog);
+  }
+
+  if (lock) {
+    service.setLock(lock);
+  }
+
+  if (jobStore) {
+    service.setJobStore(jobStore);
+  }
+
+  if (ruleStore) {
+    service.setSchedulingRules(ruleStore, options.connectionTypeStore);
+  }
+
+  return service;
+}
+
+function createGenerator(
+  options: FillWithGenerationOptions,
+  provider: IGroupGenerationProvider
+): PipelineGenerator {
+  return new PipelineGenerator(
+    options.groupStorage,
+    options.connectionTypeStore,
+    options.feedbackStore,
+    options.itemVerifier,
+    provider
+  );
+}
+
+/**
+ * Hook to list the genre's recent generation jobs, most recent first
+ *
+ * Refreshes while a job is running so its progress stays current, including
+ * jobs run by the CLI or a scheduled fill.
+ */
+export function useGenerationJobs(
+  supabase: SupabaseClient<Database>,
+  genre: Genre
+) {
+  const store = new GenerationJobStore(supabase);
+
+  return useQuery({
+    queryKey: PIPELINE_KEYS.generationJobs(genre),
+    queryFn: () => store.listJobs({ genre, limit: GENERATION_JOB_LIMIT }),
+    refetchInterval: (query) =>
+      query.state.data?.some((job: GenerationJob) => job.status === 'running')
+        ? RUNNING_JOB_REFETCH_INTERVAL_MS
+        : false,
+  });
+}
+
+/**
+ * Hook to resume a failed or interrupted generation job
+ */
+export function useResumeGenerationJob(
+  options: FillWithGenerationOptions & { jobStore: IGenerationJobStore }
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (job: GenerationJob): Promise<PipelineGenerationResult> => {
+      if (!options.provider) {
+        throw new Error('AI generation is not configured');
+      }
+      return createGenerator(options, options.provider).resumeJob(job.id, options.jobStore);
+    },
+    onSettled: (_result, _error, job) => {
+      queryClient.invalidateQueries({ queryKey: PIPELINE_KEYS.generationJobs(job.genre) });
+      queryClient.invalidateQueries({ queryKey: PIPELINE_KEYS.poolHealth(job.genre) });
+      queryClient.invalidateQueries({ queryKey: ['groups'] });
+    },
+  });
+}
+
+/**
+ * Hook to list recorded pipeline runs, most recent first (all genres when omitted)
+ */
+export function usePipelineRuns(
+  supabase: SupabaseClient<Database>,
+  genre?: Genre
+) {
+  const store = new PipelineRunStore(supabase);
+
+  return useQuery({
+    queryKey: PIPELINE_KEYS.runs(genre),
+    queryFn: () => store.listRuns({ genre }),
+  });
+}
+
+/**
+ * Hook to list the genre's scheduling rules (themed days), active or not
+ */
+export function useSchedulingRules(
+  supabase: SupabaseClient<Database>,
+  genre: Genre
+) {
+  const store = new SchedulingRuleStore(supabase);
+
+  return useQuery({
+    queryKey: PIPELINE_KEYS.schedulingRules(genre),
+    queryFn: () => store.listRules(genre),
+  });
+}
+
+/**
+ * Hook to get the genre's pipeline lease (null when no fill holds it)
+ */
+export function usePipelineLease(
+  supabase: SupabaseClient<Database>,
+  genre: Genre
+) {
+  const store = new PipelineLockStore(supabase);
+
+  return useQuery({
+    queryKey: PIPELINE_KEYS.lease(genre),
+    queryFn: () => store.getLease(genre),
+    refetchInterval: LEASE_REFETCH_INTERVAL_MS,
+  });
+}
+
+/**
+ * Hook to get a single recorded pipeline run
+ */
+export function usePipelineRun(
+  supabase: SupabaseClient<Database>,
+  id: string | undefined
+) {
+  const store = new PipelineRunStore(supabase);
+
+  return useQuery({
+    queryKey: PIPELINE_KEYS.run(id ?? ''),
+    queryFn: () => store.getRun(id!),
+    enabled: id !== undefined,
+  });
+}
+
 /**
  * Combined hook for pipeline status
  */
@@ -267,6 +623,7 @@ export function usePipelineStatus(
 ) {
   const configQuery = usePipelineConfig(supabase, genre);
   const poolHealthQuery = usePoolHealth(puzzleStorage, groupStorage, genre);
+  const poolReserveQuery = usePoolReserve(puzzleStorage, groupStorage, configQuery.data);
   const scheduledCountQuery = useScheduledCount(
     puzzleStorage,
     groupStorage,
@@ -289,6 +646,7 @@ export function usePipelineStatus(
       sufficient: false,
     },
     isLoadingPoolHealth: poolHealthQuery.isLoading,
+    poolReserve: poolReserveQuery.data,
     scheduledDays: scheduledCountQuery.data ?? 0,
     isLoadingScheduledCount: scheduledCountQuery.isLoading,
     emptyDays,
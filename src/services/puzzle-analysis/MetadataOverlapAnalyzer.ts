@@ -0,0 +1,202 @@
+/**
+ * Metadata Overlap Analyzer
+ *
+ * Scores a puzzle's misdirection from item metadata (director, cast, year,
+ * artist, album) and connection wording.
+ *
+ * An item is a decoy for another group when it shares metadata with several of
+ * that group's items, or a word with its connection. It is an ambiguity when it
+ * is also one of that group's items, has a value the connection names, or has
+ * a person or record every item of that group shares.
+ */
+
+import type { Item } from '../../types';
+import type { StoredGroup } from '../../lib/supabase/storage/IGroupStorage';
+import { normalizeTitle, tokenizeConnection } from '../group-generator/GroupSimilarityService';
+import type {
+  IItemMetadataSource,
+  IOverlapAnalyzer,
+  ItemOverlap,
+  ItemTrait,
+  OverlapAnalysis,
+  OverlapVerdict,
+  TraitKind,
+} from './types';
+
+/** Decoy items (without ambiguity) needed for a healthy puzzle */
+export const HEALTHY_DECOY_ITEMS = 2;
+
+/** Decoy items at which the misdirection score reaches 100 */
+const TARGET_DECOY_ITEMS = 4;
+
+/** Items of another group an item must share a trait with to be a decoy */
+const DECOY_SHARED_ITEMS = 2;
+
+const TRAIT_LABELS: Record<TraitKind, string> = {
+  director: 'director',
+  cast: 'cast member',
+  year: 'year',
+  artist: 'artist',
+  album: 'album',
+};
+
+/** Traits that define a group when every item shares them (shared years are usually coincidence) */
+const DEFINING_TRAIT_KINDS = new Set<TraitKind>(['director', 'cast', 'artist', 'album']);
+
+interface ProfiledItem {
+  item: Item;
+  title: string;
+  traits: ItemTrait[];
+  titleTokens: Set<string>;
+}
+
+interface GroupProfile {
+  group: StoredGroup;
+  items: ProfiledItem[];
+  /** Normalised connection padded with spaces for whole-word matching */
+  connectionText: string;
+  connectionTokens: Set<string>;
+  /** Number of items having each trait key */
+  traitCounts: Map<string, number>;
+}
+
+export class MetadataOverlapAnalyzer implements IOverlapAnalyzer {
+  constructor(private metadataSource: IItemMetadataSource | null = null) {}
+
+  async analyze(groups: StoredGroup[]): Promise<OverlapAnalysis> {
+    const profiles = await Promise.all(groups.map((group) => this.profileGroup(group)));
+    const overlaps: ItemOverlap[] = [];
+
+    for (const profile of profiles) {
+      for (const other of profiles) {
+        if (other === profile) continue;
+
+        for (const item of profile.items) {
+          const overlap = compareItemToGroup(item, profile.group, other);
+          if (overlap) overlaps.push(overlap);
+        }
+      }
+    }
+
+    const ambiguities = overlaps.filter((overlap) => overlap.kind === 'ambiguity');
+    const decoys = overlaps.filter((overlap) => overlap.kind === 'decoy');
+    const ambiguousItems = new Set(ambiguities.map(getOverlapItemKey));
+    const decoyItems = new Set(
+      decoys.map(getOverlapItemKey).filter((key) => !ambiguousItems.has(key))
+    ).size;
+
+    return {
+      misdirectionScore: Math.round((Math.min(decoyItems, TARGET_DECOY_ITEMS) / TARGET_DECOY_ITEMS) * 100),
+      verdict: getVerdict(ambiguities.length, decoyItems),
+      decoys,
+      ambiguities,
+    };
+  }
+
+  private async profileGroup(group: StoredGroup): Promise<GroupProfile> {
+    const items = this.metadataSource ? await this.metadataSource.enrichItems(group) : group.items;
+    const profiledItems = items.map((item) => ({
+      item,
+      title: normalizeTitle(item.title),
+      traits: getItemTraits(item),
+      titleTokens: tokenizeConnection(item.title),
+    }));
+
+    const traitCounts = new Map<string, number>();
+    for (const { traits } of profiledItems) {
+      for (const key of new Set(traits.map((trait) => trait.key))) {
+        traitCounts.set(key, (traitCounts.get(key) ?? 0) + 1);
+      }
+    }
+
+    return {
+      group,
+      items: profiledItems,
+      connectionText: ` ${normalizeTitle(group.connection)} `,
+      connectionTokens: tokenizeConnection(group.connection),
+      traitCounts,
+    };
+  }
+}
+
+/**
+ * Metadata values of an item that other items can share
+ */
+export function getItemTraits(item: Item): ItemTrait[] {
+  const values: Array<[TraitKind, string | number | undefined]> = [
+    ['director', item.director],
+    ...(item.cast ?? []).map((name): [TraitKind, string] => ['cast', name]),
+    ['year', item.year],
+    ['artist', item.artist],
+    ['album', item.album],
+  ];
+
+  return values
+    .filter((entry): entry is [TraitKind, string | number] => entry[1] !== undefined && entry[1] !== '')
+    .map(([kind, value]) => ({
+      kind,
+      value: String(value),
+      key: `${kind}:${normalizeTitle(String(value))}`,
+    }));
+}
+
+function compareItemToGroup(
+  profiled: ProfiledItem,
+  group: StoredGroup,
+  other: GroupProfile
+): ItemOverlap | null {
+  const ambiguityReasons: string[] = [];
+  const decoyReasons: string[] = [];
+
+  const isSharedItem = other.items.some(
+    (otherItem) => otherItem.item.id === profiled.item.id || otherItem.title === profiled.title
+  );
+  if (isSharedItem) {
+    ambiguityReasons.push('Is also one of its items');
+  }
+
+  for (const trait of profiled.traits) {
+    const label = `${TRAIT_LABELS[trait.kind]} ${trait.value}`;
+    const sharedCount = other.traitCounts.get(trait.key) ?? 0;
+
+    if (other.connectionText.includes(` ${normalizeTitle(trait.value)} `)) {
+      ambiguityReasons.push(`Its ${label} is named in the connection`);
+    } else if (
+      DEFINING_TRAIT_KINDS.has(trait.kind) &&
+      other.items.length > 1 &&
+      sharedCount === other.items.length
+    ) {
+      ambiguityReasons.push(`Shares ${label} with every item`);
+    } else if (sharedCount >= DECOY_SHARED_ITEMS) {
+      decoyReasons.push(`Shares ${label} with ${sharedCount} items`);
+    }
+  }
+
+  for (const token of profiled.titleTokens) {
+    if (other.connectionTokens.has(token)) {
+      decoyReasons.push(`Title shares "${token}" with the connection`);
+    }
+  }
+
+  if (ambiguityReasons.length === 0 && decoyReasons.length === 0) {
+    return null;
+  }
+
+  return {
+    item: profiled.item,
+    groupId: group.id,
+    otherGroupId: other.group.id,
+    otherConnection: other.group.connection,
+    kind: ambiguityReasons.length > 0 ? 'ambiguity' : 'decoy',
+    reasons: [...ambiguityReasons, ...decoyReasons],
+  };
+}
+
+function getOverlapItemKey(overlap: ItemOverlap): string {
+  return `${overlap.groupId}:${overlap.item.id}`;
+}
+
+function getVerdict(ambiguityCount: number, decoyItems: number): OverlapVerdict {
+  if (ambiguityCount > 0) return 'ambiguous';
+  return decoyItems >= HEALTHY_DECOY_ITEMS ? 'healthy' : 'flat';
+}
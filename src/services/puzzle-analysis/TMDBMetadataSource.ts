@@ -0,0 +1,78 @@
+/**
+ * TMDB Metadata Source
+ *
+ * Fills in director, top-billed cast and year for film items from TMDB.
+ * Generated groups only store title, year and TMDB id, so overlap analysis
+ * needs this to spot shared people. Details are cached per film id.
+ */
+
+import type { Item } from '../../types';
+import type { StoredGroup } from '../../lib/supabase/storage/IGroupStorage';
+import { tmdbService, type TMDBService } from '../tmdb';
+import type { IItemMetadataSource } from './types';
+
+/** Number of top-billed cast members kept per film */
+const CAST_LIMIT = 5;
+
+type FilmMetadata = Pick<Item, 'director' | 'cast' | 'year'>;
+
+export class TMDBMetadataSource implements IItemMetadataSource {
+  private cache = new Map<number, Promise<FilmMetadata | null>>();
+
+  constructor(private tmdb: Pick<TMDBService, 'getMovieDetails'> = tmdbService) {}
+
+  async enrichItems(group: StoredGroup): Promise<Item[]> {
+    if (group.genre !== 'films') {
+      return group.items;
+    }
+
+    return Promise.all(group.items.map((item) => this.enrichItem(item)));
+  }
+
+  private async enrichItem(item: Item): Promise<Item> {
+    if (typeof item.id !== 'number' || (item.director && item.cast)) {
+      return item;
+    }
+
+    const metadata = await this.getFilmMetadata(item.id, item.title);
+    if (!metadata) {
+      return item;
+    }
+
+    return {
+      ...item,
+      director: item.director ?? metadata.director,
+      cast: item.cast ?? metadata.cast,
+      year: item.year ?? metadata.year,
+    };
+  }
+
+  private getFilmMetadata(id: number, title: string): Promise<FilmMetadata | null> {
+    let metadata = this.cache.get(id);
+    if (!metadata) {
+      metadata = this.fetchFilmMetadata(id, title);
+      this.cache.set(id, metadata);
+    }
+    return metadata;
+  }
+
+  private async fetchFilmMetadata(id: number, title: string): Promise<FilmMetadata | null> {
+    try {
+      const details = await this.tmdb.getMovieDetails(id);
+      const director = details.credits?.crew.find((member) => member.job === 'Director');
+      const year = parseInt(details.release_date?.substring(0, 4) ?? '', 10);
+
+      return {
+        director: director?.name,
+        cast: [...(details.credits?.cast ?? [])]
+          .sort((a, b) => a.order - b.order)
+          .slice(0, CAST_LIMIT)
+          .map((member) => member.name),
+        year: isNaN(year) ? undefined : year,
+      };
+    } catch (error) {
+      console.warn(`Failed to fetch TMDB details for "${title}" (${id}):`, error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MetadataOverlapAnalyzer, getItemTraits } from '../MetadataOverlapAnalyzer';
+import type { IItemMetadataSource } from '../types';
+import type { Item } from '../../../types';
+import type { StoredGroup } from '../../../lib/supabase/storage/IGroupStorage';
+
+const createGroup = (id: string, connection: string, items: Item[]): StoredGroup => ({
+  id,
+  createdAt: Date.now(),
+  items,
+  connection,
+  connectionType: 'test-type',
+  difficultyScore: 5000,
+  color: 'yellow',
+  difficulty: 'easy',
+  status: 'approved',
+  usageCount: 0,
+  lastUsedAt: null,
+  genre: 'films',
+});
+
+const nolanFilms = createGroup('nolan', 'Directed by Christopher Nolan', [
+  { id: 1, title: 'Inception', year: 2010, director: 'Christopher Nolan', cast: ['Leonardo DiCaprio'] },
+  { id: 2, title: 'Interstellar', year: 2014, director: 'Christopher Nolan', cast: ['Matthew McConaughey'] },
+  { id: 3, title: 'Memento', year: 2000, director: 'Christopher Nolan', cast: ['Guy Pearce'] },
+  { id: 4, title: 'Tenet', year: 2020, director: 'Christopher Nolan', cast: ['John David Washington'] },
+]);
+
+const dicaprioFilms = createGroup('dicaprio', 'Starring Leonardo DiCaprio', [
+  { id: 5, title: 'Titanic', year: 1997, director: 'James Cameron', cast: ['Leonardo DiCaprio'] },
+  { id: 6, title: 'The Revenant', year: 2015, director: 'Alejandro G. Iñárritu', cast: ['Leonardo DiCaprio'] },
+  { id: 7, title: 'Shutter Island', year: 2010, director: 'Martin Scorsese', cast: ['Leonardo DiCaprio'] },
+  { id: 8, title: 'Django Unchained', year: 2012, director: 'Quentin Tarantino', cast: ['Leonardo DiCaprio'] },
+]);
+
+const islandFilms = createGroup('island', 'Films set on an island', [
+  { id: 9, title: 'Cast Away', year: 2000, director: 'Robert Zemeckis' },
+  { id: 10, title: 'Jurassic Park', year: 1993, director: 'Steven Spielberg' },
+  { id: 11, title: 'Jaws', year: 1975, director: 'Steven Spielberg' },
+  { id: 12, title: 'The Beach', year: 2000, director: 'Danny Boyle' },
+]);
+
+const spaceFilms = createGroup('space', 'Space exploration', [
+  { id: 13, title: 'Gravity', year: 2013 },
+  { id: 14, title: 'The Martian', year: 2015 },
+  { id: 15, title: 'Apollo 13', year: 1995 },
+  { id: 16, title: 'Ad Astra', year: 2019 },
+]);
+
+describe('MetadataOverlapAnalyzer', () => {
+  const analyzer = new MetadataOverlapAnalyzer();
+
+  describe('getItemTraits', () => {
+    it('should list director, each cast member and year with normalised keys', () => {
+      const traits = getItemTraits({
+        id: 1,
+        title: 'Inception',
+        year: 2010,
+        director: 'Christopher Nolan',
+        cast: ['Leonardo DiCaprio', 'Elliot Page'],
+      });
+
+      expect(traits.map((trait) => trait.key)).toEqual([
+        'director:christopher nolan',
+        'cast:leonardo dicaprio',
+        'cast:elliot page',
+        'year:2010',
+      ]);
+    });
+
+    it('should list artist and album for music', () => {
+      const traits = getItemTraits({ id: 'mbid', title: 'Yellow', artist: 'Coldplay', album: 'Parachutes' });
+
+      expect(traits.map((trait) => trait.kind)).toEqual(['artist', 'album']);
+    });
+  });
+
+  describe('analyze', () => {
+    it('should flag an item whose cast member is named in another connection', async () => {
+      const analysis = await analyzer.analyze([nolanFilms, dicaprioFilms, islandFilms, spaceFilms]);
+
+      expect(analysis.verdict).toBe('ambiguous');
+      expect(analysis.ambiguities).toContainEqual(
+        expect.objectContaining({
+          item: expect.objectContaining({ title: 'Inception' }),
+          otherGroupId: 'dicaprio',
+          reasons: ['Its cast member Leonardo DiCaprio is named in the connection'],
+        })
+      );
+    });
+
+    it('should flag an item sharing a person with every item of another group', async () => {
+      const unnamed = { ...dicaprioFilms, connection: 'Oscar-nominated performances' };
+
+      const analysis = await analyzer.analyze([nolanFilms, unnamed, islandFilms, spaceFilms]);
+
+      expect(analysis.ambiguities).toContainEqual(
+        expect.objectContaining({
+          otherGroupId: 'dicaprio',
+          reasons: ['Shares cast member Leonardo DiCaprio with every item'],
+        })
+      );
+    });
+
+    it('should flag an item that appears in two groups', async () => {
+      const withInception = createGroup('dreams', 'Dreams', [
+        ...spaceFilms.items.slice(0, 3),
+        { id: 1, title: 'Inception', year: 2010 },
+      ]);
+
+      const analysis = await analyzer.analyze([nolanFilms, withInception]);
+
+      expect(analysis.ambiguities.map((overlap) => overlap.reasons[0])).toContain('Is also one of its items');
+    });
+
+    it('should count items sharing metadata with several items of another group as decoys', async () => {
+      const millennium = createGroup('millennium', 'Y2K panic', [
+        { id: 17, title: 'Office Space', year: 2000 },
+        { id: 18, title: 'Gladiator', year: 2000 },
+        { id: 19, title: 'Heat', year: 1995 },
+        { id: 20, title: 'Se7en', year: 1995 },
+      ]);
+
+      const analysis = await analyzer.analyze([nolanFilms, islandFilms, spaceFilms, millennium]);
+
+      expect(analysis.ambiguities).toEqual([]);
+      expect(analysis.decoys).toContainEqual(
+        expect.objectContaining({
+          item: expect.objectContaining({ title: 'Memento' }),
+          otherGroupId: 'island',
+          reasons: ['Shares year 2000 with 2 items'],
+        })
+      );
+      expect(analysis.decoys).toContainEqual(
+        expect.objectContaining({
+          item: expect.objectContaining({ title: 'Apollo 13' }),
+          otherGroupId: 'millennium',
+        })
+      );
+    });
+
+    it('should count titles sharing a word with another connection as decoys', async () => {
+      const analysis = await analyzer.analyze([
+        createGroup('a', 'Treasure hunts', [{ id: 1, title: 'Shutter Island' }]),
+        islandFilms,
+      ]);
+
+      expect(analysis.decoys).toEqual([
+        expect.objectContaining({
+          otherGroupId: 'island',
+          reasons: ['Title shares "island" with the connection'],
+        }),
+      ]);
+    });
+
+    it('should rate sets by decoy items', async () => {
+      const flat = await analyzer.analyze([
+        createGroup('a', 'Heists', [{ id: 1, title: 'Heat', year: 1995 }]),
+        createGroup('b', 'Sharks', [{ id: 2, title: 'Jaws', year: 1975 }]),
+      ]);
+      const healthy = await analyzer.analyze([
+        createGroup('a', 'Heists', [
+          { id: 1, title: 'Heat', year: 1995 },
+          { id: 2, title: 'Inside Man', year: 2006 },
+        ]),
+        createGroup('b', 'Boxing', [
+          { id: 3, title: 'Rocky', year: 1995 },
+          { id: 4, title: 'Creed', year: 2006 },
+          { id: 5, title: 'Raging Bull', year: 1995 },
+          { id: 6, title: 'Ali', year: 2006 },
+        ]),
+      ]);
+
+      expect(flat).toMatchObject({ verdict: 'flat', misdirectionScore: 0 });
+      expect(healthy).toMatchObject({ verdict: 'healthy', misdirectionScore: 50 });
+    });
+
+    it('should analyse items from the metadata source', async () => {
+      const metadataSource: IItemMetadataSource = {
+        enrichItems: vi.fn(async (group: StoredGroup) =>
+          group.items.map((item) => ({ ...item, cast: ['Leonardo DiCaprio'] }))
+        ),
+      };
+      const bare = createGroup('bare', 'Starring Leonardo DiCaprio', [{ id: 21, title: 'Inception' }]);
+
+      const analysis = await new MetadataOverlapAnalyzer(metadataSource).analyze([bare, spaceFilms]);
+
+      expect(metadataSource.enrichItems).toHaveBeenCalledTimes(2);
+      expect(analysis.verdict).toBe('ambiguous');
+    });
+  });
+});
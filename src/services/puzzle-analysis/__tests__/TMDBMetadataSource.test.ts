@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TMDBMetadataSource } from '../TMDBMetadataSource';
+import type { TMDBService } from '../../tmdb';
+import type { TMDBMovieDetails } from '../../../types';
+import type { StoredGroup } from '../../../lib/supabase/storage/IGroupStorage';
+
+const createDetails = (id: number): TMDBMovieDetails => ({
+  id,
+  title: 'Inception',
+  release_date: '2010-07-15',
+  poster_path: null,
+  genre_ids: [],
+  overview: '',
+  vote_count: 30000,
+  popularity: 100,
+  genres: [],
+  credits: {
+    cast: [
+      { id: 2, name: 'Joseph Gordon-Levitt', character: 'Arthur', order: 1 },
+      { id: 1, name: 'Leonardo DiCaprio', character: 'Cobb', order: 0 },
+    ],
+    crew: [
+      { id: 3, name: 'Emma Thomas', job: 'Producer', department: 'Production' },
+      { id: 4, name: 'Christopher Nolan', job: 'Director', department: 'Directing' },
+    ],
+  },
+});
+
+const createGroup = (overrides: Partial<StoredGroup> = {}): StoredGroup => ({
+  id: 'group-1',
+  createdAt: Date.now(),
+  items: [{ id: 27205, title: 'Inception' }],
+  connection: 'Dreams',
+  connectionType: 'thematic',
+  difficultyScore: 5000,
+  color: 'yellow',
+  difficulty: 'easy',
+  status: 'approved',
+  usageCount: 0,
+  lastUsedAt: null,
+  genre: 'films',
+  ...overrides,
+});
+
+describe('TMDBMetadataSource', () => {
+  let tmdb: Pick<TMDBService, 'getMovieDetails'>;
+  let source: TMDBMetadataSource;
+
+  beforeEach(() => {
+    tmdb = { getMovieDetails: vi.fn().mockImplementation(async (id: number) => createDetails(id)) };
+    source = new TMDBMetadataSource(tmdb);
+  });
+
+  it('should fill in director, billed cast and year', async () => {
+    const [item] = await source.enrichItems(createGroup());
+
+    expect(item).toEqual({
+      id: 27205,
+      title: 'Inception',
+      director: 'Christopher Nolan',
+      cast: ['Leonardo DiCaprio', 'Joseph Gordon-Levitt'],
+      year: 2010,
+    });
+  });
+
+  it('should keep stored metadata over TMDB values', async () => {
+    const [item] = await source.enrichItems(
+      createGroup({ items: [{ id: 27205, title: 'Inception', year: 2011, director: 'C. Nolan' }] })
+    );
+
+    expect(item.year).toBe(2011);
+    expect(item.director).toBe('C. Nolan');
+  });
+
+  it('should fetch each film once', async () => {
+    await source.enrichItems(createGroup());
+    await source.enrichItems(createGroup({ id: 'group-2' }));
+
+    expect(tmdb.getMovieDetails).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave non-film groups untouched', async () => {
+    const group = createGroup({ genre: 'music', items: [{ id: 'mbid', title: 'Yellow' }] });
+
+    expect(await source.enrichItems(group)).toBe(group.items);
+    expect(tmdb.getMovieDetails).not.toHaveBeenCalled();
+  });
+
+  it('should return the item unchanged when TMDB fails', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(tmdb.getMovieDetails).mockRejectedValue(new Error('TMDB API error: Not Found'));
+
+    const [item] = await source.enrichItems(createGroup());
+
+    expect(item).toEqual({ id: 27205, title: 'Inception' });
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * Puzzle Analysis Module
+ *
+ * Scores how a puzzle's groups overlap: decoys that mislead versus
+ * items that genuinely fit two connections.
+ */
+
+export { MetadataOverlapAnalyzer, HEALTHY_DECOY_ITEMS, getItemTraits } from './MetadataOverlapAnalyzer';
+export { TMDBMetadataSource } from './TMDBMetadataSource';
+export type {
+  IOverlapAnalyzer,
+  IItemMetadataSource,
+  ItemOverlap,
+  ItemTrait,
+  OverlapAnalysis,
+  OverlapKind,
+  OverlapVerdict,
+  TraitKind,
+} from './types';
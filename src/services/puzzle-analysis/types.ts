@@ -0,0 +1,85 @@
+/**
+ * Puzzle Analysis Types
+ *
+ * Types for analysing how the items of a puzzle's four groups overlap.
+ * Decoys (red herrings) make a puzzle interesting; true ambiguity breaks it.
+ */
+
+import type { Item } from '../../types';
+import type { StoredGroup } from '../../lib/supabase/storage/IGroupStorage';
+
+/**
+ * Kind of metadata two items can share
+ */
+export type TraitKind = 'director' | 'cast' | 'year' | 'artist' | 'album';
+
+/**
+ * A single metadata value of an item (e.g. director Christopher Nolan)
+ */
+export interface ItemTrait {
+  kind: TraitKind;
+  /** Display value, e.g. "Christopher Nolan" */
+  value: string;
+  /** Normalised `kind:value` key used for comparison */
+  key: string;
+}
+
+/**
+ * How an item relates to a group other than its own:
+ * - 'decoy': plausibly fits the other group but does not satisfy it (good misdirection)
+ * - 'ambiguity': genuinely satisfies the other group's connection (puzzle has two answers)
+ */
+export type OverlapKind = 'decoy' | 'ambiguity';
+
+/**
+ * An item that overlaps with a group other than its own
+ */
+export interface ItemOverlap {
+  item: Item;
+  /** Id of the group the item belongs to */
+  groupId: string;
+  /** Id of the group the item overlaps with */
+  otherGroupId: string;
+  /** Connection of the group the item overlaps with */
+  otherConnection: string;
+  kind: OverlapKind;
+  /** Human-readable evidence, e.g. "Shares director Christopher Nolan with 2 items" */
+  reasons: string[];
+}
+
+/**
+ * Overall assessment of a puzzle's misdirection:
+ * - 'ambiguous': at least one item genuinely fits two groups
+ * - 'healthy': no ambiguity and enough decoys
+ * - 'flat': no ambiguity but too few decoys to mislead
+ */
+export type OverlapVerdict = 'ambiguous' | 'healthy' | 'flat';
+
+/**
+ * Result of analysing a puzzle's four groups
+ */
+export interface OverlapAnalysis {
+  /** 0-100, how much misdirection the decoys provide */
+  misdirectionScore: number;
+  verdict: OverlapVerdict;
+  /** Items that plausibly fit another group without satisfying it */
+  decoys: ItemOverlap[];
+  /** Items that genuinely satisfy another group's connection */
+  ambiguities: ItemOverlap[];
+}
+
+/**
+ * Analyses the overlap between a puzzle's groups.
+ * Implementations may use item metadata or an AI check.
+ */
+export interface IOverlapAnalyzer {
+  analyze(groups: StoredGroup[]): Promise<OverlapAnalysis>;
+}
+
+/**
+ * Supplies richer item metadata (director, cast, ...) than stored groups carry
+ */
+export interface IItemMetadataSource {
+  /** Return the group's items with any missing metadata filled in */
+  enrichItems(group: StoredGroup): Promise<Item[]>;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { checkGuess, toPublicPuzzle } from '../publicPuzzle';
+import type { Group, SavedPuzzle } from '../../../types';
+
+const createGroup = (color: Group['color'], difficulty: Group['difficulty'], ids: number[]): Group => ({
+  id: `group-${color}`,
+  items: ids.map((id) => ({ id, title: `Film ${id}` })),
+  connection: `${color} connection`,
+  difficulty,
+  color,
+});
+
+const groups = [
+  createGroup('yellow', 'easy', [1, 2, 3, 4]),
+  createGroup('green', 'medium', [5, 6, 7, 8]),
+  createGroup('blue', 'hard', [9, 10, 11, 12]),
+  createGroup('purple', 'hardest', [13, 14, 15, 16]),
+];
+
+const puzzle: SavedPuzzle = {
+  id: 'puzzle-1',
+  groups,
+  items: groups.flatMap((group) => group.items),
+  createdAt: 0,
+  metadata: { connectionTypes: ['secret'] },
+};
+
+describe('publicPuzzle', () => {
+  describe('toPublicPuzzle', () => {
+    it('should serve every item shuffled, without the groups or metadata', () => {
+      const served = toPublicPuzzle(puzzle, 'films', '2025-03-05', () => 0);
+
+      expect(served).toEqual({
+        id: 'puzzle-1',
+        genre: 'films',
+        date: '2025-03-05',
+        groupCount: 4,
+        items: expect.any(Array),
+      });
+      expect(served.items.map((item) => item.id).sort((a, b) => Number(a) - Number(b))).toEqual(
+        puzzle.items.map((item) => item.id)
+      );
+      expect(served.items.map((item) => item.id)).not.toEqual(puzzle.items.map((item) => item.id));
+      expect(JSON.stringify(served)).not.toContain('connection');
+    });
+  });
+
+  describe('checkGuess', () => {
+    it('should reveal a solved group', () => {
+      expect(checkGuess(groups, [4, 3, 2, 1])).toEqual({
+        result: 'correct',
+        group: { connection: 'yellow connection', color: 'yellow', difficulty: 'easy', items: groups[0].items },
+      });
+    });
+
+    it('should say when a guess is one item away', () => {
+      expect(checkGuess(groups, [1, 2, 3, 5])).toEqual({ result: 'one-away' });
+    });
+
+    it('should say when a guess is wrong', () => {
+      expect(checkGuess(groups, [1, 2, 5, 6])).toEqual({ result: 'wrong' });
+    });
+
+    it('should match ids sent as strings', () => {
+      expect(checkGuess(groups, ['13', '14', '15', '16'])).toMatchObject({ result: 'correct' });
+    });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Puzzle API Handler Contract Tests
+ *
+ * Runs the same request/response contract against both adapters:
+ * the Vercel route and the Vite dev middleware.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import vercelHandler from '../../../../api/puzzle';
+import { createPuzzleApiMiddleware } from '../puzzleApiMiddleware';
+import { createPuzzleApiStorage, type PuzzleApiStorage } from '../puzzleApiStorage';
+import type { Group, SavedPuzzle } from '../../../types';
+
+vi.mock('../puzzleApiStorage', () => ({
+  createPuzzleApiStorage: vi.fn(),
+}));
+
+interface AdapterResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+interface Adapter {
+  name: string;
+  /** Send a request for a path under /api/puzzle/ */
+  send: (method: string, route: string, body?: unknown) => Promise<AdapterResponse>;
+}
+
+const vercelAdapter: Adapter = {
+  name: 'Vercel route',
+  send: async (method, route, body) => {
+    const captured: AdapterResponse = { status: 0, headers: {}, body: {} };
+    const res = {
+      status(code: number) {
+        captured.status = code;
+        return res;
+      },
+      json(data: Record<string, unknown>) {
+        captured.body = data;
+        return res;
+      },
+      setHeader(name: string, value: string) {
+        captured.headers[name] = value;
+        return res;
+      },
+    };
+
+    // vercel.json rewrites /api/puzzle/<route> to /api/puzzle?route=<route>
+    await vercelHandler(
+      { method, body, query: { route } } as unknown as VercelRequest,
+      res as unknown as VercelResponse
+    );
+    return captured;
+  },
+};
+
+const devMiddlewareAdapter: Adapter = {
+  name: 'Vite dev middleware',
+  send: async (method, route, body) => {
+    const middleware = createPuzzleApiMiddleware(() => createPuzzleApiStorage(process.env));
+    const raw = body === undefined ? '' : JSON.stringify(body);
+
+    const req = {
+      url: `/api/puzzle/${route}`,
+      method,
+      on: (event: string, callback: (chunk: Buffer) => void) => {
+        if (event === 'data' && raw) callback(Buffer.from(raw));
+        if (event === 'end') callback(Buffer.from(''));
+      },
+    };
+
+    const captured: AdapterResponse = { status: 0, headers: {}, body: {} };
+    const res = {
+      statusCode: 0,
+      setHeader: (name: string, value: string) => {
+        captured.headers[name] = value;
+      },
+      write: () => {},
+      end: (data?: string) => {
+        captured.status = res.statusCode;
+        if (data !== undefined) captured.body = JSON.parse(data);
+      },
+    };
+
+    await middleware(req, res, () => {
+      throw new Error('next() should not be called for the puzzle routes');
+    });
+    return captured;
+  },
+};
+
+const createGroup = (color: Group['color'], ids: number[]): Group => ({
+  id: `group-${color}`,
+  items: ids.map((id) => ({ id, title: `Film ${id}` })),
+  connection: `${color} connection`,
+  difficulty: 'medium',
+  color,
+});
+
+const groups = [
+  createGroup('yellow', [1, 2, 3, 4]),
+  createGroup('green', [5, 6, 7, 8]),
+  createGroup('blue', [9, 10, 11, 12]),
+  createGroup('purple', [13, 14, 15, 16]),
+];
+
+const puzzle: SavedPuzzle = {
+  id: 'puzzle-1',
+  groups,
+  items: groups.flatMap((group) => group.items),
+  createdAt: 0,
+};
+
+describe.each([vercelAdapter, devMiddlewareAdapter])('puzzle API contract: $name', (adapter) => {
+  let storage: PuzzleApiStorage;
+
+  beforeEach(() => {
+    storage = {
+      getDailyPuzzle: vi.fn().mockResolvedValue(puzzle),
+      getPublishedPuzzle: vi.fn().mockResolvedValue(puzzle),
+    };
+    vi.mocked(createPuzzleApiStorage).mockReturnValue(storage);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('GET /api/puzzle/:genre/:date', () => {
+    it('should return the shuffled items without the answers, cacheable', async () => {
+      const response = await adapter.send('GET', 'films/2025-03-05');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['Cache-Control']).toBe('public, max-age=300, s-maxage=3600, stale-while-revalidate=86400');
+      expect(storage.getDailyPuzzle).toHaveBeenCalledWith('2025-03-05', 'films');
+      expect(response.body).toMatchObject({ id: 'puzzle-1', genre: 'films', date: '2025-03-05', groupCount: 4 });
+      expect(response.body.items).toHaveLength(16);
+      expect(response.body).not.toHaveProperty('groups');
+      expect(JSON.stringify(response.body)).not.toContain('connection');
+    });
+
+    it('should serialize only the id and title of each item', async () => {
+      const withMetadata = groups.map((group) => ({
+        ...group,
+        items: group.items.map((item) => ({
+          ...item,
+          year: 1994,
+          director: 'Quentin Tarantino',
+          cast: ['Uma Thurman'],
+          genres: ['Crime'],
+          poster_path: '/poster.jpg',
+          artist: 'Artist',
+          album: 'Album',
+        })),
+      }));
+      vi.mocked(storage.getDailyPuzzle).mockResolvedValue({ ...puzzle, groups: withMetadata });
+
+      const response = await adapter.send('GET', 'films/2025-03-05');
+
+      expect(Object.keys(response.body).sort()).toEqual(['date', 'genre', 'groupCount', 'id', 'items']);
+      for (const item of response.body.items as object[]) {
+        expect(Object.keys(item).sort()).toEqual(['id', 'title']);
+      }
+    });
+
+    it('should return 404 with a short cache when the puzzle is missing or not released', async () => {
+      vi.mocked(storage.getDailyPuzzle).mockResolvedValue(null);
+
+      const response = await adapter.send('GET', 'films/2025-03-06');
+
+      expect(response.status).toBe(404);
+      expect(response.headers['Cache-Control']).toBe('public, max-age=60, s-maxage=60');
+      expect(response.body).toEqual({ error: 'No puzzle for this date' });
+    });
+
+    it('should reject an unknown genre or an invalid date with 400', async () => {
+      expect((await adapter.send('GET', 'games/2025-03-05')).body).toEqual({ error: 'Unknown genre: games' });
+      expect((await adapter.send('GET', 'films/March-5')).body).toEqual({
+        error: 'Invalid date: March-5 (expected YYYY-MM-DD)',
+      });
+    });
+
+    it('should reject other methods with 405', async () => {
+      const response = await adapter.send('DELETE', 'films/2025-03-05');
+
+      expect(response.status).toBe(405);
+      expect(response.headers.Allow).toBe('GET');
+    });
+  });
+
+  describe('POST /api/puzzle/:id/guess', () => {
+    it('should reveal the group of a correct guess', async () => {
+      const response = await adapter.send('POST', 'puzzle-1/guess', { items: [8, 7, 6, 5] });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['Cache-Control']).toBe('no-store');
+      expect(storage.getPublishedPuzzle).toHaveBeenCalledWith('puzzle-1');
+      expect(response.body).toEqual({
+        result: 'correct',
+        group: { connection: 'green connection', color: 'green', difficulty: 'medium', items: groups[1].items },
+      });
+    });
+
+    it('should only say one-away or wrong for other guesses', async () => {
+      expect((await adapter.send('POST', 'puzzle-1/guess', { items: [1, 2, 3, 16] })).body).toEqual({
+        result: 'one-away',
+      });
+      expect((await adapter.send('POST', 'puzzle-1/guess', { items: [1, 2, 15, 16] })).body).toEqual({
+        result: 'wrong',
+      });
+    });
+
+    it('should reject a guess that is not four different items of the puzzle with 400', async () => {
+      const notFour = await adapter.send('POST', 'puzzle-1/guess', { items: [1, 2, 3] });
+      expect(notFour.status).toBe(400);
+      expect(notFour.body).toEqual({ error: 'A guess needs 4 different item ids in "items"' });
+
+      expect((await adapter.send('POST', 'puzzle-1/guess', { items: [1, 1, 2, 3] })).status).toBe(400);
+      expect((await adapter.send('POST', 'puzzle-1/guess', { items: [1, 2, 3, 99] })).body).toEqual({
+        error: 'Item 99 is not in this puzzle',
+      });
+    });
+
+    it('should return 404 for a puzzle that is not published or not released', async () => {
+      vi.mocked(storage.getPublishedPuzzle).mockResolvedValue(null);
+
+      const response = await adapter.send('POST', 'puzzle-2/guess', { items: [1, 2, 3, 4] });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Puzzle not found' });
+    });
+
+    it('should reject a GET with 405', async () => {
+      const response = await adapter.send('GET', 'puzzle-1/guess');
+
+      expect(response.status).toBe(405);
+      expect(response.headers.Allow).toBe('POST');
+    });
+  });
+
+  it('should return 404 for other paths', async () => {
+    expect((await adapter.send('GET', 'films')).status).toBe(404);
+    expect((await adapter.send('GET', 'films/2025-03-05/extra')).status).toBe(404);
+  });
+
+  it('should return 500 when Supabase is not configured', async () => {
+    vi.mocked(createPuzzleApiStorage).mockReturnValue(null);
+
+    const response = await adapter.send('GET', 'films/2025-03-05');
+
+    expect(response.status).toBe(500);
+    expect(response.body).toEqual({ error: 'Puzzle storage not configured' });
+  });
+
+  it('should return a generic 500 and log the details when storage fails', async () => {
+    const storageError = new Error('Failed to get daily puzzle: timeout');
+    vi.mocked(storage.getDailyPuzzle).mockRejectedValue(storageError);
+
+    const response = await adapter.send('GET', 'films/2025-03-05');
+
+    expect(response.status).toBe(500);
+    expect(response.body).toEqual({ error: 'Internal server error' });
+    expect(console.error).toHaveBeenCalledWith('Error serving puzzle:', storageError);
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Puzzle API Module
+ *
+ * Public routes for players: a day's puzzle without its answers, and
+ * server-side checking of guesses.
+ */
+
+export { handlePuzzleApiRequest, PUZZLE_API_PATH } from './puzzleApiHandler';
+export type { PuzzleApiRequest, PuzzleApiResponse, PuzzleApiDeps } from './puzzleApiHandler';
+export { createPuzzleApiMiddleware } from './puzzleApiMiddleware';
+export { createPuzzleApiStorage } from './puzzleApiStorage';
+export type { PuzzleApiStorage } from './puzzleApiStorage';
+export { checkGuess, toPublicPuzzle } from './publicPuzzle';
+export type { GuessResult, PublicItem, PublicPuzzle } from './publicPuzzle';
@@ -0,0 +1,78 @@
+/**
+ * Public Puzzle
+ *
+ * What players may see of a daily puzzle: its items in random order without
+ * the groups or their metadata, and the outcome of a guess, which only
+ * reveals a group once it has been solved.
+ */
+
+import type { Genre, Group, Item, SavedPuzzle } from '../../types';
+import { evaluateGuess } from '../game-engine';
+import { shuffle } from '../../utils/random';
+
+/**
+ * An item as served before it is solved. Metadata such as the director,
+ * artist or year is left out since it can give the grouping away.
+ */
+export type PublicItem = Pick<Item, 'id' | 'title'>;
+
+/**
+ * A puzzle as served to players
+ */
+export interface PublicPuzzle {
+  id: string;
+  genre: Genre;
+  /** Puzzle date (YYYY-MM-DD) */
+  date: string;
+  /** Number of groups to find */
+  groupCount: number;
+  /** Every item of the puzzle, shuffled */
+  items: PublicItem[];
+}
+
+/**
+ * Outcome of a guess. The group is only revealed when the guess solves it.
+ */
+export type GuessResult =
+  | { result: 'correct'; group: Pick<Group, 'connection' | 'color' | 'difficulty' | 'items'> }
+  | { result: 'one-away' }
+  | { result: 'wrong' };
+
+/**
+ * Strip a puzzle down to what players may see.
+ *
+ * The order comes from `random` rather than a seed: a seeded order could be
+ * undone to recover the groups, since the items are stored group by group.
+ */
+export function toPublicPuzzle(
+  puzzle: SavedPuzzle,
+  genre: Genre,
+  date: string,
+  random: () => number = Math.random
+): PublicPuzzle {
+  return {
+    id: puzzle.id,
+    genre,
+    date,
+    groupCount: puzzle.groups.length,
+    items: shuffle(
+      puzzle.groups.flatMap((group) => group.items.map(({ id, title }) => ({ id, title }))),
+      random
+    ),
+  };
+}
+
+/**
+ * Check a guess of item ids against the puzzle's groups, with the game
+ * engine's rules. Only the group of a correct guess is sent back.
+ */
+export function checkGuess(groups: Group[], itemIds: Item['id'][]): GuessResult {
+  const evaluation = evaluateGuess(groups, itemIds);
+
+  if (evaluation.result === 'correct') {
+    const { connection, color, difficulty, items } = evaluation.group;
+    return { result: 'correct', group: { connection, color, difficulty, items } };
+  }
+
+  return evaluation;
+}
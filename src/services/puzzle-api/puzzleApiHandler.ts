@@ -0,0 +1,180 @@
+/**
+ * Puzzle API Handler
+ *
+ * Framework-neutral request handler for the public puzzle routes:
+ *
+ *   GET  /api/puzzle/:genre/:date   The day's items, shuffled, without the groups
+ *   POST /api/puzzle/:id/guess      Check a guess of four item ids
+ *
+ * The Vercel route and the Vite dev middleware are thin adapters around it.
+ */
+
+import { GENRES, type Genre } from '../../types';
+import type { PuzzleApiStorage } from './puzzleApiStorage';
+import { GROUP_SIZE } from '../game-engine';
+import { checkGuess, toPublicPuzzle, type GuessResult, type PublicPuzzle } from './publicPuzzle';
+
+/** Routes served by both adapters start with this */
+export const PUZZLE_API_PATH = '/api/puzzle';
+
+/** A released puzzle rarely changes: browsers keep it briefly, the CDN for an hour */
+const PUZZLE_CACHE_CONTROL = 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400';
+
+/** A missing puzzle may just not be released yet, so only cache it for a minute */
+const NOT_FOUND_CACHE_CONTROL = 'public, max-age=60, s-maxage=60';
+
+const NO_STORE = 'no-store';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Incoming request, already stripped of framework details
+ */
+export interface PuzzleApiRequest {
+  method?: string;
+  /** Request path without the query string, e.g. /api/puzzle/films/2025-03-05 */
+  path: string;
+  /** Parsed JSON body */
+  body: unknown;
+}
+
+/**
+ * Outgoing JSON response with the headers to set
+ */
+export interface PuzzleApiResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: PublicPuzzle | GuessResult | { error: string };
+}
+
+/**
+ * Dependencies supplied by the adapter
+ */
+export interface PuzzleApiDeps {
+  /** Storage built from the adapter's environment (null when Supabase is not configured) */
+  storage: PuzzleApiStorage | null;
+  /** Source of the item order (defaults to Math.random) */
+  random?: () => number;
+}
+
+/**
+ * Handle a puzzle API request.
+ * Never throws: every failure is returned as a JSON error response.
+ */
+export async function handlePuzzleApiRequest(
+  request: PuzzleApiRequest,
+  deps: PuzzleApiDeps
+): Promise<PuzzleApiResponse> {
+  const segments = parsePath(request.path);
+  if (!segments) {
+    return errorResponse(404, 'Not found');
+  }
+
+  const isGuess = segments[1] === 'guess';
+  const allowed = isGuess ? 'POST' : 'GET';
+  if (request.method !== allowed) {
+    return errorResponse(405, 'Method not allowed', { Allow: allowed });
+  }
+
+  if (!deps.storage) {
+    console.error('Supabase URL or anon key not configured');
+    return errorResponse(500, 'Puzzle storage not configured');
+  }
+
+  try {
+    return isGuess
+      ? await guess(segments[0], request.body, deps.storage)
+      : await getPuzzle(segments[0], segments[1], deps.storage, deps.random);
+  } catch (error) {
+    // Storage errors can carry database details, so they stay in the server log
+    console.error('Error serving puzzle:', error);
+    return errorResponse(500, 'Internal server error');
+  }
+}
+
+async function getPuzzle(
+  genre: string,
+  date: string,
+  storage: PuzzleApiStorage,
+  random?: () => number
+): Promise<PuzzleApiResponse> {
+  if (!GENRES.includes(genre as Genre)) {
+    return errorResponse(400, `Unknown genre: ${genre}`);
+  }
+  if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(`${date}T00:00:00Z`))) {
+    return errorResponse(400, `Invalid date: ${date} (expected YYYY-MM-DD)`);
+  }
+
+  const puzzle = await storage.getDailyPuzzle(date, genre as Genre);
+  if (!puzzle) {
+    return errorResponse(404, 'No puzzle for this date', { 'Cache-Control': NOT_FOUND_CACHE_CONTROL });
+  }
+
+  return {
+    status: 200,
+    headers: { 'Cache-Control': PUZZLE_CACHE_CONTROL },
+    body: toPublicPuzzle(puzzle, genre as Genre, date, random),
+  };
+}
+
+async function guess(id: string, body: unknown, storage: PuzzleApiStorage): Promise<PuzzleApiResponse> {
+  const itemIds = parseGuess(body);
+  if (!itemIds) {
+    return errorResponse(400, `A guess needs ${GROUP_SIZE} different item ids in "items"`);
+  }
+
+  const puzzle = await storage.getPublishedPuzzle(id);
+  if (!puzzle) {
+    return errorResponse(404, 'Puzzle not found');
+  }
+
+  const puzzleItemIds = new Set(puzzle.items.map((item) => String(item.id)));
+  const unknown = itemIds.find((itemId) => !puzzleItemIds.has(String(itemId)));
+  if (unknown !== undefined) {
+    return errorResponse(400, `Item ${unknown} is not in this puzzle`);
+  }
+
+  return { status: 200, headers: { 'Cache-Control': NO_STORE }, body: checkGuess(puzzle.groups, itemIds) };
+}
+
+/**
+ * The two segments after PUZZLE_API_PATH, or null for any other path
+ */
+function parsePath(path: string): [string, string] | null {
+  if (!path.startsWith(`${PUZZLE_API_PATH}/`)) {
+    return null;
+  }
+
+  try {
+    const segments = path.slice(PUZZLE_API_PATH.length).split('/').filter(Boolean).map(decodeURIComponent);
+    return segments.length === 2 ? [segments[0], segments[1]] : null;
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+}
+
+/**
+ * The item ids of a guess body ({ items: [...] }), or null when it is not a valid guess
+ */
+function parseGuess(body: unknown): (string | number)[] | null {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return null;
+  }
+
+  const { items } = body as { items?: unknown };
+  if (
+    !Array.isArray(items) ||
+    items.length !== GROUP_SIZE ||
+    !items.every((item) => typeof item === 'string' || typeof item === 'number') ||
+    new Set(items.map(String)).size !== GROUP_SIZE
+  ) {
+    return null;
+  }
+
+  return items as (string | number)[];
+}
+
+function errorResponse(status: number, error: string, headers: Record<string, string> = {}): PuzzleApiResponse {
+  return { status, headers: { 'Cache-Control': NO_STORE, ...headers }, body: { error } };
+}
@@ -0,0 +1,49 @@
+/**
+ * Puzzle API Dev Middleware
+ *
+ * Connect-style adapter that serves /api/puzzle/* from the Vite dev server.
+ * Mirrors the Vercel route by delegating to handlePuzzleApiRequest.
+ */
+
+import {
+  readBody,
+  type ServerMiddlewareHandler,
+} from '../group-generator/generateGroupsMiddleware';
+import { PUZZLE_API_PATH, handlePuzzleApiRequest } from './puzzleApiHandler';
+import type { PuzzleApiStorage } from './puzzleApiStorage';
+
+/**
+ * Create the dev middleware for /api/puzzle/*.
+ *
+ * @param getStorage - Builds the storage per request (so .env changes apply without restart)
+ */
+export function createPuzzleApiMiddleware(getStorage: () => PuzzleApiStorage | null): ServerMiddlewareHandler {
+  return async (req, res, next) => {
+    const path = (req.url ?? '').split('?')[0];
+    if (!path.startsWith(`${PUZZLE_API_PATH}/`)) {
+      next();
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch {
+        res.statusCode = 400;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ error: 'Request body must be valid JSON' }));
+        return;
+      }
+    }
+
+    const result = await handlePuzzleApiRequest({ method: req.method, path, body }, { storage: getStorage() });
+
+    res.statusCode = result.status;
+    res.setHeader('Content-Type', 'application/json');
+    for (const [name, value] of Object.entries(result.headers)) {
+      res.setHeader(name, value);
+    }
+    res.end(JSON.stringify(result.body));
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Puzzle API Storage
+ *
+ * Puzzle storage for the public puzzle routes. It connects with the anon
+ * (publishable) key so the public RLS policies apply: only released
+ * puzzles can be read.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../../lib/supabase/types';
+import { SupabaseStorage } from '../../lib/supabase/storage/SupabaseStorage';
+import type { IPuzzleStorage } from '../../lib/supabase/storage/IPuzzleStorage';
+
+/** What the puzzle routes read */
+export type PuzzleApiStorage = Pick<IPuzzleStorage, 'getDailyPuzzle' | 'getPublishedPuzzle'>;
+
+/**
+ * Build the storage from the environment (SUPABASE_URL and SUPABASE_ANON_KEY,
+ * falling back to the VITE_ names the client uses). Null when not configured.
+ */
+export function createPuzzleApiStorage(env: Record<string, string | undefined>): PuzzleApiStorage | null {
+  const url = env.SUPABASE_URL || env.VITE_SUPABASE_URL;
+  const anonKey = env.SUPABASE_ANON_KEY || env.VITE_SUPABASE_ANON_KEY;
+
+  if (!url || !anonKey) {
+    return null;
+  }
+
+  return new SupabaseStorage(createClient<Database>(url, anonKey, { auth: { persistSession: false } }));
+}
@@ -0,0 +1,14 @@
+/**
+ * Supabase Query Mock
+ *
+ * Supabase's query builder can be awaited at any point of a chain. Store
+ * tests mock each chain method with vi.fn(); wrap a result with awaitable()
+ * to return a step that resolves to it and still chains on.
+ */
+
+/**
+ * A promise of `result` that also has the chain's methods
+ */
+export function awaitable<T extends object>(result: unknown, chain: T): Promise<unknown> & T {
+  return Object.assign(Promise.resolve(result), chain);
+}
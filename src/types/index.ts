@@ -46,11 +46,12 @@ export interface Group {
 }
 
 export interface GameState {
-  items: Item[];
+  items: Item[]; // Unsolved items in display order
   groups: Group[];
-  selectedItemIds: number[];
-  foundGroups: Group[];
-  previousGuesses: number[][]; // Track attempted combinations
+  selectedItemIds: Item['id'][];
+  foundGroups: Group[]; // In the order the player solved them
+  revealedGroups: Group[]; // Unsolved groups shown after giving up or losing
+  previousGuesses: Item['id'][][]; // Track attempted combinations
   mistakes: number;
   gameStatus: 'playing' | 'won' | 'lost';
   isLoading: boolean;
@@ -125,5 +126,21 @@ export interface SavedPuzzle {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Daily rollover of a genre: the puzzle for a date is released at this hour
+ * of that date in this time zone.
+ */
+export interface ReleaseSettings {
+  /** IANA time zone, e.g. 'America/New_York' */
+  timeZone: string;
+  /** Hour of the day (0-23) */
+  releaseHour: number;
+}
+
+/**
+ * Rollover of a genre that has not been configured (UTC midnight)
+ */
+export const DEFAULT_RELEASE_SETTINGS: ReleaseSettings = { timeZone: 'UTC', releaseHour: 0 };
+
 // Re-export stats types
 export type { GameResult, UserStats, IStatsStorage } from './stats';
@@ -5,7 +5,10 @@ import {
   formatDateHeader,
   formatDateShort,
   formatDateForStorage,
+  parseStorageDate,
   formatWeekRange,
+  getMonthGridDays,
+  formatMonth,
 } from '../dateUtils';
 
 describe('dateUtils', () => {
@@ -145,6 +148,18 @@ describe('dateUtils', () => {
     });
   });
 
+  describe('parseStorageDate', () => {
+    it('should parse as local midnight', () => {
+      const date = parseStorageDate('2024-12-04');
+
+      expect(date.getFullYear()).toBe(2024);
+      expect(date.getMonth()).toBe(11);
+      expect(date.getDate()).toBe(4);
+      expect(date.getHours()).toBe(0);
+      expect(formatDateForStorage(date)).toBe('2024-12-04');
+    });
+  });
+
   describe('formatWeekRange', () => {
     it('should format range within same month', () => {
       const start = new Date(2024, 11, 2); // December 2, 2024
@@ -164,4 +179,32 @@ describe('dateUtils', () => {
       expect(formatWeekRange(start, end)).toBe('December 30 - January 5, 2025');
     });
   });
+
+  describe('getMonthGridDays', () => {
+    it('should cover the month in whole weeks from Monday', () => {
+      // March 2025 starts on a Saturday and ends on a Monday
+      const days = getMonthGridDays(new Date(2025, 2, 15));
+
+      expect(days).toHaveLength(42);
+      expect(formatDateForStorage(days[0])).toBe('2025-02-24');
+      expect(days[0].getDay()).toBe(1);
+      expect(formatDateForStorage(days[41])).toBe('2025-04-06');
+      expect(days[41].getDay()).toBe(0);
+    });
+
+    it('should not add a week when the month ends on a Sunday', () => {
+      // November 2025 ends on a Sunday
+      const days = getMonthGridDays(new Date(2025, 10, 1));
+
+      expect(days).toHaveLength(35);
+      expect(formatDateForStorage(days[0])).toBe('2025-10-27');
+      expect(formatDateForStorage(days[34])).toBe('2025-11-30');
+    });
+  });
+
+  describe('formatMonth', () => {
+    it('should format month and year', () => {
+      expect(formatMonth(new Date(2025, 2, 15))).toBe('March 2025');
+    });
+  });
 });
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDateInTimeZone,
+  getReleaseInstant,
+  getReleasedDate,
+  isValidTimeZone,
+  resolvePuzzleDate,
+} from '../releaseTime';
+import type { ReleaseSettings } from '../../types';
+
+const newYorkMidnight: ReleaseSettings = { timeZone: 'America/New_York', releaseHour: 0 };
+
+describe('releaseTime', () => {
+  describe('isValidTimeZone', () => {
+    it('should accept IANA time zones and reject anything else', () => {
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('America/New_York')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    });
+  });
+
+  describe('getDateInTimeZone', () => {
+    it('should return the calendar date in the time zone', () => {
+      const instant = new Date('2025-03-05T03:00:00Z');
+
+      expect(getDateInTimeZone(instant, 'UTC')).toBe('2025-03-05');
+      expect(getDateInTimeZone(instant, 'America/New_York')).toBe('2025-03-04');
+      expect(getDateInTimeZone(instant, 'Asia/Tokyo')).toBe('2025-03-05');
+    });
+  });
+
+  describe('getReleaseInstant', () => {
+    it('should release at the hour in the time zone', () => {
+      expect(getReleaseInstant('2025-03-05', newYorkMidnight)).toEqual(new Date('2025-03-05T05:00:00Z'));
+      expect(getReleaseInstant('2025-07-05', newYorkMidnight)).toEqual(new Date('2025-07-05T04:00:00Z'));
+      expect(getReleaseInstant('2025-03-05', { timeZone: 'UTC', releaseHour: 18 })).toEqual(
+        new Date('2025-03-05T18:00:00Z')
+      );
+    });
+
+    it('should follow a daylight saving change on the day', () => {
+      // Clocks in New York go forward at 02:00 on 2025-03-09
+      expect(getReleaseInstant('2025-03-09', { timeZone: 'America/New_York', releaseHour: 6 })).toEqual(
+        new Date('2025-03-09T10:00:00Z')
+      );
+    });
+  });
+
+  describe('getReleasedDate', () => {
+    it('should roll over at the release hour', () => {
+      expect(getReleasedDate(new Date('2025-03-05T04:59:59Z'), newYorkMidnight)).toBe('2025-03-04');
+      expect(getReleasedDate(new Date('2025-03-05T05:00:00Z'), newYorkMidnight)).toBe('2025-03-05');
+    });
+
+    it('should hold the previous date back before a later release hour', () => {
+      const londonEvening: ReleaseSettings = { timeZone: 'Europe/London', releaseHour: 18 };
+
+      expect(getReleasedDate(new Date('2025-03-05T17:59:00Z'), londonEvening)).toBe('2025-03-04');
+      expect(getReleasedDate(new Date('2025-03-05T18:00:00Z'), londonEvening)).toBe('2025-03-05');
+    });
+  });
+
+  describe('resolvePuzzleDate', () => {
+    it('should give an evening player in the Americas the puzzle of their own day', () => {
+      // 23:00 in Los Angeles on March 4, already March 5 in UTC and New York
+      const now = new Date('2025-03-05T07:00:00Z');
+
+      expect(resolvePuzzleDate(newYorkMidnight, { timeZone: 'America/Los_Angeles', now })).toBe('2025-03-04');
+    });
+
+    it('should hold a player ahead of the release zone back to the latest release', () => {
+      // 11:00 in Tokyo on March 5, still March 4 in New York
+      const now = new Date('2025-03-05T02:00:00Z');
+
+      expect(resolvePuzzleDate(newYorkMidnight, { timeZone: 'Asia/Tokyo', now })).toBe('2025-03-04');
+    });
+
+    it('should return the latest release without a player time zone', () => {
+      expect(resolvePuzzleDate(newYorkMidnight, { now: new Date('2025-03-05T05:00:00Z') })).toBe('2025-03-05');
+    });
+  });
+});
@@ -62,6 +62,14 @@ export function formatDateForStorage(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+/**
+ * Parse a storage date (YYYY-MM-DD) as local midnight.
+ */
+export function parseStorageDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
 /**
  * Format a week range for display.
  * Example: "November 25 - December 1, 2025" or "November 25 - 30, 2025"
@@ -78,3 +86,31 @@ export function formatWeekRange(weekStart: Date, weekEnd: Date): string {
   }
   return `${startMonth} ${startDay} - ${endMonth} ${endDay}, ${year}`;
 }
+
+/**
+ * Get the days of the month grid containing the given date: whole weeks
+ * (Monday to Sunday) from the week of the 1st to the week of the last day.
+ */
+export function getMonthGridDays(date: Date): Date[] {
+  const firstOfMonth = new Date(date.getFullYear(), date.getMonth(), 1);
+  const lastOfMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+  const days: Date[] = [];
+
+  const day = getWeekStart(firstOfMonth);
+  while (day <= lastOfMonth || days.length % 7 !== 0) {
+    days.push(new Date(day));
+    day.setDate(day.getDate() + 1);
+  }
+  return days;
+}
+
+/**
+ * Format a month for display.
+ * Example: "December 2025"
+ */
+export function formatMonth(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+  });
+}
@@ -2,17 +2,16 @@
  * Utilities
  */
 
+import { getDateInTimeZone } from './releaseTime';
+
 /**
- * Get today's date in YYYY-MM-DD format (UTC).
+ * Get today's date in YYYY-MM-DD format.
  *
+ * @param timeZone - IANA time zone of the calendar day (defaults to UTC)
  * @returns Date string (YYYY-MM-DD)
  */
-export function getTodayDate(): string {
-  const now = new Date();
-  const year = now.getUTCFullYear();
-  const month = String(now.getUTCMonth() + 1).padStart(2, '0');
-  const day = String(now.getUTCDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
+export function getTodayDate(timeZone = 'UTC'): string {
+  return getDateInTimeZone(new Date(), timeZone);
 }
 
 export function getTextLengthProps(title: string) {
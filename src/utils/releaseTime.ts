@@ -0,0 +1,126 @@
+/**
+ * Release time utilities
+ *
+ * Which daily puzzle is current: a genre releases the puzzle for a date at
+ * its release hour in its time zone (see ReleaseSettings), and a player is
+ * never given a date ahead of their own calendar day.
+ */
+
+import type { ReleaseSettings } from '../types';
+
+/** Wall-clock reading of an instant in a time zone */
+interface ZonedTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Whether a string is a time zone the runtime knows (e.g. 'Europe/London')
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a time zone
+ */
+export function getDateInTimeZone(instant: Date, timeZone: string): string {
+  const { year, month, day } = getZonedTime(instant, timeZone);
+  return formatDate(year, month, day);
+}
+
+/**
+ * Instant the puzzle for a date is released
+ */
+export function getReleaseInstant(date: string, settings: ReleaseSettings): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, settings.releaseHour);
+
+  // Take the zone's offset at the first guess, then again at the result in
+  // case a daylight saving change falls between the two
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), settings.timeZone);
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), settings.timeZone));
+}
+
+/**
+ * Latest puzzle date released at an instant
+ */
+export function getReleasedDate(now: Date, settings: ReleaseSettings): string {
+  const { year, month, day, hour } = getZonedTime(now, settings.timeZone);
+  const date = formatDate(year, month, day);
+  return hour < settings.releaseHour ? addDays(date, -1) : date;
+}
+
+/**
+ * The puzzle date that is "today" for a player: their calendar date in their
+ * time zone, held back to the latest date the genre has released. Without a
+ * time zone this is the latest released date.
+ *
+ * @param options.timeZone - The player's IANA time zone
+ * @param options.now - Instant to resolve at (defaults to now)
+ */
+export function resolvePuzzleDate(
+  settings: ReleaseSettings,
+  options: { timeZone?: string; now?: Date } = {}
+): string {
+  const now = options.now ?? new Date();
+  const released = getReleasedDate(now, settings);
+
+  if (!options.timeZone) {
+    return released;
+  }
+
+  const playerDate = getDateInTimeZone(now, options.timeZone);
+  return playerDate < released ? playerDate : released;
+}
+
+function getZonedTime(instant: Date, timeZone: string): ZonedTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  };
+}
+
+/**
+ * How far a time zone's wall clock is ahead of UTC at an instant, in ms
+ */
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedTime(instant, timeZone);
+  const wholeSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Date.UTC(year, month - 1, day, hour, minute, second) - wholeSeconds;
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return formatDate(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
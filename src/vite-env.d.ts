@@ -2,6 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_TMDB_API_KEY: string;
+  readonly VITE_GENERATION_PROVIDER?: string;
 }
 
 interface ImportMeta {
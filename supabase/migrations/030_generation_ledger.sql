@@ -0,0 +1,62 @@
+-- Generation Ledger Table
+-- Records token usage for every AI group generation call
+
+CREATE TABLE IF NOT EXISTS generation_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Genre the groups were generated for
+  genre TEXT NOT NULL,
+
+  -- Target difficulty requested (NULL when generation was not difficulty-specific)
+  target_difficulty TEXT CHECK (target_difficulty IN ('easy', 'medium', 'hard', 'expert')),
+
+  -- Number of groups requested, returned (valid) and dropped by validation
+  requested_count INTEGER NOT NULL,
+  returned_count INTEGER NOT NULL,
+  dropped_count INTEGER NOT NULL DEFAULT 0,
+
+  -- Token usage reported by the model
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+
+  -- Model and provider that handled the call
+  model TEXT NOT NULL,
+  provider TEXT NOT NULL,
+
+  -- What triggered the call
+  caller TEXT NOT NULL CHECK (caller IN ('generator-page', 'fill-now', 'cron'))
+);
+
+-- Monthly spend queries filter by date, optionally per genre
+CREATE INDEX idx_generation_ledger_created_at ON generation_ledger(created_at);
+CREATE INDEX idx_generation_ledger_genre_created_at ON generation_ledger(genre, created_at);
+
+-- RLS policies
+ALTER TABLE generation_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to read the ledger
+CREATE POLICY "Allow authenticated users to read generation ledger"
+  ON generation_ledger
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Allow authenticated users to record generation calls (ledger rows are never updated)
+CREATE POLICY "Allow authenticated users to insert generation ledger"
+  ON generation_ledger
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+COMMENT ON TABLE generation_ledger IS 'Token usage for every AI group generation call';
+COMMENT ON COLUMN generation_ledger.requested_count IS 'Number of groups requested from the provider';
+COMMENT ON COLUMN generation_ledger.returned_count IS 'Number of valid groups the provider returned';
+COMMENT ON COLUMN generation_ledger.dropped_count IS 'Number of returned groups dropped by validation';
+COMMENT ON COLUMN generation_ledger.caller IS 'What triggered the call: generator-page, fill-now or cron';
+
+-- Monthly token budget for pipeline generation (NULL = unlimited)
+ALTER TABLE pipeline_config
+ADD COLUMN monthly_token_budget INTEGER CHECK (monthly_token_budget IS NULL OR monthly_token_budget >= 0);
+
+COMMENT ON COLUMN pipeline_config.monthly_token_budget IS 'Maximum input + output tokens the pipeline may spend per calendar month (UTC); NULL for no limit';
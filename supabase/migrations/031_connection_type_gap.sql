@@ -0,0 +1,7 @@
+-- Minimum spacing between puzzles that reuse a connection type
+-- Used by the pipeline's assembly planner when filling the rolling window
+
+ALTER TABLE pipeline_config
+ADD COLUMN connection_type_gap_days INTEGER NOT NULL DEFAULT 7 CHECK (connection_type_gap_days >= 0);
+
+COMMENT ON COLUMN pipeline_config.connection_type_gap_days IS 'Minimum days between puzzles that use the same connection type';
@@ -0,0 +1,95 @@
+-- Create Puzzle Function
+--
+-- Creates a puzzle in a single transaction: checks the date and group
+-- combination are free, inserts the puzzle (scheduled and published when a
+-- date is given), snapshots its groups when published and increments the
+-- groups' usage counts. Replaces the save -> update -> increment_group_usage
+-- round-trips that could leave orphan drafts or wrong usage counts.
+
+CREATE OR REPLACE FUNCTION create_puzzle(
+  group_ids_param UUID[],
+  genre_param TEXT DEFAULT 'films',
+  puzzle_date_param DATE DEFAULT NULL,
+  status_param puzzle_status DEFAULT 'pending',
+  title_param TEXT DEFAULT NULL,
+  metadata_param JSONB DEFAULT NULL
+)
+RETURNS puzzles AS $$
+DECLARE
+  sorted_ids UUID[];
+  groups_snapshot JSONB;
+  new_puzzle puzzles;
+BEGIN
+  sorted_ids := ARRAY(SELECT unnest(group_ids_param) ORDER BY 1);
+
+  IF (SELECT COUNT(*) FROM connection_groups WHERE id = ANY(group_ids_param))
+     <> cardinality(ARRAY(SELECT DISTINCT unnest(group_ids_param))) THEN
+    RAISE EXCEPTION 'Cannot create puzzle: unknown group id in %', group_ids_param
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  -- Serialize creations per genre so concurrent fills cannot both pass the checks below
+  PERFORM pg_advisory_xact_lock(hashtext('create_puzzle:' || genre_param));
+
+  IF puzzle_date_param IS NOT NULL AND EXISTS (
+    SELECT 1 FROM puzzles
+    WHERE puzzle_date = puzzle_date_param AND genre = genre_param
+  ) THEN
+    RAISE EXCEPTION 'duplicate puzzle date: % already has a % puzzle', puzzle_date_param, genre_param
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM puzzles
+    WHERE genre = genre_param
+      AND ARRAY(SELECT unnest(group_ids) ORDER BY 1) = sorted_ids
+  ) THEN
+    RAISE EXCEPTION 'duplicate puzzle: this group combination already exists for %', genre_param
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  -- Published puzzles carry a snapshot of their groups for gameplay (see 012)
+  IF status_param = 'published' THEN
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', cg.id,
+        'items', cg.items,
+        'connection', cg.connection,
+        'difficulty', COALESCE(cg.difficulty, 'medium'),
+        'color', COALESCE(cg.color, 'green')
+      )
+      ORDER BY array_position(group_ids_param, cg.id)
+    )
+    INTO groups_snapshot
+    FROM connection_groups cg
+    WHERE cg.id = ANY(group_ids_param);
+  END IF;
+
+  INSERT INTO puzzles (group_ids, genre, puzzle_date, status, title, metadata, groups)
+  VALUES (
+    group_ids_param,
+    genre_param,
+    puzzle_date_param,
+    status_param,
+    title_param,
+    metadata_param,
+    groups_snapshot
+  )
+  RETURNING * INTO new_puzzle;
+
+  UPDATE connection_groups
+  SET
+    usage_count = usage_count + 1,
+    last_used_at = NOW()
+  WHERE id = ANY(group_ids_param);
+
+  RETURN new_puzzle;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs with the caller's privileges, so puzzle RLS policies still apply; anonymous users cannot call it
+REVOKE EXECUTE ON FUNCTION create_puzzle(UUID[], TEXT, DATE, puzzle_status, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_puzzle(UUID[], TEXT, DATE, puzzle_status, TEXT, JSONB) TO authenticated, service_role;
+
+COMMENT ON FUNCTION create_puzzle(UUID[], TEXT, DATE, puzzle_status, TEXT, JSONB) IS
+  'Atomically creates a puzzle: rejects taken dates and duplicate group combinations, inserts, snapshots groups when published and increments group usage';
@@ -0,0 +1,13 @@
+-- Auto-approval policy for pipeline-generated groups
+-- Groups that fail the quality gate are saved as pending for review instead of approved
+
+ALTER TABLE pipeline_config
+ADD COLUMN auto_approval_mode TEXT NOT NULL DEFAULT 'threshold'
+  CHECK (auto_approval_mode IN ('always', 'never', 'threshold')),
+ADD COLUMN auto_approval_threshold INTEGER NOT NULL DEFAULT 80
+  CHECK (auto_approval_threshold BETWEEN 0 AND 100),
+ADD COLUMN self_critique_enabled BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN pipeline_config.auto_approval_mode IS 'always: approve every verified, non-duplicate group; never: hold every group for review; threshold: approve groups scoring at least auto_approval_threshold';
+COMMENT ON COLUMN pipeline_config.auto_approval_threshold IS 'Minimum quality score (0-100) for auto-approval in threshold mode';
+COMMENT ON COLUMN pipeline_config.self_critique_enabled IS 'Whether an AI self-critique pass contributes to the quality score';
@@ -0,0 +1,70 @@
+-- Pipeline Runs Table
+-- Records every pipeline fill (manual, cron or CLI) for the run history.
+-- Dry runs are not recorded.
+
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Genre the run filled
+  genre TEXT NOT NULL,
+
+  -- What started the run
+  trigger TEXT NOT NULL CHECK (trigger IN ('manual', 'cron', 'cli')),
+
+  -- Outcome: partial when a date stayed empty or an error was reported, failed when aborted
+  status TEXT NOT NULL CHECK (status IN ('success', 'partial', 'failed')),
+
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+  -- Pipeline config the run used
+  config JSONB NOT NULL,
+
+  -- [{ stage, startedAt, durationMs }] in order
+  stage_timings JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- Group generation
+  ai_generation_triggered BOOLEAN NOT NULL DEFAULT false,
+  groups_generated INTEGER NOT NULL DEFAULT 0,
+  groups_saved INTEGER NOT NULL DEFAULT 0,
+  groups_pending_review INTEGER NOT NULL DEFAULT 0,
+  -- { yellow: { generated, saved }, ... }
+  groups_by_color JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Puzzle creation: [{ date, puzzleId, groupIds }]
+  puzzles_created INTEGER NOT NULL DEFAULT 0,
+  empty_days_remaining INTEGER NOT NULL DEFAULT 0,
+  puzzles JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- Structured pipeline errors: [{ date, message, code }]
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- Exception that aborted a failed run
+  failure_message TEXT
+);
+
+-- The history view lists recent runs, optionally per genre
+CREATE INDEX idx_pipeline_runs_started_at ON pipeline_runs(started_at DESC);
+CREATE INDEX idx_pipeline_runs_genre_started_at ON pipeline_runs(genre, started_at DESC);
+
+-- RLS policies
+ALTER TABLE pipeline_runs ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to read the run history
+CREATE POLICY "Allow authenticated users to read pipeline runs"
+  ON pipeline_runs
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Allow authenticated users to record runs (runs are never updated)
+CREATE POLICY "Allow authenticated users to insert pipeline runs"
+  ON pipeline_runs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+COMMENT ON TABLE pipeline_runs IS 'History of pipeline fills with their config, stage timings, generation counts, created puzzles and errors';
+COMMENT ON COLUMN pipeline_runs.trigger IS 'What started the run: manual (Fill Now), cron (scheduled workflow) or cli (script run by hand)';
+COMMENT ON COLUMN pipeline_runs.status IS 'success, partial (a date stayed empty or an error was reported) or failed (aborted by an exception)';
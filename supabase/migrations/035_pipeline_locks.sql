@@ -0,0 +1,100 @@
+-- Pipeline Locks
+--
+-- One lease per genre so the scheduled fill and Fill Now cannot fill the same
+-- genre at the same time. A fill takes the lease before reading the window
+-- and renews it as it moves through its stages; a lease left behind by a
+-- crashed fill expires and is reclaimed by the next fill.
+
+CREATE TABLE IF NOT EXISTS pipeline_locks (
+  genre TEXT PRIMARY KEY,
+
+  -- Random token identifying the fill holding the lease
+  token UUID NOT NULL,
+
+  -- Who holds the lease, for display (an admin's email, a GitHub Actions run, user@host)
+  holder TEXT NOT NULL,
+
+  -- What started the fill
+  trigger TEXT NOT NULL CHECK (trigger IN ('manual', 'cron', 'cli')),
+
+  acquired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Takes the lease when it is free, expired or already held with the same token
+-- (a renewal), and returns whichever lease holds the genre afterwards.
+-- The caller owns the lease when the returned token is its own.
+CREATE OR REPLACE FUNCTION acquire_pipeline_lock(
+  genre_param TEXT,
+  token_param UUID,
+  holder_param TEXT,
+  trigger_param TEXT,
+  ttl_seconds_param INTEGER
+)
+RETURNS pipeline_locks AS $$
+DECLARE
+  current_lease pipeline_locks;
+BEGIN
+  INSERT INTO pipeline_locks (genre, token, holder, trigger, acquired_at, expires_at)
+  VALUES (
+    genre_param,
+    token_param,
+    holder_param,
+    trigger_param,
+    NOW(),
+    NOW() + make_interval(secs => ttl_seconds_param)
+  )
+  ON CONFLICT (genre) DO UPDATE SET
+    token = EXCLUDED.token,
+    holder = EXCLUDED.holder,
+    trigger = EXCLUDED.trigger,
+    acquired_at = CASE
+      WHEN pipeline_locks.token = EXCLUDED.token THEN pipeline_locks.acquired_at
+      ELSE EXCLUDED.acquired_at
+    END,
+    expires_at = EXCLUDED.expires_at
+  WHERE pipeline_locks.token = EXCLUDED.token
+     OR pipeline_locks.expires_at <= NOW();
+
+  SELECT * INTO current_lease FROM pipeline_locks WHERE genre = genre_param;
+  RETURN current_lease;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS policies
+ALTER TABLE pipeline_locks ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to see who holds a genre's lease
+CREATE POLICY "Allow authenticated users to read pipeline locks"
+  ON pipeline_locks
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- acquire_pipeline_lock runs with the caller's privileges and upserts the lease
+CREATE POLICY "Allow authenticated users to insert pipeline locks"
+  ON pipeline_locks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Allow authenticated users to update pipeline locks"
+  ON pipeline_locks
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Allow authenticated users to release a lease
+CREATE POLICY "Allow authenticated users to delete pipeline locks"
+  ON pipeline_locks
+  FOR DELETE
+  TO authenticated
+  USING (true);
+
+REVOKE EXECUTE ON FUNCTION acquire_pipeline_lock(TEXT, UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION acquire_pipeline_lock(TEXT, UUID, TEXT, TEXT, INTEGER) TO authenticated, service_role;
+
+COMMENT ON TABLE pipeline_locks IS 'Per-genre lease held by the pipeline fill in progress; expired leases are reclaimed by the next fill';
+COMMENT ON FUNCTION acquire_pipeline_lock(TEXT, UUID, TEXT, TEXT, INTEGER) IS
+  'Takes or renews a genre''s pipeline lease when free, expired or held with the same token; returns the lease holding the genre';
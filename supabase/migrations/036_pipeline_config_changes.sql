@@ -0,0 +1,51 @@
+-- Pipeline Config Changes
+-- Audit history of pipeline config changes: who changed which fields, when and how.
+-- Changes are reverted by recording a new change that restores the previous values.
+
+CREATE TABLE IF NOT EXISTS pipeline_config_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Genre whose config changed
+  genre TEXT NOT NULL,
+
+  -- Who made the change (an admin's email)
+  changed_by TEXT NOT NULL,
+
+  -- How the change was made
+  source TEXT NOT NULL CHECK (source IN ('edit', 'toggle', 'reset', 'copy', 'revert')),
+
+  -- [{ field, from, to }] using the PipelineConfig field names
+  changes JSONB NOT NULL,
+
+  -- Genre the values were copied from ('copy' only)
+  copied_from TEXT,
+
+  -- Change this one reverted ('revert' only)
+  reverted_change_id UUID REFERENCES pipeline_config_changes(id) ON DELETE SET NULL
+);
+
+-- The editor lists a genre's recent changes
+CREATE INDEX idx_pipeline_config_changes_genre_created_at
+  ON pipeline_config_changes(genre, created_at DESC);
+
+-- RLS policies
+ALTER TABLE pipeline_config_changes ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to read the change history
+CREATE POLICY "Allow authenticated users to read pipeline config changes"
+  ON pipeline_config_changes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Allow authenticated users to record changes (changes are never updated)
+CREATE POLICY "Allow authenticated users to insert pipeline config changes"
+  ON pipeline_config_changes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+COMMENT ON TABLE pipeline_config_changes IS 'Audit history of pipeline config changes per genre';
+COMMENT ON COLUMN pipeline_config_changes.changes IS 'Changed fields as [{ field, from, to }]';
+COMMENT ON COLUMN pipeline_config_changes.source IS 'edit (config editor), toggle (auto-fill switch), reset (defaults), copy (from another genre) or revert (of an earlier change)';
@@ -0,0 +1,77 @@
+-- Generation Jobs Table
+-- Group generation requests split into chunks. Each chunk is retried with
+-- backoff and the job is checkpointed after every chunk, so a job interrupted
+-- by a crash or a failed provider can be resumed from the admin or the CLI.
+
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Last checkpoint; a running job that stops checkpointing was interrupted
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Genre the groups are generated for
+  genre TEXT NOT NULL,
+
+  -- What started the job (a fill's trigger, or the CLI)
+  trigger TEXT NOT NULL CHECK (trigger IN ('manual', 'cron', 'cli')),
+
+  -- running, completed (every chunk completed) or failed (a chunk gave up after its retries)
+  status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'failed')),
+
+  -- { mode, threshold, selfCritique } applied to the saved groups
+  approval_policy JSONB NOT NULL,
+
+  -- [{ color, count, status, attempts, generated, saved, pending, errors }] in run order
+  chunks JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  finished_at TIMESTAMP WITH TIME ZONE,
+
+  -- Error that stopped the job before its chunks ran
+  failure_message TEXT
+);
+
+-- Add updated_at trigger
+CREATE OR REPLACE FUNCTION update_generation_jobs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER generation_jobs_updated_at
+  BEFORE UPDATE ON generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_generation_jobs_updated_at();
+
+-- The admin and the CLI list a genre's recent jobs
+CREATE INDEX idx_generation_jobs_genre_created_at ON generation_jobs(genre, created_at DESC);
+
+-- RLS policies
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to read generation jobs
+CREATE POLICY "Allow authenticated users to read generation jobs"
+  ON generation_jobs
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Allow authenticated users to start generation jobs (Fill Now)
+CREATE POLICY "Allow authenticated users to insert generation jobs"
+  ON generation_jobs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+-- Allow authenticated users to checkpoint and resume generation jobs
+CREATE POLICY "Allow authenticated users to update generation jobs"
+  ON generation_jobs
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE generation_jobs IS 'Chunked, checkpointed group generation requests that can be resumed';
+COMMENT ON COLUMN generation_jobs.chunks IS 'One entry per provider call with its status, attempts, counts and errors';
+COMMENT ON COLUMN generation_jobs.status IS 'running, completed or failed; a running job whose updated_at is older than 10 minutes was interrupted';
@@ -0,0 +1,60 @@
+-- Alert Log
+-- Last time each pipeline alert was sent, so a condition that persists across
+-- fills (a coming calendar gap, a low pool) is not reported on every run.
+-- Alerts are sent by the pipeline CLI with the service role.
+
+CREATE TABLE IF NOT EXISTS alert_log (
+  -- Identifies the condition, e.g. 'calendar-gap:films:2025-03-06:warning'
+  key TEXT PRIMARY KEY,
+
+  rule TEXT NOT NULL CHECK (rule IN ('calendar-gap', 'pool-low', 'run-failed')),
+  severity TEXT NOT NULL CHECK (severity IN ('warning', 'critical')),
+  genre TEXT NOT NULL,
+
+  -- Last alert sent for the key
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  last_sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Times the alert was sent (once per cooldown while the condition lasts)
+  send_count INTEGER NOT NULL DEFAULT 1
+);
+
+-- Recent alerts per genre
+CREATE INDEX idx_alert_log_genre_last_sent_at
+  ON alert_log(genre, last_sent_at DESC);
+
+-- RLS policies
+ALTER TABLE alert_log ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to read sent alerts
+CREATE POLICY "Allow authenticated users to read the alert log"
+  ON alert_log
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Record a sent alert, counting repeats of the same key
+CREATE OR REPLACE FUNCTION record_alert_sent(
+  key_param TEXT,
+  rule_param TEXT,
+  severity_param TEXT,
+  genre_param TEXT,
+  title_param TEXT,
+  message_param TEXT,
+  sent_at_param TIMESTAMP WITH TIME ZONE
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO alert_log (key, rule, severity, genre, title, message, last_sent_at)
+  VALUES (key_param, rule_param, severity_param, genre_param, title_param, message_param, sent_at_param)
+  ON CONFLICT (key) DO UPDATE SET
+    title = EXCLUDED.title,
+    message = EXCLUDED.message,
+    last_sent_at = EXCLUDED.last_sent_at,
+    send_count = alert_log.send_count + 1;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE alert_log IS 'Last time each pipeline alert was sent, for deduplication';
+COMMENT ON COLUMN alert_log.key IS 'Rule, genre and condition; a new key is sent straight away, a known key once per cooldown';
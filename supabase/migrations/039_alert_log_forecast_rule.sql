@@ -0,0 +1,9 @@
+-- Allow pool forecast alerts in the alert log
+-- The pipeline now warns when a color's pool is projected to run dry,
+-- based on recent puzzle creation and group approval rates
+
+-- The constraint name is auto-generated as "alert_log_rule_check"
+ALTER TABLE alert_log DROP CONSTRAINT IF EXISTS alert_log_rule_check;
+
+ALTER TABLE alert_log ADD CONSTRAINT alert_log_rule_check
+  CHECK (rule IN ('calendar-gap', 'pool-low', 'pool-forecast', 'run-failed'));
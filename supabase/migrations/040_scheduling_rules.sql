@@ -0,0 +1,71 @@
+-- Scheduling Rules
+-- Themed days for the pipeline: on the dates a rule covers, the assembly
+-- planner only picks puzzles with at least `min_groups` groups matching the
+-- rule (by connection type, connection type category or group tag).
+-- Group tags are read from connection_groups.metadata->'tags'.
+
+CREATE TABLE IF NOT EXISTS scheduling_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  genre TEXT NOT NULL,
+  name TEXT NOT NULL,
+
+  -- When the rule applies, one of:
+  --   {"type": "date", "date": "2025-10-31"}
+  --   {"type": "weekly", "weekdays": [5]}                     (0 = Sunday)
+  --   {"type": "range", "from": "2025-10-25", "to": "2025-10-31"}
+  --   {"type": "yearly", "from": "10-25", "to": "10-31"}      (may wrap the new year)
+  schedule JSONB NOT NULL CHECK (schedule->>'type' IN ('date', 'weekly', 'range', 'yearly')),
+
+  -- A group matches when its connection type, the type's category or one of its tags is listed
+  connection_types TEXT[] NOT NULL DEFAULT '{}',
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Matching groups a puzzle needs on the rule's dates
+  min_groups INTEGER NOT NULL DEFAULT 1 CHECK (min_groups BETWEEN 1 AND 4),
+
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+
+  CONSTRAINT scheduling_rules_has_constraint
+    CHECK (cardinality(connection_types) + cardinality(categories) + cardinality(tags) > 0)
+);
+
+-- Active rules per genre, read on every fill
+CREATE INDEX idx_scheduling_rules_genre_active
+  ON scheduling_rules(genre, active);
+
+-- RLS policies
+ALTER TABLE scheduling_rules ENABLE ROW LEVEL SECURITY;
+
+-- Allow authenticated users to read rules
+CREATE POLICY "Allow authenticated users to read scheduling rules"
+  ON scheduling_rules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Allow authenticated users to insert rules
+CREATE POLICY "Allow authenticated users to insert scheduling rules"
+  ON scheduling_rules
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+-- Allow authenticated users to update rules
+CREATE POLICY "Allow authenticated users to update scheduling rules"
+  ON scheduling_rules
+  FOR UPDATE
+  TO authenticated
+  USING (true);
+
+-- Allow authenticated users to delete rules
+CREATE POLICY "Allow authenticated users to delete scheduling rules"
+  ON scheduling_rules
+  FOR DELETE
+  TO authenticated
+  USING (true);
+
+COMMENT ON TABLE scheduling_rules IS 'Themed days: connection constraints the pipeline honours on the dates a rule covers';
+COMMENT ON COLUMN scheduling_rules.min_groups IS 'Groups of a puzzle that must match the rule on its dates (1-4)';
@@ -0,0 +1,139 @@
+-- Puzzle Release Times
+--
+-- Each genre's daily puzzle rolls over at a configurable hour in a
+-- configurable time zone instead of at UTC midnight. puzzles.publish_at is
+-- the instant a scheduled puzzle is released; triggers keep it in step with
+-- the puzzle's date and the genre's settings, and the public read policy
+-- hides published puzzles until then.
+
+CREATE TABLE IF NOT EXISTS puzzle_release_settings (
+  genre TEXT PRIMARY KEY,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- IANA time zone of the release hour, e.g. 'America/New_York'
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+
+  -- Hour of the puzzle's date (0-23) at which it is released
+  release_hour INTEGER NOT NULL DEFAULT 0 CHECK (release_hour BETWEEN 0 AND 23)
+);
+
+-- UTC midnight keeps the existing rollover until a genre is configured
+INSERT INTO puzzle_release_settings (genre)
+VALUES ('films'), ('music'), ('books'), ('sports')
+ON CONFLICT (genre) DO NOTHING;
+
+-- Release instant of a genre's puzzle for a date
+CREATE OR REPLACE FUNCTION puzzle_release_at(release_date DATE, release_genre TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  settings puzzle_release_settings;
+BEGIN
+  SELECT * INTO settings FROM puzzle_release_settings WHERE genre = release_genre;
+
+  RETURN (release_date + make_interval(hours => COALESCE(settings.release_hour, 0)))
+    AT TIME ZONE COALESCE(settings.time_zone, 'UTC');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+ALTER TABLE puzzles ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE puzzles
+SET publish_at = puzzle_release_at(puzzle_date, genre)
+WHERE puzzle_date IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_puzzles_publish_at ON puzzles(publish_at);
+
+-- Set publish_at when a puzzle is scheduled, moved or unscheduled. Named to
+-- run after clear_date_on_unpublish, which can clear the date in the same update.
+CREATE OR REPLACE FUNCTION set_puzzle_publish_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.puzzle_date IS NULL THEN
+    NEW.publish_at = NULL;
+  ELSIF TG_OP = 'INSERT'
+     OR NEW.puzzle_date IS DISTINCT FROM OLD.puzzle_date
+     OR NEW.genre IS DISTINCT FROM OLD.genre
+     OR NEW.publish_at IS NULL THEN
+    NEW.publish_at = puzzle_release_at(NEW.puzzle_date, NEW.genre);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_puzzle_publish_at
+  BEFORE INSERT OR UPDATE ON puzzles
+  FOR EACH ROW
+  EXECUTE FUNCTION set_puzzle_publish_at();
+
+-- Reject unknown time zones and stamp updated_at
+CREATE OR REPLACE FUNCTION check_puzzle_release_settings()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Raises "time zone ... not recognized" for an unknown zone
+  PERFORM NOW() AT TIME ZONE NEW.time_zone;
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_puzzle_release_settings
+  BEFORE INSERT OR UPDATE ON puzzle_release_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION check_puzzle_release_settings();
+
+-- Move the release of the genre's unreleased puzzles when its settings change.
+-- Released puzzles keep their publish_at so a change never hides them again.
+CREATE OR REPLACE FUNCTION reschedule_puzzle_releases()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE puzzles
+  SET publish_at = puzzle_release_at(puzzle_date, genre)
+  WHERE genre = NEW.genre
+    AND puzzle_date IS NOT NULL
+    AND (publish_at IS NULL OR publish_at > NOW());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER reschedule_puzzle_releases
+  AFTER INSERT OR UPDATE ON puzzle_release_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION reschedule_puzzle_releases();
+
+-- Embargo: the public path only sees published puzzles once they are released.
+-- Logged-in admins still read every puzzle through "Authenticated users can read all puzzles".
+DROP POLICY IF EXISTS "Anyone can read published puzzles" ON puzzles;
+
+CREATE POLICY "Anyone can read released puzzles"
+  ON puzzles FOR SELECT
+  USING (status = 'published' AND publish_at IS NOT NULL AND publish_at <= NOW());
+
+-- RLS policies
+ALTER TABLE puzzle_release_settings ENABLE ROW LEVEL SECURITY;
+
+-- Players resolve "today" from the release settings, so anyone can read them
+CREATE POLICY "Anyone can read puzzle release settings"
+  ON puzzle_release_settings
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow authenticated users to insert puzzle release settings"
+  ON puzzle_release_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Allow authenticated users to update puzzle release settings"
+  ON puzzle_release_settings
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE puzzle_release_settings IS 'Daily rollover (release hour and time zone) per genre';
+COMMENT ON COLUMN puzzle_release_settings.time_zone IS 'IANA time zone of the release hour';
+COMMENT ON COLUMN puzzle_release_settings.release_hour IS 'Hour (0-23) of the puzzle date at which it is released';
+COMMENT ON COLUMN puzzles.publish_at IS 'When the scheduled puzzle is released; set from puzzle_date and the genre release settings';
+COMMENT ON FUNCTION puzzle_release_at(DATE, TEXT) IS 'Release instant of a genre''s puzzle for a date';
+COMMENT ON POLICY "Anyone can read released puzzles" ON puzzles IS
+  'Public (no key and anon key) access to published puzzles once publish_at has passed.';
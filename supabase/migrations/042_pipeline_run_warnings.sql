@@ -0,0 +1,8 @@
+-- Pipeline run warnings
+-- Skipped groups and missed scheduling rules are reported as warnings
+-- instead of errors, so they no longer make a successful fill look failed
+
+ALTER TABLE pipeline_runs
+ADD COLUMN warnings JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN pipeline_runs.warnings IS 'Structured pipeline warnings: [{ date, message, code }] with code GROUP_SKIPPED or RULE_UNSATISFIED';
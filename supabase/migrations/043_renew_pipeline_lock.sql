@@ -0,0 +1,27 @@
+-- Renew Pipeline Lock
+--
+-- Renewing through acquire_pipeline_lock could recreate a lease the fill had
+-- already released, when a late renewal landed after the release. This
+-- function only extends a lease that still exists with the fill's token.
+
+CREATE OR REPLACE FUNCTION renew_pipeline_lock(
+  genre_param TEXT,
+  token_param UUID,
+  ttl_seconds_param INTEGER
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE pipeline_locks
+  SET expires_at = NOW() + make_interval(secs => ttl_seconds_param)
+  WHERE genre = genre_param
+    AND token = token_param;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION renew_pipeline_lock(TEXT, UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION renew_pipeline_lock(TEXT, UUID, INTEGER) TO authenticated, service_role;
+
+COMMENT ON FUNCTION renew_pipeline_lock(TEXT, UUID, INTEGER) IS
+  'Extends a genre''s pipeline lease still held with the token; returns false (and creates nothing) when it is gone or taken over';
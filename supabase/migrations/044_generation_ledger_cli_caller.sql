@@ -0,0 +1,12 @@
+-- Generation ledger CLI caller
+-- Manual pipeline CLI runs are recorded as cli so their spend is not
+-- counted as part of the scheduled fill
+
+ALTER TABLE generation_ledger
+DROP CONSTRAINT IF EXISTS generation_ledger_caller_check;
+
+ALTER TABLE generation_ledger
+ADD CONSTRAINT generation_ledger_caller_check
+CHECK (caller IN ('generator-page', 'fill-now', 'cron', 'cli'));
+
+COMMENT ON COLUMN generation_ledger.caller IS 'What triggered the call: generator-page, fill-now, cron or cli';
@@ -0,0 +1,184 @@
+-- Tests for create_puzzle (032_create_puzzle_function.sql)
+--
+-- Run against a local database with the Supabase CLI:
+--   supabase start
+--   supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+-- Fixture groups: g1-g4 for the first puzzle, g5-g8 for the second
+INSERT INTO connection_groups (id, items, connection, connection_type, difficulty_score, color, difficulty, status, genre)
+SELECT
+  ('00000000-0000-0000-0000-00000000000' || n)::UUID,
+  jsonb_build_array(jsonb_build_object('id', n, 'title', 'Film ' || n)),
+  'Test connection ' || n,
+  'type-' || n,
+  1000,
+  (ARRAY['yellow', 'green', 'blue', 'purple'])[((n - 1) % 4) + 1],
+  (ARRAY['easy', 'medium', 'hard', 'hardest'])[((n - 1) % 4) + 1],
+  'approved',
+  'films'
+FROM generate_series(1, 8) AS n;
+
+SELECT has_function(
+  'public', 'create_puzzle',
+  ARRAY['uuid[]', 'text', 'date', 'puzzle_status', 'text', 'jsonb'],
+  'create_puzzle exists'
+);
+
+-- Scheduled, published puzzle
+SELECT is(
+  (SELECT status FROM create_puzzle(
+    ARRAY[
+      '00000000-0000-0000-0000-000000000001',
+      '00000000-0000-0000-0000-000000000002',
+      '00000000-0000-0000-0000-000000000003',
+      '00000000-0000-0000-0000-000000000004'
+    ]::UUID[],
+    'films',
+    '2099-01-01',
+    'published'
+  )),
+  'published'::puzzle_status,
+  'creates a published puzzle'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INT FROM puzzles WHERE puzzle_date = '2099-01-01' AND genre = 'films'),
+  1,
+  'schedules the puzzle on the date'
+);
+
+SELECT is(
+  (SELECT jsonb_array_length(groups) FROM puzzles WHERE puzzle_date = '2099-01-01' AND genre = 'films'),
+  4,
+  'snapshots the groups of a published puzzle'
+);
+
+SELECT is(
+  (SELECT groups->0->>'connection' FROM puzzles WHERE puzzle_date = '2099-01-01' AND genre = 'films'),
+  'Test connection 1',
+  'keeps the snapshot in group order'
+);
+
+SELECT is(
+  (SELECT array_agg(usage_count ORDER BY id) FROM connection_groups
+   WHERE id = ANY(ARRAY[
+     '00000000-0000-0000-0000-000000000001',
+     '00000000-0000-0000-0000-000000000002',
+     '00000000-0000-0000-0000-000000000003',
+     '00000000-0000-0000-0000-000000000004'
+   ]::UUID[])),
+  ARRAY[1, 1, 1, 1],
+  'increments usage for every group'
+);
+
+SELECT ok(
+  (SELECT bool_and(last_used_at IS NOT NULL) FROM connection_groups
+   WHERE id = '00000000-0000-0000-0000-000000000001'),
+  'sets last_used_at'
+);
+
+-- Date already taken
+SELECT throws_ok(
+  $$SELECT create_puzzle(
+    ARRAY[
+      '00000000-0000-0000-0000-000000000005',
+      '00000000-0000-0000-0000-000000000006',
+      '00000000-0000-0000-0000-000000000007',
+      '00000000-0000-0000-0000-000000000008'
+    ]::UUID[],
+    'films',
+    '2099-01-01',
+    'published'
+  )$$,
+  '23505',
+  'duplicate puzzle date: 2099-01-01 already has a films puzzle',
+  'rejects a date that already has a puzzle for the genre'
+);
+
+-- Same groups in a different order
+SELECT throws_ok(
+  $$SELECT create_puzzle(
+    ARRAY[
+      '00000000-0000-0000-0000-000000000004',
+      '00000000-0000-0000-0000-000000000003',
+      '00000000-0000-0000-0000-000000000002',
+      '00000000-0000-0000-0000-000000000001'
+    ]::UUID[],
+    'films',
+    '2099-01-02',
+    'published'
+  )$$,
+  '23505',
+  'duplicate puzzle: this group combination already exists for films',
+  'rejects a group combination that already exists, in any order'
+);
+
+SELECT throws_ok(
+  $$SELECT create_puzzle(
+    ARRAY[
+      '00000000-0000-0000-0000-000000000005',
+      '00000000-0000-0000-0000-000000000006',
+      '00000000-0000-0000-0000-000000000007',
+      '00000000-0000-0000-0000-000000000099'
+    ]::UUID[],
+    'films',
+    '2099-01-02',
+    'published'
+  )$$,
+  '23503',
+  NULL,
+  'rejects unknown group ids'
+);
+
+-- Failed calls leave nothing behind
+SELECT is(
+  (SELECT COUNT(*)::INT FROM puzzles WHERE puzzle_date >= '2099-01-01'),
+  1,
+  'failed calls insert no puzzle'
+);
+
+SELECT is(
+  (SELECT SUM(usage_count)::INT FROM connection_groups
+   WHERE id = ANY(ARRAY[
+     '00000000-0000-0000-0000-000000000005',
+     '00000000-0000-0000-0000-000000000006',
+     '00000000-0000-0000-0000-000000000007',
+     '00000000-0000-0000-0000-000000000008'
+   ]::UUID[])),
+  0,
+  'failed calls increment no usage'
+);
+
+-- Unscheduled draft (puzzle builder)
+SELECT is(
+  (SELECT ROW(puzzle_date, status, title, groups)::TEXT FROM create_puzzle(
+    ARRAY[
+      '00000000-0000-0000-0000-000000000005',
+      '00000000-0000-0000-0000-000000000006',
+      '00000000-0000-0000-0000-000000000007',
+      '00000000-0000-0000-0000-000000000008'
+    ]::UUID[],
+    'films',
+    NULL,
+    'pending',
+    'Draft'
+  )),
+  ROW(NULL::DATE, 'pending'::puzzle_status, 'Draft'::TEXT, NULL::JSONB)::TEXT,
+  'creates an unscheduled pending puzzle without a snapshot'
+);
+
+SELECT is(
+  (SELECT usage_count FROM connection_groups WHERE id = '00000000-0000-0000-0000-000000000005'),
+  1,
+  'increments usage for an unscheduled puzzle'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;